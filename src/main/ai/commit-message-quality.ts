@@ -1,8 +1,9 @@
 /**
- * Shared commit-message quality checks used by all AI providers.
+ * Shared commit-message quality checks used by all AI providers, plus the
+ * conventional-commit title parser used for release drafting.
  */
 
-const COMMIT_TITLE_PATTERN = /^[a-z]+(?:\([^)]+\))?(?:!)?:\s.+$/i
+const COMMIT_TITLE_PATTERN = /^([a-z]+)(?:\(([^)]+)\))?(!)?:\s(.+)$/i
 const VAGUE_BULLET_PATTERN = /^(update|fix|change|improve|cleanup|refactor|adjust|misc|various)\.?$/i
 
 export function sanitizeCommitMessage(text: string): string {
@@ -16,6 +17,24 @@ export function sanitizeCommitMessage(text: string): string {
         .trim()
 }
 
+export type ConventionalCommitTitle = {
+    type: string
+    scope: string | null
+    breaking: boolean
+    description: string
+}
+
+export function parseConventionalCommitTitle(title: string): ConventionalCommitTitle | null {
+    const match = COMMIT_TITLE_PATTERN.exec(title.trim())
+    if (!match) return null
+    return {
+        type: match[1].toLowerCase(),
+        scope: match[2]?.trim() || null,
+        breaking: Boolean(match[3]),
+        description: match[4].trim()
+    }
+}
+
 export function isLowQualityCommitMessage(message: string): boolean {
     if (!message) return true
 
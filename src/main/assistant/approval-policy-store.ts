@@ -0,0 +1,103 @@
+import { app } from 'electron'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import log from 'electron-log'
+import type { AssistantApprovalPolicy } from '../../shared/assistant/contracts'
+
+type ApprovalPolicyStoreFile = {
+    version: number
+    projects: Record<string, AssistantApprovalPolicy>
+}
+
+const STORE_VERSION = 1
+const MAX_RULES_PER_LIST = 100
+
+export const EMPTY_ASSISTANT_APPROVAL_POLICY: AssistantApprovalPolicy = {
+    allowCommands: [],
+    denyCommands: [],
+    allowPaths: [],
+    denyPaths: []
+}
+
+let storeCache: ApprovalPolicyStoreFile | null = null
+let writeQueue: Promise<void> = Promise.resolve()
+
+function getStorePath(): string {
+    return join(app.getPath('userData'), 'assistant', 'approval-policies.json')
+}
+
+function normalizeApprovalProjectKey(projectPath: string): string {
+    const normalized = resolve(projectPath).replace(/\\/g, '/')
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized
+}
+
+function sanitizeRuleList(value: unknown): string[] {
+    if (!Array.isArray(value)) return []
+    const rules = value.map((entry) => String(entry ?? '').trim()).filter(Boolean)
+    return Array.from(new Set(rules)).slice(0, MAX_RULES_PER_LIST)
+}
+
+export function sanitizeAssistantApprovalPolicy(raw: unknown): AssistantApprovalPolicy {
+    const record = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {}
+    return {
+        allowCommands: sanitizeRuleList(record.allowCommands),
+        denyCommands: sanitizeRuleList(record.denyCommands),
+        allowPaths: sanitizeRuleList(record.allowPaths),
+        denyPaths: sanitizeRuleList(record.denyPaths)
+    }
+}
+
+function isEmptyPolicy(policy: AssistantApprovalPolicy): boolean {
+    return Object.values(policy).every((rules) => rules.length === 0)
+}
+
+async function loadStore(): Promise<ApprovalPolicyStoreFile> {
+    if (storeCache) return storeCache
+    try {
+        const parsed = JSON.parse(await readFile(getStorePath(), 'utf-8')) as Partial<ApprovalPolicyStoreFile>
+        const projects: Record<string, AssistantApprovalPolicy> = {}
+        if (parsed.version === STORE_VERSION && parsed.projects && typeof parsed.projects === 'object') {
+            for (const [projectKey, policy] of Object.entries(parsed.projects)) {
+                const sanitized = sanitizeAssistantApprovalPolicy(policy)
+                if (!isEmptyPolicy(sanitized)) projects[projectKey] = sanitized
+            }
+        }
+        storeCache = { version: STORE_VERSION, projects }
+    } catch (err: any) {
+        if (err?.code !== 'ENOENT') {
+            log.warn('[Assistant] Failed to read approval policies', err)
+        }
+        storeCache = { version: STORE_VERSION, projects: {} }
+    }
+    return storeCache
+}
+
+function persistStore(store: ApprovalPolicyStoreFile): Promise<void> {
+    const payload = JSON.stringify(store, null, 2)
+    writeQueue = writeQueue.then(async () => {
+        const storePath = getStorePath()
+        await mkdir(dirname(storePath), { recursive: true })
+        await writeFile(storePath, payload, 'utf-8')
+    }).catch((err) => {
+        log.warn('[Assistant] Failed to write approval policies', err)
+    })
+    return writeQueue
+}
+
+export async function readAssistantApprovalPolicy(projectPath: string): Promise<AssistantApprovalPolicy> {
+    const store = await loadStore()
+    return store.projects[normalizeApprovalProjectKey(projectPath)] || EMPTY_ASSISTANT_APPROVAL_POLICY
+}
+
+export async function writeAssistantApprovalPolicy(projectPath: string, policy: unknown): Promise<AssistantApprovalPolicy> {
+    const store = await loadStore()
+    const projectKey = normalizeApprovalProjectKey(projectPath)
+    const sanitized = sanitizeAssistantApprovalPolicy(policy)
+    if (isEmptyPolicy(sanitized)) {
+        delete store.projects[projectKey]
+    } else {
+        store.projects[projectKey] = sanitized
+    }
+    await persistStore(store)
+    return sanitized
+}
@@ -0,0 +1,117 @@
+import { isAbsolute, relative, resolve } from 'node:path'
+import type { AssistantApprovalPolicy, AssistantApprovalRequestType } from '../../shared/assistant/contracts'
+
+export interface AssistantApprovalPolicyMatch {
+    decision: 'accept' | 'decline'
+    ruleList: keyof AssistantApprovalPolicy
+    rule: string
+}
+
+const SHELL_WRAPPER_PATTERN = /^(?:\S*[\\/])?(?:bash|sh|zsh)(?:\.exe)?\s+-l?c\s+(['"])([\s\S]*)\1$/
+const POWERSHELL_WRAPPER_PATTERN = /^(?:\S*[\\/])?(?:powershell|pwsh)(?:\.exe)?\s+(?:-\S+\s+)*-Command\s+(['"]?)([\s\S]*)\1$/i
+// Every shell metacharacter that can chain, background, redirect or substitute a command.
+const COMMAND_SEPARATOR_PATTERN = /\s*(?:&&|\|\||\$\(|<\(|[;|&<>`()\r\n])\s*/
+const SHELL_METACHARACTER_PATTERN = /[;|&<>`()\r\n]|\$\(/
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+    return new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`)
+}
+
+function globToRegExp(pattern: string): RegExp {
+    const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '/**')
+    let source = ''
+    for (let index = 0; index < normalized.length; index += 1) {
+        const char = normalized[index]
+        if (char === '*' && normalized[index + 1] === '*') {
+            const followedBySlash = normalized[index + 2] === '/'
+            source += followedBySlash ? '(?:.*/)?' : '.*'
+            index += followedBySlash ? 2 : 1
+        } else if (char === '*') {
+            source += '[^/]*'
+        } else if (char === '?') {
+            source += '[^/]'
+        } else {
+            source += escapeRegExp(char)
+        }
+    }
+    return new RegExp(`^${source}$`)
+}
+
+/** Strips the shell wrapper Codex reports around commands so rules can be written against the command itself. */
+function normalizeCommand(command: string): string {
+    let normalized = command.trim().replace(/[ \t]+/g, ' ')
+    for (const pattern of [SHELL_WRAPPER_PATTERN, POWERSHELL_WRAPPER_PATTERN]) {
+        const match = normalized.match(pattern)
+        if (match) normalized = match[2].trim()
+    }
+    return normalized
+}
+
+function findMatchingRule(rules: string[], value: string, toRegExp: (rule: string) => RegExp): string | null {
+    return rules.find((rule) => toRegExp(rule).test(value)) ?? null
+}
+
+function evaluateCommand(policy: AssistantApprovalPolicy, rawCommand: string): AssistantApprovalPolicyMatch | null {
+    const command = normalizeCommand(rawCommand)
+    if (!command) return null
+    const segments = command.split(COMMAND_SEPARATOR_PATTERN).filter(Boolean)
+
+    for (const value of [command, ...segments]) {
+        const rule = findMatchingRule(policy.denyCommands, value, wildcardToRegExp)
+        if (rule) return { decision: 'decline', ruleList: 'denyCommands', rule }
+    }
+
+    // Anything chained, backgrounded, redirected or substituted is left to the user, otherwise
+    // `npm test*` would also let `npm test & rm -rf ~` or `npm test > ~/.bashrc` through.
+    if (SHELL_METACHARACTER_PATTERN.test(command)) return null
+    const rule = findMatchingRule(policy.allowCommands, command, wildcardToRegExp)
+    return rule ? { decision: 'accept', ruleList: 'allowCommands', rule } : null
+}
+
+function matchesPathRule(rule: string, relativePath: string): boolean {
+    return rule.startsWith('!')
+        ? !globToRegExp(rule.slice(1)).test(relativePath)
+        : globToRegExp(rule).test(relativePath)
+}
+
+function evaluatePaths(policy: AssistantApprovalPolicy, projectPath: string, paths: string[]): AssistantApprovalPolicyMatch | null {
+    if (paths.length === 0) return null
+    const root = resolve(projectPath)
+    const relativePaths = paths.map((path) => relative(root, resolve(root, path)).replace(/\\/g, '/'))
+
+    for (const relativePath of relativePaths) {
+        const rule = policy.denyPaths.find((entry) => matchesPathRule(entry, relativePath))
+        if (rule) return { decision: 'decline', ruleList: 'denyPaths', rule }
+    }
+
+    let firstRule: string | null = null
+    for (const relativePath of relativePaths) {
+        if (relativePath.startsWith('..') || isAbsolute(relativePath)) return null
+        const rule = policy.allowPaths.find((entry) => matchesPathRule(entry, relativePath))
+        if (!rule) return null
+        firstRule ??= rule
+    }
+    return firstRule ? { decision: 'accept', ruleList: 'allowPaths', rule: firstRule } : null
+}
+
+/**
+ * Returns the decision a project's policy makes for an approval request, or null when the user
+ * has to decide. Command rules cover command requests and path rules cover file changes; paths
+ * outside the project are never auto-approved.
+ */
+export function evaluateAssistantApprovalPolicy(
+    policy: AssistantApprovalPolicy,
+    request: { projectPath: string; requestType: AssistantApprovalRequestType; command?: string; paths?: string[] }
+): AssistantApprovalPolicyMatch | null {
+    if (request.requestType === 'command') {
+        return request.command ? evaluateCommand(policy, request.command) : null
+    }
+    if (request.requestType === 'file-change') {
+        return evaluatePaths(policy, request.projectPath, request.paths || [])
+    }
+    return null
+}
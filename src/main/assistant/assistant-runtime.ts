@@ -0,0 +1,64 @@
+import type {
+    AssistantAccountIdentity,
+    AssistantApprovalDecision,
+    AssistantAuthMode,
+    AssistantInteractionMode,
+    AssistantModelInfo,
+    AssistantRateLimitSnapshot,
+    AssistantRuntimeEvent,
+    AssistantRuntimeMode,
+    AssistantThread
+} from '../../shared/assistant/contracts'
+
+export interface AssistantRuntimeTurnOptions {
+    model?: string
+    runtimeMode?: AssistantRuntimeMode
+    interactionMode?: AssistantInteractionMode
+    effort?: 'low' | 'medium' | 'high' | 'xhigh'
+    serviceTier?: 'fast'
+}
+
+export interface AssistantRuntimeAccount {
+    account: AssistantAccountIdentity | null
+    authMode: AssistantAuthMode | null
+    requiresOpenaiAuth: boolean
+}
+
+export interface AssistantRuntimeRateLimits {
+    rateLimits: AssistantRateLimitSnapshot | null
+    rateLimitsByLimitId: Record<string, AssistantRateLimitSnapshot>
+}
+
+/**
+ * Backend that runs assistant threads. Implementations report progress only through
+ * `runtime` events; the service projects those into the read model, so every backend has
+ * to emit the same event shapes for turns, content, approvals and tool activity.
+ *
+ * Thread ids passed in may be either the local thread id or the provider thread id
+ * announced in `thread.started`.
+ */
+export interface AssistantRuntime {
+    on(event: 'runtime', listener: (event: AssistantRuntimeEvent) => void): this
+    checkAvailability(): Promise<{ available: boolean; reason: string | null }>
+    listModels(forceRefresh?: boolean): Promise<AssistantModelInfo[]>
+    getAccount(): Promise<AssistantRuntimeAccount>
+    getAccountRateLimits(): Promise<AssistantRuntimeRateLimits>
+    connect(thread: AssistantThread, cwd: string): Promise<void>
+    /**
+     * Connects `thread` as a copy of `sourceProviderThreadId` without its last `dropTurns` turns,
+     * so a prompt edited in the middle of a conversation keeps the earlier context.
+     */
+    forkThread(thread: AssistantThread, cwd: string, sourceProviderThreadId: string | null, dropTurns: number): Promise<void>
+    hasSession(threadId: string): boolean
+    sendPrompt(
+        threadId: string,
+        prompt: string,
+        options?: AssistantRuntimeTurnOptions
+    ): Promise<{ turnId: string; providerThreadId: string | null }>
+    interruptTurn(threadId: string, turnId?: string): Promise<void>
+    rollbackThread(threadId: string, numTurns: number): Promise<void>
+    respondApproval(threadId: string, requestId: string, decision: AssistantApprovalDecision): Promise<void>
+    respondUserInput(threadId: string, requestId: string, answers: Record<string, string | string[]>): Promise<void>
+    disconnect(threadId: string): void
+    dispose(): void
+}
@@ -4,15 +4,18 @@ import { EventEmitter } from 'node:events'
 import readline from 'node:readline'
 import log from 'electron-log'
 import type {
-    AssistantAccountIdentity,
     AssistantApprovalDecision,
-    AssistantInteractionMode,
     AssistantModelInfo,
     AssistantRateLimitSnapshot,
     AssistantRuntimeEvent,
-    AssistantRuntimeMode,
     AssistantThread
 } from '../../shared/assistant/contracts'
+import type {
+    AssistantRuntime,
+    AssistantRuntimeAccount,
+    AssistantRuntimeRateLimits,
+    AssistantRuntimeTurnOptions
+} from './assistant-runtime'
 import {
     checkCodexAvailability,
     parseAccount,
@@ -42,7 +45,7 @@ function isToolRouterStderr(message: string): boolean {
     return /codex_core::tools::router:\s*error=/i.test(message)
 }
 
-export class CodexAppServerRuntime extends EventEmitter {
+export class CodexAppServerRuntime extends EventEmitter implements AssistantRuntime {
     private static readonly AVAILABILITY_SUCCESS_TTL_MS = 60_000
 
     private readonly sessions = new Map<string, SessionContext>()
@@ -121,7 +124,7 @@ export class CodexAppServerRuntime extends EventEmitter {
         })
     }
 
-    async getAccount(): Promise<{ account: AssistantAccountIdentity | null; authMode: 'apikey' | 'chatgpt' | 'chatgptAuthTokens' | null; requiresOpenaiAuth: boolean }> {
+    async getAccount(): Promise<AssistantRuntimeAccount> {
         const response = await this.requestFromAvailableServer<Record<string, unknown>>('account/read', { refreshToken: true }, 8000)
         return {
             account: parseAccount(asRecord(response?.['account'])),
@@ -130,10 +133,7 @@ export class CodexAppServerRuntime extends EventEmitter {
         }
     }
 
-    async getAccountRateLimits(): Promise<{
-        rateLimits: AssistantRateLimitSnapshot | null
-        rateLimitsByLimitId: Record<string, AssistantRateLimitSnapshot>
-    }> {
+    async getAccountRateLimits(): Promise<AssistantRuntimeRateLimits> {
         const response = await this.requestFromAvailableServer<Record<string, unknown>>('account/rateLimits/read', {}, 8000)
         const rateLimitsByLimitIdRecord = asRecord(response?.['rateLimitsByLimitId'])
         const rateLimitsByLimitId = Object.entries(rateLimitsByLimitIdRecord || {}).reduce<Record<string, AssistantRateLimitSnapshot>>((accumulator, [limitId, value]) => {
@@ -182,7 +182,19 @@ export class CodexAppServerRuntime extends EventEmitter {
 
     async connect(thread: AssistantThread, cwd: string): Promise<void> {
         if (this.sessions.has(thread.id)) return
+        await this.openSession(thread, cwd, null)
+    }
 
+    async forkThread(thread: AssistantThread, cwd: string, sourceProviderThreadId: string | null, dropTurns: number): Promise<void> {
+        if (this.sessions.has(thread.id)) return
+        const forked = await this.openSession(thread, cwd, sourceProviderThreadId)
+        if (forked && dropTurns > 0) {
+            await this.rollbackThread(thread.id, dropTurns)
+        }
+    }
+
+    /** Starts an app-server for `thread`; resolves to true when it was opened as a fork of `forkFromProviderThreadId`. */
+    private async openSession(thread: AssistantThread, cwd: string, forkFromProviderThreadId: string | null): Promise<boolean> {
         const availability = await this.checkAvailability()
         if (!availability.available) {
             throw new Error(availability.reason || 'Codex CLI is unavailable.')
@@ -255,7 +267,18 @@ export class CodexAppServerRuntime extends EventEmitter {
         }
 
         let response: Record<string, unknown> | undefined
-        if (thread.providerThreadId) {
+        let forked = false
+        if (forkFromProviderThreadId) {
+            try {
+                response = await this.sendRequest<Record<string, unknown>>(context, 'thread/fork', {
+                    ...sessionOverrides,
+                    threadId: forkFromProviderThreadId
+                })
+                forked = true
+            } catch (error) {
+                log.warn('[Assistant] thread/fork failed, falling back to thread/start', error)
+            }
+        } else if (thread.providerThreadId) {
             try {
                 response = await this.sendRequest<Record<string, unknown>>(context, 'thread/resume', {
                     ...sessionOverrides,
@@ -301,6 +324,7 @@ export class CodexAppServerRuntime extends EventEmitter {
             providerThreadId,
             payload: { state: 'ready', message: `Connected to thread ${providerThreadId}` }
         })
+        return forked
     }
 
     hasSession(threadId: string): boolean {
@@ -318,13 +342,7 @@ export class CodexAppServerRuntime extends EventEmitter {
     async sendPrompt(
         threadId: string,
         prompt: string,
-        options?: {
-            model?: string
-            runtimeMode?: AssistantRuntimeMode
-            interactionMode?: AssistantInteractionMode
-            effort?: 'low' | 'medium' | 'high' | 'xhigh'
-            serviceTier?: 'fast'
-        }
+        options?: AssistantRuntimeTurnOptions
     ): Promise<{ turnId: string; providerThreadId: string | null }> {
         const context = this.requireSession(threadId)
         const targetProviderThreadId = this.resolveTargetProviderThreadId(threadId, context)
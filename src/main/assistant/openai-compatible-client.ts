@@ -0,0 +1,178 @@
+import type { AssistantOpenAiCompatibleConfig, AssistantTurnUsage } from '../../shared/assistant/contracts'
+import { asRecord, asString } from './codex-runtime-value-utils'
+import type { OpenAiCompatibleToolDefinition } from './openai-compatible-tools'
+
+export interface OpenAiToolCall {
+    id: string
+    type: 'function'
+    function: { name: string; arguments: string }
+}
+
+export type OpenAiChatMessage =
+    | { role: 'system' | 'user'; content: string }
+    | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string }
+
+export interface OpenAiChatCompletionResult {
+    content: string
+    toolCalls: OpenAiToolCall[]
+    usage: AssistantTurnUsage | null
+}
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+function buildHeaders(config: AssistantOpenAiCompatibleConfig): Record<string, string> {
+    return {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+    }
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+    const text = await response.text().catch(() => '')
+    try {
+        const parsed = JSON.parse(text)
+        const message = parsed?.error?.message ?? parsed?.error ?? parsed?.message
+        if (typeof message === 'string' && message.trim()) return message.trim()
+    } catch {
+        // Fall back to the raw body below.
+    }
+    return text.trim().slice(0, 300) || `Request failed (${response.status}).`
+}
+
+function toRequestError(config: AssistantOpenAiCompatibleConfig, error: unknown): Error {
+    if (error instanceof Error && error.name === 'AbortError') return error
+    const message = error instanceof Error ? error.message : 'request failed'
+    return new Error(`Could not reach ${config.baseUrl}: ${message}`)
+}
+
+export async function listEndpointModels(config: AssistantOpenAiCompatibleConfig): Promise<string[]> {
+    let response: Response
+    try {
+        response = await fetch(`${config.baseUrl}/models`, {
+            headers: buildHeaders(config),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        })
+    } catch (error) {
+        throw toRequestError(config, error)
+    }
+    if (response.status === 401 || response.status === 403) {
+        throw new Error(`${config.baseUrl} rejected the API key (${response.status}).`)
+    }
+    if (!response.ok) {
+        throw new Error(await readErrorMessage(response))
+    }
+    const parsed = await response.json().catch(() => null) as { data?: Array<{ id?: unknown }>; models?: Array<{ id?: unknown; name?: unknown }> } | null
+    const entries = parsed?.data ?? parsed?.models ?? []
+    return entries
+        .map((entry) => String((entry as { id?: unknown }).id ?? (entry as { name?: unknown }).name ?? '').trim())
+        .filter(Boolean)
+}
+
+function readUsage(value: unknown): AssistantTurnUsage | null {
+    if (!value || typeof value !== 'object') return null
+    const record = value as Record<string, unknown>
+    const read = (entry: unknown) => typeof entry === 'number' && Number.isFinite(entry) ? entry : null
+    const details = record['prompt_tokens_details'] as Record<string, unknown> | undefined
+    return {
+        inputTokens: read(record['prompt_tokens']),
+        outputTokens: read(record['completion_tokens']),
+        cachedInputTokens: read(details?.['cached_tokens']),
+        totalTokens: read(record['total_tokens'])
+    }
+}
+
+/**
+ * Streams one chat completion, forwarding text deltas as they arrive. Tool call fragments are
+ * assembled by index because most servers split the JSON arguments across many chunks.
+ */
+export async function streamChatCompletion(input: {
+    config: AssistantOpenAiCompatibleConfig
+    model: string
+    messages: OpenAiChatMessage[]
+    tools: OpenAiCompatibleToolDefinition[]
+    signal: AbortSignal
+    onTextDelta: (delta: string) => void
+}): Promise<OpenAiChatCompletionResult> {
+    let response: Response
+    try {
+        response = await fetch(`${input.config.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: { ...buildHeaders(input.config), Accept: 'text/event-stream' },
+            body: JSON.stringify({
+                model: input.model,
+                messages: input.messages,
+                stream: true,
+                stream_options: { include_usage: true },
+                ...(input.tools.length > 0 ? { tools: input.tools, tool_choice: 'auto' } : {})
+            }),
+            signal: input.signal
+        })
+    } catch (error) {
+        throw toRequestError(input.config, error)
+    }
+    if (!response.ok || !response.body) {
+        throw new Error(await readErrorMessage(response))
+    }
+
+    let content = ''
+    let usage: AssistantTurnUsage | null = null
+    const toolCalls: OpenAiToolCall[] = []
+    const handleData = (data: string) => {
+        if (data === '[DONE]') return
+        let chunk: unknown
+        try {
+            chunk = JSON.parse(data)
+        } catch {
+            return
+        }
+        const record = asRecord(chunk)
+        if (!record) return
+        if (record['error']) {
+            const message = asString(asRecord(record['error'])?.['message'])
+            throw new Error(message ?? 'The endpoint reported an error.')
+        }
+        usage = readUsage(record['usage']) ?? usage
+        const choices = record['choices']
+        const delta = asRecord(Array.isArray(choices) ? asRecord(choices[0])?.['delta'] : undefined)
+        const deltaContent = asString(delta?.['content'])
+        if (deltaContent) {
+            content += deltaContent
+            input.onTextDelta(deltaContent)
+        }
+        const toolCallFragments = delta?.['tool_calls']
+        for (const entry of Array.isArray(toolCallFragments) ? toolCallFragments : []) {
+            const fragment = asRecord(entry)
+            if (!fragment) continue
+            const fragmentFunction = asRecord(fragment['function'])
+            const index = typeof fragment['index'] === 'number' ? fragment['index'] : toolCalls.length
+            const call = toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } }
+            if (fragment['id']) call.id = String(fragment['id'])
+            if (fragmentFunction?.['name']) call.function.name += String(fragmentFunction['name'])
+            if (fragmentFunction?.['arguments']) call.function.arguments += String(fragmentFunction['arguments'])
+        }
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    while (true) {
+        const { done, value } = await reader.read()
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+        const lines = buffer.split(/\r?\n/)
+        buffer = done ? '' : lines.pop() ?? ''
+        for (const line of lines) {
+            if (line.startsWith('data:')) handleData(line.slice(5).trim())
+        }
+        if (done) break
+    }
+
+    return {
+        content,
+        toolCalls: toolCalls
+            .filter(Boolean)
+            .map((call, index) => ({ ...call, id: call.id || `call_${index}` })),
+        usage
+    }
+}
@@ -0,0 +1,680 @@
+import { randomUUID } from 'node:crypto'
+import { EventEmitter } from 'node:events'
+import log from 'electron-log'
+import type {
+    AssistantApprovalDecision,
+    AssistantApprovalRequestType,
+    AssistantInteractionMode,
+    AssistantModelInfo,
+    AssistantOpenAiCompatibleConfig,
+    AssistantPlanStep,
+    AssistantRuntimeEvent,
+    AssistantRuntimeMode,
+    AssistantThread,
+    AssistantTurnUsage
+} from '../../shared/assistant/contracts'
+import type {
+    AssistantRuntime,
+    AssistantRuntimeAccount,
+    AssistantRuntimeRateLimits,
+    AssistantRuntimeTurnOptions
+} from './assistant-runtime'
+import { asRecord, asString, toUserInputQuestions } from './codex-runtime-protocol'
+import {
+    listEndpointModels,
+    streamChatCompletion,
+    type OpenAiChatMessage,
+    type OpenAiToolCall
+} from './openai-compatible-client'
+import {
+    buildOpenAiCompatibleSystemPrompt,
+    getOpenAiCompatibleToolDefinitions,
+    isOpenAiCompatibleToolName,
+    listToolDirectory,
+    readToolFile,
+    resolveToolPath,
+    runToolCommand,
+    writeToolFile
+} from './openai-compatible-tools'
+import { nowIso } from './utils'
+
+type PendingRequest<T> = {
+    turnId: string
+    itemId: string
+    resolve: (value: T) => void
+}
+
+type ActiveTurn = {
+    turnId: string
+    controller: AbortController
+    done: Promise<void>
+}
+
+type OpenAiCompatibleSession = {
+    thread: AssistantThread
+    cwd: string
+    providerThreadId: string
+    /** Chat history grouped per turn so `rollbackThread` can drop whole turns. */
+    turns: OpenAiChatMessage[][]
+    activeTurn: ActiveTurn | null
+    pendingApprovals: Map<string, PendingRequest<AssistantApprovalDecision>>
+    pendingUserInputs: Map<string, PendingRequest<Record<string, string | string[]>>>
+    approvedForSession: Set<AssistantApprovalRequestType>
+}
+
+type RuntimeEventInput = AssistantRuntimeEvent extends infer Event
+    ? Event extends AssistantRuntimeEvent ? Omit<Event, 'eventId' | 'createdAt' | 'threadId'> : never
+    : never
+
+type TurnSettings = {
+    model: string
+    runtimeMode: AssistantRuntimeMode
+    interactionMode: AssistantInteractionMode
+}
+
+const MAX_TOOL_STEPS_PER_TURN = 25
+
+// The service keys streamed tool output by this id, so tool activities reuse it to merge.
+function buildToolActivityId(itemId: string): string {
+    return `codex-item-${itemId}`
+}
+
+function createAbortError(): Error {
+    const error = new Error('Turn interrupted.')
+    error.name = 'AbortError'
+    return error
+}
+
+function isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError'
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+    try {
+        return asRecord(JSON.parse(raw || '{}')) || {}
+    } catch {
+        throw new Error('Tool arguments were not valid JSON.')
+    }
+}
+
+function addUsage(total: AssistantTurnUsage | null, next: AssistantTurnUsage | null): AssistantTurnUsage | null {
+    if (!next) return total
+    if (!total) return { ...next }
+    const sum = (left?: number | null, right?: number | null) => left == null && right == null ? null : (left ?? 0) + (right ?? 0)
+    return {
+        inputTokens: sum(total.inputTokens, next.inputTokens),
+        outputTokens: sum(total.outputTokens, next.outputTokens),
+        cachedInputTokens: sum(total.cachedInputTokens, next.cachedInputTokens),
+        totalTokens: sum(total.totalTokens, next.totalTokens)
+    }
+}
+
+/**
+ * Rebuilds chat history from the persisted transcript. Tool calls are not persisted, so only
+ * the visible text survives a reconnect. A trailing prompt without a reply is dropped; it is
+ * either the prompt being sent right now or one whose turn failed.
+ */
+function seedTurnsFromThread(thread: AssistantThread): OpenAiChatMessage[][] {
+    const turns: OpenAiChatMessage[][] = []
+    for (const message of thread.messages) {
+        const text = message.text.trim()
+        if (!text || message.role === 'system') continue
+        if (message.role === 'user') {
+            turns.push([{ role: 'user', content: text }])
+        } else if (turns.length > 0) {
+            turns[turns.length - 1].push({ role: 'assistant', content: text })
+        }
+    }
+    if (turns.length > 0 && turns[turns.length - 1].length === 1) turns.pop()
+    return turns
+}
+
+/** Answers tool calls left open by an interrupted step so the next request is still valid. */
+function closeOpenToolCalls(turn: OpenAiChatMessage[]): void {
+    const lastCallIndex = turn.map((message) => message.role === 'assistant' && Boolean(message.tool_calls?.length)).lastIndexOf(true)
+    if (lastCallIndex < 0) return
+    const assistantMessage = turn[lastCallIndex] as Extract<OpenAiChatMessage, { role: 'assistant' }>
+    const answered = new Set(turn.slice(lastCallIndex + 1).map((message) => message.role === 'tool' ? message.tool_call_id : ''))
+    for (const call of assistantMessage.tool_calls || []) {
+        if (!answered.has(call.id)) {
+            turn.push({ role: 'tool', tool_call_id: call.id, content: 'Interrupted by the user.' })
+        }
+    }
+}
+
+/**
+ * Runs assistant threads against any server that implements the OpenAI chat-completions API
+ * (OpenAI itself, llama.cpp, Ollama, LM Studio, vLLM...). Unlike Codex there is no agent on the
+ * other side, so this runtime owns the tool loop: it executes tool calls locally, asks for
+ * approval where the runtime mode requires it, and feeds results back until the model stops.
+ */
+export class OpenAiCompatibleRuntime extends EventEmitter implements AssistantRuntime {
+    private static readonly AVAILABILITY_SUCCESS_TTL_MS = 60_000
+
+    private readonly sessions = new Map<string, OpenAiCompatibleSession>()
+    private readonly threadAliases = new Map<string, string>()
+    private modelCache: { baseUrl: string; models: AssistantModelInfo[] } | null = null
+    private availability: { baseUrl: string; checkedAt: number } | null = null
+
+    constructor(private readonly readConfig: () => Promise<AssistantOpenAiCompatibleConfig>) {
+        super()
+    }
+
+    async checkAvailability(): Promise<{ available: boolean; reason: string | null }> {
+        const config = await this.readConfig()
+        if (
+            this.availability?.baseUrl === config.baseUrl
+            && (Date.now() - this.availability.checkedAt) < OpenAiCompatibleRuntime.AVAILABILITY_SUCCESS_TTL_MS
+        ) {
+            return { available: true, reason: null }
+        }
+        try {
+            await listEndpointModels(config)
+            this.availability = { baseUrl: config.baseUrl, checkedAt: Date.now() }
+            return { available: true, reason: null }
+        } catch (error) {
+            this.availability = null
+            return { available: false, reason: error instanceof Error ? error.message : 'Endpoint is unavailable.' }
+        }
+    }
+
+    async listModels(forceRefresh = false): Promise<AssistantModelInfo[]> {
+        const config = await this.readConfig()
+        if (!forceRefresh && this.modelCache?.baseUrl === config.baseUrl && this.modelCache.models.length > 0) {
+            return this.modelCache.models
+        }
+        let ids: string[] = []
+        try {
+            ids = await listEndpointModels(config)
+        } catch (error) {
+            log.warn('[Assistant] OpenAI-compatible model list failed', error)
+            if (this.modelCache?.baseUrl === config.baseUrl) return this.modelCache.models
+        }
+        if (config.defaultModel && !ids.includes(config.defaultModel)) {
+            ids.unshift(config.defaultModel)
+        }
+        const models = ids.map((id) => ({ id, label: id }))
+        this.modelCache = { baseUrl: config.baseUrl, models }
+        return models
+    }
+
+    async getAccount(): Promise<AssistantRuntimeAccount> {
+        const config = await this.readConfig()
+        return {
+            account: config.apiKey ? { type: 'apiKey', email: null, planType: null } : null,
+            authMode: config.apiKey ? 'apikey' : null,
+            requiresOpenaiAuth: false
+        }
+    }
+
+    async getAccountRateLimits(): Promise<AssistantRuntimeRateLimits> {
+        return { rateLimits: null, rateLimitsByLimitId: {} }
+    }
+
+    async connect(thread: AssistantThread, cwd: string): Promise<void> {
+        if (this.sessions.has(thread.id)) return
+
+        const availability = await this.checkAvailability()
+        if (!availability.available) {
+            throw new Error(availability.reason || 'OpenAI-compatible endpoint is unavailable.')
+        }
+
+        const providerThreadId = thread.providerThreadId || `openai-compatible-${randomUUID()}`
+        const session: OpenAiCompatibleSession = {
+            thread: { ...thread, cwd },
+            cwd,
+            providerThreadId,
+            turns: seedTurnsFromThread(thread),
+            activeTurn: null,
+            pendingApprovals: new Map(),
+            pendingUserInputs: new Map(),
+            approvedForSession: new Set()
+        }
+        this.sessions.set(thread.id, session)
+        this.threadAliases.set(providerThreadId, thread.id)
+
+        this.emitRuntime(session, {
+            type: 'session.started',
+            payload: {
+                cwd,
+                model: thread.model,
+                runtimeMode: thread.runtimeMode,
+                interactionMode: thread.interactionMode
+            }
+        })
+        this.emitRuntime(session, { type: 'thread.started', payload: { providerThreadId } })
+        const config = await this.readConfig()
+        this.emitRuntime(session, {
+            type: 'session.state.changed',
+            payload: { state: 'ready', message: `Connected to ${config.baseUrl}` }
+        })
+    }
+
+    hasSession(threadId: string): boolean {
+        return Boolean(this.getSession(threadId))
+    }
+
+    async sendPrompt(
+        threadId: string,
+        prompt: string,
+        options?: AssistantRuntimeTurnOptions
+    ): Promise<{ turnId: string; providerThreadId: string | null }> {
+        const session = this.requireSession(threadId)
+        if (session.activeTurn) {
+            throw new Error('A turn is already running on this thread.')
+        }
+
+        const settings: TurnSettings = {
+            model: await this.resolveModel(options?.model || session.thread.model),
+            runtimeMode: options?.runtimeMode || session.thread.runtimeMode,
+            interactionMode: options?.interactionMode || session.thread.interactionMode
+        }
+        session.thread = { ...session.thread, ...settings }
+
+        const turnId = randomUUID()
+        const turn: OpenAiChatMessage[] = [{ role: 'user', content: prompt }]
+        session.turns.push(turn)
+        const controller = new AbortController()
+        // Start on the next tick so the service records the running turn before any turn events arrive.
+        const done = new Promise<void>((resolve) => {
+            setImmediate(() => {
+                void this.runTurn(session, turn, turnId, settings, controller.signal).finally(resolve)
+            })
+        })
+        session.activeTurn = { turnId, controller, done }
+        return { turnId, providerThreadId: session.providerThreadId }
+    }
+
+    async interruptTurn(threadId: string, turnId?: string): Promise<void> {
+        const session = this.requireSession(threadId)
+        const activeTurn = session.activeTurn
+        if (!activeTurn || (turnId && activeTurn.turnId !== turnId)) return
+        activeTurn.controller.abort()
+        await activeTurn.done
+    }
+
+    async forkThread(thread: AssistantThread, cwd: string): Promise<void> {
+        // History is replayed from the forked thread's copied messages, so nothing to drop here.
+        await this.connect(thread, cwd)
+    }
+
+    async rollbackThread(threadId: string, numTurns: number): Promise<void> {
+        const session = this.requireSession(threadId)
+        if (numTurns < 1) return
+        session.turns.splice(Math.max(0, session.turns.length - numTurns))
+    }
+
+    async respondApproval(threadId: string, requestId: string, decision: AssistantApprovalDecision): Promise<void> {
+        const session = this.requireSession(threadId)
+        const pending = session.pendingApprovals.get(requestId)
+        if (!pending) throw new Error(`Unknown approval request: ${requestId}`)
+
+        session.pendingApprovals.delete(requestId)
+        this.emitRuntime(session, {
+            type: 'approval.resolved',
+            turnId: pending.turnId,
+            itemId: pending.itemId,
+            requestId,
+            payload: { decision }
+        })
+        pending.resolve(decision)
+    }
+
+    async respondUserInput(threadId: string, requestId: string, answers: Record<string, string | string[]>): Promise<void> {
+        const session = this.requireSession(threadId)
+        const pending = session.pendingUserInputs.get(requestId)
+        if (!pending) throw new Error(`Unknown user-input request: ${requestId}`)
+
+        session.pendingUserInputs.delete(requestId)
+        this.emitRuntime(session, {
+            type: 'user-input.resolved',
+            turnId: pending.turnId,
+            itemId: pending.itemId,
+            requestId,
+            payload: { answers }
+        })
+        pending.resolve(answers)
+    }
+
+    disconnect(threadId: string): void {
+        const session = this.getSession(threadId)
+        if (!session) return
+
+        session.activeTurn?.controller.abort()
+        this.sessions.delete(session.thread.id)
+        for (const [alias, mappedThreadId] of this.threadAliases.entries()) {
+            if (mappedThreadId === session.thread.id) this.threadAliases.delete(alias)
+        }
+        this.emitRuntime(session, {
+            type: 'session.state.changed',
+            payload: { state: 'stopped', message: 'Session disconnected.' }
+        })
+    }
+
+    dispose(): void {
+        for (const threadId of [...this.sessions.keys()]) {
+            this.disconnect(threadId)
+        }
+    }
+
+    private async resolveModel(requested: string): Promise<string> {
+        const config = await this.readConfig()
+        const models = await this.listModels(false)
+        if (requested && (models.length === 0 || models.some((model) => model.id === requested))) return requested
+        const fallback = config.defaultModel || models[0]?.id
+        if (!fallback) {
+            throw new Error('No model is available. Set a default model for the OpenAI-compatible endpoint in Assistant settings.')
+        }
+        return fallback
+    }
+
+    private async runTurn(
+        session: OpenAiCompatibleSession,
+        turn: OpenAiChatMessage[],
+        turnId: string,
+        settings: TurnSettings,
+        signal: AbortSignal
+    ): Promise<void> {
+        const config = await this.readConfig()
+        const tools = getOpenAiCompatibleToolDefinitions(settings.interactionMode)
+        const systemMessage: OpenAiChatMessage = {
+            role: 'system',
+            content: buildOpenAiCompatibleSystemPrompt({ cwd: session.cwd, ...settings })
+        }
+        let usage: AssistantTurnUsage | null = null
+
+        this.emitRuntime(session, {
+            type: 'turn.started',
+            turnId,
+            payload: { model: settings.model, interactionMode: settings.interactionMode }
+        })
+        this.emitRuntime(session, { type: 'session.state.changed', turnId, payload: { state: 'running' } })
+
+        try {
+            for (let step = 0; step < MAX_TOOL_STEPS_PER_TURN; step += 1) {
+                const itemId = `${turnId}-${step}`
+                let streamedText = ''
+                const result = await streamChatCompletion({
+                    config,
+                    model: settings.model,
+                    messages: [systemMessage, ...session.turns.flat()],
+                    tools,
+                    signal,
+                    onTextDelta: (delta) => {
+                        streamedText += delta
+                        this.emitRuntime(session, {
+                            type: 'content.delta',
+                            turnId,
+                            itemId,
+                            payload: { streamKind: 'assistant_text', delta }
+                        })
+                    }
+                }).catch((error) => {
+                    // Keep whatever was streamed before an interrupt so the history matches the transcript.
+                    if (isAbortError(error) && streamedText) turn.push({ role: 'assistant', content: streamedText })
+                    throw error
+                })
+                usage = addUsage(usage, result.usage)
+
+                turn.push({
+                    role: 'assistant',
+                    content: result.content || null,
+                    ...(result.toolCalls.length > 0 ? { tool_calls: result.toolCalls } : {})
+                })
+                if (result.content) {
+                    this.emitRuntime(session, {
+                        type: 'content.completed',
+                        turnId,
+                        itemId,
+                        payload: { streamKind: 'assistant_text', text: result.content }
+                    })
+                }
+                if (result.toolCalls.length === 0) break
+
+                for (const call of result.toolCalls) {
+                    const output = await this.executeToolCall(session, call, `${turnId}-${call.id}`, turnId, settings, signal)
+                    turn.push({ role: 'tool', tool_call_id: call.id, content: output })
+                }
+            }
+
+            if (usage) this.emitRuntime(session, { type: 'thread.token-usage.updated', turnId, payload: { usage } })
+            this.emitRuntime(session, { type: 'turn.completed', turnId, payload: { outcome: 'completed', usage } })
+            this.emitRuntime(session, { type: 'session.state.changed', turnId, payload: { state: 'ready' } })
+        } catch (error) {
+            closeOpenToolCalls(turn)
+            this.settlePendingRequests(session, turnId)
+            const interrupted = signal.aborted || isAbortError(error)
+            if (!interrupted && turn.length === 1) {
+                // Nothing was answered, so drop the prompt rather than stacking it before the next one.
+                session.turns.splice(session.turns.indexOf(turn), 1)
+            }
+            const errorMessage = interrupted ? undefined : error instanceof Error ? error.message : 'Turn failed.'
+            this.emitRuntime(session, {
+                type: 'turn.completed',
+                turnId,
+                payload: { outcome: interrupted ? 'interrupted' : 'failed', errorMessage, usage }
+            })
+            this.emitRuntime(session, {
+                type: 'session.state.changed',
+                turnId,
+                payload: { state: interrupted ? 'interrupted' : 'error', error: errorMessage }
+            })
+        } finally {
+            if (session.activeTurn?.turnId === turnId) session.activeTurn = null
+        }
+    }
+
+    private async executeToolCall(
+        session: OpenAiCompatibleSession,
+        call: OpenAiToolCall,
+        itemId: string,
+        turnId: string,
+        settings: TurnSettings,
+        signal: AbortSignal
+    ): Promise<string> {
+        const name = call.function.name
+        if (!isOpenAiCompatibleToolName(name)) return `Error: unknown tool "${name}".`
+
+        let args: Record<string, unknown>
+        try {
+            args = parseToolArguments(call.function.arguments)
+        } catch (error) {
+            return `Error: ${(error as Error).message}`
+        }
+
+        const activity = (payload: Extract<AssistantRuntimeEvent, { type: 'activity' }>['payload']) => {
+            this.emitRuntime(session, {
+                type: 'activity',
+                turnId,
+                itemId,
+                payload: { ...payload, activityId: buildToolActivityId(itemId), data: { ...payload.data, itemId } }
+            })
+        }
+
+        try {
+            if (name === 'read_file' || name === 'list_directory') {
+                const path = resolveToolPath(session.cwd, args['path'], settings.runtimeMode)
+                const output = name === 'read_file' ? await readToolFile(path) : await listToolDirectory(path)
+                activity({
+                    kind: 'file-read',
+                    summary: name === 'read_file' ? 'Read file' : 'Listed directory',
+                    detail: path,
+                    tone: 'tool',
+                    data: { itemType: name === 'read_file' ? 'file read' : 'directory listing', status: 'completed', paths: [path] }
+                })
+                return output
+            }
+
+            if (name === 'update_plan') {
+                const plan: AssistantPlanStep[] = (Array.isArray(args['plan']) ? args['plan'] : [])
+                    .map((entry) => asRecord(entry))
+                    .filter((entry): entry is Record<string, unknown> => Boolean(asString(entry?.['step'])))
+                    .map((entry) => ({
+                        step: String(entry['step']),
+                        status: entry['status'] === 'completed' || entry['status'] === 'inProgress' ? entry['status'] : 'pending'
+                    }))
+                this.emitRuntime(session, {
+                    type: 'plan.updated',
+                    turnId,
+                    itemId,
+                    payload: { explanation: asString(args['explanation']), plan }
+                })
+                return 'Plan updated.'
+            }
+
+            if (name === 'request_user_input') {
+                const questions = toUserInputQuestions(args['questions'])
+                if (questions.length === 0) return 'Error: provide at least one question with id, header, question and options.'
+                const requestId = randomUUID()
+                const answers = await this.waitForPendingRequest(session.pendingUserInputs, requestId, { turnId, itemId }, signal, () => {
+                    this.emitRuntime(session, { type: 'user-input.requested', turnId, itemId, requestId, payload: { questions } })
+                })
+                return JSON.stringify(answers)
+            }
+
+            if (settings.interactionMode === 'plan') {
+                return 'Error: plan mode is read-only. Describe the change in the plan instead.'
+            }
+
+            if (name === 'write_file') {
+                const path = resolveToolPath(session.cwd, args['path'], settings.runtimeMode)
+                const content = typeof args['content'] === 'string' ? args['content'] : ''
+                const approved = await this.requestApproval(session, settings, { turnId, itemId, requestType: 'file-change', title: 'Write file', detail: path, paths: [path] }, signal)
+                if (!approved) {
+                    activity({ kind: 'file-change', summary: 'File change declined', detail: path, tone: 'warning', data: { itemType: 'file change', status: 'declined', paths: [path] } })
+                    return 'The user declined this file change.'
+                }
+                const result = await writeToolFile(path, content)
+                activity({
+                    kind: 'file-change',
+                    summary: result.created ? 'Created file' : 'Edited file',
+                    detail: path,
+                    tone: 'tool',
+                    data: {
+                        itemType: 'file change',
+                        status: 'completed',
+                        paths: [path],
+                        createdPaths: result.created ? [path] : [],
+                        additions: result.additions,
+                        deletions: result.deletions,
+                        fileCount: 1
+                    }
+                })
+                return result.created ? `Created ${path}.` : `Wrote ${path}.`
+            }
+
+            const command = String(args['command'] || '').trim()
+            if (!command) return 'Error: command is required.'
+            const approved = await this.requestApproval(session, settings, { turnId, itemId, requestType: 'command', title: 'Run command', detail: command, command }, signal)
+            if (!approved) {
+                activity({ kind: 'command', summary: 'Command declined', detail: command, tone: 'warning', data: { itemType: 'command execution', status: 'declined', command, cwd: session.cwd } })
+                return 'The user declined this command.'
+            }
+            activity({ kind: 'command', summary: 'Running command', detail: command, tone: 'tool', data: { itemType: 'command execution', status: 'inProgress', command, cwd: session.cwd } })
+            const result = await runToolCommand({
+                command,
+                cwd: session.cwd,
+                signal,
+                onOutput: (delta) => this.emitRuntime(session, { type: 'content.delta', turnId, itemId, payload: { streamKind: 'command_output', delta } })
+            })
+            if (signal.aborted) throw createAbortError()
+            const failed = result.exitCode !== 0
+            activity({
+                kind: 'command',
+                summary: failed ? 'Command failed' : 'Ran command',
+                detail: command,
+                tone: 'tool',
+                data: { itemType: 'command execution', status: failed ? 'failed' : 'completed', command, cwd: session.cwd, exitCode: result.exitCode, output: result.output }
+            })
+            return `Exit code: ${result.exitCode ?? 'unknown'}\n${result.output}`
+        } catch (error) {
+            if (signal.aborted || isAbortError(error)) throw error
+            const message = error instanceof Error ? error.message : String(error)
+            activity({ kind: 'tool', summary: 'Tool failed', detail: `${name}: ${message}`, tone: 'error', data: { toolName: name, status: 'failed', error: message } })
+            return `Error: ${message}`
+        }
+    }
+
+    private async requestApproval(
+        session: OpenAiCompatibleSession,
+        settings: TurnSettings,
+        request: { turnId: string; itemId: string; requestType: AssistantApprovalRequestType; title: string; detail: string; command?: string; paths?: string[] },
+        signal: AbortSignal
+    ): Promise<boolean> {
+        if (settings.runtimeMode === 'full-access' || session.approvedForSession.has(request.requestType)) return true
+        const requestId = randomUUID()
+        const decision = await this.waitForPendingRequest(session.pendingApprovals, requestId, request, signal, () => {
+            this.emitRuntime(session, {
+                type: 'approval.requested',
+                turnId: request.turnId,
+                itemId: request.itemId,
+                requestId,
+                payload: {
+                    requestType: request.requestType,
+                    title: request.title,
+                    detail: request.detail,
+                    command: request.command,
+                    paths: request.paths
+                }
+            })
+        })
+        if (decision === 'acceptForSession') session.approvedForSession.add(request.requestType)
+        return decision !== 'decline'
+    }
+
+    private waitForPendingRequest<T>(
+        pending: Map<string, PendingRequest<T>>,
+        requestId: string,
+        target: { turnId: string; itemId: string },
+        signal: AbortSignal,
+        announce: () => void
+    ): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(createAbortError())
+            signal.addEventListener('abort', onAbort, { once: true })
+            pending.set(requestId, {
+                turnId: target.turnId,
+                itemId: target.itemId,
+                resolve: (value) => {
+                    signal.removeEventListener('abort', onAbort)
+                    resolve(value)
+                }
+            })
+            announce()
+        })
+    }
+
+    /** Resolves prompts left open by an interrupted turn so they do not stay pending in the UI. */
+    private settlePendingRequests(session: OpenAiCompatibleSession, turnId: string): void {
+        for (const [requestId, pending] of session.pendingApprovals.entries()) {
+            if (pending.turnId !== turnId) continue
+            session.pendingApprovals.delete(requestId)
+            this.emitRuntime(session, { type: 'approval.resolved', turnId, itemId: pending.itemId, requestId, payload: { decision: 'decline' } })
+        }
+        for (const [requestId, pending] of session.pendingUserInputs.entries()) {
+            if (pending.turnId !== turnId) continue
+            session.pendingUserInputs.delete(requestId)
+            this.emitRuntime(session, { type: 'user-input.resolved', turnId, itemId: pending.itemId, requestId, payload: { answers: {} } })
+        }
+    }
+
+    private requireSession(threadId: string): OpenAiCompatibleSession {
+        const session = this.getSession(threadId)
+        if (!session) throw new Error(`Unknown assistant runtime session for thread ${threadId}.`)
+        return session
+    }
+
+    private getSession(threadId: string): OpenAiCompatibleSession | undefined {
+        return this.sessions.get(threadId) ?? this.sessions.get(this.threadAliases.get(threadId) || '')
+    }
+
+    private emitRuntime(session: OpenAiCompatibleSession, event: RuntimeEventInput): void {
+        this.emit('runtime', {
+            eventId: randomUUID(),
+            createdAt: nowIso(),
+            threadId: session.thread.id,
+            providerThreadId: session.providerThreadId,
+            ...event
+        } as AssistantRuntimeEvent)
+    }
+}
@@ -0,0 +1,267 @@
+import { spawn } from 'node:child_process'
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises'
+import { dirname, isAbsolute, relative, resolve } from 'node:path'
+import type { AssistantInteractionMode, AssistantRuntimeMode } from '../../shared/assistant/contracts'
+import { getAugmentedEnv } from '../inspectors/safe-exec'
+import { killChildTree } from './codex-runtime-protocol'
+
+export type OpenAiCompatibleToolName =
+    | 'read_file'
+    | 'list_directory'
+    | 'write_file'
+    | 'run_command'
+    | 'update_plan'
+    | 'request_user_input'
+
+export interface OpenAiCompatibleToolDefinition {
+    type: 'function'
+    function: {
+        name: OpenAiCompatibleToolName
+        description: string
+        parameters: Record<string, unknown>
+    }
+}
+
+const MAX_READ_BYTES = 256 * 1024
+const MAX_DIRECTORY_ENTRIES = 500
+const MAX_COMMAND_OUTPUT_CHARS = 64 * 1024
+const COMMAND_TIMEOUT_MS = 120_000
+
+const TOOL_DEFINITIONS: Record<OpenAiCompatibleToolName, OpenAiCompatibleToolDefinition> = {
+    read_file: {
+        type: 'function',
+        function: {
+            name: 'read_file',
+            description: 'Read a UTF-8 text file. Paths are relative to the working directory.',
+            parameters: {
+                type: 'object',
+                properties: { path: { type: 'string' } },
+                required: ['path']
+            }
+        }
+    },
+    list_directory: {
+        type: 'function',
+        function: {
+            name: 'list_directory',
+            description: 'List the entries of a directory; directories end with "/". Defaults to the working directory.',
+            parameters: {
+                type: 'object',
+                properties: { path: { type: 'string' } }
+            }
+        }
+    },
+    write_file: {
+        type: 'function',
+        function: {
+            name: 'write_file',
+            description: 'Create or overwrite a file with the given content. Parent directories are created as needed.',
+            parameters: {
+                type: 'object',
+                properties: { path: { type: 'string' }, content: { type: 'string' } },
+                required: ['path', 'content']
+            }
+        }
+    },
+    run_command: {
+        type: 'function',
+        function: {
+            name: 'run_command',
+            description: 'Run a shell command in the working directory and return its combined output and exit code.',
+            parameters: {
+                type: 'object',
+                properties: { command: { type: 'string' } },
+                required: ['command']
+            }
+        }
+    },
+    update_plan: {
+        type: 'function',
+        function: {
+            name: 'update_plan',
+            description: 'Share or update the step-by-step plan for the current task.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    explanation: { type: 'string' },
+                    plan: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                step: { type: 'string' },
+                                status: { type: 'string', enum: ['pending', 'inProgress', 'completed'] }
+                            },
+                            required: ['step', 'status']
+                        }
+                    }
+                },
+                required: ['plan']
+            }
+        }
+    },
+    request_user_input: {
+        type: 'function',
+        function: {
+            name: 'request_user_input',
+            description: 'Ask the user one or more multiple-choice questions and wait for the answers.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    questions: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                id: { type: 'string' },
+                                header: { type: 'string', description: 'Short label, at most a few words.' },
+                                question: { type: 'string' },
+                                options: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: { label: { type: 'string' }, description: { type: 'string' } },
+                                        required: ['label', 'description']
+                                    }
+                                }
+                            },
+                            required: ['id', 'header', 'question', 'options']
+                        }
+                    }
+                },
+                required: ['questions']
+            }
+        }
+    }
+}
+
+const READ_ONLY_TOOLS: OpenAiCompatibleToolName[] = ['read_file', 'list_directory', 'update_plan', 'request_user_input']
+
+/** Plan mode only exposes tools that cannot change the workspace. */
+export function getOpenAiCompatibleToolDefinitions(interactionMode: AssistantInteractionMode): OpenAiCompatibleToolDefinition[] {
+    const names = interactionMode === 'plan'
+        ? READ_ONLY_TOOLS
+        : Object.keys(TOOL_DEFINITIONS) as OpenAiCompatibleToolName[]
+    return names.map((name) => TOOL_DEFINITIONS[name])
+}
+
+export function isOpenAiCompatibleToolName(value: string): value is OpenAiCompatibleToolName {
+    return Object.prototype.hasOwnProperty.call(TOOL_DEFINITIONS, value)
+}
+
+export function buildOpenAiCompatibleSystemPrompt(input: {
+    cwd: string
+    runtimeMode: AssistantRuntimeMode
+    interactionMode: AssistantInteractionMode
+}): string {
+    const lines = [
+        'You are a coding assistant working inside a local project.',
+        `Working directory: ${input.cwd}`,
+        `Platform: ${process.platform}`,
+        'Use the provided tools to inspect files and make changes instead of guessing. Keep replies concise and use Markdown.'
+    ]
+    if (input.runtimeMode === 'approval-required') {
+        lines.push('File writes and commands wait for the user to approve them; if one is declined, do not retry it unchanged.')
+    }
+    if (input.interactionMode === 'plan') {
+        lines.push(
+            'Plan mode: do not modify files or run commands. Investigate with the read-only tools, ask questions if needed,',
+            'then reply with the finished plan wrapped in <proposed_plan></proposed_plan>.'
+        )
+    }
+    return lines.join('\n')
+}
+
+/**
+ * Resolves a tool path against the session folder. Outside full-access mode the model is
+ * kept inside that folder, mirroring the workspace sandbox Codex applies.
+ */
+export function resolveToolPath(cwd: string, rawPath: unknown, runtimeMode: AssistantRuntimeMode): string {
+    const value = typeof rawPath === 'string' && rawPath.trim() ? rawPath.trim() : '.'
+    const target = isAbsolute(value) ? resolve(value) : resolve(cwd, value)
+    const relativePath = relative(cwd, target)
+    if (runtimeMode !== 'full-access' && (relativePath.startsWith('..') || isAbsolute(relativePath))) {
+        throw new Error(`${value} is outside the working directory.`)
+    }
+    return target
+}
+
+export async function readToolFile(path: string): Promise<string> {
+    const info = await stat(path)
+    if (info.isDirectory()) throw new Error(`${path} is a directory.`)
+    const content = await readFile(path)
+    const text = content.subarray(0, MAX_READ_BYTES).toString('utf-8')
+    return content.length > MAX_READ_BYTES
+        ? `${text}\n\n[truncated: showing the first ${MAX_READ_BYTES} of ${content.length} bytes]`
+        : text
+}
+
+export async function listToolDirectory(path: string): Promise<string> {
+    const entries = await readdir(path, { withFileTypes: true })
+    const names = entries
+        .map((entry) => entry.isDirectory() ? `${entry.name}/` : entry.name)
+        .sort((left, right) => left.localeCompare(right))
+    const shown = names.slice(0, MAX_DIRECTORY_ENTRIES)
+    if (names.length > shown.length) shown.push(`[${names.length - shown.length} more entries]`)
+    return shown.join('\n') || '(empty directory)'
+}
+
+/** Writes the file and reports whether it was created plus a line count for the activity card. */
+export async function writeToolFile(path: string, content: string): Promise<{ created: boolean; additions: number; deletions: number }> {
+    const previous = await readFile(path, 'utf-8').catch(() => null)
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, content, 'utf-8')
+    return {
+        created: previous === null,
+        additions: content ? content.split('\n').length : 0,
+        deletions: previous ? previous.split('\n').length : 0
+    }
+}
+
+export function runToolCommand(input: {
+    command: string
+    cwd: string
+    signal: AbortSignal
+    onOutput: (chunk: string) => void
+}): Promise<{ exitCode: number | null; output: string }> {
+    return new Promise((resolvePromise, reject) => {
+        const child = spawn(input.command, {
+            cwd: input.cwd,
+            shell: true,
+            windowsHide: true,
+            env: getAugmentedEnv(),
+            stdio: ['ignore', 'pipe', 'pipe']
+        })
+        let output = ''
+        let timedOut = false
+        const collect = (chunk: Buffer) => {
+            const text = String(chunk)
+            input.onOutput(text)
+            if (output.length < MAX_COMMAND_OUTPUT_CHARS) {
+                output += text.slice(0, MAX_COMMAND_OUTPUT_CHARS - output.length)
+            }
+        }
+        const stop = () => killChildTree(child)
+        const timer = setTimeout(() => {
+            timedOut = true
+            stop()
+        }, COMMAND_TIMEOUT_MS)
+        input.signal.addEventListener('abort', stop, { once: true })
+        child.stdout.on('data', collect)
+        child.stderr.on('data', collect)
+        child.on('error', (error) => {
+            clearTimeout(timer)
+            input.signal.removeEventListener('abort', stop)
+            reject(error)
+        })
+        child.on('close', (code) => {
+            clearTimeout(timer)
+            input.signal.removeEventListener('abort', stop)
+            const notes = [
+                output.length >= MAX_COMMAND_OUTPUT_CHARS ? '[output truncated]' : '',
+                timedOut ? `[timed out after ${COMMAND_TIMEOUT_MS / 1000}s]` : ''
+            ].filter(Boolean)
+            resolvePromise({ exitCode: code, output: [output, ...notes].filter(Boolean).join('\n') })
+        })
+    })
+}
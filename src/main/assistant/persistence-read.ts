@@ -108,7 +108,7 @@ export function readHydratedThreadDetails(
     return detailsByThreadId
 }
 
-function readThreadDetails(db: SqlDatabase, threadId: string): AssistantHydratedThreadData | null {
+export function readThreadDetails(db: SqlDatabase, threadId: string): AssistantHydratedThreadData | null {
     if (!threadId) return null
 
     const activePlanRow = db.exec('SELECT active_plan_json FROM assistant_threads WHERE id = ?', [threadId])[0]?.values?.[0] || null
@@ -252,7 +252,7 @@ function readAssistantSessionSummaries(db: SqlDatabase, playground: AssistantSna
         playgroundLabId: string | null
     }> = []
     const sessionRows = db.exec(`
-        SELECT id, title, mode, project_path, playground_lab_id, pending_lab_request_json, archived, created_at, updated_at, active_thread_id
+        SELECT id, title, mode, project_path, playground_lab_id, pending_lab_request_json, archived, created_at, updated_at, active_thread_id, imported_at
         FROM assistant_sessions
         ORDER BY updated_at DESC, id DESC
     `)[0]?.values || []
@@ -269,6 +269,7 @@ function readAssistantSessionSummaries(db: SqlDatabase, playground: AssistantSna
             createdAt: String(row[7] || new Date(0).toISOString()),
             updatedAt: String(row[8] || new Date(0).toISOString()),
             activeThreadId: toNullableString(row[9]),
+            importedAt: toNullableString(row[10]),
             threadIds: [],
             threads: []
         }
@@ -313,7 +314,9 @@ function readAssistantSessionSummaries(db: SqlDatabase, playground: AssistantSna
             last_error,
             created_at,
             updated_at,
-            latest_turn_json
+            latest_turn_json,
+            forked_from_thread_id,
+            forked_from_message_id
         FROM assistant_threads
         ORDER BY session_id ASC, updated_at DESC, id DESC
     `)[0]?.values || []
@@ -331,6 +334,8 @@ function readAssistantSessionSummaries(db: SqlDatabase, playground: AssistantSna
             subagentDepth: typeof row[6] === 'number' && Number.isFinite(row[6]) ? row[6] : null,
             agentNickname: toNullableString(row[7]),
             agentRole: toNullableString(row[8]),
+            forkedFromThreadId: toNullableString(row[20]),
+            forkedFromMessageId: toNullableString(row[21]),
             model: String(row[9] || ''),
             cwd: toNullableString(row[10]),
             messageCount: toNumber(row[11]),
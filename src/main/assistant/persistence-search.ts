@@ -0,0 +1,151 @@
+import type { Database as SqlDatabase } from 'sql.js/dist/sql-asm.js'
+import type { AssistantSearchHit, AssistantSearchHitKind } from '../../shared/assistant/contracts'
+
+// Index docids are the source rowid times the stride plus a per-table offset, so the sync
+// triggers can address a record directly instead of scanning the unindexed id columns.
+const SEARCH_DOCID_STRIDE = 4
+const SEARCH_KIND_OFFSETS: Record<AssistantSearchHitKind, number> = {
+    message: 1,
+    activity: 2,
+    plan: 3
+}
+const SEARCH_SOURCES: Array<{
+    kind: AssistantSearchHitKind
+    table: string
+    label: (alias: string) => string
+    body: (alias: string) => string
+}> = [
+    { kind: 'message', table: 'assistant_messages', label: (alias) => `${alias}.role`, body: (alias) => `${alias}.text` },
+    {
+        kind: 'activity',
+        table: 'assistant_activities',
+        label: (alias) => `${alias}.kind`,
+        body: (alias) => `${alias}.summary || ' ' || COALESCE(${alias}.detail, '')`
+    },
+    { kind: 'plan', table: 'assistant_proposed_plans', label: () => 'NULL', body: (alias) => `${alias}.plan_markdown` }
+]
+const SNIPPET_MATCH_START = '\u0002'
+const SNIPPET_MATCH_END = '\u0003'
+const SNIPPET_TOKEN_COUNT = 16
+const DEFAULT_SEARCH_LIMIT = 50
+const MAX_SEARCH_LIMIT = 200
+
+function getSourceColumns(source: (typeof SEARCH_SOURCES)[number], alias: string): string {
+    return [
+        `${alias}.rowid * ${SEARCH_DOCID_STRIDE} + ${SEARCH_KIND_OFFSETS[source.kind]}`,
+        `${alias}.id`,
+        `${alias}.thread_id`,
+        source.label(alias),
+        `${alias}.created_at`,
+        source.body(alias)
+    ].join(', ')
+}
+
+function buildSearchTriggers(): string {
+    return SEARCH_SOURCES.map((source) => {
+        const columns = 'docid, record_id, thread_id, label, created_at, body'
+        const deleteOld = `DELETE FROM assistant_search_index WHERE docid = old.rowid * ${SEARCH_DOCID_STRIDE} + ${SEARCH_KIND_OFFSETS[source.kind]};`
+        const insertNew = `INSERT INTO assistant_search_index (${columns}) VALUES (${getSourceColumns(source, 'new')});`
+        return `
+            CREATE TRIGGER IF NOT EXISTS ${source.table}_search_insert AFTER INSERT ON ${source.table} BEGIN
+                ${insertNew}
+            END;
+            CREATE TRIGGER IF NOT EXISTS ${source.table}_search_update AFTER UPDATE ON ${source.table} BEGIN
+                ${deleteOld}
+                ${insertNew}
+            END;
+            CREATE TRIGGER IF NOT EXISTS ${source.table}_search_delete AFTER DELETE ON ${source.table} BEGIN
+                ${deleteOld}
+            END;
+        `
+    }).join('\n')
+}
+
+/** Creates the full-text index over messages, activities and plans, backfilling it on first run. */
+export function initializeAssistantSearchIndex(db: SqlDatabase): void {
+    const exists = (db.exec(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'assistant_search_index'`)[0]?.values.length || 0) > 0
+    db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS assistant_search_index USING fts4(
+            record_id, thread_id, label, created_at, body,
+            notindexed=record_id, notindexed=thread_id, notindexed=label, notindexed=created_at,
+            tokenize=unicode61
+        );
+        ${buildSearchTriggers()}
+    `)
+    if (exists) return
+    for (const source of SEARCH_SOURCES) {
+        db.run(`
+            INSERT INTO assistant_search_index (docid, record_id, thread_id, label, created_at, body)
+            SELECT ${getSourceColumns(source, 'source')} FROM ${source.table} AS source
+        `)
+    }
+}
+
+/**
+ * Builds an FTS4 MATCH expression where every word must appear somewhere in the entry, each
+ * matched as a prefix (`updat` finds `updater`). Punctuation and operators are dropped.
+ */
+export function buildAssistantSearchMatchQuery(query: string): string | null {
+    const tokens = String(query || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+    if (tokens.length === 0) return null
+    return tokens.map((token) => `"${token}*"`).join(' ')
+}
+
+function parseSnippet(value: string): Pick<AssistantSearchHit, 'snippet' | 'highlights'> {
+    const highlights: AssistantSearchHit['highlights'] = []
+    let snippet = ''
+    let start = -1
+    for (const character of value) {
+        if (character === SNIPPET_MATCH_START) {
+            start = snippet.length
+            continue
+        }
+        if (character === SNIPPET_MATCH_END) {
+            if (start >= 0 && snippet.length > start) highlights.push({ start, end: snippet.length })
+            start = -1
+            continue
+        }
+        snippet += character
+    }
+    return { snippet: snippet.replace(/\s+/g, ' '), highlights }
+}
+
+function toSearchHitKind(docid: number): AssistantSearchHitKind | null {
+    const offset = docid % SEARCH_DOCID_STRIDE
+    return (Object.keys(SEARCH_KIND_OFFSETS) as AssistantSearchHitKind[]).find((kind) => SEARCH_KIND_OFFSETS[kind] === offset) || null
+}
+
+export function searchAssistantConversations(db: SqlDatabase, query: string, limit = DEFAULT_SEARCH_LIMIT): AssistantSearchHit[] {
+    const matchQuery = buildAssistantSearchMatchQuery(query)
+    if (!matchQuery) return []
+    const safeLimit = Math.max(1, Math.min(MAX_SEARCH_LIMIT, Math.floor(limit) || DEFAULT_SEARCH_LIMIT))
+    const rows = db.exec(`
+        SELECT
+            assistant_search_index.docid,
+            assistant_search_index.record_id,
+            assistant_threads.session_id,
+            assistant_search_index.thread_id,
+            assistant_search_index.label,
+            assistant_search_index.created_at,
+            snippet(assistant_search_index, ?, ?, '…', 4, ${SNIPPET_TOKEN_COUNT})
+        FROM assistant_search_index
+        INNER JOIN assistant_threads ON assistant_threads.id = assistant_search_index.thread_id
+        WHERE assistant_search_index MATCH ?
+        ORDER BY assistant_search_index.created_at DESC
+        LIMIT ?
+    `, [SNIPPET_MATCH_START, SNIPPET_MATCH_END, matchQuery, safeLimit])[0]?.values || []
+
+    return rows.flatMap((row) => {
+        const kind = toSearchHitKind(Number(row[0]))
+        if (!kind) return []
+        return [{
+            kind,
+            recordId: String(row[1] || ''),
+            sessionId: String(row[2] || ''),
+            threadId: String(row[3] || ''),
+            label: typeof row[4] === 'string' ? row[4] : null,
+            createdAt: String(row[5] || ''),
+            ...parseSnippet(String(row[6] || ''))
+        }]
+    })
+}
@@ -4,6 +4,7 @@ import type {
     AssistantSession,
     AssistantSnapshot
 } from '../../shared/assistant/contracts'
+import { initializeAssistantSearchIndex } from './persistence-search'
 
 export interface AssistantPersistenceRecord {
     version: number
@@ -116,7 +117,8 @@ export function initializeAssistantPersistenceSchema(db: SqlDatabase): void {
             archived INTEGER NOT NULL,
             created_at TEXT NOT NULL,
             updated_at TEXT NOT NULL,
-            active_thread_id TEXT
+            active_thread_id TEXT,
+            imported_at TEXT
         );
         CREATE TABLE IF NOT EXISTS assistant_threads (
             id TEXT PRIMARY KEY,
@@ -128,6 +130,8 @@ export function initializeAssistantPersistenceSchema(db: SqlDatabase): void {
             subagent_depth INTEGER,
             agent_nickname TEXT,
             agent_role TEXT,
+            forked_from_thread_id TEXT,
+            forked_from_message_id TEXT,
             model TEXT NOT NULL,
             cwd TEXT,
             message_count INTEGER NOT NULL,
@@ -238,12 +242,16 @@ export function initializeAssistantPersistenceSchema(db: SqlDatabase): void {
     ensureTableColumn(db, 'assistant_sessions', 'mode', `TEXT NOT NULL DEFAULT 'work'`)
     ensureTableColumn(db, 'assistant_sessions', 'playground_lab_id', 'TEXT')
     ensureTableColumn(db, 'assistant_sessions', 'pending_lab_request_json', 'TEXT')
+    ensureTableColumn(db, 'assistant_sessions', 'imported_at', 'TEXT')
     ensureTableColumn(db, 'assistant_threads', 'source', `TEXT NOT NULL DEFAULT 'root'`)
     ensureTableColumn(db, 'assistant_threads', 'parent_thread_id', 'TEXT')
     ensureTableColumn(db, 'assistant_threads', 'provider_parent_thread_id', 'TEXT')
     ensureTableColumn(db, 'assistant_threads', 'subagent_depth', 'INTEGER')
     ensureTableColumn(db, 'assistant_threads', 'agent_nickname', 'TEXT')
     ensureTableColumn(db, 'assistant_threads', 'agent_role', 'TEXT')
+    ensureTableColumn(db, 'assistant_threads', 'forked_from_thread_id', 'TEXT')
+    ensureTableColumn(db, 'assistant_threads', 'forked_from_message_id', 'TEXT')
+    initializeAssistantSearchIndex(db)
 }
 
 function ensureTableColumn(db: SqlDatabase, tableName: string, columnName: string, definition: string): void {
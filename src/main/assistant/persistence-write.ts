@@ -9,6 +9,7 @@ import type {
     AssistantPlaygroundLab,
     AssistantProposedPlan,
     AssistantSession,
+    AssistantSessionTurnUsageEntry,
     AssistantSnapshot,
     AssistantThread
 } from '../../shared/assistant/contracts'
@@ -192,9 +193,9 @@ function syncAssistantSessionPersistence(db: SqlDatabase, session: AssistantSess
 function upsertAssistantSession(db: SqlDatabase, session: AssistantSession): void {
     db.run(`
         INSERT INTO assistant_sessions (
-            id, title, mode, project_path, playground_lab_id, pending_lab_request_json, archived, created_at, updated_at, active_thread_id
+            id, title, mode, project_path, playground_lab_id, pending_lab_request_json, archived, created_at, updated_at, active_thread_id, imported_at
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(id) DO UPDATE SET
             title = excluded.title,
             mode = excluded.mode,
@@ -204,7 +205,8 @@ function upsertAssistantSession(db: SqlDatabase, session: AssistantSession): voi
             archived = excluded.archived,
             created_at = excluded.created_at,
             updated_at = excluded.updated_at,
-            active_thread_id = excluded.active_thread_id
+            active_thread_id = excluded.active_thread_id,
+            imported_at = excluded.imported_at
     `, [
         session.id,
         session.title,
@@ -215,7 +217,8 @@ function upsertAssistantSession(db: SqlDatabase, session: AssistantSession): voi
         sqlBool(session.archived),
         session.createdAt,
         session.updatedAt,
-        session.activeThreadId
+        session.activeThreadId,
+        session.importedAt || null
     ])
 }
 
@@ -253,9 +256,10 @@ function upsertAssistantThreadSummary(db: SqlDatabase, sessionId: string, thread
         INSERT INTO assistant_threads (
             id, session_id, provider_thread_id, source, parent_thread_id, provider_parent_thread_id, subagent_depth, agent_nickname, agent_role,
             model, cwd, message_count, last_seen_completed_turn_id,
-            runtime_mode, interaction_mode, state, last_error, created_at, updated_at, latest_turn_json, active_plan_json
+            runtime_mode, interaction_mode, state, last_error, created_at, updated_at, latest_turn_json, active_plan_json,
+            forked_from_thread_id, forked_from_message_id
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(id) DO UPDATE SET
             session_id = excluded.session_id,
             provider_thread_id = excluded.provider_thread_id,
@@ -276,7 +280,9 @@ function upsertAssistantThreadSummary(db: SqlDatabase, sessionId: string, thread
             created_at = excluded.created_at,
             updated_at = excluded.updated_at,
             latest_turn_json = excluded.latest_turn_json,
-            active_plan_json = excluded.active_plan_json
+            active_plan_json = excluded.active_plan_json,
+            forked_from_thread_id = excluded.forked_from_thread_id,
+            forked_from_message_id = excluded.forked_from_message_id
     `, [
         thread.id,
         sessionId,
@@ -298,7 +304,9 @@ function upsertAssistantThreadSummary(db: SqlDatabase, sessionId: string, thread
         thread.createdAt,
         thread.updatedAt,
         jsonStringify(thread.latestTurn),
-        jsonStringify(thread.activePlan)
+        jsonStringify(thread.activePlan),
+        thread.forkedFromThreadId || null,
+        thread.forkedFromMessageId || null
     ])
 }
 
@@ -362,6 +370,14 @@ function upsertAssistantTurn(db: SqlDatabase, threadId: string, model: string, t
     ])
 }
 
+export function upsertAssistantTurnUsage(db: SqlDatabase, turns: AssistantSessionTurnUsageEntry[]): void {
+    runSqlTransaction(db, () => {
+        for (const turn of turns) {
+            upsertAssistantTurn(db, turn.threadId, turn.model, turn)
+        }
+    })
+}
+
 function deleteAssistantTurns(db: SqlDatabase, turnIds: string[]): void {
     if (turnIds.length === 0) return
     const placeholders = turnIds.map(() => '?').join(', ')
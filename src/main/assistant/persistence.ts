@@ -6,17 +6,20 @@ import log from 'electron-log'
 import initSqlJs, { type Database as SqlDatabase } from 'sql.js/dist/sql-asm.js'
 import type {
     AssistantDomainEvent,
+    AssistantSearchHit,
     AssistantSessionTurnUsageEntry,
     AssistantSnapshot
 } from '../../shared/assistant/contracts'
 import { is } from '../utils'
 import { createDefaultSnapshot, recoverPersistedSnapshot } from './projector'
-import { hydrateSnapshotThreads } from './persistence-snapshot'
+import { type AssistantHydratedThreadData, hydrateSnapshotThreads } from './persistence-snapshot'
 import {
     readHydratedThreadDetails,
     readAssistantPersistenceRecord,
-    readAssistantSessionTurnUsage
+    readAssistantSessionTurnUsage,
+    readThreadDetails
 } from './persistence-read'
+import { searchAssistantConversations } from './persistence-search'
 import {
     initializeAssistantPersistenceSchema,
     PERSISTENCE_FLUSH_DEBOUNCE_MS,
@@ -27,7 +30,8 @@ import {
     persistAssistantEvent,
     persistAssistantSnapshotMeta,
     replaceAssistantSnapshot,
-    upsertAssistantMeta
+    upsertAssistantMeta,
+    upsertAssistantTurnUsage
 } from './persistence-write'
 
 const PERSISTENCE_EVENT_BATCH_DELAY_MS = 96
@@ -116,6 +120,41 @@ export class AssistantPersistence {
         return this.enqueue(() => readAssistantSessionTurnUsage(this.requireDb(), sessionId))
     }
 
+    /** Reads full details for threads that may not be hydrated, after writing any queued events. */
+    async readThreadDetails(threadIds: string[]): Promise<Map<string, AssistantHydratedThreadData>> {
+        await this.ensureInitialized()
+        this.clearPendingEventTimer()
+        await this.processPendingEvents()
+        return this.enqueue(() => {
+            const db = this.requireDb()
+            const detailsByThreadId = new Map<string, AssistantHydratedThreadData>()
+            for (const threadId of threadIds) {
+                const details = readThreadDetails(db, threadId)
+                if (details) detailsByThreadId.set(threadId, details)
+            }
+            return detailsByThreadId
+        })
+    }
+
+    /** Restores historical turns; queued events go first so the owning threads already exist. */
+    /** Full-text search over persisted messages, activities and plans, after writing any queued events. */
+    async searchConversations(query: string, limit?: number): Promise<AssistantSearchHit[]> {
+        await this.ensureInitialized()
+        this.clearPendingEventTimer()
+        await this.processPendingEvents()
+        return this.enqueue(() => searchAssistantConversations(this.requireDb(), query, limit))
+    }
+
+    async writeSessionTurnUsage(turns: AssistantSessionTurnUsageEntry[]): Promise<void> {
+        await this.ensureInitialized()
+        this.clearPendingEventTimer()
+        await this.processPendingEvents()
+        await this.enqueue(() => {
+            upsertAssistantTurnUsage(this.requireDb(), turns)
+            this.scheduleFlush()
+        })
+    }
+
     async flush(): Promise<void> {
         await this.ensureInitialized()
         this.clearPendingEventTimer()
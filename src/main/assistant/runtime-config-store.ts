@@ -0,0 +1,87 @@
+import { app } from 'electron'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import log from 'electron-log'
+import type { AssistantRuntimeBackend, AssistantRuntimeConfig } from '../../shared/assistant/contracts'
+
+type RuntimeConfigStoreFile = {
+    version: number
+    config: AssistantRuntimeConfig
+}
+
+const STORE_VERSION = 1
+const RUNTIME_BACKENDS: AssistantRuntimeBackend[] = ['codex', 'openai-compatible']
+
+export const DEFAULT_ASSISTANT_RUNTIME_CONFIG: AssistantRuntimeConfig = {
+    backend: 'codex',
+    openaiCompatible: {
+        baseUrl: 'http://localhost:11434/v1',
+        apiKey: '',
+        defaultModel: ''
+    }
+}
+
+let storeCache: RuntimeConfigStoreFile | null = null
+let writeQueue: Promise<void> = Promise.resolve()
+
+function getStorePath(): string {
+    return join(app.getPath('userData'), 'assistant', 'runtime-config.json')
+}
+
+export function sanitizeAssistantRuntimeConfig(raw: unknown): AssistantRuntimeConfig {
+    const record = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {}
+    const openaiCompatible = record.openaiCompatible && typeof record.openaiCompatible === 'object'
+        ? record.openaiCompatible as Record<string, unknown>
+        : {}
+    const baseUrl = String(openaiCompatible.baseUrl ?? '').trim().replace(/\/+$/, '')
+    return {
+        backend: RUNTIME_BACKENDS.includes(record.backend as AssistantRuntimeBackend)
+            ? record.backend as AssistantRuntimeBackend
+            : DEFAULT_ASSISTANT_RUNTIME_CONFIG.backend,
+        openaiCompatible: {
+            baseUrl: baseUrl || DEFAULT_ASSISTANT_RUNTIME_CONFIG.openaiCompatible.baseUrl,
+            apiKey: String(openaiCompatible.apiKey ?? '').trim(),
+            defaultModel: String(openaiCompatible.defaultModel ?? '').trim()
+        }
+    }
+}
+
+async function loadStore(): Promise<RuntimeConfigStoreFile> {
+    if (storeCache) return storeCache
+    try {
+        const parsed = JSON.parse(await readFile(getStorePath(), 'utf-8')) as Partial<RuntimeConfigStoreFile>
+        storeCache = {
+            version: STORE_VERSION,
+            config: sanitizeAssistantRuntimeConfig(parsed.version === STORE_VERSION ? parsed.config : null)
+        }
+    } catch (err: any) {
+        if (err?.code !== 'ENOENT') {
+            log.warn('[Assistant] Failed to read runtime config', err)
+        }
+        storeCache = { version: STORE_VERSION, config: DEFAULT_ASSISTANT_RUNTIME_CONFIG }
+    }
+    return storeCache
+}
+
+function persistStore(store: RuntimeConfigStoreFile): Promise<void> {
+    const payload = JSON.stringify(store, null, 2)
+    writeQueue = writeQueue.then(async () => {
+        const storePath = getStorePath()
+        await mkdir(dirname(storePath), { recursive: true })
+        await writeFile(storePath, payload, 'utf-8')
+    }).catch((err) => {
+        log.warn('[Assistant] Failed to write runtime config', err)
+    })
+    return writeQueue
+}
+
+export async function readAssistantRuntimeConfig(): Promise<AssistantRuntimeConfig> {
+    return (await loadStore()).config
+}
+
+export async function writeAssistantRuntimeConfig(config: unknown): Promise<AssistantRuntimeConfig> {
+    const store = await loadStore()
+    store.config = sanitizeAssistantRuntimeConfig(config)
+    await persistStore(store)
+    return store.config
+}
@@ -11,10 +11,10 @@ import type {
     AssistantSnapshot,
     AssistantThread
 } from '../../shared/assistant/contracts'
-import type { CodexAppServerRuntime } from './codex-app-server'
+import type { AssistantRuntime } from './assistant-runtime'
 
 export interface AssistantServiceActionDeps {
-    readonly runtime: CodexAppServerRuntime
+    readonly runtime: AssistantRuntime
     ensureReady(): Promise<void>
     getSnapshot(): AssistantSnapshot
     hydrateSelectedSession(sessionId: string): Promise<void>
@@ -0,0 +1,91 @@
+import log from 'electron-log'
+import type { AssistantApprovalPolicyInput, AssistantRuntimeEvent } from '../../shared/assistant/contracts'
+import { evaluateAssistantApprovalPolicy } from './approval-policy'
+import { readAssistantApprovalPolicy, writeAssistantApprovalPolicy } from './approval-policy-store'
+import type { AssistantServiceActionDeps } from './service-action-deps'
+import { findThreadRecord } from './service-state'
+import { createAssistantId, nowIso, sanitizeOptionalPath } from './utils'
+
+type ApprovalRequestedEvent = Extract<AssistantRuntimeEvent, { type: 'approval.requested' }>
+
+function requireProjectPath(projectPath: string | null | undefined): string {
+    const normalized = sanitizeOptionalPath(projectPath)
+    if (!normalized) throw new Error('Project path is required.')
+    return normalized
+}
+
+export async function getAssistantApprovalPolicyAction(projectPath: string) {
+    const normalized = requireProjectPath(projectPath)
+    return {
+        success: true as const,
+        projectPath: normalized,
+        policy: await readAssistantApprovalPolicy(normalized)
+    }
+}
+
+export async function setAssistantApprovalPolicyAction(input: AssistantApprovalPolicyInput) {
+    const normalized = requireProjectPath(input?.projectPath)
+    return {
+        success: true as const,
+        projectPath: normalized,
+        policy: await writeAssistantApprovalPolicy(normalized, input?.policy)
+    }
+}
+
+function readActivityPaths(payload: Record<string, unknown> | undefined): string[] {
+    const paths = payload?.['paths']
+    return Array.isArray(paths) ? paths.filter((entry): entry is string => typeof entry === 'string') : []
+}
+
+/**
+ * Answers an approval request from the project's policy when a rule matches and records which
+ * rule did it, so the thread keeps an audit trail of everything resolved without the user.
+ */
+export async function applyAssistantApprovalPolicy(deps: AssistantServiceActionDeps, event: ApprovalRequestedEvent) {
+    const record = findThreadRecord(deps.getSnapshot(), event.threadId)
+    const projectPath = record?.session.projectPath
+    if (!record || !projectPath || !event.requestId) return
+
+    try {
+        const policy = await readAssistantApprovalPolicy(projectPath)
+        // Codex sends file-change approvals without paths; the matching item activity carries them.
+        const itemActivity = event.itemId
+            ? record.thread.activities.find((activity) => activity.id === `codex-item-${event.itemId}`)
+            : undefined
+        const paths = event.payload.paths?.length ? event.payload.paths : readActivityPaths(itemActivity?.payload)
+        const match = evaluateAssistantApprovalPolicy(policy, {
+            projectPath,
+            requestType: event.payload.requestType,
+            command: event.payload.command,
+            paths
+        })
+        if (!match) return
+
+        await deps.runtime.respondApproval(record.thread.providerThreadId || record.thread.id, event.requestId, match.decision)
+        const accepted = match.decision === 'accept'
+        const occurredAt = nowIso()
+        deps.appendEvent('thread.activity.appended', occurredAt, {
+            threadId: record.thread.id,
+            activity: {
+                id: createAssistantId('assistant-activity'),
+                kind: 'approval.auto-resolved',
+                tone: accepted ? 'info' : 'warning',
+                summary: accepted ? 'Auto-approved by project policy' : 'Auto-declined by project policy',
+                detail: event.payload.command || paths.join(', ') || event.payload.detail,
+                turnId: event.turnId || null,
+                createdAt: occurredAt,
+                payload: {
+                    requestId: event.requestId,
+                    requestType: event.payload.requestType,
+                    decision: match.decision,
+                    ruleList: match.ruleList,
+                    rule: match.rule,
+                    command: event.payload.command,
+                    paths
+                }
+            }
+        }, record.session.id, record.thread.id)
+    } catch (error) {
+        log.warn('[Assistant] Failed to apply approval policy', error)
+    }
+}
@@ -1,4 +1,5 @@
 import type { AssistantLatestTurn, AssistantMessage, AssistantThread } from '../../shared/assistant/contracts'
+import { createAssistantId } from './utils'
 
 type UserTurnEntry = {
     message: AssistantMessage
@@ -30,6 +31,12 @@ type AssistantDeleteMessagePlan = {
     >
 }
 
+type AssistantForkMessagePlan = {
+    prompt: string
+    rollbackTurnCount: number
+    history: Pick<AssistantThread, 'messages' | 'activities' | 'proposedPlans' | 'latestTurn' | 'lastSeenCompletedTurnId'>
+}
+
 function getSortedMessages(thread: AssistantThread): AssistantMessage[] {
     return [...thread.messages].sort((left, right) => left.createdAt.localeCompare(right.createdAt) || left.id.localeCompare(right.id))
 }
@@ -184,3 +191,76 @@ export function buildDeleteMessagePlan(thread: AssistantThread, messageId: strin
         }
     }
 }
+
+/**
+ * Plans a fork that replays `thread` up to, but not including, the user message being edited.
+ * Copied records get fresh ids, turns included, because ids are unique across threads.
+ */
+export function buildForkMessagePlan(thread: AssistantThread, messageId: string, occurredAt: string): AssistantForkMessagePlan {
+    const messages = getSortedMessages(thread)
+    const targetIndex = messages.findIndex((message) => message.id === messageId && message.role === 'user')
+    if (targetIndex < 0) {
+        throw new Error('User message not found.')
+    }
+
+    const userTurnEntries = getUserTurnEntries(messages, messageId, thread.latestTurn?.id || null)
+    const targetEntryIndex = userTurnEntries.findIndex((entry) => entry.message.id === messageId)
+    const orderedTurnIds = userTurnEntries
+        .map((entry) => entry.turnId)
+        .filter((turnId, index, array): turnId is string => Boolean(turnId) && array.indexOf(turnId) === index)
+    const keptTurnIds = new Set(userTurnEntries.slice(0, targetEntryIndex).map((entry) => entry.turnId).filter(Boolean))
+    const removedTurnIds = new Set(orderedTurnIds.filter((turnId) => !keptTurnIds.has(turnId)))
+    const forkCreatedAt = messages[targetIndex].createdAt
+    const shouldKeepRecord = (turnId: string | null, createdAt: string): boolean => turnId
+        ? keptTurnIds.has(turnId)
+        : createdAt < forkCreatedAt
+
+    const idMap = new Map<string, string>()
+    const remap = (id: string, prefix: string): string => {
+        let next = idMap.get(id)
+        if (!next) {
+            next = createAssistantId(prefix)
+            idMap.set(id, next)
+        }
+        return next
+    }
+    const remapOptional = (id: string | null, prefix: string): string | null => id ? remap(id, prefix) : null
+    const keptMessages = messages.slice(0, targetIndex)
+    const latestTurn = getRemainingLatestTurn(thread, keptMessages, orderedTurnIds, removedTurnIds, occurredAt)
+
+    return {
+        prompt: messages[targetIndex].text,
+        rollbackTurnCount: userTurnEntries.length - targetEntryIndex,
+        history: {
+            messages: keptMessages.map((message) => ({
+                ...message,
+                id: remap(message.id, 'assistant-message'),
+                turnId: remapOptional(message.turnId, 'assistant-turn'),
+                streaming: false
+            })),
+            activities: thread.activities
+                .filter((activity) => shouldKeepRecord(activity.turnId, activity.createdAt))
+                .map((activity) => ({
+                    ...activity,
+                    id: createAssistantId('assistant-activity'),
+                    turnId: remapOptional(activity.turnId, 'assistant-turn')
+                })),
+            proposedPlans: thread.proposedPlans
+                .filter((plan) => shouldKeepRecord(plan.turnId, plan.createdAt))
+                .map((plan) => ({
+                    ...plan,
+                    id: createAssistantId('assistant-plan'),
+                    turnId: remapOptional(plan.turnId, 'assistant-turn')
+                })),
+            latestTurn: latestTurn
+                ? {
+                    ...latestTurn,
+                    id: remap(latestTurn.id, 'assistant-turn'),
+                    state: latestTurn.state === 'running' ? 'interrupted' : latestTurn.state,
+                    assistantMessageId: latestTurn.assistantMessageId ? idMap.get(latestTurn.assistantMessageId) || null : null
+                }
+                : null,
+            lastSeenCompletedTurnId: latestTurn ? remap(latestTurn.id, 'assistant-turn') : null
+        }
+    }
+}
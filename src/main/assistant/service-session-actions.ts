@@ -1,11 +1,15 @@
 import log from 'electron-log'
 import type {
+    AssistantApprovalDecision,
     AssistantClearLogsInput,
     AssistantConnectOptions,
     AssistantCreateSessionInput,
     AssistantDeleteMessageInput,
+    AssistantForkThreadInput,
     AssistantGetSessionTurnUsageInput,
     AssistantRuntimeStatus,
+    AssistantSearchConversationsInput,
+    AssistantSearchHit,
     AssistantSendPromptOptions,
     AssistantSessionTurnUsagePayload,
     AssistantThread
@@ -16,7 +20,7 @@ import {
 } from '../../shared/assistant/dev-context-compaction-test'
 import { PLAYGROUND_TERMINAL_ACCESS_DECISION_QUESTION_ID } from '../../shared/assistant/playground-terminal-access'
 import { is } from '../utils'
-import { buildDeleteMessagePlan } from './service-history'
+import { buildDeleteMessagePlan, buildForkMessagePlan } from './service-history'
 import { createAssistantSessionRecord, createAssistantUserMessage, createRunningLatestTurn } from './service-records'
 import type { AssistantServiceActionDeps } from './service-action-deps'
 import {
@@ -32,7 +36,8 @@ import {
     getSelectedSession,
     isClearableIssueActivity,
     requireActiveThread,
-    requireSession
+    requireSession,
+    requireWritableSession
 } from './service-state'
 import {
     buildPlaygroundLabContinuationAnswer,
@@ -71,6 +76,7 @@ export async function connectAssistantSession(deps: AssistantServiceActionDeps,
         ? requireSession(snapshot, options.sessionId)
         : getSelectedSession(snapshot)
     if (!session) throw new Error('Assistant session not found.')
+    requireWritableSession(session)
     const thread = requireActiveThread(session)
     await deps.runtime.connect(thread, deps.getSessionRuntimeCwd(session, thread))
     return { success: true as const, threadId: thread.id }
@@ -304,6 +310,7 @@ export async function createAssistantThreadAction(deps: AssistantServiceActionDe
         ? requireSession(snapshot, sessionId)
         : getSelectedSession(snapshot)
     if (!session) throw new Error('Assistant session not found.')
+    requireWritableSession(session)
     const previousThread = getActiveThread(session)
     if (previousThread) {
         deps.runtime.disconnect(previousThread.providerThreadId || previousThread.id)
@@ -327,6 +334,48 @@ export async function createAssistantThreadAction(deps: AssistantServiceActionDe
     return { success: true as const, threadId: thread.id }
 }
 
+export async function forkAssistantThreadAction(deps: AssistantServiceActionDeps, input: AssistantForkThreadInput) {
+    await deps.ensureReady()
+    const prompt = String(input?.prompt || '').trim()
+    if (!prompt) throw new Error('Prompt is required.')
+    const session = input?.sessionId
+        ? requireSession(deps.getSnapshot(), input.sessionId)
+        : requireSession(deps.getSnapshot(), deps.getSnapshot().selectedSessionId || '')
+    requireWritableSession(session)
+    const sourceThread = requireActiveThread(session)
+    const createdAt = nowIso()
+    const forkPlan = buildForkMessagePlan(sourceThread, input.messageId, createdAt)
+    deps.runtime.disconnect(sourceThread.providerThreadId || sourceThread.id)
+
+    const thread: AssistantThread = {
+        ...createAssistantThread(createdAt, sourceThread, sourceThread.cwd),
+        forkedFromThreadId: sourceThread.id,
+        forkedFromMessageId: input.messageId,
+        messageCount: forkPlan.history.messages.length
+    }
+    deps.appendEvent('thread.created', createdAt, { sessionId: session.id, thread }, session.id, thread.id)
+    deps.appendEvent('thread.updated', createdAt, { threadId: thread.id, patch: forkPlan.history }, session.id, thread.id)
+    deps.appendEvent('session.updated', createdAt, {
+        sessionId: session.id,
+        patch: {
+            activeThreadId: thread.id,
+            updatedAt: createdAt
+        }
+    }, session.id, thread.id)
+
+    const forkedSession = requireSession(deps.getSnapshot(), session.id)
+    const forkedThread = requireActiveThread(forkedSession)
+    const runtimeCwd = deps.getSessionRuntimeCwd(forkedSession, forkedThread, {
+        playgroundTerminalAccess: input.options?.playgroundTerminalAccess === true
+    })
+    try {
+        await deps.runtime.forkThread(forkedThread, runtimeCwd, sourceThread.providerThreadId, forkPlan.rollbackTurnCount)
+    } catch (error) {
+        log.warn('[Assistant] forkThread failed; the edited prompt starts without the earlier runtime context', error)
+    }
+    return sendAssistantPromptAction(deps, prompt, { ...input.options, sessionId: session.id })
+}
+
 function buildDevContextCompactionTestActivity(input: {
     command: AssistantDevContextCompactionTestCommand
     markerId: string
@@ -415,6 +464,7 @@ export async function sendAssistantPromptAction(
         ? requireSession(snapshot, options.sessionId)
         : getSelectedSession(snapshot)
     if (!session) throw new Error('Assistant session not found.')
+    requireWritableSession(session)
     const thread = requireActiveThread(session)
     const occurredAt = nowIso()
     const compactionTestCommand = parseDevContextCompactionTestCommand(input, { enabled: is.dev })
@@ -557,7 +607,7 @@ export async function interruptAssistantTurnAction(
 
 export async function respondAssistantApprovalAction(
     deps: AssistantServiceActionDeps,
-    input: { requestId: string; decision: 'acceptForSession' | 'decline' }
+    input: { requestId: string; decision: AssistantApprovalDecision }
 ) {
     await deps.ensureReady()
     const target = findThreadForApproval(deps.getSnapshot(), input.requestId)
@@ -748,6 +798,19 @@ export async function getAssistantSessionTurnUsageAction(
     return { success: true as const, usage }
 }
 
+export async function searchAssistantConversationsAction(
+    deps: AssistantServiceActionDeps,
+    searchConversations: (query: string, limit?: number) => Promise<AssistantSearchHit[]>,
+    input: AssistantSearchConversationsInput
+) {
+    await deps.ensureReady()
+    const query = String(input?.query || '').trim()
+    if (!query) return { success: true as const, hits: [] as AssistantSearchHit[] }
+    const sessionIds = new Set(deps.getSnapshot().sessions.map((session) => session.id))
+    const hits = (await searchConversations(query, input.limit)).filter((hit) => sessionIds.has(hit.sessionId))
+    return { success: true as const, hits }
+}
+
 function markThreadCompletionSeen(deps: AssistantServiceActionDeps, session: ReturnType<typeof requireSession>, occurredAt: string) {
     const activeThread = getActiveThread(session)
     if (!activeThread || !activeThread.latestTurn || activeThread.latestTurn.state !== 'completed') return
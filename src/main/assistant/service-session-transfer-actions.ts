@@ -0,0 +1,81 @@
+import type {
+    AssistantExportSessionInput,
+    AssistantSessionExportFormat,
+    AssistantSessionTurnUsageEntry
+} from '../../shared/assistant/contracts'
+import type { AssistantHydratedThreadData } from './persistence-snapshot'
+import { summarizeThread } from './persistence-snapshot'
+import type { AssistantServiceActionDeps } from './service-action-deps'
+import { getAssistantSessionTurnUsageAction } from './service-session-actions'
+import { requireSession } from './service-state'
+import {
+    buildAssistantSessionExportDocument,
+    getAssistantSessionExportFileName,
+    renderAssistantSessionExport
+} from './session-export'
+import { createImportedAssistantSession, parseAssistantSessionExportDocument } from './session-import'
+import { nowIso } from './utils'
+
+const EXPORT_FORMATS: AssistantSessionExportFormat[] = ['markdown', 'html', 'json']
+
+export type AssistantSessionTransferPersistence = {
+    readThreadDetails: (threadIds: string[]) => Promise<Map<string, AssistantHydratedThreadData>>
+    readTurnUsage: (sessionId: string) => Promise<AssistantSessionTurnUsageEntry[]>
+    writeTurnUsage: (turns: AssistantSessionTurnUsageEntry[]) => Promise<void>
+}
+
+export async function exportAssistantSessionAction(
+    deps: AssistantServiceActionDeps,
+    persistence: AssistantSessionTransferPersistence,
+    input: AssistantExportSessionInput
+) {
+    await deps.ensureReady()
+    if (!EXPORT_FORMATS.includes(input?.format)) throw new Error('Unsupported export format.')
+    const session = requireSession(deps.getSnapshot(), input.sessionId)
+    // Only the focused thread is hydrated in memory, so the rest are read back from persistence.
+    const detailsByThreadId = await persistence.readThreadDetails(session.threadIds)
+    const hydratedSession = {
+        ...session,
+        threads: session.threads.map((thread) => ({ ...thread, ...detailsByThreadId.get(thread.id) }))
+    }
+    const usageResult = await getAssistantSessionTurnUsageAction(deps, persistence.readTurnUsage, { sessionId: session.id })
+    const document = buildAssistantSessionExportDocument(hydratedSession, usageResult.usage.turns, nowIso(), input.threadId)
+    return {
+        success: true as const,
+        content: renderAssistantSessionExport(document, input.format),
+        defaultFileName: getAssistantSessionExportFileName(document, input.format)
+    }
+}
+
+export async function importAssistantSessionAction(
+    deps: AssistantServiceActionDeps,
+    persistence: AssistantSessionTransferPersistence,
+    text: string
+) {
+    await deps.ensureReady()
+    const document = parseAssistantSessionExportDocument(text)
+    const importedAt = nowIso()
+    const { session, turnUsage } = createImportedAssistantSession(document, importedAt)
+    const activeThreadId = session.activeThreadId || undefined
+
+    deps.appendEvent('session.created', importedAt, {
+        session: { ...session, threads: session.threads.map(summarizeThread) }
+    }, session.id, activeThreadId)
+    for (const thread of session.threads) {
+        deps.appendEvent('thread.updated', importedAt, {
+            threadId: thread.id,
+            patch: {
+                latestTurn: thread.latestTurn,
+                activePlan: thread.activePlan,
+                messages: thread.messages,
+                proposedPlans: thread.proposedPlans,
+                activities: thread.activities,
+                pendingApprovals: thread.pendingApprovals,
+                pendingUserInputs: thread.pendingUserInputs
+            }
+        }, session.id, thread.id)
+    }
+    await persistence.writeTurnUsage(turnUsage)
+    deps.appendEvent('session.selected', importedAt, { sessionId: session.id }, session.id, activeThreadId)
+    return { success: true as const, sessionId: session.id }
+}
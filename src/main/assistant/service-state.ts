@@ -60,6 +60,11 @@ export function requireSession(snapshot: AssistantSnapshot, sessionId?: string)
     return session
 }
 
+export function requireWritableSession(session: AssistantSession) {
+    if (session.importedAt) throw new Error('Imported sessions are read-only history.')
+    return session
+}
+
 export function getActiveThread(session: AssistantSession | null) {
     if (!session?.activeThreadId) return null
     return session.threads.find((thread) => thread.id === session.activeThreadId) || null
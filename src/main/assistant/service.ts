@@ -3,6 +3,8 @@ import { mkdirSync } from 'node:fs'
 import { join } from 'node:path'
 import type {
     AssistantAccountOverview,
+    AssistantApprovalDecision,
+    AssistantApprovalPolicyInput,
     AssistantApprovePendingPlaygroundLabRequestInput,
     AssistantAttachSessionToPlaygroundLabInput,
     AssistantClearLogsInput,
@@ -11,16 +13,23 @@ import type {
     AssistantCreateSessionInput,
     AssistantDeclinePendingPlaygroundLabRequestInput,
     AssistantDeleteMessageInput,
+    AssistantForkThreadInput,
     AssistantDeletePlaygroundLabInput,
     AssistantDomainEvent,
+    AssistantExportSessionInput,
     AssistantGetSessionTurnUsageInput,
+    AssistantRuntimeBackend,
     AssistantRuntimeStatus,
+    AssistantSearchConversationsInput,
     AssistantSendPromptOptions,
     AssistantSession,
     AssistantThread
 } from '../../shared/assistant/contracts'
 import { AssistantTextDeltaBuffer } from './assistant-text-delta-buffer'
+import type { AssistantRuntime } from './assistant-runtime'
 import { CodexAppServerRuntime } from './codex-app-server'
+import { OpenAiCompatibleRuntime } from './openai-compatible-runtime'
+import { readAssistantRuntimeConfig, writeAssistantRuntimeConfig } from './runtime-config-store'
 import { sanitizeOptionalPath, nowIso } from './utils'
 import type { AssistantServiceActionDeps } from './service-action-deps'
 import { AssistantPersistence } from './persistence'
@@ -33,9 +42,11 @@ import {
     createAssistantThreadAction,
     deleteAssistantMessageAction,
     deleteAssistantSessionAction,
+    forkAssistantThreadAction,
     disconnectAssistantSession,
     getAssistantRuntimeStatusAction,
     getAssistantSessionTurnUsageAction,
+    searchAssistantConversationsAction,
     interruptAssistantTurnAction,
     archiveAssistantSessionAction,
     renameAssistantSessionAction,
@@ -53,6 +64,12 @@ import {
     updateLatestTurnAssistantMessage
 } from './service-helpers'
 import { handleAssistantRuntimeEvent } from './service-runtime-events'
+import { applyAssistantApprovalPolicy, getAssistantApprovalPolicyAction, setAssistantApprovalPolicyAction } from './service-approval-policy-actions'
+import {
+    type AssistantSessionTransferPersistence,
+    exportAssistantSessionAction,
+    importAssistantSessionAction
+} from './service-session-transfer-actions'
 import {
     type AssistantStateRecord,
     findSessionByThreadId,
@@ -68,7 +85,9 @@ export class AssistantService {
     private static readonly ASSISTANT_TEXT_DELTA_FLUSH_MS = 40
     private static readonly ASSISTANT_EVENT_BROADCAST_BATCH_MS = 16
 
-    private readonly runtime = new CodexAppServerRuntime()
+    private readonly codexRuntime = new CodexAppServerRuntime()
+    private readonly openAiCompatibleRuntime = new OpenAiCompatibleRuntime(async () => (await readAssistantRuntimeConfig()).openaiCompatible)
+    private runtimeBackend: AssistantRuntimeBackend = 'codex'
     private readonly persistence = new AssistantPersistence()
     private readonly assistantTextDeltaBuffer = new AssistantTextDeltaBuffer({
         flushDelayMs: AssistantService.ASSISTANT_TEXT_DELTA_FLUSH_MS,
@@ -86,6 +105,11 @@ export class AssistantService {
     private readonly suppressedAssistantTextTurns = new Set<string>()
     private readonly readyPromise: Promise<void>
     private readonly actionDeps: AssistantServiceActionDeps
+    private readonly transferPersistence: AssistantSessionTransferPersistence = {
+        readThreadDetails: (threadIds) => this.persistence.readThreadDetails(threadIds),
+        readTurnUsage: (sessionId) => this.persistence.readSessionTurnUsage(sessionId),
+        writeTurnUsage: (turns) => this.persistence.writeSessionTurnUsage(turns)
+    }
 
     private state: AssistantStateRecord = {
         snapshot: createDefaultSnapshot(),
@@ -96,8 +120,11 @@ export class AssistantService {
 
     constructor() {
         this.readyPromise = this.initialize()
+        const getRuntime = () => this.runtime
         this.actionDeps = {
-            runtime: this.runtime,
+            get runtime() {
+                return getRuntime()
+            },
             ensureReady: () => this.ensureReady(),
             getSnapshot: () => this.state.snapshot,
             hydrateSelectedSession: async (sessionId: string) => {
@@ -114,9 +141,15 @@ export class AssistantService {
                 this.suppressedAssistantTextTurns.add(`${threadId}:${turnId}`)
             }
         }
-        this.runtime.on('runtime', (event) => {
-            this.handleRuntimeEvent(event)
-        })
+        for (const runtime of [this.codexRuntime, this.openAiCompatibleRuntime]) {
+            runtime.on('runtime', (event) => {
+                this.handleRuntimeEvent(event)
+            })
+        }
+    }
+
+    private get runtime(): AssistantRuntime {
+        return this.runtimeBackend === 'openai-compatible' ? this.openAiCompatibleRuntime : this.codexRuntime
     }
 
     subscribe(senderId: number) {
@@ -174,6 +207,30 @@ export class AssistantService {
         return { success: true as const, overview }
     }
 
+    async getRuntimeConfig() {
+        await this.ensureReady()
+        return {
+            success: true as const,
+            config: await readAssistantRuntimeConfig(),
+            status: await this.getStatus()
+        }
+    }
+
+    /** Switching backends stops live sessions; threads reconnect on the new backend with their next prompt. */
+    async setRuntimeConfig(input: unknown) {
+        await this.ensureReady()
+        const config = await writeAssistantRuntimeConfig(input)
+        if (config.backend !== this.runtimeBackend) {
+            this.runtime.dispose()
+            this.runtimeBackend = config.backend
+        }
+        return {
+            success: true as const,
+            config,
+            status: await this.getStatus()
+        }
+    }
+
     async getSessionTurnUsage(input?: AssistantGetSessionTurnUsageInput) {
         return getAssistantSessionTurnUsageAction(
             this.actionDeps,
@@ -182,6 +239,14 @@ export class AssistantService {
         )
     }
 
+    async searchConversations(input: AssistantSearchConversationsInput) {
+        return searchAssistantConversationsAction(
+            this.actionDeps,
+            (query, limit) => this.persistence.searchConversations(query, limit),
+            input
+        )
+    }
+
     async connect(options?: AssistantConnectOptions) {
         return connectAssistantSession(this.actionDeps, options)
     }
@@ -225,6 +290,14 @@ export class AssistantService {
         return deleteAssistantSessionAction(this.actionDeps, sessionId)
     }
 
+    async exportSession(input: AssistantExportSessionInput) {
+        return exportAssistantSessionAction(this.actionDeps, this.transferPersistence, input)
+    }
+
+    async importSession(text: string) {
+        return importAssistantSessionAction(this.actionDeps, this.transferPersistence, text)
+    }
+
     async clearLogs(input?: AssistantClearLogsInput) {
         return clearAssistantLogsAction(this.actionDeps, input)
     }
@@ -261,14 +334,28 @@ export class AssistantService {
         return sendAssistantPromptAction(this.actionDeps, prompt, options)
     }
 
+    async forkThread(input: AssistantForkThreadInput) {
+        return forkAssistantThreadAction(this.actionDeps, input)
+    }
+
     async interruptTurn(turnId?: string, sessionId?: string) {
         return interruptAssistantTurnAction(this.actionDeps, turnId, sessionId)
     }
 
-    async respondApproval(input: { requestId: string; decision: 'acceptForSession' | 'decline' }) {
+    async respondApproval(input: { requestId: string; decision: AssistantApprovalDecision }) {
         return respondAssistantApprovalAction(this.actionDeps, input)
     }
 
+    async getApprovalPolicy(projectPath: string) {
+        await this.ensureReady()
+        return getAssistantApprovalPolicyAction(projectPath)
+    }
+
+    async setApprovalPolicy(input: AssistantApprovalPolicyInput) {
+        await this.ensureReady()
+        return setAssistantApprovalPolicyAction(input)
+    }
+
     async respondUserInput(input: { requestId: string; answers: Record<string, string | string[]> }) {
         return respondAssistantUserInputAction(this.actionDeps, input)
     }
@@ -283,11 +370,13 @@ export class AssistantService {
 
     dispose() {
         this.assistantTextDeltaBuffer.dispose()
-        this.runtime.dispose()
+        this.codexRuntime.dispose()
+        this.openAiCompatibleRuntime.dispose()
         void this.persistence.flush()
     }
 
     private async initialize() {
+        this.runtimeBackend = (await readAssistantRuntimeConfig()).backend
         const loaded = await this.persistence.load()
         this.state = {
             snapshot: loaded.snapshot || createDefaultSnapshot(),
@@ -376,6 +465,10 @@ export class AssistantService {
             }
         })
 
+        if (event.type === 'approval.requested') {
+            void applyAssistantApprovalPolicy(this.actionDeps, event)
+            return
+        }
         if (event.type !== 'turn.completed') return
 
         const completedThreadRecord = findThreadRecord(this.state.snapshot, event.threadId)
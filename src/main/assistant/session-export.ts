@@ -0,0 +1,363 @@
+import type {
+    AssistantActivity,
+    AssistantMessage,
+    AssistantPendingApproval,
+    AssistantPendingUserInput,
+    AssistantProposedPlan,
+    AssistantSession,
+    AssistantSessionExportDocument,
+    AssistantSessionExportFormat,
+    AssistantSessionTurnUsageEntry,
+    AssistantThread,
+    AssistantTurnUsage
+} from '../../shared/assistant/contracts'
+
+export const ASSISTANT_SESSION_EXPORT_VERSION = 1
+
+const EXPORT_FILE_EXTENSIONS: Record<AssistantSessionExportFormat, string> = {
+    markdown: 'md',
+    html: 'html',
+    json: 'json'
+}
+
+type TimelineEntry =
+    | { type: 'message'; createdAt: string; message: AssistantMessage }
+    | { type: 'plan'; createdAt: string; plan: AssistantProposedPlan }
+    | { type: 'activity'; createdAt: string; activity: AssistantActivity }
+    | { type: 'approval'; createdAt: string; approval: AssistantPendingApproval }
+    | { type: 'user-input'; createdAt: string; userInput: AssistantPendingUserInput }
+
+type ActivityView = {
+    title: string
+    detail: string | null
+    command: string | null
+    output: string | null
+    patch: string | null
+    paths: string[]
+}
+
+type UsageTotals = Record<Exclude<keyof AssistantTurnUsage, 'modelContextWindow'>, number>
+
+const USAGE_COLUMNS: Array<{ key: keyof UsageTotals; label: string }> = [
+    { key: 'inputTokens', label: 'Input' },
+    { key: 'cachedInputTokens', label: 'Cached' },
+    { key: 'outputTokens', label: 'Output' },
+    { key: 'reasoningOutputTokens', label: 'Reasoning' },
+    { key: 'totalTokens', label: 'Total' }
+]
+
+const ROLE_LABELS: Record<AssistantMessage['role'], string> = {
+    user: 'User',
+    assistant: 'Assistant',
+    system: 'System'
+}
+
+export function buildAssistantSessionExportDocument(
+    session: AssistantSession,
+    turnUsage: AssistantSessionTurnUsageEntry[],
+    exportedAt: string,
+    threadId?: string
+): AssistantSessionExportDocument {
+    const threads = threadId ? session.threads.filter((thread) => thread.id === threadId) : session.threads
+    if (threadId && threads.length === 0) {
+        throw new Error(`Assistant thread ${threadId} does not belong to session ${session.id}.`)
+    }
+    const threadIds = new Set(threads.map((thread) => thread.id))
+    return {
+        format: 'devscope-assistant-session',
+        version: ASSISTANT_SESSION_EXPORT_VERSION,
+        exportedAt,
+        session: {
+            ...session,
+            activeThreadId: session.activeThreadId && threadIds.has(session.activeThreadId) ? session.activeThreadId : threads[0]?.id || null,
+            threadIds: threads.map((thread) => thread.id),
+            threads
+        },
+        turnUsage: turnUsage.filter((turn) => threadIds.has(turn.threadId))
+    }
+}
+
+export function getAssistantSessionExportFileName(document: AssistantSessionExportDocument, format: AssistantSessionExportFormat): string {
+    const slug = document.session.title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60)
+    return `${slug || 'assistant-session'}-${document.exportedAt.slice(0, 10)}.${EXPORT_FILE_EXTENSIONS[format]}`
+}
+
+export function renderAssistantSessionExport(document: AssistantSessionExportDocument, format: AssistantSessionExportFormat): string {
+    if (format === 'json') return `${JSON.stringify(document, null, 2)}\n`
+    return format === 'html' ? renderHtml(document) : renderMarkdown(document)
+}
+
+function buildThreadTimeline(thread: AssistantThread): TimelineEntry[] {
+    const entries: TimelineEntry[] = [
+        ...thread.messages.map((message) => ({ type: 'message' as const, createdAt: message.createdAt, message })),
+        ...thread.proposedPlans.map((plan) => ({ type: 'plan' as const, createdAt: plan.createdAt, plan })),
+        ...thread.activities.map((activity) => ({ type: 'activity' as const, createdAt: activity.createdAt, activity })),
+        ...thread.pendingApprovals.map((approval) => ({ type: 'approval' as const, createdAt: approval.createdAt, approval })),
+        ...thread.pendingUserInputs.map((userInput) => ({ type: 'user-input' as const, createdAt: userInput.createdAt, userInput }))
+    ]
+    // Array.prototype.sort is stable, so entries sharing a timestamp keep their per-kind order.
+    return entries.sort((left, right) => left.createdAt.localeCompare(right.createdAt))
+}
+
+function readPayloadString(payload: Record<string, unknown> | undefined, key: string): string | null {
+    const value = payload?.[key]
+    return typeof value === 'string' && value.trim() ? value : null
+}
+
+function describeActivity(activity: AssistantActivity): ActivityView {
+    const payload = activity.payload
+    const paths = Array.isArray(payload?.['paths'])
+        ? payload['paths'].filter((entry): entry is string => typeof entry === 'string')
+        : []
+    const toolName = readPayloadString(payload, 'toolName')
+    const rawArguments = payload?.['arguments']
+    const argumentsText = typeof rawArguments === 'string' ? rawArguments : rawArguments ? JSON.stringify(rawArguments, null, 2) : null
+    const exitCode = typeof payload?.['exitCode'] === 'number' ? payload['exitCode'] : null
+    return {
+        title: toolName ? `${activity.summary} (${toolName})` : exitCode !== null ? `${activity.summary} (exit ${exitCode})` : activity.summary,
+        detail: activity.detail && activity.detail !== readPayloadString(payload, 'command') ? activity.detail : null,
+        command: readPayloadString(payload, 'command') || argumentsText,
+        output: readPayloadString(payload, 'output'),
+        patch: readPayloadString(payload, 'patch'),
+        paths
+    }
+}
+
+function describeApproval(approval: AssistantPendingApproval): string {
+    const outcome = approval.status === 'pending' ? 'pending'
+        : approval.decision === 'decline' ? 'declined'
+        : approval.decision ? 'approved'
+        : 'unanswered'
+    return `${approval.title || `Approval requested (${approval.requestType})`}: ${outcome}`
+}
+
+function formatUserInputAnswer(userInput: AssistantPendingUserInput, questionId: string): string {
+    const answer = userInput.answers?.[questionId]
+    if (Array.isArray(answer)) return answer.join(', ')
+    return answer || '(no answer)'
+}
+
+function getThreadLabel(thread: AssistantThread, index: number): string {
+    const name = thread.agentNickname || (thread.source === 'subagent' ? 'Subagent' : `Thread ${index + 1}`)
+    return thread.model ? `${name} · ${thread.model}` : name
+}
+
+function sumUsage(turns: AssistantSessionTurnUsageEntry[]): UsageTotals {
+    const totals: UsageTotals = { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, reasoningOutputTokens: 0, totalTokens: 0 }
+    for (const turn of turns) {
+        for (const { key } of USAGE_COLUMNS) {
+            totals[key] += turn.usage?.[key] || 0
+        }
+    }
+    return totals
+}
+
+function formatTimestamp(value: string | null | undefined): string {
+    if (!value) return ''
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? value : date.toISOString().replace('T', ' ').slice(0, 19)
+}
+
+function describeSessionFacts(document: AssistantSessionExportDocument): Array<[string, string]> {
+    const { session } = document
+    const facts: Array<[string, string]> = [
+        ['Mode', session.mode === 'playground' ? 'Playground' : 'Work'],
+        ['Created', formatTimestamp(session.createdAt)],
+        ['Updated', formatTimestamp(session.updatedAt)],
+        ['Exported', formatTimestamp(document.exportedAt)]
+    ]
+    if (session.projectPath) facts.unshift(['Project', session.projectPath])
+    return facts
+}
+
+function markdownFence(content: string, language = ''): string {
+    const longestRun = Math.max(2, ...(content.match(/`+/g) || []).map((run) => run.length))
+    const fence = '`'.repeat(longestRun + 1)
+    return `${fence}${language}\n${content.replace(/\n$/, '')}\n${fence}`
+}
+
+function renderMarkdownEntry(entry: TimelineEntry): string {
+    const time = formatTimestamp(entry.createdAt)
+    switch (entry.type) {
+        case 'message':
+            return `### ${ROLE_LABELS[entry.message.role]} · ${time}\n\n${entry.message.text.trim()}`
+        case 'plan':
+            return `### Proposed plan · ${time}\n\n${entry.plan.planMarkdown.trim()}`
+        case 'approval':
+            return `> **${describeApproval(entry.approval)}**${entry.approval.command ? ` \`${entry.approval.command}\`` : ''}`
+        case 'user-input':
+            return entry.userInput.questions
+                .map((question) => `> **${question.question}**\n> ${formatUserInputAnswer(entry.userInput, question.id)}`)
+                .join('\n>\n')
+        case 'activity': {
+            const view = describeActivity(entry.activity)
+            const parts = [`#### ${view.title} · ${time}`]
+            if (view.detail) parts.push(view.detail)
+            if (view.paths.length > 0) parts.push(view.paths.map((path) => `- \`${path}\``).join('\n'))
+            if (view.command) parts.push(markdownFence(view.command, 'sh'))
+            if (view.output) parts.push(markdownFence(view.output, 'text'))
+            if (view.patch) parts.push(markdownFence(view.patch, 'diff'))
+            return parts.join('\n\n')
+        }
+    }
+}
+
+function renderMarkdown(document: AssistantSessionExportDocument): string {
+    const { session } = document
+    const sections = [
+        `# ${session.title}`,
+        describeSessionFacts(document).map(([label, value]) => `- **${label}:** ${value}`).join('\n')
+    ]
+    session.threads.forEach((thread, index) => {
+        if (session.threads.length > 1) sections.push(`## ${getThreadLabel(thread, index)}`)
+        for (const entry of buildThreadTimeline(thread)) {
+            sections.push(renderMarkdownEntry(entry))
+        }
+    })
+    if (document.turnUsage.length > 0) {
+        const header = ['Requested', 'Model', 'State', ...USAGE_COLUMNS.map((column) => column.label)]
+        const rows = document.turnUsage.map((turn) => [
+            formatTimestamp(turn.requestedAt),
+            turn.model,
+            turn.state,
+            ...USAGE_COLUMNS.map(({ key }) => String(turn.usage?.[key] ?? ''))
+        ])
+        const totals = sumUsage(document.turnUsage)
+        rows.push(['**Total**', '', '', ...USAGE_COLUMNS.map(({ key }) => `**${totals[key]}**`)])
+        sections.push([
+            '## Usage',
+            '',
+            `| ${header.join(' | ')} |`,
+            `| ${header.map(() => '---').join(' | ')} |`,
+            ...rows.map((row) => `| ${row.join(' | ')} |`)
+        ].join('\n'))
+    }
+    return `${sections.join('\n\n')}\n`
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+}
+
+function renderHtmlDiff(patch: string): string {
+    const lines = patch.replace(/\n$/, '').split('\n').map((line) => {
+        const className = line.startsWith('@@') ? 'hunk'
+            : line.startsWith('+') && !line.startsWith('+++') ? 'add'
+            : line.startsWith('-') && !line.startsWith('---') ? 'del'
+            : ''
+        return className ? `<span class="${className}">${escapeHtml(line)}</span>` : escapeHtml(line)
+    })
+    return `<pre class="diff">${lines.join('\n')}</pre>`
+}
+
+function renderHtmlEntry(entry: TimelineEntry): string {
+    const time = `<time>${escapeHtml(formatTimestamp(entry.createdAt))}</time>`
+    switch (entry.type) {
+        case 'message':
+            return `<article class="message ${entry.message.role}"><header>${ROLE_LABELS[entry.message.role]} ${time}</header><div class="text">${escapeHtml(entry.message.text.trim())}</div></article>`
+        case 'plan':
+            return `<article class="message plan"><header>Proposed plan ${time}</header><div class="text">${escapeHtml(entry.plan.planMarkdown.trim())}</div></article>`
+        case 'approval':
+            return `<div class="note">${escapeHtml(describeApproval(entry.approval))}${entry.approval.command ? ` <code>${escapeHtml(entry.approval.command)}</code>` : ''}</div>`
+        case 'user-input':
+            return `<div class="note">${entry.userInput.questions
+                .map((question) => `<strong>${escapeHtml(question.question)}</strong><br>${escapeHtml(formatUserInputAnswer(entry.userInput, question.id))}`)
+                .join('<br>')}</div>`
+        case 'activity': {
+            const view = describeActivity(entry.activity)
+            const body = [
+                view.detail ? `<div class="detail">${escapeHtml(view.detail)}</div>` : '',
+                view.paths.length > 0 ? `<ul>${view.paths.map((path) => `<li><code>${escapeHtml(path)}</code></li>`).join('')}</ul>` : '',
+                view.command ? `<pre class="command">${escapeHtml(view.command)}</pre>` : '',
+                view.output ? `<pre>${escapeHtml(view.output)}</pre>` : '',
+                view.patch ? renderHtmlDiff(view.patch) : ''
+            ].join('')
+            const summary = `<summary>${escapeHtml(view.title)} ${time}</summary>`
+            return body
+                ? `<details class="activity ${entry.activity.tone}">${summary}${body}</details>`
+                : `<div class="activity ${entry.activity.tone}">${escapeHtml(view.title)} ${time}</div>`
+        }
+    }
+}
+
+const HTML_EXPORT_STYLES = `
+body { margin: 0; background: #0f1115; color: #e6e8ee; font: 14px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+h1 { margin: 0 0 8px; font-size: 22px; }
+h2 { margin: 32px 0 12px; font-size: 16px; color: #aab2c5; }
+dl.facts { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; margin: 0 0 24px; color: #9aa3b5; font-size: 12px; }
+dl.facts dt { font-weight: 600; }
+dl.facts dd { margin: 0; }
+time { margin-left: 8px; color: #6f788b; font-size: 11px; font-weight: 400; }
+.message { margin: 12px 0; padding: 12px 14px; border: 1px solid #23262f; border-radius: 10px; background: #161920; }
+.message.user { background: #1a2232; border-color: #27344d; }
+.message.plan { border-color: #3b3458; }
+.message header { margin-bottom: 6px; font-size: 12px; font-weight: 600; color: #aab2c5; }
+.text { white-space: pre-wrap; word-break: break-word; }
+.activity, .note { margin: 6px 0; padding: 6px 10px; border-radius: 8px; background: #13151b; color: #9aa3b5; font-size: 12px; }
+.activity.warning { color: #e8c37a; }
+.activity.error { color: #f08a8a; }
+.activity summary { cursor: pointer; }
+.detail { margin-top: 6px; }
+pre { overflow-x: auto; margin: 8px 0 0; padding: 10px; border-radius: 6px; background: #0b0c10; color: #d7dbe4; font: 12px/1.45 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; white-space: pre-wrap; word-break: break-all; }
+pre.command { color: #9fd3ff; }
+.diff .add { color: #7ee2a8; }
+.diff .del { color: #f59a9a; }
+.diff .hunk { color: #8aa4ff; }
+code { font: 12px ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+table { width: 100%; border-collapse: collapse; font-size: 12px; }
+th, td { padding: 4px 8px; border-bottom: 1px solid #23262f; text-align: right; }
+th:nth-child(-n+3), td:nth-child(-n+3) { text-align: left; }
+tfoot td { font-weight: 600; }
+`
+
+function renderHtml(document: AssistantSessionExportDocument): string {
+    const { session } = document
+    const sections = [
+        `<h1>${escapeHtml(session.title)}</h1>`,
+        `<dl class="facts">${describeSessionFacts(document).map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>`
+    ]
+    session.threads.forEach((thread, index) => {
+        if (session.threads.length > 1) sections.push(`<h2>${escapeHtml(getThreadLabel(thread, index))}</h2>`)
+        for (const entry of buildThreadTimeline(thread)) {
+            sections.push(renderHtmlEntry(entry))
+        }
+    })
+    if (document.turnUsage.length > 0) {
+        const totals = sumUsage(document.turnUsage)
+        sections.push([
+            '<h2>Usage</h2>',
+            '<table>',
+            `<thead><tr><th>Requested</th><th>Model</th><th>State</th>${USAGE_COLUMNS.map((column) => `<th>${column.label}</th>`).join('')}</tr></thead>`,
+            '<tbody>',
+            ...document.turnUsage.map((turn) => `<tr><td>${escapeHtml(formatTimestamp(turn.requestedAt))}</td><td>${escapeHtml(turn.model)}</td><td>${turn.state}</td>${USAGE_COLUMNS.map(({ key }) => `<td>${turn.usage?.[key] ?? ''}</td>`).join('')}</tr>`),
+            '</tbody>',
+            `<tfoot><tr><td>Total</td><td></td><td></td>${USAGE_COLUMNS.map(({ key }) => `<td>${totals[key]}</td>`).join('')}</tr></tfoot>`,
+            '</table>'
+        ].join('\n'))
+    }
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(session.title)}</title>`,
+        `<style>${HTML_EXPORT_STYLES}</style>`,
+        '</head>',
+        '<body>',
+        `<main>\n${sections.join('\n')}\n</main>`,
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n')
+}
@@ -0,0 +1,206 @@
+import type {
+    AssistantSession,
+    AssistantSessionExportDocument,
+    AssistantSessionTurnUsageEntry,
+    AssistantThread
+} from '../../shared/assistant/contracts'
+import { ASSISTANT_SESSION_EXPORT_VERSION } from './session-export'
+import { createAssistantId, runtimeStateAfterRestore, settleRunningTurn } from './utils'
+
+const INVALID_EXPORT_ERROR = 'File is not a DevScope assistant session export.'
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readArray<T>(value: unknown): T[] {
+    return Array.isArray(value) ? value as T[] : []
+}
+
+/**
+ * Keeps only records carrying every listed string field. Without an id a record would share one
+ * remapped id with every other id-less record, and non-string text would hit NOT NULL columns.
+ */
+function readValidRecords<T>(value: unknown, requiredStringKeys: string[]): T[] {
+    return readArray<unknown>(value)
+        .filter((record) => isRecord(record) && requiredStringKeys.every((key) => typeof record[key] === 'string')) as T[]
+}
+
+function readString(value: unknown, fallback: string): string {
+    return typeof value === 'string' ? value : fallback
+}
+
+function readNullableString(value: unknown): string | null {
+    return typeof value === 'string' ? value : null
+}
+
+const MESSAGE_ROLES = new Set(['user', 'assistant', 'system'])
+const ACTIVITY_TONES = new Set(['info', 'tool', 'warning', 'error'])
+const THREAD_SOURCES = new Set(['root', 'subagent', 'other'])
+const THREAD_STATES = new Set(['idle', 'starting', 'ready', 'running', 'waiting', 'interrupted', 'stopped', 'error'])
+
+export function parseAssistantSessionExportDocument(text: string): AssistantSessionExportDocument {
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(text)
+    } catch {
+        throw new Error(INVALID_EXPORT_ERROR)
+    }
+    if (!isRecord(parsed) || parsed['format'] !== 'devscope-assistant-session' || !isRecord(parsed['session'])) {
+        throw new Error(INVALID_EXPORT_ERROR)
+    }
+    const version = Number(parsed['version'])
+    if (!Number.isInteger(version) || version < 1 || version > ASSISTANT_SESSION_EXPORT_VERSION) {
+        throw new Error(`Unsupported session export version ${String(parsed['version'])}.`)
+    }
+    const session = parsed['session']
+    const threads = readArray<Record<string, unknown>>(session['threads'])
+    if (typeof session['id'] !== 'string' || threads.length === 0 || !threads.every((thread) => isRecord(thread) && typeof thread['id'] === 'string')) {
+        throw new Error(INVALID_EXPORT_ERROR)
+    }
+    return parsed as unknown as AssistantSessionExportDocument
+}
+
+/**
+ * Turns an export into a read-only session. Every id is replaced so importing the same file twice,
+ * or importing next to the original, cannot collide, and references between records stay intact.
+ * Sessions and threads are rebuilt field by field, so unknown keys in the file are dropped.
+ */
+export function createImportedAssistantSession(
+    document: AssistantSessionExportDocument,
+    importedAt: string
+): { session: AssistantSession; turnUsage: AssistantSessionTurnUsageEntry[] } {
+    const idMap = new Map<string, string>()
+    const remap = (id: string, prefix: string): string => {
+        let next = idMap.get(id)
+        if (!next) {
+            next = createAssistantId(prefix)
+            idMap.set(id, next)
+        }
+        return next
+    }
+    const remapOptional = (id: string | null | undefined, prefix: string): string | null => id ? remap(id, prefix) : null
+    const remapKnown = (id: string | null | undefined): string | null => (id && idMap.get(id)) || null
+
+    const source = document.session
+    const sessionId = createAssistantId('assistant-session')
+    const sourceThreads = readArray<AssistantThread>(source.threads)
+    for (const thread of sourceThreads) remap(thread.id, 'assistant-thread')
+
+    const threads = sourceThreads.map((thread): AssistantThread => {
+        const messages = readValidRecords<AssistantThread['messages'][number]>(thread.messages, ['id', 'text', 'createdAt'])
+            .filter((message) => MESSAGE_ROLES.has(message.role))
+            .map((message) => ({
+                ...message,
+                id: remap(message.id, 'assistant-message'),
+                turnId: remapOptional(message.turnId, 'assistant-turn'),
+                streaming: false,
+                updatedAt: typeof message.updatedAt === 'string' ? message.updatedAt : message.createdAt
+            }))
+        const latestTurn = settleRunningTurn(isRecord(thread.latestTurn) && typeof thread.latestTurn.id === 'string' ? thread.latestTurn : null, importedAt)
+        const forkedFromThreadId = remapKnown(thread.forkedFromThreadId)
+        const createdAt = readString(thread.createdAt, importedAt)
+        return {
+            id: remap(thread.id, 'assistant-thread'),
+            providerThreadId: null,
+            source: THREAD_SOURCES.has(thread.source) ? thread.source : 'root',
+            parentThreadId: remapKnown(thread.parentThreadId),
+            providerParentThreadId: null,
+            subagentDepth: Number.isInteger(thread.subagentDepth) ? thread.subagentDepth : null,
+            agentNickname: readNullableString(thread.agentNickname),
+            agentRole: readNullableString(thread.agentRole),
+            forkedFromThreadId,
+            forkedFromMessageId: forkedFromThreadId ? remapOptional(thread.forkedFromMessageId, 'assistant-message') : null,
+            model: readString(thread.model, ''),
+            cwd: readNullableString(thread.cwd),
+            messageCount: messages.length,
+            lastSeenCompletedTurnId: remapOptional(thread.lastSeenCompletedTurnId, 'assistant-turn'),
+            runtimeMode: thread.runtimeMode === 'full-access' ? 'full-access' : 'approval-required',
+            interactionMode: thread.interactionMode === 'plan' ? 'plan' : 'default',
+            state: runtimeStateAfterRestore(THREAD_STATES.has(thread.state) ? thread.state : 'stopped'),
+            lastError: readNullableString(thread.lastError),
+            createdAt,
+            updatedAt: readString(thread.updatedAt, createdAt),
+            latestTurn: latestTurn
+                ? {
+                    ...latestTurn,
+                    id: remap(latestTurn.id, 'assistant-turn'),
+                    assistantMessageId: remapOptional(latestTurn.assistantMessageId, 'assistant-message')
+                }
+                : null,
+            activePlan: isRecord(thread.activePlan)
+                ? { ...thread.activePlan, turnId: remapOptional(thread.activePlan.turnId, 'assistant-turn') }
+                : null,
+            messages,
+            proposedPlans: readValidRecords<AssistantThread['proposedPlans'][number]>(thread.proposedPlans, ['id', 'planMarkdown', 'createdAt']).map((plan) => ({
+                ...plan,
+                id: remap(plan.id, 'assistant-plan'),
+                turnId: remapOptional(plan.turnId, 'assistant-turn'),
+                updatedAt: typeof plan.updatedAt === 'string' ? plan.updatedAt : plan.createdAt
+            })),
+            // Requests that were still open can never be answered, so they are closed unanswered.
+            pendingApprovals: readValidRecords<AssistantThread['pendingApprovals'][number]>(thread.pendingApprovals, ['id', 'requestId', 'requestType', 'createdAt']).map((approval) => ({
+                ...approval,
+                id: remap(approval.id, 'assistant-approval'),
+                requestId: remap(approval.requestId, 'assistant-request'),
+                turnId: remapOptional(approval.turnId, 'assistant-turn'),
+                status: 'resolved',
+                resolvedAt: approval.resolvedAt || importedAt
+            })),
+            pendingUserInputs: readValidRecords<AssistantThread['pendingUserInputs'][number]>(thread.pendingUserInputs, ['id', 'requestId', 'createdAt']).map((userInput) => ({
+                ...userInput,
+                id: remap(userInput.id, 'assistant-user-input'),
+                requestId: remap(userInput.requestId, 'assistant-request'),
+                questions: readArray(userInput.questions),
+                turnId: remapOptional(userInput.turnId, 'assistant-turn'),
+                status: 'resolved',
+                resolvedAt: userInput.resolvedAt || importedAt
+            })),
+            activities: []
+        }
+    })
+
+    // Activities go last so payload request ids can point at the remapped approvals.
+    sourceThreads.forEach((thread, index) => {
+        threads[index].activities = readValidRecords<AssistantThread['activities'][number]>(thread.activities, ['id', 'kind', 'summary', 'createdAt']).map((activity) => {
+            const requestId = typeof activity.payload?.['requestId'] === 'string' ? remapKnown(activity.payload['requestId']) : null
+            return {
+                ...activity,
+                id: remap(activity.id, 'assistant-activity'),
+                tone: ACTIVITY_TONES.has(activity.tone) ? activity.tone : 'info',
+                turnId: remapOptional(activity.turnId, 'assistant-turn'),
+                payload: activity.payload && requestId ? { ...activity.payload, requestId } : activity.payload
+            }
+        })
+    })
+
+    const threadIds = threads.map((thread) => thread.id)
+    const session: AssistantSession = {
+        id: sessionId,
+        title: String(source.title || '').trim() || 'Imported Session',
+        mode: source.mode === 'playground' ? 'playground' : 'work',
+        projectPath: typeof source.projectPath === 'string' ? source.projectPath : null,
+        playgroundLabId: null,
+        pendingLabRequest: null,
+        archived: false,
+        createdAt: readString(source.createdAt, importedAt),
+        updatedAt: importedAt,
+        activeThreadId: remapKnown(source.activeThreadId) || threadIds[0] || null,
+        importedAt,
+        threadIds,
+        threads
+    }
+
+    const turnUsage = readValidRecords<AssistantSessionTurnUsageEntry>(document.turnUsage, ['id', 'threadId'])
+        .filter((turn) => idMap.has(turn.threadId))
+        .map((turn) => ({
+            ...turn,
+            id: remap(turn.id, 'assistant-turn'),
+            sessionId,
+            threadId: remap(turn.threadId, 'assistant-thread'),
+            state: turn.state === 'running' ? 'interrupted' as const : turn.state,
+            assistantMessageId: remapOptional(turn.assistantMessageId, 'assistant-message')
+        }))
+
+    return { session, turnUsage }
+}
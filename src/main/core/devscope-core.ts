@@ -1,10 +1,11 @@
 import { indexAllFolders, scanProjects } from '../services/project-discovery-service'
-import { searchIndexedPaths } from '../services/file-index-service'
+import { searchIndexedContent, searchIndexedPaths } from '../services/file-index-service'
 
 export const devscopeCore = {
     projects: {
         scanProjects,
         indexAllFolders,
-        searchIndexedPaths
+        searchIndexedPaths,
+        searchIndexedContent
     }
 }
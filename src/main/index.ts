@@ -12,6 +12,9 @@ import { registerIpcHandlers } from './ipc'
 import { disposeAssistantService } from './assistant'
 import { disposeUpdater, initializeUpdater, registerUpdateWindow } from './update/manager'
 import { registerFileProtocol } from './file-protocol'
+import { disposeFileIndexWatchers } from './services/file-index-service'
+import { flushPreviewTerminalSessions } from './ipc/handlers/preview-terminal-handlers'
+import { cleanupTerminalManager } from './inspectors'
 
 const APP_NAME = 'DevScope Air'
 const DEV_APP_NAME = `${APP_NAME}-dev`
@@ -429,6 +432,9 @@ app.whenReady().then(() => {
 app.on('window-all-closed', () => {
     disposeAssistantService()
     disposeUpdater()
+    disposeFileIndexWatchers()
+    flushPreviewTerminalSessions()
+    cleanupTerminalManager()
     if (process.platform !== 'darwin') {
         app.quit()
     }
@@ -437,6 +443,9 @@ app.on('window-all-closed', () => {
 app.on('before-quit', () => {
     disposeAssistantService()
     disposeUpdater()
+    disposeFileIndexWatchers()
+    flushPreviewTerminalSessions()
+    cleanupTerminalManager()
 })
 
 // Handle window control IPC
@@ -1,14 +1,46 @@
 export type {
+    GitBlameCommit,
+    GitBlameRange,
+    GitConflictFile,
+    GitConflictResolution,
+    GitConflictState,
+    GitFileBlame,
+    GitFileHistory,
+    GitFileHistoryEntry,
     GitFileStatus,
+    GitOperationKind,
+    GitRebaseAction,
+    GitRebaseCommit,
+    GitRebasePlan,
+    GitRebaseProgress,
+    GitRebaseStep,
+    GitResetMode,
+    AmendCommitOptions,
     GitStatusDetail,
     GitStatusMap,
+    GitSubmoduleChangeFlags,
+    GitSubmoduleList,
+    GitSubmoduleSummary,
+    UpdateSubmodulesOptions,
     ProjectGitOverview,
     GitBranchSummary,
     GitRemoteSummary,
     GitTagSummary,
+    GitWorktreeSummary,
+    AddWorktreeOptions,
     CheckoutBranchOptions,
     CheckoutBranchResult,
     GitCommit,
+    GitChangelogWriteResult,
+    GitReleaseDraft,
+    GitReleaseEntry,
+    GitReleaseGroup,
+    DraftReleaseOptions,
+    GitCommitSignature,
+    GitSignatureStatus,
+    GitSigningConfig,
+    GitSigningConfigUpdate,
+    GitSigningFormat,
     GitHistoryCountResult,
     GitHistoryResult,
     GitignorePattern,
@@ -23,6 +55,10 @@ export {
     getGitHistoryCount,
     getGitCommitStats,
     getCommitDiff,
+    getCommitMessage,
+    getFileBlame,
+    getFileHistory,
+    listSubmodules,
     getWorkingDiff,
     getWorkingChangesForAI,
     hasRemoteOrigin,
@@ -49,6 +85,9 @@ export {
     addRemoteOrigin,
     unstageFiles,
     discardChanges,
+    stagePatch,
+    unstagePatch,
+    discardPatch,
     fetchUpdates,
     pullUpdates,
     listBranches,
@@ -56,17 +95,53 @@ export {
     checkoutBranch,
     deleteBranch,
     listRemotes,
+    readForgeHostOverrides,
     setRemoteUrl,
     removeRemote,
     listTags,
     createTag,
     deleteTag,
+    pushTag,
+    deleteRemoteTag,
     listStashes,
     createStash,
     applyStash,
-    dropStash
+    dropStash,
+    listWorktrees,
+    addWorktree,
+    removeWorktree,
+    pruneWorktrees,
+    initSubmodules,
+    updateSubmodules,
+    syncSubmodules,
+    cherryPickCommit,
+    revertCommit,
+    resetToCommit,
+    amendLastCommit,
+    undoLastCommit,
+    rewordCommit,
+    getRebasePlan,
+    runInteractiveRebase
 } from './git/write'
 
+export {
+    getGitConflictState,
+    getGitConflictFile,
+    resolveGitConflict,
+    continueGitOperation,
+    abortGitOperation
+} from './git/conflicts'
+
+export {
+    getGitSigningConfig,
+    setGitSigningConfig
+} from './git/signing'
+
+export {
+    draftRelease,
+    writeChangelogSection
+} from './git/releases'
+
 export {
     getGitignoreTemplates,
     getGitignorePatterns,
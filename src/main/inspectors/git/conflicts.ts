@@ -0,0 +1,268 @@
+import log from 'electron-log'
+import { randomUUID } from 'node:crypto'
+import { access, mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import type { SimpleGit } from 'simple-git'
+import { normalizeConflictMarkers } from '../../../shared/git-conflicts'
+import { createGit, getRepoContext, normalizeGitPath, stripPathPrefix, toError, toPathSpec } from './core'
+import type { GitConflictFile, GitConflictResolution, GitConflictState, GitOperationKind, RepoContext } from './types'
+import { withIndexLockRecovery } from './write-shared'
+
+// Checked in order: an interrupted rebase can also leave CHERRY_PICK_HEAD behind.
+const OPERATION_MARKERS: Array<{ operation: GitOperationKind; paths: string[]; head: string }> = [
+    { operation: 'rebase', paths: ['rebase-merge', 'rebase-apply'], head: 'REBASE_HEAD' },
+    { operation: 'merge', paths: ['MERGE_HEAD'], head: 'MERGE_HEAD' },
+    { operation: 'cherry-pick', paths: ['CHERRY_PICK_HEAD'], head: 'CHERRY_PICK_HEAD' },
+    { operation: 'revert', paths: ['REVERT_HEAD'], head: 'REVERT_HEAD' }
+]
+
+const OPERATION_LABELS: Record<GitOperationKind, string> = {
+    merge: 'Merge',
+    rebase: 'Rebase',
+    'cherry-pick': 'Cherry-pick',
+    revert: 'Revert'
+}
+
+async function pathExists(path: string): Promise<boolean> {
+    try {
+        await access(path)
+        return true
+    } catch {
+        return false
+    }
+}
+
+async function detectOperation(git: SimpleGit): Promise<{ operation: GitOperationKind; head: string } | null> {
+    const gitDir = (await git.raw(['rev-parse', '--path-format=absolute', '--git-dir']).catch(() => '')).trim()
+    if (!gitDir) return null
+
+    for (const marker of OPERATION_MARKERS) {
+        for (const path of marker.paths) {
+            if (await pathExists(join(gitDir, path))) {
+                return { operation: marker.operation, head: marker.head }
+            }
+        }
+    }
+    return null
+}
+
+/** Unmerged paths relative to the repo root. */
+async function listConflictedRepoPaths(git: SimpleGit): Promise<string[]> {
+    const stdout = await git.raw(['diff', '--name-only', '--diff-filter=U', '-z']).catch(() => '')
+    return Array.from(new Set(stdout.split('\0').map((entry) => normalizeGitPath(entry).trim()).filter(Boolean)))
+}
+
+function toProjectPaths(repoPaths: string[], repoContext: RepoContext): string[] {
+    const prefix = repoContext.projectRelativeToRepo
+    return repoPaths
+        .filter((path) => !prefix || path === prefix || path.startsWith(`${prefix}/`))
+        .map((path) => stripPathPrefix(path, prefix))
+        .filter(Boolean)
+        .sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Turn a failed pull/stash/checkout into an actionable message when it stopped on conflicts
+ * instead of surfacing git's raw output.
+ */
+export async function toConflictAwareError(git: SimpleGit, err: unknown, actionLabel: string, fallback: string): Promise<Error> {
+    const conflicted = await listConflictedRepoPaths(git)
+    if (conflicted.length === 0) return toError(err, fallback)
+
+    const noun = conflicted.length === 1 ? 'file' : 'files'
+    return new Error(
+        `${actionLabel} stopped with conflicts in ${conflicted.length} ${noun}. Resolve them under Working Changes, then continue or abort.`
+    )
+}
+
+export async function getGitConflictState(projectPath: string): Promise<GitConflictState> {
+    try {
+        const projectGit = createGit(projectPath)
+        const repoContext = await getRepoContext(projectGit, projectPath)
+        const git = createGit(repoContext.repoRoot)
+        const [operation, conflicted] = await Promise.all([
+            detectOperation(git),
+            listConflictedRepoPaths(git)
+        ])
+
+        const incomingLabel = operation
+            ? (await git.raw(['log', '-1', '--format=%h %s', operation.head]).catch(() => '')).trim() || null
+            : null
+
+        return {
+            operation: operation?.operation ?? null,
+            incomingLabel,
+            conflictedPaths: toProjectPaths(conflicted, repoContext)
+        }
+    } catch (err) {
+        log.error('Failed to read conflict state', err)
+        throw toError(err, 'Failed to read conflict state')
+    }
+}
+
+async function readStage(git: SimpleGit, stage: 1 | 2 | 3, pathSpec: string): Promise<string | null> {
+    try {
+        return await git.raw(['show', `:${stage}:${pathSpec}`])
+    } catch {
+        return null
+    }
+}
+
+function looksBinary(content: string | null): boolean {
+    return content !== null && content.includes('\0')
+}
+
+/**
+ * Re-run the three-way merge with diff3 markers so every block carries its base section.
+ * Only used when it reproduces the working file, so manual edits are never replaced.
+ */
+async function buildDiff3Merge(git: SimpleGit, base: string | null, ours: string, theirs: string): Promise<string | null> {
+    const workDir = join(tmpdir(), `devscope-conflict-${process.pid}-${randomUUID()}`)
+    const oursFile = join(workDir, 'ours')
+    const baseFile = join(workDir, 'base')
+    const theirsFile = join(workDir, 'theirs')
+
+    try {
+        await mkdir(workDir, { recursive: true })
+        await Promise.all([
+            writeFile(oursFile, ours, 'utf8'),
+            writeFile(baseFile, base ?? '', 'utf8'),
+            writeFile(theirsFile, theirs, 'utf8')
+        ])
+        // merge-file exits with the conflict count, which simple-git only treats as an error with stderr output.
+        return await git.raw(['merge-file', '-p', '--diff3', '-L', 'ours', '-L', 'base', '-L', 'theirs', oursFile, baseFile, theirsFile])
+    } catch {
+        return null
+    } finally {
+        await rm(workDir, { recursive: true, force: true }).catch(() => undefined)
+    }
+}
+
+export async function getGitConflictFile(projectPath: string, filePath: string): Promise<GitConflictFile> {
+    try {
+        const projectGit = createGit(projectPath)
+        const repoContext = await getRepoContext(projectGit, projectPath)
+        const git = createGit(repoContext.repoRoot)
+        const pathSpec = await toPathSpec(git, projectPath, filePath, repoContext)
+
+        const [base, ours, theirs, working] = await Promise.all([
+            readStage(git, 1, pathSpec),
+            readStage(git, 2, pathSpec),
+            readStage(git, 3, pathSpec),
+            readFile(join(repoContext.repoRoot, pathSpec), 'utf8').catch(() => '')
+        ])
+        const binary = [base, ours, theirs, working].some(looksBinary)
+
+        let merged = working
+        if (!binary && ours !== null && theirs !== null) {
+            const diff3 = await buildDiff3Merge(git, base, ours, theirs)
+            if (diff3 !== null && diff3 !== working && normalizeConflictMarkers(diff3) === normalizeConflictMarkers(working)) {
+                merged = diff3
+            }
+        }
+
+        return {
+            path: filePath,
+            base: binary ? null : base,
+            ours: binary ? null : ours,
+            theirs: binary ? null : theirs,
+            merged: binary ? '' : merged,
+            binary
+        }
+    } catch (err) {
+        log.error('Failed to read conflicted file', err)
+        throw toError(err, 'Failed to read conflicted file')
+    }
+}
+
+async function hasStage(git: SimpleGit, stage: 2 | 3, pathSpec: string): Promise<boolean> {
+    const stdout = await git.raw(['ls-files', '-u', '--', pathSpec]).catch(() => '')
+    return stdout.split('\n').some((line) => line.split('\t')[0]?.trim().endsWith(` ${stage}`))
+}
+
+/**
+ * Resolve one conflicted file and stage the result ("mark resolved").
+ */
+export async function resolveGitConflict(projectPath: string, filePath: string, resolution: GitConflictResolution): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'resolve conflict', async (git) => {
+            const repoContext = await getRepoContext(git, projectPath)
+            const pathSpec = await toPathSpec(git, projectPath, filePath, repoContext)
+
+            switch (resolution.kind) {
+                case 'content': {
+                    const target = join(repoContext.repoRoot, pathSpec)
+                    await mkdir(dirname(target), { recursive: true })
+                    await writeFile(target, resolution.content, 'utf8')
+                    break
+                }
+                case 'ours':
+                case 'theirs': {
+                    // A side without a stage entry deleted the file, so taking it means deleting.
+                    if (!(await hasStage(git, resolution.kind === 'ours' ? 2 : 3, pathSpec))) {
+                        await git.raw(['rm', '-f', '--quiet', '--', pathSpec])
+                        return
+                    }
+                    await git.raw(['checkout', `--${resolution.kind}`, '--', pathSpec])
+                    break
+                }
+                case 'delete':
+                    await git.raw(['rm', '-f', '--quiet', '--', pathSpec])
+                    return
+                case 'mark':
+                    break
+            }
+
+            await git.raw(['add', '-A', '--', pathSpec])
+        })
+    } catch (err) {
+        log.error('Failed to resolve conflict', err)
+        throw toError(err, 'Failed to resolve conflict')
+    }
+}
+
+async function requireOperation(git: SimpleGit): Promise<GitOperationKind> {
+    const operation = await detectOperation(git)
+    if (!operation) throw new Error('No merge, rebase, cherry-pick or revert is in progress.')
+    return operation.operation
+}
+
+/**
+ * Continue the in-progress merge, rebase, cherry-pick or revert once every conflict is resolved.
+ */
+export async function continueGitOperation(projectPath: string): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'continue operation', async (git) => {
+            const operation = await requireOperation(git)
+            const remaining = await listConflictedRepoPaths(git)
+            if (remaining.length > 0) {
+                throw new Error(`Resolve the remaining ${remaining.length} conflicted file${remaining.length === 1 ? '' : 's'} before continuing.`)
+            }
+            try {
+                // Accept git's prepared commit message instead of waiting on an editor.
+                await git.raw(['-c', 'core.editor=true', operation, '--continue'])
+            } catch (err) {
+                throw await toConflictAwareError(git, err, OPERATION_LABELS[operation], 'Failed to continue git operation')
+            }
+        })
+    } catch (err) {
+        log.error('Failed to continue git operation', err)
+        throw toError(err, 'Failed to continue git operation')
+    }
+}
+
+/**
+ * Abort the in-progress merge, rebase, cherry-pick or revert and restore the previous HEAD.
+ */
+export async function abortGitOperation(projectPath: string): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'abort operation', async (git) => {
+            const operation = await requireOperation(git)
+            await git.raw([operation, '--abort'])
+        })
+    } catch (err) {
+        log.error('Failed to abort git operation', err)
+        throw toError(err, 'Failed to abort git operation')
+    }
+}
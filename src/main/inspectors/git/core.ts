@@ -5,7 +5,7 @@ import { stat, unlink } from 'fs/promises'
 import { basename, delimiter, dirname, isAbsolute, join, relative, resolve } from 'path'
 import { simpleGit, type SimpleGit } from 'simple-git'
 import { getAugmentedEnv } from '../safe-exec'
-import type { CompactPatchResult, GitCommit, GitStatusMap, RepoContext } from './types'
+import type { CompactPatchResult, GitCommit, GitCommitSignature, GitStatusMap, RepoContext } from './types'
 
 const AI_NOISY_PATCH_FILE_PATTERN = /(?:^|\/)(?:package-lock\.json|yarn\.lock|pnpm-lock\.ya?ml|bun\.lockb?|bun\.lock|min\.(?:js|css)|dist\/|build\/|coverage\/)/i
 const AI_PATCH_MAX_FILES = 16
@@ -244,15 +244,18 @@ async function repoPathLikelyExists(repoRoot: string, candidate: string): Promis
 }
 
 export async function getRepoContext(git: SimpleGit, projectPath: string): Promise<RepoContext> {
-    const repoRootRaw = await git.raw(['rev-parse', '--show-toplevel']).catch(() => projectPath)
-    const repoRoot = resolve(normalizeFsPath(repoRootRaw.trim() || projectPath))
+    // The superproject line is only printed when the repository is a submodule.
+    const revParseRaw = await git.raw(['rev-parse', '--show-toplevel', '--show-superproject-working-tree']).catch(() => projectPath)
+    const [repoRootRaw = '', superprojectRaw = ''] = revParseRaw.split(/\r?\n/).map((line) => line.trim())
+    const repoRoot = resolve(normalizeFsPath(repoRootRaw || projectPath))
     const projectAbsolute = resolve(normalizeFsPath(projectPath))
     const relativeToRepoRaw = sanitizePathSpec(relative(repoRoot, projectAbsolute))
     const projectRelativeToRepo = relativeToRepoRaw === '.' ? '' : relativeToRepoRaw
 
     return {
         repoRoot,
-        projectRelativeToRepo
+        projectRelativeToRepo,
+        superprojectRoot: superprojectRaw ? resolve(normalizeFsPath(superprojectRaw)) : null
     }
 }
 
@@ -425,7 +428,22 @@ export function countTrackedChanges(statusMap: GitStatusMap): number {
     return changed.size
 }
 
-export function parseCommitLog(stdout: string, options?: { statsIncluded?: boolean }): GitCommit[] {
+/**
+ * History log format with `%G?` and the signer ahead of the subject. Verifying runs gpg or
+ * ssh-keygen for every signed commit, so only views that show signatures should use it.
+ */
+export const SIGNED_COMMIT_LOG_FORMAT = '%x1e%H%x1f%P%x1f%an%x1f%ad%x1f%G?%x1f%GS%x1f%s'
+
+function toCommitSignature(code: string, signer: string): GitCommitSignature {
+    const normalizedCode = code.trim() || 'N'
+    return {
+        status: normalizedCode === 'G' ? 'verified' : normalizedCode === 'N' ? 'unsigned' : 'unverified',
+        code: normalizedCode,
+        signer: signer.trim() || null
+    }
+}
+
+export function parseCommitLog(stdout: string, options?: { statsIncluded?: boolean; signatureIncluded?: boolean }): GitCommit[] {
     const recordSep = '\x1e'
     const fieldSep = '\x1f'
     const commits: GitCommit[] = []
@@ -438,9 +456,12 @@ export function parseCommitLog(stdout: string, options?: { statsIncluded?: boole
         const lines = record.split(/\r?\n/).map((line) => line.trimEnd())
         const header = lines[0] || ''
         const parts = header.split(fieldSep)
-        if (parts.length < 5) continue
-        const [hash, parentText, author, date, ...messageParts] = parts
-        const message = messageParts.join(fieldSep)
+        if (parts.length < (options?.signatureIncluded ? 7 : 5)) continue
+        const [hash, parentText, author, date, ...rest] = parts
+        const signature = options?.signatureIncluded
+            ? toCommitSignature(rest.shift() || '', rest.shift() || '')
+            : undefined
+        const message = rest.join(fieldSep)
 
         let additions = 0
         let deletions = 0
@@ -469,7 +490,8 @@ export function parseCommitLog(stdout: string, options?: { statsIncluded?: boole
             additions,
             deletions,
             filesChanged,
-            statsLoaded: options?.statsIncluded !== false
+            statsLoaded: options?.statsIncluded !== false,
+            ...(signature ? { signature } : {})
         })
     }
 
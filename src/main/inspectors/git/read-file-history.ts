@@ -0,0 +1,157 @@
+import log from 'electron-log'
+import { createGit, getRepoContext, normalizeGitPath, toError, toPathSpec } from './core'
+import type { GitBlameCommit, GitBlameRange, GitFileBlame, GitFileHistory, GitFileHistoryEntry } from './types'
+
+const UNCOMMITTED_HASH = /^0{40}$/
+const FILE_HISTORY_MAX_LIMIT = 500
+
+async function resolveFileInRepo(projectPath: string, filePath: string) {
+    const repoContext = await getRepoContext(createGit(projectPath), projectPath)
+    const git = createGit(repoContext.repoRoot)
+    const pathSpec = await toPathSpec(git, projectPath, filePath, repoContext)
+    if (!pathSpec || pathSpec === '.') throw new Error('A file path is required.')
+    return { git, pathSpec }
+}
+
+/**
+ * Parse `git blame --incremental`. Commit headers are only printed the first time a
+ * commit appears, so later groups for the same commit carry just the line numbers.
+ */
+function parseIncrementalBlame(stdout: string): GitFileBlame {
+    const commits: Record<string, GitBlameCommit> = {}
+    const groups: GitBlameRange[] = []
+    let current: GitBlameCommit | null = null
+
+    for (const line of stdout.split('\n')) {
+        const header = /^([0-9a-f]{40}) \d+ (\d+) (\d+)$/.exec(line)
+        if (header) {
+            const [, hash, finalLine, lineCount] = header
+            groups.push({ startLine: Number(finalLine), lineCount: Number(lineCount), hash })
+            current = commits[hash] ??= {
+                hash,
+                shortHash: hash.slice(0, 7),
+                author: '',
+                authorEmail: '',
+                date: '',
+                summary: '',
+                path: '',
+                previousHash: null,
+                uncommitted: UNCOMMITTED_HASH.test(hash)
+            }
+            continue
+        }
+        if (!current) continue
+
+        const spaceIndex = line.indexOf(' ')
+        const key = spaceIndex === -1 ? line : line.slice(0, spaceIndex)
+        const value = spaceIndex === -1 ? '' : line.slice(spaceIndex + 1)
+        if (key === 'author') current.author = value
+        else if (key === 'author-mail') current.authorEmail = value.replace(/^<|>$/g, '')
+        else if (key === 'author-time') current.date = new Date(Number(value) * 1000).toISOString()
+        else if (key === 'summary') current.summary = value
+        else if (key === 'previous') current.previousHash = value.split(' ')[0] || null
+        else if (key === 'filename') {
+            if (!current.path) current.path = normalizeGitPath(value)
+            current = null
+        }
+    }
+
+    groups.sort((left, right) => left.startLine - right.startLine)
+    const ranges: GitBlameRange[] = []
+    for (const group of groups) {
+        const previous = ranges[ranges.length - 1]
+        if (previous && previous.hash === group.hash && previous.startLine + previous.lineCount === group.startLine) {
+            previous.lineCount += group.lineCount
+        } else {
+            ranges.push({ ...group })
+        }
+    }
+
+    return { ranges, commits }
+}
+
+/**
+ * Blame the working tree copy of a file. Lines that are not committed yet are
+ * attributed to the all-zero hash and flagged as `uncommitted`.
+ */
+export async function getFileBlame(projectPath: string, filePath: string): Promise<GitFileBlame> {
+    try {
+        const { git, pathSpec } = await resolveFileInRepo(projectPath, filePath)
+        const stdout = await git.raw(['blame', '--incremental', '-M', '--', pathSpec])
+        return parseIncrementalBlame(stdout)
+    } catch (err) {
+        log.error('Failed to get file blame', err)
+        throw toError(err, 'Failed to get file blame')
+    }
+}
+
+const HISTORY_STATUSES: Record<string, GitFileHistoryEntry['status']> = {
+    A: 'added',
+    M: 'modified',
+    R: 'renamed',
+    C: 'copied',
+    D: 'deleted'
+}
+
+function parseFileHistory(stdout: string, currentPath: string): GitFileHistoryEntry[] {
+    const entries: GitFileHistoryEntry[] = []
+    // Walking newest to oldest, so the path only changes after passing a rename.
+    let trackedPath = currentPath
+
+    for (const record of stdout.split('\x1e')) {
+        const lines = record.replace(/^\n+/, '').split('\n')
+        const [hash = '', parents = '', author = '', authorEmail = '', date = '', ...messageParts] = (lines[0] || '').split('\x1f')
+        if (!hash) continue
+
+        const statusLine = lines.slice(1).find((line) => /^[A-Z]\d*\t/.test(line))
+        const [statusCode = 'M', firstPath = '', secondPath] = statusLine ? statusLine.split('\t') : []
+        const status = HISTORY_STATUSES[statusCode.charAt(0)] ?? 'modified'
+        const path = normalizeGitPath(secondPath ?? (firstPath || trackedPath))
+        const previousPath = secondPath ? normalizeGitPath(firstPath) : null
+
+        entries.push({
+            hash,
+            shortHash: hash.slice(0, 7),
+            parents: parents.split(' ').filter(Boolean),
+            author,
+            authorEmail,
+            date,
+            message: messageParts.join('\x1f'),
+            status,
+            path,
+            previousPath
+        })
+        trackedPath = previousPath ?? path
+    }
+
+    return entries
+}
+
+/**
+ * Commits that touched a file, newest first, following it across renames.
+ */
+export async function getFileHistory(projectPath: string, filePath: string, limit = 100): Promise<GitFileHistory> {
+    try {
+        const { git, pathSpec } = await resolveFileInRepo(projectPath, filePath)
+        const safeLimit = Math.max(1, Math.min(FILE_HISTORY_MAX_LIMIT, Math.trunc(limit) || 100))
+        const stdout = await git.raw([
+            'log',
+            '--follow',
+            '-M',
+            `-n${safeLimit + 1}`,
+            '--format=%x1e%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%s',
+            '--name-status',
+            '--',
+            pathSpec
+        ])
+
+        const entries = parseFileHistory(stdout, pathSpec)
+        return {
+            entries: entries.slice(0, safeLimit),
+            hasMore: entries.length > safeLimit
+        }
+    } catch (err) {
+        log.error('Failed to get file history', err)
+        throw toError(err, 'Failed to get file history')
+    }
+}
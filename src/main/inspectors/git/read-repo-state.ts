@@ -9,6 +9,7 @@ import {
     toError,
     toErrorMessage
 } from './core'
+import { getSubmoduleChangeFlags } from './read-submodules'
 import type {
     GitCommit,
     GitFileStatus,
@@ -47,9 +48,17 @@ export function applyStatusStats(
     target.statsLoaded = true
 }
 
+// Unmerged pairs from `git status --porcelain`; see "Short Format" in git-status(1).
+const CONFLICT_STATUS_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU'])
+
+export function isConflictStatusCode(code: string): boolean {
+    return CONFLICT_STATUS_CODES.has(code)
+}
+
 function classifyGitStatus(code: string): GitFileStatus {
     if (code === '??') return 'untracked'
     if (code === '!!') return 'ignored'
+    if (isConflictStatusCode(code)) return 'conflicted'
     if (code.includes('R') || code.includes('C')) return 'renamed'
     if (code.includes('U')) return 'modified'
     if (code.includes('T')) return 'modified'
@@ -117,8 +126,9 @@ function parseStatusEntries(stdout: string, projectRelativeToRepo: string): GitS
 
         const indexCode = code[0] || ' '
         const workTreeCode = code[1] || ' '
-        const staged = code !== '??' && code !== '!!' && indexCode !== ' '
-        const unstaged = code === '??' || (code !== '!!' && workTreeCode !== ' ')
+        // Unmerged entries only live in the working tree until they are marked resolved.
+        const staged = status !== 'conflicted' && code !== '??' && code !== '!!' && indexCode !== ' '
+        const unstaged = code === '??' || (code !== '!!' && workTreeCode !== ' ') || status === 'conflicted'
 
         let previousPath: string | undefined
         if (status === 'renamed') {
@@ -153,6 +163,21 @@ function hasOriginRemote(remotes: Array<{ name: string; refs?: { fetch?: string;
     return remotes.some((remote) => remote.name === 'origin' && (remote.refs?.fetch || remote.refs?.push))
 }
 
+async function annotateSubmoduleEntries(details: GitStatusDetail[], repoRoot: string, projectRelativeToRepo: string) {
+    if (details.length === 0) return
+    try {
+        const submoduleFlags = await getSubmoduleChangeFlags(repoRoot)
+        if (submoduleFlags.size === 0) return
+        for (const [repoRelativePath, flags] of submoduleFlags) {
+            const path = stripPathPrefix(repoRelativePath, projectRelativeToRepo)
+            const detail = path ? details.find((entry) => entry.path === path) : undefined
+            if (detail) detail.submodule = flags
+        }
+    } catch (err) {
+        log.warn('Failed to read submodule status', err)
+    }
+}
+
 export async function getGitStatusDetailed(
     projectPath: string,
     options?: GitStatusDetailedOptions
@@ -162,6 +187,7 @@ export async function getGitStatusDetailed(
         const repoContext = await getRepoContext(git, projectPath)
         const stdout = await git.raw(['-c', 'status.relativePaths=true', 'status', '--porcelain=v1', '--ignored', '-z'])
         const details = parseStatusEntries(stdout, repoContext.projectRelativeToRepo)
+        await annotateSubmoduleEntries(details, repoContext.repoRoot, repoContext.projectRelativeToRepo)
 
         if (options?.includeStats !== false && details.length > 0) {
             const [stagedNumstatRaw, unstagedNumstatRaw] = await Promise.all([
@@ -295,11 +321,15 @@ export async function getIncomingCommits(projectPath: string, limit: number = 10
     }
 }
 
+/**
+ * Commits on HEAD that no remote has. Without an upstream (a detached HEAD or a branch that
+ * was never pushed) that means commits not reachable from any remote-tracking branch, so
+ * history pushed elsewhere is never reported as safe to rewrite.
+ */
 export async function getUnpushedCommits(projectPath: string): Promise<GitCommit[]> {
     try {
         const git = createGit(projectPath)
-        const [currentBranchRaw, remotes, upstreamRefRaw] = await Promise.all([
-            git.raw(['rev-parse', '--abbrev-ref', 'HEAD']).catch(() => 'HEAD'),
+        const [remotes, upstreamRefRaw] = await Promise.all([
             git.getRemotes(true).catch(() => []),
             git.raw([
                 'rev-parse',
@@ -308,35 +338,23 @@ export async function getUnpushedCommits(projectPath: string): Promise<GitCommit
                 '@{u}'
             ]).catch(() => '')
         ])
-        const currentBranch = String(currentBranchRaw || '').trim()
-        const hasRemote = hasOriginRemote(remotes)
         const upstreamRef = String(upstreamRefRaw || '').trim()
 
-        let stdout = ''
+        let revisionArgs: string[]
         if (upstreamRef) {
-            stdout = await git.raw([
-                'log',
-                `${upstreamRef}..HEAD`,
-                '--date=iso',
-                '--pretty=format:%x1e%H%x1f%P%x1f%an%x1f%ad%x1f%s'
-            ]).catch(() => '')
-        } else if (hasRemote && currentBranch !== 'HEAD') {
-            stdout = await git.raw([
-                'log',
-                `origin/${currentBranch}..HEAD`,
-                '--date=iso',
-                '--pretty=format:%x1e%H%x1f%P%x1f%an%x1f%ad%x1f%s'
-            ]).catch(() => '')
+            revisionArgs = [`${upstreamRef}..HEAD`]
+        } else if (remotes.length > 0) {
+            revisionArgs = ['HEAD', '--not', '--remotes']
         } else {
-            stdout = await git.raw([
-                'log',
-                'HEAD',
-                '--date=iso',
-                '--pretty=format:%x1e%H%x1f%P%x1f%an%x1f%ad%x1f%s',
-                '-n',
-                '50'
-            ]).catch(() => '')
+            // Nothing has been pushed anywhere; list the latest commits only.
+            revisionArgs = ['HEAD', '-n', '50']
         }
+        const stdout = await git.raw([
+            'log',
+            ...revisionArgs,
+            '--date=iso',
+            '--pretty=format:%x1e%H%x1f%P%x1f%an%x1f%ad%x1f%s'
+        ]).catch(() => '')
 
         if (!stdout.trim()) return []
         return parseCommitLog(stdout, { statsIncluded: false })
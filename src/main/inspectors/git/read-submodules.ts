@@ -0,0 +1,131 @@
+import log from 'electron-log'
+import { join } from 'path'
+import type { SimpleGit } from 'simple-git'
+import { createGit, getRepoContext, normalizeGitPath, toError } from './core'
+import type { GitSubmoduleChangeFlags, GitSubmoduleList, GitSubmoduleSummary } from './types'
+
+type SubmoduleConfigEntry = {
+    name: string
+    path: string
+    url: string
+}
+
+/** Read `.gitmodules` from the repository root. Missing or unreadable files mean no submodules. */
+async function readSubmoduleConfig(git: SimpleGit, repoRoot: string): Promise<SubmoduleConfigEntry[]> {
+    const stdout = await git
+        .raw(['config', '-f', join(repoRoot, '.gitmodules'), '--get-regexp', '^submodule\\..*\\.(path|url)$'])
+        .catch(() => '')
+    const entries = new Map<string, SubmoduleConfigEntry>()
+
+    for (const line of stdout.split(/\r?\n/)) {
+        const match = /^submodule\.(.+)\.(path|url) (.*)$/.exec(line.trim())
+        if (!match) continue
+        const [, name, key, value] = match
+        const entry = entries.get(name) ?? { name, path: '', url: '' }
+        if (key === 'path') entry.path = normalizeGitPath(value)
+        else entry.url = value
+        entries.set(name, entry)
+    }
+
+    return [...entries.values()].filter((entry) => entry.path)
+}
+
+/**
+ * Parse the `sub` field of `git status --porcelain=v2` for the given repo-relative paths.
+ * It is `N...` for ordinary files and `S<c><m><u>` for submodules.
+ */
+async function readSubmoduleChangeFlags(git: SimpleGit, paths: string[]): Promise<Map<string, GitSubmoduleChangeFlags>> {
+    const flags = new Map<string, GitSubmoduleChangeFlags>()
+    if (paths.length === 0) return flags
+
+    const stdout = await git.raw(['status', '--porcelain=v2', '-z', '--ignore-submodules=none', '--', ...paths])
+    const records = stdout.split('\0')
+    for (let index = 0; index < records.length; index += 1) {
+        const fields = records[index].split(' ')
+        const kind = fields[0]
+        const pathStart = kind === '1' ? 8 : kind === '2' ? 9 : kind === 'u' ? 10 : -1
+        if (pathStart < 0) continue
+        // Renames carry their original path in the next NUL-separated record.
+        if (kind === '2') index += 1
+
+        const sub = fields[2] || ''
+        if (!sub.startsWith('S')) continue
+        flags.set(normalizeGitPath(fields.slice(pathStart).join(' ')), {
+            commitChanged: sub[1] === 'C',
+            hasTrackedChanges: sub[2] === 'M',
+            hasUntrackedChanges: sub[3] === 'U'
+        })
+    }
+
+    return flags
+}
+
+/**
+ * Repo-relative submodule paths mapped to their change flags. Used to annotate
+ * status entries; returns an empty map for repositories without `.gitmodules`.
+ */
+export async function getSubmoduleChangeFlags(repoRoot: string): Promise<Map<string, GitSubmoduleChangeFlags>> {
+    const git = createGit(repoRoot)
+    const config = await readSubmoduleConfig(git, repoRoot)
+    if (config.length === 0) return new Map()
+    return await readSubmoduleChangeFlags(git, config.map((entry) => entry.path))
+}
+
+export async function listSubmodules(projectPath: string): Promise<GitSubmoduleList> {
+    try {
+        const repoContext = await getRepoContext(createGit(projectPath), projectPath)
+        const git = createGit(repoContext.repoRoot)
+        const config = await readSubmoduleConfig(git, repoContext.repoRoot)
+        if (config.length === 0) {
+            return { submodules: [], repoRoot: repoContext.repoRoot, superprojectRoot: repoContext.superprojectRoot }
+        }
+
+        const paths = config.map((entry) => entry.path)
+        const [statusStdout, indexStdout, changeFlags] = await Promise.all([
+            git.raw(['submodule', 'status', '--', ...paths]).catch(() => ''),
+            git.raw(['ls-files', '-s', '--', ...paths]).catch(() => ''),
+            readSubmoduleChangeFlags(git, paths).catch(() => new Map<string, GitSubmoduleChangeFlags>())
+        ])
+
+        // `<prefix><sha> <path> (<describe>)`; prefix is `-` uninitialized, `+` other commit, `U` conflicts.
+        const checkoutState = new Map<string, { prefix: string; commit: string }>()
+        for (const line of statusStdout.split(/\r?\n/)) {
+            const match = /^([ +\-U])([0-9a-f]{40}) (.+?)(?: \(.*\))?$/.exec(line)
+            if (match) checkoutState.set(normalizeGitPath(match[3]), { prefix: match[1], commit: match[2] })
+        }
+
+        // Gitlink entries use mode 160000; conflicted ones list several stages, so keep stage 0 when present.
+        const pinnedCommits = new Map<string, string>()
+        for (const line of indexStdout.split(/\r?\n/)) {
+            const match = /^160000 ([0-9a-f]{40}) (\d)\t(.+)$/.exec(line)
+            if (!match) continue
+            const path = normalizeGitPath(match[3])
+            if (match[2] === '0' || !pinnedCommits.has(path)) pinnedCommits.set(path, match[1])
+        }
+
+        const submodules = config.map((entry): GitSubmoduleSummary => {
+            const state = checkoutState.get(entry.path)
+            const initialized = Boolean(state && state.prefix !== '-')
+            const pinnedCommit = pinnedCommits.get(entry.path) ?? null
+            const flags = changeFlags.get(entry.path)
+            return {
+                name: entry.name,
+                path: entry.path,
+                url: entry.url,
+                pinnedCommit,
+                checkedOutCommit: initialized ? state?.commit ?? null : null,
+                initialized,
+                commitChanged: state?.prefix === '+' || Boolean(flags?.commitChanged),
+                hasTrackedChanges: Boolean(flags?.hasTrackedChanges),
+                hasUntrackedChanges: Boolean(flags?.hasUntrackedChanges),
+                hasConflicts: state?.prefix === 'U'
+            }
+        })
+
+        submodules.sort((a, b) => a.path.localeCompare(b.path))
+        return { submodules, repoRoot: repoContext.repoRoot, superprojectRoot: repoContext.superprojectRoot }
+    } catch (err) {
+        log.error('Failed to list submodules', err)
+        throw toError(err, 'Failed to list submodules')
+    }
+}
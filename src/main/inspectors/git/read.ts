@@ -6,6 +6,7 @@ import {
     normalizeGitPath,
     parseCommitLog,
     parseRepoOwner,
+    SIGNED_COMMIT_LOG_FORMAT,
     stripPathPrefix,
     toError,
     toErrorMessage,
@@ -43,6 +44,8 @@ export {
     getProjectsGitOverview,
     checkIsGitRepo
 } from './read-repo-state'
+export { getFileBlame, getFileHistory } from './read-file-history'
+export { listSubmodules } from './read-submodules'
 
 interface GitHistoryOptions {
     all?: boolean
@@ -64,12 +67,17 @@ export async function getGitHistory(
             'log',
             ...(options?.all === false ? [] : ['--all']),
             '--date=iso',
-            '--pretty=format:%x1e%H%x1f%P%x1f%an%x1f%ad%x1f%s',
+            `--pretty=format:${SIGNED_COMMIT_LOG_FORMAT}`,
             ...(options?.includeStats === false ? [] : ['--numstat']),
             ...limitArgs
         ])
 
-        return { commits: parseCommitLog(stdout, { statsIncluded: options?.includeStats !== false }) }
+        return {
+            commits: parseCommitLog(stdout, {
+                statsIncluded: options?.includeStats !== false,
+                signatureIncluded: true
+            })
+        }
     } catch (err) {
         log.error('Failed to get git history', err)
         throw toError(err, 'Failed to get git history')
@@ -193,6 +201,20 @@ export async function getCommitDiff(projectPath: string, commitHash: string): Pr
     }
 }
 
+/**
+ * Full message (subject and body) of a commit, e.g. to prefill a reword.
+ */
+export async function getCommitMessage(projectPath: string, commitHash: string): Promise<string> {
+    try {
+        assertNonEmpty(commitHash, 'Commit hash')
+        const git = createGit(projectPath)
+        return (await git.raw(['log', '-1', '--format=%B', commitHash.trim(), '--'])).replace(/\n+$/, '')
+    } catch (err) {
+        log.error('Failed to get commit message', err)
+        throw toError(err, 'Failed to get commit message')
+    }
+}
+
 /**
  * Get diff for working changes (unstaged + staged)
  */
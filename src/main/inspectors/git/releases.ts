@@ -0,0 +1,170 @@
+import log from 'electron-log'
+import { readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { SimpleGit } from 'simple-git'
+import { parseConventionalCommitTitle } from '../../ai/commit-message-quality'
+import { createGit, getRepoContext, toError } from './core'
+import type { DraftReleaseOptions, GitChangelogWriteResult, GitReleaseDraft, GitReleaseEntry, GitReleaseGroup } from './types'
+
+// Changelog section order. Types not listed here land in "Other Changes".
+const RELEASE_GROUPS: Array<{ key: string; title: string; types: string[] }> = [
+    { key: 'breaking', title: 'Breaking Changes', types: [] },
+    { key: 'feat', title: 'Features', types: ['feat', 'feature'] },
+    { key: 'fix', title: 'Bug Fixes', types: ['fix', 'bugfix', 'hotfix'] },
+    { key: 'perf', title: 'Performance', types: ['perf'] },
+    { key: 'refactor', title: 'Refactoring', types: ['refactor'] },
+    { key: 'docs', title: 'Documentation', types: ['docs'] },
+    { key: 'test', title: 'Tests', types: ['test', 'tests'] },
+    { key: 'build', title: 'Build & CI', types: ['build', 'ci'] },
+    { key: 'revert', title: 'Reverts', types: ['revert'] },
+    { key: 'chore', title: 'Chores', types: ['chore', 'style'] },
+    { key: 'other', title: 'Other Changes', types: [] }
+]
+
+const BREAKING_FOOTER_PATTERN = /^BREAKING[ -]CHANGE:/m
+
+/**
+ * The closest tag reachable from `toRef`, skipping tags that sit on `toRef` itself so
+ * re-drafting an already tagged release still compares against the release before it.
+ */
+async function findPreviousTag(git: SimpleGit, toRef: string): Promise<string | null> {
+    const describe = (ref: string) => git.raw(['describe', '--tags', '--abbrev=0', ref]).then((out) => out.trim() || null).catch(() => null)
+    const closest = await describe(toRef)
+    if (!closest) return null
+    const tagsAtRef = (await git.raw(['tag', '--points-at', toRef]).catch(() => '')).split(/\r?\n/).map((tag) => tag.trim())
+    return tagsAtRef.includes(closest) ? await describe(`${toRef}^`) : closest
+}
+
+function toReleaseEntry(hash: string, subject: string, body: string): GitReleaseEntry {
+    const parsed = parseConventionalCommitTitle(subject)
+    return {
+        hash,
+        shortHash: hash.slice(0, 7),
+        type: parsed?.type ?? null,
+        scope: parsed?.scope ?? null,
+        description: parsed?.description ?? subject.trim(),
+        breaking: Boolean(parsed?.breaking) || BREAKING_FOOTER_PATTERN.test(body)
+    }
+}
+
+function groupReleaseEntries(entries: GitReleaseEntry[]): GitReleaseGroup[] {
+    const grouped = new Map<string, GitReleaseEntry[]>()
+    for (const entry of entries) {
+        const key = entry.breaking
+            ? 'breaking'
+            : RELEASE_GROUPS.find((group) => entry.type && group.types.includes(entry.type))?.key ?? 'other'
+        grouped.set(key, [...(grouped.get(key) || []), entry])
+    }
+    return RELEASE_GROUPS
+        .filter((group) => grouped.has(group.key))
+        .map((group) => ({ key: group.key, title: group.title, entries: grouped.get(group.key) || [] }))
+}
+
+function formatReleaseMarkdown(version: string | null, date: string, groups: GitReleaseGroup[]): string {
+    const lines = [version ? `## [${version}] - ${date}` : '## [Unreleased]', '']
+    if (groups.length === 0) {
+        lines.push('No changes since the previous release.', '')
+    }
+    for (const group of groups) {
+        lines.push(`### ${group.title}`, '')
+        for (const entry of group.entries) {
+            lines.push(`- ${entry.scope ? `**${entry.scope}:** ` : ''}${entry.description} (${entry.shortHash})`)
+        }
+        lines.push('')
+    }
+    return lines.join('\n').trimEnd() + '\n'
+}
+
+/**
+ * Collects non-merge commits since the previous tag and groups them by conventional-commit type.
+ */
+export async function draftRelease(projectPath: string, options?: DraftReleaseOptions): Promise<GitReleaseDraft> {
+    try {
+        const git = createGit(projectPath)
+        const toRef = options?.toRef?.trim() || 'HEAD'
+        const previousTag = options?.fromTag?.trim() || await findPreviousTag(git, toRef)
+        const range = previousTag ? `${previousTag}..${toRef}` : toRef
+        const stdout = await git.raw(['log', '--no-merges', '--format=%x1e%H%x1f%s%x1f%b', range])
+
+        const entries = stdout
+            .split('\x1e')
+            .filter((record) => record.trim())
+            .map((record) => {
+                const [hash, subject = '', body = ''] = record.split('\x1f')
+                return toReleaseEntry(hash.trim(), subject, body)
+            })
+
+        const version = options?.version?.trim() || null
+        const date = new Date().toISOString().slice(0, 10)
+        const groups = groupReleaseEntries(entries)
+        return {
+            version,
+            previousTag,
+            toRef,
+            date,
+            commitCount: entries.length,
+            groups,
+            markdown: formatReleaseMarkdown(version, date, groups)
+        }
+    } catch (err) {
+        log.error('Failed to draft release', err)
+        throw toError(err, 'Failed to draft release')
+    }
+}
+
+/** `## [1.2.0] - 2024-05-01` and `## [1.2.0]` identify the same release; other headings compare whole. */
+function getChangelogSectionKey(line: string): string | null {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith('## ')) return null
+    const version = /^##\s+\[([^\]]+)\]/.exec(trimmed)
+    return version ? `[${version[1].trim().toLowerCase()}]` : trimmed
+}
+
+/**
+ * Inserts a release section into CHANGELOG.md at the repository root, above the newest
+ * existing release. A section for the same version is replaced rather than duplicated,
+ * even when it was written on another date.
+ */
+export async function writeChangelogSection(projectPath: string, section: string): Promise<GitChangelogWriteResult> {
+    try {
+        const trimmedSection = section.trim()
+        if (!trimmedSection.startsWith('## ')) {
+            throw new Error('Changelog section must start with a "## " heading')
+        }
+
+        const repoContext = await getRepoContext(createGit(projectPath), projectPath)
+        const changelogPath = join(repoContext.repoRoot, 'CHANGELOG.md')
+        const existing = await readFile(changelogPath, 'utf-8').catch(() => null)
+        if (existing === null) {
+            await writeFile(changelogPath, `# Changelog\n\n${trimmedSection}\n`, 'utf-8')
+            return { path: changelogPath, created: true, replaced: false }
+        }
+
+        const sectionKey = getChangelogSectionKey(trimmedSection.split('\n')[0])
+        const lines = existing.replace(/\r\n/g, '\n').split('\n')
+        const sectionLines = trimmedSection.split('\n')
+        const existingIndex = lines.findIndex((line) => getChangelogSectionKey(line) === sectionKey)
+        let replaced = false
+
+        if (existingIndex >= 0) {
+            const nextIndex = lines.findIndex((line, index) => index > existingIndex && line.startsWith('## '))
+            const endIndex = nextIndex >= 0 ? nextIndex : lines.length
+            lines.splice(existingIndex, endIndex - existingIndex, ...sectionLines, '')
+            replaced = true
+        } else {
+            const firstReleaseIndex = lines.findIndex((line) => line.startsWith('## '))
+            if (firstReleaseIndex >= 0) {
+                lines.splice(firstReleaseIndex, 0, ...sectionLines, '')
+            } else {
+                while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop()
+                lines.push('', ...sectionLines)
+            }
+        }
+
+        await writeFile(changelogPath, `${lines.join('\n').trimEnd()}\n`, 'utf-8')
+        return { path: changelogPath, created: false, replaced }
+    } catch (err) {
+        log.error('Failed to write changelog', err)
+        throw toError(err, 'Failed to write changelog')
+    }
+}
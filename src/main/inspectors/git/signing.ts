@@ -0,0 +1,104 @@
+import log from 'electron-log'
+import type { SimpleGit } from 'simple-git'
+import { createGit, toError, toErrorMessage } from './core'
+import type { GitSigningConfig, GitSigningConfigUpdate, GitSigningFormat } from './types'
+import { withIndexLockRecovery } from './write-shared'
+
+const SIGNING_CONFIG_KEYS = {
+    format: 'gpg.format',
+    signingKey: 'user.signingkey',
+    signCommits: 'commit.gpgsign',
+    signTags: 'tag.gpgsign',
+    allowedSignersFile: 'gpg.ssh.allowedsignersfile'
+} as const
+
+const SIGNING_FORMATS: GitSigningFormat[] = ['openpgp', 'ssh', 'x509']
+
+function parseConfigBool(value: string | undefined): boolean {
+    return /^(true|yes|on|1)$/i.test(String(value || '').trim())
+}
+
+/**
+ * Effective signing settings for the repository `git` runs in, merging system,
+ * global and local config the same way `git commit` does.
+ */
+export async function readSigningConfig(git: SimpleGit): Promise<GitSigningConfig> {
+    const pattern = `^(${Object.values(SIGNING_CONFIG_KEYS).map((key) => key.replace(/\./g, '\\.')).join('|')})$`
+    // Exits 1 when none of the keys are set.
+    const stdout = await git.raw(['config', '--show-scope', '--get-regexp', pattern]).catch(() => '')
+    const values = new Map<string, string>()
+    const localKeys = new Set<string>()
+
+    for (const line of stdout.split(/\r?\n/)) {
+        const match = /^(\w+)\t(\S+)(?: (.*))?$/.exec(line)
+        if (!match) continue
+        const [, scope, key, value = ''] = match
+        const normalizedKey = key.toLowerCase()
+        // Later scopes override earlier ones, so the last value wins.
+        values.set(normalizedKey, value)
+        if (scope === 'local' || scope === 'worktree') localKeys.add(normalizedKey)
+    }
+
+    const format = values.get(SIGNING_CONFIG_KEYS.format) as GitSigningFormat | undefined
+    return {
+        format: format && SIGNING_FORMATS.includes(format) ? format : 'openpgp',
+        signingKey: values.get(SIGNING_CONFIG_KEYS.signingKey)?.trim() || null,
+        signCommits: parseConfigBool(values.get(SIGNING_CONFIG_KEYS.signCommits)),
+        signTags: parseConfigBool(values.get(SIGNING_CONFIG_KEYS.signTags)),
+        allowedSignersFile: values.get(SIGNING_CONFIG_KEYS.allowedSignersFile)?.trim() || null,
+        localKeys: [...localKeys]
+    }
+}
+
+const SIGNING_FAILURE_PATTERN = /gpg failed to sign|failed to sign|unable to sign|failed to write commit object|couldn't load public key|ssh-keygen|no private key|secret key not available/i
+
+/**
+ * For git commands run with signing enabled. gpg and ssh-keygen failures surface as
+ * "failed to write commit object" or "unable to sign the tag"; point at the signing setup instead.
+ */
+export function toSigningAwareError(err: unknown, config: GitSigningConfig, fallback: string): Error {
+    const message = toErrorMessage(err, fallback)
+    if (!SIGNING_FAILURE_PATTERN.test(message)) return toError(err, fallback)
+    const keyHint = config.signingKey ? `key ${config.signingKey}` : 'no signing key configured'
+    return new Error(`Signing with ${config.format} failed (${keyHint}). Check the signing settings for this repository.\n${message}`)
+}
+
+export async function getGitSigningConfig(projectPath: string): Promise<GitSigningConfig> {
+    try {
+        return await readSigningConfig(createGit(projectPath))
+    } catch (err) {
+        log.error('Failed to read signing config', err)
+        throw toError(err, 'Failed to read signing config')
+    }
+}
+
+/**
+ * Writes signing settings to the repository's local config. `null` removes the local
+ * value so the global one applies again; `undefined` leaves a setting untouched.
+ */
+export async function setGitSigningConfig(projectPath: string, update: GitSigningConfigUpdate): Promise<GitSigningConfig> {
+    try {
+        if (update.format && !SIGNING_FORMATS.includes(update.format)) {
+            throw new Error(`Unsupported signing format: ${update.format}`)
+        }
+
+        await withIndexLockRecovery(projectPath, 'update signing config', async (git) => {
+            for (const [field, key] of Object.entries(SIGNING_CONFIG_KEYS) as Array<[keyof GitSigningConfigUpdate, string]>) {
+                const value = update[field]
+                if (value === undefined) continue
+                const text = typeof value === 'boolean' ? String(value) : String(value ?? '').trim()
+                if (value === null || !text) {
+                    // Exit code 5 means the key was not set locally, which is already the goal.
+                    await git.raw(['config', '--local', '--unset-all', key]).catch(() => undefined)
+                } else {
+                    await git.raw(['config', '--local', key, text])
+                }
+            }
+        })
+
+        return await readSigningConfig(createGit(projectPath))
+    } catch (err) {
+        log.error('Failed to update signing config', err)
+        throw toError(err, 'Failed to update signing config')
+    }
+}
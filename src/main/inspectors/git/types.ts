@@ -1,4 +1,6 @@
-export type GitFileStatus = 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'ignored' | 'unknown'
+import type { DevScopeForgeKind } from '../../../shared/contracts/devscope-git-contracts'
+
+export type GitFileStatus = 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'conflicted' | 'ignored' | 'unknown'
 
 export interface GitStatusMap {
     [relativePath: string]: GitFileStatus
@@ -18,6 +20,14 @@ export interface GitStatusDetail {
     unstagedAdditions: number
     unstagedDeletions: number
     statsLoaded?: boolean
+    /** Present when the path is a submodule; porcelain v1 reports every submodule change as plain `M`. */
+    submodule?: GitSubmoduleChangeFlags
+}
+
+export interface GitSubmoduleChangeFlags {
+    commitChanged: boolean
+    hasTrackedChanges: boolean
+    hasUntrackedChanges: boolean
 }
 
 export interface GitStatusEntryStats {
@@ -53,6 +63,7 @@ export interface GitRemoteSummary {
     name: string
     fetchUrl: string
     pushUrl: string
+    forge: DevScopeForgeKind | null
 }
 
 export interface GitSyncStatus {
@@ -72,6 +83,12 @@ export interface GitSyncStatus {
 export interface GitTagSummary {
     name: string
     commit?: string
+    /** Annotated tags carry their own message, tagger and date; lightweight tags only point at a commit. */
+    annotated?: boolean
+    message?: string | null
+    tagger?: string | null
+    /** Tagger date for annotated tags, commit date for lightweight ones. */
+    date?: string | null
 }
 
 export interface CheckoutBranchOptions {
@@ -97,6 +114,16 @@ export interface GitCommit {
     deletions: number
     filesChanged: number
     statsLoaded?: boolean
+    signature?: GitCommitSignature
+}
+
+export type GitSignatureStatus = 'verified' | 'unverified' | 'unsigned'
+
+export interface GitCommitSignature {
+    status: GitSignatureStatus
+    /** Raw `%G?` code: G, B, U, X, Y, R, E or N. */
+    code: string
+    signer: string | null
 }
 
 export interface GitHistoryResult {
@@ -118,6 +145,8 @@ export interface GitignorePattern {
 export interface RepoContext {
     repoRoot: string
     projectRelativeToRepo: string
+    /** Working tree of the parent repository when this repository is checked out as a submodule. */
+    superprojectRoot: string | null
 }
 
 export interface CompactPatchResult {
@@ -127,3 +156,216 @@ export interface CompactPatchResult {
     includedFiles: number
     wasTruncated: boolean
 }
+
+export type GitOperationKind = 'merge' | 'rebase' | 'cherry-pick' | 'revert'
+
+export interface GitConflictState {
+    operation: GitOperationKind | null
+    incomingLabel: string | null
+    conflictedPaths: string[]
+}
+
+export interface GitConflictFile {
+    path: string
+    base: string | null
+    ours: string | null
+    theirs: string | null
+    merged: string
+    binary: boolean
+}
+
+export type GitConflictResolution =
+    | { kind: 'content'; content: string }
+    | { kind: 'ours' }
+    | { kind: 'theirs' }
+    | { kind: 'delete' }
+    | { kind: 'mark' }
+
+export type GitResetMode = 'soft' | 'mixed' | 'hard'
+
+export type GitRebaseAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop'
+
+export interface GitRebaseCommit {
+    hash: string
+    shortHash: string
+    subject: string
+    message: string
+    author: string
+    date: string
+}
+
+export interface GitRebasePlan {
+    baseHash: string | null
+    commits: GitRebaseCommit[]
+}
+
+export interface GitRebaseStep {
+    hash: string
+    action: GitRebaseAction
+    message?: string
+}
+
+export interface GitRebaseProgress {
+    status: 'running' | 'success' | 'error'
+    message: string
+    step?: number
+    total?: number
+    percent?: number
+    error?: string
+}
+
+export interface GitBlameCommit {
+    hash: string
+    shortHash: string
+    author: string
+    authorEmail: string
+    date: string
+    summary: string
+    path: string
+    previousHash: string | null
+    uncommitted: boolean
+}
+
+export interface GitBlameRange {
+    startLine: number
+    lineCount: number
+    hash: string
+}
+
+export interface GitFileBlame {
+    ranges: GitBlameRange[]
+    commits: Record<string, GitBlameCommit>
+}
+
+export interface GitFileHistoryEntry {
+    hash: string
+    shortHash: string
+    parents: string[]
+    author: string
+    authorEmail: string
+    date: string
+    message: string
+    status: 'added' | 'modified' | 'renamed' | 'copied' | 'deleted'
+    path: string
+    previousPath: string | null
+}
+
+export interface GitFileHistory {
+    entries: GitFileHistoryEntry[]
+    hasMore: boolean
+}
+
+export interface GitWorktreeSummary {
+    path: string
+    head: string
+    branch: string | null
+    isMain: boolean
+    isCurrent: boolean
+    detached: boolean
+    bare: boolean
+    locked: boolean
+    prunable: boolean
+}
+
+export interface AddWorktreeOptions {
+    path: string
+    branch?: string
+    createBranch?: boolean
+    baseRef?: string
+}
+
+export interface GitSubmoduleSummary extends GitSubmoduleChangeFlags {
+    name: string
+    /** Path relative to the repository root, as written in `.gitmodules`. */
+    path: string
+    url: string
+    /** Commit recorded in the superproject index. */
+    pinnedCommit: string | null
+    /** Commit checked out in the submodule, or null while it is not initialized. */
+    checkedOutCommit: string | null
+    initialized: boolean
+    hasConflicts: boolean
+}
+
+export interface GitSubmoduleList {
+    submodules: GitSubmoduleSummary[]
+    repoRoot: string
+    superprojectRoot: string | null
+}
+
+export interface UpdateSubmodulesOptions {
+    paths?: string[]
+    init?: boolean
+    recursive?: boolean
+    remote?: boolean
+}
+
+export type GitSigningFormat = 'openpgp' | 'ssh' | 'x509'
+
+export interface GitSigningConfig {
+    format: GitSigningFormat
+    signingKey: string | null
+    signCommits: boolean
+    signTags: boolean
+    /** `gpg.ssh.allowedSignersFile`; SSH signatures show as unverified without it. */
+    allowedSignersFile: string | null
+    /** Config keys set in this repository rather than inherited from global or system config. */
+    localKeys: string[]
+}
+
+export interface GitSigningConfigUpdate {
+    format?: GitSigningFormat | null
+    signingKey?: string | null
+    signCommits?: boolean | null
+    signTags?: boolean | null
+    allowedSignersFile?: string | null
+}
+
+export interface GitReleaseEntry {
+    hash: string
+    shortHash: string
+    /** Conventional-commit type, or null when the subject does not follow the convention. */
+    type: string | null
+    scope: string | null
+    description: string
+    breaking: boolean
+}
+
+export interface GitReleaseGroup {
+    key: string
+    title: string
+    entries: GitReleaseEntry[]
+}
+
+export interface GitReleaseDraft {
+    version: string | null
+    previousTag: string | null
+    toRef: string
+    date: string
+    commitCount: number
+    groups: GitReleaseGroup[]
+    markdown: string
+}
+
+export interface DraftReleaseOptions {
+    /** Start of the range; defaults to the closest tag reachable from `toRef`. */
+    fromTag?: string
+    toRef?: string
+    version?: string
+}
+
+export interface GitChangelogWriteResult {
+    path: string
+    created: boolean
+    /** True when a section with the same heading already existed and was replaced. */
+    replaced: boolean
+}
+
+export interface AmendCommitOptions {
+    /** New message; the current one is kept when omitted. */
+    message?: string
+    /** Fold the staged changes into the commit. Without it only the message changes. */
+    includeStaged?: boolean
+    /** Set after the user confirmed rewriting a commit that is already on the remote. */
+    allowPushed?: boolean
+}
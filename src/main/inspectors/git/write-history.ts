@@ -0,0 +1,363 @@
+import log from 'electron-log'
+import { mkdir, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { SimpleGit } from 'simple-git'
+import { toConflictAwareError } from './conflicts'
+import { assertNonEmpty, createGit, getRepoContext, toError } from './core'
+import { getUnpushedCommits } from './read-repo-state'
+import { readSigningConfig, toSigningAwareError } from './signing'
+import type { AmendCommitOptions, GitRebaseCommit, GitRebasePlan, GitRebaseProgress, GitRebaseStep, GitResetMode } from './types'
+import { enqueueRepoWrite, resolveRepoQueuePath, withIndexLockRecovery } from './write-shared'
+
+const RESET_MODES: GitResetMode[] = ['soft', 'mixed', 'hard']
+const REBASE_PLAN_MAX_COMMITS = 200
+// Lives in the git dir so pending `exec` lines still find their message files after a conflict stop.
+const REBASE_WORK_DIR = 'devscope-rebase'
+
+async function resolveCommit(git: SimpleGit, commitHash: string): Promise<{ hash: string; parents: string[] }> {
+    assertNonEmpty(commitHash, 'Commit hash')
+    const stdout = await git.raw(['rev-list', '--parents', '-n', '1', `${commitHash.trim()}^{commit}`, '--'])
+    const [hash, ...parents] = stdout.trim().split(/\s+/)
+    if (!hash) throw new Error(`Commit ${commitHash} was not found.`)
+    return { hash, parents }
+}
+
+/**
+ * Apply a commit from any branch on top of the current branch.
+ * Merge commits are picked relative to their first parent.
+ */
+export async function cherryPickCommit(projectPath: string, commitHash: string): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'cherry-pick commit', async (git) => {
+            const commit = await resolveCommit(git, commitHash)
+            try {
+                await git.raw(['cherry-pick', ...(commit.parents.length > 1 ? ['-m', '1'] : []), commit.hash])
+            } catch (err) {
+                throw await toConflictAwareError(git, err, 'Cherry-pick', 'Failed to cherry-pick commit')
+            }
+        })
+    } catch (err) {
+        log.error('Failed to cherry-pick commit', err)
+        throw toError(err, 'Failed to cherry-pick commit')
+    }
+}
+
+/**
+ * Create a new commit that undoes the given one, using git's default revert message.
+ */
+export async function revertCommit(projectPath: string, commitHash: string): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'revert commit', async (git) => {
+            const commit = await resolveCommit(git, commitHash)
+            try {
+                await git.raw(['revert', '--no-edit', ...(commit.parents.length > 1 ? ['-m', '1'] : []), commit.hash])
+            } catch (err) {
+                throw await toConflictAwareError(git, err, 'Revert', 'Failed to revert commit')
+            }
+        })
+    } catch (err) {
+        log.error('Failed to revert commit', err)
+        throw toError(err, 'Failed to revert commit')
+    }
+}
+
+export async function resetToCommit(projectPath: string, commitHash: string, mode: GitResetMode): Promise<void> {
+    try {
+        if (!RESET_MODES.includes(mode)) throw new Error(`Unsupported reset mode: ${mode}`)
+        await withIndexLockRecovery(projectPath, 'reset branch', async (git) => {
+            const commit = await resolveCommit(git, commitHash)
+            await git.raw(['reset', `--${mode}`, commit.hash])
+        })
+    } catch (err) {
+        log.error('Failed to reset branch', err)
+        throw toError(err, 'Failed to reset branch')
+    }
+}
+
+/**
+ * Rewriting a commit that is already on the remote means a force push later, so it only
+ * happens when the caller passes `allowPushed` after the user confirmed it.
+ */
+async function assertCommitUnpushed(projectPath: string, commitHash: string, allowPushed: boolean | undefined, action: string): Promise<void> {
+    if (allowPushed) return
+    const unpushed = await getUnpushedCommits(projectPath)
+    if (unpushed.some((commit) => commit.hash === commitHash)) return
+    throw new Error(`${commitHash.slice(0, 7)} is already pushed. ${action} it would rewrite published history and need a force push.`)
+}
+
+/**
+ * Amend HEAD with the staged changes, a new message, or both. Without `includeStaged`
+ * the index is left alone and only the message changes.
+ */
+export async function amendLastCommit(projectPath: string, options?: AmendCommitOptions): Promise<void> {
+    try {
+        const message = options?.message?.trim() || ''
+        if (!message && !options?.includeStaged) {
+            throw new Error('Nothing to amend. Stage changes or enter a new message.')
+        }
+
+        await withIndexLockRecovery(projectPath, 'amend commit', async (git) => {
+            const head = await resolveCommit(git, 'HEAD')
+            await assertCommitUnpushed(projectPath, head.hash, options?.allowPushed, 'Amending')
+            if (options?.includeStaged && !message) {
+                const staged = await git.raw(['diff', '--cached', '--name-only'])
+                if (!staged.trim()) throw new Error('There are no staged changes to add to the last commit.')
+            }
+
+            const signing = await readSigningConfig(git)
+            await git.raw([
+                'commit',
+                '--amend',
+                ...(options?.includeStaged ? [] : ['--only']),
+                ...(signing.signCommits ? ['-S'] : []),
+                ...(message ? ['-m', message] : ['--no-edit'])
+            ]).catch((err) => {
+                throw signing.signCommits ? toSigningAwareError(err, signing, 'Failed to amend commit') : err
+            })
+        })
+    } catch (err) {
+        log.error('Failed to amend commit', err)
+        throw toError(err, 'Failed to amend commit')
+    }
+}
+
+/**
+ * Drop HEAD but keep everything it changed staged, ready to be committed again.
+ */
+export async function undoLastCommit(projectPath: string, allowPushed: boolean = false): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'undo last commit', async (git) => {
+            const head = await resolveCommit(git, 'HEAD')
+            if (head.parents.length > 1) {
+                throw new Error('The last commit is a merge. Use Reset to choose which parent to return to.')
+            }
+            await assertCommitUnpushed(projectPath, head.hash, allowPushed, 'Undoing')
+            if (head.parents.length === 0) {
+                // The first commit has no parent to reset to; deleting the branch ref leaves its files staged.
+                await git.raw(['update-ref', '-d', 'HEAD'])
+            } else {
+                await git.raw(['reset', '--soft', head.parents[0]])
+            }
+        })
+    } catch (err) {
+        log.error('Failed to undo last commit', err)
+        throw toError(err, 'Failed to undo last commit')
+    }
+}
+
+/**
+ * Change the message of any commit on the current branch. HEAD is amended directly;
+ * older commits go through the guided rebase with a single reword step.
+ */
+export async function rewordCommit(projectPath: string, commitHash: string, message: string, allowPushed: boolean = false): Promise<void> {
+    try {
+        assertNonEmpty(message, 'Commit message')
+        const git = createGit(projectPath)
+        const [commit, head] = await Promise.all([resolveCommit(git, commitHash), resolveCommit(git, 'HEAD')])
+        await assertCommitUnpushed(projectPath, commit.hash, allowPushed, 'Rewording')
+
+        if (commit.hash === head.hash) {
+            // Already checked above, so don't repeat the pushed-state lookup inside the amend.
+            await amendLastCommit(projectPath, { message, allowPushed: true })
+            return
+        }
+
+        const plan = await getRebasePlan(projectPath, commit.hash)
+        const steps: GitRebaseStep[] = plan.commits.map((entry) => (
+            entry.hash === commit.hash
+                ? { hash: entry.hash, action: 'reword', message: message.trim() }
+                : { hash: entry.hash, action: 'pick' }
+        ))
+        await runInteractiveRebase(projectPath, plan.baseHash, steps, () => undefined)
+    } catch (err) {
+        log.error('Failed to reword commit', err)
+        throw toError(err, 'Failed to reword commit')
+    }
+}
+
+function parseRebaseCommits(stdout: string): Array<GitRebaseCommit & { parents: string[] }> {
+    return stdout
+        .split('\x1e')
+        .map((record) => record.replace(/^\n+/, ''))
+        .filter(Boolean)
+        .map((record) => {
+            const [hash = '', shortHash = '', parents = '', author = '', date = '', subject = '', message = ''] = record.split('\x1f')
+            return {
+                hash,
+                shortHash,
+                parents: parents.split(' ').filter(Boolean),
+                author,
+                date,
+                subject,
+                message: message.replace(/\n+$/, '')
+            }
+        })
+}
+
+async function readRebaseRange(git: SimpleGit, baseHash: string | null) {
+    const stdout = await git.raw([
+        'log',
+        '--reverse',
+        `-n${REBASE_PLAN_MAX_COMMITS + 1}`,
+        '--format=%x1e%H%x1f%h%x1f%P%x1f%an%x1f%aI%x1f%s%x1f%B',
+        baseHash ? `${baseHash}..HEAD` : 'HEAD',
+        '--'
+    ])
+    const commits = parseRebaseCommits(stdout)
+    if (commits.length > REBASE_PLAN_MAX_COMMITS) {
+        throw new Error(`Interactive rebase is limited to ${REBASE_PLAN_MAX_COMMITS} commits. Pick a more recent commit.`)
+    }
+    if (commits.some((commit) => commit.parents.length > 1)) {
+        throw new Error('The selected range contains merge commits, which the rebase editor cannot replay.')
+    }
+    return commits
+}
+
+/**
+ * Commits an interactive rebase starting at `fromHash` would replay, oldest first.
+ */
+export async function getRebasePlan(projectPath: string, fromHash: string): Promise<GitRebasePlan> {
+    try {
+        const projectGit = createGit(projectPath)
+        const repoContext = await getRepoContext(projectGit, projectPath)
+        const git = createGit(repoContext.repoRoot)
+        const from = await resolveCommit(git, fromHash)
+        if (from.parents.length > 1) {
+            throw new Error('Start the rebase from a regular commit, not a merge commit.')
+        }
+
+        const baseHash = from.parents[0] ?? null
+        const commits = await readRebaseRange(git, baseHash)
+        if (!commits.some((commit) => commit.hash === from.hash)) {
+            throw new Error('The selected commit is not part of the current branch.')
+        }
+
+        return {
+            baseHash,
+            commits: commits.map(({ parents: _parents, ...commit }) => commit)
+        }
+    } catch (err) {
+        log.error('Failed to build rebase plan', err)
+        throw toError(err, 'Failed to build rebase plan')
+    }
+}
+
+function validateRebaseSteps(steps: GitRebaseStep[]): void {
+    if (!Array.isArray(steps) || steps.length === 0) throw new Error('Rebase plan is empty.')
+
+    const firstKept = steps.find((step) => step.action !== 'drop')
+    if (firstKept && (firstKept.action === 'squash' || firstKept.action === 'fixup')) {
+        throw new Error(`The first kept commit cannot be a ${firstKept.action}; there is nothing before it to fold into.`)
+    }
+    for (const step of steps) {
+        if (step.action === 'reword' && !step.message?.trim()) {
+            throw new Error(`Enter a new message for ${step.hash.slice(0, 7)} or pick it unchanged.`)
+        }
+    }
+}
+
+/** Quote a path for the POSIX shell git runs editors and `exec` lines through (Git for Windows included). */
+function toShellPath(path: string): string {
+    return `'${path.replace(/\\/g, '/').replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Build the todo list. Reworded or re-messaged squash groups get an `exec` that amends the
+ * group's final commit with the new message, so git never has to open an editor.
+ */
+async function writeRebaseTodo(workDir: string, steps: GitRebaseStep[]): Promise<string> {
+    const lines: string[] = []
+    let pendingMessageFile: string | null = null
+
+    const flushMessage = () => {
+        if (!pendingMessageFile) return
+        lines.push(`exec git commit --amend --no-verify --allow-empty -F ${toShellPath(pendingMessageFile)}`)
+        pendingMessageFile = null
+    }
+
+    for (const [index, step] of steps.entries()) {
+        if (step.action === 'pick' || step.action === 'reword') flushMessage()
+        lines.push(`${step.action === 'reword' ? 'pick' : step.action} ${step.hash}`)
+
+        const message = step.message?.trim()
+        if ((step.action === 'reword' || step.action === 'squash') && message) {
+            const messageFile = join(workDir, `message-${index}.txt`)
+            await writeFile(messageFile, `${message}\n`, 'utf8')
+            pendingMessageFile = messageFile
+        }
+    }
+    flushMessage()
+
+    const todoFile = join(workDir, 'git-rebase-todo')
+    await writeFile(todoFile, `${lines.join('\n')}\n`, 'utf8')
+    return todoFile
+}
+
+/**
+ * Run a guided interactive rebase without an editor: the prepared todo list is copied in as
+ * the sequence editor and `Rebasing (n/m)` output is forwarded as progress.
+ */
+export async function runInteractiveRebase(
+    projectPath: string,
+    baseHash: string | null,
+    steps: GitRebaseStep[],
+    onProgress: (update: GitRebaseProgress) => void
+): Promise<void> {
+    try {
+        validateRebaseSteps(steps)
+        const queuePath = await resolveRepoQueuePath(projectPath)
+
+        await enqueueRepoWrite(queuePath, 'interactive rebase', async () => {
+            const repoContext = await getRepoContext(createGit(projectPath), projectPath)
+            const git = createGit(repoContext.repoRoot)
+
+            const rangeHashes = (await readRebaseRange(git, baseHash)).map((commit) => commit.hash)
+            const stepHashes = steps.map((step) => step.hash)
+            if (rangeHashes.length !== stepHashes.length || rangeHashes.some((hash) => !stepHashes.includes(hash))) {
+                throw new Error('The branch changed since the rebase plan was loaded. Reopen the editor and try again.')
+            }
+
+            const gitDir = (await git.raw(['rev-parse', '--path-format=absolute', '--git-dir'])).trim()
+            const workDir = join(gitDir, REBASE_WORK_DIR)
+            await rm(workDir, { recursive: true, force: true })
+            await mkdir(workDir, { recursive: true })
+            const todoFile = await writeRebaseTodo(workDir, steps)
+
+            const total = steps.filter((step) => step.action !== 'drop').length
+            onProgress({ status: 'running', message: 'Starting rebase', step: 0, total, percent: 2 })
+
+            git.env('GIT_SEQUENCE_EDITOR', `cp ${toShellPath(todoFile)}`)
+            git.env('GIT_EDITOR', 'true')
+            git.outputHandler((_command, _stdout, stderr) => {
+                stderr.on('data', (chunk: Buffer | string) => {
+                    const matches = Array.from(chunk.toString().matchAll(/Rebasing \((\d+)\/(\d+)\)/g))
+                    const latest = matches[matches.length - 1]
+                    if (!latest) return
+                    const step = Number(latest[1])
+                    const stepTotal = Number(latest[2])
+                    onProgress({
+                        status: 'running',
+                        message: `Rebasing ${step}/${stepTotal}`,
+                        step,
+                        total: stepTotal,
+                        percent: Math.max(2, Math.min(99, Math.round((step / Math.max(1, stepTotal)) * 100)))
+                    })
+                })
+            })
+
+            try {
+                await git.raw(['rebase', '-i', '--autostash', ...(baseHash ? [baseHash] : ['--root'])])
+            } catch (err) {
+                throw await toConflictAwareError(git, err, 'Rebase', 'Failed to rebase')
+            }
+
+            await rm(workDir, { recursive: true, force: true }).catch(() => undefined)
+            onProgress({ status: 'success', message: 'Rebase complete', step: total, total, percent: 100 })
+        })
+    } catch (err) {
+        log.error('Failed to run interactive rebase', err)
+        const error = toError(err, 'Failed to run interactive rebase')
+        onProgress({ status: 'error', message: error.message, error: error.message })
+        throw error
+    }
+}
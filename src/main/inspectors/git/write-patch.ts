@@ -0,0 +1,97 @@
+import log from 'electron-log'
+import { randomUUID } from 'node:crypto'
+import { unlink, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { DevScopePatchHunkSelection } from '../../../shared/contracts/devscope-git-contracts'
+import { buildPartialPatch, parseUnifiedDiff, type PartialPatchDirection } from '../../../shared/git-patch'
+import { getRepoContext, toError, toPathSpec } from './core'
+import { withIndexLockRecovery } from './write-shared'
+
+type PatchAction = 'stage' | 'unstage' | 'discard'
+
+const PATCH_ACTIONS: Record<PatchAction, {
+    label: string
+    diffArgs: string[]
+    applyArgs: string[]
+    direction: PartialPatchDirection
+}> = {
+    // Index -> worktree diff, applied forwards onto the index.
+    stage: { label: 'stage selected lines', diffArgs: ['diff'], applyArgs: ['--cached'], direction: 'apply' },
+    // HEAD -> index diff, reverted out of the index.
+    unstage: { label: 'unstage selected lines', diffArgs: ['diff', '--cached'], applyArgs: ['--cached', '-R'], direction: 'reverse' },
+    // Index -> worktree diff, reverted out of the working tree.
+    discard: { label: 'discard selected lines', diffArgs: ['diff'], applyArgs: ['-R'], direction: 'reverse' }
+}
+
+async function applyPartialPatch(
+    projectPath: string,
+    filePath: string,
+    selections: DevScopePatchHunkSelection[],
+    action: PatchAction
+): Promise<void> {
+    const config = PATCH_ACTIONS[action]
+    if (!String(filePath || '').trim()) throw new Error('File path is required.')
+    if (!Array.isArray(selections) || selections.length === 0) throw new Error('Select at least one hunk or line.')
+
+    await withIndexLockRecovery(projectPath, config.label, async (git) => {
+        const repoContext = await getRepoContext(git, projectPath)
+        const pathSpec = await toPathSpec(git, projectPath, filePath, repoContext)
+
+        // Rebuild from the live diff so the patch always matches what is on disk right now.
+        const diff = await git.raw([...config.diffArgs, '--no-color', '--no-ext-diff', '--', pathSpec])
+        const [filePatch] = parseUnifiedDiff(diff)
+        if (!filePatch || filePatch.hunks.length === 0) {
+            throw new Error(action === 'unstage'
+                ? 'This file has no staged changes left.'
+                : 'This file has no unstaged line changes. Untracked files can only be staged as a whole.')
+        }
+
+        const patch = buildPartialPatch(filePatch, selections, config.direction)
+        if (!patch) throw new Error('The selection only contains unchanged lines.')
+
+        const patchFile = join(tmpdir(), `devscope-partial-${process.pid}-${randomUUID()}.patch`)
+        await writeFile(patchFile, patch, 'utf8')
+        try {
+            await git.raw(['apply', ...config.applyArgs, '--whitespace=nowarn', patchFile])
+        } finally {
+            await unlink(patchFile).catch(() => undefined)
+        }
+    })
+}
+
+/**
+ * Stage selected hunks/lines of a file's unstaged changes.
+ */
+export async function stagePatch(projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]): Promise<void> {
+    try {
+        await applyPartialPatch(projectPath, filePath, selections, 'stage')
+    } catch (err) {
+        log.error('Failed to stage selected lines', err)
+        throw toError(err, 'Failed to stage selected lines')
+    }
+}
+
+/**
+ * Move selected hunks/lines of a file's staged changes back to the working tree.
+ */
+export async function unstagePatch(projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]): Promise<void> {
+    try {
+        await applyPartialPatch(projectPath, filePath, selections, 'unstage')
+    } catch (err) {
+        log.error('Failed to unstage selected lines', err)
+        throw toError(err, 'Failed to unstage selected lines')
+    }
+}
+
+/**
+ * Throw away selected hunks/lines of a file's unstaged changes. Staged content is kept.
+ */
+export async function discardPatch(projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]): Promise<void> {
+    try {
+        await applyPartialPatch(projectPath, filePath, selections, 'discard')
+    } catch (err) {
+        log.error('Failed to discard selected lines', err)
+        throw toError(err, 'Failed to discard selected lines')
+    }
+}
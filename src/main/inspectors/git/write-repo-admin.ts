@@ -9,7 +9,10 @@ import {
     toError,
     toErrorMessage
 } from './core'
-import type { CheckoutBranchOptions, CheckoutBranchResult, GitBranchSummary, GitRemoteSummary, GitTagSummary } from './types'
+import type { DevScopeForgeKind } from '../../../shared/contracts/devscope-git-contracts'
+import { isForgeKind, parseForgeRemoteRef } from '../../../shared/forge-remote'
+import { toConflictAwareError } from './conflicts'
+import type { CheckoutBranchOptions, CheckoutBranchResult, GitBranchSummary, GitRemoteSummary } from './types'
 import { enqueueRepoWrite, isBranchPathspecNotFound, resolveRepoQueuePath, withIndexLockRecovery } from './write-shared'
 
 export async function listBranches(projectPath: string): Promise<GitBranchSummary[]> {
@@ -136,7 +139,7 @@ export async function checkoutBranch(
 
             if (!shouldAutoStash || !isCheckoutBlockedByLocalChanges(message)) {
                 log.error('Failed to checkout branch', checkoutError)
-                throw toError(checkoutError, 'Failed to checkout branch')
+                throw await toConflictAwareError(git, checkoutError, 'Checkout', 'Failed to checkout branch')
             }
 
             try {
@@ -175,14 +178,32 @@ export async function deleteBranch(projectPath: string, branchName: string, forc
     }
 }
 
+/**
+ * Hosts declared with `git config devscope.<host>.forge gitlab|gitea|github`, for self-hosted
+ * forges whose host name does not give them away.
+ */
+export async function readForgeHostOverrides(projectPath: string): Promise<Record<string, DevScopeForgeKind>> {
+    const stdout = await createGit(projectPath).raw(['config', '--get-regexp', '^devscope\\..+\\.forge$']).catch(() => '')
+    const overrides: Record<string, DevScopeForgeKind> = {}
+    for (const line of stdout.split(/\r?\n/)) {
+        const match = line.trim().match(/^devscope\.(.+)\.forge\s+(\S+)$/i)
+        const kind = match?.[2].toLowerCase()
+        if (match && isForgeKind(kind)) {
+            overrides[match[1].toLowerCase()] = kind
+        }
+    }
+    return overrides
+}
+
 export async function listRemotes(projectPath: string): Promise<GitRemoteSummary[]> {
     try {
         const git = createGit(projectPath)
-        const remotes = await git.getRemotes(true)
+        const [remotes, hostForges] = await Promise.all([git.getRemotes(true), readForgeHostOverrides(projectPath)])
         return remotes.map((remote) => ({
             name: remote.name,
             fetchUrl: remote.refs.fetch,
-            pushUrl: remote.refs.push
+            pushUrl: remote.refs.push,
+            forge: parseForgeRemoteRef(remote.refs.push || remote.refs.fetch, hostForges)?.kind ?? null
         }))
     } catch (err) {
         log.error('Failed to list remotes', err)
@@ -237,45 +258,6 @@ export async function removeRemote(projectPath: string, remoteName: string): Pro
     }
 }
 
-export async function listTags(projectPath: string): Promise<GitTagSummary[]> {
-    try {
-        const git = createGit(projectPath)
-        const result = await git.tags()
-        return result.all.map((name) => ({ name }))
-    } catch (err) {
-        log.error('Failed to list tags', err)
-        throw toError(err, 'Failed to list tags')
-    }
-}
-
-export async function createTag(projectPath: string, tagName: string, target?: string): Promise<void> {
-    try {
-        assertNonEmpty(tagName, 'Tag name')
-        await withIndexLockRecovery(projectPath, 'create tag', async (git) => {
-            if (target?.trim()) {
-                await git.raw(['tag', tagName.trim(), target.trim()])
-            } else {
-                await git.addTag(tagName.trim())
-            }
-        })
-    } catch (err) {
-        log.error('Failed to create tag', err)
-        throw toError(err, 'Failed to create tag')
-    }
-}
-
-export async function deleteTag(projectPath: string, tagName: string): Promise<void> {
-    try {
-        assertNonEmpty(tagName, 'Tag name')
-        await withIndexLockRecovery(projectPath, 'delete tag', async (git) => {
-            await git.raw(['tag', '-d', tagName.trim()])
-        })
-    } catch (err) {
-        log.error('Failed to delete tag', err)
-        throw toError(err, 'Failed to delete tag')
-    }
-}
-
 export async function listStashes(projectPath: string): Promise<Array<{ hash: string; message: string }>> {
     try {
         const git = createGit(projectPath)
@@ -305,7 +287,11 @@ export async function createStash(projectPath: string, message?: string): Promis
 export async function applyStash(projectPath: string, stashRef: string = 'stash@{0}', pop: boolean = false): Promise<void> {
     try {
         await withIndexLockRecovery(projectPath, 'apply stash', async (git) => {
-            await git.raw(['stash', pop ? 'pop' : 'apply', stashRef])
+            try {
+                await git.raw(['stash', pop ? 'pop' : 'apply', stashRef])
+            } catch (err) {
+                throw await toConflictAwareError(git, err, 'Stash apply', 'Failed to apply stash')
+            }
         })
     } catch (err) {
         log.error('Failed to apply stash', err)
@@ -0,0 +1,54 @@
+import log from 'electron-log'
+import { normalizeGitPath, toError } from './core'
+import type { UpdateSubmodulesOptions } from './types'
+import { withIndexLockRecovery } from './write-shared'
+
+// Paths are repo-relative (as listed by `listSubmodules`) because the write queue runs git at the repository root.
+function toSubmodulePathArgs(paths?: string[]): string[] {
+    const normalized = (paths || []).map((path) => normalizeGitPath(String(path || '').trim())).filter(Boolean)
+    return normalized.length > 0 ? ['--', ...normalized] : []
+}
+
+export async function initSubmodules(projectPath: string, paths?: string[]): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'init submodules', async (git) => {
+            await git.raw(['submodule', 'init', ...toSubmodulePathArgs(paths)])
+        })
+    } catch (err) {
+        log.error('Failed to init submodules', err)
+        throw toError(err, 'Failed to init submodules')
+    }
+}
+
+/**
+ * Check out the pinned commit in each submodule. With `remote`, move to the tip of the
+ * tracked remote branch instead, which leaves the superproject with a new pin to commit.
+ */
+export async function updateSubmodules(projectPath: string, options?: UpdateSubmodulesOptions): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'update submodules', async (git) => {
+            const args = ['submodule', 'update']
+            if (options?.init !== false) args.push('--init')
+            if (options?.recursive) args.push('--recursive')
+            if (options?.remote) args.push('--remote')
+            await git.raw([...args, ...toSubmodulePathArgs(options?.paths)])
+        })
+    } catch (err) {
+        log.error('Failed to update submodules', err)
+        throw toError(err, 'Failed to update submodules')
+    }
+}
+
+/**
+ * Copy submodule URLs from `.gitmodules` into the local config, e.g. after a submodule moved hosts.
+ */
+export async function syncSubmodules(projectPath: string, paths?: string[], recursive: boolean = false): Promise<void> {
+    try {
+        await withIndexLockRecovery(projectPath, 'sync submodules', async (git) => {
+            await git.raw(['submodule', 'sync', ...(recursive ? ['--recursive'] : []), ...toSubmodulePathArgs(paths)])
+        })
+    } catch (err) {
+        log.error('Failed to sync submodules', err)
+        throw toError(err, 'Failed to sync submodules')
+    }
+}
@@ -0,0 +1,100 @@
+import log from 'electron-log'
+import { assertNonEmpty, createGit, toError } from './core'
+import { readSigningConfig, toSigningAwareError } from './signing'
+import type { GitTagSummary } from './types'
+import { withIndexLockRecovery } from './write-shared'
+
+const TAG_LIST_FORMAT = ['%(refname:short)', '%(objecttype)', '%(*objectname)', '%(objectname)', '%(creatordate:iso-strict)', '%(taggername)', '%(contents:subject)'].join('%1f')
+
+export async function listTags(projectPath: string): Promise<GitTagSummary[]> {
+    try {
+        const git = createGit(projectPath)
+        const stdout = await git.raw(['for-each-ref', '--sort=-creatordate', `--format=${TAG_LIST_FORMAT}`, 'refs/tags'])
+        return stdout
+            .split(/\r?\n/)
+            .filter((line) => line.trim())
+            .map((line): GitTagSummary => {
+                const [name, objectType, peeledCommit, objectName, date, tagger, subject] = line.split('\x1f')
+                const annotated = objectType === 'tag'
+                return {
+                    name,
+                    // Annotated tags peel to the tagged commit; lightweight tags are the commit itself.
+                    commit: (annotated ? peeledCommit : objectName) || undefined,
+                    annotated,
+                    message: annotated ? subject || null : null,
+                    tagger: annotated ? tagger || null : null,
+                    date: date || null
+                }
+            })
+    } catch (err) {
+        log.error('Failed to list tags', err)
+        throw toError(err, 'Failed to list tags')
+    }
+}
+
+/**
+ * Lightweight tag by default; a message makes it annotated. With `tag.gpgsign` enabled the
+ * tag is always annotated and signed, falling back to the tag name as its message.
+ */
+export async function createTag(projectPath: string, tagName: string, target?: string, message?: string): Promise<void> {
+    try {
+        assertNonEmpty(tagName, 'Tag name')
+        await withIndexLockRecovery(projectPath, 'create tag', async (git) => {
+            const signing = await readSigningConfig(git)
+            const name = tagName.trim()
+            const tagMessage = message?.trim() || ''
+            const targetArgs = target?.trim() ? [target.trim()] : []
+            if (signing.signTags) {
+                await git.raw(['tag', '-s', '-m', tagMessage || name, name, ...targetArgs]).catch((err) => {
+                    throw toSigningAwareError(err, signing, 'Failed to create tag')
+                })
+            } else if (tagMessage) {
+                await git.raw(['tag', '-a', '-m', tagMessage, name, ...targetArgs])
+            } else {
+                await git.raw(['tag', name, ...targetArgs])
+            }
+        })
+    } catch (err) {
+        log.error('Failed to create tag', err)
+        throw toError(err, 'Failed to create tag')
+    }
+}
+
+export async function pushTag(projectPath: string, tagName: string, remoteName: string = 'origin'): Promise<void> {
+    try {
+        assertNonEmpty(tagName, 'Tag name')
+        await withIndexLockRecovery(projectPath, 'push tag', async (git) => {
+            await git.raw(['push', remoteName.trim() || 'origin', `refs/tags/${tagName.trim()}`])
+        })
+    } catch (err) {
+        log.error('Failed to push tag', err)
+        throw toError(err, 'Failed to push tag')
+    }
+}
+
+/**
+ * Removes the tag from the remote only; the local tag is left for `deleteTag`.
+ */
+export async function deleteRemoteTag(projectPath: string, tagName: string, remoteName: string = 'origin'): Promise<void> {
+    try {
+        assertNonEmpty(tagName, 'Tag name')
+        await withIndexLockRecovery(projectPath, 'delete remote tag', async (git) => {
+            await git.raw(['push', remoteName.trim() || 'origin', '--delete', `refs/tags/${tagName.trim()}`])
+        })
+    } catch (err) {
+        log.error('Failed to delete remote tag', err)
+        throw toError(err, 'Failed to delete remote tag')
+    }
+}
+
+export async function deleteTag(projectPath: string, tagName: string): Promise<void> {
+    try {
+        assertNonEmpty(tagName, 'Tag name')
+        await withIndexLockRecovery(projectPath, 'delete tag', async (git) => {
+            await git.raw(['tag', '-d', tagName.trim()])
+        })
+    } catch (err) {
+        log.error('Failed to delete tag', err)
+        throw toError(err, 'Failed to delete tag')
+    }
+}
@@ -0,0 +1,121 @@
+import log from 'electron-log'
+import { resolve } from 'path'
+import { assertNonEmpty, createGit, getRepoContext, toError } from './core'
+import type { AddWorktreeOptions, GitWorktreeSummary } from './types'
+import { withIndexLockRecovery } from './write-shared'
+
+function isSamePath(left: string, right: string): boolean {
+    const normalize = (value: string) => {
+        const normalized = resolve(value).replace(/\\/g, '/').replace(/\/+$/, '')
+        return process.platform === 'win32' ? normalized.toLowerCase() : normalized
+    }
+    return normalize(left) === normalize(right)
+}
+
+function parseWorktreeList(stdout: string, currentRoot: string): GitWorktreeSummary[] {
+    return stdout
+        .split(/\r?\n\r?\n/)
+        .map((block) => block.split(/\r?\n/).filter(Boolean))
+        .filter((lines) => lines.length > 0 && lines[0].startsWith('worktree '))
+        .map((lines, index) => {
+            const worktree: GitWorktreeSummary = {
+                path: lines[0].slice('worktree '.length),
+                head: '',
+                branch: null,
+                isMain: index === 0,
+                isCurrent: false,
+                detached: false,
+                bare: false,
+                locked: false,
+                prunable: false
+            }
+            for (const line of lines.slice(1)) {
+                if (line.startsWith('HEAD ')) worktree.head = line.slice('HEAD '.length)
+                else if (line.startsWith('branch ')) worktree.branch = line.slice('branch '.length).replace(/^refs\/heads\//, '')
+                else if (line === 'detached') worktree.detached = true
+                else if (line === 'bare') worktree.bare = true
+                else if (line === 'locked' || line.startsWith('locked ')) worktree.locked = true
+                else if (line === 'prunable' || line.startsWith('prunable ')) worktree.prunable = true
+            }
+            worktree.isCurrent = isSamePath(worktree.path, currentRoot)
+            return worktree
+        })
+}
+
+/**
+ * Every worktree of the repository, main checkout first, regardless of which one `projectPath` is in.
+ */
+export async function listWorktrees(projectPath: string): Promise<GitWorktreeSummary[]> {
+    try {
+        const git = createGit(projectPath)
+        const repoContext = await getRepoContext(git, projectPath)
+        const stdout = await git.raw(['worktree', 'list', '--porcelain'])
+        return parseWorktreeList(stdout, repoContext.repoRoot)
+    } catch (err) {
+        log.error('Failed to list worktrees', err)
+        throw toError(err, 'Failed to list worktrees')
+    }
+}
+
+export async function addWorktree(projectPath: string, options: AddWorktreeOptions): Promise<GitWorktreeSummary> {
+    try {
+        assertNonEmpty(options?.path || '', 'Worktree path')
+        const branch = options.branch?.trim() || ''
+        if (options.createBranch) assertNonEmpty(branch, 'Branch name')
+
+        const repoContext = await getRepoContext(createGit(projectPath), projectPath)
+        // Relative paths are taken from the repository root, which is where git runs below.
+        const worktreePath = resolve(repoContext.repoRoot, options.path.trim())
+        await withIndexLockRecovery(projectPath, 'add worktree', async (git) => {
+            const args = ['worktree', 'add']
+            if (options.createBranch && branch) {
+                args.push('-b', branch, worktreePath)
+                if (options.baseRef?.trim()) args.push(options.baseRef.trim())
+            } else {
+                args.push(worktreePath, branch || options.baseRef?.trim() || 'HEAD')
+            }
+            await git.raw(args)
+        })
+
+        const added = (await listWorktrees(projectPath)).find((worktree) => isSamePath(worktree.path, worktreePath))
+        if (!added) throw new Error(`Worktree was not registered at ${worktreePath}`)
+        return added
+    } catch (err) {
+        log.error('Failed to add worktree', err)
+        throw toError(err, 'Failed to add worktree')
+    }
+}
+
+export async function removeWorktree(projectPath: string, worktreePath: string, force: boolean = false): Promise<void> {
+    try {
+        assertNonEmpty(worktreePath, 'Worktree path')
+        const worktrees = await listWorktrees(projectPath)
+        const target = worktrees.find((worktree) => isSamePath(worktree.path, worktreePath))
+        if (!target) throw new Error(`${worktreePath} is not a worktree of this repository`)
+        if (target.isMain) throw new Error('The main worktree cannot be removed.')
+        if (target.isCurrent) throw new Error('Open a different worktree before removing this one.')
+
+        await withIndexLockRecovery(projectPath, 'remove worktree', async (git) => {
+            await git.raw(['worktree', 'remove', ...(force ? ['--force'] : []), target.path])
+        })
+    } catch (err) {
+        log.error('Failed to remove worktree', err)
+        throw toError(err, 'Failed to remove worktree')
+    }
+}
+
+/**
+ * Drop bookkeeping for worktrees whose folders were deleted outside git. Returns how many were pruned.
+ */
+export async function pruneWorktrees(projectPath: string): Promise<number> {
+    try {
+        const prunableCount = (await listWorktrees(projectPath)).filter((worktree) => worktree.prunable).length
+        await withIndexLockRecovery(projectPath, 'prune worktrees', async (git) => {
+            await git.raw(['worktree', 'prune'])
+        })
+        return prunableCount
+    } catch (err) {
+        log.error('Failed to prune worktrees', err)
+        throw toError(err, 'Failed to prune worktrees')
+    }
+}
@@ -1,7 +1,9 @@
 import log from 'electron-log'
 import { writeFile } from 'fs/promises'
 import { join } from 'path'
+import { toConflictAwareError } from './conflicts'
 import { assertNonEmpty, createGit, getRepoContext, toError, toErrorMessage, toPathSpec } from './core'
+import { readSigningConfig, toSigningAwareError } from './signing'
 import type { GitWriteScope } from './write-shared'
 import { getScopedPathSpec, isBranchPathspecNotFound, normalizeWriteScope, withIndexLockRecovery } from './write-shared'
 
@@ -13,17 +15,29 @@ export {
     checkoutBranch,
     createBranch,
     createStash,
-    createTag,
     deleteBranch,
-    deleteTag,
     dropStash,
     listBranches,
     listRemotes,
     listStashes,
-    listTags,
+    readForgeHostOverrides,
     removeRemote,
     setRemoteUrl
 } from './write-repo-admin'
+export { createTag, deleteRemoteTag, deleteTag, listTags, pushTag } from './write-tags'
+export { addWorktree, listWorktrees, pruneWorktrees, removeWorktree } from './write-worktrees'
+export { discardPatch, stagePatch, unstagePatch } from './write-patch'
+export { initSubmodules, syncSubmodules, updateSubmodules } from './write-submodules'
+export {
+    amendLastCommit,
+    cherryPickCommit,
+    getRebasePlan,
+    resetToCommit,
+    revertCommit,
+    rewordCommit,
+    runInteractiveRebase,
+    undoLastCommit
+} from './write-history'
 
 type GitPushOptions = {
     remoteName?: string
@@ -82,7 +96,14 @@ export async function createCommit(projectPath: string, message: string): Promis
     try {
         assertNonEmpty(message, 'Commit message')
         await withIndexLockRecovery(projectPath, 'create commit', async (git) => {
-            await git.commit(message.trim())
+            const signing = await readSigningConfig(git)
+            if (!signing.signCommits) {
+                await git.commit(message.trim())
+                return
+            }
+            await git.raw(['commit', '-S', '-m', message.trim()]).catch((err) => {
+                throw toSigningAwareError(err, signing, 'Failed to create commit')
+            })
         })
     } catch (err) {
         log.error('Failed to create commit', err)
@@ -349,8 +370,16 @@ export async function pullUpdates(projectPath: string, options?: GitPullOptions)
             const pushRemoteName = String(options?.pushRemoteName || '').trim()
             const branchName = String(options?.branchName || '').trim()
 
+            const pull = async (...args: [] | [string, string]) => {
+                try {
+                    await git.pull(...args)
+                } catch (err) {
+                    throw await toConflictAwareError(git, err, 'Pull', 'Failed to pull updates')
+                }
+            }
+
             if (!remoteName && !pushRemoteName && !branchName) {
-                await git.pull()
+                await pull()
                 return
             }
 
@@ -368,9 +397,9 @@ export async function pullUpdates(projectPath: string, options?: GitPullOptions)
             }
 
             if (remoteName) {
-                await git.pull(remoteName, currentBranch)
+                await pull(remoteName, currentBranch)
             } else {
-                await git.pull()
+                await pull()
             }
 
             if (pushRemoteName) {
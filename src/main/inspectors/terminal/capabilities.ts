@@ -4,6 +4,8 @@
  */
 
 import { commandExists, getCommandVersion } from '../safe-exec'
+import { buildWslShellId, getShellLabel } from '../../../shared/terminal-shells'
+import { findGitBashPath, getDefaultShellId, listWslDistributions } from './shells'
 import type { TerminalCapability } from './types'
 import log from 'electron-log'
 
@@ -13,26 +15,28 @@ import log from 'electron-log'
 export async function detectTerminalCapabilities(): Promise<TerminalCapability[]> {
     log.info('[Terminal] Detecting shell capabilities...')
 
-    const shells: Array<{ shell: string; displayName: string; versionArg?: string }> = []
+    const shells: Array<{ id: string; shell: string; displayName: string; versionArg?: string }> = []
 
     if (process.platform === 'win32') {
         shells.push(
-            { shell: 'powershell.exe', displayName: 'PowerShell', versionArg: '-Command $PSVersionTable.PSVersion.ToString()' },
-            { shell: 'cmd.exe', displayName: 'Command Prompt', versionArg: '/c ver' },
-            { shell: 'pwsh.exe', displayName: 'PowerShell Core' }
+            { id: 'powershell', shell: 'powershell.exe', displayName: 'PowerShell', versionArg: '-Command $PSVersionTable.PSVersion.ToString()' },
+            { id: 'cmd', shell: 'cmd.exe', displayName: 'Command Prompt', versionArg: '/c ver' },
+            { id: 'pwsh', shell: 'pwsh.exe', displayName: 'PowerShell Core' }
         )
     } else {
         shells.push(
-            { shell: 'bash', displayName: 'Bash' },
-            { shell: 'zsh', displayName: 'Zsh' },
-            { shell: 'fish', displayName: 'Fish' },
-            { shell: 'sh', displayName: 'Bourne Shell' }
+            { id: 'bash', shell: 'bash', displayName: 'Bash' },
+            { id: 'zsh', shell: 'zsh', displayName: 'Zsh' },
+            { id: 'fish', shell: 'fish', displayName: 'Fish' },
+            { id: 'sh', shell: 'sh', displayName: 'Bourne Shell' },
+            { id: 'pwsh', shell: 'pwsh', displayName: 'PowerShell Core' }
         )
     }
 
+    const defaultShellId = getDefaultShellId()
     const capabilities: TerminalCapability[] = []
 
-    for (const { shell, displayName, versionArg } of shells) {
+    for (const { id, shell, displayName, versionArg } of shells) {
         const available = await commandExists(shell)
         let version: string | null = null
 
@@ -41,15 +45,46 @@ export async function detectTerminalCapabilities(): Promise<TerminalCapability[]
         }
 
         capabilities.push({
+            id,
             shell,
             displayName,
             version,
             path: available ? shell : null,
             available,
-            isDefault: shell === 'powershell.exe' || shell === 'bash'
+            isDefault: id === defaultShellId
         })
     }
 
+    if (process.platform === 'win32') {
+        const gitBashPath = findGitBashPath()
+        capabilities.push({
+            id: 'git-bash',
+            shell: 'bash.exe',
+            displayName: getShellLabel('git-bash'),
+            version: null,
+            path: gitBashPath,
+            available: Boolean(gitBashPath),
+            isDefault: false
+        })
+
+        const distributions = await listWslDistributions().catch((err) => {
+            log.warn('[Terminal] Failed to list WSL distributions', err)
+            return [] as string[]
+        })
+        for (const distro of distributions) {
+            const id = buildWslShellId(distro)
+            capabilities.push({
+                id,
+                shell: 'wsl.exe',
+                displayName: getShellLabel(id),
+                version: null,
+                path: 'wsl.exe',
+                available: true,
+                isDefault: false
+            })
+        }
+    }
+
     const availableCount = capabilities.filter(c => c.available).length
     log.info(`[Terminal] Found ${availableCount} available shells`)
 
@@ -5,4 +5,6 @@
 export * from './types'
 export * from './manager'
 export * from './capabilities'
+export * from './shells'
+export * from './suggestions'
 export { getTerminalManager, cleanupTerminalManager } from './manager'
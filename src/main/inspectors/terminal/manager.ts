@@ -6,9 +6,12 @@
 import { homedir } from 'os'
 import log from 'electron-log'
 import { TerminalSession } from './session'
-import type { TerminalInfo, TerminalConfig } from './types'
+import type { TerminalInfo, TerminalConfig, TerminalOutputPayload } from './types'
+import { resolveShellLaunch } from './shells'
 import type { BrowserWindow } from 'electron'
 
+export const TERMINAL_OUTPUT_CHANNEL = 'devscope:terminal:output'
+
 const DEFAULT_CONFIG: TerminalConfig = {
     maxSessions: 10,
     defaultShell: 'powershell',
@@ -46,7 +49,7 @@ export class TerminalManager {
     public createSession(
         name?: string,
         cwd?: string,
-        shellPreference?: 'cmd' | 'powershell'
+        shellPreference?: string
     ): TerminalInfo {
         // Check session limit
         if (this.sessions.size >= this.config.maxSessions) {
@@ -58,13 +61,13 @@ export class TerminalManager {
         const sessionCwd = cwd || homedir()
 
         // Resolve shell
-        const shell = this.resolveShell(shellPreference || this.config.defaultShell)
+        const launch = resolveShellLaunch(shellPreference || this.config.defaultShell)
 
         // Create session with callbacks
         const session = new TerminalSession(
             id,
             sessionName,
-            shell,
+            launch,
             sessionCwd,
             (data, type) => this.handleOutput(id, data, type),
             (exitCode) => this.handleClose(id, exitCode)
@@ -155,11 +158,7 @@ export class TerminalManager {
                 this.outputCallback(id, combinedData)
             }
 
-            this.mainWindow.webContents.send('devscope:terminal:output', {
-                id,
-                data: combinedData,
-                type: 'stdout'
-            })
+            this.send({ sessionId: id, type: 'output', data: combinedData })
         }
 
         // Clear the buffer
@@ -174,14 +173,14 @@ export class TerminalManager {
     }
 
     private handleClose(id: string, exitCode: number): void {
-        if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-            this.mainWindow.webContents.send('devscope:terminal:output', {
-                id,
-                data: `\n[Process exited with code ${exitCode}]\n`,
-                type: 'close',
-                exitCode
-            })
-        }
+        // Deliver output still sitting in the batch before the exit notice
+        this.flushOutputBuffer()
+        this.send({
+            sessionId: id,
+            type: 'exit',
+            data: `\r\n[Process exited with code ${exitCode}]\r\n`,
+            exitCode
+        })
 
         // Auto-cleanup exited sessions after 5 seconds
         setTimeout(() => {
@@ -193,12 +192,9 @@ export class TerminalManager {
         }, 5000)
     }
 
-    private resolveShell(preference: 'cmd' | 'powershell'): string {
-        if (process.platform === 'win32') {
-            return preference === 'powershell' ? 'powershell.exe' : 'cmd.exe'
-        }
-        // Fallback for non-Windows (shouldn't happen in DevScope)
-        return process.env.SHELL || 'bash'
+    private send(payload: TerminalOutputPayload): void {
+        if (!this.mainWindow || this.mainWindow.isDestroyed()) return
+        this.mainWindow.webContents.send(TERMINAL_OUTPUT_CHANNEL, payload)
     }
 
     private startCleanupMonitor(): void {
@@ -8,6 +8,7 @@ import { homedir } from 'os'
 import log from 'electron-log'
 import type { TerminalSession as ITerminalSession } from './types'
 import { getAugmentedEnv } from '../safe-exec'
+import type { ShellLaunch } from './shells'
 
 export class TerminalSession {
     public readonly id: string
@@ -18,22 +19,27 @@ export class TerminalSession {
 
     private ptyProcess: pty.IPty | null = null
     private currentShell: string
+    private shellArgs: string[]
+    private shellId: string
     private currentCwd: string
     private outputCallback: ((data: string, type: 'stdout' | 'stderr') => void) | null = null
     private closeCallback: ((exitCode: number) => void) | null = null
     private lastError: string | null = null
+    private exitCode: number | null = null
 
     constructor(
         id: string,
         name: string,
-        shell: string,
+        launch: ShellLaunch,
         cwd: string,
         onOutput: (data: string, type: 'stdout' | 'stderr') => void,
         onClose: (exitCode: number) => void
     ) {
         this.id = id
         this.name = name
-        this.currentShell = shell
+        this.currentShell = launch.command
+        this.shellArgs = launch.args
+        this.shellId = launch.id
         this.currentCwd = cwd
         this.createdAt = Date.now()
         this.lastActivity = Date.now()
@@ -48,10 +54,12 @@ export class TerminalSession {
             id: this.id,
             name: this.name,
             shell: this.currentShell,
+            shellId: this.shellId,
             cwd: this.cwd,
             status: this.status,
             createdAt: this.createdAt,
             lastActivity: this.lastActivity,
+            exitCode: this.exitCode,
             error: this.lastError || undefined
         }
     }
@@ -83,7 +91,7 @@ export class TerminalSession {
                 NODE_ENV: process.env.NODE_ENV || 'development'
             }
 
-            this.ptyProcess = pty.spawn(this.currentShell, [], {
+            this.ptyProcess = pty.spawn(this.currentShell, this.shellArgs, {
                 name: 'xterm-256color',
                 cols: 80,
                 rows: 30,
@@ -107,6 +115,7 @@ export class TerminalSession {
             // Handle exit
             this.ptyProcess.onExit((res) => {
                 this.status = 'exited'
+                this.exitCode = res.exitCode
                 log.info(`[Terminal:${this.id}] Exited with code ${res.exitCode}`)
 
                 if (this.closeCallback) {
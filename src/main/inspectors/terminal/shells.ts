@@ -0,0 +1,125 @@
+/**
+ * DevScope - Shell Resolution
+ * Maps shell ids from settings/IPC to an executable and launch arguments
+ */
+
+import { existsSync } from 'fs'
+import { basename, join } from 'path'
+import { buildWslShellId, getShellLabel, normalizeShellId, parseShellId } from '../../../shared/terminal-shells'
+import { safeExec } from '../safe-exec'
+
+export interface ShellLaunch {
+    id: string
+    label: string
+    command: string
+    args: string[]
+}
+
+const WINDOWS_ONLY_KINDS = new Set(['powershell', 'cmd', 'git-bash', 'wsl'])
+const POSIX_SHELL_KINDS = new Set(['bash', 'zsh', 'fish', 'sh'])
+
+let gitBashPathCache: string | null | undefined
+
+/**
+ * Locate Git for Windows' bash.exe (not the WSL launcher that also answers to `bash`).
+ */
+export function findGitBashPath(): string | null {
+    if (gitBashPathCache !== undefined) return gitBashPathCache
+
+    const roots = [
+        process.env.ProgramFiles,
+        process.env['ProgramFiles(x86)'],
+        process.env.LOCALAPPDATA ? join(process.env.LOCALAPPDATA, 'Programs') : undefined
+    ].filter((root): root is string => Boolean(root))
+
+    gitBashPathCache = roots
+        .map((root) => join(root, 'Git', 'bin', 'bash.exe'))
+        .find((candidate) => existsSync(candidate)) || null
+    return gitBashPathCache
+}
+
+/**
+ * List installed WSL distributions. `wsl.exe` writes UTF-16LE, so NUL bytes are stripped.
+ */
+export async function listWslDistributions(): Promise<string[]> {
+    if (process.platform !== 'win32') return []
+    const result = await safeExec('wsl.exe', ['--list', '--quiet'], { timeout: 5000 })
+    return result.stdout
+        .replace(/\u0000/g, '')
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line && !/^(docker-desktop|docker-desktop-data)$/i.test(line))
+}
+
+export function getDefaultShellId(): string {
+    if (process.platform === 'win32') return 'powershell'
+    const loginShell = normalizeShellId(basename(process.env.SHELL || ''))
+    return loginShell && POSIX_SHELL_KINDS.has(loginShell) ? loginShell : 'bash'
+}
+
+function toLaunch(id: string, command: string, args: string[]): ShellLaunch {
+    return { id, label: getShellLabel(id), command, args }
+}
+
+/**
+ * Resolve a shell id to a spawnable command. Unknown ids, or ids that do not
+ * apply to this platform, fall back to the platform default so stale settings
+ * never block a terminal from opening.
+ */
+export function resolveShellLaunch(shellId?: string | null): ShellLaunch {
+    const parsed = parseShellId(shellId)
+    const isWindows = process.platform === 'win32'
+
+    if (parsed && (isWindows || !WINDOWS_ONLY_KINDS.has(parsed.kind))) {
+        switch (parsed.kind) {
+            case 'powershell':
+                return toLaunch('powershell', 'powershell.exe', ['-NoLogo', '-NoExit'])
+            case 'pwsh':
+                return toLaunch('pwsh', isWindows ? 'pwsh.exe' : 'pwsh', isWindows ? ['-NoLogo', '-NoExit'] : ['-NoLogo', '-Login'])
+            case 'cmd':
+                return toLaunch('cmd', 'cmd.exe', ['/k'])
+            case 'git-bash': {
+                const gitBashPath = findGitBashPath()
+                if (gitBashPath) return toLaunch('git-bash', gitBashPath, ['--login', '-i'])
+                break
+            }
+            case 'wsl':
+                return parsed.distro
+                    ? toLaunch(buildWslShellId(parsed.distro), 'wsl.exe', ['-d', parsed.distro])
+                    : toLaunch('wsl', 'wsl.exe', [])
+            default:
+                if (isWindows) break
+                // Login shells so profile-managed PATH entries (nvm, pyenv, asdf) are present.
+                return toLaunch(parsed.kind, parsed.kind, ['-l'])
+        }
+    }
+
+    const fallbackId = getDefaultShellId()
+    if (fallbackId === 'powershell') {
+        return toLaunch('powershell', 'powershell.exe', ['-NoLogo', '-NoExit'])
+    }
+    const loginShellPath = process.env.SHELL || ''
+    return toLaunch(fallbackId, basename(loginShellPath) === fallbackId ? loginShellPath : fallbackId, ['-l'])
+}
+
+/**
+ * Like `resolveShellLaunch`, but the shell runs `command` and exits with its exit code
+ * instead of staying interactive. Used by saved run configurations.
+ */
+export function resolveShellCommandLaunch(shellId: string | null | undefined, command: string): ShellLaunch {
+    const launch = resolveShellLaunch(shellId)
+    const kind = parseShellId(launch.id)?.kind
+    switch (kind) {
+        case 'powershell':
+        case 'pwsh':
+            return { ...launch, args: ['-NoLogo', '-Command', command] }
+        case 'cmd':
+            return { ...launch, args: ['/d', '/s', '/c', command] }
+        case 'wsl':
+            return { ...launch, args: [...launch.args, '--', 'sh', '-lc', command] }
+        case 'git-bash':
+            return { ...launch, args: ['--login', '-c', command] }
+        default:
+            return { ...launch, args: ['-l', '-c', command] }
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * DevScope - Terminal Suggestions
+ * Command completions for a working directory: project scripts first, then common commands
+ */
+
+import { existsSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+
+const MAX_SUGGESTIONS = 20
+
+const COMMON_COMMANDS = [
+    'git status',
+    'git pull',
+    'git push',
+    'git log --oneline -n 20',
+    'git diff',
+    'git fetch --all --prune'
+]
+
+function detectPackageRunner(cwd: string): string {
+    if (existsSync(join(cwd, 'pnpm-lock.yaml'))) return 'pnpm'
+    if (existsSync(join(cwd, 'yarn.lock'))) return 'yarn'
+    if (existsSync(join(cwd, 'bun.lockb')) || existsSync(join(cwd, 'bun.lock'))) return 'bun'
+    return 'npm'
+}
+
+async function readPackageScriptCommands(cwd: string): Promise<string[]> {
+    try {
+        const raw = await readFile(join(cwd, 'package.json'), 'utf-8')
+        const scripts = JSON.parse(raw)?.scripts
+        if (!scripts || typeof scripts !== 'object') return []
+
+        const runner = detectPackageRunner(cwd)
+        const commands = [`${runner} install`]
+        for (const name of Object.keys(scripts)) {
+            // `run` avoids clashes with runner built-ins such as `bun build` or `pnpm test`.
+            commands.push(`${runner} run ${name}`)
+        }
+        return commands
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Suggest commands for `cwd` that start with `partial` (case-insensitive).
+ * An empty partial returns the full list, project commands first.
+ */
+export async function getTerminalSuggestions(cwd: string | undefined, partial = ''): Promise<string[]> {
+    const projectCommands = cwd ? await readPackageScriptCommands(cwd) : []
+    const prefix = partial.trimStart().toLowerCase()
+
+    const seen = new Set<string>()
+    const suggestions: string[] = []
+    for (const command of [...projectCommands, ...COMMON_COMMANDS]) {
+        if (seen.has(command)) continue
+        seen.add(command)
+        if (prefix && (!command.toLowerCase().startsWith(prefix) || command.length === prefix.length)) continue
+        suggestions.push(command)
+        if (suggestions.length >= MAX_SUGGESTIONS) break
+    }
+    return suggestions
+}
@@ -6,25 +6,20 @@ export interface TerminalInfo {
     id: string
     name: string
     shell: string
+    shellId: string
     cwd: string
     status: 'active' | 'exited' | 'error'
     createdAt: number
     lastActivity: number
+    exitCode?: number | null
     error?: string
 }
 
-export interface TerminalSession {
-    id: string
-    name: string
-    shell: string
-    cwd: string
-    status: 'active' | 'exited' | 'error'
-    createdAt: number
-    lastActivity: number
-    error?: string
-}
+export type TerminalSession = TerminalInfo
 
 export interface TerminalCapability {
+    /** Shell id accepted by preview terminals and settings (see shared/terminal-shells). */
+    id: string
     shell: string
     displayName: string
     version: string | null
@@ -35,15 +30,15 @@ export interface TerminalCapability {
 
 export interface TerminalConfig {
     maxSessions: number
-    defaultShell: 'powershell' | 'cmd'
+    defaultShell: string
     timeout: number
     maxOutputBuffer: number
     batchInterval?: number // Milliseconds between output batches (default: 16ms for ~60fps)
 }
 
 export interface TerminalOutputPayload {
-    id: string
+    sessionId: string
+    type: 'output' | 'exit'
     data: string
-    type: 'stdout' | 'stderr' | 'close'
     exitCode?: number
 }
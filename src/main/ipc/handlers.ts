@@ -29,16 +29,21 @@ import {
     handleAssistantCreateSession,
     handleAssistantDeletePlaygroundLab,
     handleAssistantDeleteMessage,
+    handleAssistantForkThread,
     handleAssistantDeleteSession,
     handleAssistantDeclinePendingPlaygroundLabRequest,
     handleAssistantDownloadTranscriptionModel,
     handleAssistantDisconnect,
+    handleAssistantExportSession,
     handleAssistantGetAccountOverview,
+    handleAssistantGetApprovalPolicy,
+    handleAssistantGetRuntimeConfig,
     handleAssistantGetSessionTurnUsage,
     handleAssistantGetTranscriptionModelState,
     handleAssistantGetSnapshot,
     handleAssistantGetStatus,
     handleAssistantHydrateSession,
+    handleAssistantImportSession,
     handleAssistantInterruptTurn,
     handleAssistantListModels,
     handleAssistantNewThread,
@@ -48,10 +53,13 @@ import {
     handleAssistantRespondApproval,
     handleAssistantTranscribeAudioWithLocalModel,
     handleAssistantRespondUserInput,
+    handleAssistantSearchConversations,
     handleAssistantSelectSession,
     handleAssistantSelectThread,
     handleAssistantSendPrompt,
+    handleAssistantSetApprovalPolicy,
     handleAssistantSetPlaygroundRoot,
+    handleAssistantSetRuntimeConfig,
     handleAssistantSetSessionProjectPath,
     handleAssistantSubscribe,
     handleAssistantUnsubscribe
@@ -68,11 +76,16 @@ import {
     handleOpenWith,
     handleListInstalledIdes,
     handleScanProjects,
+    handleSetCustomProjectTypes,
+    registerFileIndexChangeForwarding,
+    handleSearchIndexedContent,
     handleSearchIndexedPaths,
     handleSelectFolder,
     handleSelectMarkdownFile
 } from './handlers/project-discovery-handlers'
 import {
+    handleAuditIndexedDependencies,
+    handleAuditProjectDependencies,
     handleGetProjectDetails,
     handleInstallProjectDependencies,
     handleGetProjectProcesses,
@@ -90,12 +103,34 @@ import {
     handleRenameFileSystemItem,
     handleWriteTextFile
 } from './handlers/file-tree-handlers'
-import { handleOpenInTerminal } from './handlers/terminal-handlers'
+import { handleListTerminalShells, handleOpenInTerminal } from './handlers/terminal-handlers'
+import {
+    handleDeleteRunConfiguration,
+    handleLaunchRunConfiguration,
+    handleListRunConfigurations,
+    handleListRunStatuses,
+    handleSaveRunConfiguration,
+    handleStopRunConfiguration
+} from './handlers/task-runner-handlers'
+import {
+    handleCreateTerminalSession,
+    handleGetTerminalBanner,
+    handleGetTerminalCapabilities,
+    handleGetTerminalSuggestions,
+    handleKillTerminalSession,
+    handleListTerminalSessions,
+    handleResizeTerminalSession,
+    handleWriteTerminalSession
+} from './handlers/terminal-session-handlers'
 import {
     handleClosePreviewTerminal,
     handleCreatePreviewTerminal,
     handleListPreviewTerminalSessions,
+    handleRelaunchPreviewTerminal,
+    handleRelaunchPreviewTerminalsForPath,
     handleResizePreviewTerminal,
+    handleSetPreviewTerminalAutoRelaunch,
+    handleSetPreviewTerminalLaunchCommand,
     handleSetPreviewTerminalTitle,
     handleWritePreviewTerminal
 } from './handlers/preview-terminal-handlers'
@@ -111,6 +146,9 @@ import {
     handleGenerateCustomGitignoreContent,
     handleGenerateGitignoreContent,
     handleGetCommitDiff,
+    handleGetCommitMessage,
+    handleGetFileBlame,
+    handleGetFileHistory,
     handleGetGitCommitStats,
     handleGetGitHistory,
     handleGetGitHistoryCount,
@@ -135,6 +173,7 @@ import {
 import {
     handleAddRemote,
     handleAddRemoteOrigin,
+    handleAddWorktree,
     handleApplyStash,
     handleCheckoutBranch,
     handleCloneGitRepository,
@@ -146,8 +185,10 @@ import {
     handleCreateStash,
     handleCreateTag,
     handleDeleteBranch,
+    handleDeleteRemoteTag,
     handleDeleteTag,
     handleDiscardChanges,
+    handleDiscardPatch,
     handleDropStash,
     handleFetchUpdates,
     handleInitGitRepo,
@@ -155,15 +196,46 @@ import {
     handleListRemotes,
     handleListStashes,
     handleListTags,
+    handleListWorktrees,
+    handlePruneWorktrees,
     handlePullUpdates,
     handlePushCommits,
     handlePushSingleCommit,
+    handlePushTag,
     handleRemoveRemote,
+    handleRemoveWorktree,
     handleSetRemoteUrl,
     handleSetGlobalGitUser,
     handleStageFiles,
-    handleUnstageFiles
+    handleStagePatch,
+    handleUnstageFiles,
+    handleUnstagePatch
 } from './handlers/git-write-handlers'
+import {
+    handleAbortGitOperation,
+    handleContinueGitOperation,
+    handleGetGitConflictFile,
+    handleGetGitConflictState,
+    handleResolveGitConflict
+} from './handlers/git-conflict-handlers'
+import {
+    handleAmendLastCommit,
+    handleCherryPickCommit,
+    handleGetRebasePlan,
+    handleResetToCommit,
+    handleRevertCommit,
+    handleRewordCommit,
+    handleRunInteractiveRebase,
+    handleUndoLastCommit
+} from './handlers/git-history-handlers'
+import {
+    handleInitSubmodules,
+    handleListSubmodules,
+    handleSyncSubmodules,
+    handleUpdateSubmodules
+} from './handlers/git-submodule-handlers'
+import { handleGetGitSigningConfig, handleSetGitSigningConfig } from './handlers/git-signing-handlers'
+import { handleDraftRelease, handleWriteChangelogSection } from './handlers/git-release-handlers'
 import {
     UPDATE_CHECK_CHANNEL,
     UPDATE_DOWNLOAD_CHANNEL,
@@ -195,6 +267,8 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     ipcMain.handle(ASSISTANT_IPC.getSnapshot, handleAssistantGetSnapshot)
     ipcMain.handle(ASSISTANT_IPC.getStatus, handleAssistantGetStatus)
     ipcMain.handle(ASSISTANT_IPC.getAccountOverview, handleAssistantGetAccountOverview)
+    ipcMain.handle(ASSISTANT_IPC.getRuntimeConfig, handleAssistantGetRuntimeConfig)
+    ipcMain.handle(ASSISTANT_IPC.setRuntimeConfig, handleAssistantSetRuntimeConfig)
     ipcMain.handle(ASSISTANT_IPC.getSessionTurnUsage, handleAssistantGetSessionTurnUsage)
     ipcMain.handle(ASSISTANT_IPC.listModels, handleAssistantListModels)
     ipcMain.handle(ASSISTANT_IPC.connect, handleAssistantConnect)
@@ -206,6 +280,9 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     ipcMain.handle(ASSISTANT_IPC.renameSession, handleAssistantRenameSession)
     ipcMain.handle(ASSISTANT_IPC.archiveSession, handleAssistantArchiveSession)
     ipcMain.handle(ASSISTANT_IPC.deleteSession, handleAssistantDeleteSession)
+    ipcMain.handle(ASSISTANT_IPC.exportSession, handleAssistantExportSession)
+    ipcMain.handle(ASSISTANT_IPC.importSession, handleAssistantImportSession)
+    ipcMain.handle(ASSISTANT_IPC.searchConversations, handleAssistantSearchConversations)
     ipcMain.handle(ASSISTANT_IPC.deleteMessage, handleAssistantDeleteMessage)
     ipcMain.handle(ASSISTANT_IPC.clearLogs, handleAssistantClearLogs)
     ipcMain.handle(ASSISTANT_IPC.setSessionProjectPath, handleAssistantSetSessionProjectPath)
@@ -219,8 +296,11 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     ipcMain.handle(ASSISTANT_IPC.resolveClipboardAttachment, handleAssistantResolveClipboardAttachment)
     ipcMain.handle(ASSISTANT_IPC.newThread, handleAssistantNewThread)
     ipcMain.handle(ASSISTANT_IPC.sendPrompt, handleAssistantSendPrompt)
+    ipcMain.handle(ASSISTANT_IPC.forkThread, handleAssistantForkThread)
     ipcMain.handle(ASSISTANT_IPC.interruptTurn, handleAssistantInterruptTurn)
     ipcMain.handle(ASSISTANT_IPC.respondApproval, handleAssistantRespondApproval)
+    ipcMain.handle(ASSISTANT_IPC.getApprovalPolicy, handleAssistantGetApprovalPolicy)
+    ipcMain.handle(ASSISTANT_IPC.setApprovalPolicy, handleAssistantSetApprovalPolicy)
     ipcMain.handle(ASSISTANT_IPC.respondUserInput, handleAssistantRespondUserInput)
     ipcMain.handle(ASSISTANT_IPC.getTranscriptionModelState, handleAssistantGetTranscriptionModelState)
     ipcMain.handle(ASSISTANT_IPC.downloadTranscriptionModel, handleAssistantDownloadTranscriptionModel)
@@ -230,10 +310,13 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     ipcMain.handle('devscope:selectMarkdownFile', handleSelectMarkdownFile)
     ipcMain.handle('devscope:getUserHomePath', handleGetUserHomePath)
     ipcMain.handle('devscope:scanProjects', handleScanProjects)
+    ipcMain.handle('devscope:setCustomProjectTypes', handleSetCustomProjectTypes)
     ipcMain.handle('devscope:indexAllFolders', handleIndexAllFolders)
     ipcMain.handle('devscope:searchIndexedPaths', handleSearchIndexedPaths)
+    ipcMain.handle('devscope:searchIndexedContent', handleSearchIndexedContent)
     ipcMain.handle('devscope:openInExplorer', handleOpenInExplorer)
     ipcMain.handle('devscope:openInTerminal', handleOpenInTerminal)
+    ipcMain.handle('devscope:listTerminalShells', handleListTerminalShells)
     ipcMain.handle('devscope:listInstalledIdes', handleListInstalledIdes)
     ipcMain.handle('devscope:openProjectInIde', handleOpenProjectInIde)
     ipcMain.handle('devscope:previewTerminal:create', handleCreatePreviewTerminal)
@@ -242,11 +325,31 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     ipcMain.handle('devscope:previewTerminal:setTitle', handleSetPreviewTerminalTitle)
     ipcMain.handle('devscope:previewTerminal:resize', handleResizePreviewTerminal)
     ipcMain.handle('devscope:previewTerminal:close', handleClosePreviewTerminal)
+    ipcMain.handle('devscope:previewTerminal:relaunch', handleRelaunchPreviewTerminal)
+    ipcMain.handle('devscope:previewTerminal:relaunchForPath', handleRelaunchPreviewTerminalsForPath)
+    ipcMain.handle('devscope:previewTerminal:setAutoRelaunch', handleSetPreviewTerminalAutoRelaunch)
+    ipcMain.handle('devscope:previewTerminal:setLaunchCommand', handleSetPreviewTerminalLaunchCommand)
+    ipcMain.handle('devscope:runConfigurations:list', handleListRunConfigurations)
+    ipcMain.handle('devscope:runConfigurations:save', handleSaveRunConfiguration)
+    ipcMain.handle('devscope:runConfigurations:delete', handleDeleteRunConfiguration)
+    ipcMain.handle('devscope:runConfigurations:launch', handleLaunchRunConfiguration)
+    ipcMain.handle('devscope:runConfigurations:stop', handleStopRunConfiguration)
+    ipcMain.handle('devscope:runConfigurations:statuses', handleListRunStatuses)
+    ipcMain.handle('devscope:terminal:create', handleCreateTerminalSession)
+    ipcMain.handle('devscope:terminal:list', handleListTerminalSessions)
+    ipcMain.handle('devscope:terminal:kill', handleKillTerminalSession)
+    ipcMain.handle('devscope:terminal:write', handleWriteTerminalSession)
+    ipcMain.handle('devscope:terminal:resize', handleResizeTerminalSession)
+    ipcMain.handle('devscope:terminal:capabilities', handleGetTerminalCapabilities)
+    ipcMain.handle('devscope:terminal:suggestions', handleGetTerminalSuggestions)
+    ipcMain.handle('devscope:terminal:banner', handleGetTerminalBanner)
     ipcMain.handle('devscope:pythonPreview:run', handleRunPythonPreview)
     ipcMain.handle('devscope:pythonPreview:stop', handleStopPythonPreview)
     ipcMain.handle('devscope:copyToClipboard', handleCopyToClipboard)
     ipcMain.handle('devscope:getProjectDetails', handleGetProjectDetails)
     ipcMain.handle('devscope:installProjectDependencies', handleInstallProjectDependencies)
+    ipcMain.handle('devscope:auditProjectDependencies', handleAuditProjectDependencies)
+    ipcMain.handle('devscope:auditIndexedDependencies', handleAuditIndexedDependencies)
     ipcMain.handle('devscope:getFileTree', handleGetFileTree)
     ipcMain.handle('devscope:readFileContent', handleReadFileContent)
     ipcMain.handle('devscope:readTextFileFull', handleReadTextFileFull)
@@ -266,6 +369,9 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     ipcMain.handle('devscope:getGitHistoryCount', handleGetGitHistoryCount)
     ipcMain.handle('devscope:getGitCommitStats', handleGetGitCommitStats)
     ipcMain.handle('devscope:getCommitDiff', handleGetCommitDiff)
+    ipcMain.handle('devscope:getCommitMessage', handleGetCommitMessage)
+    ipcMain.handle('devscope:getFileBlame', handleGetFileBlame)
+    ipcMain.handle('devscope:getFileHistory', handleGetFileHistory)
     ipcMain.handle('devscope:getWorkingDiff', handleGetWorkingDiff)
     ipcMain.handle('devscope:getWorkingChangesForAI', handleGetWorkingChangesForAI)
     ipcMain.handle('devscope:getGitStatus', handleGetGitStatus)
@@ -286,6 +392,22 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     ipcMain.handle('devscope:stageFiles', handleStageFiles)
     ipcMain.handle('devscope:unstageFiles', handleUnstageFiles)
     ipcMain.handle('devscope:discardChanges', handleDiscardChanges)
+    ipcMain.handle('devscope:stagePatch', handleStagePatch)
+    ipcMain.handle('devscope:unstagePatch', handleUnstagePatch)
+    ipcMain.handle('devscope:discardPatch', handleDiscardPatch)
+    ipcMain.handle('devscope:getGitConflictState', handleGetGitConflictState)
+    ipcMain.handle('devscope:getGitConflictFile', handleGetGitConflictFile)
+    ipcMain.handle('devscope:resolveGitConflict', handleResolveGitConflict)
+    ipcMain.handle('devscope:continueGitOperation', handleContinueGitOperation)
+    ipcMain.handle('devscope:abortGitOperation', handleAbortGitOperation)
+    ipcMain.handle('devscope:cherryPickCommit', handleCherryPickCommit)
+    ipcMain.handle('devscope:revertCommit', handleRevertCommit)
+    ipcMain.handle('devscope:resetToCommit', handleResetToCommit)
+    ipcMain.handle('devscope:amendLastCommit', handleAmendLastCommit)
+    ipcMain.handle('devscope:undoLastCommit', handleUndoLastCommit)
+    ipcMain.handle('devscope:rewordCommit', handleRewordCommit)
+    ipcMain.handle('devscope:getRebasePlan', handleGetRebasePlan)
+    ipcMain.handle('devscope:runInteractiveRebase', handleRunInteractiveRebase)
     ipcMain.handle('devscope:createCommit', handleCreateCommit)
     ipcMain.handle('devscope:createOrOpenPullRequest', handleCreateOrOpenPullRequest)
     ipcMain.handle('devscope:commitPushAndCreatePullRequest', handleCommitPushAndCreatePullRequest)
@@ -305,10 +427,24 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     ipcMain.handle('devscope:listTags', handleListTags)
     ipcMain.handle('devscope:createTag', handleCreateTag)
     ipcMain.handle('devscope:deleteTag', handleDeleteTag)
+    ipcMain.handle('devscope:pushTag', handlePushTag)
+    ipcMain.handle('devscope:deleteRemoteTag', handleDeleteRemoteTag)
+    ipcMain.handle('devscope:draftRelease', handleDraftRelease)
+    ipcMain.handle('devscope:writeChangelogSection', handleWriteChangelogSection)
     ipcMain.handle('devscope:listStashes', handleListStashes)
     ipcMain.handle('devscope:createStash', handleCreateStash)
     ipcMain.handle('devscope:applyStash', handleApplyStash)
     ipcMain.handle('devscope:dropStash', handleDropStash)
+    ipcMain.handle('devscope:listWorktrees', handleListWorktrees)
+    ipcMain.handle('devscope:addWorktree', handleAddWorktree)
+    ipcMain.handle('devscope:removeWorktree', handleRemoveWorktree)
+    ipcMain.handle('devscope:pruneWorktrees', handlePruneWorktrees)
+    ipcMain.handle('devscope:listSubmodules', handleListSubmodules)
+    ipcMain.handle('devscope:initSubmodules', handleInitSubmodules)
+    ipcMain.handle('devscope:updateSubmodules', handleUpdateSubmodules)
+    ipcMain.handle('devscope:syncSubmodules', handleSyncSubmodules)
+    ipcMain.handle('devscope:getGitSigningConfig', handleGetGitSigningConfig)
+    ipcMain.handle('devscope:setGitSigningConfig', handleSetGitSigningConfig)
     ipcMain.handle('devscope:initGitRepo', handleInitGitRepo)
     ipcMain.handle('devscope:createInitialCommit', handleCreateInitialCommit)
     ipcMain.handle('devscope:addRemoteOrigin', handleAddRemoteOrigin)
@@ -345,6 +481,8 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
         return targetWindow.isMaximized()
     })
 
+    registerFileIndexChangeForwarding()
+
     mainWindow.webContents.once('destroyed', () => {
         peekAssistantService()?.unsubscribe(mainWindow.webContents.id)
     })
@@ -1,5 +1,8 @@
+import { BrowserWindow, dialog } from 'electron'
+import { readFile, writeFile } from 'fs/promises'
 import log from 'electron-log'
 import type {
+    AssistantApprovalPolicyInput,
     AssistantApprovalResponseInput,
     AssistantApprovePendingPlaygroundLabRequestInput,
     AssistantAttachSessionToPlaygroundLabInput,
@@ -10,11 +13,16 @@ import type {
     AssistantDeclinePendingPlaygroundLabRequestInput,
     AssistantDeletePlaygroundLabInput,
     AssistantDeleteMessageInput,
+    AssistantForkThreadInput,
+    AssistantExportSessionInput,
     AssistantGetSessionTurnUsageInput,
     AssistantPersistClipboardImageInput,
     AssistantResolveClipboardAttachmentInput,
+    AssistantRuntimeConfig,
+    AssistantSearchConversationsInput,
     AssistantSendPromptOptions,
     AssistantSelectThreadInput,
+    AssistantSessionExportFormat,
     AssistantSetPlaygroundRootInput,
     AssistantTranscribeAudioInput,
     AssistantUserInputResponseInput
@@ -23,6 +31,12 @@ import { getAssistantService } from '../../assistant'
 import { persistAssistantClipboardImage, resolveAssistantClipboardAttachment } from '../../assistant/clipboard-attachments'
 import { getAssistantTranscriptionModelManager } from '../../assistant/transcription-models'
 
+const SESSION_EXPORT_FILTERS: Record<AssistantSessionExportFormat, Electron.FileFilter> = {
+    markdown: { name: 'Markdown', extensions: ['md'] },
+    html: { name: 'HTML', extensions: ['html'] },
+    json: { name: 'DevScope Session', extensions: ['json'] }
+}
+
 async function withAssistantResult<T>(work: () => Promise<T> | T): Promise<T | { success: false; error: string }> {
     try {
         return await work()
@@ -59,6 +73,15 @@ export function handleAssistantGetAccountOverview() {
     return withAssistantResult(() => getAssistantService().getAccountOverview())
 }
 
+export function handleAssistantGetRuntimeConfig() {
+    return withAssistantResult(() => getAssistantService().getRuntimeConfig())
+}
+
+export function handleAssistantSetRuntimeConfig(_event: Electron.IpcMainInvokeEvent, config: AssistantRuntimeConfig) {
+    log.info('IPC: assistant:setRuntimeConfig', { backend: config?.backend })
+    return withAssistantResult(() => getAssistantService().setRuntimeConfig(config))
+}
+
 export function handleAssistantGetSessionTurnUsage(_event: Electron.IpcMainInvokeEvent, input?: AssistantGetSessionTurnUsageInput) {
     log.info('IPC: assistant:getSessionTurnUsage', { sessionId: input?.sessionId })
     return withAssistantResult(() => getAssistantService().getSessionTurnUsage(input))
@@ -114,6 +137,45 @@ export function handleAssistantDeleteSession(_event: Electron.IpcMainInvokeEvent
     return withAssistantResult(() => getAssistantService().deleteSession(sessionId))
 }
 
+export function handleAssistantExportSession(event: Electron.IpcMainInvokeEvent, input: AssistantExportSessionInput) {
+    log.info('IPC: assistant:exportSession', { sessionId: input?.sessionId, threadId: input?.threadId, format: input?.format })
+    return withAssistantResult(async () => {
+        const exported = await getAssistantService().exportSession(input)
+        const win = BrowserWindow.fromWebContents(event.sender)
+        const result = await dialog.showSaveDialog(win!, {
+            title: input.threadId ? 'Export Thread' : 'Export Session',
+            defaultPath: exported.defaultFileName,
+            filters: [SESSION_EXPORT_FILTERS[input.format]]
+        })
+        if (result.canceled || !result.filePath) {
+            return { success: true as const, cancelled: true }
+        }
+        await writeFile(result.filePath, exported.content, 'utf-8')
+        return { success: true as const, filePath: result.filePath }
+    })
+}
+
+export function handleAssistantImportSession(event: Electron.IpcMainInvokeEvent) {
+    log.info('IPC: assistant:importSession')
+    return withAssistantResult(async () => {
+        const win = BrowserWindow.fromWebContents(event.sender)
+        const result = await dialog.showOpenDialog(win!, {
+            title: 'Import Session',
+            properties: ['openFile'],
+            filters: [SESSION_EXPORT_FILTERS.json, { name: 'All Files', extensions: ['*'] }]
+        })
+        if (result.canceled || result.filePaths.length === 0) {
+            return { success: true as const, cancelled: true }
+        }
+        return getAssistantService().importSession(await readFile(result.filePaths[0], 'utf-8'))
+    })
+}
+
+export function handleAssistantSearchConversations(_event: Electron.IpcMainInvokeEvent, input: AssistantSearchConversationsInput) {
+    log.info('IPC: assistant:searchConversations', { queryLength: String(input?.query || '').length })
+    return withAssistantResult(() => getAssistantService().searchConversations(input))
+}
+
 export function handleAssistantDeleteMessage(_event: Electron.IpcMainInvokeEvent, input: AssistantDeleteMessageInput) {
     log.info('IPC: assistant:deleteMessage', { sessionId: input?.sessionId, messageId: input?.messageId })
     return withAssistantResult(() => getAssistantService().deleteMessage(input))
@@ -183,6 +245,11 @@ export function handleAssistantSendPrompt(_event: Electron.IpcMainInvokeEvent, p
     return withAssistantResult(() => getAssistantService().sendPrompt(prompt, options))
 }
 
+export function handleAssistantForkThread(_event: Electron.IpcMainInvokeEvent, input: AssistantForkThreadInput) {
+    log.info('IPC: assistant:forkThread', { sessionId: input?.sessionId, messageId: input?.messageId })
+    return withAssistantResult(() => getAssistantService().forkThread(input))
+}
+
 export function handleAssistantInterruptTurn(_event: Electron.IpcMainInvokeEvent, turnId?: string, sessionId?: string) {
     log.info('IPC: assistant:interruptTurn', { turnId, sessionId })
     return withAssistantResult(() => getAssistantService().interruptTurn(turnId, sessionId))
@@ -193,6 +260,15 @@ export function handleAssistantRespondApproval(_event: Electron.IpcMainInvokeEve
     return withAssistantResult(() => getAssistantService().respondApproval(input))
 }
 
+export function handleAssistantGetApprovalPolicy(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    return withAssistantResult(() => getAssistantService().getApprovalPolicy(projectPath))
+}
+
+export function handleAssistantSetApprovalPolicy(_event: Electron.IpcMainInvokeEvent, input: AssistantApprovalPolicyInput) {
+    log.info('IPC: assistant:setApprovalPolicy', { projectPath: input?.projectPath })
+    return withAssistantResult(() => getAssistantService().setApprovalPolicy(input))
+}
+
 export function handleAssistantRespondUserInput(_event: Electron.IpcMainInvokeEvent, input: AssistantUserInputResponseInput) {
     log.info('IPC: assistant:respondUserInput', { requestId: input?.requestId })
     return withAssistantResult(() => getAssistantService().respondUserInput(input))
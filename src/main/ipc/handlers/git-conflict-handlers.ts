@@ -0,0 +1,64 @@
+import log from 'electron-log'
+import type { DevScopeGitConflictResolution } from '../../../shared/contracts/devscope-api'
+import {
+    abortGitOperation,
+    continueGitOperation,
+    getGitConflictFile,
+    getGitConflictState,
+    resolveGitConflict
+} from '../../inspectors/git'
+
+export async function handleGetGitConflictState(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    try {
+        const state = await getGitConflictState(projectPath)
+        return { success: true, state }
+    } catch (err: any) {
+        log.error('Failed to read conflict state:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleGetGitConflictFile(_event: Electron.IpcMainInvokeEvent, projectPath: string, filePath: string) {
+    try {
+        const file = await getGitConflictFile(projectPath, filePath)
+        return { success: true, file }
+    } catch (err: any) {
+        log.error('Failed to read conflicted file:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleResolveGitConflict(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    filePath: string,
+    resolution: DevScopeGitConflictResolution
+) {
+    try {
+        await resolveGitConflict(projectPath, filePath, resolution)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to resolve conflict:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleContinueGitOperation(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    try {
+        await continueGitOperation(projectPath)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to continue git operation:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleAbortGitOperation(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    try {
+        await abortGitOperation(projectPath)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to abort git operation:', err)
+        return { success: false, error: err.message }
+    }
+}
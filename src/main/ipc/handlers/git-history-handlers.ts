@@ -0,0 +1,122 @@
+import log from 'electron-log'
+import {
+    GIT_REBASE_PROGRESS_CHANNEL,
+    type DevScopeGitAmendCommitInput,
+    type DevScopeGitRebaseInput,
+    type DevScopeGitRebaseProgressEvent,
+    type DevScopeGitResetMode
+} from '../../../shared/contracts/devscope-api'
+import {
+    amendLastCommit,
+    cherryPickCommit,
+    getRebasePlan,
+    resetToCommit,
+    revertCommit,
+    rewordCommit,
+    runInteractiveRebase,
+    undoLastCommit
+} from '../../inspectors/git'
+
+export async function handleCherryPickCommit(_event: Electron.IpcMainInvokeEvent, projectPath: string, commitHash: string) {
+    try {
+        await cherryPickCommit(projectPath, commitHash)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to cherry-pick commit:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleRevertCommit(_event: Electron.IpcMainInvokeEvent, projectPath: string, commitHash: string) {
+    try {
+        await revertCommit(projectPath, commitHash)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to revert commit:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleResetToCommit(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    commitHash: string,
+    mode: DevScopeGitResetMode
+) {
+    try {
+        await resetToCommit(projectPath, commitHash, mode)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to reset branch:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleAmendLastCommit(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    input: DevScopeGitAmendCommitInput
+) {
+    try {
+        await amendLastCommit(projectPath, input)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to amend commit:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleUndoLastCommit(_event: Electron.IpcMainInvokeEvent, projectPath: string, allowPushed?: boolean) {
+    try {
+        await undoLastCommit(projectPath, allowPushed === true)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to undo last commit:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleRewordCommit(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    commitHash: string,
+    message: string,
+    allowPushed?: boolean
+) {
+    try {
+        await rewordCommit(projectPath, commitHash, message, allowPushed === true)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to reword commit:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleGetRebasePlan(_event: Electron.IpcMainInvokeEvent, projectPath: string, fromHash: string) {
+    try {
+        const plan = await getRebasePlan(projectPath, fromHash)
+        return { success: true, plan }
+    } catch (err: any) {
+        log.error('Failed to build rebase plan:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleRunInteractiveRebase(event: Electron.IpcMainInvokeEvent, input: DevScopeGitRebaseInput) {
+    const rebaseId = String(input?.rebaseId || '').trim()
+    const sendProgress = (update: Omit<DevScopeGitRebaseProgressEvent, 'rebaseId'>) => {
+        if (!rebaseId || event.sender.isDestroyed()) return
+        event.sender.send(GIT_REBASE_PROGRESS_CHANNEL, {
+            rebaseId,
+            ...update
+        })
+    }
+
+    try {
+        await runInteractiveRebase(input.projectPath, input.baseHash, input.steps, sendProgress)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to run interactive rebase:', err)
+        return { success: false, error: err.message }
+    }
+}
@@ -4,6 +4,9 @@ import {
     generateCustomGitignoreContent,
     generateGitignoreContent,
     getCommitDiff,
+    getCommitMessage,
+    getFileBlame,
+    getFileHistory,
     getGitCommitStats,
     getGitHistory,
     getGitHistoryCount,
@@ -65,6 +68,41 @@ export async function handleGetCommitDiff(_event: Electron.IpcMainInvokeEvent, p
     }
 }
 
+export async function handleGetCommitMessage(_event: Electron.IpcMainInvokeEvent, projectPath: string, commitHash: string) {
+    try {
+        const message = await getCommitMessage(projectPath, commitHash)
+        return { success: true, message }
+    } catch (err: any) {
+        log.error('Failed to get commit message:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleGetFileBlame(_event: Electron.IpcMainInvokeEvent, projectPath: string, filePath: string) {
+    try {
+        const blame = await getFileBlame(projectPath, filePath)
+        return { success: true, blame }
+    } catch (err: any) {
+        log.error('Failed to get file blame:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleGetFileHistory(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    filePath: string,
+    limit?: number
+) {
+    try {
+        const history = await getFileHistory(projectPath, filePath, limit)
+        return { success: true, history }
+    } catch (err: any) {
+        log.error('Failed to get file history:', err)
+        return { success: false, error: err.message }
+    }
+}
+
 export async function handleGetWorkingDiff(
     _event: Electron.IpcMainInvokeEvent,
     projectPath: string,
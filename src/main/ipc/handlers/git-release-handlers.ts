@@ -0,0 +1,27 @@
+import log from 'electron-log'
+import type { DevScopeGitDraftReleaseInput } from '../../../shared/contracts/devscope-api'
+import { draftRelease, writeChangelogSection } from '../../inspectors/git'
+
+export async function handleDraftRelease(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    input?: DevScopeGitDraftReleaseInput
+) {
+    try {
+        const draft = await draftRelease(projectPath, input)
+        return { success: true, draft }
+    } catch (err: any) {
+        log.error('Failed to draft release:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleWriteChangelogSection(_event: Electron.IpcMainInvokeEvent, projectPath: string, section: string) {
+    try {
+        const result = await writeChangelogSection(projectPath, section)
+        return { success: true, ...result }
+    } catch (err: any) {
+        log.error('Failed to write changelog:', err)
+        return { success: false, error: err.message }
+    }
+}
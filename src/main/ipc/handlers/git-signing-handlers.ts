@@ -0,0 +1,27 @@
+import log from 'electron-log'
+import type { DevScopeGitSigningConfigUpdate } from '../../../shared/contracts/devscope-api'
+import { getGitSigningConfig, setGitSigningConfig } from '../../inspectors/git'
+
+export async function handleGetGitSigningConfig(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    try {
+        const config = await getGitSigningConfig(projectPath)
+        return { success: true, config }
+    } catch (err: any) {
+        log.error('Failed to read signing config:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleSetGitSigningConfig(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    update: DevScopeGitSigningConfigUpdate
+) {
+    try {
+        const config = await setGitSigningConfig(projectPath, update || {})
+        return { success: true, config }
+    } catch (err: any) {
+        log.error('Failed to update signing config:', err)
+        return { success: false, error: err.message }
+    }
+}
@@ -0,0 +1,52 @@
+import log from 'electron-log'
+import type { DevScopeGitUpdateSubmodulesInput } from '../../../shared/contracts/devscope-api'
+import { initSubmodules, listSubmodules, syncSubmodules, updateSubmodules } from '../../inspectors/git'
+
+export async function handleListSubmodules(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    try {
+        const result = await listSubmodules(projectPath)
+        return { success: true, ...result }
+    } catch (err: any) {
+        log.error('Failed to list submodules:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleInitSubmodules(_event: Electron.IpcMainInvokeEvent, projectPath: string, paths?: string[]) {
+    try {
+        await initSubmodules(projectPath, paths)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to init submodules:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleUpdateSubmodules(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    input?: DevScopeGitUpdateSubmodulesInput
+) {
+    try {
+        await updateSubmodules(projectPath, input)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to update submodules:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleSyncSubmodules(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    paths?: string[],
+    recursive?: boolean
+) {
+    try {
+        await syncSubmodules(projectPath, paths, recursive)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to sync submodules:', err)
+        return { success: false, error: err.message }
+    }
+}
@@ -2,10 +2,13 @@ import log from 'electron-log'
 import {
     GIT_CLONE_PROGRESS_CHANNEL,
     type DevScopeGitCloneInput,
-    type DevScopeGitCloneProgressEvent
+    type DevScopeGitCloneProgressEvent,
+    type DevScopeGitAddWorktreeInput,
+    type DevScopePatchHunkSelection
 } from '../../../shared/contracts/devscope-api'
 import { cloneGitRepository } from '../../services/git-clone-service'
 import {
+    addWorktree,
     applyStash,
     checkoutBranch,
     createBranch,
@@ -13,18 +16,26 @@ import {
     createStash,
     createTag,
     deleteBranch,
+    deleteRemoteTag,
     deleteTag,
     discardChanges,
+    discardPatch,
     dropStash,
     listBranches,
     listRemotes,
     listStashes,
     listTags,
+    listWorktrees,
+    pruneWorktrees,
+    pushTag,
     removeRemote,
+    removeWorktree,
     setGlobalGitUser,
     setRemoteUrl,
     stageFiles,
-    unstageFiles
+    stagePatch,
+    unstageFiles,
+    unstagePatch
 } from '../../inspectors/git'
 
 export async function handleStageFiles(
@@ -72,6 +83,51 @@ export async function handleDiscardChanges(
     }
 }
 
+export async function handleStagePatch(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    filePath: string,
+    selections: DevScopePatchHunkSelection[]
+) {
+    try {
+        await stagePatch(projectPath, filePath, selections)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to stage selected lines:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleUnstagePatch(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    filePath: string,
+    selections: DevScopePatchHunkSelection[]
+) {
+    try {
+        await unstagePatch(projectPath, filePath, selections)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to unstage selected lines:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleDiscardPatch(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    filePath: string,
+    selections: DevScopePatchHunkSelection[]
+) {
+    try {
+        await discardPatch(projectPath, filePath, selections)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to discard selected lines:', err)
+        return { success: false, error: err.message }
+    }
+}
+
 export async function handleSetGlobalGitUser(
     _event: Electron.IpcMainInvokeEvent,
     user: { name: string; email: string }
@@ -189,10 +245,11 @@ export async function handleCreateTag(
     _event: Electron.IpcMainInvokeEvent,
     projectPath: string,
     tagName: string,
-    target?: string
+    target?: string,
+    message?: string
 ) {
     try {
-        await createTag(projectPath, tagName, target)
+        await createTag(projectPath, tagName, target, message)
         return { success: true }
     } catch (err: any) {
         log.error('Failed to create tag:', err)
@@ -210,6 +267,36 @@ export async function handleDeleteTag(_event: Electron.IpcMainInvokeEvent, proje
     }
 }
 
+export async function handlePushTag(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    tagName: string,
+    remoteName?: string
+) {
+    try {
+        await pushTag(projectPath, tagName, remoteName)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to push tag:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleDeleteRemoteTag(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    tagName: string,
+    remoteName?: string
+) {
+    try {
+        await deleteRemoteTag(projectPath, tagName, remoteName)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to delete remote tag:', err)
+        return { success: false, error: err.message }
+    }
+}
+
 export async function handleListStashes(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
     try {
         const stashes = await listStashes(projectPath)
@@ -259,6 +346,55 @@ export async function handleDropStash(
     }
 }
 
+export async function handleListWorktrees(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    try {
+        const worktrees = await listWorktrees(projectPath)
+        return { success: true, worktrees }
+    } catch (err: any) {
+        log.error('Failed to list worktrees:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleAddWorktree(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    input: DevScopeGitAddWorktreeInput
+) {
+    try {
+        const worktree = await addWorktree(projectPath, input)
+        return { success: true, worktree }
+    } catch (err: any) {
+        log.error('Failed to add worktree:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handleRemoveWorktree(
+    _event: Electron.IpcMainInvokeEvent,
+    projectPath: string,
+    worktreePath: string,
+    force?: boolean
+) {
+    try {
+        await removeWorktree(projectPath, worktreePath, force)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to remove worktree:', err)
+        return { success: false, error: err.message }
+    }
+}
+
+export async function handlePruneWorktrees(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    try {
+        const pruned = await pruneWorktrees(projectPath)
+        return { success: true, pruned }
+    } catch (err: any) {
+        log.error('Failed to prune worktrees:', err)
+        return { success: false, error: err.message }
+    }
+}
+
 export async function handleCreateInitialCommit(_event: Electron.IpcMainInvokeEvent, projectPath: string, message: string) {
     try {
         const result = await createInitialCommit(projectPath, message)
@@ -2,6 +2,9 @@ export {
     handleStageFiles,
     handleUnstageFiles,
     handleDiscardChanges,
+    handleStagePatch,
+    handleUnstagePatch,
+    handleDiscardPatch,
     handleSetGlobalGitUser,
     handleListBranches,
     handleCreateBranch,
@@ -13,10 +16,16 @@ export {
     handleListTags,
     handleCreateTag,
     handleDeleteTag,
+    handlePushTag,
+    handleDeleteRemoteTag,
     handleListStashes,
     handleCreateStash,
     handleApplyStash,
     handleDropStash,
+    handleListWorktrees,
+    handleAddWorktree,
+    handleRemoveWorktree,
+    handlePruneWorktrees,
     handleCreateInitialCommit,
     handleCloneGitRepository
 } from './git-write-basic-handlers'
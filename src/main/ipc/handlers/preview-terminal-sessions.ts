@@ -0,0 +1,300 @@
+import type * as pty from 'node-pty'
+import { dirname, resolve } from 'path'
+import { stat } from 'fs/promises'
+import log from 'electron-log'
+import type { DevScopePreviewTerminalSessionSummary } from '../../../shared/contracts/devscope-api'
+import {
+    MAX_PERSISTED_SCROLLBACK_CHARS,
+    readPersistedPreviewTerminals,
+    writePersistedPreviewTerminals,
+    writePersistedPreviewTerminalsSync,
+    type PersistedPreviewTerminalSession,
+    type PreviewTerminalRunConfigurationRef
+} from '../../services/preview-terminal-store'
+import { getShellLabel } from '../../../shared/terminal-shells'
+import { isGenericShellTitle, normalizeProcessLabel } from './preview-terminal-text'
+
+export const PREVIEW_TERMINAL_EVENT_CHANNEL = 'devscope:previewTerminal:event'
+
+type PreviewTerminalEventPayload = {
+    sessionId: string
+    type: 'started' | 'output' | 'exit' | 'error' | 'title'
+    data?: string
+    message?: string
+    shell?: string
+    cwd?: string
+    title?: string
+    groupKey?: string
+    status?: 'running' | 'exited' | 'error'
+    exitCode?: number
+}
+
+export type PreviewTerminalSession = {
+    sessionId: string
+    key: string
+    senderId: number
+    proc: pty.IPty | null
+    webContents: Electron.WebContents
+    shell: string
+    preferredShell: string
+    cwd: string
+    groupKey: string
+    status: 'running' | 'exited' | 'error'
+    title: string
+    startedAt: number
+    lastActivityAt: number
+    exitCode: number | null
+    outputBuffer: string
+    lastKnownProcessLabel: string | null
+    oscTitleCarryover: string
+    /** Command the session was started with; typed input is never recorded. */
+    launchCommand: string | null
+    autoRelaunch: boolean
+    runConfiguration: PreviewTerminalRunConfigurationRef | null
+}
+
+export type StartPreviewTerminalOptions = {
+    sessionId: string
+    cwd: string
+    preferredShell: string
+    cols?: number
+    rows?: number
+    title?: string
+    initialOutput?: string
+    initialCommand?: string | null
+    launchCommand?: string | null
+    autoRelaunch?: boolean
+    runConfiguration?: PreviewTerminalRunConfigurationRef | null
+    /** Run this command non-interactively; the session exits when the command does. */
+    runCommand?: string
+    env?: Record<string, string>
+    onExit?: (exitCode: number) => void
+}
+
+export const previewTerminalSessions = new Map<string, PreviewTerminalSession>()
+export const MAX_OUTPUT_BUFFER_CHARS = 60_000
+const PERSIST_THROTTLE_MS = 1500
+
+// Sessions saved by a previous run. They are not bound to a window until relaunched.
+export const restoredPreviewTerminals = new Map<string, PersistedPreviewTerminalSession>()
+let restoredPreviewTerminalsLoad: Promise<void> | null = null
+let restoredPreviewTerminalsLoaded = false
+let persistTimer: NodeJS.Timeout | null = null
+
+export function normalizeSessionId(raw: unknown): string {
+    const value = String(raw || '').trim()
+    return value.length > 0 ? value : ''
+}
+
+export function getSessionKey(senderId: number, sessionId: string): string {
+    return `${senderId}:${sessionId}`
+}
+
+export function normalizeGroupKey(cwd: string): string {
+    const normalized = resolve(cwd).replace(/\\/g, '/')
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized
+}
+
+export function buildSessionTitle(
+    shellId: string,
+    groupKey: string,
+    senderId: number,
+    requestedTitle?: string
+): string {
+    const normalizedRequested = String(requestedTitle || '').trim()
+    if (normalizedRequested) return normalizedRequested
+
+    const ordinal = Array.from(previewTerminalSessions.values()).filter((session) => (
+        session.senderId === senderId && session.groupKey === groupKey
+    )).length + 1
+
+    return `${getShellLabel(shellId)} ${ordinal}`
+}
+
+export function appendOutputBuffer(session: PreviewTerminalSession, chunk: string): void {
+    session.outputBuffer = `${session.outputBuffer}${chunk}`.slice(-MAX_OUTPUT_BUFFER_CHARS)
+}
+
+export function serializeSession(session: PreviewTerminalSession): DevScopePreviewTerminalSessionSummary {
+    return {
+        sessionId: session.sessionId,
+        title: session.title,
+        shell: session.shell,
+        shellId: session.preferredShell,
+        cwd: session.cwd,
+        groupKey: session.groupKey,
+        status: session.status,
+        startedAt: session.startedAt,
+        lastActivityAt: session.lastActivityAt,
+        exitCode: session.exitCode,
+        recentOutput: session.outputBuffer,
+        launchCommand: session.launchCommand,
+        autoRelaunch: session.autoRelaunch,
+        runConfigurationId: session.runConfiguration?.configId || null
+    }
+}
+
+export function serializeRestoredSession(record: PersistedPreviewTerminalSession): DevScopePreviewTerminalSessionSummary {
+    return {
+        sessionId: record.sessionId,
+        title: record.title,
+        shell: record.shell,
+        shellId: record.preferredShell,
+        cwd: record.cwd,
+        groupKey: record.groupKey,
+        status: 'exited',
+        startedAt: record.startedAt,
+        lastActivityAt: record.lastActivityAt,
+        exitCode: record.exitCode,
+        recentOutput: record.scrollback,
+        launchCommand: record.launchCommand,
+        autoRelaunch: record.autoRelaunch,
+        runConfigurationId: record.runConfiguration?.configId || null,
+        restored: true
+    }
+}
+
+export function toPersistedSession(session: PreviewTerminalSession): PersistedPreviewTerminalSession {
+    return {
+        sessionId: session.sessionId,
+        title: session.title,
+        shell: session.shell,
+        preferredShell: session.preferredShell,
+        cwd: session.cwd,
+        groupKey: session.groupKey,
+        startedAt: session.startedAt,
+        lastActivityAt: session.lastActivityAt,
+        exitCode: session.exitCode,
+        scrollback: session.outputBuffer.slice(-MAX_PERSISTED_SCROLLBACK_CHARS),
+        launchCommand: session.launchCommand,
+        autoRelaunch: session.autoRelaunch,
+        runConfiguration: session.runConfiguration
+    }
+}
+
+export function ensureRestoredPreviewTerminalsLoaded(): Promise<void> {
+    if (!restoredPreviewTerminalsLoad) {
+        restoredPreviewTerminalsLoad = readPersistedPreviewTerminals().then((records) => {
+            const liveSessionIds = new Set(Array.from(previewTerminalSessions.values()).map((session) => session.sessionId))
+            for (const record of records) {
+                if (!liveSessionIds.has(record.sessionId)) {
+                    restoredPreviewTerminals.set(record.sessionId, record)
+                }
+            }
+            restoredPreviewTerminalsLoaded = true
+        })
+    }
+    return restoredPreviewTerminalsLoad
+}
+
+function buildPersistSnapshot(): PersistedPreviewTerminalSession[] {
+    return [
+        ...Array.from(previewTerminalSessions.values()).map(toPersistedSession),
+        ...restoredPreviewTerminals.values()
+    ]
+}
+
+export function schedulePreviewTerminalPersist(): void {
+    // Throttled rather than debounced so a chatty dev server still gets its scrollback saved.
+    if (persistTimer || !restoredPreviewTerminalsLoaded) return
+    persistTimer = setTimeout(() => {
+        persistTimer = null
+        void writePersistedPreviewTerminals(buildPersistSnapshot()).catch((err) => {
+            log.warn('[PreviewTerminals] Failed to persist sessions', err)
+        })
+    }, PERSIST_THROTTLE_MS)
+    persistTimer.unref?.()
+}
+
+export function flushPreviewTerminalSessions(): void {
+    if (persistTimer) {
+        clearTimeout(persistTimer)
+        persistTimer = null
+    }
+    if (!restoredPreviewTerminalsLoaded) return
+    writePersistedPreviewTerminalsSync(buildPersistSnapshot())
+}
+
+export function listSessionsForSender(senderId: number, groupKey?: string): PreviewTerminalSession[] {
+    return Array.from(previewTerminalSessions.values())
+        .filter((session) => session.senderId === senderId && (!groupKey || session.groupKey === groupKey))
+        .sort((a, b) => {
+            if (a.status === 'running' && b.status !== 'running') return -1
+            if (a.status !== 'running' && b.status === 'running') return 1
+            return b.lastActivityAt - a.lastActivityAt
+        })
+}
+
+export function emitTerminalEvent(session: PreviewTerminalSession, payload: PreviewTerminalEventPayload): void {
+    if (session.webContents.isDestroyed()) return
+    session.webContents.send(PREVIEW_TERMINAL_EVENT_CHANNEL, payload)
+}
+
+function emitSessionTitle(session: PreviewTerminalSession): void {
+    emitTerminalEvent(session, {
+        sessionId: session.sessionId,
+        type: 'title',
+        title: session.title,
+        cwd: session.cwd,
+        shell: session.shell,
+        groupKey: session.groupKey,
+        status: session.status
+    })
+}
+
+export function updateSessionTitle(session: PreviewTerminalSession, nextTitle: string): boolean {
+    const normalized = String(nextTitle || '').trim()
+    if (!normalized || normalized === session.title) return false
+    session.title = normalized
+    session.lastActivityAt = Date.now()
+    emitSessionTitle(session)
+    schedulePreviewTerminalPersist()
+    return true
+}
+
+export function syncSessionProcessLabel(session: PreviewTerminalSession): void {
+    const nextProcessLabel = normalizeProcessLabel(session.proc?.process)
+    if (!nextProcessLabel) return
+    if (nextProcessLabel === session.lastKnownProcessLabel) return
+
+    const shouldApply = !session.lastKnownProcessLabel
+        ? isGenericShellTitle(session.title)
+        : session.title === session.lastKnownProcessLabel || isGenericShellTitle(session.title)
+
+    session.lastKnownProcessLabel = nextProcessLabel
+    if (shouldApply) {
+        updateSessionTitle(session, nextProcessLabel)
+    }
+}
+
+export async function resolveTerminalCwd(targetPathInput?: string): Promise<string> {
+    const targetPath = String(targetPathInput || '').trim()
+    if (!targetPath) return process.cwd()
+
+    const resolved = resolve(targetPath)
+    try {
+        const targetStats = await stat(resolved)
+        if (targetStats.isDirectory()) return resolved
+        return dirname(resolved)
+    } catch {
+        return process.cwd()
+    }
+}
+
+export function destroyTerminalProcess(session: PreviewTerminalSession): boolean {
+    if (!session.proc) return false
+    try {
+        session.proc.kill()
+        session.proc = null
+        return true
+    } catch {
+        return false
+    }
+}
+
+export function removeSession(sessionKey: string): void {
+    const existing = previewTerminalSessions.get(sessionKey)
+    if (!existing) return
+    destroyTerminalProcess(existing)
+    previewTerminalSessions.delete(sessionKey)
+}
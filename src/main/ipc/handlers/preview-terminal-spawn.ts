@@ -0,0 +1,192 @@
+import * as pty from 'node-pty'
+import { getAugmentedEnv } from '../../inspectors/safe-exec'
+import { resolveShellCommandLaunch, resolveShellLaunch } from '../../inspectors/terminal/shells'
+import { extractOscTitles } from './preview-terminal-text'
+import {
+    MAX_OUTPUT_BUFFER_CHARS,
+    appendOutputBuffer,
+    buildSessionTitle,
+    emitTerminalEvent,
+    getSessionKey,
+    normalizeGroupKey,
+    previewTerminalSessions,
+    removeSession,
+    resolveTerminalCwd,
+    restoredPreviewTerminals,
+    schedulePreviewTerminalPersist,
+    syncSessionProcessLabel,
+    toPersistedSession,
+    updateSessionTitle,
+    type PreviewTerminalSession,
+    type StartPreviewTerminalOptions
+} from './preview-terminal-sessions'
+
+const RELAUNCH_SEPARATOR = '\r\n\x1b[2m--- relaunched ---\x1b[0m\r\n'
+
+export function startPreviewTerminalSession(
+    sender: Electron.WebContents,
+    options: StartPreviewTerminalOptions
+): PreviewTerminalSession {
+    const { sessionId, cwd, preferredShell } = options
+    const senderId = sender.id
+    const sessionKey = getSessionKey(senderId, sessionId)
+    removeSession(sessionKey)
+    restoredPreviewTerminals.delete(sessionId)
+
+    const groupKey = normalizeGroupKey(cwd)
+    const launch = options.runCommand
+        ? resolveShellCommandLaunch(preferredShell, options.runCommand)
+        : resolveShellLaunch(preferredShell)
+    const shell = launch.command
+    const cols = Math.max(40, Math.floor(Number(options.cols) || 100))
+    const rows = Math.max(10, Math.floor(Number(options.rows) || 28))
+
+    const terminalOptions: pty.IPtyForkOptions & {
+        useConpty?: boolean
+        conptyInheritCursor?: boolean
+    } = {
+        name: 'xterm-256color',
+        cwd,
+        cols,
+        rows,
+        env: {
+            ...getAugmentedEnv(),
+            ...options.env,
+            TERM: 'xterm-256color',
+            COLORTERM: 'truecolor',
+            FORCE_COLOR: '1'
+        } as any
+    }
+    if (process.platform === 'win32') {
+        terminalOptions.useConpty = true
+        terminalOptions.conptyInheritCursor = true
+    }
+
+    const startedAt = Date.now()
+    const session: PreviewTerminalSession = {
+        sessionId,
+        key: sessionKey,
+        senderId,
+        proc: null,
+        webContents: sender,
+        shell,
+        preferredShell: launch.id,
+        cwd,
+        groupKey,
+        status: 'running',
+        title: buildSessionTitle(launch.id, groupKey, senderId, options.title),
+        startedAt,
+        lastActivityAt: startedAt,
+        exitCode: null,
+        outputBuffer: (options.initialOutput || '').slice(-MAX_OUTPUT_BUFFER_CHARS),
+        lastKnownProcessLabel: null,
+        oscTitleCarryover: '',
+        launchCommand: options.runCommand || options.initialCommand || options.launchCommand || null,
+        autoRelaunch: options.autoRelaunch === true,
+        runConfiguration: options.runConfiguration || null
+    }
+
+    const terminalProc = pty.spawn(shell, launch.args, terminalOptions)
+    session.proc = terminalProc
+    previewTerminalSessions.set(sessionKey, session)
+
+    terminalProc.onData((data: string) => {
+        const chunk = String(data || '')
+        session.lastActivityAt = Date.now()
+        syncSessionProcessLabel(session)
+        const { titles, nextCarryover } = extractOscTitles(chunk, session.oscTitleCarryover)
+        session.oscTitleCarryover = nextCarryover
+        const nextTitle = titles.at(-1)
+        if (nextTitle) {
+            updateSessionTitle(session, nextTitle)
+        }
+        appendOutputBuffer(session, chunk)
+        schedulePreviewTerminalPersist()
+        emitTerminalEvent(session, {
+            sessionId,
+            type: 'output',
+            data: chunk,
+            title: session.title,
+            cwd: session.cwd,
+            shell: session.shell,
+            groupKey: session.groupKey,
+            status: session.status
+        })
+    })
+
+    emitTerminalEvent(session, {
+        sessionId,
+        type: 'started',
+        shell,
+        cwd,
+        title: session.title,
+        groupKey,
+        status: session.status
+    })
+
+    terminalProc.onExit((result) => {
+        session.proc = null
+        session.status = result?.exitCode === 0 ? 'exited' : 'error'
+        session.exitCode = Number(result?.exitCode ?? 0)
+        session.lastActivityAt = Date.now()
+        schedulePreviewTerminalPersist()
+        emitTerminalEvent(session, {
+            sessionId,
+            type: 'exit',
+            exitCode: session.exitCode ?? 0,
+            title: session.title,
+            cwd: session.cwd,
+            shell: session.shell,
+            groupKey: session.groupKey,
+            status: session.status
+        })
+        options.onExit?.(session.exitCode ?? 0)
+    })
+
+    if (options.initialCommand) {
+        terminalProc.write(`${options.initialCommand}\r`)
+    }
+    schedulePreviewTerminalPersist()
+    return session
+}
+
+export async function relaunchPreviewTerminal(
+    sender: Electron.WebContents,
+    sessionId: string,
+    options?: { cols?: number; rows?: number; rerunCommand?: boolean }
+): Promise<PreviewTerminalSession | null> {
+    const liveSession = previewTerminalSessions.get(getSessionKey(sender.id, sessionId))
+    if (liveSession?.proc) return liveSession
+
+    const source = liveSession ? toPersistedSession(liveSession) : restoredPreviewTerminals.get(sessionId)
+    if (!source) return null
+
+    const cwd = await resolveTerminalCwd(source.cwd)
+    const session = startPreviewTerminalSession(sender, {
+        sessionId,
+        cwd,
+        preferredShell: source.preferredShell,
+        cols: options?.cols,
+        rows: options?.rows,
+        title: source.title,
+        initialOutput: source.scrollback ? `${source.scrollback}${RELAUNCH_SEPARATOR}` : '',
+        initialCommand: options?.rerunCommand ? source.launchCommand : null,
+        launchCommand: source.launchCommand,
+        autoRelaunch: source.autoRelaunch,
+        runConfiguration: source.runConfiguration
+    })
+    if (source.scrollback) {
+        // Attached views keep the old scrollback on screen, so they only need the separator.
+        emitTerminalEvent(session, {
+            sessionId,
+            type: 'output',
+            data: RELAUNCH_SEPARATOR,
+            title: session.title,
+            cwd: session.cwd,
+            shell: session.shell,
+            groupKey: session.groupKey,
+            status: session.status
+        })
+    }
+    return session
+}
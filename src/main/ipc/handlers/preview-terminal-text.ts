@@ -0,0 +1,85 @@
+export function normalizeProcessLabel(value: string | null | undefined): string | null {
+    const normalized = String(value || '')
+        .replace(/\.exe$/i, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+    if (!normalized) return null
+    if (/^(cmd|powershell|pwsh|bash|zsh|fish|sh|wsl|wslhost)$/i.test(normalized)) return null
+    return normalized
+}
+
+export function isGenericShellTitle(title: string): boolean {
+    const normalized = String(title || '').trim()
+    return /^(powershell( 7)?|cmd|bash|zsh|fish|sh|git bash|wsl(: .+?)?)( \d+)?$/i.test(normalized)
+}
+
+function readOscTerminator(source: string, searchStart: number): { end: number; width: number } | null {
+    const bellIndex = source.indexOf('\x07', searchStart)
+    const stIndex = source.indexOf('\x1b\\', searchStart)
+
+    if (bellIndex === -1 && stIndex === -1) return null
+    if (bellIndex === -1) return { end: stIndex, width: 2 }
+    if (stIndex === -1) return { end: bellIndex, width: 1 }
+    return bellIndex < stIndex
+        ? { end: bellIndex, width: 1 }
+        : { end: stIndex, width: 2 }
+}
+
+export function extractOscTitles(
+    chunk: string,
+    carryover: string
+): { titles: string[]; nextCarryover: string } {
+    const source = `${carryover}${chunk}`
+    const titles: string[] = []
+    let cursor = 0
+    let nextCarryover = ''
+
+    while (cursor < source.length) {
+        const start = source.indexOf('\x1b]', cursor)
+        if (start === -1) break
+
+        const terminator = readOscTerminator(source, start + 2)
+        if (!terminator) {
+            nextCarryover = source.slice(start).slice(-1024)
+            break
+        }
+
+        const payload = source.slice(start + 2, terminator.end)
+        const separatorIndex = payload.indexOf(';')
+        if (separatorIndex > 0) {
+            const code = payload.slice(0, separatorIndex).trim()
+            if (code === '0' || code === '2') {
+                const title = payload.slice(separatorIndex + 1).trim()
+                if (title) titles.push(title)
+            }
+        }
+
+        cursor = terminator.end + terminator.width
+    }
+
+    if (!nextCarryover) {
+        if (source.endsWith('\x1b]')) {
+            nextCarryover = '\x1b]'
+        } else if (source.endsWith('\x1b')) {
+            nextCarryover = '\x1b'
+        }
+    }
+
+    return { titles, nextCarryover }
+}
+
+export function summarizeCommandSubmission(raw: string): string | null {
+    if (!/[\r\n]/.test(raw)) return null
+
+    const candidate = raw
+        .replace(/\r/g, '\n')
+        .split('\n')
+        .map((part) => part.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '').trim())
+        .filter(Boolean)
+        .at(-1)
+
+    if (!candidate) return null
+    if (candidate.length <= 1) return null
+
+    return candidate.slice(0, 56)
+}
@@ -5,20 +5,30 @@ import { promisify } from 'util'
 import log from 'electron-log'
 import si from 'systeminformation'
 import {
-    detectFrameworksFromPackageJson,
     detectProjectTypeFromMarkers,
-    PROJECT_MARKERS,
+    getProjectMarkers,
     type FrameworkDefinition
 } from '../project-detection'
+import { detectProjectFrameworks } from '../../services/project-framework-detection'
 import { resolveProjectIconPath } from '../../services/project-icon-resolver'
 import {
-    detectDependencyInstallManager,
-    detectNodeDependencyInstallStatus,
-    pathExists,
+    findParentWorkspace,
+    readProjectWorkspace,
+    toWorkspaceRootSummary
+} from '../../services/project-workspaces'
+import {
     runInstallProcess,
-    type DependencyInstallStatus,
+    type ProjectDependencyInspection,
     type ProjectPackageJson
 } from '../../services/project-dependencies'
+import { inspectProjectDependencies, resolveDependencyInstallPlan } from '../../services/project-dependency-ecosystems'
+import { auditIndexedProjectDependencies, auditProjectDependencies } from '../../services/dependency-audit-service'
+import {
+    DEPENDENCY_INSTALL_OUTPUT_CHANNEL,
+    type DevScopeDependencyAuditInput,
+    type DevScopeDependencyInstallOutputEvent,
+    type DevScopeIndexedDependencyAuditInput
+} from '../../../shared/contracts/devscope-api'
 
 const execAsync = promisify(exec)
 
@@ -195,7 +205,7 @@ export async function handleGetProjectDetails(_event: Electron.IpcMainInvokeEven
                 })
             : Promise.resolve<any>(null)
 
-        for (const marker of PROJECT_MARKERS) {
+        for (const marker of getProjectMarkers()) {
             if (marker.startsWith('*')) {
                 const ext = marker.slice(1)
                 if (entries.some((entry) => entry.endsWith(ext))) {
@@ -208,24 +218,30 @@ export async function handleGetProjectDetails(_event: Electron.IpcMainInvokeEven
 
         const projectType = detectProjectTypeFromMarkers(markers)
         const packageJson = await packageJsonPromise
-        const frameworks: FrameworkDefinition[] = packageJson
-            ? detectFrameworksFromPackageJson(packageJson, entries)
-            : []
-        const dependencyInstallStatusPromise = packageJson
-            ? detectNodeDependencyInstallStatus(projectPath, packageJson).catch((err) => {
-                log.warn('Could not inspect dependency install status', err)
-                return null
-            })
-            : Promise.resolve<DependencyInstallStatus | null>(null)
+        const frameworks: FrameworkDefinition[] = await detectProjectFrameworks(projectPath, entries, { packageJson })
+        const dependencyInspectionPromise = inspectProjectDependencies(projectPath, entries, packageJson).catch((err) => {
+            log.warn('Could not inspect dependency install status', err)
+            return null as ProjectDependencyInspection | null
+        })
         const projectIconPathPromise = resolveProjectIconPath(projectPath, entries, packageJson).catch((err) => {
             log.warn('Could not resolve project icon', err)
             return null
         })
-        const [readme, stats, dependencyInstallStatus, projectIconPath] = await Promise.all([
+        const workspacePromise = readProjectWorkspace(projectPath, entries, packageJson).catch((err) => {
+            log.warn('Could not read workspace members', err)
+            return null
+        })
+        const parentWorkspacePromise = findParentWorkspace(projectPath).catch((err) => {
+            log.warn('Could not resolve parent workspace', err)
+            return null
+        })
+        const [readme, stats, dependencyInspection, projectIconPath, workspace, parentWorkspace] = await Promise.all([
             readmePromise,
             statsPromise,
-            dependencyInstallStatusPromise,
-            projectIconPathPromise
+            dependencyInspectionPromise,
+            projectIconPathPromise,
+            workspacePromise,
+            parentWorkspacePromise
         ])
         const folderName = projectPath.split(/[\\/]/).pop() || 'Unknown'
 
@@ -246,9 +262,12 @@ export async function handleGetProjectDetails(_event: Electron.IpcMainInvokeEven
                 readme,
                 lastModified: stats.mtimeMs,
                 scripts: packageJson?.scripts || null,
-                dependencies: packageJson?.dependencies || null,
-                devDependencies: packageJson?.devDependencies || null,
-                dependencyInstallStatus
+                dependencies: packageJson?.dependencies || dependencyInspection?.dependencies || null,
+                devDependencies: packageJson?.devDependencies || dependencyInspection?.devDependencies || null,
+                dependencyInstallStatus: dependencyInspection?.status || null,
+                workspaceKinds: workspace?.kinds || [],
+                workspacePackages: workspace?.packages || [],
+                parentWorkspace: parentWorkspace ? toWorkspaceRootSummary(parentWorkspace) : null
             }
         }
     } catch (err: any) {
@@ -258,62 +277,74 @@ export async function handleGetProjectDetails(_event: Electron.IpcMainInvokeEven
 }
 
 export async function handleInstallProjectDependencies(
-    _event: Electron.IpcMainInvokeEvent,
+    event: Electron.IpcMainInvokeEvent,
     projectPath: string,
-    options?: { onlyMissing?: boolean }
+    options?: { onlyMissing?: boolean; installId?: string }
 ) {
     log.info('IPC: installProjectDependencies', { projectPath, onlyMissing: Boolean(options?.onlyMissing) })
-    const mode = options?.onlyMissing ? 'missing' : 'all'
+    const installId = String(options?.installId || '').trim()
+    const sendOutput = (chunk: string, stream: DevScopeDependencyInstallOutputEvent['stream']) => {
+        if (event.sender.isDestroyed()) return
+        const payload: DevScopeDependencyInstallOutputEvent = { installId, projectPath, stream, chunk }
+        event.sender.send(DEPENDENCY_INSTALL_OUTPUT_CHANNEL, payload)
+    }
 
     try {
         await access(projectPath)
-        const packageJsonPath = join(projectPath, 'package.json')
-        if (!(await pathExists(packageJsonPath))) {
-            return { success: false, error: 'No package.json found in this project.' }
-        }
+        const entries = await readdir(projectPath)
 
         let packageJson: ProjectPackageJson | null = null
-        try {
-            const packageContent = await readFile(packageJsonPath, 'utf-8')
-            packageJson = JSON.parse(packageContent) as ProjectPackageJson
-        } catch (error: any) {
-            return { success: false, error: error?.message || 'Failed to read package.json.' }
+        if (entries.includes('package.json')) {
+            try {
+                const packageContent = await readFile(join(projectPath, 'package.json'), 'utf-8')
+                packageJson = JSON.parse(packageContent) as ProjectPackageJson
+            } catch (error: any) {
+                return { success: false, error: error?.message || 'Failed to read package.json.' }
+            }
+        }
+
+        const plan = await resolveDependencyInstallPlan(projectPath, entries, packageJson)
+        if (!plan) {
+            return { success: false, error: 'No supported dependency manifest found in this project.' }
         }
 
-        const installStatusBefore = await detectNodeDependencyInstallStatus(projectPath, packageJson)
-        if (options?.onlyMissing && installStatusBefore.missingPackages <= 0) {
+        const inspectionBefore = await inspectProjectDependencies(projectPath, entries, packageJson)
+        if (options?.onlyMissing && inspectionBefore?.status.installed === true) {
             return {
                 success: true,
-                manager: await detectDependencyInstallManager(projectPath, packageJson),
+                manager: plan.manager,
+                ecosystem: plan.ecosystem,
                 durationMs: 0,
                 message: 'All dependencies are already installed.',
-                installStatus: installStatusBefore
+                installStatus: inspectionBefore.status
             }
         }
-        const manager = await detectDependencyInstallManager(projectPath, packageJson)
+
         const startedAt = Date.now()
-        const installRun = await runInstallProcess(projectPath, manager)
-        const installStatusAfter = await detectNodeDependencyInstallStatus(projectPath, packageJson)
+        const installRun = await runInstallProcess(projectPath, plan, sendOutput)
+        const inspectionAfter = await inspectProjectDependencies(projectPath, await readdir(projectPath), packageJson)
 
         if (!installRun.success) {
             return {
                 success: false,
                 error: installRun.error || 'Dependency installation failed.',
-                manager,
+                manager: plan.manager,
+                ecosystem: plan.ecosystem,
                 durationMs: Date.now() - startedAt,
                 output: installRun.output.slice(-8000),
-                installStatus: installStatusAfter
+                installStatus: inspectionAfter?.status || null
             }
         }
 
         const label = options?.onlyMissing ? 'missing dependencies' : 'dependencies'
         return {
             success: true,
-            manager,
+            manager: plan.manager,
+            ecosystem: plan.ecosystem,
             durationMs: Date.now() - startedAt,
-            message: `Installed ${label} using ${manager}.`,
+            message: `Installed ${label} using ${plan.manager}.`,
             output: installRun.output.slice(-4000),
-            installStatus: installStatusAfter
+            installStatus: inspectionAfter?.status || null
         }
     } catch (err: any) {
         log.error('Failed to install project dependencies:', err)
@@ -321,6 +352,40 @@ export async function handleInstallProjectDependencies(
     }
 }
 
+export async function handleAuditProjectDependencies(
+    _event: Electron.IpcMainInvokeEvent,
+    input: DevScopeDependencyAuditInput
+) {
+    log.info('IPC: auditProjectDependencies', input?.projectPath)
+    try {
+        const report = await auditProjectDependencies(input.projectPath, {
+            advisoryDatabasePath: input.advisoryDatabasePath
+        })
+        return { success: true, report }
+    } catch (err: any) {
+        log.error('Failed to audit project dependencies:', err)
+        return { success: false, error: err?.message || 'Failed to audit dependencies.' }
+    }
+}
+
+export async function handleAuditIndexedDependencies(
+    _event: Electron.IpcMainInvokeEvent,
+    input: DevScopeIndexedDependencyAuditInput
+) {
+    log.info('IPC: auditIndexedDependencies', { roots: input?.roots, forceRefresh: input?.forceRefresh })
+    try {
+        const result = await auditIndexedProjectDependencies({
+            roots: Array.isArray(input?.roots) ? input.roots : [],
+            advisoryDatabasePath: input?.advisoryDatabasePath,
+            forceRefresh: input?.forceRefresh
+        })
+        return { success: true, ...result }
+    } catch (err: any) {
+        log.error('Failed to audit indexed project dependencies:', err)
+        return { success: false, error: err?.message || 'Failed to audit dependencies.' }
+    }
+}
+
 export async function handleGetProjectSessions(_event: Electron.IpcMainInvokeEvent, _projectPath: string) {
     return { success: true, sessions: [] }
 }
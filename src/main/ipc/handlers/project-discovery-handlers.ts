@@ -2,10 +2,19 @@ import { clipboard, BrowserWindow, dialog, shell } from 'electron'
 import { spawn } from 'child_process'
 import { stat } from 'fs/promises'
 import { homedir } from 'os'
+import { dirname } from 'path'
 import log from 'electron-log'
 import { devscopeCore } from '../../core/devscope-core'
 import { getInstalledIdes, launchProjectInIde } from '../../inspectors/system/windows-ides'
-import type { ScanProjectsResult } from '../../services/project-discovery-service'
+import { refreshFileIndexProjectMetadata, subscribeFileIndexChanges } from '../../services/file-index-service'
+import {
+    clearScanProjectsCache,
+    invalidateScanProjectsCache,
+    type ScanProjectsResult
+} from '../../services/project-discovery-service'
+import { FILE_INDEX_CHANGED_CHANNEL, type DevScopeCustomProjectType } from '../../../shared/contracts/devscope-api'
+import { sanitizeCustomProjectTypes } from '../../../shared/custom-project-types'
+import { hasSyncedCustomProjectTypes, setCustomProjectTypes, toCustomProjectTypeDefinitions } from '../project-detection'
 
 export async function handleSelectFolder(event: Electron.IpcMainInvokeEvent) {
     log.info('IPC: selectFolder')
@@ -84,6 +93,30 @@ export async function handleScanProjects(
     return result
 }
 
+export async function handleSetCustomProjectTypes(
+    _event: Electron.IpcMainInvokeEvent,
+    types: DevScopeCustomProjectType[]
+) {
+    log.info('IPC: setCustomProjectTypes', { count: Array.isArray(types) ? types.length : 0 })
+    try {
+        const isInitialSync = !hasSyncedCustomProjectTypes()
+        if (setCustomProjectTypes(toCustomProjectTypeDefinitions(sanitizeCustomProjectTypes(types)))) {
+            clearScanProjectsCache()
+            // The persisted index was detected with the types synced last session, so only
+            // later edits leave indexed folders with stale project types and frameworks.
+            if (!isInitialSync) {
+                void refreshFileIndexProjectMetadata().catch((err) => {
+                    log.warn('Failed to refresh indexed project metadata:', err)
+                })
+            }
+        }
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to update custom project types:', err)
+        return { success: false, error: err?.message || 'Failed to update custom project types.' }
+    }
+}
+
 export async function handleIndexAllFolders(
     _event: Electron.IpcMainInvokeEvent,
     folders: string[],
@@ -118,6 +151,40 @@ export async function handleSearchIndexedPaths(
     return { success: true, ...result }
 }
 
+export async function handleSearchIndexedContent(
+    _event: Electron.IpcMainInvokeEvent,
+    input: {
+        term: string
+        scopePath?: string
+        roots?: string[]
+        extensionFilters?: string[]
+        limit?: number
+        maxMatchesPerFile?: number
+    }
+) {
+    try {
+        const result = await devscopeCore.projects.searchIndexedContent(input)
+        return { success: true, ...result }
+    } catch (err: any) {
+        log.error('Failed to search indexed content:', err)
+        return { success: false, error: err?.message || 'Failed to search file contents.' }
+    }
+}
+
+export function registerFileIndexChangeForwarding(): () => void {
+    return subscribeFileIndexChanges((payload) => {
+        for (const changedPath of payload.changedPaths) {
+            invalidateScanProjectsCache(dirname(changedPath))
+            invalidateScanProjectsCache(changedPath, { includeParents: false })
+        }
+
+        for (const targetWindow of BrowserWindow.getAllWindows()) {
+            if (targetWindow.isDestroyed()) continue
+            targetWindow.webContents.send(FILE_INDEX_CHANGED_CHANNEL, payload)
+        }
+    })
+}
+
 export async function handleOpenInExplorer(_event: Electron.IpcMainInvokeEvent, path: string) {
     log.info('IPC: openInExplorer', path)
 
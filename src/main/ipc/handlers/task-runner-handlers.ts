@@ -0,0 +1,136 @@
+import log from 'electron-log'
+import type { DevScopeRunConfiguration } from '../../../shared/contracts/devscope-api'
+import {
+    readRunConfigurations,
+    sanitizeRunConfiguration,
+    writeRunConfigurations
+} from '../../services/run-configuration-store'
+import {
+    forgetRunConfiguration,
+    launchRunConfiguration,
+    listRunStatuses,
+    resolveDependencyOrder,
+    stopRunConfiguration
+} from './task-runner'
+
+function normalizeProjectPath(raw: unknown): string {
+    return String(raw || '').trim()
+}
+
+export async function handleListRunConfigurations(_event: Electron.IpcMainInvokeEvent, projectPath: string) {
+    const targetPath = normalizeProjectPath(projectPath)
+    if (!targetPath) return { success: false, error: 'Project path is required.' }
+
+    try {
+        return {
+            success: true,
+            configurations: await readRunConfigurations(targetPath),
+            statuses: listRunStatuses(targetPath)
+        }
+    } catch (err: any) {
+        log.error('Failed to list run configurations:', err)
+        return { success: false, error: err?.message || 'Failed to load run configurations.' }
+    }
+}
+
+export async function handleSaveRunConfiguration(
+    _event: Electron.IpcMainInvokeEvent,
+    input: { projectPath: string; configuration: DevScopeRunConfiguration }
+) {
+    log.info('IPC: saveRunConfiguration', { projectPath: input?.projectPath, configId: input?.configuration?.id })
+    const targetPath = normalizeProjectPath(input?.projectPath)
+    if (!targetPath) return { success: false, error: 'Project path is required.' }
+
+    const configuration = sanitizeRunConfiguration(input?.configuration)
+    if (!configuration) {
+        return { success: false, error: 'A run configuration needs a name and a command (or at least one compound member).' }
+    }
+
+    try {
+        const existing = await readRunConfigurations(targetPath)
+        const next = existing.some((entry) => entry.id === configuration.id)
+            ? existing.map((entry) => (entry.id === configuration.id ? configuration : entry))
+            : [...existing, configuration]
+
+        const byId = new Map(next.map((entry) => [entry.id, entry]))
+        const unknownMember = configuration.compound?.find((memberId) => !byId.has(memberId))
+        if (unknownMember) {
+            return { success: false, error: `Unknown compound member "${unknownMember}".` }
+        }
+        resolveDependencyOrder(configuration.id, byId)
+
+        await writeRunConfigurations(targetPath, next)
+        return { success: true, configuration }
+    } catch (err: any) {
+        log.error('Failed to save run configuration:', err)
+        return { success: false, error: err?.message || 'Failed to save run configuration.' }
+    }
+}
+
+export async function handleDeleteRunConfiguration(
+    _event: Electron.IpcMainInvokeEvent,
+    input: { projectPath: string; configId: string }
+) {
+    log.info('IPC: deleteRunConfiguration', input)
+    const targetPath = normalizeProjectPath(input?.projectPath)
+    const configId = String(input?.configId || '').trim()
+    if (!targetPath || !configId) return { success: false, error: 'Project path and configuration are required.' }
+
+    try {
+        await stopRunConfiguration(targetPath, configId)
+        forgetRunConfiguration(targetPath, configId)
+        const remaining = (await readRunConfigurations(targetPath))
+            .filter((entry) => entry.id !== configId)
+            .map((entry) => ({
+                ...entry,
+                dependsOn: (entry.dependsOn || []).filter((id) => id !== configId),
+                compound: (entry.compound || []).filter((id) => id !== configId)
+            }))
+            .filter((entry) => entry.command || entry.compound.length > 0)
+        await writeRunConfigurations(targetPath, remaining)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to delete run configuration:', err)
+        return { success: false, error: err?.message || 'Failed to delete run configuration.' }
+    }
+}
+
+export async function handleLaunchRunConfiguration(
+    event: Electron.IpcMainInvokeEvent,
+    input: { projectPath: string; configId: string; shell?: string }
+) {
+    log.info('IPC: launchRunConfiguration', input)
+    const targetPath = normalizeProjectPath(input?.projectPath)
+    const configId = String(input?.configId || '').trim()
+    if (!targetPath || !configId) return { success: false, error: 'Project path and configuration are required.' }
+
+    try {
+        await launchRunConfiguration(event.sender, targetPath, configId, String(input?.shell || '').trim())
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to launch run configuration:', err)
+        return { success: false, error: err?.message || 'Failed to launch run configuration.' }
+    }
+}
+
+export async function handleStopRunConfiguration(
+    _event: Electron.IpcMainInvokeEvent,
+    input: { projectPath: string; configId: string }
+) {
+    log.info('IPC: stopRunConfiguration', input)
+    const targetPath = normalizeProjectPath(input?.projectPath)
+    const configId = String(input?.configId || '').trim()
+    if (!targetPath || !configId) return { success: false, error: 'Project path and configuration are required.' }
+
+    try {
+        await stopRunConfiguration(targetPath, configId)
+        return { success: true }
+    } catch (err: any) {
+        log.error('Failed to stop run configuration:', err)
+        return { success: false, error: err?.message || 'Failed to stop run configuration.' }
+    }
+}
+
+export async function handleListRunStatuses() {
+    return { success: true, statuses: listRunStatuses() }
+}
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { DevScopeRunConfiguration } from '../../../shared/contracts/devscope-api'
+
+const mocks = vi.hoisted(() => ({
+    configurations: [] as DevScopeRunConfiguration[],
+    started: [] as Array<{ title: string; onExit: (exitCode: number) => void }>,
+    sessions: new Map<string, unknown>()
+}))
+
+vi.mock('electron', () => ({ BrowserWindow: { getAllWindows: () => [] } }))
+vi.mock('electron-log', () => ({ default: { error: vi.fn(), warn: vi.fn() } }))
+vi.mock('../../services/run-configuration-store', () => ({
+    readRunConfigurations: async () => mocks.configurations
+}))
+vi.mock('./preview-terminal-spawn', () => ({
+    startPreviewTerminalSession: (_sender: unknown, options: { sessionId: string; title: string; onExit: (exitCode: number) => void }) => {
+        mocks.sessions.set(`1:${options.sessionId}`, {})
+        mocks.started.push({ title: options.title, onExit: options.onExit })
+    }
+}))
+vi.mock('./preview-terminal-sessions', () => ({
+    destroyTerminalProcess: vi.fn(),
+    getSessionKey: (senderId: number, sessionId: string) => `${senderId}:${sessionId}`,
+    previewTerminalSessions: mocks.sessions,
+    resolveTerminalCwd: async (cwd: string) => cwd
+}))
+
+import { launchRunConfiguration, listRunStatuses } from './task-runner'
+
+const sender = { id: 1, isDestroyed: () => false } as unknown as Electron.WebContents
+let projectIndex = 0
+
+function configuration(id: string, extra: Partial<DevScopeRunConfiguration> = {}): DevScopeRunConfiguration {
+    return { id, name: id, command: `run ${id}`, dependsOn: [], compound: [], restartPolicy: 'never', maxRestarts: 0, ...extra }
+}
+
+function stateOf(projectPath: string, configId: string) {
+    return listRunStatuses(projectPath).find((status) => status.configId === configId)?.state
+}
+
+beforeEach(() => {
+    mocks.started.length = 0
+    mocks.sessions.clear()
+})
+
+describe('launchRunConfiguration dependencies', () => {
+    it('starts the dependent once a "started" dependency is running', async () => {
+        const projectPath = `/project-${projectIndex++}`
+        mocks.configurations = [
+            configuration('db', { readyWhen: 'started' }),
+            configuration('app', { dependsOn: ['db'] })
+        ]
+
+        await launchRunConfiguration(sender, projectPath, 'app', 'bash')
+
+        await vi.waitFor(() => expect(stateOf(projectPath, 'app')).toBe('running'))
+        expect(mocks.started.map((entry) => entry.title)).toEqual(['db', 'app'])
+        expect(stateOf(projectPath, 'db')).toBe('running')
+    })
+
+    it('waits for an "exited" dependency to exit successfully', async () => {
+        const projectPath = `/project-${projectIndex++}`
+        mocks.configurations = [
+            configuration('build', { readyWhen: 'exited' }),
+            configuration('serve', { dependsOn: ['build'] })
+        ]
+
+        await launchRunConfiguration(sender, projectPath, 'serve', 'bash')
+
+        await vi.waitFor(() => expect(stateOf(projectPath, 'build')).toBe('running'))
+        expect(stateOf(projectPath, 'serve')).toBe('waiting')
+        expect(mocks.started.map((entry) => entry.title)).toEqual(['build'])
+
+        mocks.started[0].onExit(0)
+
+        await vi.waitFor(() => expect(stateOf(projectPath, 'serve')).toBe('running'))
+        expect(stateOf(projectPath, 'build')).toBe('succeeded')
+    })
+
+    it('fails the dependent when an "exited" dependency fails', async () => {
+        const projectPath = `/project-${projectIndex++}`
+        mocks.configurations = [
+            configuration('build'),
+            configuration('serve', { dependsOn: ['build'] })
+        ]
+
+        await launchRunConfiguration(sender, projectPath, 'serve', 'bash')
+        await vi.waitFor(() => expect(stateOf(projectPath, 'build')).toBe('running'))
+
+        mocks.started[0].onExit(1)
+
+        await vi.waitFor(() => expect(stateOf(projectPath, 'serve')).toBe('failed'))
+        expect(mocks.started.map((entry) => entry.title)).toEqual(['build'])
+    })
+})
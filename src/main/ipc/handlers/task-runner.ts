@@ -0,0 +1,304 @@
+import { BrowserWindow } from 'electron'
+import { resolve } from 'path'
+import log from 'electron-log'
+import {
+    TASK_RUNNER_EVENT_CHANNEL,
+    type DevScopeRunConfiguration,
+    type DevScopeRunState,
+    type DevScopeRunStatus,
+    type DevScopeTaskRunnerEvent
+} from '../../../shared/contracts/devscope-api'
+import { normalizeRunProjectKey } from '../../../shared/run-configurations'
+import { readRunConfigurations } from '../../services/run-configuration-store'
+import { startPreviewTerminalSession } from './preview-terminal-spawn'
+import {
+    destroyTerminalProcess,
+    getSessionKey,
+    previewTerminalSessions,
+    resolveTerminalCwd
+} from './preview-terminal-sessions'
+
+const RUN_SEPARATOR = '\r\n\x1b[2m--- run again ---\x1b[0m\r\n'
+const SETTLED_STATES: DevScopeRunState[] = ['succeeded', 'failed', 'stopped']
+const STARTED_STATES: DevScopeRunState[] = ['running', ...SETTLED_STATES]
+const ACTIVE_STATES: DevScopeRunState[] = ['waiting', 'running', 'restarting']
+const MAX_RESTART_DELAY_MS = 30_000
+
+type RunRecord = {
+    projectPath: string
+    config: DevScopeRunConfiguration
+    shell: string
+    sender: Electron.WebContents | null
+    state: DevScopeRunState
+    sessionId: string | null
+    exitCode: number | null
+    restarts: number
+    updatedAt: number
+    message?: string
+    stopRequested: boolean
+    restartTimer: NodeJS.Timeout | null
+    /** Bumped on every start so exits from replaced processes are ignored. */
+    runToken: number
+    stateWaiters: Array<{ states: DevScopeRunState[]; resolve: (state: DevScopeRunState) => void }>
+}
+
+const runRecords = new Map<string, RunRecord>()
+
+function getRecordKey(projectPath: string, configId: string): string {
+    return `${normalizeRunProjectKey(projectPath)}::${configId}`
+}
+
+function toStatus(record: RunRecord): DevScopeRunStatus {
+    return {
+        projectPath: record.projectPath,
+        configId: record.config.id,
+        name: record.config.name,
+        command: record.config.command,
+        state: record.state,
+        sessionId: record.sessionId,
+        exitCode: record.exitCode,
+        restarts: record.restarts,
+        updatedAt: record.updatedAt,
+        ...(record.message ? { message: record.message } : {})
+    }
+}
+
+function emitStatus(record: RunRecord): void {
+    const payload: DevScopeTaskRunnerEvent = { type: 'status', status: toStatus(record) }
+    for (const window of BrowserWindow.getAllWindows()) {
+        if (!window.isDestroyed()) window.webContents.send(TASK_RUNNER_EVENT_CHANNEL, payload)
+    }
+}
+
+function setState(record: RunRecord, state: DevScopeRunState, message?: string): void {
+    record.state = state
+    record.message = message
+    record.updatedAt = Date.now()
+    emitStatus(record)
+    const reached = record.stateWaiters.filter((waiter) => waiter.states.includes(state))
+    record.stateWaiters = record.stateWaiters.filter((waiter) => !waiter.states.includes(state))
+    reached.forEach((waiter) => waiter.resolve(state))
+}
+
+function waitForState(record: RunRecord, states: DevScopeRunState[]): Promise<DevScopeRunState> {
+    if (states.includes(record.state)) return Promise.resolve(record.state)
+    return new Promise((resolveWaiter) => record.stateWaiters.push({ states, resolve: resolveWaiter }))
+}
+
+function getOrCreateRecord(projectPath: string, config: DevScopeRunConfiguration, shell: string): RunRecord {
+    const key = getRecordKey(projectPath, config.id)
+    const existing = runRecords.get(key)
+    if (existing) {
+        existing.config = config
+        existing.shell = shell
+        return existing
+    }
+    const record: RunRecord = {
+        projectPath,
+        config,
+        shell,
+        sender: null,
+        state: 'idle',
+        sessionId: null,
+        exitCode: null,
+        restarts: 0,
+        updatedAt: Date.now(),
+        stopRequested: false,
+        restartTimer: null,
+        runToken: 0,
+        stateWaiters: []
+    }
+    runRecords.set(key, record)
+    return record
+}
+
+/**
+ * Transitive dependencies of `configId` in start order. Throws on unknown ids and cycles
+ * so a broken configuration fails loudly instead of hanging in `waiting`.
+ */
+export function resolveDependencyOrder(configId: string, byId: Map<string, DevScopeRunConfiguration>): DevScopeRunConfiguration[] {
+    const order: DevScopeRunConfiguration[] = []
+    const visited = new Set<string>()
+    const visiting = new Set<string>()
+
+    const visit = (id: string, trail: string[]) => {
+        if (visited.has(id)) return
+        const config = byId.get(id)
+        if (!config) throw new Error(`Unknown run configuration "${id}" in ${trail.join(' -> ')}.`)
+        if (visiting.has(id)) {
+            throw new Error(`Circular dependency: ${[...trail, config.name].join(' -> ')}.`)
+        }
+        visiting.add(id)
+        for (const dependencyId of config.dependsOn || []) {
+            visit(dependencyId, [...trail, config.name])
+        }
+        visiting.delete(id)
+        visited.add(id)
+        if (id !== configId) order.push(config)
+    }
+
+    visit(configId, [])
+    return order
+}
+
+function handleRunExit(record: RunRecord, runToken: number, sessionKey: string, exitCode: number): void {
+    if (record.runToken !== runToken) return
+    record.exitCode = exitCode
+
+    // Closing the terminal tab removes the session; treat that as an explicit stop.
+    if (record.stopRequested || !previewTerminalSessions.has(sessionKey)) {
+        record.stopRequested = true
+        setState(record, 'stopped')
+        return
+    }
+
+    const policy = record.config.restartPolicy || 'never'
+    const shouldRestart = policy === 'always' || (policy === 'on-failure' && exitCode !== 0)
+    if (shouldRestart && record.restarts < (record.config.maxRestarts || 0)) {
+        record.restarts += 1
+        const delay = Math.min(MAX_RESTART_DELAY_MS, 1000 * 2 ** (record.restarts - 1))
+        setState(record, 'restarting', `Exited with code ${exitCode}. Restarting in ${Math.round(delay / 1000)}s (${record.restarts}/${record.config.maxRestarts}).`)
+        record.restartTimer = setTimeout(() => {
+            record.restartTimer = null
+            if (record.stopRequested) return
+            void startRecord(record)
+        }, delay)
+        return
+    }
+
+    if (exitCode === 0) {
+        setState(record, 'succeeded')
+    } else {
+        setState(record, 'failed', `Exited with code ${exitCode}.`)
+    }
+}
+
+async function startRecord(record: RunRecord): Promise<void> {
+    const sender = record.sender
+    if (!sender || sender.isDestroyed()) {
+        setState(record, 'stopped', 'The window that started this run was closed.')
+        return
+    }
+
+    const { config } = record
+    const sessionId = `run-${config.id}`
+    const sessionKey = getSessionKey(sender.id, sessionId)
+    const runToken = ++record.runToken
+    const previousOutput = previewTerminalSessions.get(sessionKey)?.outputBuffer || ''
+
+    try {
+        const cwd = await resolveTerminalCwd(resolve(record.projectPath, config.cwd || '.'))
+        startPreviewTerminalSession(sender, {
+            sessionId,
+            cwd,
+            preferredShell: config.shell || record.shell,
+            title: config.name,
+            runCommand: config.command,
+            runConfiguration: { projectPath: record.projectPath, configId: config.id },
+            env: config.env,
+            initialOutput: previousOutput ? `${previousOutput}${RUN_SEPARATOR}` : '',
+            onExit: (exitCode) => handleRunExit(record, runToken, sessionKey, exitCode)
+        })
+        record.sessionId = sessionId
+        record.exitCode = null
+        setState(record, 'running')
+    } catch (err: any) {
+        log.error(`[TaskRunner] Failed to start "${config.name}"`, err)
+        setState(record, 'failed', err?.message || 'Failed to start.')
+    }
+}
+
+async function launchWithDependencies(
+    record: RunRecord,
+    byId: Map<string, DevScopeRunConfiguration>
+): Promise<void> {
+    const dependencies = resolveDependencyOrder(record.config.id, byId)
+    record.stopRequested = false
+    record.restarts = 0
+
+    if (dependencies.length > 0) {
+        setState(record, 'waiting', `Waiting for ${dependencies.map((dependency) => dependency.name).join(', ')}`)
+    }
+
+    for (const dependency of dependencies) {
+        const dependencyRecord = getOrCreateRecord(record.projectPath, dependency, record.shell)
+        // A dependency that is already up (a database, an API server) counts as satisfied.
+        if (dependencyRecord.state === 'running') continue
+
+        if (!ACTIVE_STATES.includes(dependencyRecord.state)) {
+            dependencyRecord.sender = record.sender
+            dependencyRecord.stopRequested = false
+            dependencyRecord.restarts = 0
+            await startRecord(dependencyRecord)
+        }
+        // Long-running dependencies never exit, so they only have to reach `running`.
+        const startedOnly = dependency.readyWhen === 'started'
+        const result = await waitForState(dependencyRecord, startedOnly ? STARTED_STATES : SETTLED_STATES)
+        if (record.stopRequested) return
+        if (result !== 'succeeded' && !(startedOnly && result === 'running')) {
+            setState(record, 'failed', `Dependency "${dependency.name}" ${result === 'stopped' ? 'was stopped' : 'failed'}.`)
+            return
+        }
+    }
+
+    await startRecord(record)
+}
+
+export async function launchRunConfiguration(
+    sender: Electron.WebContents,
+    projectPath: string,
+    configId: string,
+    shell: string
+): Promise<void> {
+    const configurations = await readRunConfigurations(projectPath)
+    const byId = new Map(configurations.map((configuration) => [configuration.id, configuration]))
+    const config = byId.get(configId)
+    if (!config) throw new Error('Run configuration not found.')
+
+    const targets = config.compound?.length
+        ? config.compound.map((memberId) => byId.get(memberId)).filter((member): member is DevScopeRunConfiguration => Boolean(member))
+        : [config]
+
+    for (const target of targets) {
+        const record = getOrCreateRecord(projectPath, target, shell)
+        if (ACTIVE_STATES.includes(record.state)) continue
+        record.sender = sender
+        // Validate the dependency graph up front so the caller sees cycles immediately.
+        resolveDependencyOrder(target.id, byId)
+        void launchWithDependencies(record, byId).catch((err) => {
+            setState(record, 'failed', err?.message || 'Failed to start.')
+        })
+    }
+}
+
+export async function stopRunConfiguration(projectPath: string, configId: string): Promise<void> {
+    const configurations = await readRunConfigurations(projectPath)
+    const config = configurations.find((configuration) => configuration.id === configId)
+    const targetIds = config?.compound?.length ? config.compound : [configId]
+
+    for (const targetId of targetIds) {
+        const record = runRecords.get(getRecordKey(projectPath, targetId))
+        if (!record || !ACTIVE_STATES.includes(record.state)) continue
+        record.stopRequested = true
+        if (record.restartTimer) {
+            clearTimeout(record.restartTimer)
+            record.restartTimer = null
+        }
+        const session = record.sender && record.sessionId
+            ? previewTerminalSessions.get(getSessionKey(record.sender.id, record.sessionId))
+            : undefined
+        if (session) destroyTerminalProcess(session)
+        setState(record, 'stopped')
+    }
+}
+
+export function forgetRunConfiguration(projectPath: string, configId: string): void {
+    runRecords.delete(getRecordKey(projectPath, configId))
+}
+
+export function listRunStatuses(projectPath?: string): DevScopeRunStatus[] {
+    const projectKey = projectPath ? normalizeRunProjectKey(projectPath) : null
+    return Array.from(runRecords.values())
+        .filter((record) => !projectKey || normalizeRunProjectKey(record.projectPath) === projectKey)
+        .map(toStatus)
+}
@@ -3,11 +3,40 @@ import { spawn } from 'child_process'
 import { access, stat, unlink, writeFile } from 'fs/promises'
 import { dirname, join } from 'path'
 import log from 'electron-log'
+import { toExternalTerminalShell } from '../../../shared/terminal-shells'
+import { detectTerminalCapabilities, getDefaultShellId, type TerminalCapability } from '../../inspectors/terminal'
+
+export function toTerminalShell(capability: TerminalCapability) {
+    return {
+        id: capability.id,
+        label: capability.displayName,
+        path: capability.path,
+        version: capability.version,
+        available: capability.available,
+        isDefault: capability.isDefault
+    }
+}
+
+export async function handleListTerminalShells() {
+    log.info('IPC: listTerminalShells')
+
+    try {
+        const capabilities = await detectTerminalCapabilities()
+        return {
+            success: true,
+            defaultShellId: getDefaultShellId(),
+            shells: capabilities.map(toTerminalShell)
+        }
+    } catch (err: any) {
+        log.error('Failed to list terminal shells:', err)
+        return { success: false, error: err?.message || 'Failed to detect shells.' }
+    }
+}
 
 export async function handleOpenInTerminal(
     _event: Electron.IpcMainInvokeEvent,
     targetPath: string,
-    preferredShell: 'powershell' | 'cmd' = 'powershell',
+    preferredShell: string = 'powershell',
     initialCommand?: string
 ) {
     log.info('IPC: openInTerminal', { targetPath, preferredShell, hasCommand: Boolean(initialCommand?.trim()) })
@@ -29,7 +58,7 @@ export async function handleOpenInTerminal(
             return { success: false, error: 'Opening terminal is only supported on Windows in DevScope Air.' }
         }
 
-        const normalizedShell: 'powershell' | 'cmd' = preferredShell === 'cmd' ? 'cmd' : 'powershell'
+        const normalizedShell = toExternalTerminalShell(preferredShell)
         const commandToRun = initialCommand?.trim()
         const hasCommand = Boolean(commandToRun)
 
@@ -0,0 +1,125 @@
+import { BrowserWindow } from 'electron'
+import { hostname, userInfo } from 'os'
+import log from 'electron-log'
+import type { DevScopeTerminalSessionSummary } from '../../../shared/contracts/devscope-api'
+import { getShellLabel } from '../../../shared/terminal-shells'
+import {
+    detectTerminalCapabilities,
+    getDefaultShellId,
+    getTerminalBanner,
+    getTerminalManager,
+    getTerminalSuggestions,
+    type TerminalInfo
+} from '../../inspectors/terminal'
+import { normalizeGroupKey, resolveTerminalCwd } from './preview-terminal-sessions'
+import { toTerminalShell } from './terminal-handlers'
+
+function toSessionSummary(info: TerminalInfo): DevScopeTerminalSessionSummary {
+    return {
+        sessionId: info.id,
+        title: info.name || getShellLabel(info.shellId),
+        shell: getShellLabel(info.shellId),
+        shellId: info.shellId,
+        cwd: info.cwd,
+        groupKey: normalizeGroupKey(info.cwd),
+        status: info.status === 'active' ? 'running' : info.status,
+        startedAt: info.createdAt,
+        lastActivityAt: info.lastActivity,
+        exitCode: info.exitCode ?? null,
+        error: info.error
+    }
+}
+
+export async function handleCreateTerminalSession(
+    event: Electron.IpcMainInvokeEvent,
+    input?: { name?: string; cwd?: string; shell?: string }
+) {
+    log.info('IPC: terminal:create', { cwd: input?.cwd, shell: input?.shell })
+
+    try {
+        const manager = getTerminalManager()
+        const senderWindow = BrowserWindow.fromWebContents(event.sender)
+        if (senderWindow) manager.setMainWindow(senderWindow)
+
+        const cwd = input?.cwd ? await resolveTerminalCwd(input.cwd) : undefined
+        const name = String(input?.name || '').trim() || undefined
+        const info = manager.createSession(name, cwd, String(input?.shell || '').trim() || undefined)
+        return { success: true, session: toSessionSummary(info) }
+    } catch (err: any) {
+        log.error('Failed to create terminal session:', err)
+        return { success: false, error: err?.message || 'Failed to create terminal session.' }
+    }
+}
+
+export async function handleListTerminalSessions() {
+    return {
+        success: true,
+        sessions: getTerminalManager().getAllSessions().map(toSessionSummary)
+    }
+}
+
+export async function handleKillTerminalSession(_event: Electron.IpcMainInvokeEvent, sessionId: string) {
+    log.info('IPC: terminal:kill', { sessionId })
+    return { success: true, killed: getTerminalManager().killSession(String(sessionId || '')) }
+}
+
+export async function handleWriteTerminalSession(
+    _event: Electron.IpcMainInvokeEvent,
+    input: { sessionId: string; data: string }
+) {
+    const session = getTerminalManager().getSession(String(input?.sessionId || ''))
+    if (!session || !session.isActive()) {
+        return { success: false, error: 'Terminal session is not running.' }
+    }
+    session.write(String(input?.data ?? ''))
+    return { success: true }
+}
+
+export async function handleResizeTerminalSession(
+    _event: Electron.IpcMainInvokeEvent,
+    input: { sessionId: string; cols: number; rows: number }
+) {
+    const cols = Math.max(20, Math.floor(Number(input?.cols) || 0))
+    const rows = Math.max(5, Math.floor(Number(input?.rows) || 0))
+    getTerminalManager().resize(String(input?.sessionId || ''), cols, rows)
+    return { success: true }
+}
+
+export async function handleGetTerminalCapabilities() {
+    log.info('IPC: terminal:capabilities')
+
+    try {
+        const capabilities = await detectTerminalCapabilities()
+        return {
+            success: true,
+            defaultShellId: getDefaultShellId(),
+            capabilities: capabilities.map(toTerminalShell)
+        }
+    } catch (err: any) {
+        log.error('Failed to detect terminal capabilities:', err)
+        return { success: false, error: err?.message || 'Failed to detect shells.' }
+    }
+}
+
+export async function handleGetTerminalSuggestions(
+    _event: Electron.IpcMainInvokeEvent,
+    input: { cwd?: string; partial?: string }
+) {
+    try {
+        const cwd = String(input?.cwd || '').trim() || undefined
+        return { success: true, suggestions: await getTerminalSuggestions(cwd, String(input?.partial || '')) }
+    } catch (err: any) {
+        log.error('Failed to build terminal suggestions:', err)
+        return { success: false, error: err?.message || 'Failed to build suggestions.' }
+    }
+}
+
+export async function handleGetTerminalBanner(_event: Electron.IpcMainInvokeEvent, input?: { cwd?: string }) {
+    let username = 'user'
+    try {
+        username = userInfo().username || username
+    } catch {
+        // userInfo throws when the account has no passwd entry (some containers).
+    }
+    return { success: true, banner: getTerminalBanner(username, hostname(), String(input?.cwd || '').trim() || undefined) }
+}
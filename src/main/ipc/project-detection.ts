@@ -1,3 +1,5 @@
+import type { DevScopeCustomProjectType } from '../../shared/contracts/devscope-project-contracts'
+
 export interface ProjectTypeDefinition {
     id: string
     displayName: string
@@ -45,9 +47,20 @@ const FRAMEWORKS: FrameworkDefinition[] = [
     { id: 'express', displayName: 'Express', icon: 'express', themeColor: '#000000', parentType: 'node', detectPatterns: { dependencies: ['express'] } },
     { id: 'vite', displayName: 'Vite', icon: 'vite', themeColor: '#646CFF', parentType: 'node', detectPatterns: { devDependencies: ['vite'], configFiles: ['vite.config.js', 'vite.config.ts'] } },
     { id: 'tailwind', displayName: 'Tailwind CSS', icon: 'tailwindcss', themeColor: '#06B6D4', parentType: 'node', detectPatterns: { devDependencies: ['tailwindcss'], configFiles: ['tailwind.config.js', 'tailwind.config.ts'] } },
-    { id: 'typescript', displayName: 'TypeScript', icon: 'typescript', themeColor: '#3178C6', parentType: 'node', detectPatterns: { devDependencies: ['typescript'], configFiles: ['tsconfig.json'] } }
+    { id: 'typescript', displayName: 'TypeScript', icon: 'typescript', themeColor: '#3178C6', parentType: 'node', detectPatterns: { devDependencies: ['typescript'], configFiles: ['tsconfig.json'] } },
+    { id: 'tauri', displayName: 'Tauri', icon: 'tauri', themeColor: '#FFC131', parentType: 'node', detectPatterns: { dependencies: ['@tauri-apps/api'], devDependencies: ['@tauri-apps/cli'] } },
+    { id: 'django', displayName: 'Django', icon: 'django', themeColor: '#092E20', parentType: 'python', detectPatterns: { dependencies: ['django'], files: ['manage.py'] } },
+    { id: 'fastapi', displayName: 'FastAPI', icon: 'fastapi', themeColor: '#009688', parentType: 'python', detectPatterns: { dependencies: ['fastapi'] } },
+    { id: 'flask', displayName: 'Flask', icon: 'flask', themeColor: '#000000', parentType: 'python', detectPatterns: { dependencies: ['flask'] } },
+    { id: 'axum', displayName: 'Axum', icon: 'rust', themeColor: '#DEA584', parentType: 'rust', detectPatterns: { dependencies: ['axum'] } },
+    { id: 'tauri', displayName: 'Tauri', icon: 'tauri', themeColor: '#FFC131', parentType: 'rust', detectPatterns: { dependencies: ['tauri'], configFiles: ['tauri.conf.json'] } },
+    { id: 'gin', displayName: 'Gin', icon: 'go', themeColor: '#00ADD8', parentType: 'go', detectPatterns: { dependencies: ['github.com/gin-gonic/gin'] } },
+    { id: 'laravel', displayName: 'Laravel', icon: 'laravel', themeColor: '#FF2D20', parentType: 'php', detectPatterns: { dependencies: ['laravel/framework'], files: ['artisan'] } },
+    { id: 'flutter', displayName: 'Flutter', icon: 'flutter', themeColor: '#02569B', parentType: 'dart', detectPatterns: { dependencies: ['flutter'] } }
 ]
 
+let customProjectTypes: ProjectTypeDefinition[] = []
+
 export const PROJECT_MARKERS = [
     'package.json',
     'Cargo.toml',
@@ -92,8 +105,59 @@ export const PROJECT_MARKERS = [
     'ContentView.swift'
 ]
 
+let customProjectTypesSynced = false
+
+/** Fills the fields custom types may leave out; ids and markers are already checked by `sanitizeCustomProjectTypes`. */
+export function toCustomProjectTypeDefinitions(types: DevScopeCustomProjectType[]): ProjectTypeDefinition[] {
+    return types.map((type) => ({
+        id: type.id,
+        displayName: type.displayName,
+        icon: type.icon || '',
+        themeColor: type.themeColor,
+        markers: type.markers,
+        description: type.description || 'Custom project type'
+    }))
+}
+
+export function hasSyncedCustomProjectTypes(): boolean {
+    return customProjectTypesSynced
+}
+
+/** Returns whether the types differ from the current ones, so callers only refresh derived metadata when needed. */
+export function setCustomProjectTypes(types: ProjectTypeDefinition[]): boolean {
+    const changed = JSON.stringify(types) !== JSON.stringify(customProjectTypes)
+    customProjectTypes = types
+    customProjectTypesSynced = true
+    return changed
+}
+
+export function getProjectTypes(): ProjectTypeDefinition[] {
+    return [...customProjectTypes, ...PROJECT_TYPES]
+}
+
+/** Built-in markers plus any markers contributed by custom project types. */
+export function getProjectMarkers(): string[] {
+    if (customProjectTypes.length === 0) return PROJECT_MARKERS
+    return Array.from(new Set([...PROJECT_MARKERS, ...customProjectTypes.flatMap((type) => type.markers)]))
+}
+
+export function collectProjectMarkers(entryNames: string[]): string[] {
+    const markers: string[] = []
+    if (entryNames.includes('.git')) markers.push('.git')
+    for (const marker of getProjectMarkers()) {
+        if (marker === '.git') continue
+        if (marker.startsWith('*')) {
+            const ext = marker.slice(1)
+            if (entryNames.some((entry) => entry.endsWith(ext))) markers.push(marker)
+        } else if (entryNames.includes(marker)) {
+            markers.push(marker)
+        }
+    }
+    return markers
+}
+
 export function detectProjectTypeFromMarkers(markers: string[]): ProjectTypeDefinition | undefined {
-    for (const type of PROJECT_TYPES) {
+    for (const type of getProjectTypes()) {
         if (type.id === 'git') continue
         for (const marker of type.markers) {
             if (marker.startsWith('*')) {
@@ -108,19 +172,21 @@ export function detectProjectTypeFromMarkers(markers: string[]): ProjectTypeDefi
     return undefined
 }
 
-export function detectFrameworksFromPackageJson(
-    packageJson: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> },
+export function detectFrameworksFromDependencies(
+    parentType: string,
+    manifest: { dependencies: string[]; devDependencies: string[] },
     fileList: string[]
 ): FrameworkDefinition[] {
     const detected: FrameworkDefinition[] = []
-    const deps = packageJson.dependencies || {}
-    const devDeps = packageJson.devDependencies || {}
+    const deps = new Set(manifest.dependencies.map((item) => item.toLowerCase()))
+    const devDeps = new Set(manifest.devDependencies.map((item) => item.toLowerCase()))
 
-    for (const framework of FRAMEWORKS.filter((item) => item.parentType === 'node')) {
+    for (const framework of FRAMEWORKS.filter((item) => item.parentType === parentType)) {
         const patterns = framework.detectPatterns
         let matched = false
-        if (patterns.dependencies?.some((item) => item in deps)) matched = true
-        if (patterns.devDependencies?.some((item) => item in devDeps)) matched = true
+        if (patterns.dependencies?.some((item) => deps.has(item.toLowerCase()))) matched = true
+        if (patterns.devDependencies?.some((item) => devDeps.has(item.toLowerCase()))) matched = true
+        if (patterns.files?.some((item) => fileList.includes(item))) matched = true
         if (patterns.configFiles?.some((item) => fileList.includes(item))) matched = true
         if (matched) detected.push(framework)
     }
@@ -128,6 +194,16 @@ export function detectFrameworksFromPackageJson(
     return detected
 }
 
+export function detectFrameworksFromPackageJson(
+    packageJson: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> },
+    fileList: string[]
+): FrameworkDefinition[] {
+    return detectFrameworksFromDependencies('node', {
+        dependencies: Object.keys(packageJson.dependencies || {}),
+        devDependencies: Object.keys(packageJson.devDependencies || {})
+    }, fileList)
+}
+
 export function detectProjectType(markers: string[]): string {
     if (markers.includes('package.json')) return 'node'
     if (markers.includes('Cargo.toml')) return 'rust'
@@ -0,0 +1,226 @@
+import type { DevScopeDependencyLockfileKind } from '../../shared/contracts/devscope-project-contracts'
+
+export type LockedPackage = {
+    name: string
+    version: string
+}
+
+export type ParsedLockfile = {
+    kind: DevScopeDependencyLockfileKind
+    packages: LockedPackage[]
+    /** Resolved version of each direct dependency of the audited project. */
+    directVersions: Map<string, string>
+}
+
+export const LOCKFILE_NAMES: Array<{ fileName: string; kind: DevScopeDependencyLockfileKind }> = [
+    { fileName: 'package-lock.json', kind: 'npm' },
+    { fileName: 'npm-shrinkwrap.json', kind: 'npm' },
+    { fileName: 'pnpm-lock.yaml', kind: 'pnpm' },
+    { fileName: 'yarn.lock', kind: 'yarn' },
+    { fileName: 'bun.lock', kind: 'bun' }
+]
+
+function unquote(value: string): string {
+    return value.trim().replace(/^['"]|['"]$/g, '')
+}
+
+/** Splits `@scope/name@1.2.3` at the version separator, ignoring a leading scope `@`. */
+function splitNameAndVersion(value: string): { name: string; version: string } | null {
+    const separatorIndex = value.lastIndexOf('@')
+    if (separatorIndex <= 0) return null
+    return { name: value.slice(0, separatorIndex), version: value.slice(separatorIndex + 1) }
+}
+
+// ---- npm -------------------------------------------------------------------
+
+type NpmLockV1Dependency = { version?: string; dependencies?: Record<string, NpmLockV1Dependency> }
+
+function parseNpmLockfile(content: string, importerPath: string): ParsedLockfile {
+    const lockfile = JSON.parse(content) as {
+        packages?: Record<string, { version?: string; link?: boolean; name?: string }>
+        dependencies?: Record<string, NpmLockV1Dependency>
+    }
+    const packages: LockedPackage[] = []
+    const directVersions = new Map<string, string>()
+    const importerPrefix = importerPath ? `${importerPath}/` : ''
+
+    if (lockfile.packages) {
+        for (const [key, entry] of Object.entries(lockfile.packages)) {
+            const nodeModulesIndex = key.lastIndexOf('node_modules/')
+            if (nodeModulesIndex < 0 || entry.link || !entry.version) continue
+            const name = entry.name || key.slice(nodeModulesIndex + 'node_modules/'.length)
+            packages.push({ name, version: entry.version })
+            if (key === `${importerPrefix}node_modules/${name}`) {
+                directVersions.set(name, entry.version)
+            } else if (key === `node_modules/${name}` && !directVersions.has(name)) {
+                directVersions.set(name, entry.version)
+            }
+        }
+        return { kind: 'npm', packages, directVersions }
+    }
+
+    const walk = (dependencies: Record<string, NpmLockV1Dependency>, isRoot: boolean) => {
+        for (const [name, entry] of Object.entries(dependencies)) {
+            if (!entry.version) continue
+            packages.push({ name, version: entry.version })
+            if (isRoot) directVersions.set(name, entry.version)
+            if (entry.dependencies) walk(entry.dependencies, false)
+        }
+    }
+    walk(lockfile.dependencies || {}, true)
+    return { kind: 'npm', packages, directVersions }
+}
+
+// ---- pnpm ------------------------------------------------------------------
+
+function cleanPnpmVersion(value: string): string | null {
+    const version = unquote(value).replace(/\(.*$/, '').replace(/_.*$/, '')
+    if (!version || version.startsWith('link:') || version.startsWith('file:')) return null
+    return version
+}
+
+function parsePnpmPackageKey(rawKey: string): LockedPackage | null {
+    const key = unquote(rawKey.replace(/:$/, '')).replace(/^\//, '').replace(/\(.*$/, '')
+    const atSplit = splitNameAndVersion(key)
+    if (atSplit && /^\d/.test(atSplit.version)) return atSplit
+    // pnpm v5 keys use `/name/1.2.3_peer` instead of `name@1.2.3`.
+    const slashIndex = key.lastIndexOf('/')
+    if (slashIndex <= 0) return null
+    const version = key.slice(slashIndex + 1).replace(/_.*$/, '')
+    return /^\d/.test(version) ? { name: key.slice(0, slashIndex), version } : null
+}
+
+const PNPM_DEPENDENCY_SECTIONS = new Set(['dependencies', 'devDependencies', 'optionalDependencies'])
+
+function parsePnpmLockfile(content: string, importerPath: string): ParsedLockfile {
+    const packages: LockedPackage[] = []
+    const directVersions = new Map<string, string>()
+    const importerKey = importerPath || '.'
+    let section = ''
+    let importer: string | null = null
+    let inDependencyGroup = false
+    let currentDependency: string | null = null
+
+    for (const line of content.split(/\r?\n/)) {
+        const text = line.trim()
+        if (!text || text.startsWith('#')) continue
+        const indent = line.length - line.trimStart().length
+
+        if (indent === 0) {
+            section = text.replace(/:.*$/, '')
+            importer = null
+            inDependencyGroup = PNPM_DEPENDENCY_SECTIONS.has(section)
+            currentDependency = null
+            continue
+        }
+
+        if (section === 'packages') {
+            if (indent === 2 && text.endsWith(':')) {
+                const parsed = parsePnpmPackageKey(text)
+                if (parsed) packages.push(parsed)
+            }
+            continue
+        }
+
+        // Lockfile v5/v6 single-project layouts keep dependency groups at the top level;
+        // newer layouts nest them under `importers.<path>`.
+        let baseIndent = 0
+        if (section === 'importers') {
+            if (indent === 2) {
+                importer = unquote(text.replace(/:$/, ''))
+                inDependencyGroup = false
+                continue
+            }
+            if (importer !== importerKey) continue
+            if (indent === 4) {
+                inDependencyGroup = PNPM_DEPENDENCY_SECTIONS.has(text.replace(/:$/, ''))
+                currentDependency = null
+                continue
+            }
+            baseIndent = 4
+        }
+        if (!inDependencyGroup) continue
+
+        const keyMatch = text.match(/^(['"]?[^'"]+?['"]?):\s*(.*)$/)
+        if (!keyMatch) continue
+        if (indent === baseIndent + 2) {
+            currentDependency = unquote(keyMatch[1])
+            const inlineVersion = keyMatch[2] ? cleanPnpmVersion(keyMatch[2]) : null
+            if (inlineVersion) directVersions.set(currentDependency, inlineVersion)
+        } else if (indent === baseIndent + 4 && currentDependency && keyMatch[1] === 'version') {
+            const version = cleanPnpmVersion(keyMatch[2])
+            if (version) directVersions.set(currentDependency, version)
+        }
+    }
+
+    return { kind: 'pnpm', packages, directVersions }
+}
+
+// ---- yarn ------------------------------------------------------------------
+
+function parseYarnLockfile(content: string, declared: Record<string, string>): ParsedLockfile {
+    const packages: LockedPackage[] = []
+    const resolvedDescriptors = new Map<string, string>()
+    let currentDescriptors: Array<{ name: string; range: string }> = []
+
+    for (const line of content.split(/\r?\n/)) {
+        if (!line.trim() || line.trimStart().startsWith('#')) continue
+        const indent = line.length - line.trimStart().length
+        if (indent === 0 && line.trimEnd().endsWith(':')) {
+            currentDescriptors = line.trimEnd().slice(0, -1).split(/,\s*/).map((descriptor) => {
+                const parsed = splitNameAndVersion(unquote(descriptor))
+                if (!parsed) return null
+                return { name: parsed.name, range: parsed.version.replace(/^npm:/, '') }
+            }).filter((item): item is { name: string; range: string } => Boolean(item) && !item!.range.startsWith('workspace:'))
+            continue
+        }
+        const versionMatch = indent === 2 ? line.trim().match(/^version:?\s+"?([^"\s]+)"?$/) : null
+        if (!versionMatch || currentDescriptors.length === 0) continue
+        const version = versionMatch[1]
+        packages.push({ name: currentDescriptors[0].name, version })
+        for (const descriptor of currentDescriptors) {
+            resolvedDescriptors.set(`${descriptor.name}@${descriptor.range}`, version)
+        }
+        currentDescriptors = []
+    }
+
+    const directVersions = new Map<string, string>()
+    for (const [name, range] of Object.entries(declared)) {
+        const version = resolvedDescriptors.get(`${name}@${range}`)
+            || resolvedDescriptors.get(`${name}@${range.replace(/^npm:/, '')}`)
+        if (version) {
+            directVersions.set(name, version)
+            continue
+        }
+        const versions = Array.from(new Set(packages.filter((item) => item.name === name).map((item) => item.version)))
+        if (versions.length === 1) directVersions.set(name, versions[0])
+    }
+    return { kind: 'yarn', packages, directVersions }
+}
+
+// ---- bun -------------------------------------------------------------------
+
+function parseBunLockfile(content: string): ParsedLockfile {
+    // bun.lock is JSONC with trailing commas.
+    const lockfile = JSON.parse(content.replace(/,(\s*[}\]])/g, '$1')) as { packages?: Record<string, unknown[]> }
+    const packages: LockedPackage[] = []
+    const directVersions = new Map<string, string>()
+    for (const [key, entry] of Object.entries(lockfile.packages || {})) {
+        const parsed = Array.isArray(entry) && typeof entry[0] === 'string' ? splitNameAndVersion(entry[0]) : null
+        if (!parsed || !/^\d/.test(parsed.version)) continue
+        packages.push(parsed)
+        if (key === parsed.name) directVersions.set(parsed.name, parsed.version)
+    }
+    return { kind: 'bun', packages, directVersions }
+}
+
+export function parseLockfile(
+    kind: DevScopeDependencyLockfileKind,
+    content: string,
+    options: { declared: Record<string, string>; importerPath: string }
+): ParsedLockfile {
+    if (kind === 'npm') return parseNpmLockfile(content, options.importerPath)
+    if (kind === 'pnpm') return parsePnpmLockfile(content, options.importerPath)
+    if (kind === 'yarn') return parseYarnLockfile(content, options.declared)
+    return parseBunLockfile(content)
+}
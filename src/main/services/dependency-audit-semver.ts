@@ -0,0 +1,181 @@
+export type ParsedVersion = {
+    major: number
+    minor: number
+    patch: number
+    prerelease: string[]
+}
+
+type Comparator = {
+    operator: '<' | '<=' | '>' | '>=' | '='
+    version: ParsedVersion
+}
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+
+export function parseVersion(value: string): ParsedVersion | null {
+    const match = String(value || '').trim().match(VERSION_PATTERN)
+    if (!match) return null
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2] || 0),
+        patch: Number(match[3] || 0),
+        prerelease: match[4] ? match[4].split('.') : []
+    }
+}
+
+function comparePrerelease(left: string[], right: string[]): number {
+    if (left.length === 0 && right.length === 0) return 0
+    if (left.length === 0) return 1
+    if (right.length === 0) return -1
+    for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+        const leftPart = left[index]
+        const rightPart = right[index]
+        if (leftPart === undefined) return -1
+        if (rightPart === undefined) return 1
+        const leftNumber = /^\d+$/.test(leftPart) ? Number(leftPart) : null
+        const rightNumber = /^\d+$/.test(rightPart) ? Number(rightPart) : null
+        if (leftNumber !== null && rightNumber !== null) {
+            if (leftNumber !== rightNumber) return leftNumber < rightNumber ? -1 : 1
+            continue
+        }
+        if (leftNumber !== null) return -1
+        if (rightNumber !== null) return 1
+        if (leftPart !== rightPart) return leftPart < rightPart ? -1 : 1
+    }
+    return 0
+}
+
+export function compareVersions(left: ParsedVersion, right: ParsedVersion): number {
+    if (left.major !== right.major) return left.major < right.major ? -1 : 1
+    if (left.minor !== right.minor) return left.minor < right.minor ? -1 : 1
+    if (left.patch !== right.patch) return left.patch < right.patch ? -1 : 1
+    return comparePrerelease(left.prerelease, right.prerelease)
+}
+
+export function compareVersionStrings(left: string, right: string): number {
+    const leftVersion = parseVersion(left)
+    const rightVersion = parseVersion(right)
+    if (!leftVersion || !rightVersion) return left.localeCompare(right)
+    return compareVersions(leftVersion, rightVersion)
+}
+
+function makeVersion(major: number, minor: number, patch: number, prerelease: string[] = []): ParsedVersion {
+    return { major, minor, patch, prerelease }
+}
+
+function isWildcard(part: string | undefined): boolean {
+    return part === undefined || part === 'x' || part === 'X' || part === '*'
+}
+
+/** Expands one range token (`^1.2`, `~1`, `>=2.0.0`, `1.x`) into comparators. */
+function expandRangeToken(token: string): Comparator[] | null {
+    const operatorMatch = token.match(/^(\^|~>?|[<>]=?|=)?\s*(.*)$/)
+    if (!operatorMatch) return null
+    const operator = operatorMatch[1] || ''
+    const partial = operatorMatch[2].match(PARTIAL_PATTERN)
+    if (!partial) return null
+
+    const [, rawMajor, rawMinor, rawPatch, rawPrerelease] = partial
+    if (isWildcard(rawMajor)) return operator.startsWith('<') || operator === '>' ? [{ operator: '<', version: makeVersion(0, 0, 0) }] : []
+
+    const major = Number(rawMajor)
+    const minor = isWildcard(rawMinor) ? null : Number(rawMinor)
+    const patch = isWildcard(rawPatch) ? null : Number(rawPatch)
+    const prerelease = rawPrerelease ? rawPrerelease.split('.') : []
+    const floor = makeVersion(major, minor ?? 0, patch ?? 0, prerelease)
+
+    if (operator === '^') {
+        const ceiling = major > 0 || minor === null
+            ? makeVersion(major + 1, 0, 0, ['0'])
+            : minor > 0 || patch === null
+                ? makeVersion(0, minor + 1, 0, ['0'])
+                : makeVersion(0, 0, patch + 1, ['0'])
+        return [{ operator: '>=', version: floor }, { operator: '<', version: ceiling }]
+    }
+    if (operator.startsWith('~')) {
+        const ceiling = minor === null ? makeVersion(major + 1, 0, 0, ['0']) : makeVersion(major, minor + 1, 0, ['0'])
+        return [{ operator: '>=', version: floor }, { operator: '<', version: ceiling }]
+    }
+    if (operator === '' || operator === '=') {
+        if (minor === null) return [{ operator: '>=', version: floor }, { operator: '<', version: makeVersion(major + 1, 0, 0, ['0']) }]
+        if (patch === null) return [{ operator: '>=', version: floor }, { operator: '<', version: makeVersion(major, minor + 1, 0, ['0']) }]
+        return [{ operator: '=', version: floor }]
+    }
+    if (operator === '>' && (minor === null || patch === null)) {
+        const next = minor === null ? makeVersion(major + 1, 0, 0, ['0']) : makeVersion(major, minor + 1, 0, ['0'])
+        return [{ operator: '>=', version: next }]
+    }
+    if (operator === '<=' && (minor === null || patch === null)) {
+        const next = minor === null ? makeVersion(major + 1, 0, 0, ['0']) : makeVersion(major, minor + 1, 0, ['0'])
+        return [{ operator: '<', version: next }]
+    }
+    return [{ operator: operator as Comparator['operator'], version: floor }]
+}
+
+function parseComparatorSet(value: string): Comparator[] | null {
+    const hyphenMatch = value.match(/^\s*(\S+)\s+-\s+(\S+)\s*$/)
+    if (hyphenMatch) {
+        const lower = expandRangeToken(`>=${hyphenMatch[1]}`)
+        const upper = expandRangeToken(`<=${hyphenMatch[2]}`)
+        return lower && upper ? [...lower, ...upper] : null
+    }
+
+    const tokens = value.replace(/([<>]=?|=|\^|~>?)\s+/g, '$1').trim().split(/\s+/).filter(Boolean)
+    const comparators: Comparator[] = []
+    for (const token of tokens) {
+        const expanded = expandRangeToken(token)
+        if (!expanded) return null
+        comparators.push(...expanded)
+    }
+    return comparators
+}
+
+function testComparator(version: ParsedVersion, comparator: Comparator): boolean {
+    const comparison = compareVersions(version, comparator.version)
+    if (comparator.operator === '<') return comparison < 0
+    if (comparator.operator === '<=') return comparison <= 0
+    if (comparator.operator === '>') return comparison > 0
+    if (comparator.operator === '>=') return comparison >= 0
+    return comparison === 0
+}
+
+/**
+ * npm-style range check. Returns null when the range is not a semver range
+ * (git URLs, `workspace:`, `file:`, tags such as `latest`), so callers can
+ * report it as unresolvable instead of mismatched.
+ */
+export function satisfiesRange(versionValue: string, rangeValue: string): boolean | null {
+    const version = parseVersion(versionValue)
+    const range = String(rangeValue || '').trim()
+    if (!version) return null
+    if (range === '' || range === '*' || range === 'x') return true
+
+    let sawValidSet = false
+    for (const part of range.split('||')) {
+        const comparators = parseComparatorSet(part)
+        if (!comparators) continue
+        sawValidSet = true
+        if (version.prerelease.length > 0) {
+            const allowsPrerelease = comparators.some((comparator) => (
+                comparator.version.prerelease.length > 0
+                && comparator.version.prerelease[0] !== '0'
+                && comparator.version.major === version.major
+                && comparator.version.minor === version.minor
+                && comparator.version.patch === version.patch
+            ))
+            if (!allowsPrerelease) continue
+        }
+        if (comparators.every((comparator) => testComparator(version, comparator))) return true
+    }
+    return sawValidSet ? false : null
+}
+
+/** Strips npm aliases and workspace protocols so `npm:foo@^1` and `workspace:^1` compare as plain ranges. */
+export function normalizeDeclaredRange(value: string): string {
+    const trimmed = String(value || '').trim()
+    const aliasMatch = trimmed.match(/^npm:(?:@[^/]+\/)?[^@]+@(.+)$/)
+    if (aliasMatch) return aliasMatch[1]
+    if (trimmed.startsWith('workspace:')) return trimmed.slice('workspace:'.length)
+    return trimmed
+}
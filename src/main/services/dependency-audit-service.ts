@@ -0,0 +1,410 @@
+import { readFile, stat } from 'fs/promises'
+import { basename, dirname, join, relative, sep } from 'path'
+import log from 'electron-log'
+import type {
+    DevScopeDependencyAdvisoryMatch,
+    DevScopeDependencyAdvisorySeverity,
+    DevScopeDependencyAuditEntry,
+    DevScopeDependencyAuditReport,
+    DevScopeDependencyAuditStatus,
+    DevScopeDependencyAuditSummary,
+    DevScopeDependencyDuplicate,
+    DevScopeDependencyLockfileKind,
+    DevScopeIndexedDependencyAuditProject,
+    DevScopeIndexedDependencyAuditResult,
+    DevScopeDependencyVersionDrift
+} from '../../shared/contracts/devscope-project-contracts'
+import { LOCKFILE_NAMES, parseLockfile, type LockedPackage, type ParsedLockfile } from './dependency-audit-lockfiles'
+import { compareVersionStrings, normalizeDeclaredRange, parseVersion, satisfiesRange } from './dependency-audit-semver'
+import { indexAllFolders } from './project-discovery-service'
+import { pathExists, readTextFileOrNull } from './project-dependencies'
+
+const LOCKFILE_SEARCH_DEPTH = 4
+const LOCAL_PROTOCOL_PATTERN = /^(workspace|link|file|portal):/
+const ADVISORY_SEVERITIES: DevScopeDependencyAdvisorySeverity[] = ['critical', 'high', 'moderate', 'low', 'unknown']
+
+type AuditPackageJson = {
+    name?: string
+    dependencies?: Record<string, string>
+    devDependencies?: Record<string, string>
+    optionalDependencies?: Record<string, string>
+}
+
+type Advisory = {
+    id: string
+    packageName: string
+    vulnerableRange: string
+    severity: DevScopeDependencyAdvisorySeverity
+    title: string
+    url: string | null
+    patchedVersions: string | null
+}
+
+type AdvisoryDatabase = {
+    path: string
+    advisories: Map<string, Advisory[]>
+    advisoryCount: number
+}
+
+const advisoryDatabaseCache = new Map<string, { mtimeMs: number; database: AdvisoryDatabase }>()
+
+// ---- advisory database -----------------------------------------------------
+
+function normalizeSeverity(value: unknown): DevScopeDependencyAdvisorySeverity {
+    const severity = String(value || '').trim().toLowerCase()
+    if (severity === 'medium') return 'moderate'
+    return (ADVISORY_SEVERITIES as string[]).includes(severity) ? severity as DevScopeDependencyAdvisorySeverity : 'unknown'
+}
+
+function readStringField(record: Record<string, unknown>, keys: string[]): string {
+    for (const key of keys) {
+        const value = record[key]
+        if (typeof value === 'string' && value.trim()) return value.trim()
+        if (typeof value === 'number') return String(value)
+    }
+    return ''
+}
+
+function toAdvisory(raw: unknown, fallbackPackageName?: string): Advisory | null {
+    if (!raw || typeof raw !== 'object') return null
+    const record = raw as Record<string, unknown>
+    const packageName = readStringField(record, ['package', 'packageName', 'name', 'module_name', 'moduleName']) || fallbackPackageName || ''
+    const vulnerableRange = readStringField(record, ['vulnerableVersions', 'vulnerable_versions', 'range', 'versions'])
+    if (!packageName || !vulnerableRange) return null
+    const id = readStringField(record, ['id', 'ghsaId', 'github_advisory_id', 'cve'])
+    return {
+        id: id || `${packageName}@${vulnerableRange}`,
+        packageName,
+        vulnerableRange,
+        severity: normalizeSeverity(record.severity),
+        title: readStringField(record, ['title', 'summary', 'overview']) || 'Known vulnerability',
+        url: readStringField(record, ['url', 'link']) || null,
+        patchedVersions: readStringField(record, ['patchedVersions', 'patched_versions']) || null
+    }
+}
+
+/**
+ * Accepts a plain advisory list, `{ advisories: [...] | { id: advisory } }`
+ * (npm audit v1 output) or the npm bulk-advisory shape `{ "pkg": [...] }`.
+ */
+function parseAdvisoryDatabase(content: string): Advisory[] {
+    const parsed = JSON.parse(content) as unknown
+    const advisories: Advisory[] = []
+    const pushAll = (items: unknown[], fallbackPackageName?: string) => {
+        for (const item of items) {
+            const advisory = toAdvisory(item, fallbackPackageName)
+            if (advisory) advisories.push(advisory)
+        }
+    }
+
+    if (Array.isArray(parsed)) {
+        pushAll(parsed)
+    } else if (parsed && typeof parsed === 'object') {
+        const record = parsed as Record<string, unknown>
+        if (Array.isArray(record.advisories)) {
+            pushAll(record.advisories)
+        } else if (record.advisories && typeof record.advisories === 'object') {
+            pushAll(Object.values(record.advisories as Record<string, unknown>))
+        } else {
+            for (const [packageName, items] of Object.entries(record)) {
+                if (Array.isArray(items)) pushAll(items, packageName)
+            }
+        }
+    }
+    return advisories
+}
+
+async function loadAdvisoryDatabase(databasePath: string): Promise<AdvisoryDatabase> {
+    const fileStat = await stat(databasePath)
+    const cached = advisoryDatabaseCache.get(databasePath)
+    if (cached && cached.mtimeMs === fileStat.mtimeMs) return cached.database
+
+    const advisories = parseAdvisoryDatabase(await readFile(databasePath, 'utf-8'))
+    const byPackage = new Map<string, Advisory[]>()
+    for (const advisory of advisories) {
+        const list = byPackage.get(advisory.packageName) || []
+        list.push(advisory)
+        byPackage.set(advisory.packageName, list)
+    }
+    const database = { path: databasePath, advisories: byPackage, advisoryCount: advisories.length }
+    advisoryDatabaseCache.set(databasePath, { mtimeMs: fileStat.mtimeMs, database })
+    return database
+}
+
+function matchAdvisories(database: AdvisoryDatabase | null, locked: LockedPackage[]): DevScopeDependencyAdvisoryMatch[] {
+    if (!database) return []
+    const matches: DevScopeDependencyAdvisoryMatch[] = []
+    const seen = new Set<string>()
+    for (const item of locked) {
+        for (const advisory of database.advisories.get(item.name) || []) {
+            const key = `${advisory.id}:${item.name}@${item.version}`
+            if (seen.has(key) || satisfiesRange(item.version, advisory.vulnerableRange) !== true) continue
+            seen.add(key)
+            matches.push({
+                id: advisory.id,
+                packageName: item.name,
+                installedVersion: item.version,
+                vulnerableRange: advisory.vulnerableRange,
+                severity: advisory.severity,
+                title: advisory.title,
+                url: advisory.url,
+                patchedVersions: advisory.patchedVersions
+            })
+        }
+    }
+    return matches.sort((left, right) => (
+        ADVISORY_SEVERITIES.indexOf(left.severity) - ADVISORY_SEVERITIES.indexOf(right.severity)
+        || left.packageName.localeCompare(right.packageName)
+    ))
+}
+
+// ---- lockfile discovery ----------------------------------------------------
+
+async function findLockfile(projectPath: string, warnings: string[]): Promise<{
+    kind: DevScopeDependencyLockfileKind
+    path: string
+    importerPath: string
+} | null> {
+    let currentPath = projectPath
+    for (let depth = 0; depth <= LOCKFILE_SEARCH_DEPTH; depth += 1) {
+        const found: Array<{ kind: DevScopeDependencyLockfileKind; path: string }> = []
+        for (const candidate of LOCKFILE_NAMES) {
+            const candidatePath = join(currentPath, candidate.fileName)
+            if (await pathExists(candidatePath)) found.push({ kind: candidate.kind, path: candidatePath })
+        }
+        if (found.length > 0) {
+            if (found.length > 1) {
+                warnings.push(`Multiple lockfiles found (${found.map((item) => basename(item.path)).join(', ')}); auditing ${basename(found[0].path)}.`)
+            }
+            return { ...found[0], importerPath: relative(currentPath, projectPath).split(sep).join('/') }
+        }
+        if (await pathExists(join(currentPath, 'bun.lockb'))) {
+            warnings.push('bun.lockb is a binary lockfile; run `bun install --save-text-lockfile` to produce bun.lock.')
+            return null
+        }
+        const parentPath = dirname(currentPath)
+        if (parentPath === currentPath) break
+        currentPath = parentPath
+    }
+    return null
+}
+
+// ---- report ----------------------------------------------------------------
+
+function collectVersionsByName(packages: LockedPackage[]): Map<string, string[]> {
+    const versionsByName = new Map<string, Set<string>>()
+    for (const item of packages) {
+        const versions = versionsByName.get(item.name) || new Set<string>()
+        versions.add(item.version)
+        versionsByName.set(item.name, versions)
+    }
+    return new Map(Array.from(versionsByName.entries()).map(([name, versions]) => [
+        name,
+        Array.from(versions).sort(compareVersionStrings)
+    ]))
+}
+
+function resolveEntryStatus(declaredRange: string, resolvedVersion: string | null): DevScopeDependencyAuditStatus {
+    // Workspace and local-path dependencies are linked rather than locked to a version.
+    if (!resolvedVersion) return LOCAL_PROTOCOL_PATTERN.test(declaredRange.trim()) ? 'unresolvable' : 'missing'
+    const satisfied = satisfiesRange(resolvedVersion, normalizeDeclaredRange(declaredRange))
+    if (satisfied === null) return 'unresolvable'
+    return satisfied ? 'ok' : 'mismatch'
+}
+
+function hasMajorDrift(resolvedVersion: string | null, latestVersion: string | null): boolean {
+    const resolved = resolvedVersion ? parseVersion(resolvedVersion) : null
+    const latest = latestVersion ? parseVersion(latestVersion) : null
+    return Boolean(resolved && latest && latest.major > resolved.major)
+}
+
+function buildSummary(
+    entries: DevScopeDependencyAuditEntry[],
+    duplicates: DevScopeDependencyDuplicate[],
+    advisories: DevScopeDependencyAdvisoryMatch[],
+    lockedPackages: number
+): DevScopeDependencyAuditSummary {
+    const advisoryCounts = Object.fromEntries(ADVISORY_SEVERITIES.map((severity) => [severity, 0])) as Record<DevScopeDependencyAdvisorySeverity, number>
+    for (const advisory of advisories) advisoryCounts[advisory.severity] += 1
+    return {
+        directDependencies: entries.length,
+        lockedPackages,
+        ok: entries.filter((entry) => entry.status === 'ok').length,
+        mismatched: entries.filter((entry) => entry.status === 'mismatch').length,
+        missing: entries.filter((entry) => entry.status === 'missing').length,
+        unresolvable: entries.filter((entry) => entry.status === 'unresolvable').length,
+        majorDrift: entries.filter((entry) => entry.majorDrift).length,
+        duplicates: duplicates.length,
+        advisories: advisoryCounts
+    }
+}
+
+export async function auditProjectDependencies(
+    projectPath: string,
+    options?: { advisoryDatabasePath?: string }
+): Promise<DevScopeDependencyAuditReport> {
+    const warnings: string[] = []
+    const packageJsonContent = await readTextFileOrNull(join(projectPath, 'package.json'))
+    if (packageJsonContent === null) throw new Error('No package.json found in this project.')
+    const packageJson = JSON.parse(packageJsonContent) as AuditPackageJson
+
+    const declaredGroups: Array<[DevScopeDependencyAuditEntry['scope'], Record<string, string>]> = [
+        ['dependency', packageJson.dependencies || {}],
+        ['devDependency', packageJson.devDependencies || {}],
+        ['optionalDependency', packageJson.optionalDependencies || {}]
+    ]
+    const declared: Record<string, string> = {}
+    for (const [, group] of declaredGroups) Object.assign(declared, group)
+
+    let advisoryDatabase: AdvisoryDatabase | null = null
+    const advisoryDatabasePath = String(options?.advisoryDatabasePath || '').trim()
+    if (advisoryDatabasePath) {
+        try {
+            advisoryDatabase = await loadAdvisoryDatabase(advisoryDatabasePath)
+        } catch (err: any) {
+            warnings.push(`Advisory database could not be read: ${err?.message || advisoryDatabasePath}`)
+        }
+    }
+
+    const lockfileLocation = await findLockfile(projectPath, warnings)
+    let lockfile: ParsedLockfile | null = null
+    if (lockfileLocation) {
+        try {
+            const content = await readFile(lockfileLocation.path, 'utf-8')
+            lockfile = parseLockfile(lockfileLocation.kind, content, { declared, importerPath: lockfileLocation.importerPath })
+        } catch (err: any) {
+            log.warn('[DependencyAudit] Failed to parse lockfile', lockfileLocation.path, err)
+            warnings.push(`${basename(lockfileLocation.path)} could not be parsed: ${err?.message || 'unknown error'}`)
+        }
+    } else if (Object.keys(declared).length > 0 && warnings.length === 0) {
+        warnings.push('No lockfile found; resolved versions are unknown.')
+    }
+
+    const lockedPackages = lockfile?.packages || []
+    const versionsByName = collectVersionsByName(lockedPackages)
+    const advisories = matchAdvisories(advisoryDatabase, lockedPackages)
+    const duplicates: DevScopeDependencyDuplicate[] = Array.from(versionsByName.entries())
+        .filter(([, versions]) => versions.length > 1)
+        .map(([name, versions]) => ({ name, versions }))
+        .sort((left, right) => right.versions.length - left.versions.length || left.name.localeCompare(right.name))
+
+    const entries: DevScopeDependencyAuditEntry[] = []
+    for (const [scope, group] of declaredGroups) {
+        for (const [name, declaredRange] of Object.entries(group)) {
+            const resolvedVersion = lockfile?.directVersions.get(name) || null
+            const versions = versionsByName.get(name) || []
+            const latestInTree = versions.length > 0 ? versions[versions.length - 1] : null
+            entries.push({
+                name,
+                scope,
+                declaredRange,
+                resolvedVersion,
+                status: resolveEntryStatus(declaredRange, resolvedVersion),
+                latestInTree,
+                majorDrift: hasMajorDrift(resolvedVersion, latestInTree),
+                duplicateVersions: versions.length > 1 ? versions : [],
+                advisories: advisories.filter((advisory) => advisory.packageName === name && advisory.installedVersion === resolvedVersion)
+            })
+        }
+    }
+
+    return {
+        projectPath,
+        projectName: packageJson.name || basename(projectPath),
+        generatedAt: Date.now(),
+        lockfile: lockfileLocation && lockfile ? { kind: lockfileLocation.kind, path: lockfileLocation.path } : null,
+        entries,
+        duplicates,
+        advisories,
+        summary: buildSummary(entries, duplicates, advisories, lockedPackages.length),
+        advisoryDatabase: advisoryDatabase ? { path: advisoryDatabase.path, advisoryCount: advisoryDatabase.advisoryCount } : null,
+        warnings
+    }
+}
+
+function collectVersionDrift(reports: DevScopeDependencyAuditReport[]): DevScopeDependencyVersionDrift[] {
+    const byName = new Map<string, Map<string, string[]>>()
+    for (const report of reports) {
+        for (const entry of report.entries) {
+            if (!entry.resolvedVersion) continue
+            const versions = byName.get(entry.name) || new Map<string, string[]>()
+            const projectPaths = versions.get(entry.resolvedVersion) || []
+            projectPaths.push(report.projectPath)
+            versions.set(entry.resolvedVersion, projectPaths)
+            byName.set(entry.name, versions)
+        }
+    }
+
+    const drift: DevScopeDependencyVersionDrift[] = []
+    for (const [name, versions] of byName.entries()) {
+        const majors = Array.from(new Set(
+            Array.from(versions.keys()).map((version) => parseVersion(version)?.major).filter((major): major is number => major !== undefined)
+        )).sort((left, right) => left - right)
+        if (majors.length < 2) continue
+        drift.push({
+            name,
+            majors,
+            versions: Array.from(versions.entries())
+                .sort(([left], [right]) => compareVersionStrings(right, left))
+                .map(([version, projectPaths]) => ({ version, projectPaths }))
+        })
+    }
+    return drift.sort((left, right) => right.majors.length - left.majors.length || left.name.localeCompare(right.name))
+}
+
+export async function auditIndexedProjectDependencies(options: {
+    roots: string[]
+    advisoryDatabasePath?: string
+    forceRefresh?: boolean
+}): Promise<DevScopeIndexedDependencyAuditResult> {
+    const indexed = await indexAllFolders(options.roots, { forceRefresh: options.forceRefresh })
+    const warnings = (indexed.errors || []).map((item) => `${item.folder}: ${item.error}`)
+    const nodeProjects = indexed.projects.filter((project) => project.markers.includes('package.json'))
+
+    const reports: DevScopeDependencyAuditReport[] = []
+    const projects: DevScopeIndexedDependencyAuditProject[] = []
+    for (const project of nodeProjects) {
+        try {
+            const report = await auditProjectDependencies(project.path, { advisoryDatabasePath: options.advisoryDatabasePath })
+            reports.push(report)
+            projects.push({
+                projectPath: project.path,
+                projectName: project.name,
+                lockfileKind: report.lockfile?.kind || null,
+                summary: report.summary
+            })
+        } catch (err: any) {
+            projects.push({
+                projectPath: project.path,
+                projectName: project.name,
+                lockfileKind: null,
+                summary: null,
+                error: err?.message || 'Audit failed'
+            })
+        }
+    }
+
+    const advisoryKeys = new Set<string>()
+    const advisories: DevScopeIndexedDependencyAuditResult['advisories'] = []
+    for (const report of reports) {
+        for (const advisory of report.advisories) {
+            const key = `${report.lockfile?.path || report.projectPath}:${advisory.id}:${advisory.packageName}@${advisory.installedVersion}`
+            if (advisoryKeys.has(key)) continue
+            advisoryKeys.add(key)
+            advisories.push({ ...advisory, projectPath: report.projectPath })
+        }
+    }
+    for (const report of reports) {
+        for (const warning of report.warnings) {
+            if (warning.startsWith('Advisory database') && !warnings.includes(warning)) warnings.push(warning)
+        }
+    }
+
+    return {
+        generatedAt: Date.now(),
+        projects,
+        versionDrift: collectVersionDrift(reports),
+        advisories,
+        warnings
+    }
+}
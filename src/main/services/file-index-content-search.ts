@@ -0,0 +1,170 @@
+import log from 'electron-log'
+import type { Database as SqlDatabase } from 'sql.js/dist/sql-asm.js'
+import { buildContentMatchQuery, collectContentLineMatches, readIndexableContent } from './file-index-content'
+import { FILE_INDEX_CONTENT_TABLE_SQL, FILE_INDEX_YIELD_INTERVAL, normalizePathKey, yieldToEventLoop } from './file-index-store'
+import type {
+    DevScopeIndexedContentFileResult,
+    DevScopeIndexedContentSearchInput,
+    DevScopeIndexedContentSearchResult
+} from '../../shared/contracts/devscope-project-contracts'
+
+type ContentSearchCandidate = Omit<DevScopeIndexedContentFileResult, 'matches' | 'totalMatches'>
+
+const FILE_INDEX_CONTENT_REBUILD_MIN_STALE = 2000
+
+export async function insertContentDocument(db: SqlDatabase, rootPath: string, filePath: string): Promise<void> {
+    let content: string | null = null
+    try {
+        content = await readIndexableContent(filePath)
+    } catch (error) {
+        log.warn(`[FileIndex] Failed to read file content ${filePath}`, error)
+    }
+    if (content === null) return
+
+    const normalizedPath = normalizePathKey(filePath)
+    deleteContentDocuments(db, 'normalized_path = ?', [normalizedPath])
+    db.run(
+        'INSERT INTO file_index_content_docs (normalized_path, normalized_root_path) VALUES (?, ?)',
+        [normalizedPath, normalizePathKey(rootPath)]
+    )
+    const docid = db.exec('SELECT last_insert_rowid()')[0]?.values?.[0]?.[0]
+    db.run('INSERT INTO file_index_content (docid, body) VALUES (?, ?)', [Number(docid), content])
+}
+
+// A contentless FTS table cannot delete rows, so removed documents only lose their docs row
+// (docids are never reused) and their tokens linger until the next rebuild.
+export function deleteContentDocuments(db: SqlDatabase, whereClause: string, args: string[]): void {
+    db.run(`DELETE FROM file_index_content_docs WHERE ${whereClause}`, args)
+}
+
+export async function rebuildContentIndexIfStale(db: SqlDatabase): Promise<void> {
+    const indexedCount = Number(db.exec('SELECT COUNT(*) FROM file_index_content_docsize')[0]?.values?.[0]?.[0] || 0)
+    const liveCount = Number(db.exec('SELECT COUNT(*) FROM file_index_content_docs')[0]?.values?.[0]?.[0] || 0)
+    const staleCount = indexedCount - liveCount
+    if (staleCount < FILE_INDEX_CONTENT_REBUILD_MIN_STALE || staleCount < liveCount) return
+
+    log.info(`[FileIndex] Rebuilding content index (${liveCount} live, ${staleCount} stale documents).`)
+    const documents = (db.exec(`
+        SELECT docs.docid, entries.path
+        FROM file_index_content_docs docs
+        LEFT JOIN file_index_entries entries ON entries.normalized_path = docs.normalized_path
+    `)[0]?.values || []).map((row) => ({ docid: Number(row[0]), path: row[1] ? String(row[1]) : null }))
+
+    db.run('BEGIN')
+    try {
+        db.run('DROP TABLE file_index_content')
+        db.run(FILE_INDEX_CONTENT_TABLE_SQL)
+        for (const [index, document] of documents.entries()) {
+            const content = document.path ? await readIndexableContent(document.path).catch(() => null) : null
+            if (content === null) {
+                db.run('DELETE FROM file_index_content_docs WHERE docid = ?', [document.docid])
+            } else {
+                db.run('INSERT INTO file_index_content (docid, body) VALUES (?, ?)', [document.docid, content])
+            }
+            if ((index + 1) % FILE_INDEX_YIELD_INTERVAL === 0) await yieldToEventLoop()
+        }
+        db.run('COMMIT')
+    } catch (error) {
+        db.run('ROLLBACK')
+        throw error
+    }
+}
+
+/**
+ * Every content-indexed file in scope, with the ones matching the FTS phrase first. FTS only
+ * sees whole tokens, so files where the term sits inside a token (`State` in `useState`) or
+ * is punctuation only still follow for the literal match in `collectContentSearchResults`.
+ */
+export function readContentSearchCandidates(
+    db: SqlDatabase,
+    input: DevScopeIndexedContentSearchInput,
+    term: string
+): ContentSearchCandidate[] {
+    if (!term) return []
+    const matchQuery = buildContentMatchQuery(term)
+
+    const extensionFilters = Array.from(new Set(
+        (input.extensionFilters || [])
+            .map((extension) => String(extension || '').trim().replace(/^\./, '').toLowerCase())
+            .filter(Boolean)
+    ))
+
+    const filters: string[] = []
+    const args: Array<string | number> = []
+    const scopePath = String(input.scopePath || '').trim()
+    const roots = Array.from(new Set(
+        (input.roots || [])
+            .map((root) => String(root || '').trim())
+            .filter(Boolean)
+    ))
+
+    if (scopePath) {
+        const normalizedScope = normalizePathKey(scopePath)
+        filters.push('(entries.normalized_path = ? OR entries.normalized_path LIKE ?)')
+        args.push(normalizedScope, `${normalizedScope}/%`)
+    } else if (roots.length > 0) {
+        filters.push(`entries.normalized_root_path IN (${roots.map(() => '?').join(', ')})`)
+        args.push(...roots.map((root) => normalizePathKey(root)))
+    }
+    if (extensionFilters.length > 0) {
+        filters.push(`entries.extension IN (${extensionFilters.map(() => '?').join(', ')})`)
+        args.push(...extensionFilters)
+    }
+
+    const phraseMatchSql = matchQuery
+        ? 'docs.docid IN (SELECT docid FROM file_index_content WHERE file_index_content MATCH ?)'
+        : '0'
+    const rows = db.exec(`
+        SELECT
+            entries.path,
+            entries.root_path,
+            entries.relative_path,
+            entries.name,
+            entries.extension
+        FROM file_index_content_docs docs
+        JOIN file_index_entries entries ON entries.normalized_path = docs.normalized_path
+        ${filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''}
+        ORDER BY ${phraseMatchSql} DESC, entries.depth ASC, entries.relative_path_lower ASC
+    `, matchQuery ? [...args, matchQuery] : args)[0]?.values || []
+
+    return rows.map((row) => ({
+        path: String(row[0] || ''),
+        rootPath: String(row[1] || ''),
+        relativePath: String(row[2] || ''),
+        name: String(row[3] || ''),
+        extension: String(row[4] || '')
+    }))
+}
+
+/** Re-reads each candidate from disk and keeps the ones with a literal match. */
+export async function collectContentSearchResults(
+    candidates: ContentSearchCandidate[],
+    term: string,
+    limit: number,
+    maxMatchesPerFile: number
+): Promise<DevScopeIndexedContentSearchResult> {
+    // The FTS phrase only orders the candidates; the literal match decides, so the limit applies after it.
+    const files: DevScopeIndexedContentFileResult[] = []
+    let totalMatches = 0
+    let truncated = false
+    for (const candidate of candidates) {
+        const content = await readIndexableContent(candidate.path).catch(() => null)
+        if (content === null) continue
+
+        const lineMatches = collectContentLineMatches(content, term, maxMatchesPerFile)
+        if (lineMatches.totalMatches === 0) continue
+        if (files.length >= limit) {
+            truncated = true
+            break
+        }
+        totalMatches += lineMatches.totalMatches
+        files.push({ ...candidate, matches: lineMatches.matches, totalMatches: lineMatches.totalMatches })
+    }
+
+    return {
+        files,
+        totalFiles: files.length,
+        totalMatches,
+        truncated
+    }
+}
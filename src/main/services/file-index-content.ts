@@ -0,0 +1,89 @@
+import { readFile } from 'node:fs/promises'
+import type { DevScopeIndexedContentMatch } from '../../shared/contracts/devscope-project-contracts'
+
+const CONTENT_INDEX_MAX_FILE_BYTES = 256 * 1024
+const CONTENT_MATCH_PREVIEW_MAX_LENGTH = 220
+const CONTENT_MATCH_PREVIEW_LEAD = 60
+const CONTENT_BINARY_SAMPLE_BYTES = 4096
+
+const CONTENT_INDEX_EXTENSIONS = new Set([
+    'astro', 'bat', 'c', 'cc', 'cfg', 'cjs', 'cmake', 'conf', 'cpp', 'cs', 'csproj', 'css', 'cts', 'dart',
+    'dockerfile', 'editorconfig', 'ex', 'exs', 'fs', 'gitignore', 'go', 'gradle', 'graphql', 'h', 'hpp',
+    'htm', 'html', 'ini', 'java', 'js', 'json', 'jsonc', 'jsx', 'kt', 'kts', 'less', 'lua', 'm', 'makefile',
+    'md', 'mdx', 'mjs', 'mts', 'php', 'prisma', 'properties', 'ps1', 'psm1', 'py', 'pyi', 'r', 'rb', 'rs',
+    'sass', 'scala', 'scss', 'sh', 'sln', 'sql', 'svelte', 'swift', 'toml', 'ts', 'tsx', 'txt', 'vue', 'xml',
+    'yaml', 'yml', 'zig', 'zsh'
+])
+
+const CONTENT_INDEX_FILE_NAMES = new Set([
+    'dockerfile',
+    'makefile',
+    'procfile',
+    'gemfile',
+    'rakefile',
+    'license',
+    'readme'
+])
+
+export function isContentIndexCandidate(fileName: string, extension: string, size: number): boolean {
+    if (!Number.isFinite(size) || size <= 0 || size > CONTENT_INDEX_MAX_FILE_BYTES) return false
+    return CONTENT_INDEX_EXTENSIONS.has(extension) || CONTENT_INDEX_FILE_NAMES.has(fileName.toLowerCase())
+}
+
+export async function readIndexableContent(filePath: string): Promise<string | null> {
+    const buffer = await readFile(filePath)
+    const sampleLength = Math.min(buffer.length, CONTENT_BINARY_SAMPLE_BYTES)
+    for (let index = 0; index < sampleLength; index += 1) {
+        if (buffer[index] === 0) return null
+    }
+    return buffer.toString('utf-8')
+}
+
+function tokenizeContentTerm(term: string): string[] {
+    return String(term || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+}
+
+/**
+ * Builds an FTS4 MATCH expression that treats the term as a phrase, with the
+ * last token matched as a prefix so results appear while the user is typing.
+ */
+export function buildContentMatchQuery(term: string): string | null {
+    const tokens = tokenizeContentTerm(term)
+    if (tokens.length === 0) return null
+    return `"${tokens.join(' ')}*"`
+}
+
+function buildLinePreview(line: string, column: number): string {
+    const trimmedLine = line.replace(/\t/g, '    ')
+    if (trimmedLine.length <= CONTENT_MATCH_PREVIEW_MAX_LENGTH) return trimmedLine.trim()
+    const start = Math.max(0, column - 1 - CONTENT_MATCH_PREVIEW_LEAD)
+    const slice = trimmedLine.slice(start, start + CONTENT_MATCH_PREVIEW_MAX_LENGTH)
+    return `${start > 0 ? '...' : ''}${slice.trim()}${start + CONTENT_MATCH_PREVIEW_MAX_LENGTH < trimmedLine.length ? '...' : ''}`
+}
+
+export function collectContentLineMatches(
+    content: string,
+    term: string,
+    maxMatches: number
+): { matches: DevScopeIndexedContentMatch[]; totalMatches: number } {
+    const needle = String(term || '').trim().toLowerCase()
+    const matches: DevScopeIndexedContentMatch[] = []
+    if (!needle) return { matches, totalMatches: 0 }
+
+    let totalMatches = 0
+    const lines = content.split(/\r?\n/)
+    for (let index = 0; index < lines.length; index += 1) {
+        const line = lines[index]
+        const matchIndex = line.toLowerCase().indexOf(needle)
+        if (matchIndex < 0) continue
+        totalMatches += 1
+        if (matches.length >= maxMatches) continue
+        matches.push({
+            line: index + 1,
+            column: matchIndex + 1,
+            preview: buildLinePreview(line, matchIndex + 1)
+        })
+    }
+
+    return { matches, totalMatches }
+}
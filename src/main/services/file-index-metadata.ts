@@ -0,0 +1,103 @@
+import type { Dirent } from 'node:fs'
+import { readdir, readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import log from 'electron-log'
+import type { Database as SqlDatabase } from 'sql.js/dist/sql-asm.js'
+import { detectProjectTypeFromMarkers, getProjectMarkers, type ProjectTypeDefinition } from '../ipc/project-detection'
+import { FILE_INDEX_YIELD_INTERVAL, jsonStringify, normalizePathKey, sqlBool, yieldToEventLoop } from './file-index-store'
+import { detectProjectFrameworks } from './project-framework-detection'
+import { resolveProjectIconPath } from './project-icon-resolver'
+
+export type IndexedDirectoryMetadata = {
+    markers: string[]
+    frameworks: string[]
+    projectType: ProjectTypeDefinition | null
+    projectIconPath: string | null
+}
+
+export async function inspectDirectory(directoryPath: string, entries: Dirent[]): Promise<IndexedDirectoryMetadata> {
+    const entryNames = entries.map((entry) => entry.name)
+    const markers: string[] = []
+    const lowerEntryNames = new Set(entryNames.map((name) => name.toLowerCase()))
+
+    if (lowerEntryNames.has('.git')) {
+        markers.push('.git')
+    }
+
+    for (const marker of getProjectMarkers()) {
+        if (marker === '.git') continue
+        if (marker.startsWith('*')) {
+            const extension = marker.slice(1).toLowerCase()
+            if (entryNames.some((name) => name.toLowerCase().endsWith(extension))) {
+                markers.push(marker)
+            }
+            continue
+        }
+        if (lowerEntryNames.has(marker.toLowerCase())) {
+            markers.push(marker)
+        }
+    }
+
+    const projectType = detectProjectTypeFromMarkers(markers)
+    let frameworks: string[] = []
+    let packageJson: any = null
+
+    if (lowerEntryNames.has('package.json')) {
+        try {
+            const packageJsonContent = await readFile(join(directoryPath, 'package.json'), 'utf-8')
+            packageJson = JSON.parse(packageJsonContent)
+        } catch (error) {
+            log.warn(`[FileIndex] Failed to parse package.json in ${directoryPath}`, error)
+        }
+    }
+    if (markers.length > 0) {
+        frameworks = (await detectProjectFrameworks(directoryPath, entryNames, { packageJson })).map((framework) => framework.id)
+    }
+
+    const projectIconPath = markers.length > 0
+        ? await resolveProjectIconPath(directoryPath, entryNames, packageJson)
+        : null
+
+    return {
+        markers,
+        frameworks,
+        projectType: projectType ?? null,
+        projectIconPath
+    }
+}
+
+/** Re-detects markers, project type and frameworks of indexed folders without re-reading files. */
+export async function refreshIndexedProjectMetadata(db: SqlDatabase): Promise<void> {
+    const directoryPaths = (db.exec(`SELECT path FROM file_index_entries WHERE type = 'directory'`)[0]?.values || [])
+        .map((row) => String(row[0] || ''))
+        .filter(Boolean)
+
+    db.run('BEGIN')
+    try {
+        for (const [index, directoryPath] of directoryPaths.entries()) {
+            let metadata: IndexedDirectoryMetadata
+            try {
+                metadata = await inspectDirectory(directoryPath, await readdir(directoryPath, { withFileTypes: true }))
+            } catch {
+                continue
+            }
+            db.run(`
+                UPDATE file_index_entries
+                SET is_project = ?, project_type = ?, project_icon_path = ?, markers_json = ?, frameworks_json = ?
+                WHERE normalized_path = ?
+            `, [
+                sqlBool(metadata.markers.length > 0),
+                metadata.projectType?.id || null,
+                metadata.projectIconPath,
+                jsonStringify(metadata.markers),
+                jsonStringify(metadata.frameworks),
+                normalizePathKey(directoryPath)
+            ])
+            if ((index + 1) % FILE_INDEX_YIELD_INTERVAL === 0) await yieldToEventLoop()
+        }
+        db.run('COMMIT')
+    } catch (error) {
+        db.run('ROLLBACK')
+        throw error
+    }
+}
@@ -0,0 +1,286 @@
+import type { Database as SqlDatabase, SqlValue } from 'sql.js/dist/sql-asm.js'
+import { escapeLikeValue, isPathWithinScope, mapIndexedEntry, normalizePathKey, parseJsonArray } from './file-index-store'
+import type {
+    DevScopeIndexedPathEntry,
+    DevScopeIndexedPathSearchInput,
+    DevScopeIndexedPathSearchResult,
+    DevScopeIndexedProject
+} from '../../shared/contracts/devscope-project-contracts'
+
+export type FileIndexFoldersResult = {
+    success: boolean
+    projects: DevScopeIndexedProject[]
+    totalFolders: number
+    indexedFolders: number
+    indexedFiles: number
+    scannedFolderPaths: string[]
+    indexedCount: number
+    errors?: Array<{ folder: string; error: string }>
+}
+
+const FILE_INDEX_SEARCH_FALLBACK_MULTIPLIER = 6
+
+export function readFolderIndexSummary(
+    db: SqlDatabase,
+    roots: string[],
+    errors: Array<{ folder: string; error: string }>
+): FileIndexFoldersResult {
+    const rootPlaceholders = roots.map(() => '?').join(', ')
+    const rootArgs = roots
+    if (roots.length === 0) {
+        return {
+            success: errors.length === 0,
+            projects: [],
+            totalFolders: 0,
+            indexedFolders: 0,
+            indexedFiles: 0,
+            scannedFolderPaths: [],
+            indexedCount: 0,
+            errors: errors.length > 0 ? errors : undefined
+        }
+    }
+
+    const projectRows = db.exec(`
+        SELECT
+            name,
+            path,
+            project_type,
+            project_icon_path,
+            markers_json,
+            frameworks_json,
+            last_modified,
+            root_path,
+            depth
+        FROM file_index_entries
+        WHERE root_path IN (${rootPlaceholders}) AND is_project = 1 AND type = 'directory'
+        ORDER BY COALESCE(last_modified, 0) DESC, name ASC
+    `, rootArgs)[0]?.values || []
+
+    const projects = projectRows.map((row) => ({
+        name: String(row[0] || ''),
+        path: String(row[1] || ''),
+        type: typeof row[2] === 'string' && row[2].length > 0 ? row[2] : 'unknown',
+        projectIconPath: typeof row[3] === 'string' && row[3].length > 0 ? row[3] : null,
+        markers: parseJsonArray(row[4]),
+        frameworks: parseJsonArray(row[5]),
+        lastModified: typeof row[6] === 'number' ? row[6] : undefined,
+        isProject: true,
+        sourceFolder: String(row[7] || ''),
+        depth: typeof row[8] === 'number' ? row[8] : 0
+    })) satisfies DevScopeIndexedProject[]
+
+    const totalsRows = db.exec(`
+        SELECT
+            SUM(CASE WHEN type = 'directory' THEN 1 ELSE 0 END),
+            SUM(CASE WHEN type = 'file' THEN 1 ELSE 0 END)
+        FROM file_index_entries
+        WHERE root_path IN (${rootPlaceholders})
+    `, rootArgs)[0]?.values?.[0] || []
+
+    const folderRows = db.exec(`
+        SELECT path
+        FROM file_index_entries
+        WHERE root_path IN (${rootPlaceholders}) AND type = 'directory'
+        ORDER BY path ASC
+    `, rootArgs)[0]?.values || []
+
+    return {
+        success: errors.length === 0 || projects.length > 0,
+        projects,
+        totalFolders: roots.length,
+        indexedFolders: typeof totalsRows[0] === 'number' ? totalsRows[0] : 0,
+        indexedFiles: typeof totalsRows[1] === 'number' ? totalsRows[1] : 0,
+        scannedFolderPaths: folderRows
+            .map((row) => String(row[0] || ''))
+            .filter(Boolean),
+        indexedCount: projects.length,
+        errors: errors.length > 0 ? errors : undefined
+    }
+}
+
+export function searchIndexedPathEntries(db: SqlDatabase, input: DevScopeIndexedPathSearchInput): DevScopeIndexedPathSearchResult {
+    const limit = Math.max(1, Math.min(Number(input.limit) || 50, 500))
+    const term = String(input.term || '').trim().toLowerCase()
+    const extensionFilters = Array.from(new Set(
+        (input.extensionFilters || [])
+            .map((extension) => String(extension || '').trim().replace(/^\./, '').toLowerCase())
+            .filter(Boolean)
+    ))
+
+    const scopeFilters: string[] = []
+    const args: Array<string | number> = []
+    const scopePath = String(input.scopePath || '').trim()
+    const roots = Array.from(new Set(
+        (input.roots || [])
+            .map((root) => String(root || '').trim())
+            .filter(Boolean)
+    ))
+
+    if (scopePath) {
+        const normalizedScope = normalizePathKey(scopePath)
+        scopeFilters.push('(normalized_path = ? OR normalized_path LIKE ?)')
+        args.push(normalizedScope, `${normalizedScope}/%`)
+    } else if (roots.length > 0) {
+        for (const root of roots) {
+            const normalizedRoot = normalizePathKey(root)
+            scopeFilters.push('(normalized_root_path = ?)')
+            args.push(normalizedRoot)
+        }
+    }
+
+    const includeFiles = input.includeFiles ?? true
+    const includeDirectories = input.includeDirectories ?? true
+    const showHidden = input.showHidden ?? false
+    const candidateLimit = Math.max(limit * FILE_INDEX_SEARCH_FALLBACK_MULTIPLIER, limit)
+    const baseFilters = [
+        scopeFilters.length > 0 ? `(${scopeFilters.join(' OR ')})` : '',
+        includeFiles && includeDirectories
+            ? ''
+            : includeFiles
+                ? `type = 'file'`
+                : `type = 'directory'`,
+        showHidden ? '' : 'is_hidden = 0',
+        extensionFilters.length > 0
+            ? `extension IN (${extensionFilters.map(() => '?').join(', ')})`
+            : ''
+    ].filter(Boolean)
+    if (extensionFilters.length > 0) {
+        args.push(...extensionFilters)
+    }
+
+    const selectColumns = `
+        SELECT
+            path,
+            root_path,
+            parent_path,
+            relative_path,
+            name,
+            type,
+            extension,
+            size,
+            last_modified,
+            is_hidden,
+            is_project,
+            project_type,
+            project_icon_path,
+            markers_json,
+            frameworks_json,
+            depth
+        FROM file_index_entries
+    `
+
+    const prefixMatches = term
+        ? db.exec(`
+            ${selectColumns}
+            WHERE ${[...baseFilters, '(name_lower LIKE ? ESCAPE \'\\\' OR relative_path_lower LIKE ? ESCAPE \'\\\')'].join(' AND ')}
+            ORDER BY CASE WHEN name_lower = ? THEN 0 WHEN name_lower LIKE ? ESCAPE '\\' THEN 1 ELSE 2 END, depth ASC, name ASC
+            LIMIT ?
+        `, [
+            ...args,
+            `${escapeLikeValue(term)}%`,
+            `${escapeLikeValue(term)}%`,
+            term,
+            `${escapeLikeValue(term)}%`,
+            candidateLimit
+        ])[0]?.values || []
+        : []
+
+    const seenPaths = new Set(prefixMatches.map((row) => String(row[0] || '')))
+    const containsMatches = term
+        ? db.exec(`
+            ${selectColumns}
+            WHERE ${[...baseFilters, '(name_lower LIKE ? ESCAPE \'\\\' OR relative_path_lower LIKE ? ESCAPE \'\\\')'].join(' AND ')}
+            ORDER BY depth ASC, name ASC
+            LIMIT ?
+        `, [
+            ...args,
+            `%${escapeLikeValue(term)}%`,
+            `%${escapeLikeValue(term)}%`,
+            candidateLimit
+        ])[0]?.values || []
+        : db.exec(`
+            ${selectColumns}
+            WHERE ${baseFilters.length > 0 ? baseFilters.join(' AND ') : '1 = 1'}
+            ORDER BY depth ASC, name ASC
+            LIMIT ?
+        `, [...args, candidateLimit])[0]?.values || []
+
+    const combinedRows = [...prefixMatches]
+    for (const row of containsMatches) {
+        const pathValue = String(row[0] || '')
+        if (!pathValue || seenPaths.has(pathValue)) continue
+        seenPaths.add(pathValue)
+        combinedRows.push(row)
+    }
+
+    const scoredEntries = combinedRows
+        .map((row) => {
+            const entry = mapIndexedEntry(row)
+            if (scopePath && normalizePathKey(entry.path) === normalizePathKey(scopePath)) {
+                return null
+            }
+            return {
+                entry,
+                score: scoreIndexedEntry(entry, term)
+            }
+        })
+        .filter((item): item is { entry: DevScopeIndexedPathEntry; score: number } => Boolean(item))
+        .sort((left, right) => right.score - left.score || left.entry.depth - right.entry.depth || left.entry.name.localeCompare(right.entry.name))
+        .slice(0, limit)
+
+    const entries = scoredEntries.map((item) => item.entry)
+    const ancestorPaths = new Set<string>()
+    for (const entry of entries) {
+        let parentPath = entry.parentPath
+        while (parentPath) {
+            if (scopePath && !isPathWithinScope(parentPath, scopePath)) break
+            if (ancestorPaths.has(parentPath)) {
+                parentPath = null
+                continue
+            }
+            ancestorPaths.add(parentPath)
+            const ancestorRow = db.exec(`
+                ${selectColumns}
+                WHERE normalized_path = ?
+                LIMIT 1
+            `, [normalizePathKey(parentPath)])[0]?.values?.[0]
+            if (!ancestorRow) break
+            parentPath = typeof ancestorRow[2] === 'string' && ancestorRow[2].length > 0 ? ancestorRow[2] : null
+        }
+    }
+
+    const ancestors = Array.from(ancestorPaths)
+        .map((pathValue) => db.exec(`
+            ${selectColumns}
+            WHERE normalized_path = ?
+            LIMIT 1
+        `, [normalizePathKey(pathValue)])[0]?.values?.[0] || null)
+        .filter((row): row is SqlValue[] => Array.isArray(row))
+        .map((row) => mapIndexedEntry(row))
+        .filter((entry) => !scopePath || normalizePathKey(entry.path) !== normalizePathKey(scopePath))
+        .sort((left, right) => left.depth - right.depth || left.name.localeCompare(right.name))
+
+    return {
+        entries,
+        ancestors,
+        totalMatched: scoredEntries.length
+    }
+}
+
+function scoreIndexedEntry(entry: DevScopeIndexedPathEntry, term: string): number {
+    if (!term) {
+        return entry.type === 'directory' ? 20 - entry.depth : 10 - entry.depth
+    }
+
+    const nameLower = entry.name.toLowerCase()
+    const relativeLower = entry.relativePath.toLowerCase()
+    let score = 0
+    if (nameLower === term) score += 120
+    if (nameLower.startsWith(term)) score += 90
+    if (relativeLower.startsWith(term)) score += 70
+    if (nameLower.includes(term)) score += 50
+    if (relativeLower.includes(term)) score += 30
+    if (entry.type === 'directory') score += 5
+    score -= entry.depth
+    return score
+}
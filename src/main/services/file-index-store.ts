@@ -0,0 +1,227 @@
+import { basename, relative, resolve } from 'node:path'
+import log from 'electron-log'
+import type { Database as SqlDatabase, SqlValue } from 'sql.js/dist/sql-asm.js'
+import type { DevScopeIndexedPathEntry } from '../../shared/contracts/devscope-project-contracts'
+
+export type FileIndexRootRow = {
+    rootPath: string
+    normalizedRootPath: string
+    lastIndexedAt: number
+}
+
+const FILE_INDEX_SCHEMA_VERSION = 3
+export const FILE_INDEX_YIELD_INTERVAL = 240
+// Contentless: only the token index is stored, matched files are re-read from disk.
+export const FILE_INDEX_CONTENT_TABLE_SQL = `CREATE VIRTUAL TABLE IF NOT EXISTS file_index_content USING fts4(body, content="")`
+export const SKIP_RECURSIVE_DIRECTORY_NAMES = new Set([
+    '.git',
+    'node_modules',
+    'dist',
+    'build',
+    'target',
+    '__pycache__',
+    '.venv',
+    'venv',
+    '.next',
+    '.nuxt',
+    '.turbo',
+    '.cache',
+    'coverage',
+    'out'
+])
+
+export function normalizePathKey(pathValue: string): string {
+    const normalized = resolve(String(pathValue || '')).replace(/\\/g, '/')
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized
+}
+
+export function resolveEntryName(pathValue: string): string {
+    const trimmed = String(pathValue || '').trim()
+    if (!trimmed) return ''
+    const base = basename(trimmed)
+    if (base) return base
+    return trimmed.replace(/[\\/]+$/, '')
+}
+
+export function toRelativePath(rootPath: string, targetPath: string): string {
+    const value = relative(rootPath, targetPath).replace(/\\/g, '/')
+    return value === '.' ? '' : value
+}
+
+export function toNullableNumber(value: number | undefined): number | null {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+export function jsonStringify(value: unknown): string {
+    return JSON.stringify(value ?? null)
+}
+
+export function parseJsonArray(value: SqlValue): string[] {
+    if (typeof value !== 'string' || !value) return []
+    try {
+        const parsed = JSON.parse(value)
+        return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string' && item.length > 0) : []
+    } catch {
+        return []
+    }
+}
+
+export function sqlBool(value: boolean): number {
+    return value ? 1 : 0
+}
+
+export function escapeLikeValue(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&')
+}
+
+export function isPathWithinScope(candidatePath: string, scopePath: string): boolean {
+    const normalizedCandidate = normalizePathKey(candidatePath)
+    const normalizedScope = normalizePathKey(scopePath)
+    return normalizedCandidate === normalizedScope || normalizedCandidate.startsWith(`${normalizedScope}/`)
+}
+
+export function isRecoverableSqliteError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error || '')
+    const normalized = message.toLowerCase()
+    return normalized.includes('database disk image is malformed')
+        || normalized.includes('file is not a database')
+        || normalized.includes('malformed')
+        || normalized.includes('not a database')
+}
+
+export function yieldToEventLoop(): Promise<void> {
+    return new Promise((resolvePromise) => {
+        setImmediate(resolvePromise)
+    })
+}
+
+function readStoredSchemaVersion(db: SqlDatabase): number {
+    const row = db.exec(`SELECT value FROM file_index_meta WHERE key = 'schemaVersion' LIMIT 1`)[0]?.values?.[0]
+    const version = Number(row?.[0])
+    return Number.isFinite(version) ? version : 0
+}
+
+export function initializeFileIndexSchema(db: SqlDatabase): void {
+    db.run(`
+        CREATE TABLE IF NOT EXISTS file_index_meta (
+            key TEXT PRIMARY KEY,
+            value TEXT NOT NULL
+        );
+    `)
+    const storedSchemaVersion = readStoredSchemaVersion(db)
+    if (storedSchemaVersion > 0 && storedSchemaVersion < 3) {
+        // Schema 2 kept full file contents in the FTS table.
+        db.run('DROP TABLE IF EXISTS file_index_content')
+        db.run('DROP TABLE IF EXISTS file_index_content_docs')
+    }
+    db.run(`
+        CREATE TABLE IF NOT EXISTS file_index_roots (
+            root_path TEXT PRIMARY KEY,
+            normalized_root_path TEXT NOT NULL,
+            last_indexed_at INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS file_index_entries (
+            path TEXT PRIMARY KEY,
+            normalized_path TEXT NOT NULL,
+            root_path TEXT NOT NULL,
+            normalized_root_path TEXT NOT NULL,
+            parent_path TEXT,
+            normalized_parent_path TEXT,
+            relative_path TEXT NOT NULL,
+            relative_path_lower TEXT NOT NULL,
+            name TEXT NOT NULL,
+            name_lower TEXT NOT NULL,
+            type TEXT NOT NULL,
+            extension TEXT NOT NULL,
+            size INTEGER,
+            last_modified INTEGER,
+            is_hidden INTEGER NOT NULL,
+            is_project INTEGER NOT NULL,
+            project_type TEXT,
+            project_icon_path TEXT,
+            markers_json TEXT NOT NULL,
+            frameworks_json TEXT NOT NULL,
+            depth INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_file_index_entries_root ON file_index_entries(root_path, type, is_project);
+        CREATE INDEX IF NOT EXISTS idx_file_index_entries_parent ON file_index_entries(root_path, normalized_parent_path);
+        CREATE INDEX IF NOT EXISTS idx_file_index_entries_name ON file_index_entries(root_path, name_lower);
+        CREATE INDEX IF NOT EXISTS idx_file_index_entries_relative ON file_index_entries(root_path, relative_path_lower);
+        CREATE INDEX IF NOT EXISTS idx_file_index_entries_normalized ON file_index_entries(normalized_path);
+        CREATE TABLE IF NOT EXISTS file_index_content_docs (
+            docid INTEGER PRIMARY KEY AUTOINCREMENT,
+            normalized_path TEXT NOT NULL UNIQUE,
+            normalized_root_path TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_file_index_content_docs_root ON file_index_content_docs(normalized_root_path);
+        ${FILE_INDEX_CONTENT_TABLE_SQL};
+    `)
+    if (storedSchemaVersion > 0 && storedSchemaVersion < FILE_INDEX_SCHEMA_VERSION) {
+        // Older stores lack the current content index; dropping the roots makes them reindex on next use.
+        log.info(`[FileIndex] Migrating index store from schema ${storedSchemaVersion} to ${FILE_INDEX_SCHEMA_VERSION}.`)
+        db.run('DELETE FROM file_index_entries')
+        db.run('DELETE FROM file_index_roots')
+    }
+    db.run(
+        'INSERT OR REPLACE INTO file_index_meta (key, value) VALUES (?, ?)',
+        ['schemaVersion', String(FILE_INDEX_SCHEMA_VERSION)]
+    )
+}
+
+export function mapIndexedEntry(row: SqlValue[]): DevScopeIndexedPathEntry {
+    return {
+        path: String(row[0] || ''),
+        rootPath: String(row[1] || ''),
+        parentPath: typeof row[2] === 'string' && row[2].length > 0 ? row[2] : null,
+        relativePath: String(row[3] || ''),
+        name: String(row[4] || ''),
+        type: row[5] === 'directory' ? 'directory' : 'file',
+        extension: String(row[6] || ''),
+        size: typeof row[7] === 'number' ? row[7] : undefined,
+        lastModified: typeof row[8] === 'number' ? row[8] : undefined,
+        isHidden: row[9] === 1,
+        isProject: row[10] === 1,
+        projectType: typeof row[11] === 'string' && row[11].length > 0 ? row[11] : null,
+        projectIconPath: typeof row[12] === 'string' && row[12].length > 0 ? row[12] : null,
+        markers: parseJsonArray(row[13]),
+        frameworks: parseJsonArray(row[14]),
+        depth: typeof row[15] === 'number' ? row[15] : 0
+    }
+}
+
+export function readIndexedRoots(db: SqlDatabase): FileIndexRootRow[] {
+    const rows = db.exec(`
+        SELECT root_path, normalized_root_path, last_indexed_at
+        FROM file_index_roots
+        ORDER BY root_path ASC
+    `)[0]?.values || []
+
+    return rows.map((row) => ({
+        rootPath: String(row[0] || ''),
+        normalizedRootPath: String(row[1] || ''),
+        lastIndexedAt: typeof row[2] === 'number' ? row[2] : 0
+    }))
+}
+
+export function findCoveringRoot(db: SqlDatabase, pathValue: string): FileIndexRootRow | null {
+    const normalizedPath = normalizePathKey(pathValue)
+    const roots = readIndexedRoots(db)
+        .filter((row) => normalizedPath === row.normalizedRootPath || normalizedPath.startsWith(`${row.normalizedRootPath}/`))
+        .sort((left, right) => right.normalizedRootPath.length - left.normalizedRootPath.length)
+    return roots[0] || null
+}
+
+export function getFileExtension(fileName: string): string {
+    const normalized = String(fileName || '').toLowerCase()
+    if (!normalized) return ''
+    if (normalized.startsWith('.') && normalized.indexOf('.', 1) === -1) {
+        return normalized.slice(1)
+    }
+    const dotIndex = normalized.lastIndexOf('.')
+    if (dotIndex <= 0 || dotIndex === normalized.length - 1) return ''
+    return normalized.slice(dotIndex + 1)
+}
+
+export function depthFromRoot(rootPath: string, targetPath: string): number {
+    return toRelativePath(rootPath, targetPath).split('/').filter(Boolean).length
+}
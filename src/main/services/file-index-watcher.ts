@@ -0,0 +1,184 @@
+import { watch, type FSWatcher } from 'node:fs'
+import { basename, dirname, join, resolve } from 'node:path'
+import log from 'electron-log'
+
+export type FileIndexWatchBatch = {
+    rootPath: string
+    changedPaths: string[]
+}
+
+type FileIndexWatcherOptions = {
+    skipDirectoryNames: Set<string>
+    // Read on every check so custom project type markers added at runtime are picked up.
+    getMarkerNames: () => string[]
+    ignoredPaths: string[]
+    batchDelayMs: number
+    onBatch: (batch: FileIndexWatchBatch) => void
+}
+
+type RootWatchState = {
+    rootPath: string
+    watcher: FSWatcher
+    pendingPaths: Set<string>
+    timer: NodeJS.Timeout | null
+}
+
+const FILE_INDEX_WATCH_MAX_PENDING_PATHS = 2000
+
+function normalizeWatchKey(pathValue: string): string {
+    const normalized = resolve(String(pathValue || '')).replace(/\\/g, '/')
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized
+}
+
+function isWithinWatchScope(candidateKey: string, scopeKey: string): boolean {
+    return candidateKey === scopeKey || candidateKey.startsWith(`${scopeKey}/`)
+}
+
+/** Drops duplicates and paths already covered by another path in the list, shortest first. */
+export function minimizeRefreshPaths(paths: string[]): string[] {
+    const normalizedPaths = Array.from(new Set(
+        paths
+            .map((pathValue) => String(pathValue || '').trim())
+            .filter(Boolean)
+            .map((pathValue) => resolve(pathValue))
+    ))
+
+    normalizedPaths.sort((left, right) => left.length - right.length)
+    const result: string[] = []
+
+    for (const candidate of normalizedPaths) {
+        const candidateKey = normalizeWatchKey(candidate)
+        if (result.some((existing) => isWithinWatchScope(candidateKey, normalizeWatchKey(existing)))) continue
+        result.push(candidate)
+    }
+
+    return result
+}
+
+export class FileIndexWatcher {
+    private readonly roots = new Map<string, RootWatchState>()
+    private readonly ignoredPathKeys: string[]
+
+    constructor(private readonly options: FileIndexWatcherOptions) {
+        this.ignoredPathKeys = options.ignoredPaths.map((pathValue) => normalizeWatchKey(pathValue))
+    }
+
+    watchRoot(rootPath: string): void {
+        const resolvedRootPath = resolve(rootPath)
+        const rootKey = normalizeWatchKey(resolvedRootPath)
+        if (this.roots.has(rootKey)) return
+        if (Array.from(this.roots.keys()).some((watchedKey) => isWithinWatchScope(rootKey, watchedKey))) return
+        if (this.ignoredPathKeys.some((ignoredKey) => isWithinWatchScope(ignoredKey, rootKey))) {
+            log.info('[FileIndexWatcher] Skipping root that contains the index store.', resolvedRootPath)
+            return
+        }
+
+        let watcher: FSWatcher
+        try {
+            watcher = watch(resolvedRootPath, { recursive: true, persistent: false }, (_eventType, fileName) => {
+                if (!fileName) {
+                    this.queuePath(rootKey, resolvedRootPath)
+                    return
+                }
+                this.queuePath(rootKey, join(resolvedRootPath, String(fileName)))
+            })
+        } catch (error) {
+            log.warn('[FileIndexWatcher] Failed to watch root.', resolvedRootPath, error)
+            return
+        }
+
+        for (const [watchedKey, state] of Array.from(this.roots.entries())) {
+            if (isWithinWatchScope(watchedKey, rootKey)) {
+                this.unwatchRoot(state.rootPath)
+            }
+        }
+
+        watcher.on('error', (error) => {
+            log.warn('[FileIndexWatcher] Watcher stopped after an error.', resolvedRootPath, error)
+            this.unwatchRoot(resolvedRootPath)
+        })
+
+        this.roots.set(rootKey, {
+            rootPath: resolvedRootPath,
+            watcher,
+            pendingPaths: new Set(),
+            timer: null
+        })
+        log.info('[FileIndexWatcher] Watching root.', resolvedRootPath)
+    }
+
+    unwatchRoot(rootPath: string): void {
+        const rootKey = normalizeWatchKey(rootPath)
+        const state = this.roots.get(rootKey)
+        if (!state) return
+        this.roots.delete(rootKey)
+        if (state.timer) clearTimeout(state.timer)
+        try {
+            state.watcher.close()
+        } catch {
+            // Watcher may already be closed after an error.
+        }
+    }
+
+    dispose(): void {
+        for (const state of Array.from(this.roots.values())) {
+            this.unwatchRoot(state.rootPath)
+        }
+    }
+
+    private queuePath(rootKey: string, changedPath: string): void {
+        const state = this.roots.get(rootKey)
+        if (!state) return
+
+        const refreshPath = this.resolveRefreshPath(state.rootPath, changedPath)
+        if (!refreshPath) return
+
+        if (state.pendingPaths.size >= FILE_INDEX_WATCH_MAX_PENDING_PATHS) {
+            state.pendingPaths.clear()
+            state.pendingPaths.add(state.rootPath)
+        } else {
+            state.pendingPaths.add(refreshPath)
+        }
+
+        if (state.timer) return
+        state.timer = setTimeout(() => {
+            state.timer = null
+            const changedPaths = Array.from(state.pendingPaths)
+            state.pendingPaths.clear()
+            if (changedPaths.length === 0) return
+            this.options.onBatch({ rootPath: state.rootPath, changedPaths })
+        }, this.options.batchDelayMs)
+        state.timer.unref?.()
+    }
+
+    private resolveRefreshPath(rootPath: string, changedPath: string): string | null {
+        const resolvedPath = resolve(changedPath)
+        const changedKey = normalizeWatchKey(resolvedPath)
+        if (this.ignoredPathKeys.some((ignoredKey) => isWithinWatchScope(changedKey, ignoredKey))) {
+            return null
+        }
+
+        const rootKey = normalizeWatchKey(rootPath)
+        const relativeSegments = changedKey.slice(rootKey.length).split('/').filter(Boolean)
+        const parentSegments = relativeSegments.slice(0, -1)
+        // Skipped directories are never indexed, so changes inside them need no refresh.
+        if (parentSegments.some((segment) => this.options.skipDirectoryNames.has(segment.toLowerCase()))) return null
+
+        // Marker files (including a new .git) change the project metadata stored on their parent directory.
+        if (changedKey !== rootKey && this.isProjectMarker(basename(resolvedPath))) {
+            return dirname(resolvedPath)
+        }
+
+        const name = relativeSegments[relativeSegments.length - 1]
+        if (name && this.options.skipDirectoryNames.has(name.toLowerCase())) return null
+        return resolvedPath
+    }
+
+    private isProjectMarker(fileName: string): boolean {
+        const name = fileName.toLowerCase()
+        return this.options.getMarkerNames().some((marker) => {
+            const normalizedMarker = marker.toLowerCase()
+            return normalizedMarker.startsWith('*') ? name.endsWith(normalizedMarker.slice(1)) : name === normalizedMarker
+        })
+    }
+}
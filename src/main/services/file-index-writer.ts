@@ -0,0 +1,278 @@
+import { readdir, stat } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import log from 'electron-log'
+import type { Database as SqlDatabase, Statement } from 'sql.js/dist/sql-asm.js'
+import { isContentIndexCandidate } from './file-index-content'
+import { deleteContentDocuments, insertContentDocument, rebuildContentIndexIfStale } from './file-index-content-search'
+import { inspectDirectory } from './file-index-metadata'
+import {
+    depthFromRoot,
+    FILE_INDEX_YIELD_INTERVAL,
+    getFileExtension,
+    jsonStringify,
+    normalizePathKey,
+    resolveEntryName,
+    SKIP_RECURSIVE_DIRECTORY_NAMES,
+    sqlBool,
+    toNullableNumber,
+    toRelativePath,
+    yieldToEventLoop,
+    type FileIndexRootRow
+} from './file-index-store'
+
+const INSERT_ENTRY_SQL = `
+    INSERT OR REPLACE INTO file_index_entries (
+        path,
+        normalized_path,
+        root_path,
+        normalized_root_path,
+        parent_path,
+        normalized_parent_path,
+        relative_path,
+        relative_path_lower,
+        name,
+        name_lower,
+        type,
+        extension,
+        size,
+        last_modified,
+        is_hidden,
+        is_project,
+        project_type,
+        project_icon_path,
+        markers_json,
+        frameworks_json,
+        depth
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`
+
+export async function reindexRoot(db: SqlDatabase, rootPath: string): Promise<void> {
+    const normalizedRootPath = normalizePathKey(rootPath)
+    const timestamp = Date.now()
+
+    db.run('BEGIN')
+    try {
+        db.run('DELETE FROM file_index_entries WHERE normalized_root_path = ?', [normalizedRootPath])
+        deleteContentDocuments(db, 'normalized_root_path = ?', [normalizedRootPath])
+        db.run('DELETE FROM file_index_roots WHERE normalized_root_path = ?', [normalizedRootPath])
+
+        const insertStatement = db.prepare(INSERT_ENTRY_SQL)
+        try {
+            await indexDirectoryTree(db, rootPath, rootPath, null, 0, insertStatement)
+        } finally {
+            insertStatement.free()
+        }
+
+        db.run(
+            'INSERT INTO file_index_roots (root_path, normalized_root_path, last_indexed_at) VALUES (?, ?, ?)',
+            [rootPath, normalizedRootPath, timestamp]
+        )
+        db.run('COMMIT')
+    } catch (error) {
+        db.run('ROLLBACK')
+        throw error
+    }
+
+    await rebuildContentIndexIfStale(db)
+}
+
+/** Replaces the entries under `targetPath`, which must lie inside the indexed `existingRoot`. */
+export async function reindexSubtree(db: SqlDatabase, existingRoot: FileIndexRootRow, targetPath: string): Promise<void> {
+    const normalizedTargetPath = normalizePathKey(targetPath)
+    db.run('BEGIN')
+    try {
+        db.run(
+            'DELETE FROM file_index_entries WHERE normalized_root_path = ? AND (normalized_path = ? OR normalized_path LIKE ?)',
+            [existingRoot.normalizedRootPath, normalizedTargetPath, `${normalizedTargetPath}/%`]
+        )
+        deleteContentDocuments(
+            db,
+            'normalized_root_path = ? AND (normalized_path = ? OR normalized_path LIKE ?)',
+            [existingRoot.normalizedRootPath, normalizedTargetPath, `${normalizedTargetPath}/%`]
+        )
+
+        const insertStatement = db.prepare(INSERT_ENTRY_SQL)
+        try {
+            await indexPath(db, existingRoot.rootPath, targetPath, insertStatement)
+        } finally {
+            insertStatement.free()
+        }
+
+        db.run(
+            'UPDATE file_index_roots SET last_indexed_at = ? WHERE normalized_root_path = ?',
+            [Date.now(), existingRoot.normalizedRootPath]
+        )
+        db.run('COMMIT')
+    } catch (error) {
+        db.run('ROLLBACK')
+        throw error
+    }
+
+    await rebuildContentIndexIfStale(db)
+}
+
+async function indexPath(db: SqlDatabase, rootPath: string, targetPath: string, insertStatement: Statement): Promise<void> {
+    try {
+        const targetStats = await stat(targetPath)
+        if (targetStats.isDirectory()) {
+            const parentPath = normalizePathKey(targetPath) === normalizePathKey(rootPath) ? null : dirname(targetPath)
+            const depth = toRelativePath(rootPath, targetPath).split('/').filter(Boolean).length
+            await indexDirectoryTree(db, rootPath, targetPath, parentPath, depth, insertStatement)
+            return
+        }
+
+        await insertFileEntry(db, rootPath, dirname(targetPath), targetPath, targetStats, insertStatement, depthFromRoot(rootPath, targetPath))
+    } catch {
+        // Ignore missing paths during incremental refresh.
+    }
+}
+
+async function indexDirectoryTree(
+    db: SqlDatabase,
+    rootPath: string,
+    directoryPath: string,
+    parentPath: string | null,
+    depth: number,
+    insertStatement: Statement
+): Promise<void> {
+    const stack: Array<{ path: string; parentPath: string | null; depth: number }> = [{ path: directoryPath, parentPath, depth }]
+    let processedEntries = 0
+
+    while (stack.length > 0) {
+        const current = stack.pop()
+        if (!current) continue
+
+        try {
+            const currentStats = await stat(current.path)
+            const entries = await readdir(current.path, { withFileTypes: true })
+            const metadata = await inspectDirectory(current.path, entries)
+            insertEntry({
+                rootPath,
+                parentPath: current.parentPath,
+                targetPath: current.path,
+                type: 'directory',
+                extension: '',
+                size: undefined,
+                lastModified: currentStats.mtimeMs,
+                isHidden: resolveEntryName(current.path).startsWith('.'),
+                isProject: metadata.markers.length > 0,
+                projectType: metadata.projectType?.id || null,
+                projectIconPath: metadata.projectIconPath,
+                markers: metadata.markers,
+                frameworks: metadata.frameworks,
+                depth: current.depth
+            }, insertStatement)
+            processedEntries += 1
+
+            for (const entry of entries) {
+                if (entry.isSymbolicLink()) continue
+                const entryPath = join(current.path, entry.name)
+                if (entry.isDirectory()) {
+                    if (SKIP_RECURSIVE_DIRECTORY_NAMES.has(entry.name.toLowerCase())) continue
+                    stack.push({
+                        path: entryPath,
+                        parentPath: current.path,
+                        depth: current.depth + 1
+                    })
+                    continue
+                }
+                if (!entry.isFile()) continue
+                try {
+                    const fileStats = await stat(entryPath)
+                    await insertFileEntry(db, rootPath, current.path, entryPath, fileStats, insertStatement, current.depth + 1)
+                    processedEntries += 1
+                } catch (error) {
+                    log.warn(`[FileIndex] Failed to stat file ${entryPath}`, error)
+                }
+                if (processedEntries % FILE_INDEX_YIELD_INTERVAL === 0) {
+                    await yieldToEventLoop()
+                }
+            }
+        } catch (error) {
+            log.warn(`[FileIndex] Failed to index directory ${current.path}`, error)
+        }
+
+        if (processedEntries % FILE_INDEX_YIELD_INTERVAL === 0) {
+            await yieldToEventLoop()
+        }
+    }
+}
+
+async function insertFileEntry(
+    db: SqlDatabase,
+    rootPath: string,
+    parentPath: string,
+    filePath: string,
+    fileStats: Awaited<ReturnType<typeof stat>>,
+    insertStatement: Statement,
+    depth: number
+): Promise<void> {
+    const name = resolveEntryName(filePath)
+    const extension = getFileExtension(name)
+    insertEntry({
+        rootPath,
+        parentPath,
+        targetPath: filePath,
+        type: 'file',
+        extension,
+        size: Number(fileStats.size),
+        lastModified: Number(fileStats.mtimeMs),
+        isHidden: name.startsWith('.'),
+        isProject: false,
+        projectType: null,
+        projectIconPath: null,
+        markers: [],
+        frameworks: [],
+        depth
+    }, insertStatement)
+
+    if (isContentIndexCandidate(name, extension, Number(fileStats.size))) {
+        await insertContentDocument(db, rootPath, filePath)
+    }
+}
+
+function insertEntry(
+    input: {
+        rootPath: string
+        parentPath: string | null
+        targetPath: string
+        type: 'file' | 'directory'
+        extension: string
+        size?: number
+        lastModified?: number
+        isHidden: boolean
+        isProject: boolean
+        projectType: string | null
+        projectIconPath: string | null
+        markers: string[]
+        frameworks: string[]
+        depth: number
+    },
+    insertStatement: Statement
+): void {
+    const relativePath = toRelativePath(input.rootPath, input.targetPath)
+    const name = resolveEntryName(input.targetPath)
+    insertStatement.run([
+        input.targetPath,
+        normalizePathKey(input.targetPath),
+        input.rootPath,
+        normalizePathKey(input.rootPath),
+        input.parentPath,
+        input.parentPath ? normalizePathKey(input.parentPath) : null,
+        relativePath,
+        relativePath.toLowerCase(),
+        name,
+        name.toLowerCase(),
+        input.type,
+        input.extension.toLowerCase(),
+        toNullableNumber(input.size),
+        toNullableNumber(input.lastModified),
+        sqlBool(input.isHidden),
+        sqlBool(input.isProject),
+        input.projectType,
+        input.projectIconPath,
+        jsonStringify(input.markers),
+        jsonStringify(input.frameworks),
+        input.depth
+    ])
+}
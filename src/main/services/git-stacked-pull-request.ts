@@ -74,7 +74,7 @@ export async function commitPushAndCreatePullRequest(
         }
     }
 
-    onProgress?.('Checking GitHub...')
+    onProgress?.('Checking forge...')
     await ensurePullRequestPrerequisites(projectPath)
 
     if (input.autoStageAll) {
@@ -87,7 +87,7 @@ export async function getGitHubPublishContext(projectPath: string): Promise<DevS
             ...remote,
             repoRef: parseGitHubRemoteRef(remote.pushUrl)
         }))
-        .filter((remote): remote is { name: string; fetchUrl: string; pushUrl: string; repoRef: GitHubRepoRef } => Boolean(remote.repoRef))
+        .filter((remote): remote is typeof remote & { repoRef: GitHubRepoRef } => Boolean(remote.repoRef))
 
     const preferredRemote = githubRemotes.find((remote) => remote.name === 'origin')
         ?? githubRemotes[0]
@@ -1,12 +1,8 @@
+import { parseForgeRemoteRef } from '../../shared/forge-remote'
 import { createGit, getRepoContext } from '../inspectors/git/core'
-import { pushCommits } from '../inspectors/git/write'
+import { pushCommits, readForgeHostOverrides } from '../inspectors/git/write'
 import { getGitHubPublishContext } from './github-publish'
-import {
-    parseGitHubRemoteRef,
-    parseGitHubRepositoryNameWithOwnerFromRemoteUrl,
-    parseGitHubRepositoryOwnerLogin
-} from './github-remote'
-import { resolveDefaultBranch } from './github-pull-request-gh'
+import { getPreferredForgeRemote, type PullRequestForge } from './pull-request-forge'
 import type { BranchHeadContext, BranchState } from './github-pull-request-types'
 
 function appendUnique(values: string[], next: string | null | undefined) {
@@ -33,7 +29,7 @@ export function parseUpstreamRef(upstreamRef: string | null | undefined): { remo
     return remoteName && branchName ? { remoteName, branchName } : null
 }
 
-export async function resolveRepoCwd(projectPath: string) {
+async function resolveRepoCwd(projectPath: string) {
     const git = createGit(projectPath)
     const repoContext = await getRepoContext(git, projectPath)
     return repoContext.repoRoot
@@ -42,12 +38,13 @@ export async function resolveRepoCwd(projectPath: string) {
 export async function readBranchState(projectPath: string): Promise<BranchState> {
     const cwd = await resolveRepoCwd(projectPath)
     const git = createGit(cwd)
-    const [branchRaw, workingTreeRaw, upstreamRefRaw, aheadBehindRaw, remotes] = await Promise.all([
+    const [branchRaw, workingTreeRaw, upstreamRefRaw, aheadBehindRaw, remotes, hostForges] = await Promise.all([
         git.raw(['rev-parse', '--abbrev-ref', 'HEAD']).catch(() => 'HEAD'),
         git.raw(['status', '--porcelain=v1']).catch(() => ''),
         git.raw(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{u}']).catch(() => ''),
         git.raw(['rev-list', '--left-right', '--count', 'HEAD...@{u}']).catch(() => ''),
-        git.getRemotes(true).catch(() => [])
+        git.getRemotes(true).catch(() => []),
+        readForgeHostOverrides(cwd)
     ])
 
     const branch = String(branchRaw || '').trim() || null
@@ -66,21 +63,25 @@ export async function readBranchState(projectPath: string): Promise<BranchState>
         upstreamRef,
         ahead: Number.isNaN(Number.parseInt(aheadText || '0', 10)) ? 0 : Number.parseInt(aheadText || '0', 10),
         behind: Number.isNaN(Number.parseInt(behindText || '0', 10)) ? 0 : Number.parseInt(behindText || '0', 10),
-        remotes: remotes.map((remote) => ({
-            name: remote.name,
-            fetchUrl: String(remote.refs?.fetch || '').trim(),
-            pushUrl: String(remote.refs?.push || '').trim()
-        }))
+        remotes: remotes.map((remote) => {
+            const fetchUrl = String(remote.refs?.fetch || '').trim()
+            const pushUrl = String(remote.refs?.push || '').trim()
+            return {
+                name: remote.name,
+                fetchUrl,
+                pushUrl,
+                forge: parseForgeRemoteRef(pushUrl || fetchUrl, hostForges)?.kind ?? null
+            }
+        }),
+        hostForges
     }
 }
 
-export function getPreferredGitHubRemote(remotes: Array<{ name: string; fetchUrl: string; pushUrl: string }>) {
-    return remotes.find((remote) => remote.name === 'origin' && parseGitHubRemoteRef(remote.pushUrl || remote.fetchUrl))
-        ?? remotes.find((remote) => parseGitHubRemoteRef(remote.pushUrl || remote.fetchUrl))
-        ?? null
-}
-
-export async function resolveBranchHeadContext(projectPath: string, branchState: BranchState): Promise<BranchHeadContext> {
+export async function resolveBranchHeadContext(
+    projectPath: string,
+    branchState: BranchState,
+    forge: PullRequestForge
+): Promise<BranchHeadContext> {
     const branch = String(branchState.branch || '').trim()
     if (!branch || branchState.detached) {
         throw new Error('Cannot resolve a pull request branch from detached HEAD.')
@@ -92,11 +93,16 @@ export async function resolveBranchHeadContext(projectPath: string, branchState:
     const trackedRemote = trackedRemoteName
         ? branchState.remotes.find((remote) => remote.name === trackedRemoteName) || null
         : null
-    const trackedRepositoryNameWithOwner = parseGitHubRepositoryNameWithOwnerFromRemoteUrl(trackedRemote?.pushUrl || trackedRemote?.fetchUrl)
-    const trackedOwnerLogin = parseGitHubRepositoryOwnerLogin(trackedRepositoryNameWithOwner)
+    const trackedRepo = trackedRemote
+        ? parseForgeRemoteRef(trackedRemote.pushUrl || trackedRemote.fetchUrl, branchState.hostForges)
+        : null
+    const trackedRepositoryNameWithOwner = trackedRepo?.kind === forge.context.repo.kind ? trackedRepo.fullName : null
+    const trackedOwnerLogin = trackedRepositoryNameWithOwner ? trackedRepo?.owner || null : null
 
-    const publishContext = await getGitHubPublishContext(projectPath).catch(() => null)
-    const upstreamFullName = publishContext?.upstream?.fullName || null
+    // On GitHub the base repository is the fork parent; elsewhere it is the preferred remote itself.
+    const isGitHub = forge.provider.kind === 'github'
+    const publishContext = isGitHub ? await getGitHubPublishContext(projectPath).catch(() => null) : null
+    const upstreamFullName = isGitHub ? publishContext?.upstream?.fullName || null : forge.context.repo.fullName
     const isCrossRepository = Boolean(
         trackedRepositoryNameWithOwner
         && upstreamFullName
@@ -108,7 +114,7 @@ export async function resolveBranchHeadContext(projectPath: string, branchState:
         ? `${trackedOwnerLogin}:${trackedRemoteBranch}`
         : trackedRemoteBranch
     appendUnique(headSelectors, ownerQualifiedSelector)
-    appendUnique(headSelectors, trackedRemoteName ? `${trackedRemoteName}:${trackedRemoteBranch}` : null)
+    appendUnique(headSelectors, isGitHub && trackedRemoteName ? `${trackedRemoteName}:${trackedRemoteBranch}` : null)
     appendUnique(headSelectors, branch)
     appendUnique(headSelectors, trackedRemoteBranch !== branch ? trackedRemoteBranch : null)
 
@@ -124,7 +130,7 @@ export async function resolveBranchHeadContext(projectPath: string, branchState:
 }
 
 export async function resolveBaseBranch(
-    cwd: string,
+    forge: PullRequestForge,
     branch: string,
     upstreamRef: string | null,
     isCrossRepository: boolean,
@@ -135,7 +141,7 @@ export async function resolveBaseBranch(
         return normalizedPreferred
     }
 
-    const git = createGit(cwd)
+    const git = createGit(forge.context.cwd)
     const configured = String(await git.raw(['config', '--get', `branch.${branch}.gh-merge-base`]).catch(() => '')).trim()
     if (configured) return configured
 
@@ -144,7 +150,7 @@ export async function resolveBaseBranch(
         return upstream.branchName
     }
 
-    return await resolveDefaultBranch(cwd).catch(() => 'main')
+    return await forge.provider.resolveDefaultBranch(forge.context).catch(() => 'main')
 }
 
 export async function ensureNoWorkingTreeChanges(branchState: BranchState) {
@@ -163,9 +169,9 @@ export async function ensureNoWorkingTreeChanges(branchState: BranchState) {
 }
 
 export async function pushCurrentBranchIfNeeded(projectPath: string, branchState: BranchState) {
-    const preferredRemote = getPreferredGitHubRemote(branchState.remotes)
+    const preferredRemote = getPreferredForgeRemote(branchState.remotes)
     if (!preferredRemote) {
-        throw new Error('Add a GitHub remote before creating a PR.')
+        throw new Error('Add a GitHub, GitLab or Gitea remote before creating a PR.')
     }
 
     const branch = String(branchState.branch || '').trim()
@@ -6,13 +6,19 @@ import { join } from 'path'
 import { promisify } from 'util'
 import { getAugmentedEnv } from '../inspectors/safe-exec'
 import { parseGitHubRepositoryOwnerLogin } from './github-remote'
-import type { CreatePullRequestRequest, PullRequestInfo, PullRequestState } from './github-pull-request-types'
+import type {
+    CreatePullRequestRequest,
+    ForgeProvider,
+    PullRequestInfo,
+    PullRequestListState,
+    PullRequestState
+} from './github-pull-request-types'
 
 const execFileAsync = promisify(execFileCallback)
 const GH_TIMEOUT_MS = 30_000
 const GITHUB_PULL_REQUEST_JSON_FIELDS = 'number,title,url,baseRefName,headRefName,state,mergedAt,updatedAt,isCrossRepository,headRepository,headRepositoryOwner'
 
-export async function runGh(cwd: string, args: string[]) {
+async function runGh(cwd: string, args: string[]) {
     try {
         const result = await execFileAsync('gh', args, {
             cwd,
@@ -103,7 +109,7 @@ function parsePullRequestList(raw: string): PullRequestInfo[] {
     }
 }
 
-async function listPullRequests(cwd: string, headSelector: string, state: 'open' | 'all') {
+async function listPullRequests(cwd: string, headSelector: string, state: PullRequestListState) {
     const result = await runGh(cwd, [
         'pr',
         'list',
@@ -119,40 +125,13 @@ async function listPullRequests(cwd: string, headSelector: string, state: 'open'
     return parsePullRequestList(result.stdout)
 }
 
-export async function findOpenPullRequest(cwd: string, headSelectors: string[]) {
-    for (const headSelector of headSelectors) {
-        const matches = await listPullRequests(cwd, headSelector, 'open').catch(() => [])
-        if (matches[0]) {
-            return matches[0]
-        }
-    }
-    return null
-}
-
-export async function findLatestPullRequest(cwd: string, headSelectors: string[]) {
-    const byNumber = new Map<number, PullRequestInfo>()
-    for (const headSelector of headSelectors) {
-        const matches = await listPullRequests(cwd, headSelector, 'all').catch(() => [])
-        for (const match of matches) {
-            byNumber.set(match.number, match)
-        }
-    }
-
-    const parsed = Array.from(byNumber.values()).sort((left, right) => {
-        const leftTime = left.updatedAt ? Date.parse(left.updatedAt) : 0
-        const rightTime = right.updatedAt ? Date.parse(right.updatedAt) : 0
-        return rightTime - leftTime
-    })
-    return parsed.find((entry) => entry.state === 'open') || parsed[0] || null
-}
-
-export async function resolveDefaultBranch(cwd: string) {
+async function resolveDefaultBranch(cwd: string) {
     const result = await runGh(cwd, ['repo', 'view', '--json', 'defaultBranchRef', '--jq', '.defaultBranchRef.name'])
     const branch = String(result.stdout || '').trim()
     return branch || 'main'
 }
 
-export async function createPullRequest(cwd: string, input: CreatePullRequestRequest) {
+async function createPullRequest(cwd: string, input: CreatePullRequestRequest) {
     const bodyFile = join(tmpdir(), `devscope-pr-body-${process.pid}-${randomUUID()}.md`)
     await writeFile(bodyFile, input.body, 'utf8')
     try {
@@ -174,3 +153,28 @@ export async function createPullRequest(cwd: string, input: CreatePullRequestReq
         await unlink(bodyFile).catch(() => undefined)
     }
 }
+
+// GitHub goes through `gh` so its existing login is reused instead of asking for a separate token.
+export const githubForgeProvider: ForgeProvider = {
+    kind: 'github',
+    ensurePrerequisites: async ({ cwd }) => {
+        await runGh(cwd, ['--version'])
+        await runGh(cwd, ['auth', 'status'])
+    },
+    listPullRequests: ({ cwd }, headSelector, state) => listPullRequests(cwd, headSelector, state),
+    createPullRequest: async ({ cwd }, input) => {
+        const stdout = await createPullRequest(cwd, input)
+        const urlMatch = stdout.match(/https?:\/\/\S+\/pull\/(\d+)/i)
+        if (!urlMatch) return null
+        return {
+            number: Number(urlMatch[1]),
+            title: input.title,
+            url: urlMatch[0],
+            baseBranch: input.baseBranch,
+            headBranch: input.headSelector.slice(input.headSelector.indexOf(':') + 1),
+            state: 'open',
+            updatedAt: null
+        }
+    },
+    resolveDefaultBranch: ({ cwd }) => resolveDefaultBranch(cwd)
+}
@@ -1,9 +1,11 @@
 import type {
     DevScopeCreatePullRequestInput,
+    DevScopeForgeKind,
     DevScopePullRequestDraftSource,
     DevScopePullRequestProvider,
     DevScopePullRequestSummary
 } from '../../shared/contracts/devscope-git-contracts'
+import type { ForgeRepoRef } from '../../shared/forge-remote'
 
 export type PullRequestState = 'open' | 'closed' | 'merged'
 
@@ -22,7 +24,8 @@ export type BranchState = {
     upstreamRef: string | null
     ahead: number
     behind: number
-    remotes: Array<{ name: string; fetchUrl: string; pushUrl: string }>
+    remotes: Array<{ name: string; fetchUrl: string; pushUrl: string; forge: DevScopeForgeKind | null }>
+    hostForges: Record<string, DevScopeForgeKind>
 }
 
 export type BranchHeadContext = {
@@ -45,9 +48,32 @@ export type EnsuredDraft = {
 export type CreatePullRequestRequest = {
     baseBranch: string
     headSelector: string
+    /** `owner/repo` the head branch lives in when it differs from the base repository. */
+    headRepository: string | null
     title: string
     body: string
     draft: boolean
 }
 
+export type PullRequestListState = 'open' | 'all'
+
+export type ForgeContext = {
+    cwd: string
+    repo: ForgeRepoRef
+}
+
+/**
+ * One hosting service DevScope can open pull requests (merge requests on GitLab) against.
+ * Head selectors are branch names, optionally qualified as `owner:branch` for forks.
+ */
+export interface ForgeProvider {
+    kind: DevScopeForgeKind
+    /** Fails with an actionable message when the forge cannot be reached or no credentials are set up. */
+    ensurePrerequisites: (context: ForgeContext) => Promise<void>
+    listPullRequests: (context: ForgeContext, headSelector: string, state: PullRequestListState) => Promise<PullRequestInfo[]>
+    /** Returns the created pull request when the forge reports it directly. */
+    createPullRequest: (context: ForgeContext, input: CreatePullRequestRequest) => Promise<PullRequestInfo | null>
+    resolveDefaultBranch: (context: ForgeContext) => Promise<string>
+}
+
 export type DraftInput = DevScopeCreatePullRequestInput
@@ -1,16 +1,13 @@
 import log from 'electron-log'
 import { ensureDraft } from './github-pull-request-draft'
-import { createPullRequest, findLatestPullRequest, findOpenPullRequest, runGh } from './github-pull-request-gh'
 import {
     ensureNoWorkingTreeChanges,
-    getPreferredGitHubRemote,
     pushCurrentBranchIfNeeded,
     readBranchState,
     resolveBaseBranch,
-    resolveBranchHeadContext,
-    resolveRepoCwd
+    resolveBranchHeadContext
 } from './github-pull-request-branch'
-import type { PullRequestState } from './github-pull-request-types'
+import { findLatestPullRequest, findOpenPullRequest, resolvePullRequestForge } from './pull-request-forge'
 import type {
     DevScopeCreatePullRequestInput,
     DevScopePullRequestDraftSource,
@@ -23,10 +20,14 @@ function toServiceError(err: unknown, fallback: string): Error {
     return new Error(fallback)
 }
 
+const MISSING_FORGE_REMOTE_MESSAGE = 'Add a GitHub, GitLab or Gitea remote before creating a PR.'
+
 export async function ensurePullRequestPrerequisites(projectPath: string): Promise<void> {
-    const cwd = await resolveRepoCwd(projectPath)
-    await runGh(cwd, ['--version'])
-    await runGh(cwd, ['auth', 'status'])
+    const forge = resolvePullRequestForge(await readBranchState(projectPath))
+    if (!forge) {
+        throw new Error(MISSING_FORGE_REMOTE_MESSAGE)
+    }
+    await forge.provider.ensurePrerequisites(forge.context)
 }
 
 export async function getCurrentBranchPullRequest(projectPath: string): Promise<DevScopePullRequestSummary | null> {
@@ -35,13 +36,13 @@ export async function getCurrentBranchPullRequest(projectPath: string): Promise<
         return null
     }
 
-    const preferredRemote = getPreferredGitHubRemote(branchState.remotes)
-    if (!preferredRemote) {
+    const forge = resolvePullRequestForge(branchState)
+    if (!forge) {
         return null
     }
 
-    const headContext = await resolveBranchHeadContext(projectPath, branchState)
-    const latest = await findLatestPullRequest(branchState.cwd, headContext.headSelectors)
+    const headContext = await resolveBranchHeadContext(projectPath, branchState, forge)
+    const latest = await findLatestPullRequest(forge, headContext.headSelectors)
     if (!latest) return null
 
     return {
@@ -68,9 +69,8 @@ export async function createOrOpenPullRequest(
     }
     await ensureNoWorkingTreeChanges(branchStateBeforePush)
 
-    const preferredRemote = getPreferredGitHubRemote(branchStateBeforePush.remotes)
-    if (!preferredRemote) {
-        throw new Error('Add a GitHub remote before creating a PR.')
+    if (!resolvePullRequestForge(branchStateBeforePush)) {
+        throw new Error(MISSING_FORGE_REMOTE_MESSAGE)
     }
 
     onProgress?.('Pushing...')
@@ -83,10 +83,14 @@ export async function createOrOpenPullRequest(
     if (!branch) {
         throw new Error('Detached HEAD: checkout a branch before creating a PR.')
     }
+    const forge = resolvePullRequestForge(branchState)
+    if (!forge) {
+        throw new Error(MISSING_FORGE_REMOTE_MESSAGE)
+    }
 
     onProgress?.('Checking PR...')
-    const headContext = await resolveBranchHeadContext(projectPath, branchState)
-    const existing = await findOpenPullRequest(branchState.cwd, headContext.headSelectors)
+    const headContext = await resolveBranchHeadContext(projectPath, branchState, forge)
+    const existing = await findOpenPullRequest(forge, headContext.headSelectors)
     if (existing) {
         return {
             status: 'opened_existing' as const,
@@ -104,7 +108,7 @@ export async function createOrOpenPullRequest(
 
     onProgress?.('Resolving base...')
     const baseBranch = await resolveBaseBranch(
-        branchState.cwd,
+        forge,
         branch,
         branchState.upstreamRef,
         headContext.isCrossRepository,
@@ -118,34 +122,18 @@ export async function createOrOpenPullRequest(
     const draft = await ensureDraft(branchState.cwd, branch, baseBranch, input)
 
     onProgress?.('Creating PR...')
-    const createStdout = await createPullRequest(branchState.cwd, {
+    const reported = await forge.provider.createPullRequest(forge.context, {
         baseBranch,
         headSelector: headContext.preferredHeadSelector,
+        headRepository: headContext.isCrossRepository ? headContext.headRepositoryNameWithOwner : null,
         title: draft.title,
         body: draft.body,
         draft: input.draft !== false
     })
 
     onProgress?.('Finalizing PR...')
-    const created = await findOpenPullRequest(branchState.cwd, headContext.headSelectors)
-    if (created) {
-        return {
-            status: 'created' as const,
-            draftSource: draft.source,
-            ...(draft.provider ? { provider: draft.provider } : {}),
-            pullRequest: {
-                number: created.number,
-                title: created.title,
-                url: created.url,
-                baseBranch: created.baseBranch,
-                headBranch: created.headBranch,
-                state: created.state
-            }
-        }
-    }
-
-    const urlMatch = createStdout.match(/https:\/\/github\.com\/[^\s]+\/pull\/\d+/i)
-    if (!urlMatch) {
+    const created = reported ?? await findOpenPullRequest(forge, headContext.headSelectors)
+    if (!created) {
         throw new Error('Pull request was created, but DevScope could not resolve its URL.')
     }
 
@@ -154,12 +142,12 @@ export async function createOrOpenPullRequest(
         draftSource: draft.source,
         ...(draft.provider ? { provider: draft.provider } : {}),
         pullRequest: {
-            number: 0,
-            title: draft.title,
-            url: urlMatch[0],
-            baseBranch,
-            headBranch: headContext.headBranch,
-            state: 'open' as PullRequestState
+            number: created.number,
+            title: created.title,
+            url: created.url,
+            baseBranch: created.baseBranch,
+            headBranch: created.headBranch,
+            state: created.state
         }
     }
 }
@@ -185,6 +173,6 @@ export function summarizePullRequestOutcome(input: {
 }
 
 export function logPullRequestError(context: string, error: unknown) {
-    log.error(`[GitHub PR] ${context}:`, error)
+    log.error(`[Pull Request] ${context}:`, error)
     return toServiceError(error, 'Failed to handle pull request.')
 }
@@ -44,10 +44,6 @@ export function parseGitHubRemoteRef(remoteUrl: string): GitHubRepoRef | null {
     }
 }
 
-export function parseGitHubRepositoryNameWithOwnerFromRemoteUrl(remoteUrl: string | null | undefined): string | null {
-    return parseGitHubRemoteRef(String(remoteUrl || ''))?.fullName || null
-}
-
 export function parseGitHubRepositoryOwnerLogin(nameWithOwner: string | null | undefined): string | null {
     const normalized = String(nameWithOwner || '').trim()
     if (!normalized) return null
@@ -0,0 +1,114 @@
+import { app } from 'electron'
+import { mkdirSync, writeFileSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import log from 'electron-log'
+
+export type PersistedPreviewTerminalSession = {
+    sessionId: string
+    title: string
+    shell: string
+    /** Shell id the session was launched with; re-resolved on relaunch. */
+    preferredShell: string
+    cwd: string
+    groupKey: string
+    startedAt: number
+    lastActivityAt: number
+    exitCode: number | null
+    scrollback: string
+    launchCommand: string | null
+    autoRelaunch: boolean
+    /** Set for task-runner sessions, which relaunch through their run configuration. */
+    runConfiguration: PreviewTerminalRunConfigurationRef | null
+}
+
+export type PreviewTerminalRunConfigurationRef = {
+    projectPath: string
+    configId: string
+}
+
+type PreviewTerminalStoreFile = {
+    version: number
+    sessions: PersistedPreviewTerminalSession[]
+}
+
+const STORE_VERSION = 1
+export const MAX_PERSISTED_PREVIEW_TERMINALS = 40
+export const MAX_PERSISTED_SCROLLBACK_CHARS = 20_000
+
+function getStorePath(): string {
+    return join(app.getPath('userData'), 'terminals', 'preview-sessions.json')
+}
+
+function sanitizePersistedSession(raw: unknown): PersistedPreviewTerminalSession | null {
+    if (!raw || typeof raw !== 'object') return null
+    const record = raw as Record<string, unknown>
+    const sessionId = String(record.sessionId || '').trim()
+    const cwd = String(record.cwd || '').trim()
+    if (!sessionId || !cwd) return null
+    const startedAt = Number(record.startedAt) || Date.now()
+    // Older files stored typed input as `lastCommand`; it is deliberately not carried over.
+    const launchCommand = String(record.launchCommand || '').trim()
+    const runConfiguration = record.runConfiguration && typeof record.runConfiguration === 'object'
+        ? record.runConfiguration as Record<string, unknown>
+        : null
+    const runProjectPath = String(runConfiguration?.projectPath || '').trim()
+    const runConfigId = String(runConfiguration?.configId || '').trim()
+    return {
+        sessionId,
+        title: String(record.title || '').trim() || 'Terminal',
+        shell: String(record.shell || '').trim(),
+        preferredShell: String(record.preferredShell || '').trim() || 'powershell',
+        cwd,
+        groupKey: String(record.groupKey || '').trim() || cwd,
+        startedAt,
+        lastActivityAt: Number(record.lastActivityAt) || startedAt,
+        exitCode: typeof record.exitCode === 'number' ? record.exitCode : null,
+        scrollback: String(record.scrollback || '').slice(-MAX_PERSISTED_SCROLLBACK_CHARS),
+        launchCommand: launchCommand || null,
+        autoRelaunch: record.autoRelaunch === true,
+        runConfiguration: runProjectPath && runConfigId ? { projectPath: runProjectPath, configId: runConfigId } : null
+    }
+}
+
+function serializeStore(sessions: PersistedPreviewTerminalSession[]): string {
+    const payload: PreviewTerminalStoreFile = {
+        version: STORE_VERSION,
+        sessions: [...sessions]
+            .sort((a, b) => b.lastActivityAt - a.lastActivityAt)
+            .slice(0, MAX_PERSISTED_PREVIEW_TERMINALS)
+    }
+    return JSON.stringify(payload)
+}
+
+export async function readPersistedPreviewTerminals(): Promise<PersistedPreviewTerminalSession[]> {
+    try {
+        const parsed = JSON.parse(await readFile(getStorePath(), 'utf-8')) as Partial<PreviewTerminalStoreFile>
+        if (parsed.version !== STORE_VERSION || !Array.isArray(parsed.sessions)) return []
+        return parsed.sessions
+            .map(sanitizePersistedSession)
+            .filter((session): session is PersistedPreviewTerminalSession => Boolean(session))
+    } catch (err: any) {
+        if (err?.code !== 'ENOENT') {
+            log.warn('[PreviewTerminals] Failed to read persisted sessions', err)
+        }
+        return []
+    }
+}
+
+export async function writePersistedPreviewTerminals(sessions: PersistedPreviewTerminalSession[]): Promise<void> {
+    const storePath = getStorePath()
+    await mkdir(dirname(storePath), { recursive: true })
+    await writeFile(storePath, serializeStore(sessions), 'utf-8')
+}
+
+/** Synchronous variant for `before-quit`, where pending async writes would be cut off. */
+export function writePersistedPreviewTerminalsSync(sessions: PersistedPreviewTerminalSession[]): void {
+    try {
+        const storePath = getStorePath()
+        mkdirSync(dirname(storePath), { recursive: true })
+        writeFileSync(storePath, serializeStore(sessions), 'utf-8')
+    } catch (err) {
+        log.warn('[PreviewTerminals] Failed to persist sessions on quit', err)
+    }
+}
@@ -1,11 +1,13 @@
-import { access } from 'fs/promises'
+import { access, readdir, readFile } from 'fs/promises'
 import { spawn } from 'child_process'
-import { join } from 'path'
+import { isAbsolute, join } from 'path'
+
+export type DependencyEcosystem = 'node' | 'python' | 'rust' | 'go' | 'dotnet' | 'unknown'
 
 export type DependencyInstallStatus = {
     installed: boolean | null
     checked: boolean
-    ecosystem: 'node' | 'unknown'
+    ecosystem: DependencyEcosystem
     totalPackages: number
     installedPackages: number
     missingPackages: number
@@ -14,7 +16,32 @@ export type DependencyInstallStatus = {
     reason?: string
 }
 
-export type DependencyInstallManager = 'npm' | 'pnpm' | 'yarn' | 'bun'
+export type DependencyInstallManager =
+    | 'npm' | 'pnpm' | 'yarn' | 'bun'
+    | 'pip' | 'uv' | 'poetry'
+    | 'cargo' | 'go' | 'dotnet'
+
+export type DependencyInstallStep = {
+    command: string
+    args: string[]
+}
+
+export type DependencyInstallPlan = {
+    ecosystem: DependencyEcosystem
+    manager: DependencyInstallManager
+    steps: DependencyInstallStep[]
+}
+
+export type DeclaredProjectDependencies = {
+    dependencies: Record<string, string>
+    devDependencies: Record<string, string>
+}
+
+export type ProjectDependencyInspection = DeclaredProjectDependencies & {
+    status: DependencyInstallStatus
+}
+
+export type DependencyInstallOutputStream = 'stdout' | 'stderr' | 'system'
 
 export type ProjectPackageJson = {
     packageManager?: string
@@ -89,6 +116,53 @@ export async function detectNodeDependencyInstallStatus(
     }
 }
 
+export function buildInstallStatus(
+    ecosystem: DependencyEcosystem,
+    dependencyNames: string[],
+    missing: string[],
+    reason?: string
+): DependencyInstallStatus {
+    return {
+        installed: missing.length === 0,
+        checked: true,
+        ecosystem,
+        totalPackages: dependencyNames.length,
+        installedPackages: dependencyNames.length - missing.length,
+        missingPackages: missing.length,
+        missingDependencies: missing,
+        missingSample: missing.slice(0, 5),
+        ...(reason ? { reason } : {})
+    }
+}
+
+export function buildUncheckedStatus(ecosystem: DependencyEcosystem, dependencyNames: string[], reason: string): DependencyInstallStatus {
+    return {
+        installed: null,
+        checked: false,
+        ecosystem,
+        totalPackages: dependencyNames.length,
+        installedPackages: 0,
+        missingPackages: 0,
+        reason
+    }
+}
+
+export async function readTextFileOrNull(filePath: string): Promise<string | null> {
+    try {
+        return await readFile(filePath, 'utf-8')
+    } catch {
+        return null
+    }
+}
+
+export async function readDirectoryNames(directoryPath: string): Promise<string[]> {
+    try {
+        return await readdir(directoryPath)
+    } catch {
+        return []
+    }
+}
+
 export async function detectDependencyInstallManager(
     projectPath: string,
     packageJson: ProjectPackageJson | null
@@ -105,65 +179,67 @@ export async function detectDependencyInstallManager(
     return 'npm'
 }
 
-function installCommandForManager(manager: DependencyInstallManager): { command: string; args: string[] } {
-    if (manager === 'pnpm') return { command: 'pnpm', args: ['install'] }
-    if (manager === 'yarn') return { command: 'yarn', args: ['install'] }
-    if (manager === 'bun') return { command: 'bun', args: ['install'] }
-    return { command: 'npm', args: ['install'] }
+function formatInstallStep(step: DependencyInstallStep): string {
+    return [step.command, ...step.args].map((part) => (/\s/.test(part) ? `"${part}"` : part)).join(' ')
 }
 
-export async function runInstallProcess(
+function runInstallStep(
     projectPath: string,
-    manager: DependencyInstallManager
-): Promise<{ success: boolean; output: string; error: string | null; code: number | null }> {
-    const { command, args } = installCommandForManager(manager)
-    return await new Promise((resolve) => {
-        const child = spawn(command, args, {
-            cwd: projectPath,
-            shell: process.platform === 'win32',
-            windowsHide: true,
-            env: process.env
+    step: DependencyInstallStep,
+    appendOutput: (chunk: string, stream: DependencyInstallOutputStream) => void
+): Promise<{ code: number | null; error: string | null }> {
+    // Bare Windows commands (npm, pnpm, ...) are .cmd shims that only resolve through the shell; resolved
+    // paths such as a venv python spawn directly so spaces in them survive.
+    const useShell = process.platform === 'win32' && !isAbsolute(step.command)
+    return new Promise((resolve) => {
+        const options = { cwd: projectPath, windowsHide: true, env: process.env }
+        const child = useShell
+            ? spawn(formatInstallStep(step), { ...options, shell: true })
+            : spawn(step.command, step.args, options)
+
+        child.stdout?.on('data', (chunk: Buffer | string) => appendOutput(String(chunk || ''), 'stdout'))
+        child.stderr?.on('data', (chunk: Buffer | string) => appendOutput(String(chunk || ''), 'stderr'))
+
+        child.on('error', (error: Error) => {
+            resolve({ code: null, error: error?.message || `Failed to start ${step.command}.` })
         })
 
-        const outputBuffer: string[] = []
-        const appendOutput = (chunk: Buffer | string) => {
-            outputBuffer.push(String(chunk || ''))
-            if (outputBuffer.length > 220) {
-                outputBuffer.splice(0, outputBuffer.length - 220)
-            }
-        }
+        child.on('close', (code) => {
+            resolve({ code: typeof code === 'number' ? code : null, error: null })
+        })
+    })
+}
 
-        child.stdout?.on('data', appendOutput)
-        child.stderr?.on('data', appendOutput)
+export async function runInstallProcess(
+    projectPath: string,
+    plan: DependencyInstallPlan,
+    onOutput?: (chunk: string, stream: DependencyInstallOutputStream) => void
+): Promise<{ success: boolean; output: string; error: string | null; code: number | null }> {
+    const outputBuffer: string[] = []
+    const appendOutput = (chunk: string, stream: DependencyInstallOutputStream) => {
+        outputBuffer.push(chunk)
+        if (outputBuffer.length > 220) {
+            outputBuffer.splice(0, outputBuffer.length - 220)
+        }
+        onOutput?.(chunk, stream)
+    }
 
-        child.on('error', (error: Error) => {
-            const message = error?.message || `Failed to start ${command}.`
-            resolve({
+    for (const step of plan.steps) {
+        appendOutput(`$ ${formatInstallStep(step)}\n`, 'system')
+        const result = await runInstallStep(projectPath, step, appendOutput)
+        if (result.error) {
+            appendOutput(`${result.error}\n`, 'system')
+            return { success: false, output: outputBuffer.join(''), error: result.error, code: null }
+        }
+        if (result.code !== 0) {
+            return {
                 success: false,
                 output: outputBuffer.join(''),
-                error: message,
-                code: null
-            })
-        })
-
-        child.on('close', (code) => {
-            const mergedOutput = outputBuffer.join('')
-            if (code === 0) {
-                resolve({
-                    success: true,
-                    output: mergedOutput,
-                    error: null,
-                    code: 0
-                })
-                return
+                error: `${step.command} failed with exit code ${result.code ?? 'unknown'}.`,
+                code: result.code
             }
+        }
+    }
 
-            resolve({
-                success: false,
-                output: mergedOutput,
-                error: `${command} install failed with exit code ${code ?? 'unknown'}.`,
-                code: typeof code === 'number' ? code : null
-            })
-        })
-    })
+    return { success: true, output: outputBuffer.join(''), error: null, code: 0 }
 }
@@ -0,0 +1,460 @@
+import { homedir } from 'os'
+import { delimiter, dirname, join } from 'path'
+import {
+    buildInstallStatus,
+    buildUncheckedStatus,
+    detectDependencyInstallManager,
+    detectNodeDependencyInstallStatus,
+    pathExists,
+    readDirectoryNames,
+    readTextFileOrNull,
+    type DeclaredProjectDependencies,
+    type DependencyEcosystem,
+    type DependencyInstallManager,
+    type DependencyInstallPlan,
+    type DependencyInstallStep,
+    type ProjectDependencyInspection,
+    type ProjectPackageJson
+} from './project-dependencies'
+
+/** Splits a TOML document into `section name -> body` without a full parser; enough for manifest tables. */
+function readTomlSections(content: string): Map<string, string> {
+    const sections = new Map<string, string>()
+    let current = ''
+    let body: string[] = []
+    const flush = () => {
+        sections.set(current, [sections.get(current) || '', ...body].filter(Boolean).join('\n'))
+        body = []
+    }
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/^\s*#.*$/, '')
+        const sectionMatch = line.match(/^\s*\[\[?([^\]]+)\]\]?\s*$/)
+        if (sectionMatch) {
+            flush()
+            current = sectionMatch[1].trim()
+            continue
+        }
+        body.push(line)
+    }
+    flush()
+    return sections
+}
+
+function readTomlArrayItems(body: string, key: string): string[] {
+    const match = body.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]\\s*$`, 'm'))
+    if (!match) return []
+    return Array.from(match[1].matchAll(/"([^"]*)"|'([^']*)'/g)).map((item) => item[1] ?? item[2] ?? '')
+}
+
+function readTomlKeyValues(body: string): Array<{ key: string; value: string }> {
+    const entries: Array<{ key: string; value: string }> = []
+    for (const line of body.split('\n')) {
+        const match = line.match(/^\s*([A-Za-z0-9_.-]+|"[^"]+")\s*=\s*(.+?)\s*$/)
+        if (match) entries.push({ key: match[1].replace(/^"|"$/g, ''), value: match[2] })
+    }
+    return entries
+}
+
+function readTomlInlineField(value: string, field: string): string | null {
+    const match = value.match(new RegExp(`\\b${field}\\s*=\\s*["']([^"']+)["']`))
+    return match ? match[1] : null
+}
+
+function readTomlVersionValue(value: string): string {
+    const quoted = value.match(/^["']([^"']*)["']/)
+    if (quoted) return quoted[1] || '*'
+    return readTomlInlineField(value, 'version') || (/\bpath\s*=/.test(value) ? 'path' : /\bgit\s*=/.test(value) ? 'git' : '*')
+}
+
+// ---- Python ----------------------------------------------------------------
+
+const PYTHON_VENV_DIRECTORY_NAMES = ['.venv', 'venv', 'env', '.env']
+const PYTHON_DEV_REQUIREMENT_FILES = ['requirements-dev.txt', 'dev-requirements.txt', 'requirements_dev.txt']
+
+function normalizePythonPackageName(value: string): string {
+    return value.toLowerCase().replace(/[-_.]+/g, '-')
+}
+
+function parsePythonRequirement(value: string): { name: string; version: string } | null {
+    const trimmed = value.replace(/#.*$/, '').trim()
+    if (!trimmed || trimmed.startsWith('-') || trimmed.includes('://')) return null
+    const match = trimmed.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/)
+    if (!match) return null
+    return { name: normalizePythonPackageName(match[1]), version: match[2].trim() || '*' }
+}
+
+function addPythonRequirements(target: Record<string, string>, values: string[]): void {
+    for (const value of values) {
+        const requirement = parsePythonRequirement(value)
+        if (requirement && requirement.name !== 'python') target[requirement.name] = requirement.version
+    }
+}
+
+async function readDeclaredPythonDependencies(projectPath: string, entryNames: string[]): Promise<DeclaredProjectDependencies> {
+    const declared: DeclaredProjectDependencies = { dependencies: {}, devDependencies: {} }
+
+    if (entryNames.includes('requirements.txt')) {
+        const content = await readTextFileOrNull(join(projectPath, 'requirements.txt'))
+        addPythonRequirements(declared.dependencies, (content || '').split(/\r?\n/))
+    }
+    for (const fileName of PYTHON_DEV_REQUIREMENT_FILES) {
+        if (!entryNames.includes(fileName)) continue
+        const content = await readTextFileOrNull(join(projectPath, fileName))
+        addPythonRequirements(declared.devDependencies, (content || '').split(/\r?\n/))
+    }
+
+    if (entryNames.includes('pyproject.toml')) {
+        const sections = readTomlSections(await readTextFileOrNull(join(projectPath, 'pyproject.toml')) || '')
+        addPythonRequirements(declared.dependencies, readTomlArrayItems(sections.get('project') || '', 'dependencies'))
+        for (const { value } of readTomlKeyValues(sections.get('project.optional-dependencies') || '')) {
+            addPythonRequirements(declared.devDependencies, Array.from(value.matchAll(/"([^"]*)"|'([^']*)'/g)).map((item) => item[1] ?? item[2] ?? ''))
+        }
+        for (const [sectionName, body] of sections) {
+            const isPoetryMain = sectionName === 'tool.poetry.dependencies'
+            const isPoetryDev = sectionName === 'tool.poetry.dev-dependencies' || /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(sectionName)
+            if (!isPoetryMain && !isPoetryDev) continue
+            for (const { key, value } of readTomlKeyValues(body)) {
+                const name = normalizePythonPackageName(key)
+                if (name === 'python') continue
+                const target = isPoetryMain ? declared.dependencies : declared.devDependencies
+                target[name] = readTomlVersionValue(value)
+            }
+        }
+    }
+
+    return declared
+}
+
+async function findPythonVirtualEnv(projectPath: string): Promise<string | null> {
+    for (const name of PYTHON_VENV_DIRECTORY_NAMES) {
+        const venvPath = join(projectPath, name)
+        if (await pathExists(join(venvPath, 'pyvenv.cfg'))) return venvPath
+    }
+    return null
+}
+
+async function listVirtualEnvSitePackages(venvPath: string): Promise<string[]> {
+    const windowsSitePackages = join(venvPath, 'Lib', 'site-packages')
+    if (await pathExists(windowsSitePackages)) return [windowsSitePackages]
+
+    const libPath = join(venvPath, 'lib')
+    const pythonDirs = (await readDirectoryNames(libPath)).filter((name) => name.startsWith('python'))
+    return pythonDirs.map((name) => join(libPath, name, 'site-packages'))
+}
+
+async function listInstalledPythonPackages(venvPath: string): Promise<Set<string>> {
+    const installed = new Set<string>()
+    for (const sitePackagesPath of await listVirtualEnvSitePackages(venvPath)) {
+        for (const entry of await readDirectoryNames(sitePackagesPath)) {
+            if (!entry.endsWith('.dist-info') && !entry.endsWith('.egg-info')) continue
+            installed.add(normalizePythonPackageName(entry.split('-')[0]))
+        }
+    }
+    return installed
+}
+
+function getVirtualEnvPython(venvPath: string): string {
+    return process.platform === 'win32'
+        ? join(venvPath, 'Scripts', 'python.exe')
+        : join(venvPath, 'bin', 'python')
+}
+
+async function detectPythonInstallManager(projectPath: string, entryNames: string[]): Promise<DependencyInstallManager> {
+    if (entryNames.includes('uv.lock')) return 'uv'
+    if (entryNames.includes('poetry.lock')) return 'poetry'
+    if (entryNames.includes('pyproject.toml')) {
+        const content = await readTextFileOrNull(join(projectPath, 'pyproject.toml'))
+        if (content && /^\s*\[tool\.poetry\]/m.test(content)) return 'poetry'
+    }
+    return 'pip'
+}
+
+async function inspectPythonDependencies(projectPath: string, entryNames: string[]): Promise<ProjectDependencyInspection> {
+    const declared = await readDeclaredPythonDependencies(projectPath, entryNames)
+    const dependencyNames = Array.from(new Set([...Object.keys(declared.dependencies), ...Object.keys(declared.devDependencies)]))
+    const venvPath = await findPythonVirtualEnv(projectPath)
+
+    if (!venvPath) {
+        const manager = await detectPythonInstallManager(projectPath, entryNames)
+        const status = manager === 'poetry'
+            ? buildUncheckedStatus('python', dependencyNames, 'Poetry keeps its virtual environment outside the project by default')
+            : buildInstallStatus('python', dependencyNames, dependencyNames, 'No virtual environment (.venv) found')
+        return { ...declared, status }
+    }
+
+    const installed = await listInstalledPythonPackages(venvPath)
+    const missing = dependencyNames.filter((name) => !installed.has(name))
+    return { ...declared, status: buildInstallStatus('python', dependencyNames, missing) }
+}
+
+async function resolvePythonInstallPlan(projectPath: string, entryNames: string[]): Promise<DependencyInstallPlan> {
+    const manager = await detectPythonInstallManager(projectPath, entryNames)
+    if (manager === 'uv') return { ecosystem: 'python', manager, steps: [{ command: 'uv', args: ['sync'] }] }
+    if (manager === 'poetry') return { ecosystem: 'python', manager, steps: [{ command: 'poetry', args: ['install'] }] }
+
+    const steps: DependencyInstallStep[] = []
+    let venvPath = await findPythonVirtualEnv(projectPath)
+    if (!venvPath) {
+        venvPath = join(projectPath, '.venv')
+        steps.push({ command: process.platform === 'win32' ? 'python' : 'python3', args: ['-m', 'venv', '.venv'] })
+    }
+
+    const python = getVirtualEnvPython(venvPath)
+    const requirementFiles = ['requirements.txt', ...PYTHON_DEV_REQUIREMENT_FILES].filter((fileName) => entryNames.includes(fileName))
+    if (requirementFiles.length > 0) {
+        steps.push({ command: python, args: ['-m', 'pip', 'install', ...requirementFiles.flatMap((fileName) => ['-r', fileName])] })
+    } else {
+        steps.push({ command: python, args: ['-m', 'pip', 'install', '-e', '.'] })
+    }
+    return { ecosystem: 'python', manager, steps }
+}
+
+// ---- Rust ------------------------------------------------------------------
+
+type CargoLockPackage = { name: string; version: string; source: string | null }
+
+function readDeclaredCargoDependencies(content: string): DeclaredProjectDependencies & { packageNames: Map<string, string> } {
+    const declared: DeclaredProjectDependencies = { dependencies: {}, devDependencies: {} }
+    const packageNames = new Map<string, string>()
+    for (const [sectionName, body] of readTomlSections(content)) {
+        const isRuntime = /(^|\.)dependencies$/.test(sectionName) && !sectionName.startsWith('workspace')
+        const isDev = /(^|\.)(dev|build)-dependencies$/.test(sectionName)
+        if (!isRuntime && !isDev) continue
+        for (const { key, value } of readTomlKeyValues(body)) {
+            const target = isDev ? declared.devDependencies : declared.dependencies
+            target[key] = readTomlVersionValue(value)
+            packageNames.set(key, readTomlInlineField(value, 'package') || key)
+        }
+    }
+    return { ...declared, packageNames }
+}
+
+async function findNearestFile(startPath: string, fileName: string, maxLevels: number): Promise<string | null> {
+    let currentPath = startPath
+    for (let level = 0; level <= maxLevels; level += 1) {
+        const candidate = join(currentPath, fileName)
+        if (await pathExists(candidate)) return candidate
+        const parentPath = dirname(currentPath)
+        if (parentPath === currentPath) break
+        currentPath = parentPath
+    }
+    return null
+}
+
+function parseCargoLock(content: string): CargoLockPackage[] {
+    return content.split(/^\[\[package\]\]\s*$/m).slice(1).map((block) => ({
+        name: block.match(/^\s*name\s*=\s*"([^"]+)"/m)?.[1] || '',
+        version: block.match(/^\s*version\s*=\s*"([^"]+)"/m)?.[1] || '',
+        source: block.match(/^\s*source\s*=\s*"([^"]+)"/m)?.[1] || null
+    })).filter((item) => item.name)
+}
+
+async function listCargoRegistryCacheDirs(): Promise<string[]> {
+    const cargoHome = process.env.CARGO_HOME || join(homedir(), '.cargo')
+    const cacheRoot = join(cargoHome, 'registry', 'cache')
+    return (await readDirectoryNames(cacheRoot)).map((name) => join(cacheRoot, name))
+}
+
+async function inspectCargoDependencies(projectPath: string): Promise<ProjectDependencyInspection> {
+    const manifest = readDeclaredCargoDependencies(await readTextFileOrNull(join(projectPath, 'Cargo.toml')) || '')
+    const declared = { dependencies: manifest.dependencies, devDependencies: manifest.devDependencies }
+    const dependencyNames = Array.from(new Set([...Object.keys(declared.dependencies), ...Object.keys(declared.devDependencies)]))
+    if (dependencyNames.length === 0) return { ...declared, status: buildInstallStatus('rust', [], []) }
+
+    const lockPath = await findNearestFile(projectPath, 'Cargo.lock', 4)
+    if (!lockPath) {
+        return { ...declared, status: buildInstallStatus('rust', dependencyNames, dependencyNames, 'Cargo.lock is missing') }
+    }
+
+    const lockedPackages = parseCargoLock(await readTextFileOrNull(lockPath) || '')
+    const registryCacheDirs = await listCargoRegistryCacheDirs()
+    const missing: string[] = []
+    for (const dependencyName of dependencyNames) {
+        const packageName = manifest.packageNames.get(dependencyName) || dependencyName
+        const locked = lockedPackages.filter((item) => item.name === packageName)
+        if (locked.length === 0) {
+            missing.push(dependencyName)
+            continue
+        }
+        const registryPackages = locked.filter((item) => item.source?.startsWith('registry+') || item.source?.startsWith('sparse+'))
+        if (registryPackages.length === 0 || registryCacheDirs.length === 0) continue
+        let fetched = false
+        for (const item of registryPackages) {
+            for (const cacheDir of registryCacheDirs) {
+                if (await pathExists(join(cacheDir, `${item.name}-${item.version}.crate`))) {
+                    fetched = true
+                    break
+                }
+            }
+            if (fetched) break
+        }
+        if (!fetched) missing.push(dependencyName)
+    }
+
+    const hasBuildOutput = await pathExists(join(dirname(lockPath), 'target'))
+    const reason = missing.length === 0 && !hasBuildOutput ? 'Crates are fetched but the target directory has not been built yet' : undefined
+    return { ...declared, status: buildInstallStatus('rust', dependencyNames, missing, reason) }
+}
+
+// ---- Go --------------------------------------------------------------------
+
+function readDeclaredGoDependencies(content: string): DeclaredProjectDependencies {
+    const declared: DeclaredProjectDependencies = { dependencies: {}, devDependencies: {} }
+    let inRequireBlock = false
+    const addRequire = (line: string) => {
+        const [modulePath, version] = line.replace(/\/\/.*$/, '').trim().split(/\s+/)
+        if (!modulePath || !version) return
+        const target = /\/\/\s*indirect/.test(line) ? declared.devDependencies : declared.dependencies
+        target[modulePath] = version
+    }
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim()
+        if (inRequireBlock) {
+            if (line === ')') {
+                inRequireBlock = false
+                continue
+            }
+            addRequire(line)
+            continue
+        }
+        if (/^require\s*\($/.test(line)) {
+            inRequireBlock = true
+            continue
+        }
+        const singleMatch = line.match(/^require\s+(.+)$/)
+        if (singleMatch) addRequire(singleMatch[1])
+    }
+    return declared
+}
+
+/** Go's module cache escapes upper-case letters as `!` plus the lower-case letter. */
+function escapeGoModulePath(value: string): string {
+    return value.replace(/[A-Z]/g, (letter) => `!${letter.toLowerCase()}`)
+}
+
+function getGoModuleCachePath(): string {
+    if (process.env.GOMODCACHE) return process.env.GOMODCACHE
+    const goPath = (process.env.GOPATH || '').split(delimiter).find(Boolean) || join(homedir(), 'go')
+    return join(goPath, 'pkg', 'mod')
+}
+
+async function inspectGoDependencies(projectPath: string): Promise<ProjectDependencyInspection> {
+    const declared = readDeclaredGoDependencies(await readTextFileOrNull(join(projectPath, 'go.mod')) || '')
+    const dependencyNames = Object.keys(declared.dependencies)
+    if (dependencyNames.length === 0) return { ...declared, status: buildInstallStatus('go', [], []) }
+
+    const vendorModules = await readTextFileOrNull(join(projectPath, 'vendor', 'modules.txt'))
+    if (vendorModules) {
+        const vendored = new Set(Array.from(vendorModules.matchAll(/^#\s+(\S+)\s+\S+/gm)).map((match) => match[1]))
+        const missing = dependencyNames.filter((name) => !vendored.has(name))
+        return { ...declared, status: buildInstallStatus('go', dependencyNames, missing) }
+    }
+
+    const moduleCachePath = getGoModuleCachePath()
+    const checks = await Promise.all(dependencyNames.map(async (name) => ({
+        name,
+        exists: await pathExists(join(moduleCachePath, `${escapeGoModulePath(name)}@${escapeGoModulePath(declared.dependencies[name])}`))
+    })))
+    const missing = checks.filter((item) => !item.exists).map((item) => item.name)
+    const reason = await pathExists(join(projectPath, 'go.sum')) ? undefined : 'go.sum is missing'
+    return { ...declared, status: buildInstallStatus('go', dependencyNames, missing, reason) }
+}
+
+// ---- .NET ------------------------------------------------------------------
+
+const DOTNET_PROJECT_EXTENSIONS = ['.csproj', '.fsproj', '.vbproj']
+
+function readDeclaredNuGetReferences(content: string): Record<string, string> {
+    const references: Record<string, string> = {}
+    for (const match of content.matchAll(/<PackageReference\b([^>]*?)(\/>|>([\s\S]*?)<\/PackageReference>)/gi)) {
+        const attributes = match[1]
+        const name = attributes.match(/\bInclude\s*=\s*"([^"]+)"/i)?.[1]
+        if (!name) continue
+        const version = attributes.match(/\bVersion\s*=\s*"([^"]+)"/i)?.[1]
+            || match[3]?.match(/<Version>([^<]+)<\/Version>/i)?.[1]
+            || '*'
+        references[name] = version
+    }
+    return references
+}
+
+async function inspectDotnetDependencies(projectPath: string, entryNames: string[]): Promise<ProjectDependencyInspection> {
+    const projectFiles = entryNames.filter((name) => DOTNET_PROJECT_EXTENSIONS.some((extension) => name.toLowerCase().endsWith(extension)))
+    const declared: DeclaredProjectDependencies = { dependencies: {}, devDependencies: {} }
+    for (const fileName of projectFiles) {
+        Object.assign(declared.dependencies, readDeclaredNuGetReferences(await readTextFileOrNull(join(projectPath, fileName)) || ''))
+    }
+    const dependencyNames = Object.keys(declared.dependencies)
+
+    if (projectFiles.length === 0) {
+        return { ...declared, status: buildUncheckedStatus('dotnet', [], 'Open an individual project to check its NuGet restore state') }
+    }
+    if (dependencyNames.length === 0) return { ...declared, status: buildInstallStatus('dotnet', [], []) }
+
+    const assetsContent = await readTextFileOrNull(join(projectPath, 'obj', 'project.assets.json'))
+    if (!assetsContent) {
+        return { ...declared, status: buildInstallStatus('dotnet', dependencyNames, dependencyNames, 'NuGet restore has not run (obj/project.assets.json is missing)') }
+    }
+
+    let restored = new Set<string>()
+    try {
+        const assets = JSON.parse(assetsContent) as { libraries?: Record<string, unknown> }
+        restored = new Set(Object.keys(assets.libraries || {}).map((key) => key.split('/')[0].toLowerCase()))
+    } catch {
+        return { ...declared, status: buildUncheckedStatus('dotnet', dependencyNames, 'obj/project.assets.json could not be parsed') }
+    }
+    const missing = dependencyNames.filter((name) => !restored.has(name.toLowerCase()))
+    return { ...declared, status: buildInstallStatus('dotnet', dependencyNames, missing) }
+}
+
+// ---- Dispatch --------------------------------------------------------------
+
+export function detectDependencyEcosystem(entryNames: string[]): DependencyEcosystem {
+    if (entryNames.includes('package.json')) return 'node'
+    if (['requirements.txt', 'pyproject.toml', 'Pipfile', 'setup.py'].some((name) => entryNames.includes(name))) return 'python'
+    if (entryNames.includes('Cargo.toml')) return 'rust'
+    if (entryNames.includes('go.mod')) return 'go'
+    if (entryNames.some((name) => /\.(csproj|fsproj|vbproj|sln)$/i.test(name))) return 'dotnet'
+    return 'unknown'
+}
+
+/**
+ * Checks whether the dependencies declared by the project's primary manifest
+ * are present locally. Returns null when no supported manifest exists.
+ */
+export async function inspectProjectDependencies(
+    projectPath: string,
+    entryNames: string[],
+    packageJson: ProjectPackageJson | null
+): Promise<ProjectDependencyInspection | null> {
+    const ecosystem = detectDependencyEcosystem(entryNames)
+    if (ecosystem === 'node') {
+        return {
+            dependencies: packageJson?.dependencies || {},
+            devDependencies: packageJson?.devDependencies || {},
+            status: await detectNodeDependencyInstallStatus(projectPath, packageJson)
+        }
+    }
+    if (ecosystem === 'python') return await inspectPythonDependencies(projectPath, entryNames)
+    if (ecosystem === 'rust') return await inspectCargoDependencies(projectPath)
+    if (ecosystem === 'go') return await inspectGoDependencies(projectPath)
+    if (ecosystem === 'dotnet') return await inspectDotnetDependencies(projectPath, entryNames)
+    return null
+}
+
+export async function resolveDependencyInstallPlan(
+    projectPath: string,
+    entryNames: string[],
+    packageJson: ProjectPackageJson | null
+): Promise<DependencyInstallPlan | null> {
+    const ecosystem = detectDependencyEcosystem(entryNames)
+    if (ecosystem === 'node') {
+        const manager = await detectDependencyInstallManager(projectPath, packageJson)
+        return { ecosystem, manager, steps: [{ command: manager, args: ['install'] }] }
+    }
+    if (ecosystem === 'python') return await resolvePythonInstallPlan(projectPath, entryNames)
+    if (ecosystem === 'rust') return { ecosystem, manager: 'cargo', steps: [{ command: 'cargo', args: ['fetch'] }] }
+    if (ecosystem === 'go') return { ecosystem, manager: 'go', steps: [{ command: 'go', args: ['mod', 'download'] }] }
+    if (ecosystem === 'dotnet') return { ecosystem, manager: 'dotnet', steps: [{ command: 'dotnet', args: ['restore'] }] }
+    return null
+}
@@ -2,14 +2,17 @@ import { access, readdir, readFile, stat } from 'fs/promises'
 import { dirname, join } from 'path'
 import log from 'electron-log'
 import {
-    detectFrameworksFromPackageJson,
     detectProjectTypeFromMarkers,
-    PROJECT_MARKERS,
+    getProjectMarkers,
     type FrameworkDefinition,
     type ProjectTypeDefinition
 } from '../ipc/project-detection'
 import { indexFilesAcrossFolders } from './file-index-service'
+import { detectProjectFrameworks } from './project-framework-detection'
 import { resolveProjectIconPath } from './project-icon-resolver'
+import { detectWorkspaceKinds, mapWorkspaceMembersForFolder } from './project-workspaces'
+import { groupWorktreesWithMainRepos } from './project-worktrees'
+import type { DevScopeWorkspaceKind, DevScopeWorktreeMember } from '../../shared/contracts/devscope-project-contracts'
 
 export type ScannedProject = {
     name: string
@@ -22,6 +25,10 @@ export type ScannedProject = {
     frameworkInfo?: FrameworkDefinition[]
     lastModified?: number
     isProject: boolean
+    workspaceKinds?: DevScopeWorkspaceKind[]
+    workspaceRootPath?: string | null
+    worktrees?: DevScopeWorktreeMember[]
+    worktreeRootPath?: string | null
 }
 
 export type ScannedFolder = {
@@ -123,6 +130,13 @@ function cacheScanProjects(folderPath: string, value: ScanProjectsSuccess): void
     })
 }
 
+export function clearScanProjectsCache(): void {
+    scanProjectsCache.clear()
+    scanProjectsInFlight.clear()
+    indexAllFoldersCache.clear()
+    indexAllFoldersInFlight.clear()
+}
+
 export function invalidateScanProjectsCache(folderPath: string, options?: { includeParents?: boolean }): void {
     const includeParents = options?.includeParents ?? true
     const normalizedInput = String(folderPath || '').trim()
@@ -152,7 +166,7 @@ export function invalidateScanProjectsCache(folderPath: string, options?: { incl
 async function scanProjectsUncached(folderPath: string): Promise<ScanProjectsResult> {
     await access(folderPath)
     const entries = await readdir(folderPath, { withFileTypes: true })
-    const projects: ScannedProject[] = []
+    let projects: ScannedProject[] = []
     const folders: ScannedFolder[] = []
     const files: ScannedFile[] = []
 
@@ -195,7 +209,7 @@ async function scanProjectsUncached(folderPath: string): Promise<ScanProjectsRes
                 markers.push('.git')
             }
 
-            for (const marker of PROJECT_MARKERS) {
+            for (const marker of getProjectMarkers()) {
                 if (marker === '.git') continue
                 if (marker.startsWith('*')) {
                     const ext = marker.slice(1)
@@ -208,22 +222,25 @@ async function scanProjectsUncached(folderPath: string): Promise<ScanProjectsRes
             }
 
             const projectType = detectProjectTypeFromMarkers(markers)
-            if (projectType?.id === 'node' && projectEntries.includes('package.json')) {
+            if (projectEntries.includes('package.json')) {
                 try {
                     const pkgPath = join(projectPath, 'package.json')
                     const pkgContent = await readFile(pkgPath, 'utf-8')
                     packageJson = JSON.parse(pkgContent)
-                    frameworkInfo = detectFrameworksFromPackageJson(packageJson, projectEntries)
-                    frameworks = frameworkInfo.map((framework) => framework.id)
                 } catch (err) {
                     log.warn(`Could not parse package.json in ${projectPath}`, err)
                 }
             }
+            if (markers.length > 0) {
+                frameworkInfo = await detectProjectFrameworks(projectPath, projectEntries, { packageJson })
+                frameworks = frameworkInfo.map((framework) => framework.id)
+            }
 
             const stats = await stat(projectPath)
             const projectIconPath = await resolveProjectIconPath(projectPath, projectEntries, packageJson)
 
             if (markers.length > 0) {
+                const workspaceKinds = await detectWorkspaceKinds(projectPath, projectEntries, packageJson)
                 projects.push({
                     name: entry.name,
                     path: projectPath,
@@ -234,7 +251,8 @@ async function scanProjectsUncached(folderPath: string): Promise<ScanProjectsRes
                     frameworks,
                     frameworkInfo,
                     lastModified: stats.mtimeMs,
-                    isProject: true
+                    isProject: true,
+                    workspaceKinds: workspaceKinds.length > 0 ? workspaceKinds : undefined
                 })
             } else if (!isHidden) {
                 folders.push({
@@ -249,6 +267,21 @@ async function scanProjectsUncached(folderPath: string): Promise<ScanProjectsRes
         }
     }
 
+    try {
+        const workspaceMembership = await mapWorkspaceMembersForFolder(folderPath, projects.map((project) => project.path))
+        for (const project of projects) {
+            project.workspaceRootPath = workspaceMembership.get(project.path) || null
+        }
+    } catch (err) {
+        log.warn(`Could not resolve workspace membership for ${folderPath}`, err)
+    }
+
+    try {
+        projects = await groupWorktreesWithMainRepos(projects)
+    } catch (err) {
+        log.warn(`Could not group git worktrees for ${folderPath}`, err)
+    }
+
     projects.sort((a, b) => (b.lastModified || 0) - (a.lastModified || 0))
     folders.sort((a, b) => a.name.localeCompare(b.name))
     files.sort((a, b) => a.name.localeCompare(b.name))
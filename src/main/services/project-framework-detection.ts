@@ -0,0 +1,294 @@
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import log from 'electron-log'
+import {
+    detectFrameworksFromDependencies,
+    type FrameworkDefinition
+} from '../ipc/project-detection'
+
+export type ParsedProjectManifest = {
+    dependencies: string[]
+    devDependencies: string[]
+}
+
+/**
+ * Each ecosystem contributes a parser that turns its manifest files into
+ * dependency names; framework definitions for the same `projectTypeId` are
+ * then matched against them.
+ */
+export interface ProjectManifestParser {
+    projectTypeId: string
+    manifestFiles: string[]
+    parse: (fileName: string, content: string) => ParsedProjectManifest
+}
+
+export type ProjectFrameworkDetectionOptions = {
+    packageJson?: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> } | null
+}
+
+const manifestParsers: ProjectManifestParser[] = []
+
+export function registerProjectManifestParser(parser: ProjectManifestParser): void {
+    manifestParsers.push(parser)
+}
+
+function emptyManifest(): ParsedProjectManifest {
+    return { dependencies: [], devDependencies: [] }
+}
+
+function uniqueNames(values: string[]): string[] {
+    return Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)))
+}
+
+function normalizePythonPackageName(value: string): string {
+    return value.toLowerCase().replace(/[-_.]+/g, '-')
+}
+
+function readPythonRequirementName(line: string): string | null {
+    const trimmed = line.replace(/#.*$/, '').trim()
+    if (!trimmed || trimmed.startsWith('-')) return null
+    const match = trimmed.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/)
+    return match ? normalizePythonPackageName(match[1]) : null
+}
+
+const QUOTED_STRING_PATTERN = /"([^"]*)"|'([^']*)'/g
+
+function readQuotedRequirementNames(text: string): string[] {
+    return Array.from(text.matchAll(QUOTED_STRING_PATTERN))
+        .map((match) => readPythonRequirementName(match[1] ?? match[2]))
+        .filter((name): name is string => Boolean(name))
+}
+
+// Tables whose keys are package names: Poetry dependency groups and Pipfile package lists.
+function readPythonKeyTableTarget(section: string): 'dependencies' | 'devDependencies' | null {
+    if (section === 'tool.poetry.dependencies' || section === 'packages') return 'dependencies'
+    if (/^tool\.poetry\.(?:dev-dependencies|group\.[^.]+\.dependencies)$/.test(section) || section === 'dev-packages') return 'devDependencies'
+    return null
+}
+
+/**
+ * Reads `[project].dependencies`, `[project.optional-dependencies]` and the Poetry and Pipfile
+ * package tables only; other string arrays such as classifiers or keywords are not packages.
+ */
+function parsePythonTomlManifest(content: string): ParsedProjectManifest {
+    const manifest = emptyManifest()
+    let section = ''
+    let openArray: string[] | null = null
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim()
+        if (!line) continue
+        if (openArray) {
+            openArray.push(...readQuotedRequirementNames(line))
+            if (line.replace(QUOTED_STRING_PATTERN, '').includes(']')) openArray = null
+            continue
+        }
+        const sectionMatch = line.match(/^\[([^\]]+)\]$/)
+        if (sectionMatch) {
+            section = sectionMatch[1].trim()
+            // `[tool.poetry.dependencies.fastapi]` names the package in the header.
+            const tableMatch = section.match(/^(.+)\.([A-Za-z0-9][A-Za-z0-9._-]*)$/)
+            const tableTarget = tableMatch ? readPythonKeyTableTarget(tableMatch[1]) : null
+            if (tableMatch && tableTarget && tableMatch[2] !== 'python') {
+                manifest[tableTarget].push(normalizePythonPackageName(tableMatch[2]))
+            }
+            continue
+        }
+        const keyMatch = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*=\s*(.*)$/)
+        if (!keyMatch) continue
+        const keyTableTarget = readPythonKeyTableTarget(section)
+        if (keyTableTarget) {
+            if (keyMatch[1] !== 'python') manifest[keyTableTarget].push(normalizePythonPackageName(keyMatch[1]))
+            continue
+        }
+        const arrayTarget = section === 'project' && keyMatch[1] === 'dependencies'
+            ? manifest.dependencies
+            : section === 'project.optional-dependencies' ? manifest.devDependencies : null
+        const value = keyMatch[2]
+        if (!arrayTarget || !value.startsWith('[')) continue
+        arrayTarget.push(...readQuotedRequirementNames(value))
+        if (!value.replace(QUOTED_STRING_PATTERN, '').includes(']')) openArray = arrayTarget
+    }
+    return { dependencies: uniqueNames(manifest.dependencies), devDependencies: uniqueNames(manifest.devDependencies) }
+}
+
+function parsePythonManifest(fileName: string, content: string): ParsedProjectManifest {
+    if (fileName === 'requirements.txt') {
+        return {
+            dependencies: uniqueNames(content.split(/\r?\n/).map(readPythonRequirementName).filter((name): name is string => Boolean(name))),
+            devDependencies: []
+        }
+    }
+    if (fileName === 'setup.py') {
+        const installRequires = content.match(/install_requires\s*=\s*\[((?:"[^"]*"|'[^']*'|[^\]"'])*)\]/)
+        return { dependencies: uniqueNames(installRequires ? readQuotedRequirementNames(installRequires[1]) : []), devDependencies: [] }
+    }
+    return parsePythonTomlManifest(content)
+}
+
+function parseCargoManifest(_fileName: string, content: string): ParsedProjectManifest {
+    const manifest = emptyManifest()
+    let section = ''
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim()
+        if (!line) continue
+        const sectionMatch = line.match(/^\[([^\]]+)\]$/)
+        if (sectionMatch) {
+            section = sectionMatch[1].trim()
+            // `[dependencies.axum]` names the crate in the header; its keys are version, features, ...
+            const tableMatch = section.match(/(?:^|\.)((?:dev-|build-)?dependencies)\.([A-Za-z0-9_-]+)$/)
+            if (tableMatch) {
+                (tableMatch[1] === 'dependencies' ? manifest.dependencies : manifest.devDependencies).push(tableMatch[2])
+            }
+            continue
+        }
+        const keyMatch = line.match(/^([A-Za-z0-9_-]+)\s*=/)
+        if (!keyMatch) continue
+        if (/(^|\.)dependencies$/.test(section)) {
+            manifest.dependencies.push(keyMatch[1])
+        } else if (/(^|\.)(dev|build)-dependencies$/.test(section)) {
+            manifest.devDependencies.push(keyMatch[1])
+        }
+    }
+    return { dependencies: uniqueNames(manifest.dependencies), devDependencies: uniqueNames(manifest.devDependencies) }
+}
+
+function parseGoModManifest(_fileName: string, content: string): ParsedProjectManifest {
+    const dependencies: string[] = []
+    let inRequireBlock = false
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/\/\/.*$/, '').trim()
+        if (!line) continue
+        if (inRequireBlock) {
+            if (line === ')') {
+                inRequireBlock = false
+                continue
+            }
+            dependencies.push(line.split(/\s+/)[0])
+            continue
+        }
+        if (/^require\s*\($/.test(line)) {
+            inRequireBlock = true
+            continue
+        }
+        const singleMatch = line.match(/^require\s+(\S+)/)
+        if (singleMatch) dependencies.push(singleMatch[1])
+    }
+    return { dependencies: uniqueNames(dependencies), devDependencies: [] }
+}
+
+function parseComposerManifest(_fileName: string, content: string): ParsedProjectManifest {
+    const composerJson = JSON.parse(content) as { require?: Record<string, string>; 'require-dev'?: Record<string, string> }
+    return {
+        dependencies: Object.keys(composerJson.require || {}),
+        devDependencies: Object.keys(composerJson['require-dev'] || {})
+    }
+}
+
+function parsePubspecManifest(_fileName: string, content: string): ParsedProjectManifest {
+    const manifest = emptyManifest()
+    let section: 'dependencies' | 'dev_dependencies' | null = null
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '')
+        if (!line.trim()) continue
+        const topLevelMatch = line.match(/^([A-Za-z_][A-Za-z0-9_]*):/)
+        if (topLevelMatch) {
+            section = topLevelMatch[1] === 'dependencies' || topLevelMatch[1] === 'dev_dependencies' ? topLevelMatch[1] : null
+            continue
+        }
+        const dependencyMatch = line.match(/^ {2}([A-Za-z_][A-Za-z0-9_]*):/)
+        if (!section || !dependencyMatch) continue
+        if (section === 'dependencies') {
+            manifest.dependencies.push(dependencyMatch[1])
+        } else {
+            manifest.devDependencies.push(dependencyMatch[1])
+        }
+    }
+    return manifest
+}
+
+function manifestFromPackageJson(
+    packageJson: NonNullable<ProjectFrameworkDetectionOptions['packageJson']>
+): ParsedProjectManifest {
+    return {
+        dependencies: Object.keys(packageJson.dependencies || {}),
+        devDependencies: Object.keys(packageJson.devDependencies || {})
+    }
+}
+
+function parsePackageJsonManifest(_fileName: string, content: string): ParsedProjectManifest {
+    return manifestFromPackageJson(JSON.parse(content))
+}
+
+registerProjectManifestParser({ projectTypeId: 'node', manifestFiles: ['package.json'], parse: parsePackageJsonManifest })
+registerProjectManifestParser({
+    projectTypeId: 'python',
+    manifestFiles: ['pyproject.toml', 'requirements.txt', 'Pipfile', 'setup.py'],
+    parse: parsePythonManifest
+})
+registerProjectManifestParser({ projectTypeId: 'rust', manifestFiles: ['Cargo.toml'], parse: parseCargoManifest })
+registerProjectManifestParser({ projectTypeId: 'go', manifestFiles: ['go.mod'], parse: parseGoModManifest })
+registerProjectManifestParser({ projectTypeId: 'php', manifestFiles: ['composer.json'], parse: parseComposerManifest })
+registerProjectManifestParser({ projectTypeId: 'dart', manifestFiles: ['pubspec.yaml'], parse: parsePubspecManifest })
+
+async function readParsedManifest(
+    projectPath: string,
+    parser: ProjectManifestParser,
+    entryNames: string[],
+    options?: ProjectFrameworkDetectionOptions
+): Promise<ParsedProjectManifest | null> {
+    const presentFiles = parser.manifestFiles.filter((fileName) => entryNames.includes(fileName))
+    if (presentFiles.length === 0) return null
+
+    const combined = emptyManifest()
+    for (const fileName of presentFiles) {
+        try {
+            const parsed = fileName === 'package.json' && options?.packageJson
+                ? manifestFromPackageJson(options.packageJson)
+                : parser.parse(fileName, await readFile(join(projectPath, fileName), 'utf-8'))
+            combined.dependencies.push(...parsed.dependencies)
+            combined.devDependencies.push(...parsed.devDependencies)
+        } catch (error) {
+            log.warn(`[ProjectDetection] Could not parse ${fileName} in ${projectPath}`, error)
+        }
+    }
+    return combined
+}
+
+/**
+ * Detects frameworks for every ecosystem whose manifest is present, so mixed
+ * projects (for example a Node front end with a Tauri Rust shell) report all of them.
+ */
+export async function detectProjectFrameworks(
+    projectPath: string,
+    entryNames: string[],
+    options?: ProjectFrameworkDetectionOptions
+): Promise<FrameworkDefinition[]> {
+    const detected = new Map<string, FrameworkDefinition>()
+    for (const parser of manifestParsers) {
+        const manifest = await readParsedManifest(projectPath, parser, entryNames, options)
+        if (!manifest) continue
+        for (const framework of detectFrameworksFromDependencies(parser.projectTypeId, manifest, entryNames)) {
+            if (!detected.has(framework.id)) detected.set(framework.id, framework)
+        }
+    }
+    return Array.from(detected.values())
+}
+
+/** Dependency names declared across every recognised manifest in the project. */
+export async function readProjectManifestDependencies(
+    projectPath: string,
+    entryNames: string[],
+    options?: ProjectFrameworkDetectionOptions
+): Promise<ParsedProjectManifest> {
+    const combined = emptyManifest()
+    for (const parser of manifestParsers) {
+        const manifest = await readParsedManifest(projectPath, parser, entryNames, options)
+        if (!manifest) continue
+        combined.dependencies.push(...manifest.dependencies)
+        combined.devDependencies.push(...manifest.devDependencies)
+    }
+    return {
+        dependencies: uniqueNames(combined.dependencies),
+        devDependencies: uniqueNames(combined.devDependencies)
+    }
+}
@@ -0,0 +1,416 @@
+import { readdir, readFile } from 'fs/promises'
+import { basename, dirname, join, relative, resolve } from 'path'
+import log from 'electron-log'
+import { collectProjectMarkers, detectProjectTypeFromMarkers } from '../ipc/project-detection'
+import { detectProjectFrameworks, readProjectManifestDependencies } from './project-framework-detection'
+import type {
+    DevScopeWorkspaceKind,
+    DevScopeWorkspacePackage,
+    DevScopeWorkspaceRootSummary
+} from '../../shared/contracts/devscope-project-contracts'
+
+type WorkspaceManifest = {
+    kind: DevScopeWorkspaceKind
+    patterns: string[]
+    excludes: string[]
+    memberMarker: string
+}
+
+export type ProjectWorkspace = {
+    rootPath: string
+    name: string
+    kinds: DevScopeWorkspaceKind[]
+    packages: DevScopeWorkspacePackage[]
+}
+
+type PackageJsonLike = {
+    name?: string
+    version?: string
+    scripts?: Record<string, string>
+    dependencies?: Record<string, string>
+    devDependencies?: Record<string, string>
+    workspaces?: string[] | { packages?: string[] }
+}
+
+const WORKSPACE_SKIP_DIRECTORY_NAMES = new Set(['node_modules', '.git', 'target', 'dist', 'build', 'vendor', '.next', '.turbo'])
+const WORKSPACE_GLOB_MAX_DEPTH = 4
+const WORKSPACE_ROOT_SEARCH_DEPTH = 6
+
+function normalizeWorkspacePathKey(pathValue: string): string {
+    const normalized = resolve(pathValue).replace(/\\/g, '/').replace(/\/+$/, '')
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized
+}
+
+function toPosixRelativePath(rootPath: string, targetPath: string): string {
+    return relative(rootPath, targetPath).replace(/\\/g, '/')
+}
+
+async function readTextFile(filePath: string): Promise<string | null> {
+    try {
+        return await readFile(filePath, 'utf-8')
+    } catch {
+        return null
+    }
+}
+
+async function readPackageJson(directoryPath: string): Promise<PackageJsonLike | null> {
+    const content = await readTextFile(join(directoryPath, 'package.json'))
+    if (!content) return null
+    try {
+        return JSON.parse(content) as PackageJsonLike
+    } catch {
+        return null
+    }
+}
+
+function splitPatterns(patterns: string[]): { includes: string[]; excludes: string[] } {
+    const includes: string[] = []
+    const excludes: string[] = []
+    for (const rawPattern of patterns) {
+        const pattern = String(rawPattern || '').trim().replace(/^\.\//, '').replace(/\/+$/, '')
+        if (!pattern) continue
+        if (pattern.startsWith('!')) {
+            excludes.push(pattern.slice(1).replace(/^\.\//, ''))
+        } else {
+            includes.push(pattern)
+        }
+    }
+    return { includes, excludes }
+}
+
+function parsePnpmWorkspacePatterns(content: string): string[] {
+    const patterns: string[] = []
+    let inPackages = false
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '')
+        if (!line.trim()) continue
+        if (/^\S/.test(line)) {
+            inPackages = /^packages\s*:/.test(line)
+            continue
+        }
+        const itemMatch = inPackages ? line.match(/^\s*-\s*['"]?([^'"]+)['"]?\s*$/) : null
+        if (itemMatch) patterns.push(itemMatch[1].trim())
+    }
+    return patterns
+}
+
+function readTomlStringArray(section: string, key: string): string[] {
+    const match = section.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))
+    if (!match) return []
+    return Array.from(match[1].matchAll(/["']([^"']+)["']/g)).map((item) => item[1])
+}
+
+function parseCargoWorkspace(content: string): { members: string[]; excludes: string[] } | null {
+    const sectionMatch = content.match(/^\[workspace\]\s*$([\s\S]*?)(?=^\[[^\]]+\]\s*$|(?![\s\S]))/m)
+    if (!sectionMatch) return null
+    return {
+        members: readTomlStringArray(sectionMatch[1], 'members'),
+        excludes: readTomlStringArray(sectionMatch[1], 'exclude')
+    }
+}
+
+function parseGoWorkUses(content: string): string[] {
+    const uses: string[] = []
+    let inUseBlock = false
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/\/\/.*$/, '').trim()
+        if (!line) continue
+        if (inUseBlock) {
+            if (line === ')') {
+                inUseBlock = false
+                continue
+            }
+            uses.push(line.replace(/^["']|["']$/g, ''))
+            continue
+        }
+        if (/^use\s*\($/.test(line)) {
+            inUseBlock = true
+            continue
+        }
+        const singleMatch = line.match(/^use\s+(\S+)/)
+        if (singleMatch) uses.push(singleMatch[1].replace(/^["']|["']$/g, ''))
+    }
+    return uses
+}
+
+function resolveNodeWorkspaceKind(entryNames: string[]): DevScopeWorkspaceKind {
+    if (entryNames.includes('bun.lockb') || entryNames.includes('bun.lock')) return 'bun'
+    if (entryNames.includes('yarn.lock') || entryNames.includes('.yarnrc.yml')) return 'yarn'
+    return 'npm'
+}
+
+async function readWorkspaceManifests(
+    rootPath: string,
+    entryNames: string[],
+    packageJson?: PackageJsonLike | null
+): Promise<WorkspaceManifest[]> {
+    const manifests: WorkspaceManifest[] = []
+
+    if (entryNames.includes('pnpm-workspace.yaml')) {
+        const content = await readTextFile(join(rootPath, 'pnpm-workspace.yaml'))
+        const { includes, excludes } = splitPatterns(parsePnpmWorkspacePatterns(content || ''))
+        if (includes.length > 0) manifests.push({ kind: 'pnpm', patterns: includes, excludes, memberMarker: 'package.json' })
+    } else if (entryNames.includes('package.json')) {
+        const pkg = packageJson === undefined ? await readPackageJson(rootPath) : packageJson
+        const workspaces = Array.isArray(pkg?.workspaces) ? pkg.workspaces : pkg?.workspaces?.packages
+        const { includes, excludes } = splitPatterns(Array.isArray(workspaces) ? workspaces : [])
+        if (includes.length > 0) {
+            manifests.push({ kind: resolveNodeWorkspaceKind(entryNames), patterns: includes, excludes, memberMarker: 'package.json' })
+        }
+    }
+
+    if (entryNames.includes('Cargo.toml')) {
+        const cargoWorkspace = parseCargoWorkspace(await readTextFile(join(rootPath, 'Cargo.toml')) || '')
+        const { includes, excludes } = splitPatterns([
+            ...(cargoWorkspace?.members || []),
+            ...(cargoWorkspace?.excludes || []).map((item) => `!${item}`)
+        ])
+        if (includes.length > 0) manifests.push({ kind: 'cargo', patterns: includes, excludes, memberMarker: 'Cargo.toml' })
+    }
+
+    if (entryNames.includes('go.work')) {
+        const { includes, excludes } = splitPatterns(parseGoWorkUses(await readTextFile(join(rootPath, 'go.work')) || ''))
+        if (includes.length > 0) manifests.push({ kind: 'go', patterns: includes, excludes, memberMarker: 'go.mod' })
+    }
+
+    return manifests
+}
+
+function globSegmentToRegExp(segment: string): RegExp {
+    const escaped = segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')
+    return new RegExp(`^${escaped}$`, 'i')
+}
+
+function matchesWorkspacePattern(relativePath: string, pattern: string): boolean {
+    const pathSegments = relativePath.split('/').filter(Boolean)
+    const patternSegments = pattern.split('/').filter(Boolean)
+
+    const matchFrom = (pathIndex: number, patternIndex: number): boolean => {
+        if (patternIndex === patternSegments.length) return pathIndex === pathSegments.length
+        const segment = patternSegments[patternIndex]
+        if (segment === '**') {
+            for (let nextIndex = pathIndex; nextIndex <= pathSegments.length; nextIndex += 1) {
+                if (matchFrom(nextIndex, patternIndex + 1)) return true
+            }
+            return false
+        }
+        if (pathIndex >= pathSegments.length) return false
+        return globSegmentToRegExp(segment).test(pathSegments[pathIndex]) && matchFrom(pathIndex + 1, patternIndex + 1)
+    }
+
+    return matchFrom(0, 0)
+}
+
+async function expandWorkspacePattern(rootPath: string, pattern: string): Promise<string[]> {
+    if (!/[*?]/.test(pattern)) return [resolve(rootPath, pattern)]
+
+    const staticSegments: string[] = []
+    for (const segment of pattern.split('/')) {
+        if (/[*?]/.test(segment)) break
+        staticSegments.push(segment)
+    }
+
+    const results: string[] = []
+    const stack: Array<{ path: string; depth: number }> = [{ path: resolve(rootPath, ...staticSegments), depth: 0 }]
+    while (stack.length > 0) {
+        const current = stack.pop()
+        if (!current || current.depth > WORKSPACE_GLOB_MAX_DEPTH) continue
+        let entries: Array<{ name: string; isDirectory: () => boolean }> = []
+        try {
+            entries = await readdir(current.path, { withFileTypes: true })
+        } catch {
+            continue
+        }
+        for (const entry of entries) {
+            if (!entry.isDirectory() || WORKSPACE_SKIP_DIRECTORY_NAMES.has(entry.name.toLowerCase())) continue
+            const entryPath = join(current.path, entry.name)
+            if (matchesWorkspacePattern(toPosixRelativePath(rootPath, entryPath), pattern)) {
+                results.push(entryPath)
+            }
+            stack.push({ path: entryPath, depth: current.depth + 1 })
+        }
+    }
+    return results
+}
+
+async function readWorkspaceMember(
+    rootPath: string,
+    memberPath: string,
+    kind: DevScopeWorkspaceKind
+): Promise<Omit<DevScopeWorkspacePackage, 'workspaceDependencies'> | null> {
+    let entryNames: string[] = []
+    try {
+        entryNames = await readdir(memberPath)
+    } catch {
+        return null
+    }
+
+    const packageJson = entryNames.includes('package.json') ? await readPackageJson(memberPath) : null
+    const markers = collectProjectMarkers(entryNames)
+    const projectType = detectProjectTypeFromMarkers(markers)
+    const [frameworks, manifest] = await Promise.all([
+        detectProjectFrameworks(memberPath, entryNames, { packageJson }),
+        readProjectManifestDependencies(memberPath, entryNames, { packageJson })
+    ])
+
+    let name = packageJson?.name || ''
+    let version = packageJson?.version || null
+    if (!name && kind === 'cargo') {
+        const cargoContent = await readTextFile(join(memberPath, 'Cargo.toml')) || ''
+        const packageSection = cargoContent.match(/^\[package\]\s*$([\s\S]*?)(?=^\[[^\]]+\]\s*$|(?![\s\S]))/m)?.[1] || ''
+        name = packageSection.match(/^\s*name\s*=\s*["']([^"']+)["']/m)?.[1] || ''
+        version = packageSection.match(/^\s*version\s*=\s*["']([^"']+)["']/m)?.[1] || version
+    }
+    if (!name && kind === 'go') {
+        const goModContent = await readTextFile(join(memberPath, 'go.mod')) || ''
+        name = goModContent.match(/^\s*module\s+(\S+)/m)?.[1] || ''
+    }
+
+    return {
+        name: name || basename(memberPath),
+        path: memberPath,
+        relativePath: toPosixRelativePath(rootPath, memberPath),
+        kind,
+        type: projectType?.id || 'unknown',
+        frameworks: frameworks.map((framework) => framework.id),
+        version,
+        scripts: packageJson?.scripts || {},
+        dependencies: [...manifest.dependencies, ...manifest.devDependencies]
+    }
+}
+
+async function resolveWorkspaceMembers(rootPath: string, manifest: WorkspaceManifest): Promise<string[]> {
+    const candidates = new Map<string, string>()
+    for (const pattern of manifest.patterns) {
+        for (const memberPath of await expandWorkspacePattern(rootPath, pattern)) {
+            candidates.set(normalizeWorkspacePathKey(memberPath), memberPath)
+        }
+    }
+
+    const members: string[] = []
+    for (const memberPath of candidates.values()) {
+        const relativePath = toPosixRelativePath(rootPath, memberPath)
+        if (!relativePath || relativePath.startsWith('..')) continue
+        if (manifest.excludes.some((pattern) => matchesWorkspacePattern(relativePath, pattern))) continue
+        const memberEntries = await readdir(memberPath).catch(() => [] as string[])
+        if (!memberEntries.includes(manifest.memberMarker)) continue
+        members.push(memberPath)
+    }
+    return members.sort((left, right) => left.localeCompare(right))
+}
+
+/**
+ * Reports which workspace managers declare `rootPath` as a workspace root
+ * without resolving members, for cheap use while scanning folders.
+ */
+export async function detectWorkspaceKinds(
+    rootPath: string,
+    entryNames: string[],
+    packageJson?: PackageJsonLike | null
+): Promise<DevScopeWorkspaceKind[]> {
+    const manifests = await readWorkspaceManifests(rootPath, entryNames, packageJson)
+    return manifests.map((manifest) => manifest.kind)
+}
+
+export async function readProjectWorkspace(
+    rootPath: string,
+    entryNames?: string[],
+    packageJson?: PackageJsonLike | null
+): Promise<ProjectWorkspace | null> {
+    const resolvedRootPath = resolve(rootPath)
+    const rootEntries = entryNames || await readdir(resolvedRootPath).catch(() => [] as string[])
+    const manifests = await readWorkspaceManifests(resolvedRootPath, rootEntries, packageJson)
+    if (manifests.length === 0) return null
+
+    const packages: Array<Omit<DevScopeWorkspacePackage, 'workspaceDependencies'>> = []
+    const seenPaths = new Set<string>()
+    for (const manifest of manifests) {
+        for (const memberPath of await resolveWorkspaceMembers(resolvedRootPath, manifest)) {
+            const key = normalizeWorkspacePathKey(memberPath)
+            if (seenPaths.has(key)) continue
+            seenPaths.add(key)
+            try {
+                const member = await readWorkspaceMember(resolvedRootPath, memberPath, manifest.kind)
+                if (member) packages.push(member)
+            } catch (error) {
+                log.warn(`[Workspaces] Failed to read workspace member ${memberPath}`, error)
+            }
+        }
+    }
+
+    const memberNames = new Set(packages.map((member) => member.name))
+    const rootPackageJson = packageJson === undefined ? await readPackageJson(resolvedRootPath) : packageJson
+    return {
+        rootPath: resolvedRootPath,
+        name: rootPackageJson?.name || basename(resolvedRootPath),
+        kinds: Array.from(new Set(manifests.map((manifest) => manifest.kind))),
+        packages: packages.map((member) => ({
+            ...member,
+            workspaceDependencies: member.dependencies.filter((dependency) => dependency !== member.name && memberNames.has(dependency))
+        }))
+    }
+}
+
+/** Finds the nearest ancestor workspace that lists `projectPath` as one of its members. */
+export async function findParentWorkspace(projectPath: string): Promise<ProjectWorkspace | null> {
+    const targetKey = normalizeWorkspacePathKey(projectPath)
+    let currentPath = dirname(resolve(projectPath))
+
+    for (let depth = 0; depth < WORKSPACE_ROOT_SEARCH_DEPTH; depth += 1) {
+        const entryNames = await readdir(currentPath).catch(() => [] as string[])
+        const manifests = await readWorkspaceManifests(currentPath, entryNames)
+        if (manifests.length > 0) {
+            const workspace = await readProjectWorkspace(currentPath, entryNames)
+            if (workspace?.packages.some((member) => normalizeWorkspacePathKey(member.path) === targetKey)) {
+                return workspace
+            }
+        }
+        const parentPath = dirname(currentPath)
+        if (parentPath === currentPath) break
+        currentPath = parentPath
+    }
+
+    return null
+}
+
+export function toWorkspaceRootSummary(workspace: ProjectWorkspace): DevScopeWorkspaceRootSummary {
+    return {
+        path: workspace.rootPath,
+        name: workspace.name,
+        kinds: workspace.kinds
+    }
+}
+
+/**
+ * Returns the workspace roots (keyed by member path) for projects listed
+ * directly under `folderPath`, so scans can mark nested packages as members.
+ */
+export async function mapWorkspaceMembersForFolder(folderPath: string, projectPaths: string[]): Promise<Map<string, string>> {
+    const membership = new Map<string, string>()
+    if (projectPaths.length === 0) return membership
+
+    let currentPath = resolve(folderPath)
+    for (let depth = 0; depth < WORKSPACE_ROOT_SEARCH_DEPTH; depth += 1) {
+        const entryNames = await readdir(currentPath).catch(() => [] as string[])
+        const manifests = await readWorkspaceManifests(currentPath, entryNames)
+        if (manifests.length > 0) {
+            const memberKeys = new Set<string>()
+            for (const manifest of manifests) {
+                for (const memberPath of await resolveWorkspaceMembers(currentPath, manifest)) {
+                    memberKeys.add(normalizeWorkspacePathKey(memberPath))
+                }
+            }
+            for (const projectPath of projectPaths) {
+                if (memberKeys.has(normalizeWorkspacePathKey(projectPath))) {
+                    membership.set(projectPath, currentPath)
+                }
+            }
+            if (membership.size > 0) return membership
+        }
+        const parentPath = dirname(currentPath)
+        if (parentPath === currentPath) break
+        currentPath = parentPath
+    }
+
+    return membership
+}
@@ -0,0 +1,88 @@
+import { readFile, stat } from 'fs/promises'
+import { basename, dirname, join, resolve } from 'path'
+import type { DevScopeWorktreeMember } from '../../shared/contracts/devscope-project-contracts'
+
+type WorktreeCandidate = {
+    name: string
+    path: string
+    markers: string[]
+    worktrees?: DevScopeWorktreeMember[]
+    worktreeRootPath?: string | null
+}
+
+export type LinkedWorktreeInfo = {
+    mainRepoPath: string
+    branch: string | null
+}
+
+// Linked worktrees point at `<main>/.git/worktrees/<name>`, or `<repo>.git/worktrees/<name>` for a bare
+// repository; submodules use `.git/modules/` and are left alone.
+const LINKED_WORKTREE_GITDIR_PATTERN = /\.git[\\/]worktrees[\\/][^\\/]+[\\/]?$/
+
+function normalizeWorktreePathKey(pathValue: string): string {
+    const normalized = resolve(pathValue).replace(/\\/g, '/').replace(/\/+$/, '')
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized
+}
+
+async function readTextFile(filePath: string): Promise<string | null> {
+    try {
+        return await readFile(filePath, 'utf-8')
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Reads the `.git` file of a linked worktree. Returns null for regular
+ * repositories, where `.git` is a directory, and for submodules.
+ */
+export async function readLinkedWorktree(projectPath: string): Promise<LinkedWorktreeInfo | null> {
+    const dotGitPath = join(projectPath, '.git')
+    const dotGitStats = await stat(dotGitPath).catch(() => null)
+    if (!dotGitStats?.isFile()) return null
+
+    const content = await readTextFile(dotGitPath)
+    const gitDirMatch = content?.match(/^gitdir:\s*(.+)$/m)
+    if (!gitDirMatch) return null
+
+    const gitDir = resolve(projectPath, gitDirMatch[1].trim())
+    if (!LINKED_WORKTREE_GITDIR_PATTERN.test(gitDir)) return null
+
+    const head = await readTextFile(join(gitDir, 'HEAD'))
+    const branchMatch = head?.match(/^ref:\s*refs\/heads\/(.+)$/m)
+    const commonGitDir = dirname(dirname(gitDir))
+    return {
+        // A bare repository has no checkout, so the repository folder itself stands in for it.
+        mainRepoPath: basename(commonGitDir) === '.git' ? dirname(commonGitDir) : commonGitDir,
+        branch: branchMatch ? branchMatch[1].trim() : null
+    }
+}
+
+/**
+ * Folds linked worktrees into the scanned project of their main repository so
+ * a folder with `app`, `app-feature` and `app-hotfix` lists one project. Worktrees
+ * whose main repository lives elsewhere stay listed and get `worktreeRootPath`.
+ */
+export async function groupWorktreesWithMainRepos<T extends WorktreeCandidate>(projects: T[]): Promise<T[]> {
+    const projectsByPath = new Map(projects.map((project) => [normalizeWorktreePathKey(project.path), project]))
+    const groupedPaths = new Set<string>()
+
+    for (const project of projects) {
+        if (!project.markers.includes('.git')) continue
+        const linked = await readLinkedWorktree(project.path)
+        if (!linked) continue
+
+        const mainProject = projectsByPath.get(normalizeWorktreePathKey(linked.mainRepoPath))
+        if (mainProject && mainProject !== project) {
+            mainProject.worktrees = [
+                ...(mainProject.worktrees || []),
+                { name: project.name || basename(project.path), path: project.path, branch: linked.branch }
+            ]
+            groupedPaths.add(project.path)
+        } else {
+            project.worktreeRootPath = linked.mainRepoPath
+        }
+    }
+
+    return groupedPaths.size > 0 ? projects.filter((project) => !groupedPaths.has(project.path)) : projects
+}
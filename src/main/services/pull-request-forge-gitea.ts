@@ -0,0 +1,88 @@
+import { forgeRequest, missingForgeTokenError, resolveForgeToken } from './pull-request-forge-http'
+import type { ForgeContext, ForgeProvider, PullRequestInfo, PullRequestState } from './github-pull-request-types'
+
+type GiteaPullRequest = {
+    number: number
+    title: string
+    html_url: string
+    state: 'open' | 'closed'
+    merged?: boolean
+    updated_at?: string | null
+    base: { ref: string; repo?: { full_name?: string } | null }
+    head: { ref: string; repo?: { full_name?: string; owner?: { login?: string } } | null }
+}
+
+type GiteaRepository = {
+    default_branch?: string | null
+}
+
+const GITEA_TOKEN_ENV = ['GITEA_TOKEN', 'FORGEJO_TOKEN']
+// Gitea cannot filter the pull list by head branch, so recent pulls are matched locally.
+const GITEA_PULL_SCAN_LIMIT = '50'
+
+async function giteaRequest<T>(context: ForgeContext, path: string, init?: { method?: 'GET' | 'POST'; body?: unknown }): Promise<T> {
+    const token = await resolveForgeToken(context.cwd, context.repo, GITEA_TOKEN_ENV)
+    if (!token) throw missingForgeTokenError(context.repo, GITEA_TOKEN_ENV)
+    return await forgeRequest<T>(context.repo, path, { ...init, headers: { Authorization: `token ${token}` } })
+}
+
+function repoPath(context: ForgeContext) {
+    return `/repos/${encodeURIComponent(context.repo.owner)}/${encodeURIComponent(context.repo.repo)}`
+}
+
+function toPullRequestInfo(pull: GiteaPullRequest): PullRequestInfo {
+    const state: PullRequestState = pull.merged ? 'merged' : pull.state === 'closed' ? 'closed' : 'open'
+    const headRepositoryNameWithOwner = pull.head.repo?.full_name || null
+    return {
+        number: pull.number,
+        title: pull.title,
+        url: pull.html_url,
+        baseBranch: pull.base.ref,
+        headBranch: pull.head.ref,
+        state,
+        updatedAt: pull.updated_at || null,
+        isCrossRepository: Boolean(headRepositoryNameWithOwner && headRepositoryNameWithOwner !== pull.base.repo?.full_name),
+        ...(headRepositoryNameWithOwner ? { headRepositoryNameWithOwner } : {}),
+        ...(pull.head.repo?.owner?.login ? { headRepositoryOwnerLogin: pull.head.repo.owner.login } : {})
+    }
+}
+
+function matchesHeadSelector(pull: PullRequestInfo, headSelector: string) {
+    const separatorIndex = headSelector.indexOf(':')
+    if (separatorIndex < 0) return pull.headBranch === headSelector
+    const owner = headSelector.slice(0, separatorIndex)
+    return pull.headBranch === headSelector.slice(separatorIndex + 1) && pull.headRepositoryOwnerLogin === owner
+}
+
+export const giteaForgeProvider: ForgeProvider = {
+    kind: 'gitea',
+    ensurePrerequisites: async (context) => {
+        await giteaRequest(context, '/user')
+    },
+    listPullRequests: async (context, headSelector, state) => {
+        const query = new URLSearchParams({
+            state: state === 'open' ? 'open' : 'all',
+            sort: 'recentupdate',
+            limit: GITEA_PULL_SCAN_LIMIT
+        })
+        const pulls = await giteaRequest<GiteaPullRequest[]>(context, `${repoPath(context)}/pulls?${query}`)
+        return pulls.map(toPullRequestInfo).filter((pull) => matchesHeadSelector(pull, headSelector))
+    },
+    createPullRequest: async (context, input) => {
+        const pull = await giteaRequest<GiteaPullRequest>(context, `${repoPath(context)}/pulls`, {
+            method: 'POST',
+            body: {
+                head: input.headSelector,
+                base: input.baseBranch,
+                // Gitea has no draft flag; the default WIP prefix marks the pull as work in progress.
+                title: input.draft ? `WIP: ${input.title}` : input.title,
+                body: input.body
+            }
+        })
+        return toPullRequestInfo(pull)
+    },
+    resolveDefaultBranch: async (context) => {
+        const repository = await giteaRequest<GiteaRepository>(context, repoPath(context))
+        return String(repository.default_branch || '').trim() || 'main'
+    }
+}
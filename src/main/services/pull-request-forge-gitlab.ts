@@ -0,0 +1,99 @@
+import { forgeRequest, missingForgeTokenError, resolveForgeToken } from './pull-request-forge-http'
+import type { ForgeContext, ForgeProvider, PullRequestInfo, PullRequestState } from './github-pull-request-types'
+
+type GitLabMergeRequest = {
+    iid: number
+    title: string
+    web_url: string
+    source_branch: string
+    target_branch: string
+    state: 'opened' | 'closed' | 'merged' | 'locked'
+    updated_at?: string | null
+    source_project_id?: number
+    target_project_id?: number
+}
+
+type GitLabProject = {
+    id: number
+    default_branch?: string | null
+}
+
+const GITLAB_TOKEN_ENV = ['GITLAB_TOKEN', 'GITLAB_PRIVATE_TOKEN']
+
+function projectPath(fullName: string) {
+    return `/projects/${encodeURIComponent(fullName)}`
+}
+
+async function gitlabRequest<T>(context: ForgeContext, path: string, init?: { method?: 'GET' | 'POST'; body?: unknown }): Promise<T> {
+    const token = await resolveForgeToken(context.cwd, context.repo, GITLAB_TOKEN_ENV)
+    if (!token) throw missingForgeTokenError(context.repo, GITLAB_TOKEN_ENV)
+    return await forgeRequest<T>(context.repo, path, { ...init, headers: { Authorization: `Bearer ${token}` } })
+}
+
+function toPullRequestInfo(mergeRequest: GitLabMergeRequest): PullRequestInfo {
+    const state: PullRequestState = mergeRequest.state === 'merged'
+        ? 'merged'
+        : mergeRequest.state === 'opened' ? 'open' : 'closed'
+    return {
+        number: mergeRequest.iid,
+        title: mergeRequest.title,
+        url: mergeRequest.web_url,
+        baseBranch: mergeRequest.target_branch,
+        headBranch: mergeRequest.source_branch,
+        state,
+        updatedAt: mergeRequest.updated_at || null,
+        isCrossRepository: Boolean(
+            mergeRequest.source_project_id
+            && mergeRequest.target_project_id
+            && mergeRequest.source_project_id !== mergeRequest.target_project_id
+        )
+    }
+}
+
+// GitLab filters merge requests by branch name only, so an `owner:` qualifier is dropped.
+function toSourceBranch(headSelector: string) {
+    return headSelector.slice(headSelector.indexOf(':') + 1)
+}
+
+export const gitlabForgeProvider: ForgeProvider = {
+    kind: 'gitlab',
+    ensurePrerequisites: async (context) => {
+        await gitlabRequest(context, '/user')
+    },
+    listPullRequests: async (context, headSelector, state) => {
+        const query = new URLSearchParams({
+            source_branch: toSourceBranch(headSelector),
+            state: state === 'open' ? 'opened' : 'all',
+            order_by: 'updated_at',
+            per_page: '20'
+        })
+        const mergeRequests = await gitlabRequest<GitLabMergeRequest[]>(context, `${projectPath(context.repo.fullName)}/merge_requests?${query}`)
+        return mergeRequests.map(toPullRequestInfo)
+    },
+    createPullRequest: async (context, input) => {
+        const isFork = Boolean(input.headRepository && input.headRepository !== context.repo.fullName)
+        // Merge requests from a fork are opened on the fork and point at the upstream project.
+        const targetProject = isFork
+            ? await gitlabRequest<GitLabProject>(context, projectPath(context.repo.fullName))
+            : null
+        const mergeRequest = await gitlabRequest<GitLabMergeRequest>(
+            context,
+            `${projectPath(isFork ? String(input.headRepository) : context.repo.fullName)}/merge_requests`,
+            {
+                method: 'POST',
+                body: {
+                    source_branch: toSourceBranch(input.headSelector),
+                    target_branch: input.baseBranch,
+                    title: input.draft ? `Draft: ${input.title}` : input.title,
+                    description: input.body,
+                    ...(targetProject ? { target_project_id: targetProject.id } : {})
+                }
+            }
+        )
+        return toPullRequestInfo(mergeRequest)
+    },
+    resolveDefaultBranch: async (context) => {
+        const project = await gitlabRequest<GitLabProject>(context, projectPath(context.repo.fullName))
+        return String(project.default_branch || '').trim() || 'main'
+    }
+}
@@ -0,0 +1,95 @@
+import { spawn } from 'child_process'
+import { getAugmentedEnv } from '../inspectors/safe-exec'
+import { getForgeLabel, type ForgeRepoRef } from '../../shared/forge-remote'
+
+const FORGE_USER_AGENT = 'DevScope-Air'
+const FORGE_REQUEST_TIMEOUT_MS = 30_000
+const CREDENTIAL_TIMEOUT_MS = 10_000
+
+/**
+ * Asks the configured git credential helper for `host` without ever prompting, so a token
+ * stored by a previous HTTPS push can be reused for API calls.
+ */
+function readGitCredentialPassword(cwd: string, host: string): Promise<string | null> {
+    return new Promise((resolve) => {
+        const child = spawn('git', ['credential', 'fill'], {
+            cwd,
+            windowsHide: true,
+            env: { ...getAugmentedEnv(), GIT_TERMINAL_PROMPT: '0', GCM_INTERACTIVE: 'never', GIT_ASKPASS: '', SSH_ASKPASS: '' }
+        })
+        let stdout = ''
+        const timer = setTimeout(() => child.kill(), CREDENTIAL_TIMEOUT_MS)
+        child.stdout.on('data', (chunk) => { stdout += String(chunk) })
+        child.on('error', () => resolve(null))
+        child.on('close', (code) => {
+            clearTimeout(timer)
+            if (code !== 0) return resolve(null)
+            const password = stdout.split(/\r?\n/).find((line) => line.startsWith('password='))?.slice('password='.length).trim()
+            resolve(password || null)
+        })
+        child.stdin.end(`protocol=https\nhost=${host}\n\n`)
+    })
+}
+
+/** First token found in `envNames`, then whatever the git credential helper stores for the host. */
+export async function resolveForgeToken(cwd: string, repo: ForgeRepoRef, envNames: string[]): Promise<string | null> {
+    const env = getAugmentedEnv()
+    for (const name of envNames) {
+        const value = String(env[name] || '').trim()
+        if (value) return value
+    }
+    return await readGitCredentialPassword(cwd, repo.host)
+}
+
+export function missingForgeTokenError(repo: ForgeRepoRef, envNames: string[]): Error {
+    return new Error(`${getForgeLabel(repo.kind)} token not found for ${repo.host}. Set ${envNames.join(' or ')}, or store a token for ${repo.host} in your git credential helper.`)
+}
+
+export async function forgeRequest<T>(
+    repo: ForgeRepoRef,
+    path: string,
+    init: { headers: Record<string, string>; method?: 'GET' | 'POST'; body?: unknown }
+): Promise<T> {
+    const label = getForgeLabel(repo.kind)
+    let response: Response
+    try {
+        response = await fetch(`${repo.apiBaseUrl}${path}`, {
+            method: init.method || 'GET',
+            headers: {
+                Accept: 'application/json',
+                'User-Agent': FORGE_USER_AGENT,
+                ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                ...init.headers
+            },
+            body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+            signal: AbortSignal.timeout(FORGE_REQUEST_TIMEOUT_MS)
+        })
+    } catch (err: any) {
+        throw new Error(`Could not reach ${label} at ${repo.host}: ${err?.message || 'request failed'}`)
+    }
+
+    const text = await response.text()
+    let parsed: unknown = null
+    try {
+        parsed = text ? JSON.parse(text) : null
+    } catch {
+        parsed = null
+    }
+
+    if (!response.ok) {
+        if (response.status === 401 || response.status === 403) {
+            throw new Error(`${label} rejected the token for ${repo.host} (${response.status}). Check that it can read and write pull requests.`)
+        }
+        const body = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null
+        const detail = body?.['message'] ?? body?.['error']
+        // GitLab reports validation failures as arrays or field-keyed objects.
+        const message = typeof detail === 'string'
+            ? detail
+            : Array.isArray(detail)
+                ? detail.join(', ')
+                : detail && typeof detail === 'object' ? Object.values(detail).flat().join(', ') : ''
+        throw new Error(message || `${label} API request failed (${response.status})`)
+    }
+
+    return parsed as T
+}
@@ -0,0 +1,63 @@
+import type { DevScopeForgeKind } from '../../shared/contracts/devscope-git-contracts'
+import { parseForgeRemoteRef } from '../../shared/forge-remote'
+import { githubForgeProvider } from './github-pull-request-gh'
+import { giteaForgeProvider } from './pull-request-forge-gitea'
+import { gitlabForgeProvider } from './pull-request-forge-gitlab'
+import type { BranchState, ForgeContext, ForgeProvider, PullRequestInfo } from './github-pull-request-types'
+
+const FORGE_PROVIDERS: Record<DevScopeForgeKind, ForgeProvider> = {
+    github: githubForgeProvider,
+    gitlab: gitlabForgeProvider,
+    gitea: giteaForgeProvider
+}
+
+export type PullRequestForge = {
+    provider: ForgeProvider
+    context: ForgeContext
+    remoteName: string
+}
+
+export function getPreferredForgeRemote(remotes: BranchState['remotes']) {
+    return remotes.find((remote) => remote.name === 'origin' && remote.forge)
+        ?? remotes.find((remote) => remote.forge)
+        ?? null
+}
+
+/** The forge pull requests are opened against, taken from `origin` or the first recognised remote. */
+export function resolvePullRequestForge(branchState: BranchState): PullRequestForge | null {
+    const remote = getPreferredForgeRemote(branchState.remotes)
+    const repo = remote ? parseForgeRemoteRef(remote.pushUrl || remote.fetchUrl, branchState.hostForges) : null
+    if (!remote || !repo) return null
+    return {
+        provider: FORGE_PROVIDERS[repo.kind],
+        context: { cwd: branchState.cwd, repo },
+        remoteName: remote.name
+    }
+}
+
+export async function findOpenPullRequest(forge: PullRequestForge, headSelectors: string[]) {
+    for (const headSelector of headSelectors) {
+        const matches = await forge.provider.listPullRequests(forge.context, headSelector, 'open').catch(() => [])
+        if (matches[0]) {
+            return matches[0]
+        }
+    }
+    return null
+}
+
+export async function findLatestPullRequest(forge: PullRequestForge, headSelectors: string[]) {
+    const byNumber = new Map<number, PullRequestInfo>()
+    for (const headSelector of headSelectors) {
+        const matches = await forge.provider.listPullRequests(forge.context, headSelector, 'all').catch(() => [])
+        for (const match of matches) {
+            byNumber.set(match.number, match)
+        }
+    }
+
+    const parsed = Array.from(byNumber.values()).sort((left, right) => {
+        const leftTime = left.updatedAt ? Date.parse(left.updatedAt) : 0
+        const rightTime = right.updatedAt ? Date.parse(right.updatedAt) : 0
+        return rightTime - leftTime
+    })
+    return parsed.find((entry) => entry.state === 'open') || parsed[0] || null
+}
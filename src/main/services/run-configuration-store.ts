@@ -0,0 +1,127 @@
+import { app } from 'electron'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import log from 'electron-log'
+import type { DevScopeRunConfiguration, DevScopeRunReadiness, DevScopeRunRestartPolicy } from '../../shared/contracts/devscope-api'
+import { normalizeRunProjectKey } from '../../shared/run-configurations'
+
+type RunConfigurationStoreFile = {
+    version: number
+    projects: Record<string, DevScopeRunConfiguration[]>
+}
+
+const STORE_VERSION = 1
+const RESTART_POLICIES: DevScopeRunRestartPolicy[] = ['never', 'on-failure', 'always']
+const READINESS_MODES: DevScopeRunReadiness[] = ['started', 'exited']
+export const MAX_RUN_CONFIGURATION_RESTARTS = 20
+const DEFAULT_MAX_RESTARTS = 3
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+let storeCache: RunConfigurationStoreFile | null = null
+let writeQueue: Promise<void> = Promise.resolve()
+
+function getStorePath(): string {
+    return join(app.getPath('userData'), 'run-configurations.json')
+}
+
+function sanitizeIdList(value: unknown, selfId: string): string[] {
+    if (!Array.isArray(value)) return []
+    const ids = value.map((entry) => String(entry || '').trim()).filter((entry) => entry && entry !== selfId)
+    return Array.from(new Set(ids))
+}
+
+export function sanitizeRunConfiguration(raw: unknown): DevScopeRunConfiguration | null {
+    if (!raw || typeof raw !== 'object') return null
+    const record = raw as Record<string, unknown>
+    const id = String(record.id || '').trim()
+    const name = String(record.name || '').trim()
+    if (!id || !name) return null
+
+    const compound = sanitizeIdList(record.compound, id)
+    const command = String(record.command || '').trim()
+    if (!command && compound.length === 0) return null
+
+    const env: Record<string, string> = {}
+    if (record.env && typeof record.env === 'object') {
+        for (const [key, value] of Object.entries(record.env as Record<string, unknown>)) {
+            if (ENV_KEY_PATTERN.test(key)) env[key] = String(value ?? '')
+        }
+    }
+
+    const restartPolicy = RESTART_POLICIES.includes(record.restartPolicy as DevScopeRunRestartPolicy)
+        ? record.restartPolicy as DevScopeRunRestartPolicy
+        : 'never'
+    const maxRestarts = record.maxRestarts === undefined
+        ? DEFAULT_MAX_RESTARTS
+        : Math.min(MAX_RUN_CONFIGURATION_RESTARTS, Math.max(0, Math.floor(Number(record.maxRestarts) || 0)))
+    const readyWhen = READINESS_MODES.includes(record.readyWhen as DevScopeRunReadiness)
+        ? record.readyWhen as DevScopeRunReadiness
+        : 'exited'
+    const cwd = String(record.cwd || '').trim()
+    const shell = String(record.shell || '').trim()
+
+    return {
+        id,
+        name,
+        command: compound.length > 0 ? '' : command,
+        ...(cwd ? { cwd } : {}),
+        ...(Object.keys(env).length > 0 ? { env } : {}),
+        ...(shell ? { shell } : {}),
+        dependsOn: compound.length > 0 ? [] : sanitizeIdList(record.dependsOn, id),
+        readyWhen: compound.length > 0 ? 'exited' : readyWhen,
+        compound,
+        restartPolicy: compound.length > 0 ? 'never' : restartPolicy,
+        maxRestarts: restartPolicy === 'never' || compound.length > 0 ? 0 : maxRestarts
+    }
+}
+
+async function loadStore(): Promise<RunConfigurationStoreFile> {
+    if (storeCache) return storeCache
+    try {
+        const parsed = JSON.parse(await readFile(getStorePath(), 'utf-8')) as Partial<RunConfigurationStoreFile>
+        const projects: Record<string, DevScopeRunConfiguration[]> = {}
+        if (parsed.version === STORE_VERSION && parsed.projects && typeof parsed.projects === 'object') {
+            for (const [projectKey, configurations] of Object.entries(parsed.projects)) {
+                if (!Array.isArray(configurations)) continue
+                projects[projectKey] = configurations
+                    .map(sanitizeRunConfiguration)
+                    .filter((configuration): configuration is DevScopeRunConfiguration => Boolean(configuration))
+            }
+        }
+        storeCache = { version: STORE_VERSION, projects }
+    } catch (err: any) {
+        if (err?.code !== 'ENOENT') {
+            log.warn('[RunConfigurations] Failed to read saved configurations', err)
+        }
+        storeCache = { version: STORE_VERSION, projects: {} }
+    }
+    return storeCache
+}
+
+function persistStore(store: RunConfigurationStoreFile): Promise<void> {
+    const payload = JSON.stringify(store)
+    writeQueue = writeQueue.then(async () => {
+        const storePath = getStorePath()
+        await mkdir(dirname(storePath), { recursive: true })
+        await writeFile(storePath, payload, 'utf-8')
+    }).catch((err) => {
+        log.warn('[RunConfigurations] Failed to write configurations', err)
+    })
+    return writeQueue
+}
+
+export async function readRunConfigurations(projectPath: string): Promise<DevScopeRunConfiguration[]> {
+    const store = await loadStore()
+    return store.projects[normalizeRunProjectKey(projectPath)] || []
+}
+
+export async function writeRunConfigurations(projectPath: string, configurations: DevScopeRunConfiguration[]): Promise<void> {
+    const store = await loadStore()
+    const projectKey = normalizeRunProjectKey(projectPath)
+    if (configurations.length > 0) {
+        store.projects[projectKey] = configurations
+    } else {
+        delete store.projects[projectKey]
+    }
+    await persistStore(store)
+}
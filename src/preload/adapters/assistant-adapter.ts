@@ -1,5 +1,6 @@
 import { ipcRenderer, webUtils } from 'electron'
 import type {
+    AssistantApprovalPolicyInput,
     AssistantApprovalResponseInput,
     AssistantApprovePendingPlaygroundLabRequestInput,
     AssistantAttachSessionToPlaygroundLabInput,
@@ -10,9 +11,13 @@ import type {
     AssistantDeclinePendingPlaygroundLabRequestInput,
     AssistantDeletePlaygroundLabInput,
     AssistantDeleteMessageInput,
+    AssistantExportSessionInput,
+    AssistantForkThreadInput,
     AssistantEventStreamPayload,
     AssistantPersistClipboardImageInput,
     AssistantResolveClipboardAttachmentInput,
+    AssistantRuntimeConfig,
+    AssistantSearchConversationsInput,
     AssistantSendPromptOptions,
     AssistantSelectThreadInput,
     AssistantSetPlaygroundRootInput,
@@ -32,6 +37,8 @@ export function createAssistantAdapter() {
             getSnapshot: () => ipcRenderer.invoke(ASSISTANT_IPC.getSnapshot),
             getStatus: () => ipcRenderer.invoke(ASSISTANT_IPC.getStatus),
             getAccountOverview: () => ipcRenderer.invoke(ASSISTANT_IPC.getAccountOverview),
+            getRuntimeConfig: () => ipcRenderer.invoke(ASSISTANT_IPC.getRuntimeConfig),
+            setRuntimeConfig: (config: AssistantRuntimeConfig) => ipcRenderer.invoke(ASSISTANT_IPC.setRuntimeConfig, config),
             getSessionTurnUsage: (input?: { sessionId?: string }) => ipcRenderer.invoke(ASSISTANT_IPC.getSessionTurnUsage, input),
             listModels: (forceRefresh = false) => ipcRenderer.invoke(ASSISTANT_IPC.listModels, forceRefresh),
             connect: (options?: AssistantConnectOptions) => ipcRenderer.invoke(ASSISTANT_IPC.connect, options),
@@ -43,6 +50,9 @@ export function createAssistantAdapter() {
             renameSession: (sessionId: string, title: string) => ipcRenderer.invoke(ASSISTANT_IPC.renameSession, sessionId, title),
             archiveSession: (sessionId: string, archived = true) => ipcRenderer.invoke(ASSISTANT_IPC.archiveSession, sessionId, archived),
             deleteSession: (sessionId: string) => ipcRenderer.invoke(ASSISTANT_IPC.deleteSession, sessionId),
+            exportSession: (input: AssistantExportSessionInput) => ipcRenderer.invoke(ASSISTANT_IPC.exportSession, input),
+            importSession: () => ipcRenderer.invoke(ASSISTANT_IPC.importSession),
+            searchConversations: (input: AssistantSearchConversationsInput) => ipcRenderer.invoke(ASSISTANT_IPC.searchConversations, input),
             deleteMessage: (input: AssistantDeleteMessageInput) => ipcRenderer.invoke(ASSISTANT_IPC.deleteMessage, input),
             clearLogs: (input?: AssistantClearLogsInput) => ipcRenderer.invoke(ASSISTANT_IPC.clearLogs, input),
             setSessionProjectPath: (sessionId: string, projectPath: string | null) =>
@@ -66,9 +76,12 @@ export function createAssistantAdapter() {
                 ipcRenderer.invoke(ASSISTANT_IPC.resolveClipboardAttachment, input),
             newThread: (sessionId?: string) => ipcRenderer.invoke(ASSISTANT_IPC.newThread, sessionId),
             sendPrompt: (prompt: string, options?: AssistantSendPromptOptions) => ipcRenderer.invoke(ASSISTANT_IPC.sendPrompt, prompt, options),
+            forkThread: (input: AssistantForkThreadInput) => ipcRenderer.invoke(ASSISTANT_IPC.forkThread, input),
             interruptTurn: (turnId?: string, sessionId?: string) => ipcRenderer.invoke(ASSISTANT_IPC.interruptTurn, turnId, sessionId),
             respondApproval: (input: AssistantApprovalResponseInput) =>
                 ipcRenderer.invoke(ASSISTANT_IPC.respondApproval, input),
+            getApprovalPolicy: (projectPath: string) => ipcRenderer.invoke(ASSISTANT_IPC.getApprovalPolicy, projectPath),
+            setApprovalPolicy: (input: AssistantApprovalPolicyInput) => ipcRenderer.invoke(ASSISTANT_IPC.setApprovalPolicy, input),
             respondUserInput: (input: AssistantUserInputResponseInput) =>
                 ipcRenderer.invoke(ASSISTANT_IPC.respondUserInput, input),
             getTranscriptionModelState: () => ipcRenderer.invoke(ASSISTANT_IPC.getTranscriptionModelState),
@@ -5,17 +5,6 @@ const disabledFeature = (feature: string) => ({
 
 export function createDisabledAdapters() {
     return {
-        terminal: {
-            create: () => Promise.resolve(disabledFeature('Terminal')),
-            list: () => Promise.resolve({ success: true, sessions: [] }),
-            kill: () => Promise.resolve(disabledFeature('Terminal')),
-            write: () => Promise.resolve(disabledFeature('Terminal')),
-            resize: () => Promise.resolve(disabledFeature('Terminal')),
-            capabilities: () => Promise.resolve(disabledFeature('Terminal')),
-            suggestions: () => Promise.resolve({ success: true, suggestions: [] }),
-            banner: () => Promise.resolve({ success: true, banner: 'DevScope Air: terminal disabled' }),
-            onOutput: () => () => { }
-        },
         agentscope: {
             create: () => Promise.resolve(disabledFeature('AgentScope')),
             start: () => Promise.resolve(disabledFeature('AgentScope')),
@@ -1,11 +1,34 @@
 import { ipcRenderer } from 'electron'
 import type {
+    DevScopeCustomProjectType,
+    DevScopeDependencyAuditInput,
+    DevScopeDependencyInstallOutputEvent,
+    DevScopeGitAddWorktreeInput,
     DevScopeGitCloneInput,
+    DevScopeFileIndexChangedEvent,
     DevScopeGitCloneProgressEvent,
+    DevScopeGitConflictResolution,
+    DevScopeGitRebaseInput,
+    DevScopeGitRebaseProgressEvent,
+    DevScopeGitResetMode,
+    DevScopeGitAmendCommitInput,
+    DevScopeGitUpdateSubmodulesInput,
+    DevScopeGitSigningConfigUpdate,
+    DevScopeGitDraftReleaseInput,
+    DevScopeIndexedDependencyAuditInput,
+    DevScopePatchHunkSelection,
     DevScopePreviewTerminalEvent,
-    DevScopePythonPreviewEvent
+    DevScopePythonPreviewEvent,
+    DevScopeRunConfiguration,
+    DevScopeTaskRunnerEvent
+} from '../../shared/contracts/devscope-api'
+import {
+    DEPENDENCY_INSTALL_OUTPUT_CHANNEL,
+    FILE_INDEX_CHANGED_CHANNEL,
+    GIT_CLONE_PROGRESS_CHANNEL,
+    GIT_REBASE_PROGRESS_CHANNEL,
+    TASK_RUNNER_EVENT_CHANNEL
 } from '../../shared/contracts/devscope-api'
-import { GIT_CLONE_PROGRESS_CHANNEL } from '../../shared/contracts/devscope-api'
 
 export function createProjectsAdapter() {
     const PYTHON_PREVIEW_EVENT_CHANNEL = 'devscope:pythonPreview:event'
@@ -18,14 +41,30 @@ export function createProjectsAdapter() {
         listInstalledPackageRuntimes: () => ipcRenderer.invoke('devscope:listInstalledPackageRuntimes'),
         scanProjects: (folderPath: string, options?: { forceRefresh?: boolean }) =>
             ipcRenderer.invoke('devscope:scanProjects', folderPath, options),
+        setCustomProjectTypes: (types: DevScopeCustomProjectType[]) =>
+            ipcRenderer.invoke('devscope:setCustomProjectTypes', types),
         openInExplorer: (path: string) => ipcRenderer.invoke('devscope:openInExplorer', path),
-        openInTerminal: (path: string, preferredShell: 'powershell' | 'cmd' = 'powershell', initialCommand?: string) =>
+        openInTerminal: (path: string, preferredShell: string = 'powershell', initialCommand?: string) =>
             ipcRenderer.invoke('devscope:openInTerminal', path, preferredShell, initialCommand),
+        listTerminalShells: () => ipcRenderer.invoke('devscope:listTerminalShells'),
         listInstalledIdes: () => ipcRenderer.invoke('devscope:listInstalledIdes'),
         openProjectInIde: (projectPath: string, ideId: string) =>
             ipcRenderer.invoke('devscope:openProjectInIde', projectPath, ideId),
-        installProjectDependencies: (projectPath: string, options?: { onlyMissing?: boolean }) =>
+        installProjectDependencies: (projectPath: string, options?: { onlyMissing?: boolean; installId?: string }) =>
             ipcRenderer.invoke('devscope:installProjectDependencies', projectPath, options),
+        onDependencyInstallOutput: (callback: (event: DevScopeDependencyInstallOutputEvent) => void) => {
+            const listener = (_event: Electron.IpcRendererEvent, payload: DevScopeDependencyInstallOutputEvent) => {
+                callback(payload)
+            }
+            ipcRenderer.on(DEPENDENCY_INSTALL_OUTPUT_CHANNEL, listener)
+            return () => {
+                ipcRenderer.removeListener(DEPENDENCY_INSTALL_OUTPUT_CHANNEL, listener)
+            }
+        },
+        auditProjectDependencies: (input: DevScopeDependencyAuditInput) =>
+            ipcRenderer.invoke('devscope:auditProjectDependencies', input),
+        auditIndexedDependencies: (input: DevScopeIndexedDependencyAuditInput) =>
+            ipcRenderer.invoke('devscope:auditIndexedDependencies', input),
         getProjectDetails: (projectPath: string) => ipcRenderer.invoke('devscope:getProjectDetails', projectPath),
         getFileTree: (
             projectPath: string,
@@ -45,6 +84,10 @@ export function createProjectsAdapter() {
         getGitCommitStats: (projectPath: string, commitHashes: string[]) =>
             ipcRenderer.invoke('devscope:getGitCommitStats', projectPath, commitHashes),
         getCommitDiff: (projectPath: string, commitHash: string) => ipcRenderer.invoke('devscope:getCommitDiff', projectPath, commitHash),
+        getCommitMessage: (projectPath: string, commitHash: string) => ipcRenderer.invoke('devscope:getCommitMessage', projectPath, commitHash),
+        getFileBlame: (projectPath: string, filePath: string) => ipcRenderer.invoke('devscope:getFileBlame', projectPath, filePath),
+        getFileHistory: (projectPath: string, filePath: string, limit?: number) =>
+            ipcRenderer.invoke('devscope:getFileHistory', projectPath, filePath, limit),
         getWorkingDiff: (
             projectPath: string,
             filePath?: string,
@@ -113,6 +156,39 @@ export function createProjectsAdapter() {
             files: string[],
             options?: { scope?: 'project' | 'repo'; mode?: 'unstaged' | 'staged' | 'both' }
         ) => ipcRenderer.invoke('devscope:discardChanges', projectPath, files, options),
+        stagePatch: (projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]) =>
+            ipcRenderer.invoke('devscope:stagePatch', projectPath, filePath, selections),
+        unstagePatch: (projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]) =>
+            ipcRenderer.invoke('devscope:unstagePatch', projectPath, filePath, selections),
+        discardPatch: (projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]) =>
+            ipcRenderer.invoke('devscope:discardPatch', projectPath, filePath, selections),
+        getGitConflictState: (projectPath: string) => ipcRenderer.invoke('devscope:getGitConflictState', projectPath),
+        getGitConflictFile: (projectPath: string, filePath: string) =>
+            ipcRenderer.invoke('devscope:getGitConflictFile', projectPath, filePath),
+        resolveGitConflict: (projectPath: string, filePath: string, resolution: DevScopeGitConflictResolution) =>
+            ipcRenderer.invoke('devscope:resolveGitConflict', projectPath, filePath, resolution),
+        continueGitOperation: (projectPath: string) => ipcRenderer.invoke('devscope:continueGitOperation', projectPath),
+        abortGitOperation: (projectPath: string) => ipcRenderer.invoke('devscope:abortGitOperation', projectPath),
+        cherryPickCommit: (projectPath: string, commitHash: string) => ipcRenderer.invoke('devscope:cherryPickCommit', projectPath, commitHash),
+        revertCommit: (projectPath: string, commitHash: string) => ipcRenderer.invoke('devscope:revertCommit', projectPath, commitHash),
+        resetToCommit: (projectPath: string, commitHash: string, mode: DevScopeGitResetMode) =>
+            ipcRenderer.invoke('devscope:resetToCommit', projectPath, commitHash, mode),
+        amendLastCommit: (projectPath: string, input: DevScopeGitAmendCommitInput) =>
+            ipcRenderer.invoke('devscope:amendLastCommit', projectPath, input),
+        undoLastCommit: (projectPath: string, allowPushed?: boolean) => ipcRenderer.invoke('devscope:undoLastCommit', projectPath, allowPushed),
+        rewordCommit: (projectPath: string, commitHash: string, message: string, allowPushed?: boolean) =>
+            ipcRenderer.invoke('devscope:rewordCommit', projectPath, commitHash, message, allowPushed),
+        getRebasePlan: (projectPath: string, fromHash: string) => ipcRenderer.invoke('devscope:getRebasePlan', projectPath, fromHash),
+        runInteractiveRebase: (input: DevScopeGitRebaseInput) => ipcRenderer.invoke('devscope:runInteractiveRebase', input),
+        onGitRebaseProgress: (callback: (event: DevScopeGitRebaseProgressEvent) => void) => {
+            const listener = (_event: Electron.IpcRendererEvent, payload: DevScopeGitRebaseProgressEvent) => {
+                callback(payload)
+            }
+            ipcRenderer.on(GIT_REBASE_PROGRESS_CHANNEL, listener)
+            return () => {
+                ipcRenderer.removeListener(GIT_REBASE_PROGRESS_CHANNEL, listener)
+            }
+        },
         createCommit: (projectPath: string, message: string) => ipcRenderer.invoke('devscope:createCommit', projectPath, message),
         setGlobalGitUser: (user: { name: string; email: string }) => ipcRenderer.invoke('devscope:setGlobalGitUser', user),
         pushCommits: (projectPath: string, options?: { remoteName?: string; branchName?: string }) =>
@@ -142,14 +218,37 @@ export function createProjectsAdapter() {
             ipcRenderer.invoke('devscope:setRemoteUrl', projectPath, remoteName, remoteUrl),
         removeRemote: (projectPath: string, remoteName: string) => ipcRenderer.invoke('devscope:removeRemote', projectPath, remoteName),
         listTags: (projectPath: string) => ipcRenderer.invoke('devscope:listTags', projectPath),
-        createTag: (projectPath: string, tagName: string, target?: string) =>
-            ipcRenderer.invoke('devscope:createTag', projectPath, tagName, target),
+        createTag: (projectPath: string, tagName: string, target?: string, message?: string) =>
+            ipcRenderer.invoke('devscope:createTag', projectPath, tagName, target, message),
         deleteTag: (projectPath: string, tagName: string) => ipcRenderer.invoke('devscope:deleteTag', projectPath, tagName),
+        pushTag: (projectPath: string, tagName: string, remoteName?: string) =>
+            ipcRenderer.invoke('devscope:pushTag', projectPath, tagName, remoteName),
+        deleteRemoteTag: (projectPath: string, tagName: string, remoteName?: string) =>
+            ipcRenderer.invoke('devscope:deleteRemoteTag', projectPath, tagName, remoteName),
+        draftRelease: (projectPath: string, input?: DevScopeGitDraftReleaseInput) =>
+            ipcRenderer.invoke('devscope:draftRelease', projectPath, input),
+        writeChangelogSection: (projectPath: string, section: string) =>
+            ipcRenderer.invoke('devscope:writeChangelogSection', projectPath, section),
         listStashes: (projectPath: string) => ipcRenderer.invoke('devscope:listStashes', projectPath),
         createStash: (projectPath: string, message?: string) => ipcRenderer.invoke('devscope:createStash', projectPath, message),
         applyStash: (projectPath: string, stashRef?: string, pop?: boolean) =>
             ipcRenderer.invoke('devscope:applyStash', projectPath, stashRef, pop),
         dropStash: (projectPath: string, stashRef?: string) => ipcRenderer.invoke('devscope:dropStash', projectPath, stashRef),
+        listWorktrees: (projectPath: string) => ipcRenderer.invoke('devscope:listWorktrees', projectPath),
+        addWorktree: (projectPath: string, input: DevScopeGitAddWorktreeInput) =>
+            ipcRenderer.invoke('devscope:addWorktree', projectPath, input),
+        removeWorktree: (projectPath: string, worktreePath: string, force?: boolean) =>
+            ipcRenderer.invoke('devscope:removeWorktree', projectPath, worktreePath, force),
+        pruneWorktrees: (projectPath: string) => ipcRenderer.invoke('devscope:pruneWorktrees', projectPath),
+        listSubmodules: (projectPath: string) => ipcRenderer.invoke('devscope:listSubmodules', projectPath),
+        initSubmodules: (projectPath: string, paths?: string[]) => ipcRenderer.invoke('devscope:initSubmodules', projectPath, paths),
+        updateSubmodules: (projectPath: string, input?: DevScopeGitUpdateSubmodulesInput) =>
+            ipcRenderer.invoke('devscope:updateSubmodules', projectPath, input),
+        syncSubmodules: (projectPath: string, paths?: string[], recursive?: boolean) =>
+            ipcRenderer.invoke('devscope:syncSubmodules', projectPath, paths, recursive),
+        getGitSigningConfig: (projectPath: string) => ipcRenderer.invoke('devscope:getGitSigningConfig', projectPath),
+        setGitSigningConfig: (projectPath: string, update: DevScopeGitSigningConfigUpdate) =>
+            ipcRenderer.invoke('devscope:setGitSigningConfig', projectPath, update),
         checkIsGitRepo: (projectPath: string) => ipcRenderer.invoke('devscope:checkIsGitRepo', projectPath),
         initGitRepo: (projectPath: string, branchName: string, createGitignore: boolean, gitignoreTemplate?: string) =>
             ipcRenderer.invoke('devscope:initGitRepo', projectPath, branchName, createGitignore, gitignoreTemplate),
@@ -191,10 +290,11 @@ export function createProjectsAdapter() {
         createPreviewTerminal: (input: {
             sessionId: string
             targetPath?: string
-            preferredShell?: 'powershell' | 'cmd'
+            preferredShell?: string
             cols?: number
             rows?: number
             title?: string
+            launchCommand?: string
         }) => ipcRenderer.invoke('devscope:previewTerminal:create', input),
         listPreviewTerminalSessions: (input?: { targetPath?: string }) =>
             ipcRenderer.invoke('devscope:previewTerminal:list', input),
@@ -206,6 +306,14 @@ export function createProjectsAdapter() {
             ipcRenderer.invoke('devscope:previewTerminal:resize', input),
         closePreviewTerminal: (sessionId: string) =>
             ipcRenderer.invoke('devscope:previewTerminal:close', sessionId),
+        relaunchPreviewTerminal: (input: { sessionId: string; cols?: number; rows?: number; rerunCommand?: boolean }) =>
+            ipcRenderer.invoke('devscope:previewTerminal:relaunch', input),
+        relaunchPreviewTerminalsForPath: (input: { targetPath: string }) =>
+            ipcRenderer.invoke('devscope:previewTerminal:relaunchForPath', input),
+        setPreviewTerminalAutoRelaunch: (input: { sessionId: string; enabled: boolean }) =>
+            ipcRenderer.invoke('devscope:previewTerminal:setAutoRelaunch', input),
+        setPreviewTerminalLaunchCommand: (input: { sessionId: string; command: string | null }) =>
+            ipcRenderer.invoke('devscope:previewTerminal:setLaunchCommand', input),
         onPreviewTerminalEvent: (callback: (event: DevScopePreviewTerminalEvent) => void) => {
             const listener = (_event: Electron.IpcRendererEvent, payload: DevScopePreviewTerminalEvent) => {
                 callback(payload)
@@ -215,6 +323,25 @@ export function createProjectsAdapter() {
                 ipcRenderer.removeListener(PREVIEW_TERMINAL_EVENT_CHANNEL, listener)
             }
         },
+        listRunConfigurations: (projectPath: string) => ipcRenderer.invoke('devscope:runConfigurations:list', projectPath),
+        saveRunConfiguration: (input: { projectPath: string; configuration: DevScopeRunConfiguration }) =>
+            ipcRenderer.invoke('devscope:runConfigurations:save', input),
+        deleteRunConfiguration: (input: { projectPath: string; configId: string }) =>
+            ipcRenderer.invoke('devscope:runConfigurations:delete', input),
+        launchRunConfiguration: (input: { projectPath: string; configId: string; shell?: string }) =>
+            ipcRenderer.invoke('devscope:runConfigurations:launch', input),
+        stopRunConfiguration: (input: { projectPath: string; configId: string }) =>
+            ipcRenderer.invoke('devscope:runConfigurations:stop', input),
+        listRunStatuses: () => ipcRenderer.invoke('devscope:runConfigurations:statuses'),
+        onTaskRunnerEvent: (callback: (event: DevScopeTaskRunnerEvent) => void) => {
+            const listener = (_event: Electron.IpcRendererEvent, payload: DevScopeTaskRunnerEvent) => {
+                callback(payload)
+            }
+            ipcRenderer.on(TASK_RUNNER_EVENT_CHANNEL, listener)
+            return () => {
+                ipcRenderer.removeListener(TASK_RUNNER_EVENT_CHANNEL, listener)
+            }
+        },
         openFile: (filePath: string) => ipcRenderer.invoke('devscope:openFile', filePath),
         openWith: (filePath: string) => ipcRenderer.invoke('devscope:openWith', filePath),
         createFileSystemItem: (destinationDirectory: string, name: string, type: 'file' | 'directory') =>
@@ -240,6 +367,23 @@ export function createProjectsAdapter() {
             includeDirectories?: boolean
             showHidden?: boolean
         }) => ipcRenderer.invoke('devscope:searchIndexedPaths', input),
+        searchIndexedContent: (input: {
+            term: string
+            scopePath?: string
+            roots?: string[]
+            extensionFilters?: string[]
+            limit?: number
+            maxMatchesPerFile?: number
+        }) => ipcRenderer.invoke('devscope:searchIndexedContent', input),
+        onFileIndexChanged: (callback: (event: DevScopeFileIndexChangedEvent) => void) => {
+            const listener = (_event: Electron.IpcRendererEvent, payload: DevScopeFileIndexChangedEvent) => {
+                callback(payload)
+            }
+            ipcRenderer.on(FILE_INDEX_CHANGED_CHANNEL, listener)
+            return () => {
+                ipcRenderer.removeListener(FILE_INDEX_CHANGED_CHANNEL, listener)
+            }
+        },
         getFileSystemRoots: () => ipcRenderer.invoke('devscope:getFileSystemRoots')
     }
 }
@@ -0,0 +1,28 @@
+import { ipcRenderer } from 'electron'
+import type { DevScopeTerminalApi, DevScopeTerminalOutputEvent } from '../../shared/contracts/devscope-api'
+
+const TERMINAL_OUTPUT_CHANNEL = 'devscope:terminal:output'
+
+export function createTerminalAdapter(): { terminal: DevScopeTerminalApi } {
+    return {
+        terminal: {
+            create: (input) => ipcRenderer.invoke('devscope:terminal:create', input),
+            list: () => ipcRenderer.invoke('devscope:terminal:list'),
+            kill: (sessionId) => ipcRenderer.invoke('devscope:terminal:kill', sessionId),
+            write: (input) => ipcRenderer.invoke('devscope:terminal:write', input),
+            resize: (input) => ipcRenderer.invoke('devscope:terminal:resize', input),
+            capabilities: () => ipcRenderer.invoke('devscope:terminal:capabilities'),
+            suggestions: (input) => ipcRenderer.invoke('devscope:terminal:suggestions', input),
+            banner: (input) => ipcRenderer.invoke('devscope:terminal:banner', input),
+            onOutput: (callback) => {
+                const listener = (_event: Electron.IpcRendererEvent, payload: DevScopeTerminalOutputEvent) => {
+                    callback(payload)
+                }
+                ipcRenderer.on(TERMINAL_OUTPUT_CHANNEL, listener)
+                return () => {
+                    ipcRenderer.removeListener(TERMINAL_OUTPUT_CHANNEL, listener)
+                }
+            }
+        }
+    }
+}
@@ -7,6 +7,7 @@ import { createAssistantAdapter } from './adapters/assistant-adapter'
 import { createDisabledAdapters } from './adapters/disabled-adapters'
 import { createProjectsAdapter } from './adapters/projects-adapter'
 import { createSettingsAndAiAdapter } from './adapters/settings-ai-adapter'
+import { createTerminalAdapter } from './adapters/terminal-adapter'
 import { createUpdatesAdapter } from './adapters/updates-adapter'
 import { createWindowAdapter } from './adapters/window-adapter'
 
@@ -15,6 +16,7 @@ export function createDevScopeElectronAdapter(): DevScopeApi {
         ...createSettingsAndAiAdapter(),
         ...createProjectsAdapter(),
         ...createDisabledAdapters(),
+        ...createTerminalAdapter(),
         ...createAssistantAdapter(),
         ...createUpdatesAdapter(),
         ...createWindowAdapter()
@@ -8,6 +8,7 @@ import { useSmoothScroll } from './lib/useSmoothScroll'
 import { LoadingSpinner } from './components/ui/LoadingState'
 import { AppUpdatesProvider } from './lib/app-updates'
 import { SettingsProvider, useSettings } from './lib/settings'
+import { resolveProjectShell } from './lib/settings-terminal-shells'
 import { CommandPaletteProvider } from './lib/commandPalette'
 import CommandPalette from './components/CommandPalette'
 import LinkHoverStatus from './components/ui/LinkHoverStatus'
@@ -21,6 +22,8 @@ const FolderBrowse = lazy(() => import('./pages/FolderBrowse'))
 const Explorer = lazy(() => import('./pages/Explorer'))
 const QuickOpen = lazy(() => import('./pages/QuickOpen'))
 const Assistant = lazy(() => import('./pages/Assistant'))
+const ContentSearch = lazy(() => import('./pages/ContentSearch'))
+const DependencyAudit = lazy(() => import('./pages/DependencyAudit'))
 
 // Settings sub-pages
 const AppearanceSettings = lazy(() => import('./pages/settings/AppearanceSettings'))
@@ -118,6 +121,8 @@ function normalizeRestorableRoute(
     if (trimmed.startsWith('/folder-browse/')) return trimmed
     if (trimmed === '/settings' || trimmed.startsWith('/settings/')) return trimmed
     if (trimmed === '/terminals' || trimmed.startsWith('/terminals/')) return trimmed
+    if (trimmed === '/search') return trimmed
+    if (trimmed === '/dependencies') return trimmed
     if (trimmed === '/tasks' || trimmed.startsWith('/tasks/')) return trimmed.replace(/^\/tasks/, '/terminals')
     if (allowExplorer && (trimmed === '/explorer' || trimmed.startsWith('/explorer/'))) return trimmed
     if (trimmed === '/assistant' || trimmed.startsWith('/assistant/')) return trimmed
@@ -258,6 +263,8 @@ function MainContent() {
                     <Route path="/tasks" element={<Navigate to="/terminals" replace />} />
                     <Route path="/tasks/*" element={<Navigate to="/terminals" replace />} />
                     <Route path="/terminals" element={<Terminals />} />
+                    <Route path="/search" element={<ContentSearch />} />
+                    <Route path="/dependencies" element={<DependencyAudit />} />
                     <Route path="/projects/:projectPath" element={<ProjectDetails />} />
                     <Route path="/folder-browse/:folderPath" element={<FolderBrowse />} />
                     <Route path="/settings" element={<Settings />} />
@@ -300,7 +307,7 @@ function TerminalContextProvider({ children }: { children: ReactNode }) {
         }
 
         void window.devscope
-            .openInTerminal(cwd, settings.defaultShell, initialCommand)
+            .openInTerminal(cwd, resolveProjectShell(settings, cwd), initialCommand)
             .then((result) => {
                 if (!result?.success) {
                     window.alert(result?.error || 'Failed to open terminal.')
@@ -3,7 +3,7 @@
  */
 
 import { useLocation, useNavigate } from 'react-router-dom'
-import { Settings, FolderOpen, House, ChevronLeft, ChevronRight, FolderTree, Bot, SquareTerminal } from 'lucide-react'
+import { Settings, FolderOpen, House, ChevronLeft, ChevronRight, FolderTree, Bot, SquareTerminal, FileSearch, ShieldCheck } from 'lucide-react'
 import { useAppUpdateState } from '@/lib/app-updates'
 import { cn } from '@/lib/utils'
 import { createContext, useCallback, useEffect, useContext, type ReactNode } from 'react'
@@ -53,6 +53,8 @@ const NAV_ITEMS: NavItem[] = [
     { id: 'home', label: 'Home', path: '/home', icon: House },
     { id: 'projects', label: 'Projects', path: '/projects', icon: FolderOpen },
     { id: 'explorer', label: 'Explorer', path: '/explorer', icon: FolderTree },
+    { id: 'search', label: 'Search', path: '/search', icon: FileSearch },
+    { id: 'dependencies', label: 'Dependencies', path: '/dependencies', icon: ShieldCheck },
     { id: 'assistant', label: 'Assistant', path: '/assistant', icon: Bot },
     { id: 'terminals', label: 'Terminals', path: '/terminals', icon: SquareTerminal },
     { id: 'settings', label: 'Settings', path: '/settings', icon: Settings }
@@ -8,6 +8,8 @@ import {
 import { createPortal } from 'react-dom'
 import { getParentFolderPath } from '@/lib/filesystem/fileSystemPaths'
 import { useSettings } from '@/lib/settings'
+import { resolveProjectShell } from '@/lib/settings-terminal-shells'
+import { CommitDiffModal } from '@/pages/project-details/CommitDiffModal'
 import { isEditableFileType, PREVIEW_TERMINAL_MIN_HEIGHT } from './file-preview/modalShared'
 import type { FilePreviewModalProps } from './file-preview/modalTypes'
 import { PreviewModalLayout } from './file-preview/PreviewModalLayout'
@@ -18,6 +20,7 @@ import { useFilePreviewModalInteractions } from './file-preview/useFilePreviewMo
 import { useFilePreview } from './file-preview/useFilePreview'
 import { useFilePreviewChrome } from './file-preview/useFilePreviewChrome'
 import { useFilePreviewEditSession } from './file-preview/useFilePreviewEditSession'
+import { useFilePreviewGitHistory } from './file-preview/useFilePreviewGitHistory'
 import { useFilePreviewPython } from './file-preview/useFilePreviewPython'
 import { useFilePreviewTerminal } from './file-preview/useFilePreviewTerminal'
 import { usePreviewSiblingMediaItems } from './file-preview/usePreviewSiblingMediaItems'
@@ -59,6 +62,7 @@ export function FilePreviewModal({
     const canRunPython = file.type === 'code'
         && (file.language === 'python' || /\.py$/i.test(file.name) || /\.py$/i.test(file.path))
     const canUsePreviewTerminal = Boolean(projectPath || file.path)
+    const previewShell = resolveProjectShell(settings, projectPath || file.path)
     const resolvedPreviewTabs = useMemo(
         () => (previewTabs && previewTabs.length > 0 ? previewTabs : [{ id: file.path || file.name, file }]),
         [file, previewTabs]
@@ -155,6 +159,14 @@ export function FilePreviewModal({
     })
     const effectiveIsExpanded = disableFullscreen ? false : isExpanded
 
+    const gitHistory = useFilePreviewGitHistory({
+        file,
+        projectPath,
+        sourceContent,
+        isDirty
+    })
+    const { selectedCommit: selectedHistoryCommit, closeCommit: closeHistoryCommit } = gitHistory
+
     useEffect(() => {
         if (!disableFullscreen || !isExpanded) return
         setIsExpanded(false)
@@ -187,7 +199,7 @@ export function FilePreviewModal({
         canUsePreviewTerminal,
         file,
         projectPath,
-        defaultShell: settings.defaultShell,
+        defaultShell: previewShell,
         accentColorPrimary: settings.accentColor.primary,
         themeKey: settings.theme,
         initialHeight: terminalInitialHeight,
@@ -221,8 +233,7 @@ export function FilePreviewModal({
         isDirty,
         defaultRunMode: settings.filePreviewPythonRunMode,
         handleSave,
-        queueTerminalCommand,
-        defaultShell: settings.defaultShell
+        queueTerminalCommand
     })
 
     const {
@@ -297,13 +308,17 @@ export function FilePreviewModal({
             }
             if (event.key === 'Escape') {
                 event.preventDefault()
+                if (selectedHistoryCommit) {
+                    closeHistoryCommit()
+                    return
+                }
                 handleCloseRequest()
             }
         }
 
         window.addEventListener('keydown', handleKeyDown)
         return () => window.removeEventListener('keydown', handleKeyDown)
-    }, [canEdit, handleCloseRequest, handleModeChange, handleSave, mode, previewModeEnabled])
+    }, [canEdit, closeHistoryCommit, handleCloseRequest, handleModeChange, handleSave, mode, previewModeEnabled, selectedHistoryCommit])
 
 
     const {
@@ -437,6 +452,20 @@ export function FilePreviewModal({
             previewSurfaceRef={previewSurfaceRef}
             previewResetKey={previewResetKey}
             lineMarkersOverride={localDiffPreview?.markers}
+            blame={gitHistory.blameSource}
+            gitHistory={gitHistory.gitHistoryAvailable ? {
+                blameEnabled: gitHistory.blameEnabled,
+                blameLoading: gitHistory.blameLoading,
+                blameError: gitHistory.blameError,
+                blameSuspended: isDirty,
+                onToggleBlame: () => gitHistory.setBlameEnabled((current) => !current),
+                historyOpen: gitHistory.historyOpen,
+                onHistoryOpenChange: gitHistory.setHistoryOpen,
+                history: gitHistory.history,
+                historyLoading: gitHistory.historyLoading,
+                historyError: gitHistory.historyError,
+                onSelectHistoryEntry: gitHistory.openHistoryEntry
+            } : null}
             presetConfig={presetConfig}
             isCsv={isCsv}
             isHtml={isHtml}
@@ -496,11 +525,24 @@ export function FilePreviewModal({
         </DndContext>
     )
 
+    // Stacks above the preview, which sits at z-[80] when windowed.
+    const historyCommitModal = selectedHistoryCommit ? (
+        <div className="relative z-[150]">
+            <CommitDiffModal
+                commit={selectedHistoryCommit}
+                diff={gitHistory.commitDiff}
+                loading={gitHistory.loadingCommitDiff}
+                onClose={closeHistoryCommit}
+            />
+        </div>
+    ) : null
+
     if (shellMode === 'window' || typeof document === 'undefined') {
         return (
             <>
                 {modalWithDnd}
                 {createFileModal}
+                {historyCommitModal}
             </>
         )
     }
@@ -509,6 +551,7 @@ export function FilePreviewModal({
         <>
             {modalWithDnd}
             {createFileModal}
+            {historyCommitModal}
         </>,
         document.body
     )
@@ -2,7 +2,9 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 import { Bot, ChevronDown, Folder, FolderOpen, LoaderCircle, Terminal } from 'lucide-react'
 import type { DevScopeInstalledIde } from '@shared/contracts/devscope-project-contracts'
+import { getShellLabel, toExternalTerminalShell } from '@shared/terminal-shells'
 import { AnimatedHeight } from '@/components/ui/AnimatedHeight'
+import type { Shell } from '@/lib/settings'
 import { cn } from '@/lib/utils'
 import {
     ALLOWED_IDE_ORDER,
@@ -18,7 +20,7 @@ import {
 
 export function OpenWithProjectButton(props: {
     projectPath: string | null
-    preferredShell: 'powershell' | 'cmd'
+    preferredShell: Shell
     menuOpen?: boolean
     onMenuOpenChange?: (open: boolean) => void
     menuWidthMode?: 'content' | 'trigger'
@@ -61,7 +63,7 @@ export function OpenWithProjectButton(props: {
             .sort((left, right) => (order.get(left.id as (typeof ALLOWED_IDE_ORDER)[number]) ?? 99) - (order.get(right.id as (typeof ALLOWED_IDE_ORDER)[number]) ?? 99))
     }, [installedIdes])
 
-    const terminalLabel = preferredShell === 'cmd' ? 'CMD' : 'PowerShell'
+    const terminalLabel = getShellLabel(toExternalTerminalShell(preferredShell))
     const disabled = !projectPath
     const primaryTargetId: AssistantOpenWithTargetId = useMemo(() => {
         if (lastTargetId === 'explorer' || lastTargetId === 'terminal') return lastTargetId
@@ -63,7 +63,10 @@ const FRAMEWORKS_DATA: Record<string, { displayName: string; icon: string; theme
     'springboot': { displayName: 'Spring Boot', icon: 'springboot', themeColor: '#6DB33F' },
     'flutter': { displayName: 'Flutter', icon: 'flutter', themeColor: '#02569B' },
     'rails': { displayName: 'Ruby on Rails', icon: 'rubyonrails', themeColor: '#CC0000' },
-    'laravel': { displayName: 'Laravel', icon: 'laravel', themeColor: '#FF2D20' }
+    'laravel': { displayName: 'Laravel', icon: 'laravel', themeColor: '#FF2D20' },
+    'tauri': { displayName: 'Tauri', icon: 'tauri', themeColor: '#FFC131' },
+    'axum': { displayName: 'Axum', icon: 'rust', themeColor: '#DEA584' },
+    'gin': { displayName: 'Gin', icon: 'go', themeColor: '#00ADD8' }
 }
 
 function getProjectTypeById(id: string) {
@@ -124,7 +127,9 @@ export default function ProjectIcon({
 
     // Priority: framework icon > project type icon
     const frameworkData = framework ? getFrameworkById(framework) : undefined
-    const typeData = projectType ? getProjectTypeById(projectType) : undefined
+    const typeData = projectType
+        ? getProjectTypeById(projectType) || settings.customProjectTypes.find((type) => type.id === projectType)
+        : undefined
 
     const iconSlug = frameworkData?.icon || typeData?.icon
     const themeColor = frameworkData?.themeColor || typeData?.themeColor
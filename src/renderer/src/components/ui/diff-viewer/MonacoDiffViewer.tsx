@@ -3,169 +3,71 @@ import { useEffect, useMemo, useRef, useState } from 'react'
 import type { editor as MonacoEditor } from 'monaco-editor'
 import { useSettings } from '@/lib/settings'
 import { monaco } from '@/lib/monaco/runtime'
-
-const MONACO_DIFF_THEME_ID = 'devscope-diff'
+import type { SelectedLineRange } from '@pierre/diffs'
+import { parseUnifiedDiff } from '@shared/git-patch'
+import { MONACO_DIFF_THEME_ID, applyMonacoDiffTheme, getLanguageFromFilePath } from './monacoDiffTheme'
 
 interface MonacoDiffViewerProps {
     filePath: string
     diff: string
     height?: string
     renderSideBySide?: boolean
+    /** Reports the selected rows as real file line numbers, matching `PatchDiffViewer`. */
+    onLineSelected?: (range: SelectedLineRange | null) => void
 }
 
-function readThemeVariable(name: string, fallback: string): string {
-    if (typeof window === 'undefined') return fallback
-    const computed = getComputedStyle(document.body)
-    const value = computed.getPropertyValue(name).trim()
-    return value || fallback
-}
-
-function applyMonacoDiffTheme(theme: string) {
-    const isLightTheme = theme === 'light'
-    const text = readThemeVariable('--color-text', isLightTheme ? '#1e293b' : '#e2e8f0')
-    const textDark = readThemeVariable('--color-text-dark', isLightTheme ? '#475569' : '#cbd5e1')
-    const textSecondary = readThemeVariable('--color-text-secondary', isLightTheme ? '#64748b' : '#94a3b8')
-    const card = readThemeVariable('--color-card', isLightTheme ? '#ffffff' : '#131c2c')
-    const bg = readThemeVariable('--color-bg', isLightTheme ? '#f9fafb' : '#0c121f')
-    const border = readThemeVariable('--color-border', isLightTheme ? '#e2e8f0' : '#1f2a3d')
-    const accent = readThemeVariable('--accent-primary', isLightTheme ? '#2563eb' : '#60a5fa')
-
-    const themeData: monaco.editor.IStandaloneThemeData = {
-        base: isLightTheme ? 'vs' : 'vs-dark',
-        inherit: true,
-        rules: [],
-        colors: {
-            'editor.background': card,
-            'editor.foreground': text,
-            'editor.lineHighlightBackground': 'transparent',
-            'editorCursor.foreground': accent,
-            'editorLineNumber.foreground': textSecondary,
-            'editorLineNumber.activeForeground': textDark,
-            'editor.selectionBackground': `${accent}33`,
-            'editor.inactiveSelectionBackground': `${accent}20`,
-            'editorIndentGuide.background1': `${border}99`,
-            'editorIndentGuide.activeBackground1': `${textSecondary}aa`,
-            'editorRuler.foreground': `${border}99`,
-            'editorGutter.background': card,
-            'editorOverviewRuler.border': border,
-            'editorBracketMatch.border': accent,
-            'editorBracketMatch.background': `${accent}1f`,
-            'minimap.background': bg,
-            'minimapSlider.background': `${accent}33`,
-            'minimapSlider.hoverBackground': `${accent}55`,
-            'minimapSlider.activeBackground': `${accent}77`,
-            'scrollbarSlider.background': `${accent}33`,
-            'scrollbarSlider.hoverBackground': `${accent}55`,
-            'scrollbarSlider.activeBackground': `${accent}77`,
-            // Diff-specific colors
-            'diffEditor.insertedTextBackground': isLightTheme ? '#73C99133' : '#73C99122',
-            'diffEditor.removedTextBackground': isLightTheme ? '#FF6B6B33' : '#FF6B6B22',
-            'diffEditor.insertedLineBackground': isLightTheme ? '#73C99118' : '#73C99110',
-            'diffEditor.removedLineBackground': isLightTheme ? '#FF6B6B18' : '#FF6B6B10',
-            'diffEditor.diagonalFill': `${border}66`,
-            'diffEditorGutter.insertedLineBackground': isLightTheme ? '#73C99125' : '#73C99115',
-            'diffEditorGutter.removedLineBackground': isLightTheme ? '#FF6B6B25' : '#FF6B6B15',
-            'diffEditorOverview.insertedForeground': '#73C991',
-            'diffEditorOverview.removedForeground': '#FF6B6B'
-        }
-    }
-
-    try {
-        monaco.editor.defineTheme(MONACO_DIFF_THEME_ID, themeData)
-        monaco.editor.setTheme(MONACO_DIFF_THEME_ID)
-    } catch (error) {
-        console.error('Failed to apply Monaco diff theme:', error)
-        monaco.editor.setTheme(isLightTheme ? 'vs' : 'vs-dark')
-    }
-}
-
-function getLanguageFromFilePath(filePath: string): string {
-    const ext = filePath.split('.').pop()?.toLowerCase()
-    const languageMap: Record<string, string> = {
-        js: 'javascript',
-        jsx: 'javascript',
-        ts: 'typescript',
-        tsx: 'typescript',
-        json: 'json',
-        html: 'html',
-        htm: 'html',
-        css: 'css',
-        scss: 'scss',
-        sass: 'scss',
-        less: 'less',
-        md: 'markdown',
-        py: 'python',
-        rb: 'ruby',
-        go: 'go',
-        rs: 'rust',
-        java: 'java',
-        c: 'c',
-        cpp: 'cpp',
-        cs: 'csharp',
-        php: 'php',
-        sh: 'shell',
-        bash: 'shell',
-        yml: 'yaml',
-        yaml: 'yaml',
-        xml: 'xml',
-        sql: 'sql'
-    }
-    return languageMap[ext || ''] || 'plaintext'
+type DiffSideLines = {
+    original: string
+    modified: string
+    /** Real file line numbers for each row of the original/modified models. */
+    originalLineNumbers: number[]
+    modifiedLineNumbers: number[]
 }
 
-function parseDiffToOriginalAndModified(diff: string): { original: string; modified: string } {
-    const lines = diff.split('\n')
+function parseDiffToOriginalAndModified(diff: string): DiffSideLines {
     const originalLines: string[] = []
     const modifiedLines: string[] = []
+    const originalLineNumbers: number[] = []
+    const modifiedLineNumbers: number[] = []
 
-    let inHunk = false
-
-    for (const line of lines) {
-        // Skip diff metadata
-        if (line.startsWith('diff ') || line.startsWith('index ')) {
-            continue
-        }
-        
-        // Skip file headers but mark that we're about to enter content
-        if (line.startsWith('--- ') || line.startsWith('+++ ')) {
-            continue
-        }
-        
-        // Hunk header - marks the start of actual diff content
-        if (line.startsWith('@@ ')) {
-            inHunk = true
-            continue
-        }
-
-        // Only process lines after we've seen a hunk header
-        if (!inHunk) {
-            continue
-        }
-
-        if (line.startsWith('-')) {
-            // Removed line - only in original
-            originalLines.push(line.substring(1))
-        } else if (line.startsWith('+')) {
-            // Added line - only in modified
-            modifiedLines.push(line.substring(1))
-        } else {
-            // Context line - in both (handle lines that start with space or are empty)
-            const contextLine = line.startsWith(' ') ? line.substring(1) : line
-            originalLines.push(contextLine)
-            modifiedLines.push(contextLine)
+    for (const file of parseUnifiedDiff(diff)) {
+        for (const hunk of file.hunks) {
+            for (const line of hunk.lines) {
+                if (line.oldLine !== null) {
+                    originalLines.push(line.text)
+                    originalLineNumbers.push(line.oldLine)
+                }
+                if (line.newLine !== null) {
+                    modifiedLines.push(line.text)
+                    modifiedLineNumbers.push(line.newLine)
+                }
+            }
         }
     }
 
     return {
         original: originalLines.join('\n'),
-        modified: modifiedLines.join('\n')
+        modified: modifiedLines.join('\n'),
+        originalLineNumbers,
+        modifiedLineNumbers
     }
 }
 
-export default function MonacoDiffViewer({ filePath, diff, height = '100%', renderSideBySide = true }: MonacoDiffViewerProps) {
+export default function MonacoDiffViewer({
+    filePath,
+    diff,
+    height = '100%',
+    renderSideBySide = true,
+    onLineSelected
+}: MonacoDiffViewerProps) {
     const { settings } = useSettings()
     const language = useMemo(() => getLanguageFromFilePath(filePath), [filePath])
-    const { original, modified } = useMemo(() => parseDiffToOriginalAndModified(diff), [diff])
+    const sideLines = useMemo(() => parseDiffToOriginalAndModified(diff), [diff])
+    const { original, modified } = sideLines
+    const sideLinesRef = useRef(sideLines)
+    const onLineSelectedRef = useRef(onLineSelected)
+    sideLinesRef.current = sideLines
+    onLineSelectedRef.current = onLineSelected
     const [compactLayout, setCompactLayout] = useState(() => {
         if (typeof window === 'undefined') return false
         return window.innerWidth < 980
@@ -302,6 +204,20 @@ export default function MonacoDiffViewer({ filePath, diff, height = '100%', rend
             modelsRef.current.original = model.original
             modelsRef.current.modified = model.modified
         }
+
+        const reportSelection = (side: 'deletions' | 'additions', selection: monaco.Selection) => {
+            const report = onLineSelectedRef.current
+            if (!report) return
+            // A plain click selects the line under the cursor, like clicking a row in PatchDiffViewer.
+            const lineNumbers = side === 'deletions'
+                ? sideLinesRef.current.originalLineNumbers
+                : sideLinesRef.current.modifiedLineNumbers
+            const start = lineNumbers[selection.startLineNumber - 1]
+            const end = lineNumbers[selection.endLineNumber - 1]
+            report(start === undefined || end === undefined ? null : { start, end, side, endSide: side })
+        }
+        editor.getOriginalEditor().onDidChangeCursorSelection((event) => reportSelection('deletions', event.selection))
+        editor.getModifiedEditor().onDidChangeCursorSelection((event) => reportSelection('additions', event.selection))
     }
 
     if (error) {
@@ -0,0 +1,198 @@
+import { DiffEditor, Editor } from '@monaco-editor/react'
+import { useEffect, useMemo, useRef } from 'react'
+import type { editor as MonacoEditor } from 'monaco-editor'
+import { useSettings } from '@/lib/settings'
+import { monaco } from '@/lib/monaco/runtime'
+import { parseConflictBlocks } from '@shared/git-conflicts'
+import { MONACO_DIFF_THEME_ID, applyMonacoDiffTheme, getLanguageFromFilePath } from './monacoDiffTheme'
+
+export type MergeCompareMode = 'ours-theirs' | 'base-ours' | 'base-theirs'
+
+interface MonacoMergeEditorProps {
+    filePath: string
+    base: string | null
+    ours: string | null
+    theirs: string | null
+    /** Merge result shown in the editable bottom pane. */
+    value: string
+    onChange: (value: string) => void
+    compareMode: MergeCompareMode
+    /** 1-based result line to scroll to; `token` re-triggers the reveal for the same line. */
+    revealTarget?: { line: number; token: number } | null
+}
+
+const sharedOptions: MonacoEditor.IStandaloneEditorConstructionOptions = {
+    minimap: { enabled: false },
+    lineNumbers: 'on',
+    scrollBeyondLastLine: false,
+    automaticLayout: true,
+    renderLineHighlight: 'none',
+    occurrencesHighlight: 'off',
+    selectionHighlight: false,
+    scrollbar: {
+        vertical: 'visible',
+        horizontal: 'visible',
+        useShadows: false,
+        verticalScrollbarSize: 10,
+        horizontalScrollbarSize: 10
+    },
+    fontFamily: 'JetBrains Mono, Consolas, Monaco, "Courier New", monospace',
+    fontSize: 13,
+    lineHeight: 20,
+    padding: { top: 10, bottom: 10 }
+}
+
+const compareOptions: MonacoEditor.IStandaloneDiffEditorConstructionOptions = {
+    ...sharedOptions,
+    readOnly: true,
+    originalEditable: false,
+    renderSideBySide: true,
+    enableSplitViewResizing: true,
+    ignoreTrimWhitespace: false,
+    renderIndicators: true,
+    diffCodeLens: false
+}
+
+const resultOptions: MonacoEditor.IStandaloneEditorConstructionOptions = {
+    ...sharedOptions,
+    readOnly: false,
+    wordWrap: 'off'
+}
+
+const SECTION_PALETTE = {
+    ours: { className: 'merge-conflict-ours', ruler: '#60A5FA' },
+    base: { className: 'merge-conflict-base', ruler: '#94A3B8' },
+    theirs: { className: 'merge-conflict-theirs', ruler: '#73C991' },
+    marker: { className: 'merge-conflict-marker', ruler: '#F97316' }
+} as const
+
+function buildConflictDecorations(value: string): MonacoEditor.IModelDeltaDecoration[] {
+    const decorations: MonacoEditor.IModelDeltaDecoration[] = []
+    const push = (line: number, section: keyof typeof SECTION_PALETTE) => {
+        decorations.push({
+            // Blocks are 0-based line indexes; Monaco lines start at 1.
+            range: new monaco.Range(line + 1, 1, line + 1, 1),
+            options: {
+                isWholeLine: true,
+                className: SECTION_PALETTE[section].className,
+                overviewRuler: {
+                    color: SECTION_PALETTE[section].ruler,
+                    position: monaco.editor.OverviewRulerLane.Full
+                }
+            }
+        })
+    }
+
+    for (const block of parseConflictBlocks(value)) {
+        let line = block.startLine
+        push(line++, 'marker')
+        block.ours.forEach(() => push(line++, 'ours'))
+        if (block.base) {
+            push(line++, 'marker')
+            block.base.forEach(() => push(line++, 'base'))
+        }
+        push(line++, 'marker')
+        block.theirs.forEach(() => push(line++, 'theirs'))
+        push(line, 'marker')
+    }
+    return decorations
+}
+
+function getComparePair(mode: MergeCompareMode, base: string | null, ours: string | null, theirs: string | null) {
+    switch (mode) {
+        case 'base-ours':
+            return { original: base ?? '', modified: ours ?? '' }
+        case 'base-theirs':
+            return { original: base ?? '', modified: theirs ?? '' }
+        default:
+            return { original: ours ?? '', modified: theirs ?? '' }
+    }
+}
+
+export default function MonacoMergeEditor({
+    filePath,
+    base,
+    ours,
+    theirs,
+    value,
+    onChange,
+    compareMode,
+    revealTarget
+}: MonacoMergeEditorProps) {
+    const { settings } = useSettings()
+    const language = useMemo(() => getLanguageFromFilePath(filePath), [filePath])
+    const pair = useMemo(() => getComparePair(compareMode, base, ours, theirs), [compareMode, base, ours, theirs])
+    const resultEditorRef = useRef<MonacoEditor.IStandaloneCodeEditor | null>(null)
+    const decorationIdsRef = useRef<string[]>([])
+    const modelKey = encodeURIComponent(filePath || 'unknown')
+
+    useEffect(() => {
+        try {
+            applyMonacoDiffTheme(settings.theme)
+        } catch (err) {
+            console.error('Failed to apply Monaco theme:', err)
+        }
+    }, [settings.theme, settings.accentColor.primary])
+
+    useEffect(() => {
+        const editor = resultEditorRef.current
+        if (!editor) return
+        decorationIdsRef.current = editor.deltaDecorations(decorationIdsRef.current, buildConflictDecorations(value))
+    }, [value])
+
+    useEffect(() => {
+        const editor = resultEditorRef.current
+        if (!editor || !revealTarget) return
+        editor.revealLineInCenter(revealTarget.line, monaco.editor.ScrollType.Smooth)
+        editor.setPosition({ lineNumber: revealTarget.line, column: 1 })
+    }, [revealTarget])
+
+    useEffect(() => {
+        return () => {
+            resultEditorRef.current?.deltaDecorations(decorationIdsRef.current, [])
+            decorationIdsRef.current = []
+            resultEditorRef.current = null
+        }
+    }, [])
+
+    const loading = (
+        <div className="flex h-full items-center justify-center text-sm text-white/50">
+            Loading merge editor...
+        </div>
+    )
+
+    return (
+        <div className="flex h-full min-h-0 flex-col">
+            <div className="min-h-0 flex-[2] border-b border-white/10">
+                <DiffEditor
+                    key={`${modelKey}:${compareMode}`}
+                    height="100%"
+                    language={language}
+                    original={pair.original}
+                    modified={pair.modified}
+                    originalModelPath={`merge://${modelKey}/${compareMode}/original`}
+                    modifiedModelPath={`merge://${modelKey}/${compareMode}/modified`}
+                    theme={MONACO_DIFF_THEME_ID}
+                    options={compareOptions}
+                    loading={loading}
+                />
+            </div>
+            <div className="min-h-0 flex-[3]">
+                <Editor
+                    height="100%"
+                    language={language}
+                    path={`merge://${modelKey}/result`}
+                    value={value}
+                    theme={MONACO_DIFF_THEME_ID}
+                    options={resultOptions}
+                    onChange={(next) => onChange(next ?? '')}
+                    onMount={(editor) => {
+                        resultEditorRef.current = editor
+                        decorationIdsRef.current = editor.deltaDecorations([], buildConflictDecorations(editor.getValue()))
+                    }}
+                    loading={loading}
+                />
+            </div>
+        </div>
+    )
+}
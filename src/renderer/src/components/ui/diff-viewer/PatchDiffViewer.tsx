@@ -1,7 +1,8 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
 import { RefreshCw } from 'lucide-react'
+import type { SelectedLineRange } from '@pierre/diffs'
 import { FileDiff, PatchDiff } from '@pierre/diffs/react'
-import type { FileDiffMetadata } from '@pierre/diffs/react'
+import type { DiffLineAnnotation, FileDiffMetadata } from '@pierre/diffs/react'
 import { resolveDiffThemeName, resolveDiffThemeType } from '@/lib/diffRendering'
 import { useSettings } from '@/lib/settings'
 import { DiffWorkerPoolProvider } from './DiffWorkerPoolProvider'
@@ -12,6 +13,12 @@ interface PatchDiffViewerProps {
     fileDiff?: FileDiffMetadata | null
     patch?: string
     mode: DiffRenderMode
+    /** Enables click/drag line selection (used for line-level staging). */
+    onLineSelected?: (range: SelectedLineRange | null) => void
+    selectedLines?: SelectedLineRange | null
+    /** Inline rows rendered under a line, keyed by arbitrary string metadata (e.g. hunk actions). */
+    lineAnnotations?: DiffLineAnnotation<string>[]
+    renderAnnotation?: (annotation: DiffLineAnnotation<string>) => ReactNode
 }
 
 function buildDiffViewerUnsafeCss(themeType: 'light' | 'dark'): string {
@@ -147,7 +154,15 @@ function hasRenderedDiffContent(container: HTMLDivElement | null): boolean {
     )
 }
 
-export default function PatchDiffViewer({ fileDiff, patch, mode }: PatchDiffViewerProps) {
+export default function PatchDiffViewer({
+    fileDiff,
+    patch,
+    mode,
+    onLineSelected,
+    selectedLines,
+    lineAnnotations,
+    renderAnnotation
+}: PatchDiffViewerProps) {
     const { settings } = useSettings()
     const containerRef = useRef<HTMLDivElement | null>(null)
     const [isRendering, setIsRendering] = useState(Boolean(fileDiff || patch))
@@ -162,8 +177,15 @@ export default function PatchDiffViewer({ fileDiff, patch, mode }: PatchDiffView
         theme: diffThemeName,
         themeType: diffThemeType,
         tokenizeMaxLineLength: 1000,
-        unsafeCSS
-    }), [diffStyle, diffThemeName, diffThemeType, unsafeCSS])
+        unsafeCSS,
+        enableLineSelection: Boolean(onLineSelected),
+        onLineSelected
+    }), [diffStyle, diffThemeName, diffThemeType, onLineSelected, unsafeCSS])
+    const interactionProps = {
+        selectedLines,
+        lineAnnotations,
+        renderAnnotation
+    }
 
     useEffect(() => {
         if (!fileDiff && !patch) {
@@ -206,9 +228,9 @@ export default function PatchDiffViewer({ fileDiff, patch, mode }: PatchDiffView
         >
             <DiffWorkerPoolProvider>
                 {fileDiff ? (
-                    <FileDiff fileDiff={fileDiff} options={options} />
+                    <FileDiff fileDiff={fileDiff} options={options} {...interactionProps} />
                 ) : patch ? (
-                    <PatchDiff patch={patch} options={options} />
+                    <PatchDiff patch={patch} options={options} {...interactionProps} />
                 ) : (
                     <div className="flex min-h-full items-center justify-center px-6 py-10 text-sm text-white/40">
                         No diff content available.
@@ -0,0 +1,104 @@
+import { monaco } from '@/lib/monaco/runtime'
+
+/** Theme and language helpers shared by the Monaco-based diff and merge editors. */
+export const MONACO_DIFF_THEME_ID = 'devscope-diff'
+
+function readThemeVariable(name: string, fallback: string): string {
+    if (typeof window === 'undefined') return fallback
+    const computed = getComputedStyle(document.body)
+    const value = computed.getPropertyValue(name).trim()
+    return value || fallback
+}
+
+export function applyMonacoDiffTheme(theme: string) {
+    const isLightTheme = theme === 'light'
+    const text = readThemeVariable('--color-text', isLightTheme ? '#1e293b' : '#e2e8f0')
+    const textDark = readThemeVariable('--color-text-dark', isLightTheme ? '#475569' : '#cbd5e1')
+    const textSecondary = readThemeVariable('--color-text-secondary', isLightTheme ? '#64748b' : '#94a3b8')
+    const card = readThemeVariable('--color-card', isLightTheme ? '#ffffff' : '#131c2c')
+    const bg = readThemeVariable('--color-bg', isLightTheme ? '#f9fafb' : '#0c121f')
+    const border = readThemeVariable('--color-border', isLightTheme ? '#e2e8f0' : '#1f2a3d')
+    const accent = readThemeVariable('--accent-primary', isLightTheme ? '#2563eb' : '#60a5fa')
+
+    const themeData: monaco.editor.IStandaloneThemeData = {
+        base: isLightTheme ? 'vs' : 'vs-dark',
+        inherit: true,
+        rules: [],
+        colors: {
+            'editor.background': card,
+            'editor.foreground': text,
+            'editor.lineHighlightBackground': 'transparent',
+            'editorCursor.foreground': accent,
+            'editorLineNumber.foreground': textSecondary,
+            'editorLineNumber.activeForeground': textDark,
+            'editor.selectionBackground': `${accent}33`,
+            'editor.inactiveSelectionBackground': `${accent}20`,
+            'editorIndentGuide.background1': `${border}99`,
+            'editorIndentGuide.activeBackground1': `${textSecondary}aa`,
+            'editorRuler.foreground': `${border}99`,
+            'editorGutter.background': card,
+            'editorOverviewRuler.border': border,
+            'editorBracketMatch.border': accent,
+            'editorBracketMatch.background': `${accent}1f`,
+            'minimap.background': bg,
+            'minimapSlider.background': `${accent}33`,
+            'minimapSlider.hoverBackground': `${accent}55`,
+            'minimapSlider.activeBackground': `${accent}77`,
+            'scrollbarSlider.background': `${accent}33`,
+            'scrollbarSlider.hoverBackground': `${accent}55`,
+            'scrollbarSlider.activeBackground': `${accent}77`,
+            // Diff-specific colors
+            'diffEditor.insertedTextBackground': isLightTheme ? '#73C99133' : '#73C99122',
+            'diffEditor.removedTextBackground': isLightTheme ? '#FF6B6B33' : '#FF6B6B22',
+            'diffEditor.insertedLineBackground': isLightTheme ? '#73C99118' : '#73C99110',
+            'diffEditor.removedLineBackground': isLightTheme ? '#FF6B6B18' : '#FF6B6B10',
+            'diffEditor.diagonalFill': `${border}66`,
+            'diffEditorGutter.insertedLineBackground': isLightTheme ? '#73C99125' : '#73C99115',
+            'diffEditorGutter.removedLineBackground': isLightTheme ? '#FF6B6B25' : '#FF6B6B15',
+            'diffEditorOverview.insertedForeground': '#73C991',
+            'diffEditorOverview.removedForeground': '#FF6B6B'
+        }
+    }
+
+    try {
+        monaco.editor.defineTheme(MONACO_DIFF_THEME_ID, themeData)
+        monaco.editor.setTheme(MONACO_DIFF_THEME_ID)
+    } catch (error) {
+        console.error('Failed to apply Monaco diff theme:', error)
+        monaco.editor.setTheme(isLightTheme ? 'vs' : 'vs-dark')
+    }
+}
+
+export function getLanguageFromFilePath(filePath: string): string {
+    const ext = filePath.split('.').pop()?.toLowerCase()
+    const languageMap: Record<string, string> = {
+        js: 'javascript',
+        jsx: 'javascript',
+        ts: 'typescript',
+        tsx: 'typescript',
+        json: 'json',
+        html: 'html',
+        htm: 'html',
+        css: 'css',
+        scss: 'scss',
+        sass: 'scss',
+        less: 'less',
+        md: 'markdown',
+        py: 'python',
+        rb: 'ruby',
+        go: 'go',
+        rs: 'rust',
+        java: 'java',
+        c: 'c',
+        cpp: 'cpp',
+        cs: 'csharp',
+        php: 'php',
+        sh: 'shell',
+        bash: 'shell',
+        yml: 'yaml',
+        yaml: 'yaml',
+        xml: 'xml',
+        sql: 'sql'
+    }
+    return languageMap[ext || ''] || 'plaintext'
+}
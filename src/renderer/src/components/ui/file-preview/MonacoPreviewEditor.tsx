@@ -3,7 +3,9 @@ import { useEffect, useMemo, useRef, useState } from 'react'
 import type { editor as MonacoEditor } from 'monaco-editor'
 import { useSettings } from '@/lib/settings'
 import { monaco } from '@/lib/monaco/runtime'
+import type { PreviewBlameSource } from './gitBlame'
 import { parseUnifiedDiffMarkers, type GitLineMarker } from './gitDiff'
+import { useMonacoBlameGutter } from './useMonacoBlameGutter'
 
 const MONACO_THEME_ID = 'devscope-preview'
 
@@ -112,6 +114,7 @@ interface MonacoPreviewEditorProps {
     replaceRequestToken?: number
     focusLine?: number | null
     lineMarkersOverride?: GitLineMarker[]
+    blame?: PreviewBlameSource | null
 }
 
 function readThemeVariable(name: string, fallback: string): string {
@@ -201,7 +204,8 @@ export default function MonacoPreviewEditor({
     findRequestToken = 0,
     replaceRequestToken = 0,
     focusLine = null,
-    lineMarkersOverride
+    lineMarkersOverride,
+    blame
 }: MonacoPreviewEditorProps) {
     const { settings } = useSettings()
     const editorTheme = useMemo(() => MONACO_THEME_ID, [])
@@ -211,6 +215,7 @@ export default function MonacoPreviewEditor({
     })
     const [lineMarkers, setLineMarkers] = useState<GitLineMarker[]>([])
     const editorRef = useRef<MonacoEditor.IStandaloneCodeEditor | null>(null)
+    const [mountedEditor, setMountedEditor] = useState<MonacoEditor.IStandaloneCodeEditor | null>(null)
     const decorationIdsRef = useRef<string[]>([])
     const externalSyncInFlightRef = useRef(false)
 
@@ -349,6 +354,8 @@ export default function MonacoPreviewEditor({
         externalSyncInFlightRef.current = false
     }, [value, modelPath])
 
+    const { lineNumberOptions, hoverCard: blameHoverCard } = useMonacoBlameGutter(mountedEditor, blame, filePath)
+
     const editorOptions = useMemo<MonacoEditor.IStandaloneEditorConstructionOptions>(() => {
         const base = isLargeFile ? largeFileOptions : baseOptions
         const nextBase: MonacoEditor.IStandaloneEditorConstructionOptions = {
@@ -361,6 +368,7 @@ export default function MonacoPreviewEditor({
             quickSuggestions: !readOnly,
             wordWrap,
             fontSize,
+            ...(lineNumberOptions ?? { lineNumbers: 'on', lineNumbersMinChars: 5 }),
             minimap: {
                 ...(base.minimap || {}),
                 enabled: minimapEnabled
@@ -385,7 +393,7 @@ export default function MonacoPreviewEditor({
             lineHeight: 18,
             padding: { top: 10, bottom: 10 }
         }
-    }, [compactLayout, fontSize, isLargeFile, minimapEnabled, readOnly, wordWrap])
+    }, [compactLayout, fontSize, isLargeFile, lineNumberOptions, minimapEnabled, readOnly, wordWrap])
 
     useEffect(() => {
         if (findRequestToken <= 0) return
@@ -408,23 +416,27 @@ export default function MonacoPreviewEditor({
     }, [focusLine])
 
     return (
-        <Editor
-            defaultValue={value}
-            language={language}
-            path={modelPath}
-            theme={editorTheme}
-            options={editorOptions}
-            onChange={(nextValue) => {
-                if (typeof onChange !== 'function') return
-                if (externalSyncInFlightRef.current) return
-                onChange(typeof nextValue === 'string' ? nextValue : '')
-            }}
-            onMount={(editor) => {
-                editorRef.current = editor
-                decorationIdsRef.current = editor.deltaDecorations([], [])
-                focusPreviewEditorLine(editor, focusLine)
-                onEditorMount?.(editor)
-            }}
-        />
+        <>
+            <Editor
+                defaultValue={value}
+                language={language}
+                path={modelPath}
+                theme={editorTheme}
+                options={editorOptions}
+                onChange={(nextValue) => {
+                    if (typeof onChange !== 'function') return
+                    if (externalSyncInFlightRef.current) return
+                    onChange(typeof nextValue === 'string' ? nextValue : '')
+                }}
+                onMount={(editor) => {
+                    editorRef.current = editor
+                    decorationIdsRef.current = editor.deltaDecorations([], [])
+                    setMountedEditor(editor)
+                    focusPreviewEditorLine(editor, focusLine)
+                    onEditorMount?.(editor)
+                }}
+            />
+            {blameHoverCard}
+        </>
     )
 }
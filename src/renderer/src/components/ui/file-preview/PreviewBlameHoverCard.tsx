@@ -0,0 +1,60 @@
+import { Calendar, GitCommitHorizontal, User } from 'lucide-react'
+import { createPortal } from 'react-dom'
+import type { DevScopeGitBlameCommit } from '@shared/contracts/devscope-api'
+import { formatBlameAge } from './gitBlame'
+
+const CARD_WIDTH = 340
+
+type PreviewBlameHoverCardProps = {
+    commit: DevScopeGitBlameCommit
+    currentPath?: string
+    anchor: { left: number; top: number }
+}
+
+export function PreviewBlameHoverCard({ commit, currentPath, anchor }: PreviewBlameHoverCardProps) {
+    if (typeof document === 'undefined') return null
+
+    const left = Math.max(8, Math.min(anchor.left, window.innerWidth - CARD_WIDTH - 8))
+    const top = Math.min(anchor.top, window.innerHeight - 160)
+    const renamedFrom = !commit.uncommitted && currentPath && commit.path && !currentPath.replace(/\\/g, '/').endsWith(commit.path)
+        ? commit.path
+        : null
+
+    return createPortal(
+        <div
+            className="pointer-events-none fixed z-[170] rounded-xl border border-white/10 bg-sparkle-card p-3 shadow-2xl"
+            style={{ left, top, width: CARD_WIDTH }}
+        >
+            {commit.uncommitted ? (
+                <>
+                    <div className="text-xs font-medium text-amber-200">Not committed yet</div>
+                    <p className="mt-1 text-[11px] text-white/50">This line only exists in the working tree.</p>
+                </>
+            ) : (
+                <>
+                    <div className="flex items-center gap-2">
+                        <GitCommitHorizontal size={13} className="shrink-0 text-white/50" />
+                        <span className="rounded bg-white/5 px-1.5 py-0.5 font-mono text-[11px] text-white/60">{commit.shortHash}</span>
+                        <span className="truncate text-[11px] text-white/40">{formatBlameAge(commit.date)} ago</span>
+                    </div>
+                    <p className="mt-2 line-clamp-3 text-xs font-medium text-white">{commit.summary}</p>
+                    <div className="mt-2 space-y-1 text-[11px] text-white/50">
+                        <div className="flex items-center gap-1.5 truncate">
+                            <User size={10} className="shrink-0" />
+                            <span className="truncate">{commit.author}{commit.authorEmail ? ` <${commit.authorEmail}>` : ''}</span>
+                        </div>
+                        <div className="flex items-center gap-1.5">
+                            <Calendar size={10} className="shrink-0" />
+                            {new Date(commit.date).toLocaleString()}
+                        </div>
+                        {renamedFrom && (
+                            <div className="truncate text-white/40" title={renamedFrom}>Committed as {renamedFrom}</div>
+                        )}
+                    </div>
+                    <div className="mt-2 border-t border-white/5 pt-2 text-[10px] text-white/35">Click the gutter to open this commit</div>
+                </>
+            )}
+        </div>,
+        document.body
+    )
+}
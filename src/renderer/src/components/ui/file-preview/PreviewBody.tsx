@@ -7,6 +7,7 @@ import { formatPreviewBytes, isMediaPreviewType, isTextLikeFileType } from './ut
 import type { ViewportPreset, ViewportPresetConfig } from './viewport'
 import SyntaxPreview from './SyntaxPreview'
 import type { editor as MonacoEditor } from 'monaco-editor'
+import type { PreviewBlameSource } from './gitBlame'
 import type { GitLineMarker } from './gitDiff'
 import HtmlRenderedPreview from './HtmlRenderedPreview'
 
@@ -35,6 +36,7 @@ interface PreviewBodyProps {
     focusLine?: number | null
     fillEditorHeight?: boolean
     lineMarkersOverride?: GitLineMarker[]
+    blame?: PreviewBlameSource | null
     previewFocusLine?: number | null
     isExpanded?: boolean
     fullBleed?: boolean
@@ -76,6 +78,7 @@ export default function PreviewBody({
     focusLine,
     fillEditorHeight = false,
     lineMarkersOverride,
+    blame,
     previewFocusLine,
     isExpanded = false,
     fullBleed = false,
@@ -124,6 +127,7 @@ export default function PreviewBody({
                     focusLine={focusLine}
                     height={(fillEditorHeight || useFullBleed) ? '100%' : undefined}
                     lineMarkersOverride={lineMarkersOverride}
+                    blame={blame}
                 />
             </div>
         )
@@ -142,6 +146,7 @@ export default function PreviewBody({
                     csvDistinctColorsEnabled={csvDistinctColorsEnabled}
                     focusLine={previewFocusLine}
                     isExpanded={useFullBleed}
+                    blame={blame}
                 />
             </div>
         )
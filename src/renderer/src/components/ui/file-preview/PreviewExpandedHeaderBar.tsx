@@ -4,6 +4,7 @@ import { cn } from '@/lib/utils'
 import { useSettings } from '@/lib/settings'
 import type { PreviewFile, PreviewTab } from './types'
 import type { ViewportPreset } from './viewport'
+import type { PreviewGitHistoryControlsState } from './PreviewGitHistoryControls'
 import { PreviewHeaderEditMenu } from './PreviewHeaderEditMenu'
 import { PreviewHeaderHtmlControls } from './PreviewHeaderHtmlControls'
 import { PreviewHeaderStatusActions } from './PreviewHeaderStatusActions'
@@ -46,6 +47,7 @@ type PreviewExpandedHeaderBarProps = {
     onClosePreviewTab: (tabId: string) => void
     canCreateSiblingFile?: boolean
     onCreateSiblingFile?: () => void
+    gitHistory?: PreviewGitHistoryControlsState | null
 }
 
 type HeaderIconButtonProps = {
@@ -133,7 +135,8 @@ export function PreviewExpandedHeaderBar({
     onSelectPreviewTab,
     onClosePreviewTab,
     canCreateSiblingFile = false,
-    onCreateSiblingFile
+    onCreateSiblingFile,
+    gitHistory
 }: PreviewExpandedHeaderBarProps) {
     const { settings } = useSettings()
     const iconTheme = settings.theme === 'light' ? 'light' : 'dark'
@@ -226,6 +229,7 @@ export function PreviewExpandedHeaderBar({
                     showCloseButton={false}
                     isIdeChrome={true}
                     controlGroupClass=""
+                    gitHistory={gitHistory}
                 />
             </div>
 
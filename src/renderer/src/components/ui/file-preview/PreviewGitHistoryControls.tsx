@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { FileClock, GitCommitHorizontal, RefreshCw } from 'lucide-react'
+import type { DevScopeGitFileHistory, DevScopeGitFileHistoryEntry } from '@shared/contracts/devscope-api'
+import { cn } from '@/lib/utils'
+import { formatBlameAge } from './gitBlame'
+
+const PANEL_WIDTH = 380
+
+export type PreviewGitHistoryControlsState = {
+    blameEnabled: boolean
+    blameLoading: boolean
+    blameError: string | null
+    /** Blame is hidden while the draft has unsaved edits. */
+    blameSuspended: boolean
+    onToggleBlame: () => void
+    historyOpen: boolean
+    onHistoryOpenChange: (open: boolean) => void
+    history: DevScopeGitFileHistory | null
+    historyLoading: boolean
+    historyError: string | null
+    onSelectHistoryEntry: (entry: DevScopeGitFileHistoryEntry) => void
+}
+
+type PreviewGitHistoryControlsProps = PreviewGitHistoryControlsState & {
+    isIdeChrome?: boolean
+}
+
+function describeHistoryChange(entry: DevScopeGitFileHistoryEntry): string | null {
+    if (entry.status === 'renamed' && entry.previousPath) return `Renamed from ${entry.previousPath}`
+    if (entry.status === 'copied' && entry.previousPath) return `Copied from ${entry.previousPath}`
+    if (entry.status === 'added') return 'Created'
+    if (entry.status === 'deleted') return 'Deleted'
+    return null
+}
+
+export function PreviewGitHistoryControls({
+    isIdeChrome = false,
+    blameEnabled,
+    blameLoading,
+    blameError,
+    blameSuspended,
+    onToggleBlame,
+    historyOpen,
+    onHistoryOpenChange,
+    history,
+    historyLoading,
+    historyError,
+    onSelectHistoryEntry
+}: PreviewGitHistoryControlsProps) {
+    const historyButtonRef = useRef<HTMLButtonElement | null>(null)
+    const panelRef = useRef<HTMLDivElement | null>(null)
+    const [panelAnchor, setPanelAnchor] = useState<{ right: number; top: number } | null>(null)
+
+    useEffect(() => {
+        if (!historyOpen) return
+        const rect = historyButtonRef.current?.getBoundingClientRect()
+        if (rect) setPanelAnchor({ right: Math.max(8, window.innerWidth - rect.right), top: rect.bottom + 6 })
+
+        const handlePointerDown = (event: MouseEvent) => {
+            const target = event.target as Node | null
+            if (panelRef.current?.contains(target) || historyButtonRef.current?.contains(target)) return
+            onHistoryOpenChange(false)
+        }
+        window.addEventListener('mousedown', handlePointerDown)
+        return () => window.removeEventListener('mousedown', handlePointerDown)
+    }, [historyOpen, onHistoryOpenChange])
+
+    const buttonClass = (active: boolean) => cn(
+        'inline-flex items-center justify-center rounded-md text-xs transition-colors',
+        isIdeChrome ? 'h-7 w-7' : 'h-6 w-6',
+        active
+            ? 'bg-white/[0.08] text-white'
+            : isIdeChrome
+                ? 'text-white/55 hover:bg-white/[0.06] hover:text-white'
+                : 'text-white/60 hover:bg-white/10 hover:text-white'
+    )
+
+    const blameTitle = blameError
+        ? `Blame unavailable: ${blameError}`
+        : blameEnabled && blameSuspended
+            ? 'Blame is hidden until changes are saved'
+            : blameEnabled ? 'Hide blame' : 'Show blame'
+
+    return (
+        <>
+            <button
+                type="button"
+                onClick={onToggleBlame}
+                className={cn(buttonClass(blameEnabled), blameError && 'text-amber-300/80')}
+                title={blameTitle}
+                aria-pressed={blameEnabled}
+            >
+                {blameLoading ? <RefreshCw size={13} className="animate-spin" /> : <GitCommitHorizontal size={14} />}
+            </button>
+            <button
+                ref={historyButtonRef}
+                type="button"
+                onClick={() => onHistoryOpenChange(!historyOpen)}
+                className={buttonClass(historyOpen)}
+                title="File history"
+                aria-expanded={historyOpen}
+            >
+                <FileClock size={14} />
+            </button>
+
+            {historyOpen && panelAnchor && typeof document !== 'undefined' ? createPortal(
+                <div
+                    ref={panelRef}
+                    className="fixed z-[150] flex max-h-[min(480px,70vh)] flex-col overflow-hidden rounded-xl border border-white/10 bg-sparkle-card shadow-2xl"
+                    style={{ right: panelAnchor.right, top: panelAnchor.top, width: PANEL_WIDTH }}
+                >
+                    <div className="flex items-center justify-between border-b border-white/5 px-3 py-2">
+                        <span className="text-xs font-medium text-white/80">File History</span>
+                        {historyLoading && <RefreshCw size={12} className="animate-spin text-white/40" />}
+                    </div>
+                    <div className="min-h-0 flex-1 overflow-y-auto custom-scrollbar p-1.5">
+                        {historyError ? (
+                            <p className="px-2 py-3 text-xs text-red-300/80">{historyError}</p>
+                        ) : history && history.entries.length === 0 ? (
+                            <p className="px-2 py-3 text-xs text-white/45">No commits touch this file yet.</p>
+                        ) : (
+                            history?.entries.map((entry) => {
+                                const change = describeHistoryChange(entry)
+                                return (
+                                    <button
+                                        key={entry.hash}
+                                        type="button"
+                                        onClick={() => onSelectHistoryEntry(entry)}
+                                        className="w-full rounded-lg px-2.5 py-2 text-left transition-colors hover:bg-white/5"
+                                    >
+                                        <div className="truncate text-xs font-medium text-white/85">{entry.message}</div>
+                                        <div className="mt-0.5 flex items-center gap-2 text-[11px] text-white/40">
+                                            <span className="rounded bg-white/5 px-1.5 py-px font-mono text-white/55">{entry.shortHash}</span>
+                                            <span className="truncate">{entry.author}</span>
+                                            <span className="ml-auto shrink-0" title={new Date(entry.date).toLocaleString()}>{formatBlameAge(entry.date)} ago</span>
+                                        </div>
+                                        {change && (
+                                            <div className="mt-0.5 truncate text-[10px] text-sky-200/60" title={change}>{change}</div>
+                                        )}
+                                    </button>
+                                )
+                            })
+                        )}
+                    </div>
+                    {history?.hasMore && (
+                        <div className="border-t border-white/5 px-3 py-1.5 text-[10px] text-white/35">
+                            Showing the latest {history.entries.length} commits
+                        </div>
+                    )}
+                </div>,
+                document.body
+            ) : null}
+        </>
+    )
+}
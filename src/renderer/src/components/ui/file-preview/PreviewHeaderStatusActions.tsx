@@ -1,5 +1,6 @@
 import { ExternalLink, X } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { PreviewGitHistoryControls, type PreviewGitHistoryControlsState } from './PreviewGitHistoryControls'
 
 type PreviewHeaderStatusActionsProps = {
     showCloseButton?: boolean
@@ -12,6 +13,7 @@ type PreviewHeaderStatusActionsProps = {
     onOpenInBrowser: () => void
     onClose: () => void
     controlGroupClass: string
+    gitHistory?: PreviewGitHistoryControlsState | null
 }
 
 export function PreviewHeaderStatusActions({
@@ -24,11 +26,13 @@ export function PreviewHeaderStatusActions({
     onCsvDistinctColorsEnabledChange,
     onOpenInBrowser,
     onClose,
-    controlGroupClass
+    controlGroupClass,
+    gitHistory
 }: PreviewHeaderStatusActionsProps) {
     return (
         <div className="flex min-w-0 self-stretch flex-wrap items-center justify-end gap-1">
             <div className="flex min-w-0 flex-wrap items-center justify-end gap-1">
+                {gitHistory && <PreviewGitHistoryControls {...gitHistory} isIdeChrome={isIdeChrome} />}
                 {isHtml && !isEditMode && (
                     <button
                         onClick={onOpenInBrowser}
@@ -9,6 +9,7 @@ import { PreviewExpandedHeaderBar } from './PreviewExpandedHeaderBar'
 import { PreviewHeaderEditMenu } from './PreviewHeaderEditMenu'
 import { PreviewHeaderStatusActions } from './PreviewHeaderStatusActions'
 import { PreviewHeaderHtmlControls } from './PreviewHeaderHtmlControls'
+import type { PreviewGitHistoryControlsState } from './PreviewGitHistoryControls'
 
 interface PreviewModalHeaderProps {
     file: PreviewFile
@@ -49,6 +50,7 @@ interface PreviewModalHeaderProps {
     onClosePreviewTab: (tabId: string) => void
     canCreateSiblingFile?: boolean
     onCreateSiblingFile?: () => void
+    gitHistory?: PreviewGitHistoryControlsState | null
 }
 
 function formatPreviewFileName(name: string, maxLength: number): string {
@@ -107,6 +109,7 @@ export default function PreviewModalHeader(props: PreviewModalHeaderProps) {
                 onClosePreviewTab={props.onClosePreviewTab}
                 canCreateSiblingFile={props.canCreateSiblingFile}
                 onCreateSiblingFile={props.onCreateSiblingFile}
+                gitHistory={props.gitHistory}
             />
         )
     }
@@ -142,7 +145,8 @@ function PreviewWindowedHeader({
     onRunPython,
     onStopPython,
     onClearPythonOutput,
-    onPythonRunModeChange
+    onPythonRunModeChange,
+    gitHistory
 }: PreviewModalHeaderProps) {
     const { settings } = useSettings()
     const iconTheme = settings.theme === 'light' ? 'light' : 'dark'
@@ -363,6 +367,7 @@ function PreviewWindowedHeader({
                 onClose={onClose}
                 showCloseButton={showCloseButton}
                 controlGroupClass={controlGroupClass}
+                gitHistory={gitHistory}
             />
         </div>
     )
@@ -74,6 +74,8 @@ export function PreviewModalLayout(props: PreviewModalLayoutProps) {
         previewSurfaceRef,
         previewResetKey,
         lineMarkersOverride,
+        blame,
+        gitHistory,
         presetConfig,
         isCsv,
         isHtml,
@@ -152,6 +154,7 @@ export function PreviewModalLayout(props: PreviewModalLayoutProps) {
                     focusLine={focusLine}
                     fillEditorHeight={fillEditorHeight}
                     lineMarkersOverride={lineMarkersOverride}
+                    blame={blame}
                     previewFocusLine={focusLine}
                     isExpanded={isExpanded}
                     mediaItems={mediaItems}
@@ -204,6 +207,7 @@ export function PreviewModalLayout(props: PreviewModalLayoutProps) {
             onClosePreviewTab={onClosePreviewTab}
             canCreateSiblingFile={canCreateSiblingFile}
             onCreateSiblingFile={onCreateSiblingFile}
+            gitHistory={gitHistory}
         />
     )
 
@@ -1,12 +1,14 @@
 import { Check, ChevronDown, SquareTerminal } from 'lucide-react'
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getShellFamily, getShellLabel, type ShellFamily } from '@shared/terminal-shells'
 import type { Shell } from '@/lib/settings'
+import { useTerminalShells } from '@/lib/terminalShells'
 import { AnimatedHeight } from '@/components/ui/AnimatedHeight'
 import { cn } from '@/lib/utils'
 
 const MENU_ANIMATION_MS = 220
 
-const SHELL_STYLES: Record<Shell, {
+const SHELL_STYLES: Record<ShellFamily, {
     trigger: string
     chevron: string
     row: string
@@ -23,14 +25,15 @@ const SHELL_STYLES: Record<Shell, {
         chevron: 'bg-amber-500/11 text-amber-200 hover:bg-amber-500/[0.15]',
         row: 'bg-amber-500/14 text-amber-100',
         dot: 'bg-amber-300/85'
+    },
+    posix: {
+        trigger: 'bg-emerald-500/14 text-emerald-100 hover:bg-emerald-500/[0.18]',
+        chevron: 'bg-emerald-500/11 text-emerald-200 hover:bg-emerald-500/[0.15]',
+        row: 'bg-emerald-500/14 text-emerald-100',
+        dot: 'bg-emerald-300/85'
     }
 }
 
-const SHELL_LABELS: Record<Shell, string> = {
-    powershell: 'PowerShell',
-    cmd: 'CMD'
-}
-
 type PreviewTerminalNewMenuProps = {
     value: Shell
     onChange: (value: Shell) => void
@@ -44,8 +47,13 @@ export function PreviewTerminalNewMenu({ value, onChange, onCreate }: PreviewTer
     const menuRef = useRef<HTMLDivElement | null>(null)
     const closeTimerRef = useRef<number | null>(null)
 
-    const activeStyles = SHELL_STYLES[value]
-    const activeLabel = SHELL_LABELS[value]
+    const { availableShells } = useTerminalShells()
+    const activeStyles = SHELL_STYLES[getShellFamily(value)]
+    const activeLabel = getShellLabel(value)
+    const shellOptions = useMemo(() => {
+        const ids = availableShells.map((shell) => shell.id)
+        return ids.includes(value) ? ids : [value, ...ids]
+    }, [availableShells, value])
 
     const openMenu = () => {
         if (closeTimerRef.current !== null) {
@@ -143,9 +151,9 @@ export function PreviewTerminalNewMenu({ value, onChange, onCreate }: PreviewTer
                     <AnimatedHeight isOpen={menuOpen} duration={MENU_ANIMATION_MS}>
                         <div className="relative rounded-none border border-white/[0.08] border-t-transparent bg-sparkle-card p-1 shadow-none">
                             <div className="pointer-events-none absolute inset-x-0 top-0 h-px bg-white/[0.08]" />
-                            {(['powershell', 'cmd'] as const).map((shell) => {
+                            {shellOptions.map((shell) => {
                                 const selected = shell === value
-                                const styles = SHELL_STYLES[shell]
+                                const styles = SHELL_STYLES[getShellFamily(shell)]
                                 return (
                                     <button
                                         key={shell}
@@ -162,7 +170,7 @@ export function PreviewTerminalNewMenu({ value, onChange, onCreate }: PreviewTer
                                         )}
                                     >
                                         <span className={cn('size-1.5 shrink-0 rounded-full', styles.dot)} aria-hidden="true" />
-                                        <span className="min-w-0 flex-1 truncate">{SHELL_LABELS[shell]}</span>
+                                        <span className="min-w-0 flex-1 truncate">{getShellLabel(shell)}</span>
                                         {selected ? <Check size={12} className="shrink-0" /> : null}
                                     </button>
                                 )
@@ -1,6 +1,7 @@
 import type { RefObject } from 'react'
 import { Eraser, Square, Trash2, X } from 'lucide-react'
 import type { Shell } from '@/lib/settings'
+import { getShellLabel } from '@shared/terminal-shells'
 import { cn } from '@/lib/utils'
 import { PREVIEW_TERMINAL_MIN_HEIGHT, TERMINAL_PANEL_ANIMATION_MS, type PreviewTerminalSessionItem, type PreviewTerminalState, type TerminalPanelPhase } from './modalShared'
 import { PreviewTerminalNewMenu } from './PreviewTerminalNewMenu'
@@ -138,7 +139,7 @@ export function PreviewTerminalPanel({
                                 <div className="max-w-sm space-y-2">
                                     <div className="text-sm font-medium text-sparkle-text">{sessions.length > 0 ? 'Select a session' : 'No terminal yet'}</div>
                                     <div className="flex items-center justify-center gap-2">
-                                        <button type="button" onClick={() => onNew(newShell)} className="rounded-none border border-sky-400/30 bg-sky-500/10 px-3 py-1.5 text-[11px] font-medium text-sky-200 transition-colors hover:bg-sky-500/15">{newShell === 'cmd' ? 'New CMD' : 'New PowerShell'}</button>
+                                        <button type="button" onClick={() => onNew(newShell)} className="rounded-none border border-sky-400/30 bg-sky-500/10 px-3 py-1.5 text-[11px] font-medium text-sky-200 transition-colors hover:bg-sky-500/15">New {getShellLabel(newShell)}</button>
                                         {sessions.length > 0 && <button type="button" onClick={() => onSelect(sessions[0]?.sessionId || '')} className="rounded-none border border-sparkle-border px-3 py-1.5 text-[11px] font-medium text-sparkle-text-secondary transition-colors hover:bg-sparkle-card-hover hover:text-sparkle-text">First Session</button>}
                                     </div>
                                 </div>
@@ -20,6 +20,7 @@ interface SyntaxPreviewProps {
     focusLine?: number | null
     height?: string
     lineMarkersOverride?: import('./gitDiff').GitLineMarker[]
+    blame?: import('./gitBlame').PreviewBlameSource | null
 }
 
 function normalizeSyntaxContent(content: unknown): string {
@@ -72,7 +73,8 @@ export default function SyntaxPreview({
     replaceRequestToken,
     focusLine,
     height,
-    lineMarkersOverride
+    lineMarkersOverride,
+    blame
 }: SyntaxPreviewProps) {
     const safeContent = normalizeSyntaxContent(content)
     const monacoLanguage = resolveMonacoLanguage(language)
@@ -106,6 +108,7 @@ export default function SyntaxPreview({
                     replaceRequestToken={replaceRequestToken}
                     focusLine={focusLine}
                     lineMarkersOverride={lineMarkersOverride}
+                    blame={blame}
                 />
             </Suspense>
         </div>
@@ -6,6 +6,7 @@ import { HIGHLIGHT_MAX_CHARS, HIGHLIGHT_MAX_LINES } from './constants'
 import type { PreviewFile, PreviewMeta } from './types'
 import { formatPreviewBytes } from './utils'
 import CsvPreviewTable from './CsvPreviewTable'
+import type { PreviewBlameSource } from './gitBlame'
 import SyntaxPreview from './SyntaxPreview'
 
 interface TextPreviewContentProps {
@@ -18,6 +19,7 @@ interface TextPreviewContentProps {
     csvDistinctColorsEnabled: boolean
     focusLine?: number | null
     isExpanded?: boolean
+    blame?: PreviewBlameSource | null
 }
 
 function exceedsLineLimit(value: string, limit: number): boolean {
@@ -44,7 +46,8 @@ function TextPreviewContent({
     gitDiffText,
     csvDistinctColorsEnabled,
     focusLine,
-    isExpanded = false
+    isExpanded = false,
+    blame
 }: TextPreviewContentProps) {
     const isMarkdown = file.type === 'md'
     const isLargeTextPreview = useMemo(() => {
@@ -171,7 +174,7 @@ function TextPreviewContent({
                                 <div className="text-xs text-sky-300/80 px-4 pt-3">Preview is truncated, so JSON formatting is unavailable. Showing raw content.</div>
                             )}
                             <div className={isExpanded ? 'flex-1 min-h-0' : ''}>
-                                <SyntaxPreview content={content} language="json" filePath={file.path} projectPath={projectPath} gitDiffText={gitDiffText} focusLine={focusLine} height={isExpanded ? '100%' : undefined} />
+                                <SyntaxPreview content={content} language="json" filePath={file.path} projectPath={projectPath} gitDiffText={gitDiffText} blame={blame} focusLine={focusLine} height={isExpanded ? '100%' : undefined} />
                             </div>
                         </div>
                     )}
@@ -190,13 +193,13 @@ function TextPreviewContent({
 
             {file.type === 'code' && (
                 <div className={isExpanded ? 'w-full h-full min-h-0 bg-sparkle-card overflow-hidden' : 'w-full h-full min-h-0 max-w-[96%] bg-sparkle-card border border-white/5 overflow-hidden'}>
-                    <SyntaxPreview content={content} language={file.language || 'text'} filePath={file.path} projectPath={projectPath} gitDiffText={gitDiffText} focusLine={focusLine} height={isExpanded ? '100%' : undefined} />
+                    <SyntaxPreview content={content} language={file.language || 'text'} filePath={file.path} projectPath={projectPath} gitDiffText={gitDiffText} blame={blame} focusLine={focusLine} height={isExpanded ? '100%' : undefined} />
                 </div>
             )}
 
             {file.type === 'text' && (
                 <div className={isExpanded ? 'w-full h-full min-h-0 bg-sparkle-card overflow-hidden' : 'w-full h-full min-h-0 max-w-[96%] bg-sparkle-card border border-white/5 overflow-hidden'}>
-                    <SyntaxPreview content={content} language="text" filePath={file.path} projectPath={projectPath} gitDiffText={gitDiffText} focusLine={focusLine} height={isExpanded ? '100%' : undefined} />
+                    <SyntaxPreview content={content} language="text" filePath={file.path} projectPath={projectPath} gitDiffText={gitDiffText} blame={blame} focusLine={focusLine} height={isExpanded ? '100%' : undefined} />
                 </div>
             )}
         </div>
@@ -227,5 +230,6 @@ export default memo(TextPreviewContent, (previous, next) => {
         && previous.gitDiffText === next.gitDiffText
         && previous.csvDistinctColorsEnabled === next.csvDistinctColorsEnabled
         && previous.focusLine === next.focusLine
+        && previous.blame === next.blame
     )
 })
@@ -0,0 +1,65 @@
+import type { DevScopeGitBlameCommit, DevScopeGitFileBlame } from '@shared/contracts/devscope-api'
+
+export type PreviewBlameSource = {
+    data: DevScopeGitFileBlame
+    onSelectCommit: (commit: DevScopeGitBlameCommit) => void
+}
+
+export type BlameLineInfo = {
+    commit: DevScopeGitBlameCommit
+    isRangeStart: boolean
+}
+
+const BLAME_AUTHOR_WIDTH = 12
+const BLAME_AGE_WIDTH = 4
+/** Short hash, author and age columns plus the spaces between them. */
+export const BLAME_GUTTER_LABEL_WIDTH = 7 + 1 + BLAME_AUTHOR_WIDTH + 1 + BLAME_AGE_WIDTH
+// Monaco collapses regular spaces in the line number column.
+const GUTTER_SPACE = '\u00a0'
+
+/** Index blame ranges by 1-based line number. */
+export function buildBlameLineIndex(blame: DevScopeGitFileBlame): Array<BlameLineInfo | undefined> {
+    const lines: Array<BlameLineInfo | undefined> = []
+    for (const range of blame.ranges) {
+        const commit = blame.commits[range.hash]
+        if (!commit) continue
+        for (let offset = 0; offset < range.lineCount; offset += 1) {
+            lines[range.startLine + offset] = { commit, isRangeStart: offset === 0 }
+        }
+    }
+    return lines
+}
+
+export function formatBlameAge(date: string): string {
+    const deltaMs = Math.max(0, Date.now() - new Date(date).getTime())
+    const minutes = Math.floor(deltaMs / 60000)
+    if (minutes < 60) return `${Math.max(1, minutes)}m`
+    const hours = Math.floor(minutes / 60)
+    if (hours < 24) return `${hours}h`
+    const days = Math.floor(hours / 24)
+    if (days < 30) return `${days}d`
+    const months = Math.floor(days / 30)
+    if (months < 12) return `${months}mo`
+    return `${Math.floor(days / 365)}y`
+}
+
+function fitColumn(value: string, width: number, align: 'left' | 'right' = 'left'): string {
+    const text = value.length > width ? `${value.slice(0, width - 1)}…` : value
+    return align === 'left' ? text.padEnd(width, ' ') : text.padStart(width, ' ')
+}
+
+export function formatBlameGutterLabel(commit: DevScopeGitBlameCommit): string {
+    const label = commit.uncommitted
+        ? fitColumn('Uncommitted', BLAME_GUTTER_LABEL_WIDTH)
+        : [
+            commit.shortHash,
+            fitColumn(commit.author, BLAME_AUTHOR_WIDTH),
+            fitColumn(formatBlameAge(commit.date), BLAME_AGE_WIDTH, 'right')
+        ].join(' ')
+    return label.replace(/ /g, GUTTER_SPACE)
+}
+
+export function formatBlameLineNumber(label: string | null, lineNumber: number, digits: number): string {
+    const gutterLabel = label ?? GUTTER_SPACE.repeat(BLAME_GUTTER_LABEL_WIDTH)
+    return `${gutterLabel}${GUTTER_SPACE}${String(lineNumber).padStart(digits, GUTTER_SPACE)}`
+}
@@ -1,5 +1,7 @@
 import type { CSSProperties, Dispatch, ReactNode, RefObject, SetStateAction } from 'react'
+import type { PreviewBlameSource } from './gitBlame'
 import type { GitDiffSummary, GitLineMarker } from './gitDiff'
+import type { PreviewGitHistoryControlsState } from './PreviewGitHistoryControls'
 import type { OutlineItem } from './modalShared'
 import type { PreviewFile, PreviewMediaItem, PreviewOpenOptions, PreviewTab } from './types'
 import { VIEWPORT_PRESETS, type ViewportPreset } from './viewport'
@@ -73,6 +75,8 @@ export type PreviewModalLayoutProps = {
     previewSurfaceRef: RefObject<HTMLDivElement | null>
     previewResetKey: string
     lineMarkersOverride: GitLineMarker[] | undefined
+    blame?: PreviewBlameSource | null
+    gitHistory?: PreviewGitHistoryControlsState | null
     presetConfig: (typeof VIEWPORT_PRESETS)[ViewportPreset]
     isCsv: boolean
     isHtml: boolean
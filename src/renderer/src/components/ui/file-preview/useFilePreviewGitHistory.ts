@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type {
+    DevScopeGitBlameCommit,
+    DevScopeGitFileBlame,
+    DevScopeGitFileHistory,
+    DevScopeGitFileHistoryEntry
+} from '@shared/contracts/devscope-api'
+import { getParentFolderPath } from '@/lib/filesystem/fileSystemPaths'
+import type { GitCommit } from '@/pages/project-details/types'
+import type { PreviewBlameSource } from './gitBlame'
+import type { PreviewFile } from './types'
+import { isTextLikeFileType } from './utils'
+
+const FILE_HISTORY_LIMIT = 100
+
+type UseFilePreviewGitHistoryParams = {
+    file: PreviewFile
+    projectPath?: string
+    sourceContent: string
+    isDirty: boolean
+}
+
+function toGitCommit(commit: {
+    hash: string
+    shortHash: string
+    parents?: string[]
+    author: string
+    date: string
+    message: string
+}): GitCommit {
+    return {
+        hash: commit.hash,
+        shortHash: commit.shortHash,
+        parents: commit.parents ?? [],
+        author: commit.author,
+        date: commit.date,
+        message: commit.message,
+        additions: 0,
+        deletions: 0,
+        filesChanged: 0
+    }
+}
+
+export function useFilePreviewGitHistory({ file, projectPath, sourceContent, isDirty }: UseFilePreviewGitHistoryParams) {
+    const repoPath = projectPath || getParentFolderPath(file.path) || ''
+    const gitHistoryAvailable = Boolean(repoPath && file.path) && isTextLikeFileType(file.type)
+
+    const [blameEnabled, setBlameEnabled] = useState(false)
+    const [blame, setBlame] = useState<DevScopeGitFileBlame | null>(null)
+    const [blameLoading, setBlameLoading] = useState(false)
+    const [blameError, setBlameError] = useState<string | null>(null)
+    const [historyOpen, setHistoryOpen] = useState(false)
+    const [history, setHistory] = useState<DevScopeGitFileHistory | null>(null)
+    const [historyLoading, setHistoryLoading] = useState(false)
+    const [historyError, setHistoryError] = useState<string | null>(null)
+    const [selectedCommit, setSelectedCommit] = useState<GitCommit | null>(null)
+    const [commitDiff, setCommitDiff] = useState('')
+    const [loadingCommitDiff, setLoadingCommitDiff] = useState(false)
+
+    useEffect(() => {
+        setBlame(null)
+        setBlameError(null)
+        setHistory(null)
+        setHistoryError(null)
+    }, [file.path])
+
+    // Reload after saves and external reloads so line attribution matches the file on disk.
+    useEffect(() => {
+        if (!gitHistoryAvailable || !blameEnabled) return
+        let cancelled = false
+        setBlameLoading(true)
+        void window.devscope.getFileBlame(repoPath, file.path)
+            .then((result) => {
+                if (cancelled) return
+                if (!result?.success) throw new Error(result?.error || 'Failed to load blame')
+                setBlame(result.blame)
+                setBlameError(null)
+            })
+            .catch((err: any) => {
+                if (cancelled) return
+                setBlame(null)
+                setBlameError(err?.message || 'Failed to load blame')
+            })
+            .finally(() => {
+                if (!cancelled) setBlameLoading(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [blameEnabled, file.path, gitHistoryAvailable, repoPath, sourceContent])
+
+    useEffect(() => {
+        if (!gitHistoryAvailable || !historyOpen) return
+        let cancelled = false
+        setHistoryLoading(true)
+        void window.devscope.getFileHistory(repoPath, file.path, FILE_HISTORY_LIMIT)
+            .then((result) => {
+                if (cancelled) return
+                if (!result?.success) throw new Error(result?.error || 'Failed to load file history')
+                setHistory(result.history)
+                setHistoryError(null)
+            })
+            .catch((err: any) => {
+                if (cancelled) return
+                setHistory(null)
+                setHistoryError(err?.message || 'Failed to load file history')
+            })
+            .finally(() => {
+                if (!cancelled) setHistoryLoading(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [file.path, gitHistoryAvailable, historyOpen, repoPath, sourceContent])
+
+    const openCommit = useCallback(async (commit: GitCommit) => {
+        setSelectedCommit(commit)
+        setCommitDiff('')
+        setLoadingCommitDiff(true)
+        try {
+            const result = await window.devscope.getCommitDiff(repoPath, commit.hash)
+            setCommitDiff(result?.success ? result.diff : (result?.error || 'Failed to load commit diff'))
+        } catch (err: any) {
+            setCommitDiff(err?.message || 'Failed to load commit diff')
+        } finally {
+            setLoadingCommitDiff(false)
+        }
+    }, [repoPath])
+
+    const openHistoryEntry = useCallback((entry: DevScopeGitFileHistoryEntry) => {
+        setHistoryOpen(false)
+        void openCommit(toGitCommit(entry))
+    }, [openCommit])
+
+    const openBlameCommit = useCallback((commit: DevScopeGitBlameCommit) => {
+        const historyEntry = history?.entries.find((entry) => entry.hash === commit.hash)
+        void openCommit(toGitCommit(historyEntry ?? { ...commit, message: commit.summary }))
+    }, [history, openCommit])
+
+    const blameSource = useMemo<PreviewBlameSource | null>(() => {
+        // Unsaved edits shift lines, so the gutter would point at the wrong commits.
+        if (!blameEnabled || !blame || isDirty) return null
+        return { data: blame, onSelectCommit: openBlameCommit }
+    }, [blame, blameEnabled, isDirty, openBlameCommit])
+
+    return {
+        gitHistoryAvailable,
+        blameEnabled,
+        setBlameEnabled,
+        blameLoading,
+        blameError,
+        blameSource,
+        historyOpen,
+        setHistoryOpen,
+        history,
+        historyLoading,
+        historyError,
+        openHistoryEntry,
+        selectedCommit,
+        commitDiff,
+        loadingCommitDiff,
+        closeCommit: () => setSelectedCommit(null)
+    }
+}
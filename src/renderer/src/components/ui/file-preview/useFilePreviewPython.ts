@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { getShellFamily, parseShellId } from '@shared/terminal-shells'
 import type { PreviewFile } from './types'
 import {
     createPythonPreviewSessionId,
@@ -16,8 +17,7 @@ type UseFilePreviewPythonParams = {
     isDirty: boolean
     defaultRunMode: 'terminal' | 'output'
     handleSave: () => Promise<boolean>
-    queueTerminalCommand: (command: string) => void
-    defaultShell: string
+    queueTerminalCommand: (buildCommand: (shellId: string) => string) => void
 }
 
 export function useFilePreviewPython({
@@ -28,8 +28,7 @@ export function useFilePreviewPython({
     isDirty,
     defaultRunMode,
     handleSave,
-    queueTerminalCommand,
-    defaultShell
+    queueTerminalCommand
 }: UseFilePreviewPythonParams) {
     const [pythonSessionId, setPythonSessionId] = useState(() => createPythonPreviewSessionId())
     const [pythonRunState, setPythonRunState] = useState<'idle' | 'running' | 'success' | 'failed' | 'stopped'>('idle')
@@ -100,15 +99,25 @@ export function useFilePreviewPython({
         setPythonOutputVisible(true)
     }, [])
 
-    const buildTerminalPythonCommand = useCallback(() => {
-        if (defaultShell === 'cmd') {
+    // Built against the shell main actually launched, which can differ from the configured one.
+    const buildTerminalPythonCommand = useCallback((shellId: string) => {
+        const shellFamily = getShellFamily(shellId)
+        if (shellFamily === 'posix') {
+            const quotedPath = `'${file.path.replace(/'/g, `'\\''`)}'`
+            if (parseShellId(shellId)?.kind === 'fish') {
+                return `if command -q python3; python3 ${quotedPath}; else if command -q python; python ${quotedPath}; else; echo '[DevScope] Python not found in PATH.'; end`
+            }
+            return `if command -v python3 >/dev/null 2>&1; then python3 ${quotedPath}; elif command -v python >/dev/null 2>&1; then python ${quotedPath}; else echo '[DevScope] Python not found in PATH.'; fi`
+        }
+
+        if (shellFamily === 'cmd') {
             const escapedPath = file.path.replace(/"/g, '""')
             return `where py >nul 2>nul && py -3 "${escapedPath}" || (where python >nul 2>nul && python "${escapedPath}" || (where python3 >nul 2>nul && python3 "${escapedPath}" || echo [DevScope] Python not found in PATH.))`
         }
 
         const escapedPath = file.path.replace(/'/g, "''")
         return `$__devscopePy='${escapedPath}'; if (Get-Command py -ErrorAction SilentlyContinue) { py -3 $__devscopePy } elseif (Get-Command python -ErrorAction SilentlyContinue) { python $__devscopePy } elseif (Get-Command python3 -ErrorAction SilentlyContinue) { python3 $__devscopePy } else { Write-Host '[DevScope] Python not found in PATH.' -ForegroundColor Red }`
-    }, [defaultShell, file.path])
+    }, [file.path])
 
     const runPythonPreviewOutput = useCallback(async () => {
         if (!canRunPython || !file.path || pythonRunState === 'running') return
@@ -156,7 +165,7 @@ export function useFilePreviewPython({
             }
         }
 
-        queueTerminalCommand(`${buildTerminalPythonCommand()}\r`)
+        queueTerminalCommand((shellId) => `${buildTerminalPythonCommand(shellId)}\r`)
     }, [appendPythonOutput, buildTerminalPythonCommand, canRunPython, file.path, handleSave, isDirty, mode, queueTerminalCommand])
 
     const handleRunPython = useCallback(async () => {
@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { Shell } from '@/lib/settings'
+import { getShellLabel } from '@shared/terminal-shells'
 import { Terminal as XtermTerminal } from 'xterm'
 import { FitAddon } from 'xterm-addon-fit'
 import { WebLinksAddon } from 'xterm-addon-web-links'
@@ -30,8 +31,8 @@ export function useFilePreviewTerminal({
     const [terminalHeight, setTerminalHeight] = useState(initialHeight)
     const [isResizingTerminal, setIsResizingTerminal] = useState(false)
     const [terminalError, setTerminalError] = useState<string | null>(null)
-    const [pendingTerminalCommand, setPendingTerminalCommand] = useState<string | null>(null)
-    const [terminalShellLabel, setTerminalShellLabel] = useState(defaultShell === 'cmd' ? 'CMD' : 'PowerShell')
+    const [pendingTerminalCommand, setPendingTerminalCommand] = useState<{ build: (shellId: string) => string } | null>(null)
+    const [terminalShellLabel, setTerminalShellLabel] = useState(getShellLabel(defaultShell))
     const [terminalSessionCwd, setTerminalSessionCwd] = useState(projectPath || file.path || '')
     const [terminalNewShell, setTerminalNewShell] = useState<Shell>(defaultShell)
 
@@ -93,7 +94,7 @@ export function useFilePreviewTerminal({
         setIsResizingTerminal(false)
         setTerminalError(null)
         setPendingTerminalCommand(null)
-        setTerminalShellLabel(defaultShell === 'cmd' ? 'CMD' : 'PowerShell')
+        setTerminalShellLabel(getShellLabel(defaultShell))
         setTerminalSessionCwd(projectPath || file.path || '')
         setTerminalNewShell(defaultShell)
     }, [defaultShell, file.path, initialHeight, projectPath])
@@ -141,13 +142,7 @@ export function useFilePreviewTerminal({
         setTerminalSessionId(selectedSessionId)
 
         const activeSession = nextSessions.find((session) => session.sessionId === selectedSessionId) || null
-        setTerminalShellLabel(
-            String(activeSession?.shell || defaultShell || 'terminal')
-                .replace(/\.exe$/i, '')
-                .replace(/^pwsh$/i, 'PowerShell')
-                .replace(/^powershell$/i, 'PowerShell')
-                .replace(/^cmd$/i, 'CMD')
-        )
+        setTerminalShellLabel(getShellLabel(activeSession?.shellId || defaultShell))
         setTerminalSessionCwd(String(activeSession?.cwd || result.cwd || targetPath || ''))
         setTerminalState(mapTerminalStatusToState(activeSession?.status))
         if (!activeSession) xtermRef.current?.clear()
@@ -200,7 +195,7 @@ export function useFilePreviewTerminal({
         )
         if (targetSessionId === terminalSessionIdRef.current && nextSessions.length === 0) {
             setTerminalState('idle')
-            setTerminalShellLabel(defaultShell === 'cmd' ? 'CMD' : 'PowerShell')
+            setTerminalShellLabel(getShellLabel(defaultShell))
             setTerminalSessionCwd(terminalGroupCwd || projectPath || file.path || '')
             xtermRef.current?.clear()
         }
@@ -223,9 +218,9 @@ export function useFilePreviewTerminal({
         xtermRef.current?.focus()
     }, [])
 
-    const queueTerminalCommand = useCallback((command: string) => {
+    const queueTerminalCommand = useCallback((buildCommand: (shellId: string) => string) => {
         setTerminalVisible(true)
-        setPendingTerminalCommand(command)
+        setPendingTerminalCommand({ build: buildCommand })
     }, [])
 
     const disposePreviewTerminal = useCallback(() => {
@@ -431,18 +426,12 @@ export function useFilePreviewTerminal({
         const activeSession = currentTerminalSession
         if (!activeSession) {
             setTerminalState('idle')
-            setTerminalShellLabel(defaultShell === 'cmd' ? 'CMD' : 'PowerShell')
+            setTerminalShellLabel(getShellLabel(defaultShell))
             setTerminalSessionCwd(terminalGroupCwd || projectPath || file.path || '')
             return
         }
 
-        setTerminalShellLabel(
-            String(activeSession.shell || defaultShell || 'terminal')
-                .replace(/\.exe$/i, '')
-                .replace(/^pwsh$/i, 'PowerShell')
-                .replace(/^powershell$/i, 'PowerShell')
-                .replace(/^cmd$/i, 'CMD')
-        )
+        setTerminalShellLabel(getShellLabel(activeSession.shellId || defaultShell))
         setTerminalSessionCwd(activeSession.cwd || terminalGroupCwd || projectPath || file.path || '')
         setTerminalState(mapTerminalStatusToState(activeSession.status))
         setTerminalSessions((current) => current.map((session) => (
@@ -451,7 +440,7 @@ export function useFilePreviewTerminal({
     }, [currentTerminalSession, defaultShell, file.path, projectPath, renderTerminalPanel, terminalGroupCwd, terminalSessionId, terminalVisible])
     useEffect(() => {
         if (!pendingTerminalCommand || !terminalVisible || terminalState !== 'active' || !terminalSessionIdRef.current) return
-        const commandToWrite = pendingTerminalCommand
+        const commandToWrite = pendingTerminalCommand.build(currentTerminalSession?.shellId || defaultShell)
         setPendingTerminalCommand(null)
         void window.devscope.writePreviewTerminal({
             sessionId: terminalSessionIdRef.current,
@@ -459,7 +448,7 @@ export function useFilePreviewTerminal({
         }).catch((error: any) => {
             setTerminalError(error?.message || 'Failed to send command to terminal.')
         })
-    }, [pendingTerminalCommand, terminalState, terminalVisible])
+    }, [currentTerminalSession?.shellId, defaultShell, pendingTerminalCommand, terminalState, terminalVisible])
 
     const startTerminalResize = useCallback((event: { preventDefault: () => void; clientY: number }) => {
         event.preventDefault()
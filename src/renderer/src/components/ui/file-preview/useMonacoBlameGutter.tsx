@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { editor as MonacoEditor } from 'monaco-editor'
+import { monaco } from '@/lib/monaco/runtime'
+import {
+    BLAME_GUTTER_LABEL_WIDTH,
+    buildBlameLineIndex,
+    formatBlameGutterLabel,
+    formatBlameLineNumber,
+    type PreviewBlameSource
+} from './gitBlame'
+import { PreviewBlameHoverCard } from './PreviewBlameHoverCard'
+
+type BlameHoverState = {
+    lineNumber: number
+    anchor: { left: number; top: number }
+}
+
+/**
+ * Renders blame in the line number column: the first line of each commit range shows
+ * `hash author age`, hovering shows the commit card and clicking selects the commit.
+ */
+export function useMonacoBlameGutter(
+    editor: MonacoEditor.IStandaloneCodeEditor | null,
+    blame: PreviewBlameSource | null | undefined,
+    filePath?: string
+) {
+    const [hover, setHover] = useState<BlameHoverState | null>(null)
+    const decorationIdsRef = useRef<string[]>([])
+    const onSelectCommitRef = useRef(blame?.onSelectCommit)
+    onSelectCommitRef.current = blame?.onSelectCommit
+
+    const lineIndex = useMemo(() => (blame ? buildBlameLineIndex(blame.data) : null), [blame?.data])
+
+    const lineNumberOptions = useMemo<MonacoEditor.IStandaloneEditorConstructionOptions | null>(() => {
+        if (!lineIndex) return null
+        const digits = Math.max(3, String(lineIndex.length).length)
+        const labels = new Map<number, string>()
+        lineIndex.forEach((info, lineNumber) => {
+            if (info?.isRangeStart) labels.set(lineNumber, formatBlameGutterLabel(info.commit))
+        })
+        return {
+            lineNumbers: (lineNumber: number) => formatBlameLineNumber(labels.get(lineNumber) ?? null, lineNumber, digits),
+            lineNumbersMinChars: BLAME_GUTTER_LABEL_WIDTH + 1 + digits
+        }
+    }, [lineIndex])
+
+    const hoveredHash = hover ? lineIndex?.[hover.lineNumber]?.commit.hash ?? null : null
+
+    useEffect(() => {
+        if (!editor) return
+        const nextDecorations: MonacoEditor.IModelDeltaDecoration[] = []
+        lineIndex?.forEach((info, lineNumber) => {
+            if (!info) return
+            const classNames = ['git-blame-line']
+            if (info.isRangeStart && lineNumber > 1) classNames.push('git-blame-range-start')
+            if (info.commit.uncommitted) classNames.push('git-blame-uncommitted')
+            if (info.commit.hash === hoveredHash) classNames.push('git-blame-active')
+            nextDecorations.push({
+                range: new monaco.Range(lineNumber, 1, lineNumber, 1),
+                options: { lineNumberClassName: classNames.join(' ') }
+            })
+        })
+        decorationIdsRef.current = editor.deltaDecorations(decorationIdsRef.current, nextDecorations)
+    }, [editor, hoveredHash, lineIndex])
+
+    useEffect(() => {
+        if (!editor || !lineIndex) {
+            setHover(null)
+            return
+        }
+
+        const resolveGutterLine = (event: MonacoEditor.IEditorMouseEvent) => {
+            if (event.target.type !== monaco.editor.MouseTargetType.GUTTER_LINE_NUMBERS) return null
+            const lineNumber = event.target.position?.lineNumber
+            return lineNumber && lineIndex[lineNumber] ? lineNumber : null
+        }
+
+        const moveListener = editor.onMouseMove((event) => {
+            const lineNumber = resolveGutterLine(event)
+            if (!lineNumber) {
+                setHover((current) => current ? null : current)
+                return
+            }
+            setHover((current) => {
+                if (current?.lineNumber === lineNumber) return current
+                const rect = event.target.element?.getBoundingClientRect()
+                return {
+                    lineNumber,
+                    anchor: rect
+                        ? { left: rect.left, top: rect.bottom + 4 }
+                        : { left: event.event.posx, top: event.event.posy + 12 }
+                }
+            })
+        })
+        const leaveListener = editor.onMouseLeave(() => setHover(null))
+        const downListener = editor.onMouseDown((event) => {
+            const lineNumber = resolveGutterLine(event)
+            const commit = lineNumber ? lineIndex[lineNumber]?.commit : null
+            if (!commit || commit.uncommitted) return
+            setHover(null)
+            onSelectCommitRef.current?.(commit)
+        })
+
+        return () => {
+            moveListener.dispose()
+            leaveListener.dispose()
+            downListener.dispose()
+        }
+    }, [editor, lineIndex])
+
+    const hoveredCommit = hover ? lineIndex?.[hover.lineNumber]?.commit : null
+    const hoverCard = hover && hoveredCommit ? (
+        <PreviewBlameHoverCard commit={hoveredCommit} currentPath={filePath} anchor={hover.anchor} />
+    ) : null
+
+    return { lineNumberOptions, hoverCard }
+}
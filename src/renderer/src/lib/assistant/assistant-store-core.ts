@@ -8,6 +8,7 @@ import type {
     AssistantCreateSessionInput,
     AssistantDeclinePendingPlaygroundLabRequestInput,
     AssistantDeleteMessageInput,
+    AssistantForkThreadInput,
     AssistantDomainEvent,
     AssistantModelInfo,
     AssistantPlaygroundState,
@@ -229,6 +230,15 @@ class AssistantStore {
         }, sessionId, options)
     }
 
+    async importSession() {
+        const result = await this.runAction(() => window.devscope.assistant.importSession(), false)
+        if (!result.success || result.cancelled || !result.sessionId) return result
+        const sessionExists = this.state.snapshot.sessions.some((session) => session.id === result.sessionId)
+        return sessionExists
+            ? this.selectSession(result.sessionId, { force: true })
+            : this.hydrateSessionSnapshot(result.sessionId)
+    }
+
     async renameSession(sessionId: string, title: string) {
         return this.runAction(() => window.devscope.assistant.renameSession(sessionId, title), false)
     }
@@ -411,6 +421,10 @@ class AssistantStore {
         return this.runAction(() => window.devscope.assistant.sendPrompt(prompt, options), true)
     }
 
+    async forkThread(input: AssistantForkThreadInput) {
+        return this.runAction(() => window.devscope.assistant.forkThread(input), true)
+    }
+
     async interruptTurn(turnId?: string, sessionId?: string) {
         return this.runAction(() => window.devscope.assistant.interruptTurn(turnId, sessionId), true)
     }
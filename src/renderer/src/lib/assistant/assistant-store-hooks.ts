@@ -6,6 +6,7 @@ import type {
     AssistantCreatePlaygroundLabInput,
     AssistantCreateSessionInput,
     AssistantDeclinePendingPlaygroundLabRequestInput,
+    AssistantForkThreadInput,
     AssistantSendPromptOptions
 } from '@shared/assistant/contracts'
 import {
@@ -100,6 +101,7 @@ const assistantStoreActions = {
     newThread: (sessionId?: string) => assistantStore.newThread(sessionId).then(() => undefined),
     sendPrompt: (prompt: string, options?: AssistantSendPromptOptions) => assistantStore.sendPrompt(prompt, options).then(() => undefined),
     sendPromptResult: (prompt: string, options?: AssistantSendPromptOptions) => assistantStore.sendPrompt(prompt, options),
+    forkThreadResult: (input: AssistantForkThreadInput) => assistantStore.forkThread(input),
     interruptTurn: (turnId?: string, sessionId?: string) => assistantStore.interruptTurn(turnId, sessionId).then(() => undefined),
     connect: (sessionId?: string) => assistantStore.connect(sessionId ? { sessionId } : undefined).then(() => undefined),
     connectResult: (sessionId?: string) => assistantStore.connect(sessionId ? { sessionId } : undefined),
@@ -109,7 +111,8 @@ const assistantStoreActions = {
     respondUserInput: (requestId: string, answers: Record<string, string | string[]>) =>
         assistantStore.respondUserInput({ requestId, answers }).then(() => undefined),
     chooseProjectPath: (sessionId: string) => assistantStore.chooseProjectPath(sessionId).then(() => undefined),
-    createProjectSession: () => assistantStore.createProjectSession().then(() => undefined)
+    createProjectSession: () => assistantStore.createProjectSession().then(() => undefined),
+    importSession: () => assistantStore.importSession().then(() => undefined)
 }
 
 export function useAssistantStoreActions() {
@@ -228,6 +231,7 @@ export function useAssistantConversationStore() {
             activeThread,
             timelineMessages: getAssistantTimelineMessages(activeThread),
             activityFeed: getAssistantActivityFeed(activeThread),
+            pendingApprovals: getAssistantPendingApprovals(activeThread),
             pendingUserInputs: getAssistantPendingUserInputs(activeThread),
             activePlan: getAssistantActivePlan(activeThread),
             latestProposedPlan: getAssistantLatestProposedPlan(activeThread),
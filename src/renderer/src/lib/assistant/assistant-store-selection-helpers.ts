@@ -74,6 +74,8 @@ function areAssistantThreadsEqual(
         && left.subagentDepth === right.subagentDepth
         && left.agentNickname === right.agentNickname
         && left.agentRole === right.agentRole
+        && left.forkedFromThreadId === right.forkedFromThreadId
+        && left.forkedFromMessageId === right.forkedFromMessageId
         && left.model === right.model
         && left.cwd === right.cwd
         && left.messageCount === right.messageCount
@@ -226,6 +228,7 @@ export function areAssistantConversationSelectionsEqual(left: AssistantConversat
         && areAssistantThreadsEqual(left.activeThread, right.activeThread)
         && getMessageListSignature(left.timelineMessages) === getMessageListSignature(right.timelineMessages)
         && getActivityListSignature(left.activityFeed) === getActivityListSignature(right.activityFeed)
+        && getPendingApprovalSignature(left.pendingApprovals) === getPendingApprovalSignature(right.pendingApprovals)
         && getPendingUserInputSignature(left.pendingUserInputs) === getPendingUserInputSignature(right.pendingUserInputs)
         && areAssistantPlansEqual(left.activePlan, right.activePlan)
         && areAssistantLatestProposedPlansEqual(left.latestProposedPlan, right.latestProposedPlan)
@@ -63,6 +63,7 @@ export type AssistantConversationSelection = {
     activeThread: ReturnType<typeof getActiveAssistantThread>
     timelineMessages: ReturnType<typeof getAssistantTimelineMessages>
     activityFeed: ReturnType<typeof getAssistantActivityFeed>
+    pendingApprovals: ReturnType<typeof getAssistantPendingApprovals>
     pendingUserInputs: ReturnType<typeof getAssistantPendingUserInputs>
     activePlan: ReturnType<typeof getAssistantActivePlan>
     latestProposedPlan: ReturnType<typeof getAssistantLatestProposedPlan>
@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { DevScopeFileIndexChangedEvent } from '@shared/contracts/devscope-api'
+
+function normalizeIndexPathKey(path: string): string {
+    return String(path || '').trim().replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase()
+}
+
+function isIndexPathRelated(changedPath: string, scopePath: string): boolean {
+    if (!changedPath || !scopePath) return false
+    return changedPath === scopePath
+        || changedPath.startsWith(`${scopePath}/`)
+        || scopePath.startsWith(`${changedPath}/`)
+}
+
+export function fileIndexChangeTouchesScopes(event: DevScopeFileIndexChangedEvent, scopePaths: string[]): boolean {
+    const scopeKeys = scopePaths.map(normalizeIndexPathKey).filter(Boolean)
+    if (scopeKeys.length === 0) return false
+    return event.changedPaths.some((changedPath) => {
+        const changedKey = normalizeIndexPathKey(changedPath)
+        return scopeKeys.some((scopeKey) => isIndexPathRelated(changedKey, scopeKey))
+    })
+}
+
+/**
+ * Returns a counter that increments whenever the main-process file index reports
+ * changes under one of the given scopes, so effects can re-query indexed data.
+ */
+export function useFileIndexRevision(scopePaths: string[]): number {
+    const [revision, setRevision] = useState(0)
+    const scopeKey = useMemo(() => scopePaths.map(normalizeIndexPathKey).filter(Boolean).join('||'), [scopePaths])
+
+    useEffect(() => {
+        if (!scopeKey || !window.devscope.onFileIndexChanged) return undefined
+        const scopes = scopeKey.split('||')
+        return window.devscope.onFileIndexChanged((event) => {
+            if (!fileIndexChangeTouchesScopes(event, scopes)) return
+            setRevision((current) => current + 1)
+        })
+    }, [scopeKey])
+
+    return revision
+}
@@ -0,0 +1,66 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import type { DevScopeRunStatus } from '@shared/contracts/devscope-api'
+import { normalizeRunProjectKey } from '@shared/run-configurations'
+
+const EMPTY_STATUSES: DevScopeRunStatus[] = []
+
+const statusesByKey = new Map<string, DevScopeRunStatus>()
+const listeners = new Set<() => void>()
+let snapshot: DevScopeRunStatus[] = EMPTY_STATUSES
+let stopListening: (() => void) | null = null
+
+function getStatusKey(status: DevScopeRunStatus): string {
+    return `${normalizeRunProjectKey(status.projectPath)}::${status.configId}`
+}
+
+function upsertStatus(status: DevScopeRunStatus): void {
+    const key = getStatusKey(status)
+    const existing = statusesByKey.get(key)
+    if (existing && existing.updatedAt > status.updatedAt) return
+    statusesByKey.set(key, status)
+}
+
+function publish(): void {
+    snapshot = Array.from(statusesByKey.values())
+    listeners.forEach((listener) => listener())
+}
+
+export function removeRunStatus(projectPath: string, configId: string): void {
+    if (statusesByKey.delete(`${normalizeRunProjectKey(projectPath)}::${configId}`)) publish()
+}
+
+/** One IPC subscription is shared by every card and panel that shows run status. */
+function subscribe(listener: () => void): () => void {
+    listeners.add(listener)
+    if (!stopListening) {
+        stopListening = window.devscope.onTaskRunnerEvent((event) => {
+            if (event.type !== 'status') return
+            upsertStatus(event.status)
+            publish()
+        })
+        void window.devscope.listRunStatuses()
+            .then((result) => {
+                if (!result.success) return
+                result.statuses.forEach(upsertStatus)
+                publish()
+            })
+            .catch(() => undefined)
+    }
+
+    return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0 && stopListening) {
+            stopListening()
+            stopListening = null
+        }
+    }
+}
+
+export function useRunStatuses(projectPath?: string | null): DevScopeRunStatus[] {
+    const statuses = useSyncExternalStore(subscribe, () => snapshot)
+    const projectKey = projectPath ? normalizeRunProjectKey(projectPath) : ''
+    return useMemo(
+        () => (projectKey ? statuses.filter((status) => normalizeRunProjectKey(status.projectPath) === projectKey) : statuses),
+        [projectKey, statuses]
+    )
+}
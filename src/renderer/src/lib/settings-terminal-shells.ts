@@ -0,0 +1,65 @@
+import { normalizeShellId } from '@shared/terminal-shells'
+import type { Settings, Shell } from './settings'
+
+type ShellSettings = Pick<Settings, 'defaultShell' | 'projectShellOverrides'>
+
+export function normalizeProjectShellKey(projectPath: string): string {
+    return String(projectPath || '').trim().replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase()
+}
+
+/** Mirrors main's platform default; main still resolves the login shell when it differs. */
+export function getPlatformDefaultShell(): Shell {
+    const userAgent = typeof navigator === 'undefined' ? '' : navigator.userAgent
+    if (/Windows/i.test(userAgent)) return 'powershell'
+    return /Macintosh|Mac OS X/i.test(userAgent) ? 'zsh' : 'bash'
+}
+
+export function sanitizeDefaultShell(value: unknown): Shell {
+    return normalizeShellId(value) || getPlatformDefaultShell()
+}
+
+export function sanitizeProjectShellOverrides(value: unknown): Record<string, Shell> {
+    if (!value || typeof value !== 'object') return {}
+    const overrides: Record<string, Shell> = {}
+    for (const [projectPath, shell] of Object.entries(value as Record<string, unknown>)) {
+        const key = normalizeProjectShellKey(projectPath)
+        const shellId = normalizeShellId(shell)
+        if (key && shellId) overrides[key] = shellId
+    }
+    return overrides
+}
+
+export function getProjectShellOverride(settings: ShellSettings, projectPath: string): Shell | null {
+    return settings.projectShellOverrides[normalizeProjectShellKey(projectPath)] || null
+}
+
+/**
+ * Shell for a path: the override of the closest enclosing project wins, then the global default.
+ */
+export function resolveProjectShell(settings: ShellSettings, targetPath?: string | null): Shell {
+    const targetKey = normalizeProjectShellKey(targetPath || '')
+    if (!targetKey) return settings.defaultShell
+
+    let bestKey = ''
+    for (const key of Object.keys(settings.projectShellOverrides)) {
+        const matches = targetKey === key || targetKey.startsWith(`${key}/`)
+        if (matches && key.length > bestKey.length) bestKey = key
+    }
+    return bestKey ? settings.projectShellOverrides[bestKey] : settings.defaultShell
+}
+
+export function withProjectShellOverride(
+    overrides: Record<string, Shell>,
+    projectPath: string,
+    shell: Shell | null
+): Record<string, Shell> {
+    const key = normalizeProjectShellKey(projectPath)
+    if (!key) return overrides
+    const next = { ...overrides }
+    if (shell) {
+        next[key] = shell
+    } else {
+        delete next[key]
+    }
+    return next
+}
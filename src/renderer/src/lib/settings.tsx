@@ -10,6 +10,9 @@ import {
     sanitizeAssistantDefaultInteractionMode,
     sanitizeAssistantDefaultRuntimeMode
 } from './settings-assistant-defaults'
+import type { DevScopeCustomProjectType, DevScopeShellId } from '@shared/contracts/devscope-api'
+import { sanitizeCustomProjectTypes } from '@shared/custom-project-types'
+import { getPlatformDefaultShell, sanitizeDefaultShell, sanitizeProjectShellOverrides } from './settings-terminal-shells'
 import { getThemeDefinition, isDarkThemeId, isThemeId, THEME_CLASS_IDS, THEMES, type DarkTheme, type Theme } from './settings-theme-catalog'
 
 export { THEMES, type DarkTheme, type Theme } from './settings-theme-catalog'
@@ -23,7 +26,7 @@ export {
 } from './settings-assistant-defaults'
 
 // Settings Types
-export type Shell = 'powershell' | 'cmd'
+export type Shell = DevScopeShellId
 export type CommitAIProvider = 'groq' | 'gemini' | 'codex'
 export type ScrollMode = 'smooth' | 'native'
 export type BrowserViewMode = 'grid' | 'finder'
@@ -93,6 +96,7 @@ export interface Settings {
     explorerTabEnabled: boolean
     explorerHomePath: string
     defaultShell: Shell
+    projectShellOverrides: Record<string, Shell>
     startMinimized: boolean
     startWithWindows: boolean
     scrollMode: ScrollMode
@@ -107,6 +111,8 @@ export interface Settings {
     filePreviewTerminalPanelHeight: number
     projectsFolder: string
     additionalFolders: string[]
+    customProjectTypes: DevScopeCustomProjectType[]
+    dependencyAdvisoryDatabasePath: string
     gitAutoRefreshOnProjectOpen: boolean
     gitInitDefaultBranch: string
     gitInitCreateGitignore: boolean
@@ -150,7 +156,8 @@ const DEFAULT_SETTINGS: Settings = {
     betaSettingsEnabled: false,
     explorerTabEnabled: false,
     explorerHomePath: '',
-    defaultShell: 'powershell',
+    defaultShell: getPlatformDefaultShell(),
+    projectShellOverrides: {},
     startMinimized: false,
     startWithWindows: false,
     scrollMode: 'smooth',
@@ -165,6 +172,8 @@ const DEFAULT_SETTINGS: Settings = {
     filePreviewTerminalPanelHeight: 220,
     projectsFolder: '',
     additionalFolders: [],
+    customProjectTypes: [],
+    dependencyAdvisoryDatabasePath: '',
     gitAutoRefreshOnProjectOpen: true,
     gitInitDefaultBranch: 'main',
     gitInitCreateGitignore: true,
@@ -276,7 +285,8 @@ function loadSettings(): Settings {
                 betaSettingsEnabled: candidate.betaSettingsEnabled === true,
                 explorerTabEnabled: candidate.explorerTabEnabled === true,
                 explorerHomePath: typeof candidate.explorerHomePath === 'string' ? candidate.explorerHomePath : '',
-                defaultShell: candidate.defaultShell,
+                defaultShell: sanitizeDefaultShell(candidate.defaultShell),
+                projectShellOverrides: sanitizeProjectShellOverrides(candidate.projectShellOverrides),
                 startMinimized: candidate.startMinimized,
                 startWithWindows: candidate.startWithWindows,
                 scrollMode: candidate.scrollMode === 'native' ? 'native' : 'smooth',
@@ -300,6 +310,8 @@ function loadSettings(): Settings {
                     : 220,
                 projectsFolder: candidate.projectsFolder,
                 additionalFolders: candidate.additionalFolders,
+                customProjectTypes: sanitizeCustomProjectTypes(candidate.customProjectTypes),
+                dependencyAdvisoryDatabasePath: String(candidate.dependencyAdvisoryDatabasePath || '').trim(),
                 gitAutoRefreshOnProjectOpen: candidate.gitAutoRefreshOnProjectOpen !== false,
                 gitInitDefaultBranch: typeof candidate.gitInitDefaultBranch === 'string' && candidate.gitInitDefaultBranch.trim()
                     ? candidate.gitInitDefaultBranch.trim()
@@ -395,17 +407,18 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     }, [settings.accentColor])
 
     useEffect(() => {
-        if (settings.compactMode) {
-            document.body.classList.add('compact-mode')
-        } else {
-            document.body.classList.remove('compact-mode')
-        }
+        document.body.classList.toggle('compact-mode', settings.compactMode)
     }, [settings.compactMode])
 
     useEffect(() => {
         saveSettings(settings)
     }, [settings])
 
+    useEffect(() => {
+        // The main-process handler logs failures; only an unavailable channel can reject here.
+        void window.devscope.setCustomProjectTypes?.(settings.customProjectTypes)?.catch(() => undefined)
+    }, [settings.customProjectTypes])
+
     const updateSettings = (partial: Partial<Settings>) => {
         setSettings((prev) => {
             const nextTheme = partial.theme ?? prev.theme
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react'
+import type { DevScopeTerminalShell } from '@shared/contracts/devscope-api'
+
+let terminalShellsRequest: Promise<DevScopeTerminalShell[]> | null = null
+
+/** Shell detection spawns a few processes, so the result is shared for the app session. */
+export function loadTerminalShells(options?: { force?: boolean }): Promise<DevScopeTerminalShell[]> {
+    if (!terminalShellsRequest || options?.force) {
+        terminalShellsRequest = window.devscope.listTerminalShells()
+            .then((result) => (result.success ? result.shells || [] : []))
+            .catch(() => [])
+    }
+    return terminalShellsRequest
+}
+
+export function useTerminalShells() {
+    const [shells, setShells] = useState<DevScopeTerminalShell[]>([])
+    const [loading, setLoading] = useState(true)
+
+    useEffect(() => {
+        let active = true
+        void loadTerminalShells().then((nextShells) => {
+            if (!active) return
+            setShells(nextShells)
+            setLoading(false)
+        })
+        return () => {
+            active = false
+        }
+    }, [])
+
+    return {
+        shells,
+        availableShells: shells.filter((shell) => shell.available),
+        loading
+    }
+}
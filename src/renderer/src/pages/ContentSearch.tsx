@@ -0,0 +1,108 @@
+import { useCallback, useMemo, useState } from 'react'
+import { AlertTriangle, FileSearch, FileText, RefreshCw, Search } from 'lucide-react'
+import { FilePreviewModal, useFilePreview } from '@/components/ui/FilePreviewModal'
+import { useSettings } from '@/lib/settings'
+import type { DevScopeIndexedContentFileResult, DevScopeIndexedContentMatch } from '@shared/contracts/devscope-api'
+import { ContentSearchResults } from './content-search/ContentSearchResults'
+import { useIndexedContentSearch } from './content-search/useIndexedContentSearch'
+
+export default function ContentSearch() {
+    const { settings } = useSettings()
+    const [query, setQuery] = useState('')
+    const roots = useMemo(() => Array.from(new Set(
+        [settings.projectsFolder, ...(settings.additionalFolders || [])]
+            .map((folder) => String(folder || '').trim())
+            .filter(Boolean)
+    )), [settings.additionalFolders, settings.projectsFolder])
+    const { hasQuery, parsedQuery, result, loading, error } = useIndexedContentSearch({ roots, query })
+    const {
+        previewFile,
+        previewMediaItems,
+        previewContent,
+        loadingPreview,
+        previewTruncated,
+        previewSize,
+        previewBytes,
+        previewModifiedAt,
+        openPreview,
+        closePreview
+    } = useFilePreview()
+
+    const handleOpenMatch = useCallback((file: DevScopeIndexedContentFileResult, match: DevScopeIndexedContentMatch) => {
+        void openPreview({ name: file.name, path: file.path }, file.extension, { focusLine: match.line })
+    }, [openPreview])
+
+    return (
+        <div className="mx-auto max-w-[1200px] animate-fadeIn pb-10">
+            <div className="mb-4 flex items-center gap-2.5">
+                <div className="rounded-lg bg-sky-500/10 p-1.5">
+                    <FileSearch size={18} className="text-sky-300" />
+                </div>
+                <h1 className="text-xl font-semibold text-sparkle-text">Search</h1>
+            </div>
+
+            <div className="relative mb-3">
+                <Search size={15} className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sparkle-text-muted" />
+                <input
+                    type="text"
+                    value={query}
+                    onChange={(event) => setQuery(event.target.value)}
+                    placeholder="Search file contents across indexed folders (add .ext to filter by extension)"
+                    autoFocus
+                    className="w-full rounded-xl border border-white/10 bg-sparkle-card py-2.5 pl-9 pr-10 text-sm text-sparkle-text outline-none transition-colors focus:border-[var(--accent-primary)]/50"
+                />
+                {loading && (
+                    <RefreshCw size={14} className="absolute right-3 top-1/2 -translate-y-1/2 animate-spin text-sparkle-text-muted" />
+                )}
+            </div>
+
+            {hasQuery && !error && (
+                <div className="mb-4 text-xs text-sparkle-text-muted">
+                    {result.totalMatches} match{result.totalMatches === 1 ? '' : 'es'} in {result.totalFiles} file{result.totalFiles === 1 ? '' : 's'}
+                    {result.truncated ? ' (showing the first results, refine the search to narrow them down)' : ''}
+                </div>
+            )}
+
+            {error ? (
+                <div className="mb-5 inline-flex max-w-full items-center gap-2 rounded-lg border border-amber-500/25 bg-amber-500/10 px-3 py-2 text-sm text-amber-300">
+                    <AlertTriangle size={14} className="shrink-0" />
+                    <span className="truncate">{error}</span>
+                </div>
+            ) : null}
+
+            {roots.length === 0 ? (
+                <EmptyState message="Set a projects folder in Settings to search file contents." />
+            ) : !hasQuery ? (
+                <EmptyState message="Type to search text inside files from your indexed project folders." />
+            ) : !loading && result.files.length === 0 && !error ? (
+                <EmptyState message={`No file contents match "${parsedQuery.term}".`} />
+            ) : (
+                <ContentSearchResults files={result.files} term={parsedQuery.term} onOpenMatch={handleOpenMatch} />
+            )}
+
+            {previewFile && (
+                <FilePreviewModal
+                    file={previewFile}
+                    content={previewContent}
+                    loading={loadingPreview}
+                    truncated={previewTruncated}
+                    size={previewSize}
+                    previewBytes={previewBytes}
+                    modifiedAt={previewModifiedAt}
+                    onOpenLinkedPreview={openPreview}
+                    mediaItems={previewMediaItems}
+                    onClose={closePreview}
+                />
+            )}
+        </div>
+    )
+}
+
+function EmptyState({ message }: { message: string }) {
+    return (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed border-white/10 py-16 text-center">
+            <FileText size={28} className="text-sparkle-text-muted" />
+            <p className="text-sm text-sparkle-text-secondary">{message}</p>
+        </div>
+    )
+}
@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { AlertTriangle, ArrowUpRight, GitFork, RefreshCw, ShieldAlert, ShieldCheck } from 'lucide-react'
+import { useSettings } from '@/lib/settings'
+import { cn } from '@/lib/utils'
+import type {
+    DevScopeIndexedDependencyAuditProject,
+    DevScopeIndexedDependencyAuditResult
+} from '@shared/contracts/devscope-project-contracts'
+import {
+    AuditStatTile,
+    SEVERITY_ORDER,
+    SeverityBadge,
+    SortableHeaderCell,
+    useSortedRows
+} from './dependency-audit/DependencyAuditPrimitives'
+import { writeStoredProjectActiveTab } from './project-details/projectDetailsPageHelpers'
+
+type ProjectColumn = 'name' | 'lockfile' | 'direct' | 'outOfRange' | 'drift' | 'duplicates' | 'advisories'
+
+function countAdvisories(project: DevScopeIndexedDependencyAuditProject): number {
+    const summary = project.summary
+    return summary ? SEVERITY_ORDER.reduce((total, severity) => total + summary.advisories[severity], 0) : 0
+}
+
+function getProjectSortValue(project: DevScopeIndexedDependencyAuditProject, column: ProjectColumn): string | number {
+    const summary = project.summary
+    if (column === 'lockfile') return project.lockfileKind || ''
+    if (column === 'direct') return summary?.directDependencies ?? -1
+    if (column === 'outOfRange') return summary ? summary.mismatched + summary.missing : -1
+    if (column === 'drift') return summary?.majorDrift ?? -1
+    if (column === 'duplicates') return summary?.duplicates ?? -1
+    if (column === 'advisories') return countAdvisories(project)
+    return project.projectName
+}
+
+export default function DependencyAudit() {
+    const { settings } = useSettings()
+    const navigate = useNavigate()
+    const [result, setResult] = useState<DevScopeIndexedDependencyAuditResult | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const roots = useMemo(() => Array.from(new Set(
+        [settings.projectsFolder, ...(settings.additionalFolders || [])]
+            .map((folder) => String(folder || '').trim())
+            .filter(Boolean)
+    )), [settings.additionalFolders, settings.projectsFolder])
+
+    const runAudit = useCallback(async (forceRefresh = false) => {
+        if (roots.length === 0) return
+        setLoading(true)
+        setError(null)
+        try {
+            const response = await window.devscope.auditIndexedDependencies({
+                roots,
+                advisoryDatabasePath: settings.dependencyAdvisoryDatabasePath || undefined,
+                forceRefresh
+            })
+            if (response.success) {
+                setResult(response)
+            } else {
+                setError(response.error || 'Failed to audit dependencies.')
+            }
+        } catch (err: any) {
+            setError(err?.message || 'Failed to audit dependencies.')
+        } finally {
+            setLoading(false)
+        }
+    }, [roots, settings.dependencyAdvisoryDatabasePath])
+
+    useEffect(() => {
+        void runAudit()
+    }, [runAudit])
+
+    const projects = result?.projects || []
+    const projectNames = useMemo(() => new Map(projects.map((project) => [project.projectPath, project.projectName])), [projects])
+    const { sortedRows, sortColumn, sortDirection, toggleSort } = useSortedRows<DevScopeIndexedDependencyAuditProject, ProjectColumn>(
+        projects,
+        getProjectSortValue,
+        'advisories',
+        'desc'
+    )
+    const totals = useMemo(() => projects.reduce((acc, project) => ({
+        outOfRange: acc.outOfRange + (project.summary ? project.summary.mismatched + project.summary.missing : 0),
+        drift: acc.drift + (project.summary?.majorDrift || 0),
+        advisories: acc.advisories + countAdvisories(project)
+    }), { outOfRange: 0, drift: 0, advisories: 0 }), [projects])
+
+    const openProjectAudit = (projectPath: string) => {
+        writeStoredProjectActiveTab(projectPath, 'audit')
+        navigate(`/projects/${encodeURIComponent(projectPath)}`)
+    }
+
+    return (
+        <div className="mx-auto max-w-[1200px] animate-fadeIn pb-10">
+            <div className="mb-4 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2.5">
+                    <div className="rounded-lg bg-emerald-500/10 p-1.5">
+                        <ShieldCheck size={18} className="text-emerald-300" />
+                    </div>
+                    <h1 className="text-xl font-semibold text-sparkle-text">Dependencies</h1>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => { void runAudit(true) }}
+                    disabled={loading || roots.length === 0}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-sparkle-card px-3 py-1.5 text-xs text-sparkle-text-secondary transition-colors hover:border-white/20 hover:text-sparkle-text disabled:opacity-50"
+                >
+                    <RefreshCw size={13} className={cn(loading && 'animate-spin')} />
+                    {loading ? 'Auditing...' : 'Re-run audit'}
+                </button>
+            </div>
+
+            {error ? (
+                <div className="mb-5 inline-flex max-w-full items-center gap-2 rounded-lg border border-amber-500/25 bg-amber-500/10 px-3 py-2 text-sm text-amber-300">
+                    <AlertTriangle size={14} className="shrink-0" />
+                    <span className="truncate">{error}</span>
+                </div>
+            ) : null}
+
+            {result?.warnings.map((warning) => (
+                <div key={warning} className="mb-3 flex items-center gap-2 rounded-lg border border-amber-500/20 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                    <AlertTriangle size={13} className="shrink-0" />
+                    <span className="truncate">{warning}</span>
+                </div>
+            ))}
+
+            {roots.length === 0 ? (
+                <EmptyState message="Set a projects folder in Settings to audit dependencies across projects." />
+            ) : !result && loading ? (
+                <EmptyState message="Reading lockfiles across indexed projects..." />
+            ) : result && projects.length === 0 ? (
+                <EmptyState message="No JavaScript projects with a package.json were found in the indexed folders." />
+            ) : result ? (
+                <div className="flex flex-col gap-6">
+                    <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+                        <AuditStatTile label="Projects" value={projects.length} />
+                        <AuditStatTile label="Out of range" value={totals.outOfRange} tone={totals.outOfRange > 0 ? 'warn' : 'default'} />
+                        <AuditStatTile label="Major drift" value={totals.drift + result.versionDrift.length} tone={totals.drift + result.versionDrift.length > 0 ? 'warn' : 'default'} />
+                        <AuditStatTile label="Advisories" value={totals.advisories} tone={totals.advisories > 0 ? 'danger' : 'default'} />
+                    </div>
+
+                    <div className="overflow-x-auto rounded-xl border border-white/10 bg-sparkle-card">
+                        <table className="w-full text-xs">
+                            <thead className="border-b border-white/5 bg-white/[0.02]">
+                                <tr>
+                                    <SortableHeaderCell column="name" label="Project" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                    <SortableHeaderCell column="lockfile" label="Lockfile" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                    <SortableHeaderCell column="direct" label="Direct" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                    <SortableHeaderCell column="outOfRange" label="Out of range" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                    <SortableHeaderCell column="drift" label="Major drift" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                    <SortableHeaderCell column="duplicates" label="Duplicates" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                    <SortableHeaderCell column="advisories" label="Advisories" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortedRows.map((project) => (
+                                    <tr
+                                        key={project.projectPath}
+                                        onClick={() => openProjectAudit(project.projectPath)}
+                                        className="cursor-pointer border-b border-white/5 last:border-0 hover:bg-white/[0.03]"
+                                        title={project.projectPath}
+                                    >
+                                        <td className="px-3 py-2">
+                                            <div className="flex items-center gap-1.5 font-medium text-white/85">
+                                                {project.projectName}
+                                                <ArrowUpRight size={11} className="text-white/30" />
+                                            </div>
+                                            {project.error && <div className="mt-0.5 text-[11px] text-red-300/80">{project.error}</div>}
+                                        </td>
+                                        <td className="px-3 py-2 text-white/50">{project.lockfileKind || '—'}</td>
+                                        <td className="px-3 py-2 text-white/70">{project.summary?.directDependencies ?? '—'}</td>
+                                        <td className="px-3 py-2 text-white/70">{project.summary ? project.summary.mismatched + project.summary.missing : '—'}</td>
+                                        <td className="px-3 py-2 text-white/70">{project.summary?.majorDrift ?? '—'}</td>
+                                        <td className="px-3 py-2 text-white/70">{project.summary?.duplicates ?? '—'}</td>
+                                        <td className="px-3 py-2">
+                                            <div className="flex flex-wrap gap-1">
+                                                {project.summary && SEVERITY_ORDER
+                                                    .filter((severity) => project.summary!.advisories[severity] > 0)
+                                                    .map((severity) => (
+                                                        <SeverityBadge key={severity} severity={severity} count={project.summary!.advisories[severity]} />
+                                                    ))}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {result.versionDrift.length > 0 && (
+                        <section>
+                            <h2 className="mb-2 flex items-center gap-2 text-sm font-medium text-sparkle-text">
+                                <GitFork size={14} className="text-amber-300" />
+                                Major versions differ across projects
+                            </h2>
+                            <div className="grid gap-2 md:grid-cols-2">
+                                {result.versionDrift.slice(0, 60).map((drift) => (
+                                    <div key={drift.name} className="rounded-xl border border-white/10 bg-sparkle-card px-3 py-2 text-xs">
+                                        <div className="mb-1 flex items-center justify-between gap-2">
+                                            <span className="truncate font-medium text-white/85">{drift.name}</span>
+                                            <span className="shrink-0 text-amber-300/80">{drift.majors.map((major) => `v${major}`).join(' · ')}</span>
+                                        </div>
+                                        {drift.versions.map((version) => (
+                                            <div key={version.version} className="flex gap-2 text-white/45">
+                                                <span className="w-20 shrink-0 font-mono text-white/65">{version.version}</span>
+                                                <span className="truncate">
+                                                    {version.projectPaths.map((projectPath) => projectNames.get(projectPath) || projectPath).join(', ')}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+
+                    {result.advisories.length > 0 && (
+                        <section>
+                            <h2 className="mb-2 flex items-center gap-2 text-sm font-medium text-sparkle-text">
+                                <ShieldAlert size={14} className="text-red-300" />
+                                Advisories
+                            </h2>
+                            <div className="flex flex-col gap-1.5">
+                                {result.advisories.map((advisory) => (
+                                    <button
+                                        type="button"
+                                        key={`${advisory.projectPath}:${advisory.id}:${advisory.packageName}@${advisory.installedVersion}`}
+                                        onClick={() => openProjectAudit(advisory.projectPath)}
+                                        className="flex items-center gap-3 rounded-xl border border-white/10 bg-sparkle-card px-3 py-2 text-left text-xs transition-colors hover:border-white/20"
+                                    >
+                                        <SeverityBadge severity={advisory.severity} />
+                                        <span className="shrink-0 font-mono text-white/80">{advisory.packageName}@{advisory.installedVersion}</span>
+                                        <span className="min-w-0 flex-1 truncate text-white/55" title={advisory.title}>{advisory.title}</span>
+                                        <span className="shrink-0 text-white/40">{projectNames.get(advisory.projectPath) || advisory.projectPath}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+                </div>
+            ) : null}
+        </div>
+    )
+}
+
+function EmptyState({ message }: { message: string }) {
+    return (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed border-white/10 py-16 text-center">
+            <ShieldCheck size={28} className="text-sparkle-text-muted" />
+            <p className="text-sm text-sparkle-text-secondary">{message}</p>
+        </div>
+    )
+}
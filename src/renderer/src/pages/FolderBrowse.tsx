@@ -13,6 +13,7 @@ import { LoadingSpinner } from '@/components/ui/LoadingState'
 import type { PreviewMediaSource } from '@/components/ui/file-preview/types'
 import { buildMediaPreviewSources, isMediaPreviewType, resolvePreviewType } from '@/components/ui/file-preview/utils'
 import { resolveExplorerHomePath, useDefaultExplorerHomePath } from '@/lib/explorerHome'
+import { useFileIndexRevision } from '@/lib/fileIndexChanges'
 import { trackRecentProject } from '@/lib/recentProjects'
 import { useSettings } from '@/lib/settings'
 import { FolderBrowseContent } from './folder-browse/FolderBrowseContent'
@@ -121,14 +122,19 @@ export default function FolderBrowsePage({ mode = 'projects' }: FolderBrowseProp
         closePreview
     } = useFilePreview()
 
-    const loadContents = useCallback(async (forceRefresh: boolean = false) => {
+    const indexScopePaths = useMemo(() => [decodedPath], [decodedPath])
+    const indexRevision = useFileIndexRevision(indexScopePaths)
+
+    const loadContents = useCallback(async (forceRefresh: boolean = false, options?: { silent?: boolean }) => {
         if (!decodedPath) return
 
         const requestId = ++loadContentsRequestRef.current
         const isStaleRequest = () => requestId !== loadContentsRequestRef.current
-        setLoading(true)
+        if (!options?.silent) {
+            setLoading(true)
+            await yieldToBrowserPaint()
+        }
         setError(null)
-        await yieldToBrowserPaint()
 
         try {
             const result = await window.devscope.scanProjects(decodedPath, { forceRefresh })
@@ -175,10 +181,18 @@ export default function FolderBrowsePage({ mode = 'projects' }: FolderBrowseProp
         void checkGitRepo()
     }, [decodedPath])
 
+    // Index changes reload through the latest loader without re-running when the folder changes.
+    const loadContentsRef = useRef(loadContents)
     useEffect(() => {
+        loadContentsRef.current = loadContents
         void loadContents(false)
     }, [loadContents])
 
+    useEffect(() => {
+        if (indexRevision === 0) return
+        void loadContentsRef.current(false, { silent: true })
+    }, [indexRevision])
+
     const parsedSearchQuery = useMemo(
         () => parseFileSearchQuery(deferredSearchQuery),
         [deferredSearchQuery]
@@ -228,7 +242,7 @@ export default function FolderBrowsePage({ mode = 'projects' }: FolderBrowseProp
         return () => {
             cancelled = true
         }
-    }, [decodedPath, hasIndexedFolderSearch, parsedSearchQuery.extension, parsedSearchQuery.term])
+    }, [decodedPath, hasIndexedFolderSearch, indexRevision, parsedSearchQuery.extension, parsedSearchQuery.term])
 
     const isProjectsRootView = useMemo(() => {
         if (isExplorerMode) return false
@@ -342,7 +356,7 @@ export default function FolderBrowsePage({ mode = 'projects' }: FolderBrowseProp
                 setIndexedInventory(null)
             }
         })()
-    }, [configuredBrowseRoots, decodedPath, isProjectsRootView, projects, statsScanKey])
+    }, [configuredBrowseRoots, decodedPath, indexRevision, isProjectsRootView, projects, statsScanKey])
 
     const filteredProjects = useMemo(() => {
         const sourceProjects = hasIndexedFolderSearch ? indexedSearchProjects : indexedProjectsSource
@@ -19,6 +19,7 @@ import {
 import { useAppUpdateState } from '@/lib/app-updates'
 import { getAssistantDefaultsPreview, useSettings, type Settings } from '@/lib/settings'
 import { cn } from '@/lib/utils'
+import { getShellLabel } from '@shared/terminal-shells'
 import { SettingsBetaBadge } from './settings/SettingsBetaBadge'
 
 interface SettingsCardProps {
@@ -131,7 +132,7 @@ export default function Settings() {
                     iconBg="bg-blue-500/10"
                     title="Behavior"
                     description="Startup, preview, and terminal defaults"
-                    preview={`${settings.startWithWindows ? 'Startup enabled' : 'Startup disabled'} - ${settings.defaultShell === 'cmd' ? 'CMD' : 'PowerShell'} - ${settings.packageRuntimePreference === 'auto' ? 'Auto runtime' : settings.packageRuntimePreference} - ${settings.scrollMode === 'smooth' ? 'Buttery scroll' : 'Native scroll'}`}
+                    preview={`${settings.startWithWindows ? 'Startup enabled' : 'Startup disabled'} - ${getShellLabel(settings.defaultShell)} - ${settings.packageRuntimePreference === 'auto' ? 'Auto runtime' : settings.packageRuntimePreference} - ${settings.scrollMode === 'smooth' ? 'Buttery scroll' : 'Native scroll'}`}
                 />
 
                 <SettingsCard
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { AlertTriangle, Clock3, Play, RefreshCw, SquareTerminal } from 'lucide-react'
 import { useSettings } from '@/lib/settings'
+import { resolveProjectShell } from '@/lib/settings-terminal-shells'
 import type { DevScopePreviewTerminalSessionSummary } from '@shared/contracts/devscope-api'
 import { formatRelativeShort, readCssVariable } from './tasks/tasks-formatters'
 import { TerminalSessionsPanel } from './tasks/TerminalSessionsPanel'
@@ -83,6 +84,11 @@ export default function Tasks() {
         }
     }, [])
 
+    const resolveShellForPath = useCallback(
+        (targetPath: string) => resolveProjectShell(settings, targetPath),
+        [settings]
+    )
+
     const {
         tasksTerminalHostRef,
         selectedTerminalSessionId,
@@ -91,11 +97,14 @@ export default function Tasks() {
         terminalSessionGroups,
         runningTerminalCount,
         handleStopPreviewTerminal,
+        handleRelaunchPreviewTerminal,
+        handleSetPreviewTerminalAutoRelaunch,
+        handleSetPreviewTerminalLaunchCommand,
         handleCreateTerminalForPath
     } = useTasksTerminal({
         terminalSessions,
         setTerminalSessions,
-        defaultShell: settings.defaultShell,
+        resolveShellForPath,
         terminalTheme: tasksTerminalTheme,
         setError,
         refresh
@@ -184,6 +193,9 @@ export default function Tasks() {
                 onCreateTerminalForPath={(path) => { void handleCreateTerminalForPath(path) }}
                 onSelectTerminalSession={setSelectedTerminalSessionId}
                 onStopPreviewTerminal={(sessionId) => { void handleStopPreviewTerminal(sessionId) }}
+                onRelaunchPreviewTerminal={(sessionId, rerunCommand) => { void handleRelaunchPreviewTerminal(sessionId, rerunCommand) }}
+                onSetAutoRelaunch={(sessionId, enabled) => { void handleSetPreviewTerminalAutoRelaunch(sessionId, enabled) }}
+                onSetLaunchCommand={(sessionId, command) => { void handleSetPreviewTerminalLaunchCommand(sessionId, command) }}
                 onRefresh={() => { void refresh() }}
             />
         </div>
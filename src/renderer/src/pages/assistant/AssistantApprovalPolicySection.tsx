@@ -0,0 +1,144 @@
+import { memo, useCallback, useEffect, useState } from 'react'
+import { ShieldCheck, ShieldX } from 'lucide-react'
+import type { AssistantActivity, AssistantApprovalPolicy } from '@shared/assistant/contracts'
+import { cn } from '@/lib/utils'
+
+type PolicyDraft = Record<keyof AssistantApprovalPolicy, string>
+
+const POLICY_FIELDS: Array<{ key: keyof AssistantApprovalPolicy; label: string; placeholder: string }> = [
+    { key: 'allowCommands', label: 'Always allow commands', placeholder: 'npm test\nnpm run lint*' },
+    { key: 'denyCommands', label: 'Never allow commands', placeholder: 'git push*\nrm -rf*' },
+    { key: 'allowPaths', label: 'Always allow writes to', placeholder: 'src/**' },
+    { key: 'denyPaths', label: 'Never allow writes to', placeholder: '!src/**\n.env' }
+]
+
+const EMPTY_DRAFT: PolicyDraft = { allowCommands: '', denyCommands: '', allowPaths: '', denyPaths: '' }
+const MAX_AUDIT_ENTRIES = 20
+
+function toDraft(policy: AssistantApprovalPolicy): PolicyDraft {
+    return {
+        allowCommands: policy.allowCommands.join('\n'),
+        denyCommands: policy.denyCommands.join('\n'),
+        allowPaths: policy.allowPaths.join('\n'),
+        denyPaths: policy.denyPaths.join('\n')
+    }
+}
+
+function toRules(value: string): string[] {
+    return value.split('\n').map((entry) => entry.trim()).filter(Boolean)
+}
+
+export const AssistantApprovalPolicySection = memo(function AssistantApprovalPolicySection(props: {
+    projectPath: string
+    auditActivities: AssistantActivity[]
+}) {
+    const { projectPath, auditActivities } = props
+    const [draft, setDraft] = useState<PolicyDraft>(EMPTY_DRAFT)
+    const [savedDraft, setSavedDraft] = useState<PolicyDraft>(EMPTY_DRAFT)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+        setError(null)
+        setDraft(EMPTY_DRAFT)
+        setSavedDraft(EMPTY_DRAFT)
+        void window.devscope.assistant.getApprovalPolicy(projectPath).then((result) => {
+            if (cancelled) return
+            if (!result.success) {
+                setError(result.error || 'Failed to read approval policy.')
+                return
+            }
+            setDraft(toDraft(result.policy))
+            setSavedDraft(toDraft(result.policy))
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [projectPath])
+
+    const handleSave = useCallback(async () => {
+        setSaving(true)
+        setError(null)
+        try {
+            const result = await window.devscope.assistant.setApprovalPolicy({
+                projectPath,
+                policy: {
+                    allowCommands: toRules(draft.allowCommands),
+                    denyCommands: toRules(draft.denyCommands),
+                    allowPaths: toRules(draft.allowPaths),
+                    denyPaths: toRules(draft.denyPaths)
+                }
+            })
+            if (!result.success) {
+                throw new Error(result.error || 'Failed to save approval policy.')
+            }
+            setDraft(toDraft(result.policy))
+            setSavedDraft(toDraft(result.policy))
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : 'Failed to save approval policy.')
+        } finally {
+            setSaving(false)
+        }
+    }, [draft, projectPath])
+
+    const dirty = POLICY_FIELDS.some(({ key }) => draft[key] !== savedDraft[key])
+    const visibleAuditActivities = auditActivities.slice(0, MAX_AUDIT_ENTRIES)
+
+    return (
+        <div className="space-y-2 border-t border-white/5 pt-3">
+            <span className="text-[11px] font-medium uppercase tracking-[0.16em] text-sparkle-text-muted">Approval Policy</span>
+            <p className="text-[11px] text-sparkle-text-muted">
+                One rule per line. Commands accept <code>*</code> wildcards; paths are globs relative to the project, and <code>!</code> matches everything outside a glob. Deny rules win.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+                {POLICY_FIELDS.map((field) => (
+                    <label key={field.key} className="space-y-1">
+                        <span className="text-[11px] text-sparkle-text-secondary">{field.label}</span>
+                        <textarea
+                            value={draft[field.key]}
+                            onChange={(event) => setDraft((current) => ({ ...current, [field.key]: event.target.value }))}
+                            placeholder={field.placeholder}
+                            rows={3}
+                            spellCheck={false}
+                            className="w-full resize-y rounded-lg border border-white/10 bg-white/[0.03] px-2 py-1.5 font-mono text-[11px] text-sparkle-text placeholder:text-white/25 outline-none transition-colors hover:bg-white/[0.05] focus:border-white/20 focus:bg-white/[0.05]"
+                        />
+                    </label>
+                ))}
+            </div>
+            <div className="flex items-center justify-end gap-2">
+                {error ? <span className="mr-auto truncate text-[11px] text-rose-300" title={error}>{error}</span> : null}
+                <button
+                    type="button"
+                    onClick={() => void handleSave()}
+                    disabled={!dirty || saving}
+                    className="rounded-md border border-white/10 bg-white/[0.03] px-2.5 py-1 text-[11px] text-sparkle-text-secondary transition-colors hover:border-white/20 hover:bg-white/[0.05] hover:text-sparkle-text disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                    {saving ? 'Saving...' : 'Save policy'}
+                </button>
+            </div>
+            {visibleAuditActivities.length > 0 ? (
+                <div className="space-y-1">
+                    <span className="text-[11px] text-sparkle-text-secondary">Resolved by policy ({auditActivities.length})</span>
+                    {visibleAuditActivities.map((activity) => {
+                        const accepted = activity.payload?.['decision'] === 'accept'
+                        const rule = typeof activity.payload?.['rule'] === 'string' ? activity.payload['rule'] : ''
+                        return (
+                            <div key={activity.id} className="flex items-start gap-2 rounded-lg bg-white/[0.02] px-2 py-1.5 text-xs" title={new Date(activity.createdAt).toLocaleString()}>
+                                {accepted
+                                    ? <ShieldCheck size={13} className="mt-0.5 shrink-0 text-emerald-300" />
+                                    : <ShieldX size={13} className="mt-0.5 shrink-0 text-rose-300" />}
+                                <div className="min-w-0 flex-1">
+                                    <div className="truncate font-mono text-sparkle-text">{activity.detail || activity.summary}</div>
+                                    <div className={cn('truncate text-[11px]', accepted ? 'text-emerald-300/70' : 'text-rose-300/70')}>
+                                        {accepted ? 'Allowed' : 'Denied'} by <span className="font-mono">{rule}</span>
+                                    </div>
+                                </div>
+                            </div>
+                        )
+                    })}
+                </div>
+            ) : null}
+        </div>
+    )
+})
@@ -72,6 +72,7 @@ export const ConnectedAssistantSessionsRail = memo(function ConnectedAssistantSe
             onArchiveSession={railController.archiveSession}
             onDeleteSession={railController.deleteSessionResult}
             onChooseProjectPath={railController.createProjectSession}
+            onImportSession={railController.importSession}
             onSetPlaygroundRoot={railController.setPlaygroundRoot}
             onCreatePlaygroundLab={railController.createPlaygroundLabResult}
             onDeletePlaygroundLab={railController.deletePlaygroundLabResult}
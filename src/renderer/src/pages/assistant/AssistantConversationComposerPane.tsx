@@ -1,7 +1,14 @@
 import { memo, useCallback, type WheelEvent as ReactWheelEvent } from 'react'
-import type { AssistantPendingUserInput, AssistantPlaygroundPendingLabRequest, AssistantTurnUsage } from '@shared/assistant/contracts'
+import type {
+    AssistantApprovalDecision,
+    AssistantPendingApproval,
+    AssistantPendingUserInput,
+    AssistantPlaygroundPendingLabRequest,
+    AssistantTurnUsage
+} from '@shared/assistant/contracts'
 import type { PreviewOpenOptions } from '@/components/ui/file-preview/types'
 import { AssistantComposer } from './AssistantComposer'
+import { AssistantPendingApprovalPanel } from './AssistantPendingApprovalPanel'
 import { AssistantPendingPlaygroundLabPanel } from './AssistantPendingPlaygroundLabPanel'
 import { AssistantPendingTerminalAccessModal, getPendingTerminalAccessRequest } from './AssistantPendingTerminalAccessModal'
 import { AssistantPendingUserInputPanel } from './AssistantPendingUserInputPanel'
@@ -10,6 +17,7 @@ import type { AssistantComposerSendOptions, AssistantElementBounds, AssistantQue
 
 export const AssistantConversationComposerPane = memo(function AssistantConversationComposerPane(props: {
     pendingPlaygroundLabRequest: AssistantPlaygroundPendingLabRequest | null
+    pendingApprovals: AssistantPendingApproval[]
     pendingUserInputs: AssistantPendingUserInput[]
     commandPending: boolean
     sending: boolean
@@ -21,6 +29,7 @@ export const AssistantConversationComposerPane = memo(function AssistantConversa
     onMoveQueuedMessage?: (messageId: string, targetMessageId: string) => Promise<void> | void
     selectedSessionId: string | null
     selectedSessionMode: 'work' | 'playground'
+    selectedSessionReadOnly: boolean
     assistantAvailable: boolean
     assistantConnected: boolean
     selectedProjectPath: string | null
@@ -50,6 +59,7 @@ export const AssistantConversationComposerPane = memo(function AssistantConversa
         options: AssistantComposerSendOptions
     ) => Promise<boolean>
     refreshModels: () => void
+    respondApproval: (requestId: string, decision: AssistantApprovalDecision) => Promise<void>
     respondUserInput: (requestId: string, answers: Record<string, string | string[]>) => Promise<void>
     setPlaygroundTerminalAccess: (enabled: boolean) => void
     setPlaygroundTerminalAccessRequestMuted: (muted: boolean) => void
@@ -62,15 +72,17 @@ export const AssistantConversationComposerPane = memo(function AssistantConversa
         ? props.pendingUserInputs.filter((request) => request.requestId !== pendingTerminalAccessRequest.requestId)
         : props.pendingUserInputs
     const isWaitingForUserInput = visiblePendingUserInputs.length > 0
+    const isWaitingForApproval = !isWaitingForUserInput && props.pendingApprovals.length > 0
     const isConnecting = props.isConnecting ?? (props.commandPending && !props.assistantConnected)
     const reconnectPending = props.reconnectPending ?? (props.commandPending && !props.assistantConnected)
     const composerDisabledReason = deriveAssistantComposerDisabledReason({
         sessionId: props.selectedSessionId,
         sessionMode: props.selectedSessionMode,
-        projectPath: props.selectedProjectPath
+        projectPath: props.selectedProjectPath,
+        readOnly: props.selectedSessionReadOnly
     })
     const handlePaneWheel = useCallback((event: ReactWheelEvent<HTMLDivElement>) => {
-        if (!props.onOverflowWheel || event.deltaY === 0 || isWaitingForUserInput || hasPendingPlaygroundLabRequest) return
+        if (!props.onOverflowWheel || event.deltaY === 0 || isWaitingForUserInput || isWaitingForApproval || hasPendingPlaygroundLabRequest) return
         if (event.target instanceof Element && event.target.closest('[data-assistant-composer-hitbox="true"]')) return
 
         const lineHeight = Number.parseFloat(window.getComputedStyle(event.currentTarget).lineHeight || '0') || 20
@@ -78,7 +90,7 @@ export const AssistantConversationComposerPane = memo(function AssistantConversa
         const deltaFactor = event.deltaMode === 1 ? lineHeight : event.deltaMode === 2 ? pageHeight : 1
         event.preventDefault()
         props.onOverflowWheel(event.deltaY * deltaFactor)
-    }, [hasPendingPlaygroundLabRequest, isWaitingForUserInput, props.onOverflowWheel])
+    }, [hasPendingPlaygroundLabRequest, isWaitingForApproval, isWaitingForUserInput, props.onOverflowWheel])
 
     return (
         <div className="relative px-4 pb-3 pt-0.5" onWheel={handlePaneWheel}>
@@ -101,6 +113,13 @@ export const AssistantConversationComposerPane = memo(function AssistantConversa
                     isConnecting={isConnecting}
                 />
             ) : null}
+            {isWaitingForApproval ? (
+                <AssistantPendingApprovalPanel
+                    pendingApprovals={props.pendingApprovals}
+                    responding={props.commandPending}
+                    onRespond={props.respondApproval}
+                />
+            ) : null}
             {pendingTerminalAccessRequest ? (
                 <AssistantPendingTerminalAccessModal
                     request={pendingTerminalAccessRequest}
@@ -110,7 +129,7 @@ export const AssistantConversationComposerPane = memo(function AssistantConversa
                     onSetRequestMuted={props.setPlaygroundTerminalAccessRequestMuted}
                 />
             ) : null}
-            {!isWaitingForUserInput && hasPendingPlaygroundLabRequest && props.pendingPlaygroundLabRequest ? (
+            {!isWaitingForUserInput && !isWaitingForApproval && hasPendingPlaygroundLabRequest && props.pendingPlaygroundLabRequest ? (
                 <AssistantPendingPlaygroundLabPanel
                     request={props.pendingPlaygroundLabRequest}
                     responding={props.commandPending}
@@ -118,7 +137,7 @@ export const AssistantConversationComposerPane = memo(function AssistantConversa
                     onDecline={props.declinePendingPlaygroundLabRequest}
                 />
             ) : null}
-            {!hasPendingPlaygroundLabRequest && !isWaitingForUserInput && !pendingTerminalAccessRequest ? (
+            {!hasPendingPlaygroundLabRequest && !isWaitingForUserInput && !isWaitingForApproval && !pendingTerminalAccessRequest ? (
                 <div className="mx-auto w-full max-w-3xl" data-assistant-composer-hitbox="true">
                     <AssistantComposer
                         sessionId={props.selectedSessionId}
@@ -1,9 +1,18 @@
 import { memo, type RefObject } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Bot, ChevronLeft, ChevronRight, ListTodo, MoreHorizontal, PanelLeft, PanelRight, SquarePen, Terminal } from 'lucide-react'
+import { Bot, Check, ChevronLeft, ChevronRight, FileCode, FileJson, FileText, GitBranch, ListTodo, MoreHorizontal, PanelLeft, PanelRight, SquarePen, Terminal } from 'lucide-react'
+import type { AssistantSessionExportFormat, AssistantThread } from '@shared/assistant/contracts'
+import { formatAssistantRelativeTime } from '@/lib/assistant/selectors'
 import { cn } from '@/lib/utils'
 import { AssistantHeaderOpenWithButton } from './AssistantHeaderOpenWithButton'
 import { AssistantProjectGitChip } from './AssistantProjectGitChip'
+import type { Shell } from '@/lib/settings'
+
+const EXPORT_FORMAT_OPTIONS: Array<{ format: AssistantSessionExportFormat; label: string; shortLabel: string; icon: typeof FileText }> = [
+    { format: 'markdown', label: 'Export as Markdown', shortLabel: 'MD', icon: FileText },
+    { format: 'html', label: 'Export as HTML', shortLabel: 'HTML', icon: FileCode },
+    { format: 'json', label: 'Export as JSON', shortLabel: 'JSON', icon: FileJson }
+]
 
 export const AssistantConversationHeader = memo(function AssistantConversationHeader(props: {
     rightPanelOpen: boolean
@@ -11,18 +20,24 @@ export const AssistantConversationHeader = memo(function AssistantConversationHe
     planPanelAvailable: boolean
     planProgressLabel: string | null
     planIsComplete: boolean
-    activeHeaderMenu: 'none' | 'open-with' | 'more'
-    setActiveHeaderMenu: (value: 'none' | 'open-with' | 'more') => void
+    activeHeaderMenu: 'none' | 'open-with' | 'more' | 'branches'
+    setActiveHeaderMenu: (value: 'none' | 'open-with' | 'more' | 'branches') => void
     headerMenuRef: RefObject<HTMLDivElement | null>
     leftSidebarCollapsed: boolean
     latestProjectLabel: string
     selectedSessionTitle: string
     selectedSessionMode: 'work' | 'playground'
+    selectedSessionReadOnly: boolean
+    sessionExportAvailable: boolean
+    threadExportAvailable: boolean
     activeThreadIsSubagent: boolean
     activeThreadLabel: string | null
+    /** Original thread and its edit-and-resend forks, oldest first; empty when there is nothing to switch. */
+    threadBranches: AssistantThread[]
+    activeThreadId: string | null
     selectedProjectTooltip: string
     selectedProjectPath: string | null
-    preferredShell: 'powershell' | 'cmd'
+    preferredShell: Shell
     gitRefreshToken: string
     showPlaygroundTerminalAccessControl: boolean
     playgroundTerminalAccess: boolean
@@ -30,6 +45,8 @@ export const AssistantConversationHeader = memo(function AssistantConversationHe
     onPlaygroundTerminalAccessChange: (enabled: boolean) => void
     onTogglePlanPanel: () => void
     onCreateThread: () => void
+    onSelectBranch: (threadId: string) => void
+    onExportSession: (format: AssistantSessionExportFormat, scope: 'session' | 'thread') => void
     onToggleRightSidebar: () => void
 }) {
     const {
@@ -45,8 +62,13 @@ export const AssistantConversationHeader = memo(function AssistantConversationHe
         latestProjectLabel,
         selectedSessionTitle,
         selectedSessionMode,
+        selectedSessionReadOnly,
+        sessionExportAvailable,
+        threadExportAvailable,
         activeThreadIsSubagent,
         activeThreadLabel,
+        threadBranches,
+        activeThreadId,
         selectedProjectTooltip,
         selectedProjectPath,
         preferredShell,
@@ -57,9 +79,13 @@ export const AssistantConversationHeader = memo(function AssistantConversationHe
         onPlaygroundTerminalAccessChange,
         onTogglePlanPanel,
         onCreateThread,
+        onSelectBranch,
+        onExportSession,
         onToggleRightSidebar
     } = props
     const showHeaderMenu = activeHeaderMenu === 'more'
+    const showBranchMenu = activeHeaderMenu === 'branches'
+    const activeBranchIndex = threadBranches.findIndex((thread) => thread.id === activeThreadId)
     const showOpenWithButton = !(selectedSessionMode === 'playground' && !selectedProjectPath)
     const navigate = useNavigate()
 
@@ -140,6 +166,38 @@ export const AssistantConversationHeader = memo(function AssistantConversationHe
                         onMenuOpenChange={(open) => setActiveHeaderMenu(open ? 'open-with' : 'none')}
                     />
                 ) : null}
+                {threadBranches.length > 0 ? (
+                    <div className="relative">
+                        <button
+                            type="button"
+                            onClick={() => setActiveHeaderMenu(showBranchMenu ? 'none' : 'branches')}
+                            className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-transparent bg-white/[0.03] px-2.5 text-[11px] font-medium text-sparkle-text-secondary transition-colors hover:bg-white/[0.05] hover:text-sparkle-text"
+                            title="Switch branch"
+                        >
+                            <GitBranch size={13} />
+                            <span>{activeBranchIndex + 1}/{threadBranches.length}</span>
+                        </button>
+                        {showBranchMenu ? (
+                            <div className="absolute right-0 top-full z-[180] mt-2 w-56 rounded-lg border border-transparent bg-sparkle-card p-1 shadow-[0_18px_40px_rgba(0,0,0,0.32),inset_0_1px_0_rgba(255,255,255,0.03)]">
+                                {threadBranches.map((thread, index) => (
+                                    <button
+                                        key={thread.id}
+                                        type="button"
+                                        onClick={() => onSelectBranch(thread.id)}
+                                        className={cn(
+                                            'flex w-full items-center gap-2 rounded-md px-2.5 py-2 text-left text-xs transition-colors hover:bg-sparkle-card-hover hover:text-sparkle-text',
+                                            thread.id === activeThreadId ? 'text-sparkle-text' : 'text-sparkle-text-secondary'
+                                        )}
+                                    >
+                                        {thread.id === activeThreadId ? <Check size={13} /> : <GitBranch size={13} />}
+                                        <span className="flex-1 truncate">{index === 0 ? 'Original' : `Branch ${index}`}</span>
+                                        <span className="shrink-0 text-[10px] text-sparkle-text-muted">{formatAssistantRelativeTime(thread.createdAt)}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        ) : null}
+                    </div>
+                ) : null}
                 <button
                     type="button"
                     onClick={onTogglePlanPanel}
@@ -177,14 +235,16 @@ export const AssistantConversationHeader = memo(function AssistantConversationHe
                                 />
                             </div>
                         ) : null}
-                        <button
-                            type="button"
-                            onClick={onCreateThread}
-                            className="flex w-full items-center gap-2 rounded-md px-2.5 py-2 text-left text-xs text-sparkle-text-secondary transition-colors hover:bg-sparkle-card-hover hover:text-sparkle-text"
-                        >
-                            <SquarePen size={13} />
-                            New thread
-                        </button>
+                        {!selectedSessionReadOnly ? (
+                            <button
+                                type="button"
+                                onClick={onCreateThread}
+                                className="flex w-full items-center gap-2 rounded-md px-2.5 py-2 text-left text-xs text-sparkle-text-secondary transition-colors hover:bg-sparkle-card-hover hover:text-sparkle-text"
+                            >
+                                <SquarePen size={13} />
+                                New thread
+                            </button>
+                        ) : null}
                         <button
                             type="button"
                             onClick={onToggleRightSidebar}
@@ -193,6 +253,36 @@ export const AssistantConversationHeader = memo(function AssistantConversationHe
                             {rightPanelMode === 'details' ? <PanelRight size={13} /> : <PanelLeft size={13} />}
                             {rightPanelMode === 'details' ? 'Hide details' : 'Show details'}
                         </button>
+                        {sessionExportAvailable ? (
+                            <div className="mt-1 border-t border-white/5 pt-1">
+                                {EXPORT_FORMAT_OPTIONS.map(({ format, label, icon: Icon }) => (
+                                    <button
+                                        key={format}
+                                        type="button"
+                                        onClick={() => onExportSession(format, 'session')}
+                                        className="flex w-full items-center gap-2 rounded-md px-2.5 py-2 text-left text-xs text-sparkle-text-secondary transition-colors hover:bg-sparkle-card-hover hover:text-sparkle-text"
+                                    >
+                                        <Icon size={13} />
+                                        {label}
+                                    </button>
+                                ))}
+                                {threadExportAvailable ? (
+                                    <div className="flex items-center gap-1 px-2.5 py-1.5 text-xs text-sparkle-text-muted">
+                                        <span className="mr-auto">This thread only</span>
+                                        {EXPORT_FORMAT_OPTIONS.map(({ format, shortLabel }) => (
+                                            <button
+                                                key={format}
+                                                type="button"
+                                                onClick={() => onExportSession(format, 'thread')}
+                                                className="rounded px-1.5 py-0.5 text-[11px] text-sparkle-text-secondary transition-colors hover:bg-sparkle-card-hover hover:text-sparkle-text"
+                                            >
+                                                {shortLabel}
+                                            </button>
+                                        ))}
+                                    </div>
+                                ) : null}
+                            </div>
+                        ) : null}
                     </div>
                 ) : null}
             </div>
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
-import type { AssistantProposedPlan, AssistantSessionTurnUsageEntry } from '@shared/assistant/contracts'
+import type { AssistantApprovalDecision, AssistantMessage, AssistantProposedPlan, AssistantSessionExportFormat, AssistantSessionTurnUsageEntry } from '@shared/assistant/contracts'
 import { useSettings } from '@/lib/settings'
 import { useAssistantConversationStore, useAssistantStoreActions, useAssistantStoreSelector } from '@/lib/assistant/store'
 import { isAssistantThreadActivelyWorking } from '@/lib/assistant/selectors'
@@ -14,7 +14,8 @@ import type { AssistantConversationPaneProps } from './AssistantConversationPane
 import type { AssistantComposerSendOptions, ComposerContextFile } from './assistant-composer-types'
 import { getAssistantLinkBaseFilePath } from './assistant-file-navigation'
 import { getAssistantActivePlanProgress, hasAssistantPlanPanelContent } from './assistant-plan-utils'
-import { getAssistantThreadDisplayTitle, getSessionDisplayTitle, resolveSessionProjectPath } from './assistant-sessions-rail-utils'
+import { getAssistantThreadBranches, getAssistantThreadDisplayTitle, getSessionDisplayTitle, resolveSessionProjectPath } from './assistant-sessions-rail-utils'
+import { subscribeAssistantTimelineFocus, type AssistantTimelineFocusRequest } from './assistant-timeline-focus'
 import { useAssistantConnectionRecovery } from './useAssistantConnectionRecovery'
 import { useAssistantQueuedComposer, type AssistantQueuedComposerSessionState } from './useAssistantQueuedComposer'
 import { useAssistantSessionTurnUsage } from './useAssistantSessionTurnUsage'
@@ -50,7 +51,7 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
     const actions = useAssistantStoreActions()
     const { settings } = useSettings()
     const headerMenuRef = useRef<HTMLDivElement | null>(null)
-    const [activeHeaderMenu, setActiveHeaderMenu] = useState<'none' | 'open-with' | 'more'>('none')
+    const [activeHeaderMenu, setActiveHeaderMenu] = useState<'none' | 'open-with' | 'more' | 'branches'>('none')
     const [showScrollToBottom, setShowScrollToBottom] = useState(false)
     const [interactionModeOverride, setInteractionModeOverride] = useState<'default' | null>(null)
     const [implementationToastVisible, setImplementationToastVisible] = useState(false)
@@ -78,6 +79,7 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
     const selectedProjectPath = controller.selectedSession ? resolveSessionProjectPath(controller.selectedSession) : ''
     const lastResolvedProjectPathBySessionRef = useRef<Record<string, string>>({})
     const selectedSessionMode = controller.selectedSession?.mode || props.fallbackSessionMode
+    const selectedSessionReadOnly = Boolean(controller.selectedSession?.importedAt)
     const displayProjectPath = selectedProjectPath || (
         (controller.commandPending || controller.loading) && selectedSessionId
             ? lastResolvedProjectPathBySessionRef.current[selectedSessionId] || ''
@@ -86,6 +88,10 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
     const selectedSessionTitle = controller.selectedSession ? getSessionDisplayTitle(controller.selectedSession) : 'Assistant'
     const activeThreadIsSubagent = controller.activeThread?.source === 'subagent'
     const activeThreadLabel = controller.activeThread ? getAssistantThreadDisplayTitle(controller.activeThread) : null
+    const threadBranches = useMemo(
+        () => controller.selectedSession ? getAssistantThreadBranches(controller.selectedSession, controller.activeThread?.id || null) : [],
+        [controller.activeThread?.id, controller.selectedSession]
+    )
     const selectedProjectTooltip = displayProjectPath || (
         selectedSessionMode === 'playground'
             ? (props.playgroundRootMissing
@@ -140,7 +146,8 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
         || (controller.activeThread?.pendingUserInputs.length || 0) > 0
     )
     const connectionRecovery = useAssistantConnectionRecovery({
-        selectedSessionId,
+        // Imported history has no runtime to reconnect, even when its activities quote old connection errors.
+        selectedSessionId: selectedSessionReadOnly ? null : selectedSessionId,
         activeThreadId: controller.activeThread?.id || null,
         threadState: controller.activeThread?.state || null,
         loading: controller.loading,
@@ -155,7 +162,7 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
     const isReconnectPending = connectionRecovery.reconnectPending || (controller.commandPending && !controller.connected && !isThreadWorking)
     const isThreadConnecting = controller.phase.key === 'starting' || isReconnectPending
     const activeStatusLabel = isThreadConnecting ? 'Connecting...' : 'Working...'
-    const { timelineContentRef, timelineScrollRef, onScrollTimeline, onScrollToBottom } = useAssistantPageTimelineScroll({
+    const { timelineContentRef, timelineScrollRef, onScrollTimeline, onScrollToBottom, onScrollToElement } = useAssistantPageTimelineScroll({
         sessionId: controller.selectedSession?.id || null,
         threadId: controller.activeThread?.id || null,
         loading: controller.loading,
@@ -226,13 +233,25 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
         })
     }, [onScrollTimeline, syncScrollButtonVisibility])
 
+    const [pendingTimelineFocus, setPendingTimelineFocus] = useState<AssistantTimelineFocusRequest | null>(null)
+    useEffect(() => subscribeAssistantTimelineFocus(setPendingTimelineFocus), [])
+    const timelineFocusRecordId = pendingTimelineFocus
+        && pendingTimelineFocus.sessionId === selectedSessionId
+        && pendingTimelineFocus.threadId === controller.activeThread?.id
+        ? pendingTimelineFocus.recordId
+        : null
+    const handleFocusRecordRevealed = useCallback((element: HTMLElement | null) => {
+        if (element) onScrollToElement(element)
+        setPendingTimelineFocus(null)
+    }, [onScrollToElement])
+
     useEffect(() => {
         if (!selectedSessionId || !selectedProjectPath) return
         lastResolvedProjectPathBySessionRef.current[selectedSessionId] = selectedProjectPath
     }, [selectedProjectPath, selectedSessionId])
 
     useEffect(() => {
-        if (activeHeaderMenu !== 'more') return
+        if (activeHeaderMenu !== 'more' && activeHeaderMenu !== 'branches') return
         const handlePointerDown = (event: MouseEvent) => {
             if (!headerMenuRef.current?.contains(event.target as Node)) setActiveHeaderMenu('none')
         }
@@ -311,6 +330,10 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
         actions.refreshModels()
     }, [actions])
 
+    const handleRespondApproval = useCallback(async (requestId: string, decision: AssistantApprovalDecision) => {
+        await actions.respondApproval(requestId, decision)
+    }, [actions])
+
     const handleRespondUserInput = useCallback(async (requestId: string, answers: Record<string, string | string[]>) => {
         await actions.respondUserInput(requestId, answers)
     }, [actions])
@@ -408,6 +431,47 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
         selectedSessionId
     ])
 
+    const handleEditAndResendUserMessage = useCallback(async (message: AssistantMessage, prompt: string) => {
+        if (!selectedSessionId) return false
+        const result = await actions.forkThreadResult({
+            sessionId: selectedSessionId,
+            messageId: message.id,
+            prompt,
+            options: {
+                model: controller.activeThread?.model || undefined,
+                runtimeMode: controller.activeThread?.runtimeMode || 'approval-required',
+                interactionMode: controller.activeThread?.interactionMode || 'default',
+                effort: controller.activeThread?.latestTurn?.effort || undefined,
+                serviceTier: controller.activeThread?.latestTurn?.serviceTier === 'fast' ? 'fast' : undefined,
+                playgroundTerminalAccess: props.playgroundTerminalAccess,
+                playgroundTerminalAccessRequestSuppressed: props.playgroundTerminalAccessRequestMuted
+            }
+        })
+        if (!result.success) {
+            props.onShowToast?.(result.error || 'Failed to resend the edited message.', 'error')
+            return false
+        }
+        return true
+    }, [
+        actions,
+        controller.activeThread?.interactionMode,
+        controller.activeThread?.latestTurn?.effort,
+        controller.activeThread?.latestTurn?.serviceTier,
+        controller.activeThread?.model,
+        controller.activeThread?.runtimeMode,
+        props.onShowToast,
+        props.playgroundTerminalAccess,
+        props.playgroundTerminalAccessRequestMuted,
+        selectedSessionId
+    ])
+
+    const handleSelectBranch = useCallback((threadId: string) => {
+        setActiveHeaderMenu('none')
+        const sessionId = controller.selectedSession?.id
+        if (!sessionId || threadId === controller.activeThread?.id) return
+        void actions.selectThread({ sessionId, threadId })
+    }, [actions, controller.activeThread?.id, controller.selectedSession?.id])
+
     const handleCreateThread = useCallback(() => {
         void actions.newThread(controller.selectedSession?.id || undefined)
         setActiveHeaderMenu('none')
@@ -422,6 +486,23 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
         await actions.createProjectSession()
     }, [actions, controller.commandPending, controller.selectedSession?.id])
 
+    const handleExportSession = useCallback(async (format: AssistantSessionExportFormat, scope: 'session' | 'thread') => {
+        setActiveHeaderMenu('none')
+        const sessionId = controller.selectedSession?.id
+        if (!sessionId) return
+        const result = await window.devscope.assistant.exportSession({
+            sessionId,
+            threadId: scope === 'thread' ? controller.activeThread?.id || undefined : undefined,
+            format
+        })
+        if (!result.success) {
+            props.onShowToast?.(result.error || 'Failed to export chat.', 'error')
+            return
+        }
+        if (result.cancelled || !result.filePath) return
+        props.onShowToast?.(`Exported to ${result.filePath}`, 'success')
+    }, [controller.activeThread?.id, controller.selectedSession?.id, props.onShowToast])
+
     const handleToggleDetailsPanel = useCallback(() => {
         props.onToggleRightSidebar()
         setActiveHeaderMenu('none')
@@ -448,8 +529,13 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
                     latestProjectLabel={latestProjectLabel}
                     selectedSessionTitle={selectedSessionTitle}
                     selectedSessionMode={selectedSessionMode}
+                    selectedSessionReadOnly={selectedSessionReadOnly}
+                    sessionExportAvailable={Boolean(controller.selectedSession)}
+                    threadExportAvailable={(controller.selectedSession?.threadIds.length || 0) > 1 && Boolean(controller.activeThread)}
                     activeThreadIsSubagent={activeThreadIsSubagent}
                     activeThreadLabel={activeThreadLabel}
+                    threadBranches={threadBranches}
+                    activeThreadId={controller.activeThread?.id || null}
                     selectedProjectTooltip={selectedProjectTooltip}
                     selectedProjectPath={displayProjectPath || null}
                     preferredShell={settings.defaultShell}
@@ -460,6 +546,8 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
                     onPlaygroundTerminalAccessChange={props.onPlaygroundTerminalAccessChange}
                     onTogglePlanPanel={props.onTogglePlanPanel}
                     onCreateThread={handleCreateThread}
+                    onSelectBranch={handleSelectBranch}
+                    onExportSession={(format, scope) => void handleExportSession(format, scope)}
                     onToggleRightSidebar={handleToggleDetailsPanel}
                 />
                 <div className="relative flex min-h-0 flex-1 flex-col">
@@ -494,12 +582,15 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
                         turnUsageById={turnUsageById}
                         deletingMessageId={props.deletingMessageId}
                         loadingChats={isLoadingSelectedChat}
+                        focusRecordId={timelineFocusRecordId}
+                        onFocusRecordRevealed={handleFocusRecordRevealed}
                         assistantTextStreamingMode={settings.assistantTextStreamingMode}
                         assistantToolOutputDefaultMode={settings.assistantToolOutputDefaultMode}
                         showScrollToBottom={showScrollToBottom}
                         onScrollTimeline={handleTimelineScrollEvent}
                         onScrollToBottom={handleScrollToBottomClick}
                         onRequestDeleteUserMessage={props.onRequestDeleteUserMessage}
+                        onEditAndResendUserMessage={selectedSessionReadOnly ? undefined : handleEditAndResendUserMessage}
                         onImplementProposedPlan={handleImplementProposedPlan}
                         onShowPlanPanel={props.rightPanelMode !== 'plan' ? props.onTogglePlanPanel : undefined}
                         onOpenAttachmentPreview={props.onOpenAttachmentPreview}
@@ -509,6 +600,7 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
                     />
                     <AssistantConversationComposerPane
                         pendingPlaygroundLabRequest={controller.selectedSession?.pendingLabRequest || null}
+                        pendingApprovals={controller.pendingApprovals}
                         pendingUserInputs={controller.pendingUserInputs}
                         commandPending={controller.commandPending}
                         sending={sendingComposerPrompt}
@@ -520,6 +612,7 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
                         onMoveQueuedMessage={handleMoveQueuedMessage}
                         selectedSessionId={controller.selectedSession?.id || null}
                         selectedSessionMode={selectedSessionMode}
+                        selectedSessionReadOnly={selectedSessionReadOnly}
                         assistantAvailable={controller.available}
                         assistantConnected={controller.connected}
                         selectedProjectPath={displayProjectPath || null}
@@ -540,6 +633,7 @@ export function AssistantConversationPane(props: AssistantConversationPaneProps)
                         onOpenAttachmentPreview={props.onOpenAttachmentPreview}
                         sendPrompt={handleSendPrompt}
                         refreshModels={handleRefreshModels}
+                        respondApproval={handleRespondApproval}
                         respondUserInput={handleRespondUserInput}
                         setPlaygroundTerminalAccess={props.onPlaygroundTerminalAccessChange}
                         setPlaygroundTerminalAccessRequestMuted={props.onPlaygroundTerminalAccessRequestMutedChange}
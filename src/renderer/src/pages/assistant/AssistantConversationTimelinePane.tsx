@@ -24,6 +24,8 @@ export const AssistantConversationTimelinePane = memo(function AssistantConversa
     isWorking: boolean
     activeStatusLabel: string
     isConnecting: boolean
+    focusRecordId?: string | null
+    onFocusRecordRevealed?: (element: HTMLElement | null) => void
     activeWorkStartedAt: string | null
     latestAssistantMessageId: string | null
     latestTurnStartedAt: string | null
@@ -38,6 +40,7 @@ export const AssistantConversationTimelinePane = memo(function AssistantConversa
     onScrollTimeline: (element: HTMLDivElement) => void
     onScrollToBottom: () => void
     onRequestDeleteUserMessage: (message: AssistantMessage) => void
+    onEditAndResendUserMessage?: (message: AssistantMessage, prompt: string) => Promise<boolean> | boolean
     onImplementProposedPlan?: (plan: AssistantProposedPlan) => Promise<void> | void
     onShowPlanPanel?: () => void
     onOpenAttachmentPreview?: (
@@ -123,7 +126,10 @@ export const AssistantConversationTimelinePane = memo(function AssistantConversa
                                 assistantTextStreamingMode={props.assistantTextStreamingMode}
                                 assistantToolOutputDefaultMode={props.assistantToolOutputDefaultMode}
                                 isConnecting={props.isConnecting}
+                                focusRecordId={props.focusRecordId}
+                                onFocusRecordRevealed={props.onFocusRecordRevealed}
                                 onRequestDeleteUserMessage={props.onRequestDeleteUserMessage}
+                                onEditAndResendUserMessage={props.onEditAndResendUserMessage}
                                 onImplementProposedPlan={props.onImplementProposedPlan}
                                 onShowPlanPanel={props.onShowPlanPanel}
                                 onOpenAttachmentPreview={props.onOpenAttachmentPreview}
@@ -0,0 +1,90 @@
+import { memo } from 'react'
+import type { AssistantApprovalDecision, AssistantApprovalRequestType, AssistantPendingApproval } from '@shared/assistant/contracts'
+import { cn } from '@/lib/utils'
+
+const REQUEST_TYPE_LABELS: Record<AssistantApprovalRequestType, string> = {
+    command: 'Run a command',
+    'file-read': 'Read files',
+    'file-change': 'Change files'
+}
+
+const SESSION_SCOPE_LABELS: Record<AssistantApprovalRequestType, string> = {
+    command: 'commands',
+    'file-read': 'file reads',
+    'file-change': 'file changes'
+}
+
+export const AssistantPendingApprovalPanel = memo(function AssistantPendingApprovalPanel(props: {
+    pendingApprovals: AssistantPendingApproval[]
+    responding: boolean
+    onRespond: (requestId: string, decision: AssistantApprovalDecision) => Promise<void> | void
+}) {
+    const { pendingApprovals, responding, onRespond } = props
+    const approval = pendingApprovals[0]
+    if (!approval) return null
+
+    const detail = approval.detail && approval.detail !== approval.command ? approval.detail : null
+
+    return (
+        <div className="mx-auto w-full max-w-3xl rounded-2xl border border-white/10 bg-white/[0.03] p-4 shadow-[0_16px_50px_rgba(0,0,0,0.18)]">
+            <div className="mb-3 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                    <div className="text-xs uppercase tracking-[0.2em] text-amber-200/60">Approval Required</div>
+                    <h3 className="mt-1 text-sm font-semibold text-sparkle-text">
+                        {approval.title || `Assistant wants to ${REQUEST_TYPE_LABELS[approval.requestType].toLowerCase()}`}
+                    </h3>
+                    {detail ? <p className="mt-1 text-xs text-sparkle-text-muted/70">{detail}</p> : null}
+                </div>
+                {pendingApprovals.length > 1 ? (
+                    <span className="shrink-0 rounded-full border border-white/10 px-2 py-0.5 text-[11px] text-sparkle-text-muted">
+                        1 of {pendingApprovals.length}
+                    </span>
+                ) : null}
+            </div>
+            {approval.command ? (
+                <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded-xl border border-white/8 bg-black/20 px-3 py-3 font-mono text-xs text-sparkle-text">
+                    {approval.command}
+                </pre>
+            ) : null}
+            {approval.paths && approval.paths.length > 0 ? (
+                <div className="mt-2 max-h-32 space-y-1 overflow-auto rounded-xl border border-white/8 bg-black/20 px-3 py-3">
+                    {approval.paths.map((path) => (
+                        <div key={path} className="truncate font-mono text-xs text-sparkle-text-secondary" title={path}>{path}</div>
+                    ))}
+                </div>
+            ) : null}
+            <div className="mt-4 flex items-center gap-3">
+                <button
+                    type="button"
+                    onClick={() => onRespond(approval.requestId, 'decline')}
+                    disabled={responding}
+                    className="flex-1 rounded-xl border border-white/10 bg-sparkle-bg px-4 py-2.5 text-sm font-semibold text-sparkle-text-secondary transition-all hover:border-white/20 hover:bg-sparkle-card-hover hover:text-white disabled:opacity-50"
+                >
+                    Decline
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onRespond(approval.requestId, 'acceptForSession')}
+                    disabled={responding}
+                    title={`Also approve later ${SESSION_SCOPE_LABELS[approval.requestType]} in this session`}
+                    className="flex-1 rounded-xl border border-white/10 bg-sparkle-bg px-4 py-2.5 text-sm font-semibold text-sparkle-text-secondary transition-all hover:border-white/20 hover:bg-sparkle-card-hover hover:text-white disabled:opacity-50"
+                >
+                    Accept for session
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onRespond(approval.requestId, 'accept')}
+                    disabled={responding}
+                    className={cn(
+                        'flex-1 rounded-xl px-4 py-2.5 text-sm font-bold transition-all shadow-lg',
+                        responding
+                            ? 'bg-sparkle-border/40 text-sparkle-text-muted cursor-not-allowed opacity-50'
+                            : 'bg-[var(--accent-primary)] text-white hover:bg-[var(--accent-primary)]/90 shadow-[var(--accent-primary)]/20 active:scale-[0.98]'
+                    )}
+                >
+                    {responding ? 'Working...' : 'Accept once'}
+                </button>
+            </div>
+        </div>
+    )
+})
@@ -107,6 +107,7 @@ export function AssistantSessionsRail({
     onArchiveSession,
     onDeleteSession,
     onChooseProjectPath,
+    onImportSession,
     onSetPlaygroundRoot,
     onCreatePlaygroundLab,
     onDeletePlaygroundLab,
@@ -465,6 +466,7 @@ export function AssistantSessionsRail({
                             onRailFilterModeChange={onRailFilterModeChange}
                             onToggleGroup={(key) => setExpandedGroupKeys((prev) => { const next = new Set(prev); if (next.has(key)) next.delete(key); else next.add(key); return next })}
                             onChooseProjectPath={() => void onChooseProjectPath()}
+                            onImportSession={() => void onImportSession()}
                             onCreateSession={(projectPath) => void onCreateSession(projectPath)}
                             onCreatePlaygroundSession={(labId) => void onCreatePlaygroundSession(labId)}
                             onSelectSession={(sessionId) => void onSelectSession(sessionId)}
@@ -1,4 +1,4 @@
-import { BriefcaseBusiness, GitBranch, Plus, SquarePen } from 'lucide-react'
+import { BriefcaseBusiness, FileInput, GitBranch, Plus, Search, SquarePen } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import type {
     AssistantRailMode,
@@ -8,8 +8,11 @@ export function AssistantSessionsRailHeaderControls(props: {
     railMode: AssistantRailMode
     commandPending: boolean
     playgroundRootMissing: boolean
+    searchOpen: boolean
     onRailModeChange: (mode: AssistantRailMode) => void
     onChooseProjectPath: () => void
+    onImportSession: () => void
+    onToggleSearch: () => void
     onOpenLabDialog: () => void
     onChoosePlaygroundRoot: () => void
     onCreatePlaygroundSession: (labId?: string | null) => void
@@ -18,8 +21,11 @@ export function AssistantSessionsRailHeaderControls(props: {
         railMode,
         commandPending,
         playgroundRootMissing,
+        searchOpen,
         onRailModeChange,
         onChooseProjectPath,
+        onImportSession,
+        onToggleSearch,
         onOpenLabDialog,
         onChoosePlaygroundRoot,
         onCreatePlaygroundSession
@@ -42,6 +48,31 @@ export function AssistantSessionsRailHeaderControls(props: {
                     <span className="rounded-full bg-white/[0.06] px-1.5 py-0.5 text-[8px] font-medium uppercase tracking-[0.18em] text-sparkle-text-muted/60">Alpha</span>
                 </div>
                 <div className="flex shrink-0 items-center gap-1.5">
+                    <button
+                        type="button"
+                        onClick={onToggleSearch}
+                        className={cn(
+                            'inline-flex h-8 w-8 items-center justify-center rounded-full transition-colors',
+                            searchOpen
+                                ? 'bg-white/[0.08] text-sparkle-text'
+                                : 'text-sparkle-text-muted hover:bg-white/[0.05] hover:text-sparkle-text'
+                        )}
+                        title="Search all chats"
+                        aria-label="Search all chats"
+                        aria-pressed={searchOpen}
+                    >
+                        <Search size={13} />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onImportSession}
+                        disabled={commandPending}
+                        className="inline-flex h-8 w-8 items-center justify-center rounded-full text-sparkle-text-muted transition-colors hover:bg-white/[0.05] hover:text-sparkle-text disabled:cursor-not-allowed disabled:opacity-40"
+                        title="Import session export (JSON)"
+                        aria-label="Import session"
+                    >
+                        <FileInput size={13} />
+                    </button>
                     <button
                         type="button"
                         onClick={() => onRailModeChange(nextRailMode)}
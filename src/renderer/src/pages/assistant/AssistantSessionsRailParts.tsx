@@ -15,6 +15,7 @@ import {
 } from './AssistantSessionsRailDialogs'
 import { AssistantSessionsRailFooter } from './AssistantSessionsRailFooter'
 import { AssistantSessionsRailHeaderControls } from './AssistantSessionsRailHeaderControls'
+import { AssistantSessionsRailSearch } from './AssistantSessionsRailSearch'
 import type { ExpandedSessionsRailContentProps } from './AssistantSessionsRailParts.types'
 import type { SessionProjectGroup } from './assistant-sessions-rail-utils'
 import {
@@ -76,6 +77,7 @@ export function ExpandedSessionsRailContent(props: ExpandedSessionsRailContentPr
         onRailFilterModeChange,
         onToggleGroup,
         onChooseProjectPath,
+        onImportSession,
         onCreateSession,
         onCreatePlaygroundSession,
         onSelectSession,
@@ -116,6 +118,7 @@ export function ExpandedSessionsRailContent(props: ExpandedSessionsRailContentPr
     const [deletingProjectChats, setDeletingProjectChats] = useState(false)
     const [deletingLabId, setDeletingLabId] = useState<string | null>(null)
     const [expandedThreadKeys, setExpandedThreadKeys] = useState<Set<string>>(new Set())
+    const [searchOpen, setSearchOpen] = useState(false)
 
     const visibleArchivedGroups = groupedArchivedSessions
         .map((group) => ({ ...group, sessions: group.sessions.filter(hasSessionChats) }))
@@ -507,71 +510,83 @@ export function ExpandedSessionsRailContent(props: ExpandedSessionsRailContentPr
                 railMode={railMode}
                 commandPending={commandPending}
                 playgroundRootMissing={playgroundRootMissing}
+                searchOpen={searchOpen}
                 onRailModeChange={onRailModeChange}
                 onChooseProjectPath={onChooseProjectPath}
+                onImportSession={onImportSession}
+                onToggleSearch={() => setSearchOpen((current) => !current)}
                 onOpenLabDialog={() => setLabDialogOpen(true)}
                 onChoosePlaygroundRoot={() => void handleChoosePlaygroundRoot()}
                 onCreatePlaygroundSession={onCreatePlaygroundSession}
             />
 
-            <AssistantSessionsRailBody
-                compact={compact}
-                railMode={railMode}
-                railGroupMode={railGroupMode}
-                railSortMode={railSortMode}
-                playgroundRootMissing={playgroundRootMissing}
-                sectionLabel={sectionLabel}
-                unassignedGroup={unassignedGroup}
-                labGroups={labGroups}
-                activeSessionId={activeSessionId}
-                activeThreadId={activeThreadId}
-                activeConnectionPending={activeConnectionPending}
-                expandedGroupKeys={expandedGroupKeys}
-                expandedThreadKeys={expandedThreadKeys}
-                visibleSessionCountByGroup={visibleSessionCountByGroup}
-                recencyTierByThreadId={recencyTierByThreadId}
-                projectSensors={projectSensors}
-                collisionDetection={collisionDetection}
-                getSessionMenuItems={getSessionMenuItems}
-                onSessionContextMenu={openSessionContextMenu}
-                onSessionDragStart={onSessionDragStart}
-                onSessionDragEnd={onSessionDragEnd}
-                onSessionDragCancel={onSessionDragCancel}
-                onToggleThread={handleToggleThread}
-                onSelectThread={onSelectThread}
-                onToggleGroup={onToggleGroup}
-                onProjectContextMenu={openProjectContextMenu}
-                onProjectTitlePointerDownCapture={handleProjectTitlePointerDownCapture}
-                onProjectTitleClick={handleProjectTitleClick}
-                onProjectDragStart={handleProjectSortStart}
-                onProjectDragEnd={handleProjectSortEnd}
-                onProjectDragCancel={handleProjectSortCancel}
-                onCreateProjectChat={handleCreateProjectChat}
-                onDeleteProjectGroup={handleDeleteProjectGroup}
-                onChoosePlaygroundRoot={handleChoosePlaygroundRoot}
-                onRailGroupModeChange={onRailGroupModeChange}
-                onRailSortModeChange={onRailSortModeChange}
-                onShowMoreSessions={handleShowMoreSessions}
-                onShowLessSessions={handleShowLessSessions}
-                getGroupPlaygroundLabId={getGroupPlaygroundLabId}
-            />
-
-            <AssistantSessionsRailFooter
-                compact={compact}
-                activeSessionId={activeSessionId}
-                activeThreadId={activeThreadId}
-                recencyTierByThreadId={recencyTierByThreadId}
-                limitedBackgroundActivitySessions={limitedBackgroundActivitySessions}
-                remainingBackgroundActivityCount={remainingBackgroundActivityCount}
-                archivedCount={archivedCount}
-                showArchivedSessions={showArchivedSessions}
-                visibleArchivedGroups={visibleArchivedGroups}
-                getSessionMenuItems={getSessionMenuItems}
-                onSessionContextMenu={openSessionContextMenu}
-                onSetShowArchivedSessions={onSetShowArchivedSessions}
-                onSelectSession={onSelectSession}
-                onSelectThread={onSelectThread}
-            />
+            {searchOpen ? (
+                <AssistantSessionsRailSearch
+                    onSelectThread={onSelectThread}
+                    onClose={() => setSearchOpen(false)}
+                />
+            ) : (
+                <>
+                    <AssistantSessionsRailBody
+                        compact={compact}
+                        railMode={railMode}
+                        railGroupMode={railGroupMode}
+                        railSortMode={railSortMode}
+                        playgroundRootMissing={playgroundRootMissing}
+                        sectionLabel={sectionLabel}
+                        unassignedGroup={unassignedGroup}
+                        labGroups={labGroups}
+                        activeSessionId={activeSessionId}
+                        activeThreadId={activeThreadId}
+                        activeConnectionPending={activeConnectionPending}
+                        expandedGroupKeys={expandedGroupKeys}
+                        expandedThreadKeys={expandedThreadKeys}
+                        visibleSessionCountByGroup={visibleSessionCountByGroup}
+                        recencyTierByThreadId={recencyTierByThreadId}
+                        projectSensors={projectSensors}
+                        collisionDetection={collisionDetection}
+                        getSessionMenuItems={getSessionMenuItems}
+                        onSessionContextMenu={openSessionContextMenu}
+                        onSessionDragStart={onSessionDragStart}
+                        onSessionDragEnd={onSessionDragEnd}
+                        onSessionDragCancel={onSessionDragCancel}
+                        onToggleThread={handleToggleThread}
+                        onSelectThread={onSelectThread}
+                        onToggleGroup={onToggleGroup}
+                        onProjectContextMenu={openProjectContextMenu}
+                        onProjectTitlePointerDownCapture={handleProjectTitlePointerDownCapture}
+                        onProjectTitleClick={handleProjectTitleClick}
+                        onProjectDragStart={handleProjectSortStart}
+                        onProjectDragEnd={handleProjectSortEnd}
+                        onProjectDragCancel={handleProjectSortCancel}
+                        onCreateProjectChat={handleCreateProjectChat}
+                        onDeleteProjectGroup={handleDeleteProjectGroup}
+                        onChoosePlaygroundRoot={handleChoosePlaygroundRoot}
+                        onRailGroupModeChange={onRailGroupModeChange}
+                        onRailSortModeChange={onRailSortModeChange}
+                        onShowMoreSessions={handleShowMoreSessions}
+                        onShowLessSessions={handleShowLessSessions}
+                        getGroupPlaygroundLabId={getGroupPlaygroundLabId}
+                    />
+
+                    <AssistantSessionsRailFooter
+                        compact={compact}
+                        activeSessionId={activeSessionId}
+                        activeThreadId={activeThreadId}
+                        recencyTierByThreadId={recencyTierByThreadId}
+                        limitedBackgroundActivitySessions={limitedBackgroundActivitySessions}
+                        remainingBackgroundActivityCount={remainingBackgroundActivityCount}
+                        archivedCount={archivedCount}
+                        showArchivedSessions={showArchivedSessions}
+                        visibleArchivedGroups={visibleArchivedGroups}
+                        getSessionMenuItems={getSessionMenuItems}
+                        onSessionContextMenu={openSessionContextMenu}
+                        onSetShowArchivedSessions={onSetShowArchivedSessions}
+                        onSelectSession={onSelectSession}
+                        onSelectThread={onSelectThread}
+                    />
+                </>
+            )}
 
             <PlaygroundLabModal
                 open={labDialogOpen}
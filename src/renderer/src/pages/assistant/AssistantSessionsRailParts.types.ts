@@ -30,6 +30,7 @@ export type ExpandedSessionsRailContentProps = {
     onRailFilterModeChange: (mode: AssistantRailFilterMode) => void
     onToggleGroup: (key: string) => void
     onChooseProjectPath: () => void
+    onImportSession: () => void
     onCreateSession: (projectPath?: string) => void
     onCreatePlaygroundSession: (labId?: string | null) => void
     onSelectSession: (sessionId: string) => void
@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ListTodo, MessageSquare, Search, Wrench, X } from 'lucide-react'
+import type { AssistantSearchHit, AssistantSession } from '@shared/assistant/contracts'
+import { useAssistantStoreSelector } from '@/lib/assistant/store'
+import { formatAssistantRelativeTime } from '@/lib/assistant/selectors'
+import { requestAssistantTimelineFocus } from './assistant-timeline-focus'
+import { getAssistantThreadDisplayTitle, getSessionDisplayTitle, isAssistantSubagentThread } from './assistant-sessions-rail-utils'
+
+const SEARCH_DEBOUNCE_MS = 200
+const SEARCH_RESULT_LIMIT = 60
+
+const HIT_KIND_ICONS = {
+    message: MessageSquare,
+    activity: Wrench,
+    plan: ListTodo
+} as const
+
+function getHitLabel(hit: AssistantSearchHit): string {
+    if (hit.kind === 'plan') return 'Plan'
+    if (hit.kind === 'activity') return 'Tool call'
+    if (hit.label === 'user') return 'You'
+    return hit.label === 'assistant' ? 'Assistant' : 'Message'
+}
+
+function HighlightedSnippet(props: { hit: AssistantSearchHit }) {
+    const { snippet, highlights } = props.hit
+    const parts: Array<{ text: string; match: boolean }> = []
+    let cursor = 0
+    for (const range of highlights) {
+        if (range.start > cursor) parts.push({ text: snippet.slice(cursor, range.start), match: false })
+        parts.push({ text: snippet.slice(range.start, range.end), match: true })
+        cursor = range.end
+    }
+    if (cursor < snippet.length) parts.push({ text: snippet.slice(cursor), match: false })
+    return (
+        <>
+            {parts.map((part, index) => part.match
+                ? <mark key={index} className="rounded-sm bg-[var(--accent-primary)]/25 px-0.5 text-sparkle-text">{part.text}</mark>
+                : <span key={index}>{part.text}</span>)}
+        </>
+    )
+}
+
+export function AssistantSessionsRailSearch(props: {
+    onSelectThread: (input: { sessionId: string; threadId: string }) => void
+    onClose: () => void
+}) {
+    const { onSelectThread, onClose } = props
+    const sessions = useAssistantStoreSelector((state) => state.snapshot.sessions)
+    const [query, setQuery] = useState('')
+    const [hits, setHits] = useState<AssistantSearchHit[]>([])
+    const [searching, setSearching] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const requestIdRef = useRef(0)
+
+    const sessionById = useMemo(() => new Map<string, AssistantSession>(sessions.map((session) => [session.id, session])), [sessions])
+
+    useEffect(() => {
+        const trimmedQuery = query.trim()
+        const requestId = requestIdRef.current + 1
+        requestIdRef.current = requestId
+        if (!trimmedQuery) {
+            setHits([])
+            setSearching(false)
+            setError(null)
+            return
+        }
+        setSearching(true)
+        const timer = window.setTimeout(() => {
+            void window.devscope.assistant.searchConversations({ query: trimmedQuery, limit: SEARCH_RESULT_LIMIT }).then((result) => {
+                if (requestIdRef.current !== requestId) return
+                setSearching(false)
+                if (!result.success) {
+                    setError(result.error || 'Search failed.')
+                    setHits([])
+                    return
+                }
+                setError(null)
+                setHits(result.hits)
+            })
+        }, SEARCH_DEBOUNCE_MS)
+        return () => window.clearTimeout(timer)
+    }, [query])
+
+    const visibleHits = hits.filter((hit) => sessionById.has(hit.sessionId))
+
+    const handleOpenHit = (hit: AssistantSearchHit) => {
+        onSelectThread({ sessionId: hit.sessionId, threadId: hit.threadId })
+        requestAssistantTimelineFocus({ sessionId: hit.sessionId, threadId: hit.threadId, recordId: hit.recordId })
+    }
+
+    return (
+        <div className="flex min-h-0 flex-1 flex-col px-2 pb-2">
+            <div className="mb-2 flex items-center gap-2 rounded-md border border-white/10 bg-white/[0.03] px-2.5 py-1.5 focus-within:border-white/20">
+                <Search size={13} className="shrink-0 text-sparkle-text-muted" />
+                <input
+                    autoFocus
+                    value={query}
+                    onChange={(event) => setQuery(event.target.value)}
+                    onKeyDown={(event) => {
+                        if (event.key === 'Escape') onClose()
+                        if (event.key === 'Enter' && visibleHits[0]) handleOpenHit(visibleHits[0])
+                    }}
+                    placeholder="Search all chats"
+                    spellCheck={false}
+                    className="min-w-0 flex-1 bg-transparent text-xs text-sparkle-text placeholder:text-sparkle-text-muted/50 outline-none"
+                />
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="shrink-0 rounded p-0.5 text-sparkle-text-muted transition-colors hover:bg-white/[0.06] hover:text-sparkle-text"
+                    title="Close search"
+                    aria-label="Close search"
+                >
+                    <X size={12} />
+                </button>
+            </div>
+            <div className="min-h-0 flex-1 space-y-0.5 overflow-y-auto pr-0.5 scrollbar-hide">
+                {!query.trim() ? (
+                    <p className="px-2 py-3 text-[11px] text-sparkle-text-muted/60">Search messages, tool calls and plans across every chat.</p>
+                ) : error ? (
+                    <p className="px-2 py-3 text-[11px] text-rose-300">{error}</p>
+                ) : visibleHits.length === 0 ? (
+                    <p className="px-2 py-3 text-[11px] text-sparkle-text-muted/60">{searching ? 'Searching...' : 'No matches.'}</p>
+                ) : visibleHits.map((hit) => {
+                    const session = sessionById.get(hit.sessionId)
+                    const thread = session?.threads.find((entry) => entry.id === hit.threadId)
+                    const KindIcon = HIT_KIND_ICONS[hit.kind]
+                    return (
+                        <button
+                            key={`${hit.kind}:${hit.recordId}`}
+                            type="button"
+                            onClick={() => handleOpenHit(hit)}
+                            className="flex w-full flex-col gap-1 rounded-md px-2 py-1.5 text-left transition-colors hover:bg-white/[0.04]"
+                        >
+                            <div className="flex w-full items-center gap-1.5 text-[10px] text-sparkle-text-muted/60">
+                                <KindIcon size={11} className="shrink-0" />
+                                <span className="min-w-0 flex-1 truncate">
+                                    <span className="font-medium text-sparkle-text-secondary">{session ? getSessionDisplayTitle(session) : 'Chat'}</span>
+                                    {thread && isAssistantSubagentThread(thread) ? ` · ${getAssistantThreadDisplayTitle(thread)}` : ''}
+                                    {` · ${getHitLabel(hit)}`}
+                                </span>
+                                <span className="shrink-0">{formatAssistantRelativeTime(hit.createdAt)}</span>
+                            </div>
+                            <div className="line-clamp-2 break-words text-[11px] leading-snug text-sparkle-text-muted">
+                                <HighlightedSnippet hit={hit} />
+                            </div>
+                        </button>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
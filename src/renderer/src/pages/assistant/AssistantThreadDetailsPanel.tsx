@@ -3,6 +3,7 @@ import { Check, ChevronDown, ChevronRight, Copy, ListTodo, Loader2, PlugZap, Tra
 import type { AssistantActivity } from '@shared/assistant/contracts'
 import { AnimatedHeight } from '@/components/ui/AnimatedHeight'
 import { cn } from '@/lib/utils'
+import { AssistantApprovalPolicySection } from './AssistantApprovalPolicySection'
 import { IssueLogRow, copyTextToClipboard, getUsageMetricDotClass, getUsageMetricToneClass, type UsageMetricTone } from './AssistantPageHelpers'
 
 export const AssistantThreadDetailsPanel = memo(function AssistantThreadDetailsPanel(props: {
@@ -29,6 +30,7 @@ export const AssistantThreadDetailsPanel = memo(function AssistantThreadDetailsP
     sessionCostTone: UsageMetricTone
     sidebarMetricChips: Array<{ label: string; value: string; tone: UsageMetricTone }>
     issueActivities: AssistantActivity[]
+    approvalAuditActivities: AssistantActivity[]
     latestIssueGroup: { activity: AssistantActivity; activities: AssistantActivity[]; count: number } | null
     olderIssueGroups: Array<{ activity: AssistantActivity; activities: AssistantActivity[]; count: number }>
     copiedLogId: string | null
@@ -50,7 +52,7 @@ export const AssistantThreadDetailsPanel = memo(function AssistantThreadDetailsP
     onShowLogDetails: (activity: AssistantActivity, activities?: AssistantActivity[]) => void
     onToggleAssistantConnection: () => void
 }) {
-    const { open, compact = false, selectedChatTypeLabel, selectedProjectPath, selectedProjectLabel, displayProjectPath, showFullProjectPath, projectPathCopied, contextPercentage, contextColor, contextUsedDisplay, contextAvailableDisplay, pendingApprovalsCount, pendingUserInputsCount, sidebarSelectedModel, selectedRuntimeLabel, selectedThinkingLabel, selectedSpeedLabel, sessionCostLabel, sessionCostDisplay, sessionCostTone, sidebarMetricChips, issueActivities, latestIssueGroup, olderIssueGroups, copiedLogId, copyErrorByLogId, allLogsCopied, clearingLogs, logsExpanded, selectedSessionId, assistantConnected, commandPending, onClose, onShowPlan, onToggleProjectPath, onCopyProjectPath, onToggleLogsExpanded, onCopyAllLogs, onClearLogs, onCopyLog, onShowLogDetails, onToggleAssistantConnection } = props
+    const { open, compact = false, selectedChatTypeLabel, selectedProjectPath, selectedProjectLabel, displayProjectPath, showFullProjectPath, projectPathCopied, contextPercentage, contextColor, contextUsedDisplay, contextAvailableDisplay, pendingApprovalsCount, pendingUserInputsCount, sidebarSelectedModel, selectedRuntimeLabel, selectedThinkingLabel, selectedSpeedLabel, sessionCostLabel, sessionCostDisplay, sessionCostTone, sidebarMetricChips, issueActivities, approvalAuditActivities, latestIssueGroup, olderIssueGroups, copiedLogId, copyErrorByLogId, allLogsCopied, clearingLogs, logsExpanded, selectedSessionId, assistantConnected, commandPending, onClose, onShowPlan, onToggleProjectPath, onCopyProjectPath, onToggleLogsExpanded, onCopyAllLogs, onClearLogs, onCopyLog, onShowLogDetails, onToggleAssistantConnection } = props
 
     return (
         <div className={cn('relative overflow-hidden transition-all duration-300', open ? 'opacity-100' : 'opacity-0 pointer-events-none')} style={{ width: open ? (compact ? '360px' : '460px') : '0px' }}>
@@ -143,6 +145,8 @@ export const AssistantThreadDetailsPanel = memo(function AssistantThreadDetailsP
                         </div>
                     </div>}
 
+                    {selectedProjectPath ? <AssistantApprovalPolicySection projectPath={selectedProjectPath} auditActivities={approvalAuditActivities} /> : null}
+
                     <div className="space-y-2 border-t border-white/5 pt-3">
                         <span className="text-[11px] font-medium uppercase tracking-[0.16em] text-sparkle-text-muted">Context</span>
                         {contextPercentage != null ? <div className="space-y-2">
@@ -1,8 +1,9 @@
 import type { ReactNode, RefObject } from 'react'
-import { memo, useMemo } from 'react'
+import { memo, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
 import type { AssistantActivity, AssistantMessage, AssistantProposedPlan, AssistantSessionTurnUsageEntry } from '@shared/assistant/contracts'
 import type { PreviewOpenOptions } from '@/components/ui/file-preview/types'
 import type { AssistantTextStreamingMode, AssistantToolOutputDefaultMode } from '@/lib/settings'
+import { cn } from '@/lib/utils'
 import type { AssistantDiffTarget } from './assistant-diff-types'
 import {
     TimelineContextCompactionMarker,
@@ -13,10 +14,18 @@ import {
     TimelineToolCallList,
     TimelineWorkingIndicator
 } from './AssistantTimelineRows'
-import { buildTimelineRows, isContextCompactionActivity, isIssueActivity, type TimelineRenderRow } from './assistant-timeline-helpers'
+import {
+    buildTimelineRows,
+    findTimelineRowIdForRecord,
+    isContextCompactionActivity,
+    isIssueActivity,
+    type TimelineRenderRow
+} from './assistant-timeline-helpers'
 import { useAssistantTimelineEntries } from './useAssistantTimelineEntries'
 import { useAssistantTimelineWindow } from './useAssistantTimelineWindow'
 
+const FOCUS_FLASH_MS = 1800
+
 type AssistantTimelineProps = {
     messages: AssistantMessage[]
     activities: AssistantActivity[]
@@ -40,7 +49,12 @@ type AssistantTimelineProps = {
     assistantTextStreamingMode?: AssistantTextStreamingMode
     assistantToolOutputDefaultMode?: AssistantToolOutputDefaultMode
     isConnecting?: boolean
+    /** Message, activity or plan to bring into view, e.g. a search hit. */
+    focusRecordId?: string | null
+    /** Called with the revealed row, or null once the record is known not to be in this timeline. */
+    onFocusRecordRevealed?: (element: HTMLElement | null) => void
     onRequestDeleteUserMessage?: (message: AssistantMessage) => void
+    onEditAndResendUserMessage?: (message: AssistantMessage, prompt: string) => Promise<boolean> | boolean
     onImplementProposedPlan?: (plan: AssistantProposedPlan) => Promise<void> | void
     onShowPlanPanel?: () => void
     onOpenAttachmentPreview?: (
@@ -76,7 +90,10 @@ function AssistantTimelineImpl({
     assistantTextStreamingMode = 'stream',
     assistantToolOutputDefaultMode = 'expanded',
     isConnecting = false,
+    focusRecordId = null,
+    onFocusRecordRevealed,
     onRequestDeleteUserMessage,
+    onEditAndResendUserMessage,
     onImplementProposedPlan,
     onShowPlanPanel,
     onOpenAttachmentPreview,
@@ -110,6 +127,33 @@ function AssistantTimelineImpl({
         return next
     }, [messages])
 
+    const rowsContainerRef = useRef<HTMLDivElement | null>(null)
+    const [flashRowId, setFlashRowId] = useState<string | null>(null)
+    const focusRowId = useMemo(
+        () => focusRecordId ? findTimelineRowIdForRecord(rows, focusRecordId) : null,
+        [focusRecordId, rows]
+    )
+    const { hasHiddenEntries, loadAll } = timelineWindow
+
+    useLayoutEffect(() => {
+        if (!focusRecordId || loadingChats) return
+        if (!focusRowId) {
+            if (hasHiddenEntries) loadAll()
+            else if (rows.length > 0) onFocusRecordRevealed?.(null)
+            return
+        }
+        const element = rowsContainerRef.current?.querySelector<HTMLElement>(`[data-timeline-row-id="${CSS.escape(focusRowId)}"]`)
+        if (!element) return
+        setFlashRowId(focusRowId)
+        onFocusRecordRevealed?.(element)
+    }, [focusRecordId, focusRowId, hasHiddenEntries, loadAll, loadingChats, onFocusRecordRevealed, rows.length])
+
+    useEffect(() => {
+        if (!flashRowId) return
+        const timer = window.setTimeout(() => setFlashRowId(null), FOCUS_FLASH_MS)
+        return () => window.clearTimeout(timer)
+    }, [flashRowId])
+
     if (loadingChats) {
         return <div className="min-h-[220px]" aria-busy="true" />
     }
@@ -204,6 +248,7 @@ function AssistantTimelineImpl({
                 deleting={row.message.id === deletingMessageId}
                 assistantTextStreamingMode={assistantTextStreamingMode}
                 onRequestDelete={row.message.role === 'user' ? onRequestDeleteUserMessage : undefined}
+                onEditAndResend={row.message.role === 'user' ? onEditAndResendUserMessage : undefined}
                 onOpenFilePath={row.message.role === 'user' ? onOpenFilePath : undefined}
                 filePath={row.message.role === 'assistant' ? assistantMessageFilePath : null}
                 onInternalLinkClick={row.message.role === 'assistant' ? onOpenInternalLink : undefined}
@@ -217,7 +262,11 @@ function AssistantTimelineImpl({
         return (
             <div
                 key={row.id}
-                className="pb-4"
+                data-timeline-row-id={row.id}
+                className={cn(
+                    'rounded-xl pb-4 transition-colors duration-700',
+                    row.id === flashRowId && 'bg-[var(--accent-primary)]/[0.06]'
+                )}
             >
                 {content}
             </div>
@@ -225,7 +274,7 @@ function AssistantTimelineImpl({
     }
 
     return (
-        <div>
+        <div ref={rowsContainerRef}>
             {rows.map((row) => renderRowContainer(row, renderRow(row)))}
         </div>
     )
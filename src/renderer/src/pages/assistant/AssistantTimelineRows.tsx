@@ -1,9 +1,10 @@
 import { memo, useEffect, useMemo, useState } from 'react'
-import { Check, Copy, Loader2, Trash2 } from 'lucide-react'
+import { Check, Copy, Loader2, Pencil, Trash2 } from 'lucide-react'
 import type { AssistantActivity, AssistantMessage, AssistantProposedPlan, AssistantSessionTurnUsageEntry } from '@shared/assistant/contracts'
 import type { ComposerContextFile } from './assistant-composer-types'
 import type { PreviewOpenOptions } from '@/components/ui/file-preview/types'
 import type { AssistantTextStreamingMode } from '@/lib/settings'
+import { replaceSerializedAssistantMessageBody } from '@shared/assistant/message-attachments'
 import MarkdownRenderer from '@/components/ui/MarkdownRenderer'
 import { getFileUrl } from '@/components/ui/file-preview/utils'
 import { cn } from '@/lib/utils'
@@ -12,7 +13,7 @@ import AssistantAttachmentPreviewModal from './AssistantAttachmentPreviewModal'
 import { AssistantFileAttachmentCard, AssistantPastedTextCard } from './AssistantAttachmentCards'
 import { AssistantAttachmentImageCard } from './AssistantAttachmentImageCard'
 import { JulianLogo, OpenAILogo, T3CodeLogo } from './AssistantBrandMarks'
-import { CollapsibleUserMessageBody, StreamingAssistantText } from './AssistantTimelineText'
+import { CollapsibleUserMessageBody, StreamingAssistantText, UserMessageBodyEditor } from './AssistantTimelineText'
 import { getContentTypeTag, getContextFileMeta, toKbLabel } from './assistant-composer-utils'
 import {
     areMessagesEqual,
@@ -75,6 +76,7 @@ export const TimelineMessage = memo(({
     deleting = false,
     assistantTextStreamingMode = 'stream',
     onRequestDelete,
+    onEditAndResend,
     onOpenFilePath = undefined,
     onOpenAttachmentPreview = undefined,
     filePath = null,
@@ -88,6 +90,8 @@ export const TimelineMessage = memo(({
     deleting?: boolean
     assistantTextStreamingMode?: AssistantTextStreamingMode
     onRequestDelete?: (message: AssistantMessage) => void
+    /** Resends an edited copy of this user message in a new branch of the thread. */
+    onEditAndResend?: (message: AssistantMessage, prompt: string) => Promise<boolean> | boolean
     onOpenFilePath?: (filePath: string) => Promise<void> | void
     onOpenAttachmentPreview?: (
         file: { name: string; path: string },
@@ -105,6 +109,7 @@ export const TimelineMessage = memo(({
     )
     const [resolvedClipboardAttachmentPaths, setResolvedClipboardAttachmentPaths] = useState<Record<string, string>>({})
     const [copied, setCopied] = useState(false)
+    const [editing, setEditing] = useState(false)
     const [nowIso, setNowIso] = useState(() => new Date().toISOString())
     const [previewAttachment, setPreviewAttachment] = useState<ComposerContextFile | null>(null)
     const visibleAssistantText = useAssistantVisibleText(message.text || '', Boolean(message.streaming), assistantTextStreamingMode)
@@ -312,7 +317,13 @@ export const TimelineMessage = memo(({
                             </div>
                         </div>
                     ) : null}
-                    {parsedUserMessage.body ? (
+                    {editing && onEditAndResend ? (
+                        <UserMessageBodyEditor
+                            initialContent={parsedUserMessage.body}
+                            onCancel={() => setEditing(false)}
+                            onSubmit={(content) => onEditAndResend(message, replaceSerializedAssistantMessageBody(message.text || '', content))}
+                        />
+                    ) : parsedUserMessage.body ? (
                         <CollapsibleUserMessageBody content={parsedUserMessage.body} />
                     ) : null}
                 </div>
@@ -320,6 +331,7 @@ export const TimelineMessage = memo(({
                     <p className="text-[10px] text-sparkle-text-muted">{formatAssistantDateTime(message.updatedAt)}</p>
                     <div className="flex items-center gap-1">
                         <button type="button" onClick={async () => { try { await copyTextToClipboard(copyValue); setCopied(true); window.setTimeout(() => setCopied(false), 1600) } catch {} }} className={cn('rounded-md border p-1 transition-all', copied ? 'border-emerald-400/20 bg-emerald-500/[0.08] text-emerald-300' : 'border-white/10 bg-white/[0.03] text-sparkle-text-muted hover:border-white/20 hover:text-sparkle-text')} title={copied ? 'Copied' : 'Copy message'}>{copied ? <Check size={12} /> : <Copy size={12} />}</button>
+                        {onEditAndResend && !editing ? <button type="button" onClick={() => setEditing(true)} disabled={deleting} className="rounded-md border border-white/10 bg-white/[0.03] p-1 text-sparkle-text-muted transition-all hover:border-white/20 hover:text-sparkle-text" title="Edit and resend as a new branch"><Pencil size={12} /></button> : null}
                         {onRequestDelete ? <button type="button" onClick={() => onRequestDelete(message)} disabled={deleting} className={cn('rounded-md border p-1 transition-all', deleting ? 'cursor-not-allowed border-red-400/20 bg-red-500/[0.08] text-red-200/70' : 'border-white/10 bg-white/[0.03] text-sparkle-text-muted hover:border-red-400/20 hover:bg-red-500/[0.08] hover:text-red-200')} title="Delete message from history"><Trash2 size={12} /></button> : null}
                     </div>
                 </div>
@@ -346,6 +358,7 @@ export const TimelineMessage = memo(({
         && prev.deleting === next.deleting
         && prev.assistantTextStreamingMode === next.assistantTextStreamingMode
         && prev.onRequestDelete === next.onRequestDelete
+        && prev.onEditAndResend === next.onEditAndResend
         && prev.onOpenFilePath === next.onOpenFilePath
         && prev.onOpenAttachmentPreview === next.onOpenAttachmentPreview
         && prev.filePath === next.filePath
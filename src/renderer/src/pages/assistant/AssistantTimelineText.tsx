@@ -1,5 +1,6 @@
 import { memo, useEffect, useMemo, useState } from 'react'
 import { useObservedElementWidth } from '@/lib/text-layout/useObservedElementWidth'
+import { cn } from '@/lib/utils'
 import {
     getUserMessageBodyWidth,
     measureTimelinePlainTextHeight,
@@ -71,3 +72,72 @@ export const CollapsibleUserMessageBody = memo(function CollapsibleUserMessageBo
         </div>
     )
 })
+
+export function UserMessageBodyEditor({
+    initialContent,
+    onCancel,
+    onSubmit
+}: {
+    initialContent: string
+    onCancel: () => void
+    onSubmit: (content: string) => Promise<boolean> | boolean
+}) {
+    const [draft, setDraft] = useState(initialContent)
+    const [submitting, setSubmitting] = useState(false)
+    const canSubmit = !submitting && Boolean(draft.trim()) && draft.trim() !== initialContent.trim()
+
+    const handleSubmit = async () => {
+        if (!canSubmit) return
+        setSubmitting(true)
+        try {
+            if (await onSubmit(draft)) onCancel()
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <div className="w-[32rem] max-w-full">
+            <textarea
+                autoFocus
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                onKeyDown={(event) => {
+                    if (event.key === 'Escape') onCancel()
+                    if (event.key === 'Enter' && !event.shiftKey) {
+                        event.preventDefault()
+                        void handleSubmit()
+                    }
+                }}
+                rows={Math.min(10, Math.max(3, draft.split('\n').length))}
+                disabled={submitting}
+                className="w-full resize-y bg-transparent text-[13px] leading-6 text-sparkle-text outline-none placeholder:text-sparkle-text-muted/50"
+                placeholder="Edit your message"
+            />
+            <div className="mt-2 flex items-center justify-end gap-2">
+                <span className="mr-auto text-[10px] text-sparkle-text-muted">Sends in a new branch; the original thread is kept.</span>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    disabled={submitting}
+                    className="rounded-md border border-white/10 bg-white/[0.03] px-2.5 py-1 text-[11px] text-sparkle-text-secondary transition-colors hover:border-white/20 hover:text-sparkle-text"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="button"
+                    onClick={() => void handleSubmit()}
+                    disabled={!canSubmit}
+                    className={cn(
+                        'rounded-md border px-2.5 py-1 text-[11px] transition-colors',
+                        canSubmit
+                            ? 'border-[var(--accent-primary)]/40 bg-[var(--accent-primary)]/15 text-sparkle-text hover:bg-[var(--accent-primary)]/25'
+                            : 'cursor-not-allowed border-white/10 bg-white/[0.02] text-sparkle-text-muted'
+                    )}
+                >
+                    {submitting ? 'Sending...' : 'Send'}
+                </button>
+            </div>
+        </div>
+    )
+}
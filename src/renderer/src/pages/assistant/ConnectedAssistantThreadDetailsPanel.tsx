@@ -325,6 +325,11 @@ export function ConnectedAssistantThreadDetailsPanel(props: {
         return nextActivities
     }, [selection.activityFeed, selection.commandError, selection.latestTurn?.completedAt, selection.latestTurn?.id, selection.latestTurn?.startedAt, selection.selectedSessionUpdatedAt])
 
+    const approvalAuditActivities = useMemo(
+        () => selection.activityFeed.filter((activity) => activity.kind === 'approval.auto-resolved'),
+        [selection.activityFeed]
+    )
+
     const groupedIssueActivities = useMemo(() => groupIssueActivities(issueActivities), [issueActivities])
 
     const latestIssueGroup = groupedIssueActivities[0] || null
@@ -424,6 +429,7 @@ export function ConnectedAssistantThreadDetailsPanel(props: {
                 sessionCostTone={sessionTurnUsageError ? 'neutral' : 'low'}
                 sidebarMetricChips={sidebarMetricChips}
                 issueActivities={issueActivities}
+                approvalAuditActivities={approvalAuditActivities}
                 latestIssueGroup={latestIssueGroup}
                 olderIssueGroups={olderIssueGroups}
                 copiedLogId={copiedLogId}
@@ -22,6 +22,7 @@ export type AssistantComposerCapabilities = {
 const DEFAULT_ASSISTANT_COMPOSER_PLACEHOLDER = 'Ask anything, @tag files/folders'
 const NO_SESSION_PLACEHOLDER = 'Select or start a chat to write here'
 const PROJECT_REQUIRED_PLACEHOLDER = 'Choose a project to start this work chat'
+const READ_ONLY_PLACEHOLDER = 'Imported chats are read-only'
 const GUIDED_INPUT_PLACEHOLDER = 'Choose an option above or write your own answer here'
 const REVIEW_ANSWERS_PLACEHOLDER = 'Review your answers before finishing'
 
@@ -48,10 +49,12 @@ export function deriveAssistantComposerDisabledReason(
         sessionId?: string | null
         sessionMode?: 'work' | 'playground'
         projectPath?: string | null
+        readOnly?: boolean
     }
 ): AssistantComposerDisabledReason | null {
-    const { sessionId, sessionMode, projectPath } = args
+    const { sessionId, sessionMode, projectPath, readOnly } = args
     if (!sessionId) return 'no-session'
+    if (readOnly) return 'read-only'
     if (sessionMode === 'work' && !String(projectPath || '').trim()) return 'project-required'
     return null
 }
@@ -97,6 +100,23 @@ export function deriveAssistantComposerCapabilities(
         }
     }
 
+    if (disabledReason === 'read-only') {
+        return {
+            inputDisabled: true,
+            attachDisabled: true,
+            controlsLocked: true,
+            voiceDisabled: true,
+            canSend: false,
+            canStop: false,
+            sendDisabled: true,
+            showBusySendActions: false,
+            placeholder: READ_ONLY_PLACEHOLDER,
+            statusLabel: 'Read-only history',
+            detailLabel: 'This chat was imported from an export and cannot continue.',
+            tone: 'info'
+        }
+    }
+
     if (disabledReason === 'project-required') {
         return {
             inputDisabled: true,
@@ -81,6 +81,7 @@ export function createAssistantComposerHandlers(args: AssistantComposerHandlersA
     const resolveBlockedSendReason = (hasContent: boolean): string => {
         if (!allowEmptySubmit && !hasContent) return 'Write a message or attach a file first.'
         if (disabledReason === 'no-session') return 'Select or create a chat before sending.'
+        if (disabledReason === 'read-only') return 'Imported chats are read-only history.'
         if (disabledReason === 'project-required') return 'Choose a project before sending in a work chat.'
         if (disabled) return 'Assistant is unavailable right now.'
         if (!isConnected) return 'Assistant is disconnected. Reconnect before sending.'
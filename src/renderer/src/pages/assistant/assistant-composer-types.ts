@@ -42,7 +42,7 @@ export type AssistantQueuedComposerMessage = {
     status: 'queued' | 'paused'
 }
 
-export type AssistantComposerDisabledReason = 'no-session' | 'project-required'
+export type AssistantComposerDisabledReason = 'no-session' | 'read-only' | 'project-required'
 
 export type AssistantComposerProps = {
     sessionId?: string | null
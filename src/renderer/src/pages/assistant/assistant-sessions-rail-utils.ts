@@ -44,6 +44,7 @@ export type AssistantSessionsRailProps = {
     onArchiveSession: (sessionId: string, archived?: boolean) => Promise<void>
     onDeleteSession: (sessionId: string) => Promise<AssistantMutationResult>
     onChooseProjectPath: () => Promise<void>
+    onImportSession: () => Promise<void>
     onSetPlaygroundRoot: (rootPath: string | null) => Promise<void>
     onCreatePlaygroundLab: (input: {
         title?: string
@@ -358,6 +359,28 @@ export function getPrimarySessionThread(session: AssistantSession): AssistantThr
     return [...rootThreads].sort((left, right) => getSortableTimestamp(left.createdAt) - getSortableTimestamp(right.createdAt))[0] || null
 }
 
+/** Threads forked from the same original as `threadId` (itself included), oldest first; empty if it was never forked. */
+export function getAssistantThreadBranches(session: AssistantSession, threadId: string | null): AssistantThread[] {
+    const threadById = new Map(session.threads.map((thread) => [thread.id, thread]))
+    const getBranchRootId = (thread: AssistantThread): string => {
+        const visited = new Set<string>()
+        let current = thread
+        while (current.forkedFromThreadId && !visited.has(current.id)) {
+            visited.add(current.id)
+            const parent = threadById.get(current.forkedFromThreadId)
+            if (!parent) break
+            current = parent
+        }
+        return current.id
+    }
+    const thread = threadId ? threadById.get(threadId) : null
+    if (!thread || isAssistantSubagentThread(thread)) return []
+    const rootId = getBranchRootId(thread)
+    const branches = session.threads.filter((entry) => !isAssistantSubagentThread(entry) && getBranchRootId(entry) === rootId)
+    if (branches.length < 2) return []
+    return branches.sort((left, right) => getSortableTimestamp(left.createdAt) - getSortableTimestamp(right.createdAt))
+}
+
 export function buildSessionSubagentTree(session: AssistantSession): AssistantSessionThreadTreeNode[] {
     const primaryThread = getPrimarySessionThread(session)
     if (!primaryThread) return []
@@ -0,0 +1,22 @@
+const TIMELINE_FOCUS_EVENT = 'devscope:assistant-timeline-focus'
+
+export type AssistantTimelineFocusRequest = {
+    sessionId: string
+    threadId: string
+    /** Id of the message, activity or proposed plan to bring into view. */
+    recordId: string
+}
+
+export function requestAssistantTimelineFocus(request: AssistantTimelineFocusRequest): void {
+    window.dispatchEvent(new CustomEvent(TIMELINE_FOCUS_EVENT, { detail: request }))
+}
+
+export function subscribeAssistantTimelineFocus(listener: (request: AssistantTimelineFocusRequest) => void): () => void {
+    const handleEvent = (event: Event) => {
+        const detail = (event as CustomEvent<AssistantTimelineFocusRequest | undefined>).detail
+        if (!detail?.sessionId || !detail.threadId || !detail.recordId) return
+        listener(detail)
+    }
+    window.addEventListener(TIMELINE_FOCUS_EVENT, handleEvent)
+    return () => window.removeEventListener(TIMELINE_FOCUS_EVENT, handleEvent)
+}
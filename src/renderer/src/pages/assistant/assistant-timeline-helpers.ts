@@ -388,6 +388,14 @@ export function buildTimelineRows(entries: TimelineEntry[], isWorking: boolean,
     return rows
 }
 
+export function findTimelineRowIdForRecord(rows: TimelineRenderRow[], recordId: string): string | null {
+    for (const row of rows) {
+        if (row.id === recordId) return row.id
+        if (row.kind === 'activity-group' && row.activities.some((activity) => activity.id === recordId)) return row.id
+    }
+    return null
+}
+
 export function getActivityDetails(activity: AssistantActivity): string[] {
     const payload = activity.payload || {}
     return [...new Set([
@@ -73,6 +73,18 @@ export function useAssistantPageTimelineScroll(args: UseAssistantPageTimelineScr
         }
     }, [])
 
+    const onScrollToElement = useCallback((element: HTMLElement) => {
+        const container = timelineScrollRef.current
+        if (!container) return
+        // Stop following the latest message so the initial bottom lock does not pull the view back.
+        cancelLatestLockRaf()
+        latestLockUntilRef.current = 0
+        shouldAutoScrollRef.current = false
+        const offset = element.getBoundingClientRect().top - container.getBoundingClientRect().top
+        container.scrollTop += offset - container.clientHeight / 3
+        syncTimelineScrollState(container)
+    }, [cancelLatestLockRaf, syncTimelineScrollState])
+
     const stabilizeLatestPosition = useCallback((remainingFrames: number) => {
         const element = timelineScrollRef.current
         if (!element) return
@@ -164,6 +176,7 @@ export function useAssistantPageTimelineScroll(args: UseAssistantPageTimelineScr
         timelineContentRef,
         timelineScrollRef,
         onScrollTimeline,
-        onScrollToBottom
+        onScrollToBottom,
+        onScrollToElement
     }
 }
@@ -82,6 +82,13 @@ export function useAssistantTimelineWindow({
         })
     }, [entryCount, hasHiddenEntries, scrollContainerRef])
 
+    const loadAll = useCallback(() => {
+        if (!hasHiddenEntries) return
+        startTransition(() => {
+            setLoadedEntryCount(entryCount)
+        })
+    }, [entryCount, hasHiddenEntries])
+
     useEffect(() => {
         const element = scrollContainerRef?.current
         if (!element || !hasHiddenEntries) return
@@ -115,6 +122,7 @@ export function useAssistantTimelineWindow({
         loadedEntryCount,
         hiddenEntryCount,
         hasHiddenEntries,
-        loadOlder
+        loadOlder,
+        loadAll
     }
 }
@@ -0,0 +1,99 @@
+import { ChevronDown, ChevronRight, FileText } from 'lucide-react'
+import { useState } from 'react'
+import type { DevScopeIndexedContentFileResult, DevScopeIndexedContentMatch } from '@shared/contracts/devscope-api'
+import { cn } from '@/lib/utils'
+
+function HighlightedPreview({ preview, term }: { preview: string; term: string }) {
+    const matchIndex = term ? preview.toLowerCase().indexOf(term) : -1
+    if (matchIndex < 0) {
+        return <span>{preview}</span>
+    }
+
+    return (
+        <span>
+            {preview.slice(0, matchIndex)}
+            <mark className="rounded-sm bg-[var(--accent-primary)]/25 px-0.5 text-sparkle-text">
+                {preview.slice(matchIndex, matchIndex + term.length)}
+            </mark>
+            {preview.slice(matchIndex + term.length)}
+        </span>
+    )
+}
+
+export function ContentSearchResults({
+    files,
+    term,
+    onOpenMatch
+}: {
+    files: DevScopeIndexedContentFileResult[]
+    term: string
+    onOpenMatch: (file: DevScopeIndexedContentFileResult, match: DevScopeIndexedContentMatch) => void
+}) {
+    const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(() => new Set())
+
+    const toggleFile = (path: string) => {
+        setCollapsedPaths((current) => {
+            const next = new Set(current)
+            if (next.has(path)) {
+                next.delete(path)
+            } else {
+                next.add(path)
+            }
+            return next
+        })
+    }
+
+    return (
+        <div className="flex flex-col gap-2">
+            {files.map((file) => {
+                const collapsed = collapsedPaths.has(file.path)
+                const hiddenMatchCount = file.totalMatches - file.matches.length
+                return (
+                    <div key={file.path} className="overflow-hidden rounded-xl border border-white/10 bg-sparkle-card">
+                        <button
+                            type="button"
+                            onClick={() => toggleFile(file.path)}
+                            title={file.path}
+                            className="flex w-full items-center gap-2 px-3 py-2 text-left transition-colors hover:bg-white/[0.03]"
+                        >
+                            {collapsed
+                                ? <ChevronRight size={14} className="shrink-0 text-sparkle-text-muted" />
+                                : <ChevronDown size={14} className="shrink-0 text-sparkle-text-muted" />}
+                            <FileText size={14} className="shrink-0 text-sky-300" />
+                            <span className="truncate text-sm font-medium text-sparkle-text">{file.name}</span>
+                            <span className="min-w-0 flex-1 truncate text-xs text-sparkle-text-muted">{file.relativePath}</span>
+                            <span className="shrink-0 rounded-full border border-white/10 px-2 py-0.5 text-[11px] text-sparkle-text-secondary">
+                                {file.totalMatches}
+                            </span>
+                        </button>
+                        {!collapsed && (
+                            <div className="border-t border-white/5 py-1">
+                                {file.matches.map((match) => (
+                                    <button
+                                        key={`${match.line}:${match.column}`}
+                                        type="button"
+                                        onClick={() => onOpenMatch(file, match)}
+                                        className={cn(
+                                            'flex w-full items-baseline gap-3 px-3 py-1 text-left font-mono text-xs transition-colors',
+                                            'text-sparkle-text-secondary hover:bg-white/[0.04] hover:text-sparkle-text'
+                                        )}
+                                    >
+                                        <span className="w-10 shrink-0 text-right text-sparkle-text-muted">{match.line}</span>
+                                        <span className="min-w-0 flex-1 truncate">
+                                            <HighlightedPreview preview={match.preview} term={term} />
+                                        </span>
+                                    </button>
+                                ))}
+                                {hiddenMatchCount > 0 && (
+                                    <div className="px-3 py-1 pl-16 text-[11px] text-sparkle-text-muted">
+                                        {hiddenMatchCount} more match{hiddenMatchCount === 1 ? '' : 'es'} in this file
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,86 @@
+import { useDeferredValue, useEffect, useMemo, useState } from 'react'
+import type { DevScopeIndexedContentSearchResult } from '@shared/contracts/devscope-api'
+import { useFileIndexRevision } from '@/lib/fileIndexChanges'
+import { parseFileSearchQuery } from '@/lib/utils'
+
+const EMPTY_CONTENT_SEARCH_RESULT: DevScopeIndexedContentSearchResult = {
+    files: [],
+    totalFiles: 0,
+    totalMatches: 0,
+    truncated: false
+}
+const CONTENT_SEARCH_DEBOUNCE_MS = 220
+
+export function useIndexedContentSearch({
+    roots,
+    query
+}: {
+    roots: string[]
+    query: string
+}) {
+    const deferredQuery = useDeferredValue(query)
+    const parsedQuery = useMemo(() => parseFileSearchQuery(deferredQuery), [deferredQuery])
+    const hasQuery = parsedQuery.term.length > 0
+    const [result, setResult] = useState<DevScopeIndexedContentSearchResult>(EMPTY_CONTENT_SEARCH_RESULT)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const rootsKey = roots.join('||')
+    const searchRoots = useMemo(() => (rootsKey ? rootsKey.split('||') : []), [rootsKey])
+    const indexRevision = useFileIndexRevision(searchRoots)
+
+    useEffect(() => {
+        if (!hasQuery || searchRoots.length === 0) {
+            setResult(EMPTY_CONTENT_SEARCH_RESULT)
+            setLoading(false)
+            setError(null)
+            return
+        }
+
+        let cancelled = false
+        setLoading(true)
+        const timer = window.setTimeout(() => {
+            void window.devscope.searchIndexedContent({
+                roots: searchRoots,
+                term: parsedQuery.term,
+                extensionFilters: parsedQuery.extension ? [parsedQuery.extension] : [],
+                limit: 150,
+                maxMatchesPerFile: 25
+            }).then((response) => {
+                if (cancelled) return
+                if (!response?.success) {
+                    setResult(EMPTY_CONTENT_SEARCH_RESULT)
+                    setError(response?.error || 'Content search failed.')
+                    return
+                }
+                setResult({
+                    files: response.files || [],
+                    totalFiles: response.totalFiles || 0,
+                    totalMatches: response.totalMatches || 0,
+                    truncated: Boolean(response.truncated)
+                })
+                setError(null)
+            }).catch((err: any) => {
+                if (cancelled) return
+                setResult(EMPTY_CONTENT_SEARCH_RESULT)
+                setError(err?.message || 'Content search failed.')
+            }).finally(() => {
+                if (!cancelled) {
+                    setLoading(false)
+                }
+            })
+        }, CONTENT_SEARCH_DEBOUNCE_MS)
+
+        return () => {
+            cancelled = true
+            window.clearTimeout(timer)
+        }
+    }, [hasQuery, indexRevision, parsedQuery.extension, parsedQuery.term, searchRoots])
+
+    return {
+        hasQuery,
+        parsedQuery,
+        result,
+        loading,
+        error
+    }
+}
@@ -0,0 +1,129 @@
+import { useMemo, useState, type ReactNode } from 'react'
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type {
+    DevScopeDependencyAdvisorySeverity,
+    DevScopeDependencyAuditStatus
+} from '@shared/contracts/devscope-project-contracts'
+
+export type SortDirection = 'asc' | 'desc'
+
+export const SEVERITY_ORDER: DevScopeDependencyAdvisorySeverity[] = ['critical', 'high', 'moderate', 'low', 'unknown']
+
+const SEVERITY_CLASSES: Record<DevScopeDependencyAdvisorySeverity, string> = {
+    critical: 'border-red-500/30 bg-red-500/15 text-red-300',
+    high: 'border-orange-500/30 bg-orange-500/15 text-orange-300',
+    moderate: 'border-amber-500/30 bg-amber-500/10 text-amber-300',
+    low: 'border-sky-500/30 bg-sky-500/10 text-sky-300',
+    unknown: 'border-white/10 bg-white/5 text-white/50'
+}
+
+const STATUS_LABELS: Record<DevScopeDependencyAuditStatus, string> = {
+    ok: 'In range',
+    mismatch: 'Out of range',
+    missing: 'Not locked',
+    unresolvable: 'Non-semver'
+}
+
+const STATUS_CLASSES: Record<DevScopeDependencyAuditStatus, string> = {
+    ok: 'border-emerald-500/25 bg-emerald-500/10 text-emerald-300',
+    mismatch: 'border-red-500/25 bg-red-500/10 text-red-300',
+    missing: 'border-amber-500/25 bg-amber-500/10 text-amber-300',
+    unresolvable: 'border-white/10 bg-white/5 text-white/50'
+}
+
+export function SeverityBadge({ severity, count }: { severity: DevScopeDependencyAdvisorySeverity; count?: number }) {
+    return (
+        <span className={cn('inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-medium uppercase tracking-wide', SEVERITY_CLASSES[severity])}>
+            {count !== undefined ? `${count} ` : ''}{severity}
+        </span>
+    )
+}
+
+export function AuditStatusBadge({ status }: { status: DevScopeDependencyAuditStatus }) {
+    return (
+        <span className={cn('inline-flex rounded-full border px-2 py-0.5 text-[10px] font-medium', STATUS_CLASSES[status])}>
+            {STATUS_LABELS[status]}
+        </span>
+    )
+}
+
+export function AuditStatTile({ label, value, tone = 'default' }: { label: string; value: ReactNode; tone?: 'default' | 'warn' | 'danger' }) {
+    return (
+        <div className="rounded-xl border border-white/5 bg-white/[0.03] px-3 py-2">
+            <div className="text-[11px] uppercase tracking-wide text-white/40">{label}</div>
+            <div className={cn(
+                'mt-0.5 text-lg font-semibold',
+                tone === 'danger' ? 'text-red-300' : tone === 'warn' ? 'text-amber-300' : 'text-white/90'
+            )}>
+                {value}
+            </div>
+        </div>
+    )
+}
+
+/**
+ * Column sort state shared by the audit tables. `getValue` maps a row to a
+ * comparable value per column; strings compare with numeric collation.
+ */
+export function useSortedRows<Row, Column extends string>(
+    rows: Row[],
+    getValue: (row: Row, column: Column) => string | number,
+    initialColumn: Column,
+    initialDirection: SortDirection = 'asc'
+) {
+    const [sortColumn, setSortColumn] = useState<Column>(initialColumn)
+    const [sortDirection, setSortDirection] = useState<SortDirection>(initialDirection)
+
+    const sortedRows = useMemo(() => {
+        const factor = sortDirection === 'asc' ? 1 : -1
+        return [...rows].sort((left, right) => {
+            const leftValue = getValue(left, sortColumn)
+            const rightValue = getValue(right, sortColumn)
+            if (typeof leftValue === 'number' && typeof rightValue === 'number') return (leftValue - rightValue) * factor
+            return String(leftValue).localeCompare(String(rightValue), undefined, { numeric: true }) * factor
+        })
+    }, [getValue, rows, sortColumn, sortDirection])
+
+    const toggleSort = (column: Column) => {
+        if (column === sortColumn) {
+            setSortDirection((current) => (current === 'asc' ? 'desc' : 'asc'))
+            return
+        }
+        setSortColumn(column)
+        setSortDirection('asc')
+    }
+
+    return { sortedRows, sortColumn, sortDirection, toggleSort }
+}
+
+export function SortableHeaderCell<Column extends string>({
+    column,
+    label,
+    sortColumn,
+    sortDirection,
+    onSort,
+    className
+}: {
+    column: Column
+    label: string
+    sortColumn: Column
+    sortDirection: SortDirection
+    onSort: (column: Column) => void
+    className?: string
+}) {
+    const active = column === sortColumn
+    const Icon = !active ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown
+    return (
+        <th className={cn('px-3 py-2 text-left font-medium', className)}>
+            <button
+                type="button"
+                onClick={() => onSort(column)}
+                className={cn('inline-flex items-center gap-1 transition-colors hover:text-white', active ? 'text-white/80' : 'text-white/40')}
+            >
+                {label}
+                <Icon size={11} className={active ? 'opacity-100' : 'opacity-50'} />
+            </button>
+        </th>
+    )
+}
@@ -5,6 +5,7 @@ import { cn } from '@/lib/utils'
 import { FileActionsMenu } from '@/components/ui/FileActionsMenu'
 import { OpenWithProjectButton } from '@/components/ui/OpenWithProjectButton'
 import { buildRootRelativeBreadcrumbSegments } from './folderBrowsePageUtils'
+import type { Shell } from '@/lib/settings'
 
 type RootStats = {
     projects: number
@@ -35,7 +36,7 @@ interface FolderBrowseHeaderProps {
     canNavigateUp: boolean
     onNavigateToPath: (path: string) => void
     onViewAsProject: () => void
-    preferredShell: 'powershell' | 'cmd'
+    preferredShell: Shell
     onCopyPath: () => void
     copiedPath: boolean
     onOpenStats?: (key: 'projects' | 'frameworks' | 'types') => void
@@ -1,10 +1,11 @@
-import { Clock, ExternalLink, FolderOpen, Pencil, Trash2 } from 'lucide-react'
+import { Boxes, Clock, ExternalLink, FolderGit2, FolderOpen, Pencil, Trash2 } from 'lucide-react'
 import type { MouseEvent as ReactMouseEvent } from 'react'
 import ProjectIcon, { FrameworkBadge } from '@/components/ui/ProjectIcon'
 import { cn } from '@/lib/utils'
 import { getProjectTypeById, type Project, type ViewMode } from './types'
 import { WRAP_AND_CLAMP_2 } from '../shared/BrowseSectionPrimitives'
-import { FileActionsMenu } from '@/components/ui/FileActionsMenu'
+import { FileActionsMenu, type FileActionsMenuItem } from '@/components/ui/FileActionsMenu'
+import { RunStatusBadges } from '@/pages/project-details/RunStatusBadges'
 
 interface FolderBrowseProjectCardProps {
     project: Project
@@ -29,6 +30,19 @@ export function FolderBrowseProjectCard({
 }: FolderBrowseProjectCardProps) {
     const typeInfo = getProjectTypeById(project.type)
     const themeColor = typeInfo?.themeColor || '#525252'
+    const worktrees = project.worktrees || []
+    const menuItems: FileActionsMenuItem[] = [
+        { id: 'open', label: 'Open', icon: <FolderOpen size={13} />, onSelect: () => onProjectClick(project) },
+        ...worktrees.map((worktree) => ({
+            id: `worktree:${worktree.path}`,
+            label: `Open Worktree: ${worktree.branch || worktree.name}`,
+            icon: <FolderGit2 size={13} />,
+            onSelect: () => onProjectClick({ ...project, name: worktree.name, path: worktree.path, worktrees: undefined, worktreeRootPath: project.path })
+        })),
+        { id: 'explorer', label: 'Open in Explorer', icon: <ExternalLink size={13} />, onSelect: () => onOpenProjectInExplorer(project.path) },
+        { id: 'rename', label: 'Rename Project', icon: <Pencil size={13} />, onSelect: () => onProjectRename(project) },
+        { id: 'delete', label: 'Delete Project', icon: <Trash2 size={13} />, danger: true, onSelect: () => onProjectDelete(project) }
+    ]
 
     return (
         <div
@@ -55,12 +69,7 @@ export function FolderBrowseProjectCard({
                     <div className="absolute top-2 right-2 z-20">
                         <FileActionsMenu
                             buttonClassName="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity bg-black/20"
-                            items={[
-                                { id: 'open', label: 'Open', icon: <FolderOpen size={13} />, onSelect: () => onProjectClick(project) },
-                                { id: 'explorer', label: 'Open in Explorer', icon: <ExternalLink size={13} />, onSelect: () => onOpenProjectInExplorer(project.path) },
-                                { id: 'rename', label: 'Rename Project', icon: <Pencil size={13} />, onSelect: () => onProjectRename(project) },
-                                { id: 'delete', label: 'Delete Project', icon: <Trash2 size={13} />, danger: true, onSelect: () => onProjectDelete(project) }
-                            ]}
+                            items={menuItems}
                         />
                     </div>
                     <div className="relative mb-3 flex h-16 w-16 items-center justify-center rounded-2xl border border-white/5 bg-sparkle-bg shadow-inner group-hover:border-white/20">
@@ -80,6 +89,7 @@ export function FolderBrowseProjectCard({
                         {project.name}
                     </span>
                     <span className="w-full truncate text-[10px] text-white/40" title={typeInfo?.displayName || project.type}>{typeInfo?.displayName || project.type}</span>
+                    <RunStatusBadges projectPath={project.path} scriptIntentContext={{ frameworks: project.frameworks }} className="mt-2 justify-center" />
                 </>
             ) : (
                 <>
@@ -94,12 +104,7 @@ export function FolderBrowseProjectCard({
                         </div>
                         <FileActionsMenu
                             buttonClassName="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
-                            items={[
-                                { id: 'open', label: 'Open', icon: <FolderOpen size={13} />, onSelect: () => onProjectClick(project) },
-                                { id: 'explorer', label: 'Open in Explorer', icon: <ExternalLink size={13} />, onSelect: () => onOpenProjectInExplorer(project.path) },
-                                { id: 'rename', label: 'Rename Project', icon: <Pencil size={13} />, onSelect: () => onProjectRename(project) },
-                                { id: 'delete', label: 'Delete Project', icon: <Trash2 size={13} />, danger: true, onSelect: () => onProjectDelete(project) }
-                            ]}
+                            items={menuItems}
                         />
                     </div>
 
@@ -109,6 +114,36 @@ export function FolderBrowseProjectCard({
                         </h3>
                         <p className="mb-3 truncate text-xs text-white/40" title={typeInfo?.displayName || project.type}>{typeInfo?.displayName || project.type}</p>
 
+                        {(project.workspaceKinds?.length || project.workspaceRootPath) && (
+                            <div
+                                className="mb-3 mr-1.5 inline-flex max-w-full items-center gap-1.5 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-white/50"
+                                title={project.workspaceRootPath || undefined}
+                            >
+                                <Boxes size={11} className="shrink-0" />
+                                <span className="truncate">
+                                    {project.workspaceKinds?.length ? 'Workspace root' : 'Workspace member'}
+                                </span>
+                            </div>
+                        )}
+
+                        {(worktrees.length > 0 || project.worktreeRootPath) && (
+                            <div
+                                className="mb-3 mr-1.5 inline-flex max-w-full items-center gap-1.5 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-white/50"
+                                title={worktrees.length > 0
+                                    ? worktrees.map((worktree) => `${worktree.branch || 'detached'} · ${worktree.path}`).join('\n')
+                                    : project.worktreeRootPath || undefined}
+                            >
+                                <FolderGit2 size={11} className="shrink-0" />
+                                <span className="truncate">
+                                    {worktrees.length > 0
+                                        ? `${worktrees.length} worktree${worktrees.length === 1 ? '' : 's'}`
+                                        : 'Linked worktree'}
+                                </span>
+                            </div>
+                        )}
+
+                        <RunStatusBadges projectPath={project.path} scriptIntentContext={{ frameworks: project.frameworks }} className="mb-3" />
+
                         {project.frameworks && project.frameworks.length > 0 && (
                             <div className="mb-3 flex flex-wrap gap-1.5">
                                 {project.frameworks.slice(0, 3).map((framework) => (
@@ -7,6 +7,10 @@ export interface Project {
     frameworks: string[]
     lastModified?: number
     isProject: boolean
+    workspaceKinds?: string[]
+    workspaceRootPath?: string | null
+    worktrees?: Array<{ name: string; path: string; branch: string | null }>
+    worktreeRootPath?: string | null
 }
 
 export interface FolderItem {
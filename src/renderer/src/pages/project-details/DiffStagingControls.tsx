@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
+import { Minus, Plus, RefreshCw, Undo2, X } from 'lucide-react'
+import type { SelectedLineRange } from '@pierre/diffs'
+import type { DiffLineAnnotation } from '@pierre/diffs/react'
+import type { DevScopePatchHunkSelection } from '@shared/contracts/devscope-api'
+import { parseUnifiedDiff, selectionsFromLineRange, type PatchHunk } from '@shared/git-patch'
+import { cn } from '@/lib/utils'
+
+export type DiffStagingAction = 'stage' | 'unstage' | 'discard'
+
+export interface DiffStagingOptions {
+    /** Which side of the index the diff shows; decides the available actions. */
+    mode: 'staged' | 'unstaged'
+    onApply: (action: DiffStagingAction, selections: DevScopePatchHunkSelection[]) => Promise<boolean>
+}
+
+function normalizePath(value: string | null | undefined): string {
+    return String(value || '').replace(/\\/g, '/')
+}
+
+function buildHunkAnnotations(hunks: PatchHunk[]): DiffLineAnnotation<string>[] {
+    return hunks.flatMap((hunk): DiffLineAnnotation<string>[] => {
+        const lastLine = hunk.lines[hunk.lines.length - 1]
+        if (!lastLine) return []
+        return lastLine.newLine !== null
+            ? [{ side: 'additions', lineNumber: lastLine.newLine, metadata: hunk.header }]
+            : [{ side: 'deletions', lineNumber: lastLine.oldLine ?? hunk.oldStart, metadata: hunk.header }]
+    })
+}
+
+function countSelectedLines(selections: DevScopePatchHunkSelection[]): number {
+    return selections.reduce((total, selection) => total + (selection.lines?.length ?? 0), 0)
+}
+
+export function useDiffLineStaging(diff: string, filePath: string, staging?: DiffStagingOptions) {
+    const [selectedLines, setSelectedLines] = useState<SelectedLineRange | null>(null)
+    const [busyKey, setBusyKey] = useState<string | null>(null)
+    const [confirmDiscardKey, setConfirmDiscardKey] = useState<string | null>(null)
+
+    const hasStaging = Boolean(staging)
+    const hunks = useMemo(() => {
+        if (!hasStaging || !diff) return []
+        const files = parseUnifiedDiff(diff).filter((file) => !file.binary)
+        const normalizedPath = normalizePath(filePath)
+        const match = files.find((file) => normalizePath(file.newPath) === normalizedPath || normalizePath(file.oldPath) === normalizedPath)
+        return (match ?? files[0])?.hunks ?? []
+    }, [diff, filePath, hasStaging])
+
+    useEffect(() => {
+        setSelectedLines(null)
+        setConfirmDiscardKey(null)
+    }, [diff])
+
+    const lineSelections = useMemo(
+        () => (selectedLines ? selectionsFromLineRange(hunks, selectedLines) : []),
+        [hunks, selectedLines]
+    )
+    const lineAnnotations = useMemo(() => buildHunkAnnotations(hunks), [hunks])
+
+    const apply = async (key: string, action: DiffStagingAction, selections: DevScopePatchHunkSelection[]) => {
+        if (!staging || busyKey || selections.length === 0) return
+        if (action === 'discard' && confirmDiscardKey !== key) {
+            setConfirmDiscardKey(key)
+            return
+        }
+        setConfirmDiscardKey(null)
+        setBusyKey(key)
+        try {
+            const success = await staging.onApply(action, selections)
+            if (success) setSelectedLines(null)
+        } finally {
+            setBusyKey(null)
+        }
+    }
+
+    const enabled = hasStaging && hunks.length > 0
+    return {
+        enabled,
+        mode: staging?.mode ?? 'unstaged',
+        selectedLines,
+        setSelectedLines,
+        lineSelections,
+        lineAnnotations: enabled ? lineAnnotations : undefined,
+        busyKey,
+        confirmDiscardKey,
+        apply
+    }
+}
+
+type DiffLineStaging = ReturnType<typeof useDiffLineStaging>
+
+function StagingButton({
+    label,
+    icon,
+    tone = 'default',
+    busy,
+    disabled,
+    onClick
+}: {
+    label: string
+    icon: ReactNode
+    tone?: 'default' | 'danger'
+    busy?: boolean
+    disabled?: boolean
+    onClick: () => void
+}) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            disabled={disabled}
+            className={cn(
+                'inline-flex items-center gap-1.5 rounded-lg border px-2.5 py-1 text-[11px] font-medium transition-all disabled:cursor-not-allowed disabled:opacity-40',
+                tone === 'danger'
+                    ? 'border-red-500/25 bg-red-500/10 text-red-200 hover:border-red-500/40 hover:bg-red-500/20'
+                    : 'border-white/10 bg-white/[0.04] text-white/75 hover:border-white/20 hover:bg-white/10 hover:text-white'
+            )}
+        >
+            {busy ? <RefreshCw size={11} className="animate-spin" /> : icon}
+            {label}
+        </button>
+    )
+}
+
+/** Per-hunk actions rendered as a diff annotation under the hunk's last line. */
+export function DiffHunkActions({ header, staging }: { header: string; staging: DiffLineStaging }) {
+    const key = `hunk:${header}`
+    const selections = [{ header }]
+    const disabled = Boolean(staging.busyKey)
+
+    return (
+        <div className="flex items-center gap-1.5 px-3 py-1.5">
+            {staging.mode === 'staged' ? (
+                <StagingButton
+                    label="Unstage hunk"
+                    icon={<Minus size={11} />}
+                    busy={staging.busyKey === key}
+                    disabled={disabled}
+                    onClick={() => { void staging.apply(key, 'unstage', selections) }}
+                />
+            ) : (
+                <>
+                    <StagingButton
+                        label="Stage hunk"
+                        icon={<Plus size={11} />}
+                        busy={staging.busyKey === key}
+                        disabled={disabled}
+                        onClick={() => { void staging.apply(key, 'stage', selections) }}
+                    />
+                    <StagingButton
+                        label={staging.confirmDiscardKey === key ? 'Click again to discard' : 'Discard hunk'}
+                        icon={<Undo2 size={11} />}
+                        tone="danger"
+                        disabled={disabled}
+                        onClick={() => { void staging.apply(key, 'discard', selections) }}
+                    />
+                </>
+            )}
+        </div>
+    )
+}
+
+/** Footer bar acting on the lines currently selected in the diff. */
+export function DiffSelectionBar({ staging }: { staging: DiffLineStaging }) {
+    if (!staging.enabled) return null
+
+    const key = 'selection'
+    const selectedCount = countSelectedLines(staging.lineSelections)
+    const disabled = selectedCount === 0 || Boolean(staging.busyKey)
+
+    return (
+        <div className="flex items-center justify-between gap-3 border-t border-white/10 bg-white/[0.03] px-5 py-2.5">
+            <span className="text-xs text-white/50">
+                {selectedCount > 0
+                    ? `${selectedCount} changed line${selectedCount === 1 ? '' : 's'} selected`
+                    : 'Click or drag line numbers to select lines'}
+            </span>
+            <div className="flex items-center gap-1.5">
+                {staging.mode === 'staged' ? (
+                    <StagingButton
+                        label="Unstage lines"
+                        icon={<Minus size={11} />}
+                        busy={staging.busyKey === key}
+                        disabled={disabled}
+                        onClick={() => { void staging.apply(key, 'unstage', staging.lineSelections) }}
+                    />
+                ) : (
+                    <>
+                        <StagingButton
+                            label="Stage lines"
+                            icon={<Plus size={11} />}
+                            busy={staging.busyKey === key}
+                            disabled={disabled}
+                            onClick={() => { void staging.apply(key, 'stage', staging.lineSelections) }}
+                        />
+                        <StagingButton
+                            label={staging.confirmDiscardKey === key ? 'Click again to discard' : 'Discard lines'}
+                            icon={<Undo2 size={11} />}
+                            tone="danger"
+                            disabled={disabled}
+                            onClick={() => { void staging.apply(key, 'discard', staging.lineSelections) }}
+                        />
+                    </>
+                )}
+                <StagingButton
+                    label="Clear"
+                    icon={<X size={11} />}
+                    disabled={!staging.selectedLines || Boolean(staging.busyKey)}
+                    onClick={() => staging.setSelectedLines(null)}
+                />
+            </div>
+        </div>
+    )
+}
@@ -8,6 +8,7 @@ import { cn } from '@/lib/utils'
 import { DiffStats } from './DiffStats'
 import PatchDiffViewer from '@/components/ui/diff-viewer/PatchDiffViewer'
 import { parsePatchForRendering, resolveFileDiffPath } from '@/lib/diffRendering'
+import { DiffHunkActions, DiffSelectionBar, useDiffLineStaging, type DiffStagingOptions } from './DiffStagingControls'
 
 const DIFF_RENDER_MODE_STORAGE_KEY = 'devscope:project-details:diff-render-mode:v1'
 
@@ -19,8 +20,10 @@ interface FileDiffDetailModalProps {
     loading?: boolean
     additions?: number
     deletions?: number
-    status?: 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'ignored' | 'unknown'
+    status?: 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'conflicted' | 'ignored' | 'unknown'
     subtitle?: string
+    /** Enables hunk/line staging controls for working-tree diffs. */
+    staging?: DiffStagingOptions
     onClose: () => void
 }
 
@@ -35,6 +38,8 @@ function getStatusTone(status?: FileDiffDetailModalProps['status']) {
             return 'bg-[#FF6B6B]/20 text-[#FF6B6B]'
         case 'renamed':
             return 'bg-blue-500/20 text-blue-300'
+        case 'conflicted':
+            return 'bg-orange-500/20 text-orange-300'
         default:
             return 'bg-white/10 text-white/60'
     }
@@ -50,6 +55,7 @@ export function FileDiffDetailModal({
     deletions = 0,
     status,
     subtitle,
+    staging,
     onClose
 }: FileDiffDetailModalProps) {
     const { settings } = useSettings()
@@ -65,6 +71,7 @@ export function FileDiffDetailModal({
     })
     const [parsedDiff, setParsedDiff] = useState(() => parsePatchForRendering('', 'file-detail:initial'))
     const [isPreparingDiff, setIsPreparingDiff] = useState(false)
+    const lineStaging = useDiffLineStaging(diff, filePath, staging)
 
     useEffect(() => {
         if (!isOpen || fileDiff) {
@@ -121,6 +128,17 @@ export function FileDiffDetailModal({
 
     if (!isOpen) return null
 
+    const stagingViewerProps = lineStaging.enabled
+        ? {
+            selectedLines: lineStaging.selectedLines,
+            onLineSelected: lineStaging.setSelectedLines,
+            lineAnnotations: lineStaging.lineAnnotations,
+            renderAnnotation: (annotation: { metadata: string }) => (
+                <DiffHunkActions header={annotation.metadata} staging={lineStaging} />
+            )
+        }
+        : {}
+
     const handleCopyPath = async () => {
         await navigator.clipboard.writeText(filePath)
         setCopied(true)
@@ -210,14 +228,14 @@ export function FileDiffDetailModal({
                         </div>
                     ) : hasDiff ? (
                         resolvedFileDiff ? (
-                            <PatchDiffViewer fileDiff={resolvedFileDiff} mode={renderMode} />
+                            <PatchDiffViewer fileDiff={resolvedFileDiff} mode={renderMode} {...stagingViewerProps} />
                         ) : parsedDiff.error ? (
                             <RawPatchFallback
                                 patch={parsedDiff.patch}
                                 notice="Falling back to raw diff view because patch parsing failed."
                             />
                         ) : (
-                            <PatchDiffViewer patch={parsedDiff.patch} mode={renderMode} />
+                            <PatchDiffViewer patch={parsedDiff.patch} mode={renderMode} {...stagingViewerProps} />
                         )
                     ) : (
                         <div className="flex items-center justify-center py-16 text-white/35">
@@ -225,6 +243,7 @@ export function FileDiffDetailModal({
                         </div>
                     )}
                 </div>
+                {!isBusy && <DiffSelectionBar staging={lineStaging} />}
             </div>
         </div>
     )
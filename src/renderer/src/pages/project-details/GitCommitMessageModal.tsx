@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { AlertTriangle, PencilLine, RefreshCw, X } from 'lucide-react'
+import { Checkbox } from '@/components/ui/FormControls'
+import { cn } from '@/lib/utils'
+import type { GitCommit } from './types'
+
+export type CommitMessageEditMode = 'amend' | 'reword'
+
+export type CommitMessageEditRequest = {
+    mode: CommitMessageEditMode
+    commit: GitCommit
+}
+
+interface GitCommitMessageModalProps {
+    projectPath: string
+    request: CommitMessageEditRequest | null
+    /** Whether the commit is already on the remote, from the unpushed commit list. */
+    isPushed: boolean
+    onClose: () => void
+    /** Called after a successful amend or reword so git data can be refreshed. */
+    onFinished: (message: string) => void
+}
+
+export function GitCommitMessageModal({ projectPath, request, isPushed, onClose, onFinished }: GitCommitMessageModalProps) {
+    const [originalMessage, setOriginalMessage] = useState('')
+    const [message, setMessage] = useState('')
+    const [includeStaged, setIncludeStaged] = useState(true)
+    const [loading, setLoading] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState('')
+
+    useEffect(() => {
+        if (!request) return
+        let cancelled = false
+        setOriginalMessage('')
+        setMessage('')
+        setIncludeStaged(request.mode === 'amend')
+        setError('')
+        setLoading(true)
+
+        void window.devscope.getCommitMessage(projectPath, request.commit.hash).then((result) => {
+            if (cancelled) return
+            const loaded = result?.success ? result.message : request.commit.message
+            setOriginalMessage(loaded)
+            setMessage(loaded)
+            setLoading(false)
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [projectPath, request])
+
+    if (!request || typeof document === 'undefined') return null
+
+    const isAmend = request.mode === 'amend'
+    const messageChanged = message.trim() !== originalMessage.trim()
+    const canSave = !loading && !saving && Boolean(message.trim()) && (messageChanged || (isAmend && includeStaged))
+
+    const handleSave = async () => {
+        setSaving(true)
+        setError('')
+        try {
+            // isPushed only becomes allowPushed because the warning above the editor was shown.
+            const result = isAmend
+                ? await window.devscope.amendLastCommit(projectPath, {
+                    message: messageChanged ? message.trim() : undefined,
+                    includeStaged,
+                    allowPushed: isPushed
+                })
+                : await window.devscope.rewordCommit(projectPath, request.commit.hash, message.trim(), isPushed)
+            if (!result?.success) throw new Error(result?.error || `Failed to ${request.mode} commit`)
+            onFinished(isAmend ? `Amended ${request.commit.shortHash}.` : `Reworded ${request.commit.shortHash}.`)
+        } catch (err: any) {
+            setError(err?.message || `Failed to ${request.mode} commit`)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return createPortal(
+        <div
+            className="fixed inset-0 z-[140] flex animate-fadeIn items-center justify-center bg-black/60 backdrop-blur-md"
+            onClick={saving ? undefined : onClose}
+        >
+            <div
+                className="m-4 flex w-full max-w-2xl flex-col overflow-hidden rounded-2xl border border-white/10 bg-sparkle-card shadow-2xl"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="flex items-start justify-between gap-4 border-b border-white/10 bg-white/[0.02] px-6 py-5">
+                    <div className="min-w-0">
+                        <p className="text-[11px] uppercase tracking-[0.2em] text-white/35">{isAmend ? 'Amend Last Commit' : 'Edit Commit Message'}</p>
+                        <h3 className="mt-1 truncate text-lg font-semibold text-white">
+                            <span className="font-mono">{request.commit.shortHash}</span> {request.commit.message}
+                        </h3>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        disabled={saving}
+                        className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-lg border border-white/10 bg-white/[0.03] text-white/50 transition-all hover:border-white/20 hover:bg-white/10 hover:text-white disabled:opacity-40"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div className="space-y-3 px-6 py-5">
+                    {isPushed && (
+                        <div className="flex gap-2 rounded-lg border border-amber-500/25 bg-amber-500/10 p-3 text-xs text-amber-200">
+                            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                            <span>This commit is already on the remote. Saving rewrites published history and will require a force push.</span>
+                        </div>
+                    )}
+                    <textarea
+                        value={message}
+                        onChange={(event) => setMessage(event.target.value)}
+                        disabled={loading || saving}
+                        placeholder={loading ? 'Loading message...' : 'Commit message'}
+                        rows={6}
+                        className="w-full resize-none rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:border-[var(--accent-primary)]/50 focus:outline-none"
+                    />
+                    {isAmend && (
+                        <Checkbox
+                            checked={includeStaged}
+                            onChange={setIncludeStaged}
+                            label="Include staged changes"
+                            description="Unchecked, only the message changes and the staged files stay staged."
+                            disabled={saving}
+                            size="sm"
+                        />
+                    )}
+                    {error && <p className="text-xs text-red-300">{error}</p>}
+                </div>
+
+                <div className="flex items-center justify-between gap-3 border-t border-white/10 bg-white/[0.02] px-6 py-4">
+                    <p className="text-xs text-white/40">
+                        {isAmend ? 'Replaces the last commit.' : 'Older commits are reworded with a rebase; local changes are stashed and restored.'}
+                    </p>
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={saving}
+                            className="rounded-lg border border-white/10 px-3.5 py-2 text-sm text-white/65 transition-all hover:border-white/20 hover:bg-white/[0.04] hover:text-white disabled:opacity-40"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => { void handleSave() }}
+                            disabled={!canSave}
+                            className={cn(
+                                'inline-flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium transition-all disabled:cursor-not-allowed disabled:opacity-40',
+                                isPushed
+                                    ? 'border-amber-400/25 bg-amber-400/12 text-amber-100 hover:bg-amber-400/20'
+                                    : 'border-sky-400/25 bg-sky-400/12 text-sky-100 hover:bg-sky-400/20'
+                            )}
+                        >
+                            {saving ? <RefreshCw size={14} className="animate-spin" /> : <PencilLine size={14} />}
+                            {isPushed ? 'Rewrite Anyway' : isAmend ? 'Amend Commit' : 'Save Message'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>,
+        document.body
+    )
+}
@@ -1,5 +1,6 @@
 import { useMemo } from 'react'
-import { Calendar, Cloud, User } from 'lucide-react'
+import { Calendar, Cloud, ShieldAlert, ShieldCheck, ShieldOff, User } from 'lucide-react'
+import { FileActionsMenu, type FileActionsMenuItem } from '@/components/ui/FileActionsMenu'
 import { cn } from '@/lib/utils'
 import type { GitCommit } from './types'
 import { DiffStats } from './DiffStats'
@@ -16,13 +17,48 @@ const BRANCH_COLORS = [
 const LOCAL_STREAM_COLOR = '#f59e0b'
 const REMOTE_HEAD_COLOR = '#22c55e'
 
+// Meanings of git's `%G?` codes other than `G` (good) and `N` (none).
+const UNVERIFIED_SIGNATURE_REASONS: Record<string, string> = {
+    B: 'bad signature',
+    U: 'good signature, unknown validity',
+    X: 'good signature, expired',
+    Y: 'good signature, expired key',
+    R: 'good signature, revoked key',
+    E: 'signature cannot be checked'
+}
+
+function CommitSignatureBadge({ signature }: { signature: NonNullable<GitCommit['signature']> }) {
+    const signer = signature.signer ? ` by ${signature.signer}` : ''
+    if (signature.status === 'verified') {
+        return (
+            <span className="flex items-center gap-1 text-emerald-300/80" title={`Verified signature${signer}`}>
+                <ShieldCheck size={10} /> Verified
+            </span>
+        )
+    }
+    if (signature.status === 'unverified') {
+        const reason = UNVERIFIED_SIGNATURE_REASONS[signature.code] || 'signature not verified'
+        return (
+            <span className="flex items-center gap-1 text-amber-300/80" title={`Unverified: ${reason}${signer}`}>
+                <ShieldAlert size={10} /> Unverified
+            </span>
+        )
+    }
+    return (
+        <span className="flex items-center gap-1 text-white/25" title="Not signed">
+            <ShieldOff size={10} /> Unsigned
+        </span>
+    )
+}
+
 export function GitGraph({
     commits,
     laneSourceCommits,
     onCommitClick,
     localOnlyCommitHashes,
     hasRemote,
-    remoteHeadCommitHash
+    remoteHeadCommitHash,
+    getCommitActions
 }: {
     commits: GitCommit[]
     laneSourceCommits?: GitCommit[]
@@ -30,6 +66,7 @@ export function GitGraph({
     localOnlyCommitHashes?: Set<string>
     hasRemote?: boolean | null
     remoteHeadCommitHash?: string | null
+    getCommitActions?: (commit: GitCommit) => FileActionsMenuItem[]
 }) {
     const graphSource = laneSourceCommits && laneSourceCommits.length > 0 ? laneSourceCommits : commits
     const commitIndexByHash = useMemo(() => {
@@ -230,15 +267,23 @@ export function GitGraph({
                                         <span className="flex items-center gap-1">
                                             <Calendar size={10} /> {new Date(commit.date).toLocaleDateString()}
                                         </span>
+                                        {commit.signature && <CommitSignatureBadge signature={commit.signature} />}
                                     </div>
                                 </div>
-                                <div className="shrink-0">
+                                <div className="flex shrink-0 items-center gap-2">
                                     <DiffStats
                                         additions={commit.additions}
                                         deletions={commit.deletions}
                                         compact
                                         loading={commit.statsLoaded === false}
                                     />
+                                    {getCommitActions && (
+                                        <FileActionsMenu
+                                            items={getCommitActions(commit)}
+                                            title="Commit actions"
+                                            buttonClassName="opacity-0 group-hover:opacity-100"
+                                        />
+                                    )}
                                 </div>
                             </div>
                         </div>
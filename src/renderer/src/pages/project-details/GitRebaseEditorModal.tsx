@@ -0,0 +1,308 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { AlertTriangle, ArrowDown, ArrowUp, GitBranch, RefreshCw, X } from 'lucide-react'
+import type {
+    DevScopeGitRebaseAction,
+    DevScopeGitRebaseCommit,
+    DevScopeGitRebasePlan,
+    DevScopeGitRebaseProgressEvent
+} from '@shared/contracts/devscope-api'
+import { cn } from '@/lib/utils'
+import type { GitCommit } from './types'
+
+type RebaseRow = {
+    commit: DevScopeGitRebaseCommit
+    action: DevScopeGitRebaseAction
+    message: string
+}
+
+const ACTIONS: Array<{ id: DevScopeGitRebaseAction; label: string; hint: string }> = [
+    { id: 'pick', label: 'Pick', hint: 'Keep the commit as is' },
+    { id: 'reword', label: 'Reword', hint: 'Keep the changes, edit the message' },
+    { id: 'squash', label: 'Squash', hint: 'Fold into the commit above and combine messages' },
+    { id: 'fixup', label: 'Fixup', hint: 'Fold into the commit above and keep its message' },
+    { id: 'drop', label: 'Drop', hint: 'Remove the commit' }
+]
+
+const ACTION_TONES: Record<DevScopeGitRebaseAction, string> = {
+    pick: 'bg-white/10 text-white',
+    reword: 'bg-sky-500/20 text-sky-100',
+    squash: 'bg-violet-500/20 text-violet-100',
+    fixup: 'bg-violet-500/20 text-violet-100',
+    drop: 'bg-red-500/20 text-red-100'
+}
+
+interface GitRebaseEditorModalProps {
+    projectPath: string
+    /** Oldest commit to rewrite; everything after it up to HEAD is included. */
+    fromCommit: GitCommit | null
+    localOnlyCommitHashes?: Set<string>
+    onClose: () => void
+    /** Called after the rebase ends, successfully or not, so git data can be refreshed. */
+    onFinished: (result: { success: boolean; error?: string }) => void
+}
+
+function getValidationError(rows: RebaseRow[]): string | null {
+    const firstKept = rows.find((row) => row.action !== 'drop')
+    if (firstKept && (firstKept.action === 'squash' || firstKept.action === 'fixup')) {
+        return `The first kept commit cannot be a ${firstKept.action}.`
+    }
+    const emptyReword = rows.find((row) => row.action === 'reword' && !row.message.trim())
+    if (emptyReword) return `Enter a message for ${emptyReword.commit.shortHash}.`
+    return null
+}
+
+export function GitRebaseEditorModal({ projectPath, fromCommit, localOnlyCommitHashes, onClose, onFinished }: GitRebaseEditorModalProps) {
+    const [plan, setPlan] = useState<DevScopeGitRebasePlan | null>(null)
+    const [rows, setRows] = useState<RebaseRow[]>([])
+    const [loadError, setLoadError] = useState('')
+    const [running, setRunning] = useState(false)
+    const [progress, setProgress] = useState<DevScopeGitRebaseProgressEvent | null>(null)
+    const [runError, setRunError] = useState('')
+    const rebaseIdRef = useRef('')
+
+    useEffect(() => {
+        if (!fromCommit) return
+        let cancelled = false
+        setPlan(null)
+        setRows([])
+        setLoadError('')
+        setRunError('')
+        setProgress(null)
+
+        void window.devscope.getRebasePlan(projectPath, fromCommit.hash).then((result) => {
+            if (cancelled) return
+            if (!result?.success) {
+                setLoadError(result?.error || 'Failed to load commits for rebase.')
+                return
+            }
+            setPlan(result.plan)
+            setRows(result.plan.commits.map((commit) => ({ commit, action: 'pick', message: commit.message })))
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [projectPath, fromCommit])
+
+    useEffect(() => {
+        return window.devscope.onGitRebaseProgress((event) => {
+            if (event.rebaseId === rebaseIdRef.current) setProgress(event)
+        })
+    }, [])
+
+    const isUnchanged = useMemo(() => (
+        plan !== null
+        && rows.every((row, index) => row.action === 'pick' && row.commit.hash === plan.commits[index]?.hash)
+    ), [plan, rows])
+    const validationError = getValidationError(rows)
+    const rewritesPushedCommits = Boolean(localOnlyCommitHashes) && rows.some((row) => !localOnlyCommitHashes?.has(row.commit.hash))
+
+    if (!fromCommit || typeof document === 'undefined') return null
+
+    const updateRow = (index: number, patch: Partial<RebaseRow>) => {
+        setRows((current) => current.map((row, rowIndex) => (rowIndex === index ? { ...row, ...patch } : row)))
+    }
+
+    const selectAction = (index: number, action: DevScopeGitRebaseAction) => {
+        const row = rows[index]
+        if (!row) return
+        // Squash defaults to git's joined message; reword starts from the current one.
+        const message = action === 'squash' && row.message === row.commit.message
+            ? ''
+            : action === 'reword' && !row.message.trim() ? row.commit.message : row.message
+        updateRow(index, { action, message })
+    }
+
+    const moveRow = (index: number, offset: -1 | 1) => {
+        setRows((current) => {
+            const target = index + offset
+            if (target < 0 || target >= current.length) return current
+            const next = [...current]
+            ;[next[index], next[target]] = [next[target], next[index]]
+            return next
+        })
+    }
+
+    const handleStart = async () => {
+        if (!plan || running || validationError) return
+        const rebaseId = `rebase-${Date.now()}`
+        rebaseIdRef.current = rebaseId
+        setRunning(true)
+        setRunError('')
+        setProgress({ rebaseId, status: 'running', message: 'Starting rebase', percent: 1 })
+
+        const result = await window.devscope.runInteractiveRebase({
+            rebaseId,
+            projectPath,
+            baseHash: plan.baseHash,
+            steps: rows.map((row) => ({
+                hash: row.commit.hash,
+                action: row.action,
+                message: row.action === 'reword' || row.action === 'squash' ? row.message : undefined
+            }))
+        })
+        setRunning(false)
+
+        if (result?.success) {
+            onFinished({ success: true })
+            onClose()
+            return
+        }
+        const error = result?.error || 'Failed to rebase.'
+        setRunError(error)
+        onFinished({ success: false, error })
+    }
+
+    const percent = Math.max(0, Math.min(100, progress?.percent ?? 0))
+
+    return createPortal(
+        <div
+            className="fixed inset-0 z-[140] flex animate-fadeIn items-center justify-center bg-black/60 backdrop-blur-md"
+            onClick={running ? undefined : onClose}
+        >
+            <div
+                className="m-4 flex max-h-[92vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl border border-white/10 bg-sparkle-card shadow-2xl"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="flex items-start justify-between gap-4 border-b border-white/10 bg-white/[0.02] px-6 py-5">
+                    <div className="min-w-0">
+                        <p className="text-[11px] uppercase tracking-[0.2em] text-white/35">Interactive Rebase</p>
+                        <h3 className="mt-1 truncate text-lg font-semibold text-white">Rewrite from {fromCommit.shortHash}</h3>
+                        <p className="mt-2 text-sm text-white/60">
+                            Oldest commit first. Commits are replayed top to bottom onto {plan?.baseHash ? plan.baseHash.slice(0, 7) : 'the root'}.
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        disabled={running}
+                        className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-lg border border-white/10 bg-white/[0.03] text-white/50 transition-all hover:border-white/20 hover:bg-white/10 hover:text-white disabled:opacity-40"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div className="project-surface-scrollbar flex-1 space-y-2 overflow-y-auto px-6 py-5">
+                    {loadError ? (
+                        <p className="text-sm text-red-300">{loadError}</p>
+                    ) : !plan ? (
+                        <div className="flex items-center justify-center py-12 text-white/40">
+                            <RefreshCw size={16} className="mr-2 animate-spin" />
+                            <span className="text-sm">Loading commits...</span>
+                        </div>
+                    ) : (
+                        <>
+                            {rewritesPushedCommits && (
+                                <div className="flex gap-2 rounded-lg border border-amber-500/25 bg-amber-500/10 p-3 text-xs text-amber-200">
+                                    <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                                    <span>Some of these commits are already on the remote. Rewriting them will require a force push.</span>
+                                </div>
+                            )}
+                            {rows.map((row, index) => (
+                                <div
+                                    key={row.commit.hash}
+                                    className={cn(
+                                        'rounded-xl border border-white/10 bg-white/[0.03] p-3',
+                                        row.action === 'drop' && 'opacity-50'
+                                    )}
+                                >
+                                    <div className="flex items-center gap-3">
+                                        <div className="flex flex-col">
+                                            <button
+                                                type="button"
+                                                onClick={() => moveRow(index, -1)}
+                                                disabled={running || index === 0}
+                                                className="text-white/40 transition-colors hover:text-white disabled:opacity-20"
+                                                title="Move up"
+                                            >
+                                                <ArrowUp size={13} />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => moveRow(index, 1)}
+                                                disabled={running || index === rows.length - 1}
+                                                className="text-white/40 transition-colors hover:text-white disabled:opacity-20"
+                                                title="Move down"
+                                            >
+                                                <ArrowDown size={13} />
+                                            </button>
+                                        </div>
+                                        <div className="min-w-0 flex-1">
+                                            <p className={cn('truncate text-sm text-white', row.action === 'drop' && 'line-through')}>{row.commit.subject}</p>
+                                            <p className="text-xs text-white/40">
+                                                <span className="font-mono">{row.commit.shortHash}</span> · {row.commit.author}
+                                            </p>
+                                        </div>
+                                        <div className="flex shrink-0 items-center gap-0.5 rounded-lg border border-white/10 bg-black/20 p-0.5">
+                                            {ACTIONS.map((action) => (
+                                                <button
+                                                    key={action.id}
+                                                    type="button"
+                                                    title={action.hint}
+                                                    disabled={running}
+                                                    onClick={() => selectAction(index, action.id)}
+                                                    className={cn(
+                                                        'rounded-md px-2 py-1 text-[11px] transition-all',
+                                                        row.action === action.id ? ACTION_TONES[action.id] : 'text-white/45 hover:bg-white/[0.06] hover:text-white'
+                                                    )}
+                                                >
+                                                    {action.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    {(row.action === 'reword' || row.action === 'squash') && (
+                                        <textarea
+                                            value={row.message}
+                                            disabled={running}
+                                            onChange={(event) => updateRow(index, { message: event.target.value })}
+                                            placeholder={row.action === 'squash' ? 'Message for the combined commit (leave empty to join both messages)' : 'New commit message'}
+                                            rows={3}
+                                            className="mt-3 w-full resize-none rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:border-[var(--accent-primary)]/50 focus:outline-none"
+                                        />
+                                    )}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+
+                {(progress || runError) && (
+                    <div className="border-t border-white/10 px-6 py-3">
+                        <p className={cn('text-xs', runError ? 'text-red-300' : 'text-white/60')}>{runError || progress?.message}</p>
+                        {!runError && (
+                            <div className="mt-2 h-1 overflow-hidden rounded-full bg-white/10">
+                                <div className="h-full rounded-full bg-sky-300 transition-[width] duration-300" style={{ width: `${percent}%` }} />
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex items-center justify-between gap-3 border-t border-white/10 bg-white/[0.02] px-6 py-4">
+                    <p className="text-xs text-white/40">{validationError || (isUnchanged ? 'No changes to the history yet.' : 'Local changes are stashed and restored automatically.')}</p>
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={running}
+                            className="rounded-lg border border-white/10 px-3.5 py-2 text-sm text-white/65 transition-all hover:border-white/20 hover:bg-white/[0.04] hover:text-white disabled:opacity-40"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => { void handleStart() }}
+                            disabled={!plan || running || isUnchanged || Boolean(validationError)}
+                            className="inline-flex items-center gap-2 rounded-lg border border-sky-400/25 bg-sky-400/12 px-4 py-2 text-sm font-medium text-sky-100 transition-all hover:bg-sky-400/20 disabled:cursor-not-allowed disabled:opacity-40"
+                        >
+                            {running ? <RefreshCw size={14} className="animate-spin" /> : <GitBranch size={14} />}
+                            {running ? 'Rebasing...' : 'Start Rebase'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>,
+        document.body
+    )
+}
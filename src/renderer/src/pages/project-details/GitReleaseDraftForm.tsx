@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react'
+import { FileText, RefreshCw, Tag } from 'lucide-react'
+import type { DevScopeGitReleaseDraft } from '@shared/contracts/devscope-api'
+import { Input } from '@/components/ui/FormControls'
+
+interface GitReleaseDraftFormProps {
+    projectPath: string
+    busy: boolean
+    onWriteChangelog: (section: string) => Promise<void>
+    onCreateTag: (tagName: string, message: string) => Promise<void>
+}
+
+const SEMVER_TAG_PATTERN = /^(v?)(\d+)\.(\d+)\.(\d+)$/
+
+/** Next semantic version after `previousTag`: major for breaking changes, minor for features, patch otherwise. */
+function suggestNextVersion(draft: DevScopeGitReleaseDraft): string {
+    const match = SEMVER_TAG_PATTERN.exec(draft.previousTag || '')
+    if (!match) return '0.1.0'
+    const [major, minor, patch] = [Number(match[2]), Number(match[3]), Number(match[4])]
+    const groupKeys = new Set(draft.groups.map((group) => group.key))
+    if (groupKeys.has('breaking')) return major === 0 ? `0.${minor + 1}.0` : `${major + 1}.0.0`
+    if (groupKeys.has('feat')) return `${major}.${minor + 1}.0`
+    return `${major}.${minor}.${patch + 1}`
+}
+
+function toTagName(version: string, previousTag: string | null): string {
+    const usesPrefix = previousTag ? SEMVER_TAG_PATTERN.exec(previousTag)?.[1] === 'v' : true
+    return usesPrefix && !version.startsWith('v') ? `v${version}` : version
+}
+
+export function GitReleaseDraftForm({ projectPath, busy, onWriteChangelog, onCreateTag }: GitReleaseDraftFormProps) {
+    const [draft, setDraft] = useState<DevScopeGitReleaseDraft | null>(null)
+    const [version, setVersion] = useState('')
+    const [markdown, setMarkdown] = useState('')
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const loadDraft = async (nextVersion?: string) => {
+        setLoading(true)
+        setError(null)
+        try {
+            let result = await window.devscope.draftRelease(projectPath, { version: nextVersion })
+            if (!result?.success) throw new Error(result?.error || 'Failed to draft release')
+            // The first draft only tells us which changes are in; redraft with the suggested version heading.
+            if (!nextVersion) {
+                const suggested = suggestNextVersion(result.draft)
+                setVersion(suggested)
+                result = await window.devscope.draftRelease(projectPath, { version: suggested })
+                if (!result?.success) throw new Error(result?.error || 'Failed to draft release')
+            }
+            setDraft(result.draft)
+            setMarkdown(result.draft.markdown)
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        if (!projectPath) return
+        void loadDraft()
+    }, [projectPath])
+
+    const tagName = version.trim() ? toTagName(version.trim(), draft?.previousTag ?? null) : ''
+    const tagMessage = () => [`Release ${version.trim()}`, markdown.split('\n').slice(1).join('\n').trim()].filter(Boolean).join('\n\n')
+    const disabled = busy || loading || !markdown.trim()
+
+    return (
+        <div className="mb-3 space-y-2 rounded-lg border border-white/5 bg-white/[0.03] p-3">
+            <div className="flex items-center gap-2">
+                <Input value={version} onChange={setVersion} placeholder="1.2.0" size="sm" className="max-w-[160px]" />
+                <button
+                    type="button"
+                    onClick={() => { void loadDraft(version.trim() || undefined) }}
+                    disabled={busy || loading}
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs font-medium text-white/70 transition-all hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                    <RefreshCw size={12} className={loading ? 'animate-spin' : undefined} />
+                    Regenerate
+                </button>
+                {draft && (
+                    <span className="truncate text-xs text-white/40">
+                        {draft.commitCount} commit{draft.commitCount === 1 ? '' : 's'} since {draft.previousTag || 'the first commit'}
+                    </span>
+                )}
+            </div>
+
+            {error && <p className="text-xs text-red-300">{error}</p>}
+
+            <textarea
+                value={markdown}
+                onChange={(event) => setMarkdown(event.target.value)}
+                disabled={loading}
+                rows={10}
+                spellCheck={false}
+                className="w-full resize-y rounded-lg border border-white/10 bg-white/5 px-3 py-2 font-mono text-xs text-white placeholder:text-white/30 focus:border-[var(--accent-primary)]/50 focus:outline-none"
+            />
+
+            <div className="flex flex-wrap items-center justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={() => { void onWriteChangelog(markdown) }}
+                    disabled={disabled}
+                    title="Insert this section at the top of CHANGELOG.md in the repository root"
+                    className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs font-medium text-white/70 transition-all hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                    <FileText size={12} />
+                    Write to CHANGELOG.md
+                </button>
+                <button
+                    type="button"
+                    onClick={() => { void onCreateTag(tagName, tagMessage()) }}
+                    disabled={disabled || !tagName}
+                    title="Create an annotated tag on HEAD with these notes as its message"
+                    className="inline-flex items-center gap-1.5 rounded-lg bg-[var(--accent-primary)]/16 px-3 py-1.5 text-xs font-medium text-white transition-all hover:bg-[var(--accent-primary)]/24 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                    <Tag size={12} />
+                    {tagName ? `Create Tag ${tagName}` : 'Create Tag'}
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react'
+import { KeyRound, RefreshCw, RotateCcw, Save } from 'lucide-react'
+import type { DevScopeGitSigningConfig, DevScopeGitSigningConfigUpdate, DevScopeGitSigningFormat } from '@shared/contracts/devscope-api'
+import { Checkbox, Input, Select } from '@/components/ui/FormControls'
+
+interface GitSigningPanelProps {
+    projectPath: string
+    showToast: (message: string, actionLabel?: string, actionTo?: string, tone?: 'success' | 'error' | 'info') => void
+}
+
+type SigningDraft = {
+    format: DevScopeGitSigningFormat
+    signingKey: string
+    signCommits: boolean
+    signTags: boolean
+    allowedSignersFile: string
+}
+
+const FORMAT_OPTIONS: { value: DevScopeGitSigningFormat; label: string }[] = [
+    { value: 'openpgp', label: 'GPG (OpenPGP)' },
+    { value: 'ssh', label: 'SSH key' },
+    { value: 'x509', label: 'X.509 (gpgsm)' }
+]
+
+function toDraft(config: DevScopeGitSigningConfig): SigningDraft {
+    return {
+        format: config.format,
+        signingKey: config.signingKey || '',
+        signCommits: config.signCommits,
+        signTags: config.signTags,
+        allowedSignersFile: config.allowedSignersFile || ''
+    }
+}
+
+// Only changed fields are written so untouched settings keep inheriting from global config.
+function buildUpdate(config: DevScopeGitSigningConfig, draft: SigningDraft): DevScopeGitSigningConfigUpdate {
+    const saved = toDraft(config)
+    const update: DevScopeGitSigningConfigUpdate = {}
+    if (draft.format !== saved.format) update.format = draft.format
+    if (draft.signingKey.trim() !== saved.signingKey) update.signingKey = draft.signingKey.trim() || null
+    if (draft.signCommits !== saved.signCommits) update.signCommits = draft.signCommits
+    if (draft.signTags !== saved.signTags) update.signTags = draft.signTags
+    if (draft.allowedSignersFile.trim() !== saved.allowedSignersFile) update.allowedSignersFile = draft.allowedSignersFile.trim() || null
+    return update
+}
+
+export function GitSigningPanel({ projectPath, showToast }: GitSigningPanelProps) {
+    const [config, setConfig] = useState<DevScopeGitSigningConfig | null>(null)
+    const [draft, setDraft] = useState<SigningDraft | null>(null)
+    const [isSaving, setIsSaving] = useState(false)
+
+    const applyConfig = (nextConfig: DevScopeGitSigningConfig) => {
+        setConfig(nextConfig)
+        setDraft(toDraft(nextConfig))
+    }
+
+    useEffect(() => {
+        if (!projectPath) return
+        let cancelled = false
+        void window.devscope.getGitSigningConfig(projectPath).then((result) => {
+            if (cancelled) return
+            if (result?.success) applyConfig(result.config)
+            else setConfig(null)
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [projectPath])
+
+    const save = async (update: DevScopeGitSigningConfigUpdate, successMessage: string) => {
+        setIsSaving(true)
+        try {
+            const result = await window.devscope.setGitSigningConfig(projectPath, update)
+            if (!result?.success) throw new Error(result?.error || 'Failed to update signing settings')
+            applyConfig(result.config)
+            showToast(successMessage, undefined, undefined, 'success')
+        } catch (err: any) {
+            showToast(`Failed to update signing settings: ${err.message}`, undefined, undefined, 'error')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    if (!config || !draft) return null
+
+    const update = buildUpdate(config, draft)
+    const hasChanges = Object.keys(update).length > 0
+    const isSigning = config.signCommits || config.signTags
+    const updateDraft = (patch: Partial<SigningDraft>) => setDraft((current) => (current ? { ...current, ...patch } : current))
+
+    const resetToGlobal: DevScopeGitSigningConfigUpdate = {
+        format: null,
+        signingKey: null,
+        signCommits: null,
+        signTags: null,
+        allowedSignersFile: null
+    }
+
+    return (
+        <div className="bg-black/20 rounded-xl border border-white/5 p-4">
+            <div className="flex items-center justify-between gap-3 mb-3">
+                <h3 className="text-sm font-medium text-white/80 flex items-center gap-2">
+                    <KeyRound size={16} />
+                    Commit Signing
+                    <span className={isSigning ? 'text-xs bg-emerald-500/15 text-emerald-300 px-2 py-0.5 rounded-full' : 'text-xs bg-white/10 text-white/50 px-2 py-0.5 rounded-full'}>
+                        {isSigning ? 'on' : 'off'}
+                    </span>
+                </h3>
+                {config.localKeys.length > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => { void save(resetToGlobal, 'Signing settings now follow your global git config.') }}
+                        disabled={isSaving}
+                        title={`Remove ${config.localKeys.join(', ')} from this repository's config`}
+                        className="inline-flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs text-white/50 transition-colors hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                        <RotateCcw size={12} />
+                        Use global settings
+                    </button>
+                )}
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-[180px_1fr]">
+                <Select
+                    value={draft.format}
+                    onChange={(value) => updateDraft({ format: value as DevScopeGitSigningFormat })}
+                    options={FORMAT_OPTIONS}
+                    disabled={isSaving}
+                    size="sm"
+                />
+                <Input
+                    value={draft.signingKey}
+                    onChange={(value) => updateDraft({ signingKey: value })}
+                    placeholder={draft.format === 'ssh' ? 'Path to public key, e.g. ~/.ssh/id_ed25519.pub' : 'Key ID (defaults to your committer email)'}
+                    disabled={isSaving}
+                    size="sm"
+                />
+            </div>
+
+            {draft.format === 'ssh' && (
+                <div className="mt-3">
+                    <Input
+                        value={draft.allowedSignersFile}
+                        onChange={(value) => updateDraft({ allowedSignersFile: value })}
+                        placeholder="Allowed signers file, needed to verify SSH signatures"
+                        disabled={isSaving}
+                        size="sm"
+                    />
+                </div>
+            )}
+
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-4">
+                    <Checkbox
+                        checked={draft.signCommits}
+                        onChange={(checked) => updateDraft({ signCommits: checked })}
+                        label="Sign commits"
+                        disabled={isSaving}
+                        size="sm"
+                    />
+                    <Checkbox
+                        checked={draft.signTags}
+                        onChange={(checked) => updateDraft({ signTags: checked })}
+                        label="Sign tags"
+                        disabled={isSaving}
+                        size="sm"
+                    />
+                </div>
+                <button
+                    type="button"
+                    onClick={() => { void save(update, 'Signing settings saved to this repository.') }}
+                    disabled={!hasChanges || isSaving}
+                    className="inline-flex items-center gap-1.5 rounded-lg bg-[var(--accent-primary)]/16 px-3 py-1.5 text-xs font-medium text-white transition-all hover:bg-[var(--accent-primary)]/24 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                    {isSaving ? <RefreshCw size={12} className="animate-spin" /> : <Save size={12} />}
+                    Save
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { AlertTriangle, CloudDownload, ExternalLink, GitCommitHorizontal, Link2, Package, RefreshCw } from 'lucide-react'
+import type { DevScopeGitSubmoduleSummary, DevScopeGitUpdateSubmodulesInput } from '@shared/contracts/devscope-api'
+import { invalidateProjectGitOverview } from '@/lib/projectGitOverview'
+import { cn } from '@/lib/utils'
+
+interface GitSubmodulesPanelProps {
+    projectPath: string
+    /** Changes whenever the working tree status is refreshed, so the panel re-reads submodule state. */
+    statusToken: string
+    showToast: (message: string, actionLabel?: string, actionTo?: string, tone?: 'success' | 'error' | 'info') => void
+    refreshGitData: (force?: boolean, options?: any) => Promise<void>
+}
+
+function joinRepoPath(repoRoot: string, relativePath: string): string {
+    const separator = repoRoot.includes('\\') ? '\\' : '/'
+    return `${repoRoot.replace(/[\\/]+$/, '')}${separator}${relativePath.split('/').join(separator)}`
+}
+
+function getSubmoduleStateBadge(submodule: DevScopeGitSubmoduleSummary) {
+    if (submodule.hasConflicts) return { label: 'conflict', className: 'bg-orange-500/20 text-orange-300' }
+    if (!submodule.initialized) return { label: 'not initialized', className: 'bg-white/10 text-white/50' }
+    if (submodule.commitChanged) return { label: 'new commits', className: 'bg-blue-500/20 text-blue-300' }
+    if (submodule.hasTrackedChanges || submodule.hasUntrackedChanges) return { label: 'dirty', className: 'bg-[#E2C08D]/20 text-[#E2C08D]' }
+    return { label: 'in sync', className: 'bg-[#73C991]/15 text-[#73C991]' }
+}
+
+export function GitSubmodulesPanel({ projectPath, statusToken, showToast, refreshGitData }: GitSubmodulesPanelProps) {
+    const navigate = useNavigate()
+    const [submodules, setSubmodules] = useState<DevScopeGitSubmoduleSummary[]>([])
+    const [repoRoot, setRepoRoot] = useState('')
+    const [superprojectRoot, setSuperprojectRoot] = useState<string | null>(null)
+    const [busyAction, setBusyAction] = useState<string | null>(null)
+
+    const loadSubmodules = async () => {
+        const result = await window.devscope.listSubmodules(projectPath)
+        if (!result?.success) {
+            setSubmodules([])
+            setSuperprojectRoot(null)
+            return
+        }
+        setSubmodules(result.submodules)
+        setRepoRoot(result.repoRoot)
+        setSuperprojectRoot(result.superprojectRoot)
+    }
+
+    useEffect(() => {
+        if (!projectPath) return
+        void loadSubmodules()
+    }, [projectPath, statusToken])
+
+    const runAction = async (actionKey: string, label: string, action: () => Promise<{ success: boolean; error?: string } | undefined>) => {
+        setBusyAction(actionKey)
+        try {
+            const result = await action()
+            if (!result?.success) throw new Error(result?.error || `Failed to ${label}`)
+            showToast(`Submodules: ${label} finished.`, undefined, undefined, 'success')
+            invalidateProjectGitOverview(projectPath)
+            await loadSubmodules()
+            void refreshGitData(false, { quiet: true, mode: 'full' }).catch(() => undefined)
+        } catch (err: any) {
+            showToast(`Failed to ${label}: ${err.message}`, undefined, undefined, 'error')
+        } finally {
+            setBusyAction(null)
+        }
+    }
+
+    const update = (actionKey: string, label: string, input: DevScopeGitUpdateSubmodulesInput) =>
+        runAction(actionKey, label, () => window.devscope.updateSubmodules(projectPath, input))
+
+    if (submodules.length === 0 && !superprojectRoot) return null
+
+    const uninitializedCount = submodules.filter((submodule) => !submodule.initialized).length
+    const buttonClass = 'inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs font-medium text-white/70 transition-all hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40'
+    const iconButtonClass = 'rounded-md p-1.5 text-white/50 transition-colors hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40'
+
+    return (
+        <div className="bg-black/20 rounded-xl border border-white/5 p-4">
+            <div className="flex items-center justify-between gap-3 mb-3">
+                <h3 className="text-sm font-medium text-white/80 flex items-center gap-2">
+                    <Package size={16} />
+                    Submodules
+                    {submodules.length > 0 && (
+                        <span className="text-xs bg-white/10 text-white/60 px-2 py-0.5 rounded-full">{submodules.length}</span>
+                    )}
+                </h3>
+                {submodules.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            onClick={() => { void runAction('sync', 'sync URLs', () => window.devscope.syncSubmodules(projectPath, undefined, true)) }}
+                            disabled={Boolean(busyAction)}
+                            title="Copy submodule URLs from .gitmodules into the local config"
+                            className={buttonClass}
+                        >
+                            {busyAction === 'sync' ? <RefreshCw size={12} className="animate-spin" /> : <Link2 size={12} />}
+                            Sync URLs
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => { void update('update-all', 'update all', { init: true, recursive: true }) }}
+                            disabled={Boolean(busyAction)}
+                            title="Initialize missing submodules and check out every pinned commit"
+                            className="inline-flex items-center gap-1.5 rounded-lg bg-[var(--accent-primary)]/16 px-3 py-1.5 text-xs font-medium text-white transition-all hover:bg-[var(--accent-primary)]/24 disabled:cursor-not-allowed disabled:opacity-40"
+                        >
+                            <RefreshCw size={12} className={cn(busyAction === 'update-all' && 'animate-spin')} />
+                            {uninitializedCount > 0 ? 'Init & Update All' : 'Update All'}
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {superprojectRoot && (
+                <div className="mb-3 flex items-center justify-between gap-3 rounded-lg border border-sky-500/20 bg-sky-500/[0.06] px-3 py-2 text-xs text-sky-100/80">
+                    <span className="truncate" title={superprojectRoot}>This repository is a submodule of {superprojectRoot}</span>
+                    <button
+                        type="button"
+                        onClick={() => navigate(`/projects/${encodeURIComponent(superprojectRoot)}`)}
+                        className="shrink-0 text-sky-200 hover:underline"
+                    >
+                        Open parent
+                    </button>
+                </div>
+            )}
+
+            <div className="space-y-1.5">
+                {submodules.map((submodule) => {
+                    const badge = getSubmoduleStateBadge(submodule)
+                    const pinnedShort = submodule.pinnedCommit?.slice(0, 7) || 'none'
+                    const checkedOutShort = submodule.checkedOutCommit?.slice(0, 7) || null
+                    return (
+                        <div key={submodule.path} className="flex items-center justify-between gap-3 rounded-lg border border-white/5 bg-black/20 px-3 py-2">
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="truncate font-mono text-xs text-white/80" title={submodule.name}>{submodule.path}</span>
+                                    <span className={cn('shrink-0 rounded px-1.5 py-px text-[10px]', badge.className)}>{badge.label}</span>
+                                    {submodule.initialized && (submodule.hasTrackedChanges || submodule.hasUntrackedChanges) && submodule.commitChanged && (
+                                        <AlertTriangle size={11} className="shrink-0 text-[#E2C08D]" aria-label="Also has local changes" />
+                                    )}
+                                </div>
+                                <div className="mt-0.5 flex items-center gap-2 text-[11px] text-white/40">
+                                    <GitCommitHorizontal size={11} className="shrink-0" />
+                                    <span className="font-mono">
+                                        pinned {pinnedShort}
+                                        {checkedOutShort && checkedOutShort !== pinnedShort ? ` · checked out ${checkedOutShort}` : ''}
+                                    </span>
+                                    <span className="truncate" title={submodule.url}>{submodule.url}</span>
+                                </div>
+                            </div>
+                            <div className="flex shrink-0 items-center gap-1">
+                                {!submodule.initialized ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => { void update(`init:${submodule.path}`, `initialize ${submodule.path}`, { paths: [submodule.path], init: true }) }}
+                                        disabled={Boolean(busyAction)}
+                                        className={buttonClass}
+                                    >
+                                        {busyAction === `init:${submodule.path}` ? <RefreshCw size={12} className="animate-spin" /> : <CloudDownload size={12} />}
+                                        Initialize
+                                    </button>
+                                ) : (
+                                    <>
+                                        {submodule.commitChanged && (
+                                            <button
+                                                type="button"
+                                                onClick={() => { void update(`pinned:${submodule.path}`, `check out the pinned commit of ${submodule.path}`, { paths: [submodule.path] }) }}
+                                                disabled={Boolean(busyAction)}
+                                                title={`Check out ${pinnedShort}, the commit this repository pins`}
+                                                className={buttonClass}
+                                            >
+                                                {busyAction === `pinned:${submodule.path}` ? <RefreshCw size={12} className="animate-spin" /> : <GitCommitHorizontal size={12} />}
+                                                Use Pinned
+                                            </button>
+                                        )}
+                                        <button
+                                            type="button"
+                                            onClick={() => { void update(`remote:${submodule.path}`, `pull the latest ${submodule.path}`, { paths: [submodule.path], remote: true }) }}
+                                            disabled={Boolean(busyAction)}
+                                            title="Move to the latest commit of the tracked remote branch; commit the new pin afterwards"
+                                            className={iconButtonClass}
+                                        >
+                                            {busyAction === `remote:${submodule.path}` ? <RefreshCw size={13} className="animate-spin" /> : <CloudDownload size={13} />}
+                                        </button>
+                                        {repoRoot && (
+                                            <button
+                                                type="button"
+                                                onClick={() => navigate(`/projects/${encodeURIComponent(joinRepoPath(repoRoot, submodule.path))}`)}
+                                                title="Open in DevScope"
+                                                className={iconButtonClass}
+                                            >
+                                                <ExternalLink size={13} />
+                                            </button>
+                                        )}
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
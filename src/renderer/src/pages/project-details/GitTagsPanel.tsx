@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react'
+import { CloudOff, CloudUpload, Plus, RefreshCw, ScrollText, Tag, Trash2 } from 'lucide-react'
+import type { DevScopeGitTagSummary } from '@shared/contracts/devscope-api'
+import { Input } from '@/components/ui/FormControls'
+import { ConfirmModal } from '@/components/ui/ConfirmModal'
+import { FileActionsMenu } from '@/components/ui/FileActionsMenu'
+import { invalidateProjectGitOverview } from '@/lib/projectGitOverview'
+import { cn } from '@/lib/utils'
+import { GitReleaseDraftForm } from './GitReleaseDraftForm'
+
+interface GitTagsPanelProps {
+    projectPath: string
+    hasRemote: boolean | null
+    showToast: (message: string, actionLabel?: string, actionTo?: string, tone?: 'success' | 'error' | 'info') => void
+    refreshGitData: (force?: boolean, options?: any) => Promise<void>
+}
+
+const COLLAPSED_TAG_LIMIT = 8
+
+type TagDeleteTarget = {
+    tag: DevScopeGitTagSummary
+    scope: 'local' | 'remote'
+}
+
+export function GitTagsPanel({ projectPath, hasRemote, showToast, refreshGitData }: GitTagsPanelProps) {
+    const [tags, setTags] = useState<DevScopeGitTagSummary[]>([])
+    const [loading, setLoading] = useState(false)
+    const [busyAction, setBusyAction] = useState<string | null>(null)
+    const [showAll, setShowAll] = useState(false)
+    const [mode, setMode] = useState<'idle' | 'create' | 'release'>('idle')
+    const [tagName, setTagName] = useState('')
+    const [tagMessage, setTagMessage] = useState('')
+    const [tagTarget, setTagTarget] = useState('')
+    const [deleteTarget, setDeleteTarget] = useState<TagDeleteTarget | null>(null)
+
+    const loadTags = async () => {
+        setLoading(true)
+        try {
+            const result = await window.devscope.listTags(projectPath)
+            setTags(result?.success ? result.tags : [])
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        if (!projectPath) return
+        void loadTags()
+    }, [projectPath])
+
+    const resetCreateForm = () => {
+        setMode('idle')
+        setTagName('')
+        setTagMessage('')
+        setTagTarget('')
+    }
+
+    const runAction = async (actionKey: string, failureLabel: string, action: () => Promise<{ success: boolean; error?: string } | undefined>, successMessage: string) => {
+        setBusyAction(actionKey)
+        try {
+            const result = await action()
+            if (!result?.success) throw new Error(result?.error || `Failed to ${failureLabel}`)
+            showToast(successMessage, undefined, undefined, 'success')
+            invalidateProjectGitOverview(projectPath)
+            await loadTags()
+            void refreshGitData(false, { quiet: true, mode: 'full' }).catch(() => undefined)
+            return true
+        } catch (err: any) {
+            showToast(`Failed to ${failureLabel}: ${err.message}`, undefined, undefined, 'error')
+            return false
+        } finally {
+            setBusyAction(null)
+        }
+    }
+
+    const createTag = async (name: string, message: string, target?: string) => {
+        const created = await runAction(
+            'create',
+            'create tag',
+            () => window.devscope.createTag(projectPath, name, target || undefined, message || undefined),
+            `Tag ${name} created.`
+        )
+        if (created) resetCreateForm()
+    }
+
+    const writeChangelog = async (section: string) => {
+        setBusyAction('changelog')
+        try {
+            const result = await window.devscope.writeChangelogSection(projectPath, section)
+            if (!result?.success) throw new Error(result?.error || 'Failed to write changelog')
+            showToast(
+                result.created ? 'CHANGELOG.md created.' : result.replaced ? 'Release section in CHANGELOG.md replaced.' : 'Release section added to CHANGELOG.md.',
+                undefined,
+                undefined,
+                'success'
+            )
+            invalidateProjectGitOverview(projectPath)
+            void refreshGitData(false, { quiet: true, mode: 'full' }).catch(() => undefined)
+        } catch (err: any) {
+            showToast(`Failed to write changelog: ${err.message}`, undefined, undefined, 'error')
+        } finally {
+            setBusyAction(null)
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!deleteTarget) return
+        const { tag, scope } = deleteTarget
+        setDeleteTarget(null)
+        if (scope === 'remote') {
+            await runAction(`remote-delete:${tag.name}`, 'delete remote tag', () => window.devscope.deleteRemoteTag(projectPath, tag.name), `Tag ${tag.name} deleted from origin.`)
+        } else {
+            await runAction(`delete:${tag.name}`, 'delete tag', () => window.devscope.deleteTag(projectPath, tag.name), `Tag ${tag.name} deleted.`)
+        }
+    }
+
+    const visibleTags = showAll ? tags : tags.slice(0, COLLAPSED_TAG_LIMIT)
+    const buttonClass = 'inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs font-medium text-white/70 transition-all hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40'
+
+    return (
+        <div className="bg-black/20 rounded-xl border border-white/5 p-4">
+            <div className="flex items-center justify-between gap-3 mb-3">
+                <h3 className="text-sm font-medium text-white/80 flex items-center gap-2">
+                    <Tag size={16} />
+                    Tags
+                    {tags.length > 0 && (
+                        <span className="text-xs bg-white/10 text-white/60 px-2 py-0.5 rounded-full">{tags.length}</span>
+                    )}
+                    {loading && <RefreshCw size={12} className="animate-spin text-white/40" />}
+                </h3>
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setMode(mode === 'release' ? 'idle' : 'release')}
+                        disabled={Boolean(busyAction)}
+                        title="Collect commits since the previous tag into a changelog section"
+                        className={buttonClass}
+                    >
+                        <ScrollText size={12} />
+                        {mode === 'release' ? 'Close Draft' : 'Draft Release'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => (mode === 'create' ? resetCreateForm() : setMode('create'))}
+                        disabled={Boolean(busyAction)}
+                        className="inline-flex items-center gap-1.5 rounded-lg bg-[var(--accent-primary)]/16 px-3 py-1.5 text-xs font-medium text-white transition-all hover:bg-[var(--accent-primary)]/24 disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                        <Plus size={12} />
+                        {mode === 'create' ? 'Cancel' : 'New Tag'}
+                    </button>
+                </div>
+            </div>
+
+            {mode === 'create' && (
+                <div className="mb-3 space-y-2 rounded-lg border border-white/5 bg-white/[0.03] p-3">
+                    <div className="grid gap-2 sm:grid-cols-2">
+                        <Input value={tagName} onChange={setTagName} placeholder="v1.2.0" size="sm" />
+                        <Input value={tagTarget} onChange={setTagTarget} placeholder="Commit or branch (defaults to HEAD)" size="sm" />
+                    </div>
+                    <textarea
+                        value={tagMessage}
+                        onChange={(event) => setTagMessage(event.target.value)}
+                        placeholder="Tag message (leave empty for a lightweight tag)"
+                        rows={3}
+                        className="w-full resize-none rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:border-[var(--accent-primary)]/50 focus:outline-none"
+                    />
+                    <div className="flex justify-end">
+                        <button
+                            type="button"
+                            onClick={() => { void createTag(tagName.trim(), tagMessage.trim(), tagTarget.trim()) }}
+                            disabled={!tagName.trim() || Boolean(busyAction)}
+                            className="inline-flex items-center gap-1.5 rounded-lg bg-[var(--accent-primary)]/16 px-3 py-1.5 text-xs font-medium text-white transition-all hover:bg-[var(--accent-primary)]/24 disabled:cursor-not-allowed disabled:opacity-40"
+                        >
+                            {busyAction === 'create' ? <RefreshCw size={12} className="animate-spin" /> : <Tag size={12} />}
+                            {tagMessage.trim() ? 'Create Annotated Tag' : 'Create Tag'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {mode === 'release' && (
+                <GitReleaseDraftForm
+                    projectPath={projectPath}
+                    busy={Boolean(busyAction)}
+                    onWriteChangelog={writeChangelog}
+                    onCreateTag={(name, message) => createTag(name, message)}
+                />
+            )}
+
+            {tags.length === 0 ? (
+                <p className="text-xs text-white/40">No tags yet.</p>
+            ) : (
+                <div className="space-y-1.5">
+                    {visibleTags.map((tag) => (
+                        <div key={tag.name} className="group flex items-center justify-between gap-3 rounded-lg border border-white/5 bg-black/20 px-3 py-2">
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="truncate font-mono text-xs text-white/80">{tag.name}</span>
+                                    <span className={cn(
+                                        'shrink-0 rounded px-1.5 py-px text-[10px]',
+                                        tag.annotated ? 'bg-sky-500/15 text-sky-300' : 'bg-white/10 text-white/50'
+                                    )}>
+                                        {tag.annotated ? 'annotated' : 'lightweight'}
+                                    </span>
+                                </div>
+                                <div className="mt-0.5 flex items-center gap-2 text-[11px] text-white/40">
+                                    {tag.commit && <span className="font-mono">{tag.commit.slice(0, 7)}</span>}
+                                    {tag.date && <span>{new Date(tag.date).toLocaleDateString()}</span>}
+                                    {tag.message && <span className="truncate" title={tag.message}>{tag.message}</span>}
+                                </div>
+                            </div>
+                            <div className="flex shrink-0 items-center gap-1">
+                                {hasRemote && (
+                                    <button
+                                        type="button"
+                                        onClick={() => { void runAction(`push:${tag.name}`, 'push tag', () => window.devscope.pushTag(projectPath, tag.name), `Tag ${tag.name} pushed to origin.`) }}
+                                        disabled={Boolean(busyAction)}
+                                        title="Push to origin"
+                                        className="rounded-md p-1.5 text-white/50 transition-colors hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+                                    >
+                                        {busyAction === `push:${tag.name}` ? <RefreshCw size={13} className="animate-spin" /> : <CloudUpload size={13} />}
+                                    </button>
+                                )}
+                                <FileActionsMenu
+                                    title="Tag actions"
+                                    items={[
+                                        ...(hasRemote
+                                            ? [{
+                                                id: 'delete-remote',
+                                                label: 'Delete from origin',
+                                                icon: <CloudOff size={13} />,
+                                                onSelect: () => setDeleteTarget({ tag, scope: 'remote' }),
+                                                disabled: Boolean(busyAction),
+                                                danger: true
+                                            }]
+                                            : []),
+                                        {
+                                            id: 'delete-local',
+                                            label: 'Delete local tag',
+                                            icon: <Trash2 size={13} />,
+                                            onSelect: () => setDeleteTarget({ tag, scope: 'local' }),
+                                            disabled: Boolean(busyAction),
+                                            danger: true
+                                        }
+                                    ]}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                    {tags.length > COLLAPSED_TAG_LIMIT && (
+                        <button
+                            type="button"
+                            onClick={() => setShowAll((value) => !value)}
+                            className="w-full rounded-lg py-1 text-xs text-white/40 transition-colors hover:bg-white/5 hover:text-white/70"
+                        >
+                            {showAll ? 'Show fewer' : `Show all ${tags.length} tags`}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <ConfirmModal
+                isOpen={Boolean(deleteTarget)}
+                title={deleteTarget?.scope === 'remote' ? 'Delete tag from origin?' : 'Delete tag?'}
+                message={deleteTarget?.scope === 'remote'
+                    ? `${deleteTarget.tag.name} will be removed from origin. Anyone who already fetched it keeps their copy, and the local tag stays.`
+                    : `${deleteTarget?.tag.name || ''} will be deleted locally. A copy already pushed to origin is not affected.`}
+                confirmLabel="Delete"
+                cancelLabel="Cancel"
+                onConfirm={() => { void handleDelete() }}
+                onCancel={() => setDeleteTarget(null)}
+                variant="danger"
+            />
+        </div>
+    )
+}
@@ -0,0 +1,309 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ExternalLink, FolderGit2, FolderOpen, Plus, RefreshCw, Scissors, Trash2 } from 'lucide-react'
+import type { DevScopeGitWorktreeSummary } from '@shared/contracts/devscope-api'
+import { Checkbox, Input, Select } from '@/components/ui/FormControls'
+import { ConfirmModal } from '@/components/ui/ConfirmModal'
+import { getParentFolderPath } from '@/lib/filesystem/fileSystemPaths'
+import { invalidateProjectGitOverview } from '@/lib/projectGitOverview'
+import { cn } from '@/lib/utils'
+
+interface GitWorktreesPanelProps {
+    projectPath: string
+    branches: Array<{ name: string; isLocal?: boolean }>
+    showToast: (message: string, actionLabel?: string, actionTo?: string, tone?: 'success' | 'error' | 'info') => void
+    refreshGitData: (force?: boolean, options?: any) => Promise<void>
+}
+
+/** Suggest a sibling folder such as `../my-app-feature-login` for a new worktree. */
+function suggestWorktreePath(mainPath: string, branch: string): string {
+    const parent = getParentFolderPath(mainPath)
+    const slug = branch.trim().replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '')
+    if (!parent || !slug) return ''
+    const separator = mainPath.includes('\\') ? '\\' : '/'
+    const repoName = mainPath.replace(/[\\/]+$/, '').split(/[\\/]/).pop() || 'worktree'
+    return `${parent.replace(/[\\/]+$/, '')}${separator}${repoName}-${slug}`
+}
+
+export function GitWorktreesPanel({ projectPath, branches, showToast, refreshGitData }: GitWorktreesPanelProps) {
+    const navigate = useNavigate()
+    const [worktrees, setWorktrees] = useState<DevScopeGitWorktreeSummary[]>([])
+    const [loading, setLoading] = useState(false)
+    const [busyAction, setBusyAction] = useState<string | null>(null)
+    const [showAddForm, setShowAddForm] = useState(false)
+    const [createBranch, setCreateBranch] = useState(true)
+    const [branchName, setBranchName] = useState('')
+    const [worktreePath, setWorktreePath] = useState('')
+    const [pathEdited, setPathEdited] = useState(false)
+    const [removeTarget, setRemoveTarget] = useState<DevScopeGitWorktreeSummary | null>(null)
+    const [forceRemove, setForceRemove] = useState(false)
+
+    const loadWorktrees = async () => {
+        setLoading(true)
+        try {
+            const result = await window.devscope.listWorktrees(projectPath)
+            setWorktrees(result?.success ? result.worktrees : [])
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        if (!projectPath) return
+        void loadWorktrees()
+    }, [projectPath])
+
+    const mainWorktree = worktrees.find((worktree) => worktree.isMain)
+    const checkedOutBranches = useMemo(
+        () => new Set(worktrees.map((worktree) => worktree.branch).filter(Boolean)),
+        [worktrees]
+    )
+    // Git refuses to check out a branch that another worktree already has.
+    const availableBranches = useMemo(
+        () => branches.filter((branch) => branch.isLocal !== false && !checkedOutBranches.has(branch.name)),
+        [branches, checkedOutBranches]
+    )
+
+    useEffect(() => {
+        if (pathEdited || !mainWorktree) return
+        setWorktreePath(suggestWorktreePath(mainWorktree.path, branchName))
+    }, [branchName, mainWorktree?.path, pathEdited])
+
+    const resetAddForm = () => {
+        setShowAddForm(false)
+        setBranchName('')
+        setWorktreePath('')
+        setPathEdited(false)
+        setCreateBranch(true)
+    }
+
+    const afterWrite = async () => {
+        invalidateProjectGitOverview(projectPath)
+        await loadWorktrees()
+        void refreshGitData(false, { quiet: true, mode: 'full' }).catch(() => undefined)
+    }
+
+    const handleAdd = async () => {
+        setBusyAction('add')
+        try {
+            const result = await window.devscope.addWorktree(projectPath, {
+                path: worktreePath.trim(),
+                branch: branchName.trim(),
+                createBranch
+            })
+            if (!result?.success) throw new Error(result?.error || 'Failed to add worktree')
+            showToast(`Worktree for ${result.worktree.branch || branchName} created.`, undefined, undefined, 'success')
+            resetAddForm()
+            await afterWrite()
+        } catch (err: any) {
+            showToast(`Failed to add worktree: ${err.message}`, undefined, undefined, 'error')
+        } finally {
+            setBusyAction(null)
+        }
+    }
+
+    const handleRemove = async () => {
+        if (!removeTarget) return
+        const target = removeTarget
+        const force = forceRemove
+        setRemoveTarget(null)
+        setForceRemove(false)
+        setBusyAction(`remove:${target.path}`)
+        try {
+            const result = await window.devscope.removeWorktree(projectPath, target.path, force)
+            if (!result?.success) throw new Error(result?.error || 'Failed to remove worktree')
+            showToast('Worktree removed.', undefined, undefined, 'success')
+            await afterWrite()
+        } catch (err: any) {
+            // A dirty worktree needs an explicit second confirmation before its changes are thrown away.
+            if (!force && /modified or untracked|--force/i.test(err.message || '')) {
+                setForceRemove(true)
+                setRemoveTarget(target)
+                return
+            }
+            showToast(`Failed to remove worktree: ${err.message}`, undefined, undefined, 'error')
+        } finally {
+            setBusyAction(null)
+        }
+    }
+
+    const handlePrune = async () => {
+        setBusyAction('prune')
+        try {
+            const result = await window.devscope.pruneWorktrees(projectPath)
+            if (!result?.success) throw new Error(result?.error || 'Failed to prune worktrees')
+            showToast(
+                result.pruned > 0 ? `Pruned ${result.pruned} stale worktree${result.pruned === 1 ? '' : 's'}.` : 'No stale worktrees to prune.',
+                undefined,
+                undefined,
+                'success'
+            )
+            await afterWrite()
+        } catch (err: any) {
+            showToast(`Failed to prune worktrees: ${err.message}`, undefined, undefined, 'error')
+        } finally {
+            setBusyAction(null)
+        }
+    }
+
+    const prunableCount = worktrees.filter((worktree) => worktree.prunable).length
+    const canAdd = Boolean(branchName.trim() && worktreePath.trim()) && !busyAction
+
+    return (
+        <div className="bg-black/20 rounded-xl border border-white/5 p-4">
+            <div className="flex items-center justify-between gap-3 mb-3">
+                <h3 className="text-sm font-medium text-white/80 flex items-center gap-2">
+                    <FolderGit2 size={16} />
+                    Worktrees
+                    {loading && <RefreshCw size={12} className="animate-spin text-white/40" />}
+                </h3>
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={() => { void handlePrune() }}
+                        disabled={Boolean(busyAction)}
+                        title={prunableCount > 0 ? `${prunableCount} worktree folder${prunableCount === 1 ? ' is' : 's are'} missing` : 'Clean up worktrees whose folders were deleted'}
+                        className={cn(
+                            'inline-flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-medium transition-all disabled:cursor-not-allowed disabled:opacity-40',
+                            prunableCount > 0
+                                ? 'border-amber-500/30 bg-amber-500/10 text-amber-200 hover:bg-amber-500/20'
+                                : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10 hover:text-white'
+                        )}
+                    >
+                        {busyAction === 'prune' ? <RefreshCw size={12} className="animate-spin" /> : <Scissors size={12} />}
+                        Prune
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => (showAddForm ? resetAddForm() : setShowAddForm(true))}
+                        disabled={Boolean(busyAction)}
+                        className="inline-flex items-center gap-1.5 rounded-lg bg-[var(--accent-primary)]/16 px-3 py-1.5 text-xs font-medium text-white transition-all hover:bg-[var(--accent-primary)]/24 disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                        <Plus size={12} />
+                        {showAddForm ? 'Cancel' : 'Add Worktree'}
+                    </button>
+                </div>
+            </div>
+
+            {showAddForm && (
+                <div className="mb-3 space-y-2 rounded-lg border border-white/5 bg-white/[0.03] p-3">
+                    <Checkbox
+                        checked={createBranch}
+                        onChange={(checked) => {
+                            setCreateBranch(checked)
+                            setBranchName('')
+                        }}
+                        label="Create a new branch"
+                        size="sm"
+                    />
+                    {createBranch ? (
+                        <Input value={branchName} onChange={setBranchName} placeholder="feature/my-branch" size="sm" />
+                    ) : (
+                        <Select
+                            value={branchName}
+                            onChange={setBranchName}
+                            options={availableBranches.map((branch) => ({ value: branch.name, label: branch.name }))}
+                            placeholder={availableBranches.length > 0 ? 'Choose a branch' : 'Every local branch is already checked out'}
+                            disabled={availableBranches.length === 0}
+                            size="sm"
+                        />
+                    )}
+                    <Input
+                        value={worktreePath}
+                        onChange={(value) => {
+                            setWorktreePath(value)
+                            setPathEdited(true)
+                        }}
+                        placeholder="Folder for the new worktree"
+                        size="sm"
+                    />
+                    <div className="flex justify-end">
+                        <button
+                            type="button"
+                            onClick={() => { void handleAdd() }}
+                            disabled={!canAdd}
+                            className="inline-flex items-center gap-1.5 rounded-lg bg-[var(--accent-primary)] px-3 py-1.5 text-xs font-medium text-white transition-all hover:bg-[var(--accent-primary)]/80 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                            {busyAction === 'add' ? <RefreshCw size={12} className="animate-spin" /> : <Plus size={12} />}
+                            Create Worktree
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-1.5">
+                {worktrees.map((worktree) => (
+                    <div
+                        key={worktree.path}
+                        className={cn(
+                            'flex items-center justify-between gap-3 rounded-lg border px-3 py-2',
+                            worktree.isCurrent ? 'border-[var(--accent-primary)]/25 bg-[var(--accent-primary)]/[0.06]' : 'border-white/5 bg-black/20'
+                        )}
+                    >
+                        <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                                <span className="truncate font-mono text-xs text-white/80">
+                                    {worktree.branch || (worktree.bare ? '(bare)' : `detached at ${worktree.head.slice(0, 7)}`)}
+                                </span>
+                                {worktree.isMain && <span className="shrink-0 rounded bg-white/10 px-1.5 py-px text-[10px] text-white/60">main</span>}
+                                {worktree.isCurrent && <span className="shrink-0 rounded bg-[var(--accent-primary)]/20 px-1.5 py-px text-[10px] text-white/80">current</span>}
+                                {worktree.locked && <span className="shrink-0 rounded bg-sky-500/15 px-1.5 py-px text-[10px] text-sky-200">locked</span>}
+                                {worktree.prunable && <span className="shrink-0 rounded bg-amber-500/15 px-1.5 py-px text-[10px] text-amber-200">missing</span>}
+                            </div>
+                            <div className="truncate text-[11px] text-white/40" title={worktree.path}>{worktree.path}</div>
+                        </div>
+                        <div className="flex shrink-0 items-center gap-1">
+                            {!worktree.isCurrent && !worktree.prunable && !worktree.bare && (
+                                <button
+                                    type="button"
+                                    onClick={() => navigate(`/projects/${encodeURIComponent(worktree.path)}`)}
+                                    title="Open in DevScope"
+                                    className="rounded-md p-1.5 text-white/50 transition-colors hover:bg-white/10 hover:text-white"
+                                >
+                                    <ExternalLink size={13} />
+                                </button>
+                            )}
+                            {!worktree.prunable && (
+                                <button
+                                    type="button"
+                                    onClick={() => { void window.devscope.openInExplorer(worktree.path) }}
+                                    title="Open folder"
+                                    className="rounded-md p-1.5 text-white/50 transition-colors hover:bg-white/10 hover:text-white"
+                                >
+                                    <FolderOpen size={13} />
+                                </button>
+                            )}
+                            {!worktree.isMain && !worktree.isCurrent && (
+                                <button
+                                    type="button"
+                                    onClick={() => setRemoveTarget(worktree)}
+                                    disabled={Boolean(busyAction) || worktree.locked}
+                                    title={worktree.locked ? 'Unlock this worktree before removing it' : 'Remove worktree'}
+                                    className="rounded-md p-1.5 text-white/50 transition-colors hover:bg-red-500/15 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-40"
+                                >
+                                    {busyAction === `remove:${worktree.path}` ? <RefreshCw size={13} className="animate-spin" /> : <Trash2 size={13} />}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <ConfirmModal
+                isOpen={Boolean(removeTarget)}
+                title={forceRemove ? 'Discard worktree changes?' : 'Remove worktree?'}
+                message={forceRemove
+                    ? `${removeTarget?.path} has uncommitted or untracked files. Force removal deletes the folder and those changes permanently.`
+                    : `The folder ${removeTarget?.path} will be deleted. The branch ${removeTarget?.branch || ''} is kept.`}
+                confirmLabel={forceRemove ? 'Force Remove' : 'Remove'}
+                cancelLabel="Cancel"
+                onConfirm={() => { void handleRemove() }}
+                onCancel={() => {
+                    setRemoveTarget(null)
+                    setForceRemove(false)
+                }}
+                variant="danger"
+            />
+        </div>
+    )
+}
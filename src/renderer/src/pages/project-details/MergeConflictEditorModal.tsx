@@ -0,0 +1,281 @@
+import { Suspense, lazy, useEffect, useMemo, useState, type ReactNode } from 'react'
+import { AlertTriangle, Check, CornerDownRight, RefreshCw, Trash2, X } from 'lucide-react'
+import type { DevScopeGitConflictFile, DevScopeGitConflictResolution } from '@shared/contracts/devscope-api'
+import {
+    parseConflictBlocks,
+    resolveAllConflictBlocks,
+    resolveConflictBlock,
+    type ConflictChoice
+} from '@shared/git-conflicts'
+import type { MergeCompareMode } from '@/components/ui/diff-viewer/MonacoMergeEditor'
+import { cn } from '@/lib/utils'
+
+const MonacoMergeEditor = lazy(() => import('@/components/ui/diff-viewer/MonacoMergeEditor'))
+
+const COMPARE_MODES: Array<{ id: MergeCompareMode; label: string }> = [
+    { id: 'ours-theirs', label: 'Ours ↔ Theirs' },
+    { id: 'base-ours', label: 'Base ↔ Ours' },
+    { id: 'base-theirs', label: 'Base ↔ Theirs' }
+]
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+    ours: 'Ours',
+    theirs: 'Theirs',
+    both: 'Both',
+    base: 'Base'
+}
+
+interface MergeConflictEditorModalProps {
+    projectPath: string
+    filePath: string | null
+    onResolve: (filePath: string, resolution: DevScopeGitConflictResolution) => Promise<boolean>
+    onClose: () => void
+}
+
+function ActionButton({
+    label,
+    onClick,
+    disabled,
+    tone = 'default',
+    icon
+}: {
+    label: string
+    onClick: () => void
+    disabled?: boolean
+    tone?: 'default' | 'primary' | 'danger'
+    icon?: ReactNode
+}) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            disabled={disabled}
+            className={cn(
+                'inline-flex items-center gap-1.5 rounded-lg border px-2.5 py-1.5 text-xs font-medium transition-all disabled:cursor-not-allowed disabled:opacity-40',
+                tone === 'primary'
+                    ? 'border-emerald-500/30 bg-emerald-500/15 text-emerald-200 hover:bg-emerald-500/25'
+                    : tone === 'danger'
+                        ? 'border-red-500/25 bg-red-500/10 text-red-200 hover:bg-red-500/20'
+                        : 'border-white/10 bg-white/[0.04] text-white/75 hover:border-white/20 hover:bg-white/10 hover:text-white'
+            )}
+        >
+            {icon}
+            {label}
+        </button>
+    )
+}
+
+export function MergeConflictEditorModal({ projectPath, filePath, onResolve, onClose }: MergeConflictEditorModalProps) {
+    const [file, setFile] = useState<DevScopeGitConflictFile | null>(null)
+    const [loadError, setLoadError] = useState('')
+    const [result, setResult] = useState('')
+    const [compareMode, setCompareMode] = useState<MergeCompareMode>('ours-theirs')
+    const [revealTarget, setRevealTarget] = useState<{ line: number; token: number } | null>(null)
+    const [confirmKey, setConfirmKey] = useState<string | null>(null)
+    const [busyKey, setBusyKey] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (!filePath) return
+        let cancelled = false
+        setFile(null)
+        setLoadError('')
+        setConfirmKey(null)
+        setRevealTarget(null)
+
+        void window.devscope.getGitConflictFile(projectPath, filePath).then((response) => {
+            if (cancelled) return
+            if (!response?.success) {
+                setLoadError(response?.error || 'Failed to load conflicted file.')
+                return
+            }
+            setFile(response.file)
+            setResult(response.file.merged)
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [projectPath, filePath])
+
+    const blocks = useMemo(() => parseConflictBlocks(result), [result])
+
+    if (!filePath) return null
+
+    const runResolution = async (key: string, resolution: DevScopeGitConflictResolution, confirmMessageKey?: string) => {
+        if (busyKey) return
+        if (confirmMessageKey && confirmKey !== confirmMessageKey) {
+            setConfirmKey(confirmMessageKey)
+            return
+        }
+        setConfirmKey(null)
+        setBusyKey(key)
+        try {
+            const success = await onResolve(filePath, resolution)
+            if (success) onClose()
+        } finally {
+            setBusyKey(null)
+        }
+    }
+
+    const jumpToBlock = (startLine: number) => {
+        setRevealTarget({ line: startLine + 1, token: Date.now() })
+    }
+
+    const missingSide = file && !file.binary
+        ? (file.ours === null ? 'ours' : file.theirs === null ? 'theirs' : null)
+        : null
+    const hasMarkers = blocks.length > 0
+
+    return (
+        <div className="fixed inset-0 z-[85] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm animate-fadeIn" onClick={onClose}>
+            <div
+                className="flex h-[94vh] w-full max-w-7xl flex-col overflow-hidden rounded-2xl border border-white/10 bg-sparkle-card shadow-2xl"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="flex items-center justify-between gap-3 border-b border-white/10 bg-white/[0.03] px-5 py-3">
+                    <div className="min-w-0">
+                        <h4 className="truncate text-sm font-semibold text-white">{filePath}</h4>
+                        <p className="text-xs text-white/50">
+                            {file?.binary
+                                ? 'Binary file - pick one side to keep.'
+                                : hasMarkers
+                                    ? `${blocks.length} unresolved conflict${blocks.length === 1 ? '' : 's'}`
+                                    : 'No conflict markers left'}
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {file && !file.binary && (
+                            <div className="flex items-center gap-1 rounded-xl border border-white/10 bg-white/[0.03] p-1">
+                                {COMPARE_MODES.map((mode) => (
+                                    <button
+                                        key={mode.id}
+                                        type="button"
+                                        onClick={() => setCompareMode(mode.id)}
+                                        className={cn(
+                                            'rounded-lg px-2.5 py-1 text-xs transition-all',
+                                            compareMode === mode.id ? 'bg-white/10 text-white' : 'text-white/55 hover:bg-white/[0.04] hover:text-white'
+                                        )}
+                                    >
+                                        {mode.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="inline-flex h-8 w-8 items-center justify-center rounded-lg border border-white/10 bg-white/[0.03] text-white/50 transition-all hover:border-white/20 hover:bg-white/10 hover:text-white"
+                        >
+                            <X size={16} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex min-h-0 flex-1">
+                    {loadError ? (
+                        <div className="flex flex-1 items-center justify-center text-sm text-red-300">{loadError}</div>
+                    ) : !file ? (
+                        <div className="flex flex-1 items-center justify-center text-white/30">
+                            <RefreshCw size={18} className="mr-2 animate-spin" />
+                            <span className="text-sm">Loading conflict...</span>
+                        </div>
+                    ) : file.binary ? (
+                        <div className="flex flex-1 items-center justify-center text-sm text-white/45">
+                            Binary files cannot be merged line by line.
+                        </div>
+                    ) : (
+                        <>
+                            <div className="min-w-0 flex-1">
+                                <Suspense fallback={<div className="flex h-full items-center justify-center text-sm text-white/50">Loading merge editor...</div>}>
+                                    <MonacoMergeEditor
+                                        filePath={filePath}
+                                        base={file.base}
+                                        ours={file.ours}
+                                        theirs={file.theirs}
+                                        value={result}
+                                        onChange={setResult}
+                                        compareMode={compareMode}
+                                        revealTarget={revealTarget}
+                                    />
+                                </Suspense>
+                            </div>
+                            <div className="flex w-64 shrink-0 flex-col border-l border-white/10 bg-black/10">
+                                <div className="flex items-center gap-1.5 border-b border-white/10 px-3 py-2">
+                                    <ActionButton label="All ours" disabled={!hasMarkers} onClick={() => setResult(resolveAllConflictBlocks(result, 'ours'))} />
+                                    <ActionButton label="All theirs" disabled={!hasMarkers} onClick={() => setResult(resolveAllConflictBlocks(result, 'theirs'))} />
+                                </div>
+                                <div className="min-h-0 flex-1 space-y-2 overflow-y-auto p-3">
+                                    {missingSide && (
+                                        <div className="flex gap-2 rounded-lg border border-amber-500/25 bg-amber-500/10 p-2 text-xs text-amber-200">
+                                            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                                            <span>Deleted in {missingSide}. Keep the result below or delete the file.</span>
+                                        </div>
+                                    )}
+                                    {blocks.map((block) => (
+                                        <div key={`${block.index}:${block.startLine}`} className="rounded-lg border border-white/10 bg-white/[0.03] p-2">
+                                            <button
+                                                type="button"
+                                                onClick={() => jumpToBlock(block.startLine)}
+                                                className="mb-2 inline-flex items-center gap-1 text-xs text-white/70 hover:text-white"
+                                            >
+                                                <CornerDownRight size={12} />
+                                                Conflict {block.index + 1} · line {block.startLine + 1}
+                                            </button>
+                                            <div className="flex flex-wrap gap-1">
+                                                {(['ours', 'theirs', 'both', 'base'] as ConflictChoice[])
+                                                    .filter((choice) => choice !== 'base' || block.base !== null)
+                                                    .map((choice) => (
+                                                        <ActionButton
+                                                            key={choice}
+                                                            label={CHOICE_LABELS[choice]}
+                                                            onClick={() => setResult(resolveConflictBlock(result, block.index, choice))}
+                                                        />
+                                                    ))}
+                                            </div>
+                                        </div>
+                                    ))}
+                                    {!hasMarkers && (
+                                        <p className="text-xs text-white/45">All conflicts in the result are resolved. Review it, then mark the file resolved.</p>
+                                    )}
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-3 border-t border-white/10 bg-white/[0.03] px-5 py-3">
+                    <div className="flex items-center gap-1.5">
+                        <ActionButton
+                            label={confirmKey === 'ours' ? 'Click again to keep ours' : 'Keep ours'}
+                            disabled={!file || Boolean(busyKey)}
+                            onClick={() => { void runResolution('ours', { kind: 'ours' }, 'ours') }}
+                        />
+                        <ActionButton
+                            label={confirmKey === 'theirs' ? 'Click again to keep theirs' : 'Keep theirs'}
+                            disabled={!file || Boolean(busyKey)}
+                            onClick={() => { void runResolution('theirs', { kind: 'theirs' }, 'theirs') }}
+                        />
+                        {(missingSide || file?.binary) && (
+                            <ActionButton
+                                label={confirmKey === 'delete' ? 'Click again to delete' : 'Delete file'}
+                                tone="danger"
+                                icon={<Trash2 size={12} />}
+                                disabled={Boolean(busyKey)}
+                                onClick={() => { void runResolution('delete', { kind: 'delete' }, 'delete') }}
+                            />
+                        )}
+                    </div>
+                    {file && !file.binary && (
+                        <ActionButton
+                            label={confirmKey === 'save' ? 'Markers remain - click again to save' : 'Save and mark resolved'}
+                            tone="primary"
+                            icon={busyKey === 'save' ? <RefreshCw size={12} className="animate-spin" /> : <Check size={12} />}
+                            disabled={Boolean(busyKey)}
+                            onClick={() => { void runResolution('save', { kind: 'content', content: result }, hasMarkers ? 'save' : undefined) }}
+                        />
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle, Check, GitMerge, RefreshCw, X } from 'lucide-react'
+import type {
+    DevScopeGitConflictResolution,
+    DevScopeGitConflictState,
+    DevScopeGitOperationKind
+} from '@shared/contracts/devscope-api'
+import { ConfirmModal } from '@/components/ui/ConfirmModal'
+import { invalidateProjectGitOverview } from '@/lib/projectGitOverview'
+import { MergeConflictEditorModal } from './MergeConflictEditorModal'
+
+const OPERATION_LABELS: Record<DevScopeGitOperationKind, string> = {
+    merge: 'Merge',
+    rebase: 'Rebase',
+    'cherry-pick': 'Cherry-pick',
+    revert: 'Revert'
+}
+
+interface MergeConflictsPanelProps {
+    projectPath: string
+    /** Changes whenever the working tree status is refreshed, so the panel re-reads the repo state. */
+    statusToken: string
+    showToast: (message: string, actionLabel?: string, actionTo?: string, tone?: 'success' | 'error' | 'info') => void
+    refreshGitData: (force?: boolean, options?: any) => Promise<void>
+}
+
+export function MergeConflictsPanel({ projectPath, statusToken, showToast, refreshGitData }: MergeConflictsPanelProps) {
+    const [state, setState] = useState<DevScopeGitConflictState | null>(null)
+    const [editorPath, setEditorPath] = useState<string | null>(null)
+    const [busyAction, setBusyAction] = useState<string | null>(null)
+    const [confirmAbort, setConfirmAbort] = useState(false)
+
+    const loadState = async () => {
+        const result = await window.devscope.getGitConflictState(projectPath)
+        setState(result?.success ? result.state : null)
+    }
+
+    useEffect(() => {
+        if (!projectPath) return
+        void loadState()
+    }, [projectPath, statusToken])
+
+    const afterWrite = async () => {
+        invalidateProjectGitOverview(projectPath)
+        await loadState()
+        void refreshGitData(false, { quiet: true, mode: 'full' }).catch(() => undefined)
+    }
+
+    const resolveFile = async (filePath: string, resolution: DevScopeGitConflictResolution) => {
+        setBusyAction(`${resolution.kind}:${filePath}`)
+        try {
+            const result = await window.devscope.resolveGitConflict(projectPath, filePath, resolution)
+            if (!result?.success) throw new Error(result?.error || 'Failed to resolve conflict')
+            await afterWrite()
+            return true
+        } catch (err: any) {
+            showToast(`Failed to resolve ${filePath}: ${err.message}`, undefined, undefined, 'error')
+            return false
+        } finally {
+            setBusyAction(null)
+        }
+    }
+
+    const runOperation = async (action: 'continue' | 'abort') => {
+        const label = state?.operation ? OPERATION_LABELS[state.operation] : 'Operation'
+        setBusyAction(action)
+        try {
+            const result = action === 'continue'
+                ? await window.devscope.continueGitOperation(projectPath)
+                : await window.devscope.abortGitOperation(projectPath)
+            if (!result?.success) throw new Error(result?.error || `Failed to ${action} ${label.toLowerCase()}`)
+            showToast(action === 'continue' ? `${label} continued.` : `${label} aborted.`, undefined, undefined, 'success')
+            await afterWrite()
+        } catch (err: any) {
+            showToast(`Failed to ${action} ${label.toLowerCase()}: ${err.message}`, undefined, undefined, 'error')
+            await loadState()
+        } finally {
+            setBusyAction(null)
+        }
+    }
+
+    if (!state || (!state.operation && state.conflictedPaths.length === 0)) return null
+
+    const conflictCount = state.conflictedPaths.length
+    const operationLabel = state.operation ? OPERATION_LABELS[state.operation] : null
+
+    return (
+        <>
+            <div className="rounded-xl border border-orange-500/25 bg-orange-500/[0.06] p-4">
+                <div className="mb-3 flex items-start justify-between gap-3">
+                    <div className="flex min-w-0 items-start gap-2">
+                        <GitMerge size={16} className="mt-0.5 shrink-0 text-orange-300" />
+                        <div className="min-w-0">
+                            <h3 className="text-sm font-medium text-orange-100">
+                                {operationLabel ? `${operationLabel} in progress` : 'Unresolved conflicts'}
+                            </h3>
+                            <p className="truncate text-xs text-white/50">
+                                {conflictCount > 0
+                                    ? `${conflictCount} conflicted file${conflictCount === 1 ? '' : 's'}`
+                                    : 'All conflicts resolved'}
+                                {state.incomingLabel ? ` · ${state.incomingLabel}` : ''}
+                            </p>
+                        </div>
+                    </div>
+                    {state.operation && (
+                        <div className="flex shrink-0 items-center gap-2">
+                            <button
+                                type="button"
+                                onClick={() => { void runOperation('continue') }}
+                                disabled={conflictCount > 0 || Boolean(busyAction)}
+                                title={conflictCount > 0 ? 'Resolve every conflicted file first' : undefined}
+                                className="inline-flex items-center gap-1.5 rounded-lg border border-emerald-500/30 bg-emerald-500/15 px-3 py-1.5 text-xs font-medium text-emerald-200 transition-all hover:bg-emerald-500/25 disabled:cursor-not-allowed disabled:opacity-40"
+                            >
+                                {busyAction === 'continue' ? <RefreshCw size={12} className="animate-spin" /> : <Check size={12} />}
+                                Continue
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setConfirmAbort(true)}
+                                disabled={Boolean(busyAction)}
+                                className="inline-flex items-center gap-1.5 rounded-lg border border-red-500/25 bg-red-500/10 px-3 py-1.5 text-xs font-medium text-red-200 transition-all hover:bg-red-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+                            >
+                                {busyAction === 'abort' ? <RefreshCw size={12} className="animate-spin" /> : <X size={12} />}
+                                Abort
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {conflictCount > 0 && (
+                    <div className="space-y-1.5">
+                        {state.conflictedPaths.map((path) => (
+                            <div key={path} className="flex items-center justify-between gap-3 rounded-lg border border-white/5 bg-black/20 px-3 py-2">
+                                <div className="flex min-w-0 items-center gap-2">
+                                    <AlertTriangle size={13} className="shrink-0 text-orange-300" />
+                                    <span className="truncate text-xs text-white/80" title={path}>{path}</span>
+                                </div>
+                                <div className="flex shrink-0 items-center gap-1.5">
+                                    <button
+                                        type="button"
+                                        onClick={() => setEditorPath(path)}
+                                        disabled={Boolean(busyAction)}
+                                        className="rounded-md border border-white/10 bg-white/[0.04] px-2 py-1 text-[11px] text-white/80 transition-all hover:bg-white/10 hover:text-white disabled:opacity-40"
+                                    >
+                                        Resolve
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => { void resolveFile(path, { kind: 'mark' }) }}
+                                        disabled={Boolean(busyAction)}
+                                        title="Stage the file as it is on disk"
+                                        className="rounded-md border border-white/10 bg-white/[0.04] px-2 py-1 text-[11px] text-white/60 transition-all hover:bg-white/10 hover:text-white disabled:opacity-40"
+                                    >
+                                        {busyAction === `mark:${path}` ? 'Marking...' : 'Mark resolved'}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <MergeConflictEditorModal
+                projectPath={projectPath}
+                filePath={editorPath}
+                onResolve={resolveFile}
+                onClose={() => setEditorPath(null)}
+            />
+            <ConfirmModal
+                isOpen={confirmAbort}
+                title={`Abort ${operationLabel?.toLowerCase() || 'operation'}`}
+                message="This restores the branch to where it was before the operation started and discards any conflict resolutions made so far."
+                confirmLabel="Abort"
+                cancelLabel="Cancel"
+                onConfirm={() => {
+                    setConfirmAbort(false)
+                    void runOperation('abort')
+                }}
+                onCancel={() => setConfirmAbort(false)}
+                variant="danger"
+            />
+        </>
+    )
+}
@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from 'react'
+import { AlertTriangle, Copy, ExternalLink, RefreshCw, ShieldCheck } from 'lucide-react'
+import { useSettings } from '@/lib/settings'
+import { cn } from '@/lib/utils'
+import type {
+    DevScopeDependencyAuditEntry,
+    DevScopeDependencyAuditReport,
+    DevScopeDependencyAuditStatus
+} from '@shared/contracts/devscope-project-contracts'
+import {
+    AuditStatTile,
+    AuditStatusBadge,
+    SEVERITY_ORDER,
+    SeverityBadge,
+    SortableHeaderCell,
+    useSortedRows
+} from '../dependency-audit/DependencyAuditPrimitives'
+import { ProjectDetailsInlineLoading } from './ProjectDetailsInlineLoading'
+
+type AuditColumn = 'name' | 'scope' | 'declared' | 'resolved' | 'latest' | 'status' | 'advisories'
+
+const STATUS_RANK: Record<DevScopeDependencyAuditStatus, number> = {
+    mismatch: 0,
+    missing: 1,
+    unresolvable: 2,
+    ok: 3
+}
+
+const SCOPE_LABELS: Record<DevScopeDependencyAuditEntry['scope'], string> = {
+    dependency: 'prod',
+    devDependency: 'dev',
+    optionalDependency: 'optional'
+}
+
+function getEntrySortValue(entry: DevScopeDependencyAuditEntry, column: AuditColumn): string | number {
+    if (column === 'scope') return entry.scope
+    if (column === 'declared') return entry.declaredRange
+    if (column === 'resolved') return entry.resolvedVersion || ''
+    if (column === 'latest') return entry.latestInTree || ''
+    if (column === 'status') return STATUS_RANK[entry.status] * 1000 - entry.advisories.length
+    if (column === 'advisories') return entry.advisories.length
+    return entry.name
+}
+
+function hasIssue(entry: DevScopeDependencyAuditEntry): boolean {
+    return entry.status === 'mismatch' || entry.status === 'missing' || entry.majorDrift
+        || entry.duplicateVersions.length > 0 || entry.advisories.length > 0
+}
+
+export function ProjectDetailsAuditTab({ project }: { project: { path: string; markers?: string[] } }) {
+    const { settings } = useSettings()
+    const [report, setReport] = useState<DevScopeDependencyAuditReport | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [issuesOnly, setIssuesOnly] = useState(false)
+    const hasPackageJson = project.markers?.includes('package.json') ?? true
+
+    const runAudit = useCallback(async () => {
+        setLoading(true)
+        setError(null)
+        try {
+            const result = await window.devscope.auditProjectDependencies({
+                projectPath: project.path,
+                advisoryDatabasePath: settings.dependencyAdvisoryDatabasePath || undefined
+            })
+            if (result.success) {
+                setReport(result.report)
+            } else {
+                setReport(null)
+                setError(result.error || 'Failed to audit dependencies.')
+            }
+        } catch (err: any) {
+            setError(err?.message || 'Failed to audit dependencies.')
+        } finally {
+            setLoading(false)
+        }
+    }, [project.path, settings.dependencyAdvisoryDatabasePath])
+
+    useEffect(() => {
+        if (!hasPackageJson) return
+        void runAudit()
+    }, [hasPackageJson, runAudit])
+
+    const entries = report?.entries || []
+    const visibleEntries = issuesOnly ? entries.filter(hasIssue) : entries
+    const { sortedRows, sortColumn, sortDirection, toggleSort } = useSortedRows<DevScopeDependencyAuditEntry, AuditColumn>(
+        visibleEntries,
+        getEntrySortValue,
+        'status'
+    )
+
+    if (!hasPackageJson) {
+        return (
+            <div className="flex flex-col items-center justify-center gap-2 p-12 text-center text-sm text-white/40">
+                <ShieldCheck size={28} className="text-white/20" />
+                Dependency audit reads JavaScript lockfiles; this project has no package.json.
+            </div>
+        )
+    }
+
+    if (loading && !report) {
+        return (
+            <ProjectDetailsInlineLoading
+                title="Auditing dependencies..."
+                detail="Reading the lockfile and comparing resolved versions with package.json."
+            />
+        )
+    }
+
+    const summary = report?.summary
+    const advisoryTotal = summary ? SEVERITY_ORDER.reduce((total, severity) => total + summary.advisories[severity], 0) : 0
+
+    return (
+        <div className="flex flex-col gap-5 p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-medium text-white/85">
+                        <ShieldCheck size={16} className="text-[var(--accent-primary)]" />
+                        Dependency audit
+                    </div>
+                    <div className="mt-0.5 truncate text-xs text-white/40" title={report?.lockfile?.path}>
+                        {report?.lockfile
+                            ? `${report.lockfile.kind} lockfile · ${report.lockfile.path}`
+                            : 'No lockfile'}
+                        {report?.advisoryDatabase ? ` · ${report.advisoryDatabase.advisoryCount} advisories loaded` : ''}
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <label className="flex cursor-pointer items-center gap-1.5 text-xs text-white/50">
+                        <input
+                            type="checkbox"
+                            checked={issuesOnly}
+                            onChange={(event) => setIssuesOnly(event.target.checked)}
+                            className="accent-[var(--accent-primary)]"
+                        />
+                        Issues only
+                    </label>
+                    <button
+                        type="button"
+                        onClick={() => { void runAudit() }}
+                        disabled={loading}
+                        className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/70 transition-colors hover:bg-white/10 hover:text-white disabled:opacity-50"
+                    >
+                        <RefreshCw size={13} className={cn(loading && 'animate-spin')} />
+                        Re-run
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="flex items-center gap-2 rounded-xl border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-300">
+                    <AlertTriangle size={15} className="shrink-0" />
+                    {error}
+                </div>
+            )}
+
+            {report?.warnings.map((warning) => (
+                <div key={warning} className="flex items-center gap-2 rounded-xl border border-amber-500/20 bg-amber-500/10 px-4 py-2.5 text-xs text-amber-200">
+                    <AlertTriangle size={13} className="shrink-0" />
+                    {warning}
+                </div>
+            ))}
+
+            {summary && (
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 xl:grid-cols-6">
+                    <AuditStatTile label="Direct" value={summary.directDependencies} />
+                    <AuditStatTile label="Locked" value={summary.lockedPackages} />
+                    <AuditStatTile label="Out of range" value={summary.mismatched + summary.missing} tone={summary.mismatched + summary.missing > 0 ? 'warn' : 'default'} />
+                    <AuditStatTile label="Major drift" value={summary.majorDrift} tone={summary.majorDrift > 0 ? 'warn' : 'default'} />
+                    <AuditStatTile label="Duplicates" value={summary.duplicates} />
+                    <AuditStatTile label="Advisories" value={advisoryTotal} tone={advisoryTotal > 0 ? 'danger' : 'default'} />
+                </div>
+            )}
+
+            {report && (
+                <div className="overflow-x-auto rounded-xl border border-white/5">
+                    <table className="w-full text-xs">
+                        <thead className="border-b border-white/5 bg-white/[0.02]">
+                            <tr>
+                                <SortableHeaderCell column="name" label="Package" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                <SortableHeaderCell column="scope" label="Scope" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                <SortableHeaderCell column="declared" label="Declared" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                <SortableHeaderCell column="resolved" label="Resolved" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                <SortableHeaderCell column="latest" label="Newest in tree" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                <SortableHeaderCell column="status" label="Status" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                                <SortableHeaderCell column="advisories" label="Advisories" sortColumn={sortColumn} sortDirection={sortDirection} onSort={toggleSort} />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {sortedRows.map((entry) => (
+                                <tr key={`${entry.scope}:${entry.name}`} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+                                    <td className="px-3 py-2 font-medium text-white/85">
+                                        {entry.name}
+                                        {entry.duplicateVersions.length > 0 && (
+                                            <span className="ml-2 text-[10px] text-white/40" title={entry.duplicateVersions.join(', ')}>
+                                                ×{entry.duplicateVersions.length}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 text-white/45">{SCOPE_LABELS[entry.scope]}</td>
+                                    <td className="px-3 py-2 font-mono text-white/60">{entry.declaredRange}</td>
+                                    <td className="px-3 py-2 font-mono text-white/80">{entry.resolvedVersion || '—'}</td>
+                                    <td className={cn('px-3 py-2 font-mono', entry.majorDrift ? 'text-amber-300' : 'text-white/45')}>
+                                        {entry.latestInTree || '—'}
+                                    </td>
+                                    <td className="px-3 py-2"><AuditStatusBadge status={entry.status} /></td>
+                                    <td className="px-3 py-2">
+                                        <div className="flex flex-wrap gap-1">
+                                            {entry.advisories.map((advisory) => (
+                                                <span key={advisory.id} title={advisory.title}>
+                                                    <SeverityBadge severity={advisory.severity} />
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                            {sortedRows.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="px-3 py-6 text-center text-white/40">
+                                        {issuesOnly ? 'No issues found.' : 'No dependencies declared.'}
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {report && report.advisories.length > 0 && (
+                <div className="flex flex-col gap-2">
+                    <div className="text-xs font-medium uppercase tracking-wide text-white/40">Advisories across the lockfile</div>
+                    {report.advisories.map((advisory) => (
+                        <div key={`${advisory.id}:${advisory.packageName}@${advisory.installedVersion}`} className="flex items-center gap-3 rounded-xl border border-white/5 bg-white/[0.02] px-3 py-2 text-xs">
+                            <SeverityBadge severity={advisory.severity} />
+                            <span className="font-mono text-white/80">{advisory.packageName}@{advisory.installedVersion}</span>
+                            <span className="min-w-0 flex-1 truncate text-white/55" title={advisory.title}>{advisory.title}</span>
+                            <span className="shrink-0 font-mono text-white/35">{advisory.vulnerableRange}</span>
+                            {advisory.url && (
+                                <a href={advisory.url} target="_blank" rel="noreferrer" className="shrink-0 text-white/40 hover:text-white" title={advisory.url}>
+                                    <ExternalLink size={12} />
+                                </a>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {report && report.duplicates.length > 0 && (
+                <div className="flex flex-col gap-2">
+                    <div className="text-xs font-medium uppercase tracking-wide text-white/40">Duplicated packages</div>
+                    <div className="grid gap-1.5 sm:grid-cols-2">
+                        {report.duplicates.slice(0, 40).map((duplicate) => (
+                            <div key={duplicate.name} className="flex items-center gap-2 rounded-lg border border-white/5 bg-white/[0.02] px-3 py-1.5 text-xs">
+                                <Copy size={11} className="shrink-0 text-white/30" />
+                                <span className="truncate text-white/75">{duplicate.name}</span>
+                                <span className="ml-auto shrink-0 truncate font-mono text-white/40" title={duplicate.versions.join(', ')}>
+                                    {duplicate.versions.join(', ')}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                    {report.duplicates.length > 40 && (
+                        <div className="text-xs text-white/35">and {report.duplicates.length - 40} more</div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
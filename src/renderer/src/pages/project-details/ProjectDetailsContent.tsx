@@ -3,6 +3,8 @@ import { ProjectDetailsHeaderSection } from './ProjectDetailsHeaderSection'
 import { ProjectDetailsReadmeTab } from './ProjectDetailsReadmeTab'
 import { ProjectDetailsFilesTab } from './ProjectDetailsFilesTab'
 import { ProjectDetailsGitTab } from './ProjectDetailsGitTab'
+import { ProjectDetailsAuditTab } from './ProjectDetailsAuditTab'
+import { ProjectDetailsWorkspaceBanner } from './ProjectDetailsWorkspace'
 import { cn } from '@/lib/utils'
 
 export interface ProjectDetailsContentProps {
@@ -18,6 +20,8 @@ export function ProjectDetailsContent(props: ProjectDetailsContentProps) {
         scriptPredictions,
         scriptIntentContext,
         runScript,
+        runConfigurations,
+        saveScriptAsRunConfiguration,
         setShowDependenciesModal
     } = props
 
@@ -30,6 +34,7 @@ export function ProjectDetailsContent(props: ProjectDetailsContentProps) {
                 isCondensedLayout ? 'gap-5' : 'gap-6'
             )}>
                 <div className={isCondensedLayout ? 'col-span-12 flex min-w-0 flex-col gap-6' : 'col-span-12 lg:col-span-8 flex min-w-0 flex-col gap-6'}>
+                    <ProjectDetailsWorkspaceBanner parentWorkspace={project.parentWorkspace} />
                     <div className="bg-sparkle-card border border-white/5 rounded-2xl overflow-hidden min-h-[500px] shadow-sm">
                         {activeTab === 'readme' ? (
                             <ProjectDetailsReadmeTab
@@ -45,6 +50,8 @@ export function ProjectDetailsContent(props: ProjectDetailsContentProps) {
                             <ProjectDetailsFilesTab {...props} />
                         ) : activeTab === 'git' ? (
                             <ProjectDetailsGitTab {...props} />
+                        ) : activeTab === 'audit' ? (
+                            <ProjectDetailsAuditTab project={project} />
                         ) : null}
                     </div>
                 </div>
@@ -56,10 +63,14 @@ export function ProjectDetailsContent(props: ProjectDetailsContentProps) {
                         dependencies={project.dependencies}
                         devDependencies={project.devDependencies}
                         dependencyInstallStatus={project.dependencyInstallStatus}
+                        workspaceKinds={project.workspaceKinds}
+                        workspacePackages={project.workspacePackages}
                         loadingProjectDetails={projectDetailsLoading}
                         scriptPredictions={scriptPredictions}
                         scriptIntentContext={scriptIntentContext}
+                        runConfigurations={runConfigurations}
                         onRunScript={runScript}
+                        onSaveScriptAsConfiguration={saveScriptAsRunConfiguration}
                         onShowDependencies={() => setShowDependenciesModal(true)}
                     />
                 )}
@@ -1,5 +1,47 @@
-import { GitBranch, RefreshCw } from 'lucide-react'
+import { useState } from 'react'
+import { Cherry, GitBranch, GitCommitVertical, ListRestart, PencilLine, RefreshCw, RotateCcw, Undo2, Undo } from 'lucide-react'
+import type { DevScopeGitResetMode } from '@shared/contracts/devscope-api'
+import { ConfirmModal } from '@/components/ui/ConfirmModal'
+import type { FileActionsMenuItem } from '@/components/ui/FileActionsMenu'
+import { invalidateProjectGitOverview } from '@/lib/projectGitOverview'
+import { GitCommitMessageModal, type CommitMessageEditRequest } from './GitCommitMessageModal'
 import { GitGraph } from './GitGraph'
+import { GitRebaseEditorModal } from './GitRebaseEditorModal'
+import type { GitCommit } from './types'
+
+type PendingHistoryAction =
+    | { kind: 'cherry-pick' | 'revert'; commit: GitCommit }
+    | { kind: 'reset'; mode: DevScopeGitResetMode; commit: GitCommit }
+    | { kind: 'undo'; commit: GitCommit; isPushed: boolean }
+
+const RESET_DESCRIPTIONS: Record<DevScopeGitResetMode, string> = {
+    soft: 'Newer commits are undone and their changes stay staged.',
+    mixed: 'Newer commits are undone and their changes stay in the working tree, unstaged.',
+    hard: 'Newer commits and every uncommitted change are discarded. This cannot be undone from DevScope.'
+}
+
+function describeHistoryAction(action: PendingHistoryAction, currentBranch: string) {
+    const target = `${action.commit.shortHash} "${action.commit.message}"`
+    const branch = currentBranch || 'the current branch'
+    switch (action.kind) {
+        case 'cherry-pick':
+            return { title: 'Cherry-pick commit', message: `Apply ${target} on top of ${branch}?`, confirmLabel: 'Cherry-pick' }
+        case 'revert':
+            return { title: 'Revert commit', message: `Create a new commit on ${branch} that undoes ${target}?`, confirmLabel: 'Revert' }
+        case 'reset':
+            return {
+                title: `Reset (${action.mode})`,
+                message: `Move ${branch} to ${target}. ${RESET_DESCRIPTIONS[action.mode]}`,
+                confirmLabel: `Reset ${action.mode}`
+            }
+        case 'undo':
+            return {
+                title: 'Undo last commit',
+                message: `Remove ${target} from ${branch} and keep its changes staged.${action.isPushed ? ' This commit is already on the remote, so undoing it will require a force push.' : ''}`,
+                confirmLabel: action.isPushed ? 'Undo Anyway' : 'Undo Commit'
+            }
+    }
+}
 
 export function ProjectDetailsGitHistoryView(props: any) {
     const {
@@ -17,8 +59,76 @@ export function ProjectDetailsGitHistoryView(props: any) {
         commitPage,
         totalHistoryPages,
         setCommitPage,
-        handleNextHistoryPage
+        handleNextHistoryPage,
+        projectPath,
+        currentBranch,
+        refreshGitData,
+        showToast
     } = props
+    const [pendingAction, setPendingAction] = useState<PendingHistoryAction | null>(null)
+    const [rebaseFromCommit, setRebaseFromCommit] = useState<GitCommit | null>(null)
+    const [messageEdit, setMessageEdit] = useState<CommitMessageEditRequest | null>(null)
+    const [isRunningAction, setIsRunningAction] = useState(false)
+
+    const refreshAfterHistoryChange = () => {
+        invalidateProjectGitOverview(projectPath)
+        void refreshGitData(true, { quiet: true, mode: 'full' }).catch(() => undefined)
+    }
+
+    const runPendingAction = async (action: PendingHistoryAction) => {
+        setPendingAction(null)
+        setIsRunningAction(true)
+        try {
+            const result = action.kind === 'reset'
+                ? await window.devscope.resetToCommit(projectPath, action.commit.hash, action.mode)
+                : action.kind === 'undo'
+                    ? await window.devscope.undoLastCommit(projectPath, action.isPushed)
+                    : action.kind === 'revert'
+                        ? await window.devscope.revertCommit(projectPath, action.commit.hash)
+                        : await window.devscope.cherryPickCommit(projectPath, action.commit.hash)
+            if (!result?.success) throw new Error(result?.error || `Failed to ${action.kind} commit`)
+
+            showToast(
+                action.kind === 'reset'
+                    ? `Reset to ${action.commit.shortHash} (${action.mode}).`
+                    : action.kind === 'undo'
+                        ? `Undid ${action.commit.shortHash}; its changes are staged.`
+                        : action.kind === 'revert'
+                            ? `Reverted ${action.commit.shortHash}.`
+                            : `Cherry-picked ${action.commit.shortHash}.`,
+                undefined,
+                undefined,
+                'success'
+            )
+        } catch (err: any) {
+            showToast(err?.message || `Failed to ${action.kind} commit`, undefined, undefined, 'error')
+        } finally {
+            setIsRunningAction(false)
+            // Failed cherry-picks and reverts can leave conflicts behind, so refresh either way.
+            refreshAfterHistoryChange()
+        }
+    }
+
+    // Same source as the main-process guard: commits missing from the unpushed list are treated as published.
+    const isCommitPushed = (commit: GitCommit) => Boolean(localOnlyCommitHashes) && !localOnlyCommitHashes.has(commit.hash)
+    const headCommitHash = visibleHistorySource[0]?.hash
+
+    const getCommitActions = (commit: GitCommit): FileActionsMenuItem[] => [
+        ...(commit.hash === headCommitHash
+            ? [
+                { id: 'amend', label: 'Amend last commit', icon: <GitCommitVertical size={13} />, disabled: isRunningAction, onSelect: () => setMessageEdit({ mode: 'amend', commit }) },
+                { id: 'undo', label: 'Undo commit (keep changes staged)', icon: <Undo size={13} />, disabled: isRunningAction, onSelect: () => setPendingAction({ kind: 'undo', commit, isPushed: isCommitPushed(commit) }) }
+            ]
+            : []),
+        { id: 'reword', label: 'Edit message', icon: <PencilLine size={13} />, disabled: isRunningAction, onSelect: () => setMessageEdit({ mode: 'reword', commit }) },
+        { id: 'cherry-pick', label: 'Cherry-pick onto current branch', icon: <Cherry size={13} />, disabled: isRunningAction, onSelect: () => setPendingAction({ kind: 'cherry-pick', commit }) },
+        { id: 'revert', label: 'Revert commit', icon: <Undo2 size={13} />, disabled: isRunningAction, onSelect: () => setPendingAction({ kind: 'revert', commit }) },
+        { id: 'rebase', label: 'Interactive rebase from here', icon: <ListRestart size={13} />, disabled: isRunningAction, onSelect: () => setRebaseFromCommit(commit) },
+        { id: 'reset-soft', label: 'Reset to here (soft)', icon: <RotateCcw size={13} />, disabled: isRunningAction, onSelect: () => setPendingAction({ kind: 'reset', mode: 'soft', commit }) },
+        { id: 'reset-mixed', label: 'Reset to here (mixed)', icon: <RotateCcw size={13} />, disabled: isRunningAction, onSelect: () => setPendingAction({ kind: 'reset', mode: 'mixed', commit }) },
+        { id: 'reset-hard', label: 'Reset to here (hard)', icon: <RotateCcw size={13} />, disabled: isRunningAction, danger: true, onSelect: () => setPendingAction({ kind: 'reset', mode: 'hard', commit }) }
+    ]
+    const pendingCopy = pendingAction ? describeHistoryAction(pendingAction, currentBranch) : null
 
     if (historyLoading && visibleHistorySource.length === 0) {
         return (
@@ -47,6 +157,7 @@ export function ProjectDetailsGitHistoryView(props: any) {
                 localOnlyCommitHashes={localOnlyCommitHashes}
                 hasRemote={hasRemote}
                 remoteHeadCommitHash={remoteHeadCommitHash}
+                getCommitActions={projectPath ? getCommitActions : undefined}
             />
             {(effectiveHistoryTotalCount > COMMITS_PER_PAGE || historyHasMore || loadingMoreHistory) && (
                 <div className="flex items-center justify-between pt-4 mt-4 border-t border-white/5">
@@ -70,6 +181,38 @@ export function ProjectDetailsGitHistoryView(props: any) {
                     </div>
                 </div>
             )}
+            <ConfirmModal
+                isOpen={Boolean(pendingAction)}
+                title={pendingCopy?.title || ''}
+                message={pendingCopy?.message || ''}
+                confirmLabel={pendingCopy?.confirmLabel}
+                onConfirm={() => {
+                    if (pendingAction) void runPendingAction(pendingAction)
+                }}
+                onCancel={() => setPendingAction(null)}
+                variant={(pendingAction?.kind === 'reset' && pendingAction.mode === 'hard') || (pendingAction?.kind === 'undo' && pendingAction.isPushed) ? 'danger' : 'warning'}
+            />
+            <GitCommitMessageModal
+                projectPath={projectPath}
+                request={messageEdit}
+                isPushed={messageEdit ? isCommitPushed(messageEdit.commit) : false}
+                onClose={() => setMessageEdit(null)}
+                onFinished={(message) => {
+                    setMessageEdit(null)
+                    showToast(message, undefined, undefined, 'success')
+                    refreshAfterHistoryChange()
+                }}
+            />
+            <GitRebaseEditorModal
+                projectPath={projectPath}
+                fromCommit={rebaseFromCommit}
+                localOnlyCommitHashes={localOnlyCommitHashes}
+                onClose={() => setRebaseFromCommit(null)}
+                onFinished={(result) => {
+                    if (result.success) showToast('Rebase complete.', undefined, undefined, 'success')
+                    refreshAfterHistoryChange()
+                }}
+            />
         </>
     )
 }
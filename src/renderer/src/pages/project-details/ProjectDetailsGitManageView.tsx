@@ -3,6 +3,10 @@ import { buildGitPublishPlan } from '@/lib/gitPublishPlanner'
 import { cn } from '@/lib/utils'
 import { Select } from '@/components/ui/FormControls'
 import { DiffStats } from './DiffStats'
+import { GitSigningPanel } from './GitSigningPanel'
+import { GitSubmodulesPanel } from './GitSubmodulesPanel'
+import { GitTagsPanel } from './GitTagsPanel'
+import { GitWorktreesPanel } from './GitWorktreesPanel'
 
 interface ProjectDetailsGitManageViewProps {
     [key: string]: any
@@ -34,12 +38,16 @@ export function ProjectDetailsGitManageView(props: ProjectDetailsGitManageViewPr
         tags,
         stashes,
         githubPublishContext,
-        hasGitHubRemote,
+        hasForgeRemote,
         pullRequestActionLabel,
         pullRequestActionHint,
-        pullRequestActionDisabled
+        pullRequestActionDisabled,
+        decodedPath,
+        showToast,
+        refreshGitData
     } = props
     const loadingCounts = loadingGit && !gitError
+    const submoduleStatusToken = changedFiles.map((file: any) => `${file.gitStatus}:${file.path}`).join('|')
     const hasAnyGitSurfaceData = Boolean(
         changedFiles.length > 0
         || unpushedCommits.length > 0
@@ -143,6 +151,35 @@ export function ProjectDetailsGitManageView(props: ProjectDetailsGitManageViewPr
                 </div>
             </div>
 
+            {decodedPath && (
+                <GitWorktreesPanel
+                    projectPath={decodedPath}
+                    branches={branches}
+                    showToast={showToast}
+                    refreshGitData={refreshGitData}
+                />
+            )}
+
+            {decodedPath && (
+                <GitSubmodulesPanel
+                    projectPath={decodedPath}
+                    statusToken={submoduleStatusToken}
+                    showToast={showToast}
+                    refreshGitData={refreshGitData}
+                />
+            )}
+
+            {decodedPath && (
+                <GitTagsPanel
+                    projectPath={decodedPath}
+                    hasRemote={hasRemote}
+                    showToast={showToast}
+                    refreshGitData={refreshGitData}
+                />
+            )}
+
+            {decodedPath && <GitSigningPanel projectPath={decodedPath} showToast={showToast} />}
+
             {hasRemote === true && (
                 <div className="rounded-xl border border-white/5 bg-white/[0.02] p-4">
                     <div className="flex items-start justify-between gap-3">
@@ -152,9 +189,9 @@ export function ProjectDetailsGitManageView(props: ProjectDetailsGitManageViewPr
                                 Pull Requests
                             </h3>
                             <p className="mt-1 text-xs text-white/48">
-                                {hasGitHubRemote
+                                {hasForgeRemote
                                     ? pullRequestActionHint
-                                    : 'Add a GitHub remote to use the built-in PR flow. Standard Git push and pull still work with any remote.'}
+                                    : 'Add a GitHub, GitLab or Gitea remote to use the built-in PR flow. Standard Git push and pull still work with any remote.'}
                             </p>
                         </div>
                         <button
@@ -167,7 +204,7 @@ export function ProjectDetailsGitManageView(props: ProjectDetailsGitManageViewPr
                                     : 'bg-[var(--accent-primary)]/16 text-white hover:bg-[var(--accent-primary)]/24'
                             )}
                         >
-                            {hasGitHubRemote ? pullRequestActionLabel : 'GitHub Remote Required'}
+                            {hasForgeRemote ? pullRequestActionLabel : 'Forge Remote Required'}
                         </button>
                     </div>
                 </div>
@@ -68,6 +68,7 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
         handleUnstageAll,
         handleDiscardUnstagedFile,
         handleDiscardUnstagedAll,
+        handleApplyPatchSelection,
         ensureStatsForPaths,
         hasRemote,
         setInitStep,
@@ -87,11 +88,10 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
     const [showPullRequestModal, setShowPullRequestModal] = useState(false)
     const [showRepoInfoModal, setShowRepoInfoModal] = useState(false)
     const {
-        githubPublishContext,
         loadingGitHubPublishContext,
         gitHubPublishContextError,
         refreshGitHubPublishContext,
-        hasGitHubRemote,
+        hasForgeRemote,
         repoUsesForkOrigin,
         originRepoDisplay,
         upstreamRepoDisplay,
@@ -162,7 +162,7 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
     } = useCurrentBranchPullRequest({
         projectPath: decodedPath,
         currentBranch,
-        enabled: hasGitHubRemote === true
+        enabled: hasForgeRemote === true
     })
     const pullRequestActionLabel = loadingCurrentBranchPullRequest
         ? 'Checking PR...'
@@ -229,13 +229,12 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
                 {gitView === 'manage' ? (
                     <ProjectDetailsGitManageView
                         {...props}
-                        githubPublishContext={githubPublishContext}
-                        loadingGitHubPublishContext={loadingGitHubPublishContext}
+                                loadingGitHubPublishContext={loadingGitHubPublishContext}
                         gitHubPublishContextError={gitHubPublishContextError}
-                        hasGitHubRemote={hasGitHubRemote}
+                        hasForgeRemote={hasForgeRemote}
                         pullRequestActionLabel={pullRequestActionLabel}
                         pullRequestActionHint={pullRequestActionHint}
-                        pullRequestActionDisabled={!hasGitHubRemote || loadingCurrentBranchPullRequest}
+                        pullRequestActionDisabled={!hasForgeRemote || loadingCurrentBranchPullRequest}
                         onOpenCreatePullRequest={handlePrimaryPullRequestAction}
                     />
                 ) : gitView === 'changes' ? (
@@ -249,7 +248,7 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
                         isGeneratingCommitMessage={isGeneratingCommitMessage}
                         isCommitting={isCommitting}
                         isStackedActionRunning={isStackedActionRunning}
-                        hasGitHubRemote={hasGitHubRemote}
+                        hasForgeRemote={hasForgeRemote}
                         settings={settings}
                         updateSettings={updateSettings}
                         currentBranch={currentBranch}
@@ -264,6 +263,7 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
                         handleUnstageAll={handleUnstageAll}
                         handleDiscardUnstagedFile={handleDiscardUnstagedFile}
                         handleDiscardUnstagedAll={handleDiscardUnstagedAll}
+                        handleApplyPatchSelection={handleApplyPatchSelection}
                         ensureStatsForPaths={ensureStatsForPaths}
                         refreshGitData={refreshGitData}
                     />
@@ -276,9 +276,9 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
                         currentBranch={currentBranch}
                         branches={branches}
                         remotes={remotes}
-                        hasGitHubRemote={hasGitHubRemote}
+                        hasForgeRemote={hasForgeRemote}
                         pullRequestActionLabel={pullRequestActionLabel}
-                        pullRequestActionDisabled={!hasGitHubRemote || loadingCurrentBranchPullRequest}
+                        pullRequestActionDisabled={!hasForgeRemote || loadingCurrentBranchPullRequest}
                         onPushCommits={handlePush}
                         isPushing={isPushing}
                         onOpenCreatePullRequest={handlePrimaryPullRequestAction}
@@ -335,6 +335,10 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
                         totalHistoryPages={totalHistoryPages}
                         setCommitPage={setCommitPage}
                         handleNextHistoryPage={handleNextHistoryPage}
+                        projectPath={decodedPath}
+                        currentBranch={currentBranch}
+                        refreshGitData={refreshGitData}
+                        showToast={showToast}
                     />
                     ) : null}
             </div>
@@ -349,7 +353,6 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
                 unstagedFiles={unstagedFiles}
                 stagedFiles={stagedFiles}
                 unpushedCommits={unpushedCommits}
-                githubPublishContext={githubPublishContext}
                 initialPullRequest={currentBranchPullRequest}
                 settings={settings}
                 updateSettings={updateSettings}
@@ -364,7 +367,6 @@ export function ProjectDetailsGitTab(props: ProjectDetailsGitTabProps) {
                 originRemoteUrl={originRemoteUrl}
                 upstreamRepoDisplay={upstreamRepoDisplay}
                 upstreamRemoteUrl={upstreamRemoteUrl}
-                githubPublishContext={githubPublishContext}
                 repoUsesForkOrigin={repoUsesForkOrigin}
                 ensureUpstreamRemote={ensureUpstreamRemote}
                 repoFlowSummary={repoFlowSummary}
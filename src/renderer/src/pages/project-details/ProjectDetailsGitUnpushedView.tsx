@@ -15,7 +15,7 @@ export function ProjectDetailsGitUnpushedView(props: {
     currentBranch: string
     branches: any[]
     remotes: any[]
-    hasGitHubRemote: boolean
+    hasForgeRemote: boolean
     pullRequestActionLabel: string
     pullRequestActionDisabled: boolean
     onPushCommits: (options?: { commitHash?: string }) => Promise<void> | void
@@ -33,7 +33,7 @@ export function ProjectDetailsGitUnpushedView(props: {
         currentBranch,
         branches,
         remotes,
-        hasGitHubRemote,
+        hasForgeRemote,
         pullRequestActionLabel,
         pullRequestActionDisabled,
         onPushCommits,
@@ -117,7 +117,7 @@ export function ProjectDetailsGitUnpushedView(props: {
                                 className="inline-flex items-center justify-center gap-2 rounded-lg bg-white/[0.05] px-3 py-2 text-xs font-medium text-white transition-colors hover:bg-white/[0.08] disabled:cursor-not-allowed disabled:bg-white/[0.04] disabled:text-white/35"
                             >
                                 <GitPullRequest size={14} />
-                                {hasGitHubRemote ? pullRequestActionLabel : 'GitHub Remote Required'}
+                                {hasForgeRemote ? pullRequestActionLabel : 'Forge Remote Required'}
                             </button>
                         </div>
                         <div className="text-[11px] text-white/45">
@@ -2,9 +2,10 @@ import { useMemo, useState } from 'react'
 import {
     ArrowLeft, FolderOpen, Terminal, ExternalLink,
     RefreshCw, Copy, Check, BookOpen, Package,
-    GitBranch, GitPullRequest, Folder
+    GitBranch, GitPullRequest, Folder, ShieldCheck
 } from 'lucide-react'
 import { OpenWithProjectButton } from '@/components/ui/OpenWithProjectButton'
+import { resolveProjectShell } from '@/lib/settings-terminal-shells'
 import { cn } from '@/lib/utils'
 import ProjectIcon, { FrameworkBadge } from '@/components/ui/ProjectIcon'
 import { DiffStats } from './DiffStats'
@@ -234,7 +235,7 @@ export function ProjectDetailsHeaderSection(props: ProjectDetailsHeaderSectionPr
                     )}>
                         <OpenWithProjectButton
                             projectPath={project?.path || null}
-                            preferredShell={settings.defaultShell}
+                            preferredShell={resolveProjectShell(settings, project?.path)}
                             menuWidthMode="trigger"
                             menuPresentation="inline"
                             menuOpen={openWithMenuOpen}
@@ -344,6 +345,19 @@ export function ProjectDetailsHeaderSection(props: ProjectDetailsHeaderSectionPr
                                     </span>
                                 )}
                             </button>
+                            {project.markers?.includes('package.json') && (
+                                <button
+                                    onClick={() => setActiveTab('audit')}
+                                    className={cn(
+                                        'flex h-full min-w-[58px] flex-1 shrink-0 items-center justify-center gap-2 rounded-lg font-medium transition-colors sm:min-w-[96px]',
+                                        isCondensedLayout ? 'text-[13px]' : 'text-sm',
+                                        activeTab === 'audit' ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white hover:bg-white/5'
+                                    )}
+                                >
+                                    <ShieldCheck size={isCondensedLayout ? 14 : 15} />
+                                    <span className="hidden sm:inline">Audit</span>
+                                </button>
+                            )}
                         </div>
                     </div>
 
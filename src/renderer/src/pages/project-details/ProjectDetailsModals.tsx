@@ -2,20 +2,20 @@ import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react'
 import { AlertCircle, AlertTriangle, CheckCircle2, Command, ExternalLink, HelpCircle, Loader2, Package, Play, Search, X } from 'lucide-react'
 import { ProjectAuthorMismatchModal } from './ProjectAuthorMismatchModal'
 import { ProjectScriptCatalogModal } from './ProjectScriptCatalogModal'
+import type { DevScopeDependencyEcosystem, DevScopeDependencyInstallStatus } from '@shared/contracts/devscope-project-contracts'
 
 export const ScriptCatalogModal = ProjectScriptCatalogModal
 export const AuthorMismatchModal = ProjectAuthorMismatchModal
 
-type DependencyInstallStatus = {
-    installed: boolean | null
-    checked: boolean
-    ecosystem: 'node' | 'unknown'
-    totalPackages: number
-    installedPackages: number
-    missingPackages: number
-    missingDependencies?: string[]
-    missingSample?: string[]
-    reason?: string
+const INSTALL_OUTPUT_MAX_LENGTH = 20000
+
+function getDependencyRegistryLink(ecosystem: DevScopeDependencyEcosystem | undefined, name: string): { href: string; label: string } {
+    const encodedName = encodeURIComponent(name)
+    if (ecosystem === 'python') return { href: `https://pypi.org/project/${encodedName}/`, label: 'View on PyPI' }
+    if (ecosystem === 'rust') return { href: `https://crates.io/crates/${encodedName}`, label: 'View on crates.io' }
+    if (ecosystem === 'go') return { href: `https://pkg.go.dev/${name}`, label: 'View on pkg.go.dev' }
+    if (ecosystem === 'dotnet') return { href: `https://www.nuget.org/packages/${encodedName}`, label: 'View on NuGet' }
+    return { href: `https://www.npmjs.com/package/${name}`, label: 'View on npm' }
 }
 
 export function DependenciesModal({
@@ -31,7 +31,7 @@ export function DependenciesModal({
     projectPath?: string
     dependencies?: Record<string, string>
     devDependencies?: Record<string, string>
-    dependencyInstallStatus?: DependencyInstallStatus | null
+    dependencyInstallStatus?: DevScopeDependencyInstallStatus | null
     onDependenciesUpdated?: () => Promise<void> | void
     onClose: () => void
 }) {
@@ -39,6 +39,9 @@ export function DependenciesModal({
     const [installing, setInstalling] = useState(false)
     const [installFeedbackTone, setInstallFeedbackTone] = useState<'idle' | 'progress' | 'success' | 'error'>('idle')
     const [installFeedbackMessage, setInstallFeedbackMessage] = useState<string>('')
+    const [installOutput, setInstallOutput] = useState('')
+    const activeInstallIdRef = useRef<string | null>(null)
+    const installOutputRef = useRef<HTMLPreElement | null>(null)
     const listRef = useRef<HTMLDivElement | null>(null)
     const deferredSearch = useDeferredValue(search)
     const searchValue = deferredSearch.toLowerCase()
@@ -113,6 +116,9 @@ export function DependenciesModal({
         const targetPath = String(projectPath || '').trim()
         if (!targetPath || installing) return
 
+        const installId = `deps-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+        activeInstallIdRef.current = installId
+        setInstallOutput('')
         setInstalling(true)
         setInstallFeedbackTone('progress')
         setInstallFeedbackMessage(
@@ -122,7 +128,10 @@ export function DependenciesModal({
         )
 
         try {
-            const result = await window.devscope.installProjectDependencies(targetPath, { onlyMissing: mode === 'missing' })
+            const result = await window.devscope.installProjectDependencies(targetPath, {
+                onlyMissing: mode === 'missing',
+                installId
+            })
             if (!result?.success) {
                 setInstallFeedbackTone('error')
                 setInstallFeedbackMessage(result?.error || 'Dependency installation failed.')
@@ -144,10 +153,25 @@ export function DependenciesModal({
             setInstallFeedbackTone('error')
             setInstallFeedbackMessage(error?.message || 'Dependency installation failed.')
         } finally {
+            activeInstallIdRef.current = null
             setInstalling(false)
         }
     }
 
+    useEffect(() => {
+        if (!window.devscope.onDependencyInstallOutput) return undefined
+        return window.devscope.onDependencyInstallOutput((event) => {
+            if (!event.installId || event.installId !== activeInstallIdRef.current) return
+            setInstallOutput((current) => (current + event.chunk).slice(-INSTALL_OUTPUT_MAX_LENGTH))
+        })
+    }, [])
+
+    useEffect(() => {
+        const container = installOutputRef.current
+        if (!container) return
+        container.scrollTop = container.scrollHeight
+    }, [installOutput])
+
     useEffect(() => {
         const originalOverflow = document.body.style.overflow
         document.body.style.overflow = 'hidden'
@@ -277,6 +301,15 @@ export function DependenciesModal({
                                         <span className="leading-relaxed">{installFeedbackMessage}</span>
                                     </div>
                                 )}
+
+                                {installOutput && (
+                                    <pre
+                                        ref={installOutputRef}
+                                        className="mt-2.5 max-h-48 overflow-auto custom-scrollbar rounded-lg border border-white/10 bg-black/40 p-2.5 text-[10px] leading-relaxed text-white/65 font-mono whitespace-pre-wrap break-all"
+                                    >
+                                        {installOutput}
+                                    </pre>
+                                )}
                             </div>
                         </div>
                     </aside>
@@ -305,6 +338,7 @@ export function DependenciesModal({
                                 <div className="grid grid-cols-1 gap-2">
                                     {filtered.map(({ name, version, scope }) => {
                                         const isMissing = missingDependencySet.has(name.toLowerCase())
+                                        const registryLink = getDependencyRegistryLink(dependencyInstallStatus?.ecosystem, name)
                                         const presenceTone = dependencyInstallStatus?.checked
                                             ? isMissing ? 'missing' : 'installed'
                                             : 'unknown'
@@ -336,11 +370,11 @@ export function DependenciesModal({
                                                 <div className="flex items-center gap-3">
                                                     <span className="text-xs text-white/40 font-mono px-2 py-1 rounded bg-black/30 border border-white/5">{version}</span>
                                                     <a
-                                                        href={`https://www.npmjs.com/package/${name}`}
+                                                        href={registryLink.href}
                                                         target="_blank"
                                                         rel="noopener noreferrer"
                                                         className="rounded-lg p-1.5 text-[var(--accent-primary)] hover:bg-[var(--accent-primary)]/10"
-                                                        title="View on npm"
+                                                        title={registryLink.label}
                                                     >
                                                         <ExternalLink size={14} />
                                                     </a>
@@ -3,6 +3,8 @@ import { useNavigate, useParams } from 'react-router-dom'
 import { useTerminal } from '@/App'
 import { useFilePreview } from '@/components/ui/FilePreviewModal'
 import { useSettings } from '@/lib/settings'
+import { resolveProjectShell } from '@/lib/settings-terminal-shells'
+import { toExternalTerminalShell } from '@shared/terminal-shells'
 import { isFileTreeFullyLoaded } from './fileTreeUtils'
 import { buildProjectDetailsPageViewProps } from './buildProjectDetailsPageViewProps'
 import { createProjectGitActions } from './gitActions'
@@ -15,6 +17,7 @@ import { useProjectDetailsViewState } from './useProjectDetailsViewState'
 import { useProjectFileTreeActions } from './useProjectFileTreeActions'
 import { useProjectFileView } from './useProjectFileView'
 import { useProjectGitStats } from './useProjectGitStats'
+import { useRunConfigurations } from './useRunConfigurations'
 import { useScriptRunModal } from './useScriptRunModal'
 
 export default function ProjectDetailsPage() {
@@ -42,11 +45,15 @@ export default function ProjectDetailsPage() {
         )
     }
 
+    const projectShell = resolveProjectShell(settings, decodedPath)
+    const runConfigurations = useRunConfigurations(state.project?.path, projectShell)
+
     const scriptModal = useScriptRunModal({
         project: state.project,
-        defaultShell: settings.defaultShell,
+        defaultShell: toExternalTerminalShell(projectShell),
         packageRuntimePreference: settings.packageRuntimePreference,
-        openTerminal
+        openTerminal,
+        onSaveRunConfiguration: runConfigurations.openEditor
     })
 
     const chrome = useProjectDetailsChromeActions({
@@ -156,6 +163,11 @@ export default function ProjectDetailsPage() {
         state.setTargetBranch(derived.currentBranch)
     }, [derived.currentBranch, state.setTargetBranch])
 
+    useEffect(() => {
+        if (!decodedPath) return
+        void window.devscope.relaunchPreviewTerminalsForPath({ targetPath: decodedPath }).catch(() => undefined)
+    }, [decodedPath])
+
     const fileView = useProjectFileView({
         projectRootPath: derived.projectRootPath,
         fileTree: state.fileTree,
@@ -292,6 +304,7 @@ export default function ProjectDetailsPage() {
         state,
         preview,
         scriptModal,
+        runConfigurations,
         chrome,
         gitLifecycle,
         gitStats,
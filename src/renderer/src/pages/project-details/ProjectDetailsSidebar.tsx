@@ -1,4 +1,4 @@
-import { AlertTriangle, CheckCircle2, Command, HelpCircle, Package, Play } from 'lucide-react'
+import { AlertTriangle, BookmarkPlus, CheckCircle2, Command, HelpCircle, Package, Play } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import {
     SCRIPT_INTENT_BADGE_CLASSES,
@@ -8,6 +8,14 @@ import {
     type ScriptIntentPrediction
 } from './scriptRun'
 import { ProjectDetailsInlineLoading } from './ProjectDetailsInlineLoading'
+import { ProjectDetailsWorkspaceCard } from './ProjectDetailsWorkspace'
+import { RunConfigurationsCard } from './RunConfigurationsCard'
+import type { RunConfigurationsController } from './useRunConfigurations'
+import type {
+    DevScopeDependencyInstallStatus,
+    DevScopeWorkspaceKind,
+    DevScopeWorkspacePackage
+} from '@shared/contracts/devscope-project-contracts'
 
 export function ProjectDetailsSidebar({
     dockOpen = false,
@@ -15,31 +23,29 @@ export function ProjectDetailsSidebar({
     dependencies,
     devDependencies,
     dependencyInstallStatus,
+    workspaceKinds,
+    workspacePackages,
     loadingProjectDetails = false,
     scriptPredictions,
     scriptIntentContext,
+    runConfigurations,
     onRunScript,
+    onSaveScriptAsConfiguration,
     onShowDependencies
 }: {
     dockOpen?: boolean
     scripts?: Record<string, string>
     dependencies?: Record<string, string>
     devDependencies?: Record<string, string>
-    dependencyInstallStatus?: {
-        installed: boolean | null
-        checked: boolean
-        ecosystem: 'node' | 'unknown'
-        totalPackages: number
-        installedPackages: number
-        missingPackages: number
-        missingDependencies?: string[]
-        missingSample?: string[]
-        reason?: string
-    } | null
+    dependencyInstallStatus?: DevScopeDependencyInstallStatus | null
+    workspaceKinds?: DevScopeWorkspaceKind[]
+    workspacePackages?: DevScopeWorkspacePackage[]
     loadingProjectDetails?: boolean
     scriptPredictions: Record<string, ScriptIntentPrediction>
     scriptIntentContext: ScriptIntentContext
+    runConfigurations?: RunConfigurationsController
     onRunScript: (name: string, command: string) => void
+    onSaveScriptAsConfiguration?: (name: string, command: string) => void
     onShowDependencies: () => void
 }) {
     const scriptEntries = Object.entries(scripts || {})
@@ -92,6 +98,12 @@ export function ProjectDetailsSidebar({
                 </>
             )}
 
+            <ProjectDetailsWorkspaceCard workspaceKinds={workspaceKinds} workspacePackages={workspacePackages} />
+
+            {runConfigurations && (
+                <RunConfigurationsCard runConfigurations={runConfigurations} scriptIntentContext={scriptIntentContext} />
+            )}
+
             {hasScripts && (
                 <div className="bg-sparkle-card border border-white/5 rounded-2xl overflow-hidden shadow-sm flex flex-col">
                     <div className="px-5 py-4 border-b border-white/5 bg-white/[0.02] flex items-center justify-between">
@@ -131,6 +143,15 @@ export function ProjectDetailsSidebar({
                                         </div>
                                         <p className="text-xs text-white/40 truncate font-mono mt-0.5">{command}</p>
                                     </div>
+                                    {onSaveScriptAsConfiguration && (
+                                        <button
+                                            onClick={() => onSaveScriptAsConfiguration(name, command)}
+                                            className="p-1.5 rounded-md text-white/30 opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/10 transition-all shrink-0"
+                                            title="Save as Run Configuration"
+                                        >
+                                            <BookmarkPlus size={14} />
+                                        </button>
+                                    )}
                                 </div>
                             )
                         })}
@@ -2,6 +2,7 @@ import { AlertCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { FilePreviewModal } from '@/components/ui/FilePreviewModal'
 import { ServerScriptRunModal } from './ServerScriptRunModal'
+import { RunConfigurationEditorModal } from './RunConfigurationEditorModal'
 
 export interface ProjectDetailsTransientUiProps {
     [key: string]: any
@@ -26,6 +27,8 @@ export function ProjectDetailsTransientUi(props: ProjectDetailsTransientUiProps)
         scriptRunner,
         closeScriptRunModal,
         handleConfirmScriptRun,
+        handleSaveScriptRunConfiguration,
+        runConfigurations,
         projectPath,
         previewFile,
         previewTabs,
@@ -80,8 +83,18 @@ export function ProjectDetailsTransientUi(props: ProjectDetailsTransientUiProps)
                 scriptRunner={scriptRunner}
                 onClose={closeScriptRunModal}
                 onConfirm={handleConfirmScriptRun}
+                onSaveAsConfiguration={runConfigurations ? handleSaveScriptRunConfiguration : undefined}
             />
 
+            {runConfigurations && (
+                <RunConfigurationEditorModal
+                    draft={runConfigurations.editorDraft}
+                    configurations={runConfigurations.configurations}
+                    onSave={runConfigurations.save}
+                    onClose={runConfigurations.closeEditor}
+                />
+            )}
+
             {previewFile && (
                 <FilePreviewModal
                     file={previewFile}
@@ -0,0 +1,121 @@
+import { useNavigate } from 'react-router-dom'
+import { ArrowUpRight, Boxes, GitBranch, Link2 } from 'lucide-react'
+import type {
+    DevScopeWorkspaceKind,
+    DevScopeWorkspacePackage,
+    DevScopeWorkspaceRootSummary
+} from '@shared/contracts/devscope-project-contracts'
+
+const WORKSPACE_KIND_LABELS: Record<DevScopeWorkspaceKind, string> = {
+    pnpm: 'pnpm',
+    yarn: 'Yarn',
+    npm: 'npm',
+    bun: 'Bun',
+    cargo: 'Cargo',
+    go: 'Go work'
+}
+
+function formatWorkspaceKinds(kinds: DevScopeWorkspaceKind[]): string {
+    return kinds.map((kind) => WORKSPACE_KIND_LABELS[kind] || kind).join(' + ')
+}
+
+function toProjectRoute(projectPath: string): string {
+    return `/projects/${encodeURIComponent(projectPath)}`
+}
+
+export function ProjectDetailsWorkspaceBanner({
+    parentWorkspace
+}: {
+    parentWorkspace?: DevScopeWorkspaceRootSummary | null
+}) {
+    const navigate = useNavigate()
+    if (!parentWorkspace) return null
+
+    return (
+        <div className="flex items-center gap-3 rounded-2xl border border-white/5 bg-sparkle-card px-4 py-3 shadow-sm">
+            <Boxes size={18} className="shrink-0 text-[var(--accent-primary)]" />
+            <div className="min-w-0 flex-1">
+                <div className="truncate text-sm text-white/80">
+                    Member of the <span className="font-medium text-white">{parentWorkspace.name}</span> {formatWorkspaceKinds(parentWorkspace.kinds)} workspace
+                </div>
+                <div className="mt-0.5 flex items-center gap-1.5 text-xs text-white/40">
+                    <GitBranch size={12} />
+                    Git actions apply to the whole repository.
+                </div>
+            </div>
+            <button
+                onClick={() => navigate(toProjectRoute(parentWorkspace.path))}
+                className="inline-flex shrink-0 items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+            >
+                Open workspace
+                <ArrowUpRight size={13} />
+            </button>
+        </div>
+    )
+}
+
+export function ProjectDetailsWorkspaceCard({
+    workspaceKinds,
+    workspacePackages
+}: {
+    workspaceKinds?: DevScopeWorkspaceKind[]
+    workspacePackages?: DevScopeWorkspacePackage[]
+}) {
+    const navigate = useNavigate()
+    const packages = workspacePackages || []
+    if (packages.length === 0) return null
+
+    return (
+        <div className="bg-sparkle-card border border-white/5 rounded-2xl overflow-hidden shadow-sm flex flex-col">
+            <div className="px-5 py-4 border-b border-white/5 bg-white/[0.02] flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-white/80 font-medium min-w-0">
+                    <Boxes size={18} className="text-emerald-400" />
+                    <span>Workspace</span>
+                    {workspaceKinds && workspaceKinds.length > 0 && (
+                        <span className="text-[10px] px-2 py-1 rounded-md border border-white/10 bg-white/5 text-white/50 truncate">
+                            {formatWorkspaceKinds(workspaceKinds)}
+                        </span>
+                    )}
+                </div>
+                <span className="text-xs bg-white/5 text-white/40 px-2 py-1 rounded-md">
+                    {packages.length}
+                </span>
+            </div>
+            <div className="max-h-[380px] overflow-y-auto custom-scrollbar p-2">
+                {packages.map((member) => {
+                    const scriptCount = Object.keys(member.scripts || {}).length
+                    return (
+                        <button
+                            key={member.path}
+                            onClick={() => navigate(toProjectRoute(member.path))}
+                            className="group w-full text-left p-3 hover:bg-white/5 rounded-xl transition-colors border border-transparent hover:border-white/5"
+                            title={member.path}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-sm font-medium text-white/90 truncate">{member.name}</span>
+                                <div className="flex items-center gap-1.5 shrink-0">
+                                    <span className="text-[10px] uppercase tracking-wide px-2 py-0.5 rounded-full border border-white/10 bg-white/5 text-white/50">
+                                        {member.type}
+                                    </span>
+                                    {scriptCount > 0 && (
+                                        <span className="text-[10px] text-white/45 bg-white/10 px-1.5 py-0.5 rounded-full border border-white/10">
+                                            {scriptCount} {scriptCount === 1 ? 'script' : 'scripts'}
+                                        </span>
+                                    )}
+                                    <ArrowUpRight size={13} className="text-white/30 group-hover:text-white/70" />
+                                </div>
+                            </div>
+                            <p className="text-xs text-white/40 truncate font-mono mt-0.5">{member.relativePath}</p>
+                            {member.workspaceDependencies.length > 0 && (
+                                <div className="mt-1.5 flex items-center gap-1.5 text-[11px] text-white/45 min-w-0">
+                                    <Link2 size={11} className="shrink-0" />
+                                    <span className="truncate">{member.workspaceDependencies.join(', ')}</span>
+                                </div>
+                            )}
+                        </button>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
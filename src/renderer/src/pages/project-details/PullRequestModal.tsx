@@ -118,9 +118,9 @@ export function PullRequestModal(props: PullRequestModalProps) {
                                     </StatusBanner>
                                 ) : null}
 
-                                {!controller.hasGitHubRemote ? (
+                                {!controller.hasForgeRemote ? (
                                     <InlineHint>
-                                        Add a GitHub remote before using the built-in PR flow.
+                                        Add a GitHub, GitLab or Gitea remote before using the built-in PR flow.
                                     </InlineHint>
                                 ) : null}
 
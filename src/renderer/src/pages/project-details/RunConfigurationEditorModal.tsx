@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react'
+import { ListChecks, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useTerminalShells } from '@/lib/terminalShells'
+import type { DevScopeRunConfiguration, DevScopeRunReadiness, DevScopeRunRestartPolicy } from '@shared/contracts/devscope-api'
+import { getShellLabel } from '@shared/terminal-shells'
+import { RUN_READINESS_LABELS, RUN_RESTART_POLICY_LABELS, formatEnvOverrides, isCompoundRunConfiguration } from './runConfigurations'
+import { parseEnvOverrideInput } from './scriptRun'
+
+const INPUT_CLASS = 'w-full rounded-lg border border-white/10 bg-black/25 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:outline-none focus:border-[var(--accent-primary)]/40'
+const LABEL_CLASS = 'block text-xs font-medium text-white/60 mb-2'
+
+export function RunConfigurationEditorModal({
+    draft,
+    configurations,
+    onSave,
+    onClose
+}: {
+    draft: DevScopeRunConfiguration | null
+    configurations: DevScopeRunConfiguration[]
+    onSave: (configuration: DevScopeRunConfiguration) => Promise<boolean>
+    onClose: () => void
+}) {
+    const { availableShells } = useTerminalShells()
+    const [name, setName] = useState('')
+    const [isCompound, setIsCompound] = useState(false)
+    const [command, setCommand] = useState('')
+    const [cwd, setCwd] = useState('')
+    const [envInput, setEnvInput] = useState('')
+    const [shell, setShell] = useState('')
+    const [dependsOn, setDependsOn] = useState<string[]>([])
+    const [readyWhen, setReadyWhen] = useState<DevScopeRunReadiness>('exited')
+    const [compound, setCompound] = useState<string[]>([])
+    const [restartPolicy, setRestartPolicy] = useState<DevScopeRunRestartPolicy>('never')
+    const [maxRestartsInput, setMaxRestartsInput] = useState('3')
+    const [error, setError] = useState<string | null>(null)
+    const [saving, setSaving] = useState(false)
+
+    useEffect(() => {
+        if (!draft) return
+        setName(draft.name)
+        setIsCompound(isCompoundRunConfiguration(draft))
+        setCommand(draft.command)
+        setCwd(draft.cwd || '')
+        setEnvInput(formatEnvOverrides(draft.env))
+        setShell(draft.shell || '')
+        setDependsOn(draft.dependsOn || [])
+        setReadyWhen(draft.readyWhen || 'exited')
+        setCompound(draft.compound || [])
+        setRestartPolicy(draft.restartPolicy || 'never')
+        setMaxRestartsInput(String(draft.maxRestarts ?? 3))
+        setError(null)
+    }, [draft])
+
+    if (!draft) return null
+
+    const otherConfigurations = configurations.filter((entry) => entry.id !== draft.id)
+    const toggleId = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((entry) => entry !== id) : [...ids, id])
+
+    const handleSave = async () => {
+        const trimmedName = name.trim()
+        if (!trimmedName) {
+            setError('Give the configuration a name.')
+            return
+        }
+        if (isCompound && compound.length === 0) {
+            setError('Pick at least one configuration to launch together.')
+            return
+        }
+        if (!isCompound && !command.trim()) {
+            setError('Enter the command to run.')
+            return
+        }
+        const envResult = parseEnvOverrideInput(envInput)
+        if (envResult.error) {
+            setError(envResult.error)
+            return
+        }
+        const maxRestarts = Number(maxRestartsInput)
+        if (restartPolicy !== 'never' && (!Number.isInteger(maxRestarts) || maxRestarts < 0 || maxRestarts > 20)) {
+            setError('Max restarts must be a whole number between 0 and 20.')
+            return
+        }
+
+        setSaving(true)
+        const saved = await onSave({
+            id: draft.id,
+            name: trimmedName,
+            command: isCompound ? '' : command.trim(),
+            cwd: isCompound ? undefined : cwd.trim() || undefined,
+            env: isCompound ? undefined : envResult.envOverrides,
+            shell: isCompound ? undefined : shell || undefined,
+            dependsOn: isCompound ? [] : dependsOn,
+            readyWhen: isCompound ? 'exited' : readyWhen,
+            compound: isCompound ? compound : [],
+            restartPolicy: isCompound ? 'never' : restartPolicy,
+            maxRestarts: restartPolicy === 'never' ? 0 : maxRestarts
+        })
+        setSaving(false)
+        if (saved) onClose()
+    }
+
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/60 backdrop-blur-md animate-fadeIn" onClick={onClose}>
+            <div
+                className="w-full max-w-2xl max-h-[95vh] rounded-2xl border border-white/10 bg-sparkle-card shadow-2xl m-4 overflow-hidden flex flex-col"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="flex items-center justify-between px-5 py-4 border-b border-white/5 bg-white/[0.03]">
+                    <div className="flex items-center gap-2 text-white/90 font-medium">
+                        <ListChecks size={16} className="text-[var(--accent-primary)]" />
+                        <span>{configurations.some((entry) => entry.id === draft.id) ? 'Edit Run Configuration' : 'New Run Configuration'}</span>
+                    </div>
+                    <button onClick={onClose} className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors" title="Close">
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-1 space-y-4">
+                    <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+                        <div>
+                            <label className={LABEL_CLASS}>Name</label>
+                            <input value={name} onChange={(event) => setName(event.target.value)} placeholder="example: Serve app" className={INPUT_CLASS} />
+                        </div>
+                        <div>
+                            <label className={LABEL_CLASS}>Type</label>
+                            <div className="flex rounded-lg border border-white/10 bg-black/20 p-0.5 text-xs">
+                                {[false, true].map((compoundOption) => (
+                                    <button
+                                        key={String(compoundOption)}
+                                        type="button"
+                                        onClick={() => setIsCompound(compoundOption)}
+                                        className={cn(
+                                            'rounded-md px-3 py-1.5 transition-colors',
+                                            isCompound === compoundOption ? 'bg-white/10 text-white' : 'text-white/50 hover:text-white/80'
+                                        )}
+                                    >
+                                        {compoundOption ? 'Compound' : 'Command'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+
+                    {isCompound ? (
+                        <IdChecklist
+                            label="Launch together"
+                            emptyLabel="Save a few command configurations first."
+                            configurations={otherConfigurations.filter((entry) => !isCompoundRunConfiguration(entry))}
+                            selectedIds={compound}
+                            onToggle={(id) => setCompound((current) => toggleId(current, id))}
+                        />
+                    ) : (
+                        <>
+                            <div>
+                                <label className={LABEL_CLASS}>Command</label>
+                                <input value={command} onChange={(event) => setCommand(event.target.value)} placeholder="example: npm run dev" className={cn(INPUT_CLASS, 'font-mono')} />
+                            </div>
+                            <div className="grid gap-4 sm:grid-cols-2">
+                                <div>
+                                    <label className={LABEL_CLASS}>Working Directory (Optional)</label>
+                                    <input value={cwd} onChange={(event) => setCwd(event.target.value)} placeholder="Project root" className={cn(INPUT_CLASS, 'font-mono')} />
+                                </div>
+                                <div>
+                                    <label className={LABEL_CLASS}>Shell</label>
+                                    <select value={shell} onChange={(event) => setShell(event.target.value)} className={INPUT_CLASS}>
+                                        <option value="">Project default</option>
+                                        {shell && !availableShells.some((option) => option.id === shell) && (
+                                            <option value={shell}>{getShellLabel(shell)}</option>
+                                        )}
+                                        {availableShells.map((option) => (
+                                            <option key={option.id} value={option.id}>{getShellLabel(option.id)}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                            <div>
+                                <label className={LABEL_CLASS}>Environment (Optional)</label>
+                                <textarea
+                                    rows={3}
+                                    value={envInput}
+                                    onChange={(event) => setEnvInput(event.target.value)}
+                                    placeholder={'PORT=4173\nNODE_ENV=development'}
+                                    className={cn(INPUT_CLASS, 'font-mono')}
+                                />
+                            </div>
+                            <IdChecklist
+                                label="Run first"
+                                emptyLabel="No other configurations yet."
+                                configurations={otherConfigurations.filter((entry) => !isCompoundRunConfiguration(entry))}
+                                selectedIds={dependsOn}
+                                onToggle={(id) => setDependsOn((current) => toggleId(current, id))}
+                            />
+                            <div>
+                                <label className={LABEL_CLASS}>Dependent configurations start</label>
+                                <select
+                                    value={readyWhen}
+                                    onChange={(event) => setReadyWhen(event.target.value as DevScopeRunReadiness)}
+                                    className={INPUT_CLASS}
+                                >
+                                    {(Object.keys(RUN_READINESS_LABELS) as DevScopeRunReadiness[]).map((mode) => (
+                                        <option key={mode} value={mode}>{RUN_READINESS_LABELS[mode]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="grid gap-4 sm:grid-cols-2">
+                                <div>
+                                    <label className={LABEL_CLASS}>When it exits</label>
+                                    <select
+                                        value={restartPolicy}
+                                        onChange={(event) => setRestartPolicy(event.target.value as DevScopeRunRestartPolicy)}
+                                        className={INPUT_CLASS}
+                                    >
+                                        {(Object.keys(RUN_RESTART_POLICY_LABELS) as DevScopeRunRestartPolicy[]).map((policy) => (
+                                            <option key={policy} value={policy}>{RUN_RESTART_POLICY_LABELS[policy]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {restartPolicy !== 'never' && (
+                                    <div>
+                                        <label className={LABEL_CLASS}>Max Restarts</label>
+                                        <input
+                                            type="text"
+                                            inputMode="numeric"
+                                            value={maxRestartsInput}
+                                            onChange={(event) => setMaxRestartsInput(event.target.value)}
+                                            className={INPUT_CLASS}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    )}
+
+                    {error && (
+                        <div className="text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2">{error}</div>
+                    )}
+                </div>
+
+                <div className="px-5 py-4 border-t border-white/5 bg-white/[0.03] flex items-center justify-end gap-2">
+                    <button onClick={onClose} className="px-3 py-2 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/10 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => void handleSave()}
+                        disabled={saving}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-[var(--accent-primary)] text-white hover:bg-[var(--accent-primary)]/85 transition-colors disabled:opacity-60"
+                    >
+                        {saving ? 'Saving...' : 'Save Configuration'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
+
+function IdChecklist({
+    label,
+    emptyLabel,
+    configurations,
+    selectedIds,
+    onToggle
+}: {
+    label: string
+    emptyLabel: string
+    configurations: DevScopeRunConfiguration[]
+    selectedIds: string[]
+    onToggle: (id: string) => void
+}) {
+    return (
+        <div>
+            <label className={LABEL_CLASS}>{label}</label>
+            {configurations.length === 0 ? (
+                <p className="text-xs text-white/40">{emptyLabel}</p>
+            ) : (
+                <div className="flex flex-wrap gap-2">
+                    {configurations.map((entry) => {
+                        const selected = selectedIds.includes(entry.id)
+                        return (
+                            <button
+                                key={entry.id}
+                                type="button"
+                                onClick={() => onToggle(entry.id)}
+                                className={cn(
+                                    'rounded-full border px-3 py-1 text-xs transition-colors',
+                                    selected
+                                        ? 'border-[var(--accent-primary)]/50 bg-[var(--accent-primary)]/15 text-white'
+                                        : 'border-white/10 bg-white/[0.03] text-white/60 hover:text-white/85'
+                                )}
+                            >
+                                {entry.name}
+                            </button>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
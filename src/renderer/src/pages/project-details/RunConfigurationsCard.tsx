@@ -0,0 +1,130 @@
+import { Layers, ListChecks, Pencil, Play, Plus, Square, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { DevScopeRunConfiguration } from '@shared/contracts/devscope-api'
+import {
+    RUN_STATE_BADGE_CLASSES,
+    RUN_STATE_LABELS,
+    getCompoundRunState,
+    getRunConfigurationIntent,
+    isCompoundRunConfiguration,
+    isRunActive
+} from './runConfigurations'
+import { SCRIPT_INTENT_BADGE_CLASSES, SCRIPT_INTENT_LABELS, type ScriptIntentContext } from './scriptRun'
+import type { RunConfigurationsController } from './useRunConfigurations'
+
+export function RunConfigurationsCard({
+    runConfigurations,
+    scriptIntentContext
+}: {
+    runConfigurations: RunConfigurationsController
+    scriptIntentContext: ScriptIntentContext
+}) {
+    const { configurations, statusById, error, openEditor, launch, stop, remove } = runConfigurations
+    const nameById = new Map(configurations.map((entry) => [entry.id, entry.name]))
+
+    const describe = (configuration: DevScopeRunConfiguration) => {
+        if (isCompoundRunConfiguration(configuration)) {
+            return (configuration.compound || []).map((id) => nameById.get(id) || id).join(' + ')
+        }
+        const dependencies = (configuration.dependsOn || []).map((id) => nameById.get(id) || id)
+        return dependencies.length > 0
+            ? `${dependencies.join(', ')} → ${configuration.command}`
+            : configuration.command
+    }
+
+    return (
+        <div className="bg-sparkle-card border border-white/5 rounded-2xl overflow-hidden shadow-sm flex flex-col">
+            <div className="px-5 py-4 border-b border-white/5 bg-white/[0.02] flex items-center justify-between">
+                <div className="flex items-center gap-2 text-white/80 font-medium">
+                    <ListChecks size={18} className="text-[var(--accent-primary)]" />
+                    <span>Run Configurations</span>
+                    {configurations.length > 0 && (
+                        <span className="text-xs bg-white/5 text-white/40 px-2 py-1 rounded-md">{configurations.length}</span>
+                    )}
+                </div>
+                <button
+                    onClick={() => openEditor()}
+                    className="inline-flex items-center gap-1 text-xs text-white/40 hover:text-white transition-colors"
+                >
+                    <Plus size={13} />
+                    New
+                </button>
+            </div>
+
+            {error && (
+                <div className="mx-3 mt-3 text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2">{error}</div>
+            )}
+
+            {configurations.length === 0 ? (
+                <p className="px-5 py-4 text-xs text-white/40">
+                    Save a script or command to launch it with its environment, dependencies and restart policy in one click.
+                </p>
+            ) : (
+                <div className="max-h-[320px] overflow-y-auto custom-scrollbar p-2">
+                    {configurations.map((configuration) => {
+                        const compound = isCompoundRunConfiguration(configuration)
+                        const status = statusById.get(configuration.id)
+                        const state = compound ? getCompoundRunState(configuration, statusById) : status?.state || 'idle'
+                        const active = isRunActive(state)
+                        const intent = compound ? null : getRunConfigurationIntent(configuration, scriptIntentContext)
+
+                        return (
+                            <div key={configuration.id} className="group flex items-center gap-3 p-3 hover:bg-white/5 rounded-xl transition-colors border border-transparent hover:border-white/5">
+                                <button
+                                    onClick={() => void (active ? stop(configuration.id) : launch(configuration.id))}
+                                    className={cn(
+                                        'p-2.5 rounded-full transition-all shrink-0',
+                                        active
+                                            ? 'bg-red-500/10 text-red-300 hover:bg-red-500/80 hover:text-white'
+                                            : 'bg-[var(--accent-primary)]/10 text-[var(--accent-primary)] group-hover:bg-[var(--accent-primary)] group-hover:text-white'
+                                    )}
+                                    title={active ? 'Stop' : compound ? 'Launch All' : 'Run'}
+                                >
+                                    {active ? <Square size={16} /> : compound ? <Layers size={16} /> : <Play size={16} />}
+                                </button>
+                                <div className="min-w-0 flex-1">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-sm font-medium text-white/90 truncate">{configuration.name}</span>
+                                        <div className="flex items-center gap-1.5 shrink-0">
+                                            {intent && (
+                                                <span className={cn('text-[10px] uppercase tracking-wide px-2 py-0.5 rounded-full border', SCRIPT_INTENT_BADGE_CLASSES[intent.intent])}>
+                                                    {SCRIPT_INTENT_LABELS[intent.intent]}
+                                                </span>
+                                            )}
+                                            <span
+                                                className={cn('text-[10px] px-2 py-0.5 rounded-full border', RUN_STATE_BADGE_CLASSES[state])}
+                                                title={status?.message}
+                                            >
+                                                {RUN_STATE_LABELS[state]}
+                                                {!compound && (status?.restarts || 0) > 0 ? ` ×${status?.restarts}` : ''}
+                                            </span>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-2 mt-0.5">
+                                        <p className="text-xs text-white/40 truncate font-mono">{describe(configuration)}</p>
+                                        <div className="flex items-center gap-0.5 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <button
+                                                onClick={() => openEditor(configuration)}
+                                                className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10"
+                                                title="Edit"
+                                            >
+                                                <Pencil size={12} />
+                                            </button>
+                                            <button
+                                                onClick={() => void remove(configuration.id)}
+                                                className="p-1 rounded text-white/40 hover:text-red-300 hover:bg-red-500/10"
+                                                title="Delete"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
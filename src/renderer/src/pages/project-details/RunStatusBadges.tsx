@@ -0,0 +1,40 @@
+import { cn } from '@/lib/utils'
+import { useRunStatuses } from '@/lib/runStatuses'
+import { RUN_STATE_BADGE_CLASSES, RUN_STATE_LABELS, getRunConfigurationIntent, isRunActive } from './runConfigurations'
+import { SCRIPT_INTENT_LABELS, type ScriptIntentContext } from './scriptRun'
+
+/** Compact badges for a project's active or failed runs, for cards outside the details page. */
+export function RunStatusBadges({
+    projectPath,
+    scriptIntentContext,
+    className
+}: {
+    projectPath: string
+    scriptIntentContext?: ScriptIntentContext
+    className?: string
+}) {
+    const statuses = useRunStatuses(projectPath)
+        .filter((status) => isRunActive(status.state) || status.state === 'failed')
+    if (statuses.length === 0) return null
+
+    return (
+        <div className={cn('flex flex-wrap gap-1.5', className)}>
+            {statuses.slice(0, 3).map((status) => {
+                const intent = getRunConfigurationIntent(status, scriptIntentContext)
+                return (
+                    <span
+                        key={status.configId}
+                        className={cn('inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-[10px]', RUN_STATE_BADGE_CLASSES[status.state])}
+                        title={status.message || `${status.name}: ${status.command}`}
+                    >
+                        <span className="uppercase tracking-wide opacity-80">{SCRIPT_INTENT_LABELS[intent.intent]}</span>
+                        <span>{RUN_STATE_LABELS[status.state]}</span>
+                    </span>
+                )
+            })}
+            {statuses.length > 3 && (
+                <span className="rounded-md border border-white/10 bg-white/5 px-2 py-0.5 text-[10px] text-white/50">+{statuses.length - 3}</span>
+            )}
+        </div>
+    )
+}
@@ -19,7 +19,8 @@ export function ServerScriptRunModal({
     scriptCommandPreview,
     scriptRunner,
     onClose,
-    onConfirm
+    onConfirm,
+    onSaveAsConfiguration
 }: {
     pendingScriptRun: PendingScriptRun | null
     scriptPortInput: string
@@ -37,6 +38,7 @@ export function ServerScriptRunModal({
     scriptRunner: PackageScriptRunner
     onClose: () => void
     onConfirm: () => void
+    onSaveAsConfiguration?: () => void
 }) {
     if (!pendingScriptRun || pendingScriptRun.intent !== 'server') return null
 
@@ -179,6 +181,14 @@ export function ServerScriptRunModal({
                     >
                         Cancel
                     </button>
+                    {onSaveAsConfiguration && (
+                        <button
+                            onClick={onSaveAsConfiguration}
+                            className="px-3 py-2 rounded-lg text-sm text-white/70 border border-white/10 hover:text-white hover:bg-white/10 transition-colors"
+                        >
+                            Save as Run Configuration
+                        </button>
+                    )}
                     <button
                         onClick={onConfirm}
                         className="px-4 py-2 rounded-lg text-sm font-medium bg-[var(--accent-primary)] text-white hover:bg-[var(--accent-primary)]/85 transition-colors"
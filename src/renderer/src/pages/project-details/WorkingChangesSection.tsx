@@ -4,7 +4,7 @@ import { VscodeEntryIcon } from '@/components/ui/VscodeEntryIcon'
 import { cn } from '@/lib/utils'
 import { DiffStats } from './DiffStats'
 import type { DiffMode, WorkingChangeItem } from './workingChangesTypes'
-import { getDiffCounts, getStatusBadge } from './workingChangesUtils'
+import { describeSubmoduleChange, getDiffCounts, getStatusBadge } from './workingChangesUtils'
 
 const PAGE_SIZE = 10
 
@@ -162,7 +162,7 @@ export function WorkingChangesSection({
                                     <span className={cn('rounded-md px-1.5 py-0.5 text-[10px] font-semibold uppercase', badge.className)}>
                                         {badge.label}
                                     </span>
-                                    <VscodeEntryIcon pathValue={file.path} kind="file" theme={iconTheme} className="shrink-0" />
+                                    <VscodeEntryIcon pathValue={file.path} kind={file.submodule ? 'directory' : 'file'} theme={iconTheme} className="shrink-0" />
                                     <button
                                         onClick={() => {
                                             onSetPendingActionPath(file.path)
@@ -172,6 +172,9 @@ export function WorkingChangesSection({
                                     >
                                         <div className="truncate text-sm text-white/85">{file.name}</div>
                                         <div className="truncate text-[11px] text-white/45">{file.path}</div>
+                                        {file.submodule && (
+                                            <div className="truncate text-[10px] text-sky-200/60">{describeSubmoduleChange(file.submodule)}</div>
+                                        )}
                                     </button>
                                     <DiffStats additions={diffCounts.additions} deletions={diffCounts.deletions} loading={file.statsLoaded !== true} />
                                     <button
@@ -3,11 +3,15 @@ import { ArrowUpRight, ChevronDown, RefreshCw, Sparkles } from 'lucide-react'
 import { resolvePreferredGitTextProvider } from '@/lib/gitAi'
 import { invalidateProjectGitOverview } from '@/lib/projectGitOverview'
 import { getProjectPullRequestConfig } from '@/lib/pullRequestWorkflow'
+import type { DevScopePatchHunkSelection } from '@shared/contracts/devscope-api'
 import { FileDiffDetailModal } from './FileDiffDetailModal'
+import type { DiffStagingAction } from './DiffStagingControls'
 import { ConfirmModal } from '@/components/ui/ConfirmModal'
 import { WorkingChangesSection } from './WorkingChangesSection'
-import type { DiffMode, WorkingChangeItem } from './workingChangesTypes'
-import { getDiffCounts, getDiffKey } from './workingChangesUtils'
+import { MergeConflictsPanel } from './MergeConflictsPanel'
+import type { WorkingChangeItem } from './workingChangesTypes'
+import { getDiffCounts } from './workingChangesUtils'
+import { useWorkingChangesDiff } from './useWorkingChangesDiff'
 import { BranchGuardModal, buildProposedBranchName } from './workingChangesBranchGuard'
 
 export function WorkingChangesView({
@@ -20,7 +24,7 @@ export function WorkingChangesView({
     isGeneratingCommitMessage,
     isCommitting,
     isStackedActionRunning,
-    hasGitHubRemote,
+    hasForgeRemote,
     settings,
     updateSettings,
     currentBranch,
@@ -35,6 +39,7 @@ export function WorkingChangesView({
     handleUnstageAll,
     handleDiscardUnstagedFile,
     handleDiscardUnstagedAll,
+    handleApplyPatchSelection,
     ensureStatsForPaths,
     refreshGitData
 }: {
@@ -47,7 +52,7 @@ export function WorkingChangesView({
     isGeneratingCommitMessage: boolean
     isCommitting: boolean
     isStackedActionRunning: boolean
-    hasGitHubRemote: boolean
+    hasForgeRemote: boolean
     settings: any
     updateSettings: (partial: any) => void
     currentBranch: string
@@ -62,18 +67,13 @@ export function WorkingChangesView({
     handleUnstageAll: () => Promise<void>
     handleDiscardUnstagedFile: (path: string) => Promise<void>
     handleDiscardUnstagedAll: () => Promise<void>
+    handleApplyPatchSelection?: (filePath: string, action: DiffStagingAction, selections: DevScopePatchHunkSelection[]) => Promise<boolean>
     ensureStatsForPaths?: (paths: string[]) => void
     refreshGitData: (force?: boolean, options?: any) => Promise<void>
 }) {
-    const [fileDiffs, setFileDiffs] = useState<Map<string, string>>(new Map())
-    const [loadingDiffKeys, setLoadingDiffKeys] = useState<Set<string>>(new Set())
     const [copiedPath, setCopiedPath] = useState<string | null>(null)
     const [pendingActionPath, setPendingActionPath] = useState<string | null>(null)
     const [pendingRevertPath, setPendingRevertPath] = useState<string | null>(null)
-    const [selectedDiffFile, setSelectedDiffFile] = useState<WorkingChangeItem | null>(null)
-    const [selectedDiffMode, setSelectedDiffMode] = useState<DiffMode>('staged')
-    const [selectedDiffContent, setSelectedDiffContent] = useState('')
-    const [isDiffModalLoading, setIsDiffModalLoading] = useState(false)
     const [revertTarget, setRevertTarget] = useState<{ file?: WorkingChangeItem; scope: 'file' | 'all' } | null>(null)
     const [showDangerMenu, setShowDangerMenu] = useState(false)
     const [showBranchGuardModal, setShowBranchGuardModal] = useState(false)
@@ -83,11 +83,26 @@ export function WorkingChangesView({
     const [branchGuardError, setBranchGuardError] = useState('')
     const [isCreatingBranchForStackedFlow, setIsCreatingBranchForStackedFlow] = useState(false)
     const dangerMenuRef = useRef<HTMLDivElement | null>(null)
+    const {
+        loadingDiffKeys,
+        selectedDiffFile,
+        selectedDiffMode,
+        selectedDiffContent,
+        isDiffModalLoading,
+        canStageSelection,
+        openFileDiffModal,
+        applyDiffSelection,
+        closeFileDiffModal
+    } = useWorkingChangesDiff(projectPath, handleApplyPatchSelection)
     const iconTheme = settings?.theme === 'light' ? 'light' : 'dark'
     const resolvedProvider = resolvePreferredGitTextProvider(settings)
     const hasProviderForAutoCommit = Boolean(resolvedProvider)
     const hasOnlyStagedChanges = stagedFiles.length > 0 && unstagedFiles.length === 0
     const hasAnyChanges = stagedFiles.length > 0 || unstagedFiles.length > 0
+    const conflictStatusToken = useMemo(
+        () => [...stagedFiles, ...unstagedFiles].map((file) => `${file.gitStatus}:${file.path}`).join('|'),
+        [stagedFiles, unstagedFiles]
+    )
 
     const runStackedActionByMode = async (mode: 'safe' | 'danger') => {
         if (mode === 'danger') {
@@ -168,47 +183,6 @@ export function WorkingChangesView({
         }
     }
 
-    const openFileDiffModal = async (file: WorkingChangeItem, mode: DiffMode) => {
-        const key = getDiffKey(mode, file.path)
-        const cached = fileDiffs.get(key)
-
-        setSelectedDiffFile(file)
-        setSelectedDiffMode(mode)
-        setSelectedDiffContent(cached || '')
-        setIsDiffModalLoading(!cached)
-
-        if (cached) return
-
-        setLoadingDiffKeys((prev) => new Set(prev).add(key))
-        try {
-            const result = await window.devscope.getWorkingDiff(projectPath, file.path, mode)
-            let nextDiff = result.success ? result.diff : ''
-
-            const shouldTryPreviousPath = Boolean(
-                file.previousPath
-                && (!result.success || !nextDiff || nextDiff === 'No changes')
-            )
-
-            if (shouldTryPreviousPath) {
-                const fallback = await window.devscope.getWorkingDiff(projectPath, file.previousPath, mode)
-                if (fallback.success && fallback.diff && fallback.diff !== 'No changes') {
-                    nextDiff = fallback.diff
-                }
-            }
-
-            const resolvedDiff = nextDiff || 'No diff available'
-            setFileDiffs((prev) => new Map(prev).set(key, resolvedDiff))
-            setSelectedDiffContent(resolvedDiff)
-        } finally {
-            setLoadingDiffKeys((prev) => {
-                const next = new Set(prev)
-                next.delete(key)
-                return next
-            })
-            setIsDiffModalLoading(false)
-        }
-    }
-
     const buildRevertMessage = (target: { file?: WorkingChangeItem; scope: 'file' | 'all' }) => {
         if (target.scope === 'all') {
             return 'This will discard all unstaged changes and keep any staged changes. This cannot be undone.'
@@ -262,8 +236,8 @@ export function WorkingChangesView({
         if (isStackedActionRunning) return 'Running PR flow...'
         return 'Commit, Push & Create PR'
     }, [isCreatingBranchForStackedFlow, isStackedActionRunning])
-    const isPrimaryStackedActionDisabled = !hasGitHubRemote || !hasOnlyStagedChanges || isCommitting || isStackedActionRunning || isCreatingBranchForStackedFlow || (!commitMessage.trim() && !hasProviderForAutoCommit)
-    const isDangerousStackedActionDisabled = !hasGitHubRemote || !hasAnyChanges || isCommitting || isStackedActionRunning || isCreatingBranchForStackedFlow || (!commitMessage.trim() && !hasProviderForAutoCommit)
+    const isPrimaryStackedActionDisabled = !hasForgeRemote || !hasOnlyStagedChanges || isCommitting || isStackedActionRunning || isCreatingBranchForStackedFlow || (!commitMessage.trim() && !hasProviderForAutoCommit)
+    const isDangerousStackedActionDisabled = !hasForgeRemote || !hasAnyChanges || isCommitting || isStackedActionRunning || isCreatingBranchForStackedFlow || (!commitMessage.trim() && !hasProviderForAutoCommit)
 
     useEffect(() => {
         if (!showDangerMenu) return
@@ -290,6 +264,12 @@ export function WorkingChangesView({
     return (
         <>
             <div className="space-y-5">
+                <MergeConflictsPanel
+                    projectPath={projectPath}
+                    statusToken={conflictStatusToken}
+                    showToast={showToast}
+                    refreshGitData={refreshGitData}
+                />
                 <div className="bg-black/20 rounded-xl border border-white/5 p-4">
                     <h3 className="text-sm font-medium text-white/80 mb-3">Create Commit (Staged only {stagedFiles.length})</h3>
                     <textarea
@@ -442,11 +422,8 @@ export function WorkingChangesView({
                 deletions={selectedDiffFile ? getDiffCounts(selectedDiffFile, selectedDiffMode).deletions : 0}
                 status={selectedDiffFile?.gitStatus}
                 subtitle={selectedDiffFile ? `${selectedDiffMode === 'staged' ? 'Staged' : 'Unstaged'} change` : undefined}
-                onClose={async () => {
-                    setSelectedDiffFile(null)
-                    setSelectedDiffContent('')
-                    setIsDiffModalLoading(false)
-                }}
+                staging={canStageSelection ? { mode: selectedDiffMode, onApply: applyDiffSelection } : undefined}
+                onClose={closeFileDiffModal}
             />
             <ConfirmModal
                 isOpen={Boolean(revertTarget)}
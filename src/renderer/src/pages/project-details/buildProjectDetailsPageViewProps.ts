@@ -1,5 +1,5 @@
 export function buildProjectDetailsPageViewProps(args: any) {
-    const { navigate, settings, updateSettings, openTerminal, state, preview, scriptModal, chrome, gitLifecycle, gitStats, gitActions, fileView, fileTreeActions, derived } = args
+    const { navigate, settings, updateSettings, openTerminal, state, preview, scriptModal, runConfigurations, chrome, gitLifecycle, gitStats, gitActions, fileView, fileTreeActions, derived } = args
 
     return {
         loading: state.loading,
@@ -138,6 +138,7 @@ export function buildProjectDetailsPageViewProps(args: any) {
         handleUnstageAll: gitActions.handleUnstageAll,
         handleDiscardUnstagedFile: gitActions.handleDiscardUnstagedFile,
         handleDiscardUnstagedAll: gitActions.handleDiscardUnstagedAll,
+        handleApplyPatchSelection: gitActions.handleApplyPatchSelection,
         ensureWorkingChangeStats: gitStats.ensureWorkingChangeStats,
         hasRemote: state.hasRemote,
         gitSyncStatus: state.gitSyncStatus,
@@ -188,6 +189,9 @@ export function buildProjectDetailsPageViewProps(args: any) {
         scriptRunner: scriptModal.scriptRunner,
         closeScriptRunModal: scriptModal.closeScriptRunModal,
         handleConfirmScriptRun: scriptModal.handleConfirmScriptRun,
+        handleSaveScriptRunConfiguration: scriptModal.handleSaveScriptRunConfiguration,
+        saveScriptAsRunConfiguration: scriptModal.saveScriptAsRunConfiguration,
+        runConfigurations,
         previewFile: preview.previewFile,
         previewTabs: preview.previewTabs,
         activePreviewTabId: preview.activePreviewTabId,
@@ -120,6 +120,8 @@ export function createGitSyncActions(params: GitActionParams) {
                 refreshGitInBackground(params, true, 'pulls')
             } catch (err: any) {
                 params.showToast(`Failed to pull: ${err.message}`, undefined, undefined, 'error')
+                // A pull that stopped on conflicts still changed the working tree.
+                refreshGitInBackground(params, false, 'working')
             } finally {
                 params.setIsPulling(false)
             }
@@ -149,6 +151,7 @@ export function createGitSyncActions(params: GitActionParams) {
                 refreshGitInBackground(params, true, 'full')
             } catch (err: any) {
                 params.showToast(`Failed to switch branch: ${err.message}`, undefined, undefined, 'error')
+                refreshGitInBackground(params, false, 'working')
             } finally {
                 params.setIsSwitchingBranch(false)
             }
@@ -1,4 +1,5 @@
 import { invalidateProjectGitOverview } from '@/lib/projectGitOverview'
+import type { DevScopePatchHunkSelection } from '@shared/contracts/devscope-api'
 import {
     normalizePath,
     toStagedDetail,
@@ -183,12 +184,39 @@ export function createGitWorkingTreeActions(
         }
     }
 
+    const handleApplyPatchSelection = async (
+        filePath: string,
+        action: 'stage' | 'unstage' | 'discard',
+        selections: DevScopePatchHunkSelection[]
+    ): Promise<boolean> => {
+        if (!params.decodedPath || !filePath.trim() || selections.length === 0) return false
+
+        try {
+            const result = action === 'stage'
+                ? await window.devscope.stagePatch(params.decodedPath, filePath, selections)
+                : action === 'unstage'
+                    ? await window.devscope.unstagePatch(params.decodedPath, filePath, selections)
+                    : await window.devscope.discardPatch(params.decodedPath, filePath, selections)
+            if (!result?.success) {
+                throw new Error(result?.error || `Failed to ${action} selected lines`)
+            }
+
+            invalidateProjectGitOverview(params.decodedPath)
+            void params.refreshGitData(false, { quiet: true, mode: 'working' })
+            return true
+        } catch (err: any) {
+            params.showToast(`Failed to ${action} selected lines: ${err.message}`, undefined, undefined, 'error')
+            return false
+        }
+    }
+
     return {
         handleStageFile,
         handleUnstageFile,
         handleStageAll,
         handleUnstageAll,
         handleDiscardUnstagedFile,
-        handleDiscardUnstagedAll
+        handleDiscardUnstagedAll,
+        handleApplyPatchSelection
     }
 }
@@ -8,7 +8,8 @@ import type {
     GitStatusDetail,
     GitStashSummary,
     GitTagSummary,
-    ProjectDetails
+    ProjectDetails,
+    ProjectDetailsTab
 } from '../types'
 
 export type GitView = 'changes' | 'history' | 'unpushed' | 'pulls' | 'manage'
@@ -16,7 +17,7 @@ export type GitIdentity = { name: string; email: string } | null
 
 export interface UseProjectDataLifecycleParams {
     decodedPath: string
-    activeTab: 'readme' | 'files' | 'git'
+    activeTab: ProjectDetailsTab
     gitView: GitView
     project: ProjectDetails | null
     fileTree: FileTreeNode[]
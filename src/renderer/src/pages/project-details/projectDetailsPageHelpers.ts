@@ -1,4 +1,4 @@
-import type { GitCommit } from './types'
+import type { GitCommit, ProjectDetailsTab } from './types'
 import {
     getFileExtensionFromName,
     getParentFolderPath,
@@ -112,18 +112,18 @@ export function writeStoredProjectGitView(
     }
 }
 
-export function readStoredProjectActiveTab(projectPath: string): 'readme' | 'files' | 'git' | null {
+export function readStoredProjectActiveTab(projectPath: string): ProjectDetailsTab | null {
     try {
         const key = `${PROJECT_ACTIVE_TAB_STORAGE_PREFIX}${projectPath}`
         const raw = (window.localStorage.getItem(key) || '').trim()
-        if (raw === 'readme' || raw === 'files' || raw === 'git') return raw
+        if (raw === 'readme' || raw === 'files' || raw === 'git' || raw === 'audit') return raw
     } catch {
         // ignore storage access issues
     }
     return null
 }
 
-export function writeStoredProjectActiveTab(projectPath: string, tab: 'readme' | 'files' | 'git'): void {
+export function writeStoredProjectActiveTab(projectPath: string, tab: ProjectDetailsTab): void {
     try {
         const key = `${PROJECT_ACTIVE_TAB_STORAGE_PREFIX}${projectPath}`
         window.localStorage.setItem(key, tab)
@@ -184,6 +184,7 @@ export function buildProjectDetailsContentProps(props: any) {
         handleUnstageAll: props.handleUnstageAll,
         handleDiscardUnstagedFile: props.handleDiscardUnstagedFile,
         handleDiscardUnstagedAll: props.handleDiscardUnstagedAll,
+        handleApplyPatchSelection: props.handleApplyPatchSelection,
         ensureStatsForPaths: props.ensureWorkingChangeStats,
         hasRemote: props.hasRemote,
         gitSyncStatus: props.gitSyncStatus,
@@ -220,6 +221,8 @@ export function buildProjectDetailsContentProps(props: any) {
         scriptPredictions: props.scriptPredictions,
         scriptIntentContext: props.scriptIntentContext,
         runScript: props.runScript,
+        runConfigurations: props.runConfigurations,
+        saveScriptAsRunConfiguration: props.saveScriptAsRunConfiguration,
         setShowDependenciesModal: props.setShowDependenciesModal,
         showToast: props.showToast
     }
@@ -245,6 +248,8 @@ export function buildProjectDetailsTransientUiProps(props: any) {
         scriptRunner: props.scriptRunner,
         closeScriptRunModal: props.closeScriptRunModal,
         handleConfirmScriptRun: props.handleConfirmScriptRun,
+        handleSaveScriptRunConfiguration: props.handleSaveScriptRunConfiguration,
+        runConfigurations: props.runConfigurations,
         previewFile: props.previewFile,
         previewTabs: props.previewTabs,
         activePreviewTabId: props.activePreviewTabId,
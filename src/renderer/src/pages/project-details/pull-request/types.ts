@@ -1,5 +1,5 @@
 import type { Settings } from '@/lib/settings'
-import type { DevScopeGitHubPublishContext, DevScopePullRequestSummary } from '@shared/contracts/devscope-api'
+import type { DevScopePullRequestSummary } from '@shared/contracts/devscope-api'
 import type { GitBranchSummary, GitCommit, GitRemoteSummary } from '../types'
 
 export type ToastTone = 'success' | 'error' | 'info'
@@ -20,7 +20,6 @@ export type PullRequestModalProps = {
     unstagedFiles: Array<{ path: string; name?: string }>
     stagedFiles: Array<{ path: string; name?: string }>
     unpushedCommits: GitCommit[]
-    githubPublishContext?: DevScopeGitHubPublishContext | null
     settings: Settings
     updateSettings: (partial: Partial<Settings>) => void
     showToast: (message: string, actionLabel?: string, actionTo?: string, tone?: ToastTone) => void
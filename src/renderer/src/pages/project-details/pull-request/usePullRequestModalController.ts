@@ -19,12 +19,12 @@ export function usePullRequestModalController(props: PullRequestModalProps) {
         projectPath,
         currentBranch,
         branches,
+        remotes,
         unstagedFiles,
         stagedFiles,
         settings,
         updateSettings,
         showToast,
-        githubPublishContext,
         initialPullRequest,
         onPullRequestResolved
     } = props
@@ -141,7 +141,7 @@ export function usePullRequestModalController(props: PullRequestModalProps) {
         }))
     }, [branches, targetBranch])
 
-    const hasGitHubRemote = Boolean(githubPublishContext?.canOpenPullRequest)
+    const hasForgeRemote = remotes.some((remote) => Boolean(remote.forge))
     const hasWorkingTreeChanges = unstagedFiles.length > 0 || stagedFiles.length > 0
     const isDetachedHead = !currentBranch || currentBranch === 'HEAD'
     const normalizedTargetBranch = String(targetBranch || '').trim()
@@ -151,8 +151,8 @@ export function usePullRequestModalController(props: PullRequestModalProps) {
         && currentBranch !== 'HEAD'
         && normalizedTargetBranch === currentBranch
     )
-    const validationError = !hasGitHubRemote
-        ? 'Add a GitHub remote before creating a PR.'
+    const validationError = !hasForgeRemote
+        ? 'Add a GitHub, GitLab or Gitea remote before creating a PR.'
         : isDetachedHead
             ? 'Detached HEAD: checkout a branch before creating a PR.'
             : targetMatchesCurrentBranch
@@ -265,7 +265,7 @@ export function usePullRequestModalController(props: PullRequestModalProps) {
         isExecuting,
         isLoadingPullRequest,
         existingPullRequest,
-        hasGitHubRemote,
+        hasForgeRemote,
         validationError,
         targetBranchOptions,
         primaryActionLabel,
@@ -0,0 +1,93 @@
+import type {
+    DevScopeRunConfiguration,
+    DevScopeRunReadiness,
+    DevScopeRunRestartPolicy,
+    DevScopeRunState,
+    DevScopeRunStatus
+} from '@shared/contracts/devscope-api'
+import { detectScriptIntentWithConfidence, type ScriptIntentContext, type ScriptIntentPrediction } from './scriptRun'
+
+export const RUN_RESTART_POLICY_LABELS: Record<DevScopeRunRestartPolicy, string> = {
+    never: 'Never restart',
+    'on-failure': 'Restart on crash',
+    always: 'Always restart'
+}
+
+export const RUN_READINESS_LABELS: Record<DevScopeRunReadiness, string> = {
+    exited: 'Once it exits successfully',
+    started: 'As soon as it is running'
+}
+
+export const RUN_STATE_LABELS: Record<DevScopeRunState, string> = {
+    idle: 'Idle',
+    waiting: 'Waiting',
+    running: 'Running',
+    succeeded: 'Done',
+    failed: 'Failed',
+    restarting: 'Restarting',
+    stopped: 'Stopped'
+}
+
+export const RUN_STATE_BADGE_CLASSES: Record<DevScopeRunState, string> = {
+    idle: 'border-white/15 bg-white/5 text-white/50',
+    waiting: 'border-sky-500/30 bg-sky-500/15 text-sky-300',
+    running: 'border-emerald-500/30 bg-emerald-500/15 text-emerald-300',
+    succeeded: 'border-white/15 bg-white/10 text-white/70',
+    failed: 'border-red-500/30 bg-red-500/15 text-red-300',
+    restarting: 'border-amber-500/30 bg-amber-500/15 text-amber-300',
+    stopped: 'border-white/15 bg-white/5 text-white/50'
+}
+
+const ACTIVE_RUN_STATES: DevScopeRunState[] = ['waiting', 'running', 'restarting']
+
+export function isRunActive(state: DevScopeRunState | undefined): boolean {
+    return Boolean(state && ACTIVE_RUN_STATES.includes(state))
+}
+
+export function createRunConfigurationId(): string {
+    return `run_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`
+}
+
+export function createEmptyRunConfiguration(): DevScopeRunConfiguration {
+    return {
+        id: createRunConfigurationId(),
+        name: '',
+        command: '',
+        dependsOn: [],
+        readyWhen: 'exited',
+        compound: [],
+        restartPolicy: 'never',
+        maxRestarts: 3
+    }
+}
+
+export function isCompoundRunConfiguration(configuration: DevScopeRunConfiguration): boolean {
+    return (configuration.compound?.length || 0) > 0
+}
+
+/** Intent of a saved configuration, using the same heuristics as package scripts. */
+export function getRunConfigurationIntent(
+    configuration: Pick<DevScopeRunConfiguration, 'name' | 'command'>,
+    context: ScriptIntentContext = {}
+): ScriptIntentPrediction {
+    return detectScriptIntentWithConfidence(configuration.name, configuration.command, context)
+}
+
+/** Aggregate state for a compound configuration from the states of its members. */
+export function getCompoundRunState(
+    configuration: DevScopeRunConfiguration,
+    statusById: Map<string, DevScopeRunStatus>
+): DevScopeRunState {
+    const states = (configuration.compound || []).map((memberId) => statusById.get(memberId)?.state || 'idle')
+    if (states.some((state) => state === 'failed')) return 'failed'
+    if (states.some((state) => state === 'restarting')) return 'restarting'
+    if (states.some((state) => state === 'running')) return 'running'
+    if (states.some((state) => state === 'waiting')) return 'waiting'
+    if (states.length > 0 && states.every((state) => state === 'succeeded')) return 'succeeded'
+    if (states.some((state) => state === 'stopped')) return 'stopped'
+    return 'idle'
+}
+
+export function formatEnvOverrides(env: Record<string, string> | undefined): string {
+    return Object.entries(env || {}).map(([key, value]) => `${key}=${value}`).join('\n')
+}
@@ -1,3 +1,10 @@
+import type {
+    DevScopeDependencyInstallStatus,
+    DevScopeWorkspaceKind,
+    DevScopeWorkspacePackage,
+    DevScopeWorkspaceRootSummary
+} from '@shared/contracts/devscope-project-contracts'
+import type { DevScopeForgeKind, DevScopeGitCommitSignature, DevScopeGitSubmoduleChangeFlags } from '@shared/contracts/devscope-git-contracts'
 import type { ScriptIntent } from './scriptRun'
 
 export interface ProjectTypeDefinition {
@@ -35,17 +42,10 @@ export interface ProjectDetails {
     scripts?: Record<string, string>
     dependencies?: Record<string, string>
     devDependencies?: Record<string, string>
-    dependencyInstallStatus?: {
-        installed: boolean | null
-        checked: boolean
-        ecosystem: 'node' | 'unknown'
-        totalPackages: number
-        installedPackages: number
-        missingPackages: number
-        missingDependencies?: string[]
-        missingSample?: string[]
-        reason?: string
-    } | null
+    dependencyInstallStatus?: DevScopeDependencyInstallStatus | null
+    workspaceKinds?: DevScopeWorkspaceKind[]
+    workspacePackages?: DevScopeWorkspacePackage[]
+    parentWorkspace?: DevScopeWorkspaceRootSummary | null
 }
 
 export interface FileTreeNode {
@@ -56,7 +56,7 @@ export interface FileTreeNode {
     children?: FileTreeNode[]
     childrenLoaded?: boolean
     isHidden: boolean
-    gitStatus?: 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'ignored' | 'unknown'
+    gitStatus?: 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'conflicted' | 'ignored' | 'unknown'
 }
 
 export interface GitCommit {
@@ -70,12 +70,13 @@ export interface GitCommit {
     deletions: number
     filesChanged: number
     statsLoaded?: boolean
+    signature?: DevScopeGitCommitSignature
 }
 
 export interface GitStatusDetail {
     path: string
     previousPath?: string
-    status: 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'ignored' | 'unknown'
+    status: 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'conflicted' | 'ignored' | 'unknown'
     code: string
     staged: boolean
     unstaged: boolean
@@ -86,6 +87,7 @@ export interface GitStatusDetail {
     unstagedAdditions: number
     unstagedDeletions: number
     statsLoaded?: boolean
+    submodule?: DevScopeGitSubmoduleChangeFlags
 }
 
 export interface PendingScriptRun {
@@ -108,6 +110,7 @@ export interface GitRemoteSummary {
     name: string
     fetchUrl: string
     pushUrl: string
+    forge?: DevScopeForgeKind | null
 }
 
 export interface GitSyncStatus {
@@ -127,6 +130,10 @@ export interface GitSyncStatus {
 export interface GitTagSummary {
     name: string
     commit?: string
+    annotated?: boolean
+    message?: string | null
+    tagger?: string | null
+    date?: string | null
 }
 
 export interface GitStashSummary {
@@ -140,3 +147,5 @@ export interface InstalledIde {
     icon: string
     color: string
 }
+
+export type ProjectDetailsTab = 'readme' | 'files' | 'git' | 'audit'
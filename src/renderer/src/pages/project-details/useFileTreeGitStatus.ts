@@ -1,10 +1,12 @@
 import { useMemo } from 'react'
 import { normalizeFileSystemPath } from './projectDetailsPageHelpers'
 
-type FileGitStatus = 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'ignored' | 'unknown' | undefined
+type FileGitStatus = 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'conflicted' | 'ignored' | 'unknown' | undefined
 
 function statusPriority(status: FileGitStatus): number {
     switch (status) {
+        case 'conflicted':
+            return 6
         case 'deleted':
             return 5
         case 'modified':
@@ -61,6 +63,16 @@ export function getGitStatusVisual(status: FileGitStatus) {
                 badgeClass: 'bg-[#FF6B6B]/30 text-[#FF8A8A]',
                 badgeLabel: 'D'
             }
+        case 'conflicted':
+            return {
+                nameClass: 'font-semibold',
+                metaClass: '!text-[#F59E8B]',
+                nameColor: '#FFB199',
+                metaColor: '',
+                pulseColor: '#F97316',
+                badgeClass: 'bg-orange-500/30 text-orange-200',
+                badgeLabel: '!'
+            }
         case 'renamed':
             return {
                 nameClass: 'font-semibold',
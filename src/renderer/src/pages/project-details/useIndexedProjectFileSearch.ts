@@ -1,4 +1,5 @@
 import { useDeferredValue, useEffect, useMemo, useState } from 'react'
+import { useFileIndexRevision } from '@/lib/fileIndexChanges'
 import { parseFileSearchQuery } from '@/lib/utils'
 import type { FileTreeNode } from './types'
 
@@ -96,6 +97,8 @@ export function useIndexedProjectFileSearch({
     const parsedFileSearch = useMemo(() => parseFileSearchQuery(deferredFileSearch), [deferredFileSearch])
     const hasFileSearch = deferredFileSearch.trim().length > 0
     const [indexedSearchTree, setIndexedSearchTree] = useState<FileTreeNode[] | null>(null)
+    const indexScopePaths = useMemo(() => [projectRootPath], [projectRootPath])
+    const indexRevision = useFileIndexRevision(indexScopePaths)
 
     useEffect(() => {
         if (!projectRootPath || !hasFileSearch) {
@@ -129,7 +132,7 @@ export function useIndexedProjectFileSearch({
         return () => {
             cancelled = true
         }
-    }, [hasFileSearch, parsedFileSearch.extension, parsedFileSearch.term, projectRootPath, showHidden])
+    }, [hasFileSearch, indexRevision, parsedFileSearch.extension, parsedFileSearch.term, projectRootPath, showHidden])
 
     const indexedSearchExpandedFolders = useMemo(() => {
         if (!indexedSearchTree) return new Set<string>()
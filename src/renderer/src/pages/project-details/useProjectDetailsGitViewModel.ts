@@ -36,10 +36,6 @@ type GitViewModelParams = {
     showToast: (message: string, a?: any, b?: any, level?: string) => void
 }
 
-function isGitHubRemoteUrl(remoteUrl: string) {
-    return /github\.com[:/]/i.test(String(remoteUrl || '').trim())
-}
-
 function parseGitHubRemoteFullName(remoteUrl: string) {
     const trimmed = String(remoteUrl || '').trim()
     if (!trimmed) return null
@@ -114,9 +110,9 @@ export function useProjectDetailsGitViewModel({
         remoteUrls: githubRemoteUrls
     })
 
-    const hasGitHubRemote = useMemo(
-        () => githubRemoteUrls.some((remoteUrl) => isGitHubRemoteUrl(remoteUrl)),
-        [githubRemoteUrls]
+    const hasForgeRemote = useMemo(
+        () => (remotes || []).some((remote: any) => Boolean(remote.forge)),
+        [remotes]
     )
     const originRemote = useMemo(
         () => (remotes || []).find((remote: any) => remote.name === 'origin') || null,
@@ -423,7 +419,7 @@ export function useProjectDetailsGitViewModel({
         loadingGitHubPublishContext,
         gitHubPublishContextError,
         refreshGitHubPublishContext,
-        hasGitHubRemote,
+        hasForgeRemote,
         repoUsesForkOrigin,
         originRepoDisplay,
         upstreamRepoDisplay,
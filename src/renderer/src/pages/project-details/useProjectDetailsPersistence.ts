@@ -9,11 +9,12 @@ import {
     writeStoredProjectGitActivity,
     writeStoredProjectGitView
 } from './projectDetailsPageHelpers'
+import type { ProjectDetailsTab } from './types'
 
 type UseProjectDetailsPersistenceParams = {
     decodedPath: string
-    activeTab: 'readme' | 'files' | 'git'
-    setActiveTab: Dispatch<SetStateAction<'readme' | 'files' | 'git'>>
+    activeTab: ProjectDetailsTab
+    setActiveTab: Dispatch<SetStateAction<ProjectDetailsTab>>
     gitView: 'changes' | 'history' | 'unpushed' | 'pulls' | 'manage'
     setGitView: Dispatch<SetStateAction<'changes' | 'history' | 'unpushed' | 'pulls' | 'manage'>>
     lastFetched?: number
@@ -8,7 +8,8 @@ import type {
     GitStatusDetail,
     GitStashSummary,
     GitTagSummary,
-    ProjectDetails
+    ProjectDetails,
+    ProjectDetailsTab
 } from './types'
 import type { CreateFileSystemTarget, FileSystemClipboardItem } from './projectDetailsPageHelpers'
 import {
@@ -25,7 +26,7 @@ export function useProjectDetailsViewState(decodedPath: string, settings: any) {
     const [error, setError] = useState<string | null>(null)
     const [showHidden, setShowHidden] = useState(false)
     const [copiedPath, setCopiedPath] = useState(false)
-    const [activeTab, setActiveTab] = useState<'readme' | 'files' | 'git'>(() => (
+    const [activeTab, setActiveTab] = useState<ProjectDetailsTab>(() => (
         readStoredProjectActiveTab(decodedPath) || 'readme'
     ))
     const [showDependenciesModal, setShowDependenciesModal] = useState(false)
@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useRef } from 'react'
 import type { Dispatch, SetStateAction } from 'react'
 import { getAllFolderPaths } from './fileTreeUtils'
-import type { FileTreeNode } from './types'
+import type { FileTreeNode, ProjectDetailsTab } from './types'
 import {
     extractNodeByPath,
     insertNodeAtDirectory,
@@ -21,7 +21,7 @@ import { useProjectFileTreeNavigationActions } from './useProjectFileTreeNavigat
 import { useProjectFileTreeMenuActions } from './useProjectFileTreeMenuActions'
 
 type UseProjectFileTreeActionsParams = {
-    activeTab: 'readme' | 'files' | 'git'
+    activeTab: ProjectDetailsTab
     loadingFiles: boolean
     projectRootPath: string
     fileSearch: string
@@ -35,6 +35,7 @@ function normalizeStatusPath(path: string): string {
 
 function gitStatusWeight(status: GitVisualStatus): number {
     switch (status) {
+        case 'conflicted': return 60
         case 'deleted': return 50
         case 'modified': return 40
         case 'renamed': return 30
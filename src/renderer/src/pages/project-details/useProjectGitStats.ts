@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useMemo, useRef } from 'react'
 import type { Dispatch, MutableRefObject, SetStateAction } from 'react'
-import type { GitCommit, GitStatusDetail } from './types'
+import type { GitCommit, GitStatusDetail, ProjectDetailsTab } from './types'
 import {
     WORKING_CHANGE_STATS_CHUNK_SIZE,
     mergeHistoryCommitStats,
@@ -8,7 +8,7 @@ import {
 } from './projectDetailsPageHelpers'
 
 type UseProjectGitStatsParams = {
-    activeTab: 'readme' | 'files' | 'git'
+    activeTab: ProjectDetailsTab
     gitView: 'changes' | 'history' | 'unpushed' | 'pulls' | 'manage'
     decodedPath: string
     gitHistory: GitCommit[]
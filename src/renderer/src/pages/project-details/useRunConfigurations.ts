@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { DevScopeRunConfiguration, DevScopeRunStatus } from '@shared/contracts/devscope-api'
+import type { Shell } from '@/lib/settings'
+import { removeRunStatus, useRunStatuses } from '@/lib/runStatuses'
+import { createEmptyRunConfiguration } from './runConfigurations'
+
+export interface RunConfigurationsController {
+    configurations: DevScopeRunConfiguration[]
+    statusById: Map<string, DevScopeRunStatus>
+    loading: boolean
+    error: string | null
+    editorDraft: DevScopeRunConfiguration | null
+    openEditor: (draft?: Partial<DevScopeRunConfiguration>) => void
+    closeEditor: () => void
+    save: (configuration: DevScopeRunConfiguration) => Promise<boolean>
+    remove: (configId: string) => Promise<void>
+    launch: (configId: string) => Promise<void>
+    stop: (configId: string) => Promise<void>
+}
+
+export function useRunConfigurations(projectPath: string | undefined, shell: Shell): RunConfigurationsController {
+    const [configurations, setConfigurations] = useState<DevScopeRunConfiguration[]>([])
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [editorDraft, setEditorDraft] = useState<DevScopeRunConfiguration | null>(null)
+    const statuses = useRunStatuses(projectPath)
+
+    useEffect(() => {
+        if (!projectPath) {
+            setConfigurations([])
+            return
+        }
+
+        let active = true
+        setLoading(true)
+        void window.devscope.listRunConfigurations(projectPath)
+            .then((result) => {
+                if (!active) return
+                if (result.success) {
+                    setConfigurations(result.configurations)
+                    setError(null)
+                } else {
+                    setError(result.error || 'Failed to load run configurations.')
+                }
+            })
+            .catch((err: any) => {
+                if (active) setError(err?.message || 'Failed to load run configurations.')
+            })
+            .finally(() => {
+                if (active) setLoading(false)
+            })
+        return () => {
+            active = false
+        }
+    }, [projectPath])
+
+    const statusById = useMemo(
+        () => new Map(statuses.map((status) => [status.configId, status])),
+        [statuses]
+    )
+
+    const openEditor = useCallback((draft: Partial<DevScopeRunConfiguration> = {}) => {
+        setEditorDraft({ ...createEmptyRunConfiguration(), ...draft })
+    }, [])
+
+    const closeEditor = useCallback(() => setEditorDraft(null), [])
+
+    const save = useCallback(async (configuration: DevScopeRunConfiguration) => {
+        if (!projectPath) return false
+        const result = await window.devscope.saveRunConfiguration({ projectPath, configuration })
+        if (!result.success) {
+            setError(result.error || 'Failed to save run configuration.')
+            return false
+        }
+        setError(null)
+        setConfigurations((current) => (
+            current.some((entry) => entry.id === result.configuration.id)
+                ? current.map((entry) => (entry.id === result.configuration.id ? result.configuration : entry))
+                : [...current, result.configuration]
+        ))
+        return true
+    }, [projectPath])
+
+    const remove = useCallback(async (configId: string) => {
+        if (!projectPath) return
+        const result = await window.devscope.deleteRunConfiguration({ projectPath, configId })
+        if (!result.success) {
+            setError(result.error || 'Failed to delete run configuration.')
+            return
+        }
+        removeRunStatus(projectPath, configId)
+        setConfigurations((current) => current
+            .filter((entry) => entry.id !== configId)
+            .map((entry) => ({
+                ...entry,
+                dependsOn: (entry.dependsOn || []).filter((id) => id !== configId),
+                compound: (entry.compound || []).filter((id) => id !== configId)
+            }))
+            .filter((entry) => entry.command || entry.compound.length > 0))
+    }, [projectPath])
+
+    const launch = useCallback(async (configId: string) => {
+        if (!projectPath) return
+        const result = await window.devscope.launchRunConfiguration({ projectPath, configId, shell })
+        setError(result.success ? null : result.error || 'Failed to start run configuration.')
+    }, [projectPath, shell])
+
+    const stop = useCallback(async (configId: string) => {
+        if (!projectPath) return
+        const result = await window.devscope.stopRunConfiguration({ projectPath, configId })
+        if (!result.success) setError(result.error || 'Failed to stop run configuration.')
+    }, [projectPath])
+
+    return { configurations, statusById, loading, error, editorDraft, openEditor, closeEditor, save, remove, launch, stop }
+}
@@ -14,12 +14,14 @@ import {
     type PackageScriptRunnerPreference
 } from './scriptRun'
 import type { PendingScriptRun, ProjectDetails } from './types'
+import type { DevScopeRunConfiguration } from '@shared/contracts/devscope-api'
 
 interface UseScriptRunModalParams {
     project: ProjectDetails | null
     defaultShell: 'powershell' | 'cmd'
     packageRuntimePreference: PackageScriptRunnerPreference
     openTerminal: (tool: { id: string; category: string; displayName: string }, cwd: string, command?: string) => void
+    onSaveRunConfiguration?: (draft: Partial<DevScopeRunConfiguration>) => void
 }
 
 interface UseScriptRunModalResult {
@@ -42,6 +44,8 @@ interface UseScriptRunModalResult {
     runScript: (scriptName: string, command: string) => void
     closeScriptRunModal: () => void
     handleConfirmScriptRun: () => void
+    saveScriptAsRunConfiguration: (scriptName: string, command: string) => void
+    handleSaveScriptRunConfiguration: () => void
     scriptCommandPreview: string
 }
 
@@ -49,7 +53,8 @@ export function useScriptRunModal({
     project,
     defaultShell,
     packageRuntimePreference,
-    openTerminal
+    openTerminal,
+    onSaveRunConfiguration
 }: UseScriptRunModalParams): UseScriptRunModalResult {
     const [pendingScriptRun, setPendingScriptRun] = useState<PendingScriptRun | null>(null)
     const [scriptPortInput, setScriptPortInput] = useState('')
@@ -100,7 +105,7 @@ export function useScriptRunModal({
         )
     }
 
-    const buildScriptCommandWithOverrides = (
+    const buildScriptCommandParts = (
         scriptName: string,
         scriptIntent: ScriptIntent,
         options: ScriptRunDraft = {},
@@ -131,8 +136,20 @@ export function useScriptRunModal({
             intentArgs.push(options.extraArgs.trim())
         }
 
-        const commandWithArgs = appendScriptArgsForRunner(baseCommand, intentArgs.join(' '), scriptRunner)
-        return applyShellEnvOverrides(commandWithArgs, defaultShell, envOverrides)
+        return {
+            command: appendScriptArgsForRunner(baseCommand, intentArgs.join(' '), scriptRunner),
+            envOverrides
+        }
+    }
+
+    const buildScriptCommandWithOverrides = (
+        scriptName: string,
+        scriptIntent: ScriptIntent,
+        options: ScriptRunDraft = {},
+        scriptCommand: string = ''
+    ) => {
+        const { command, envOverrides } = buildScriptCommandParts(scriptName, scriptIntent, options, scriptCommand)
+        return applyShellEnvOverrides(command, defaultShell, envOverrides)
     }
 
     const getScriptRunDraftFromState = (
@@ -219,6 +236,33 @@ export function useScriptRunModal({
         closeScriptRunModal()
     }
 
+    // Saved configurations keep env separate so the runner can apply it for any shell.
+    const saveScriptAsRunConfiguration = (scriptName: string, command: string) => {
+        if (!onSaveRunConfiguration) return
+        const prediction = scriptPredictions[scriptName] || detectScriptIntentWithConfidence(scriptName, command, scriptIntentContext)
+        const parts = buildScriptCommandParts(scriptName, prediction.intent, {}, command)
+        onSaveRunConfiguration({ name: scriptName, command: parts.command, env: parts.envOverrides })
+    }
+
+    const handleSaveScriptRunConfiguration = () => {
+        if (!pendingScriptRun || !onSaveRunConfiguration) return
+
+        const draftResult = getScriptRunDraftFromState(pendingScriptRun.intent, true)
+        if (draftResult.error) {
+            setScriptRunError(draftResult.error)
+            return
+        }
+
+        const parts = buildScriptCommandParts(
+            pendingScriptRun.name,
+            pendingScriptRun.intent,
+            draftResult.draft,
+            pendingScriptRun.command
+        )
+        onSaveRunConfiguration({ name: pendingScriptRun.name, command: parts.command, env: parts.envOverrides })
+        closeScriptRunModal()
+    }
+
     const scriptCommandPreview = pendingScriptRun
         ? buildScriptCommandWithOverrides(
             pendingScriptRun.name,
@@ -248,6 +292,8 @@ export function useScriptRunModal({
         runScript,
         closeScriptRunModal,
         handleConfirmScriptRun,
+        saveScriptAsRunConfiguration,
+        handleSaveScriptRunConfiguration,
         scriptCommandPreview
     }
 }
@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import type { DevScopePatchHunkSelection } from '@shared/contracts/devscope-api'
+import type { DiffStagingAction } from './DiffStagingControls'
+import type { DiffMode, WorkingChangeItem } from './workingChangesTypes'
+import { getDiffKey } from './workingChangesUtils'
+
+type ApplyPatchSelection = (filePath: string, action: DiffStagingAction, selections: DevScopePatchHunkSelection[]) => Promise<boolean>
+
+/**
+ * Diff modal state for the working changes list: cached per-file diffs, the open file and
+ * line-level staging through `handleApplyPatchSelection`.
+ */
+export function useWorkingChangesDiff(projectPath: string, handleApplyPatchSelection?: ApplyPatchSelection) {
+    const [fileDiffs, setFileDiffs] = useState<Map<string, string>>(new Map())
+    const [loadingDiffKeys, setLoadingDiffKeys] = useState<Set<string>>(new Set())
+    const [selectedDiffFile, setSelectedDiffFile] = useState<WorkingChangeItem | null>(null)
+    const [selectedDiffMode, setSelectedDiffMode] = useState<DiffMode>('staged')
+    const [selectedDiffContent, setSelectedDiffContent] = useState('')
+    const [isDiffModalLoading, setIsDiffModalLoading] = useState(false)
+
+    const fetchWorkingDiff = async (file: WorkingChangeItem, mode: DiffMode) => {
+        const result = await window.devscope.getWorkingDiff(projectPath, file.path, mode)
+        let nextDiff = result.success ? result.diff : ''
+
+        const shouldTryPreviousPath = Boolean(
+            file.previousPath
+            && (!result.success || !nextDiff || nextDiff === 'No changes')
+        )
+
+        if (shouldTryPreviousPath) {
+            const fallback = await window.devscope.getWorkingDiff(projectPath, file.previousPath, mode)
+            if (fallback.success && fallback.diff && fallback.diff !== 'No changes') {
+                nextDiff = fallback.diff
+            }
+        }
+
+        return nextDiff || 'No diff available'
+    }
+
+    const openFileDiffModal = async (file: WorkingChangeItem, mode: DiffMode) => {
+        const key = getDiffKey(mode, file.path)
+        const cached = fileDiffs.get(key)
+
+        setSelectedDiffFile(file)
+        setSelectedDiffMode(mode)
+        setSelectedDiffContent(cached || '')
+        setIsDiffModalLoading(!cached)
+
+        if (cached) return
+
+        setLoadingDiffKeys((prev) => new Set(prev).add(key))
+        try {
+            const resolvedDiff = await fetchWorkingDiff(file, mode)
+            setFileDiffs((prev) => new Map(prev).set(key, resolvedDiff))
+            setSelectedDiffContent(resolvedDiff)
+        } finally {
+            setLoadingDiffKeys((prev) => {
+                const next = new Set(prev)
+                next.delete(key)
+                return next
+            })
+            setIsDiffModalLoading(false)
+        }
+    }
+
+    const applyDiffSelection = async (action: DiffStagingAction, selections: DevScopePatchHunkSelection[]) => {
+        const file = selectedDiffFile
+        if (!file || !handleApplyPatchSelection) return false
+
+        const success = await handleApplyPatchSelection(file.path, action, selections)
+        if (!success) return false
+
+        // Partial writes change both sides of the index, so drop both cached diffs for this file.
+        setFileDiffs((prev) => {
+            const next = new Map(prev)
+            next.delete(getDiffKey('staged', file.path))
+            next.delete(getDiffKey('unstaged', file.path))
+            return next
+        })
+        const remainingDiff = await fetchWorkingDiff(file, selectedDiffMode)
+        if (remainingDiff === 'No changes' || remainingDiff === 'No diff available') {
+            setSelectedDiffFile(null)
+            setSelectedDiffContent('')
+            return true
+        }
+        setFileDiffs((prev) => new Map(prev).set(getDiffKey(selectedDiffMode, file.path), remainingDiff))
+        setSelectedDiffContent(remainingDiff)
+        return true
+    }
+
+    const closeFileDiffModal = () => {
+        setSelectedDiffFile(null)
+        setSelectedDiffContent('')
+        setIsDiffModalLoading(false)
+    }
+
+    return {
+        loadingDiffKeys,
+        selectedDiffFile,
+        selectedDiffMode,
+        selectedDiffContent,
+        isDiffModalLoading,
+        // Untracked files have no index entry to stage lines against.
+        canStageSelection: Boolean(handleApplyPatchSelection && selectedDiffFile && selectedDiffFile.gitStatus !== 'untracked'),
+        openFileDiffModal,
+        applyDiffSelection,
+        closeFileDiffModal
+    }
+}
@@ -1,8 +1,10 @@
+import type { DevScopeGitSubmoduleChangeFlags } from '@shared/contracts/devscope-git-contracts'
+
 export interface WorkingChangeItem {
     path: string
     previousPath?: string
     name: string
-    gitStatus?: 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'ignored' | 'unknown'
+    gitStatus?: 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'conflicted' | 'ignored' | 'unknown'
     staged?: boolean
     unstaged?: boolean
     additions: number
@@ -12,6 +14,7 @@ export interface WorkingChangeItem {
     unstagedAdditions?: number
     unstagedDeletions?: number
     statsLoaded?: boolean
+    submodule?: DevScopeGitSubmoduleChangeFlags
 }
 
 export type DiffMode = 'staged' | 'unstaged'
@@ -46,6 +46,8 @@ export function getStatusBadge(status?: WorkingChangeItem['gitStatus']) {
             return { label: 'D', className: 'bg-[#FF6B6B]/20 text-[#FF6B6B]' }
         case 'renamed':
             return { label: 'R', className: 'bg-blue-500/20 text-blue-300' }
+        case 'conflicted':
+            return { label: '!', className: 'bg-orange-500/20 text-orange-300' }
         case 'ignored':
             return { label: 'I', className: 'bg-white/10 text-white/50' }
         default:
@@ -53,6 +55,16 @@ export function getStatusBadge(status?: WorkingChangeItem['gitStatus']) {
     }
 }
 
+/** Spell out what changed inside a submodule, since git reports all of it as a single `M`. */
+export function describeSubmoduleChange(submodule: NonNullable<WorkingChangeItem['submodule']>): string {
+    const parts = [
+        submodule.commitChanged ? 'new commits' : null,
+        submodule.hasTrackedChanges ? 'modified content' : null,
+        submodule.hasUntrackedChanges ? 'untracked content' : null
+    ].filter(Boolean)
+    return parts.length > 0 ? `Submodule: ${parts.join(', ')}` : 'Submodule'
+}
+
 export function getDiffKey(mode: DiffMode, path: string): string {
     return `${mode}:${path}`
 }
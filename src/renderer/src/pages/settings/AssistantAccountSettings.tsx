@@ -4,6 +4,7 @@ import {
     ArrowLeft,
     BarChart3,
     Clock3,
+    Cpu,
     KeyRound,
     Mail,
     RefreshCw,
@@ -15,6 +16,7 @@ import type { AssistantAccountOverview, AssistantAccountPlanType } from '@shared
 import { cn } from '@/lib/utils'
 import { useSettings } from '@/lib/settings'
 import { AccountField, RateLimitUsageCard } from './AssistantAccountRateLimitCards'
+import { AssistantBackendPanel } from './AssistantBackendPanel'
 import { AssistantDefaultsPanel } from './AssistantDefaultsPanel'
 import {
     buildRateLimitCards,
@@ -25,7 +27,7 @@ import {
 
 const POLL_INTERVAL_MS = 15000
 
-type ActiveTab = 'defaults' | 'limits' | 'account'
+type ActiveTab = 'defaults' | 'backend' | 'limits' | 'account'
 
 function resolvePreferredPlanType(overview: AssistantAccountOverview | null): AssistantAccountPlanType | null {
     const accountPlanType = overview?.account?.planType ?? null
@@ -116,10 +118,11 @@ export default function AssistantAccountSettings() {
         () => buildRateLimitCards(overview, settings.assistantUsageDisplayMode),
         [overview, settings.assistantUsageDisplayMode]
     )
-    const showOverviewLoadingState = loading && !overview && activeTab !== 'defaults'
+    const showOverviewLoadingState = loading && !overview && activeTab !== 'defaults' && activeTab !== 'backend'
 
     const tabs = [
         { id: 'defaults' as const, label: 'Defaults', icon: SlidersHorizontal },
+        { id: 'backend' as const, label: 'Backend', icon: Cpu },
         { id: 'limits' as const, label: 'Limits', icon: BarChart3 },
         { id: 'account' as const, label: 'Account', icon: User }
     ]
@@ -135,7 +138,7 @@ export default function AssistantAccountSettings() {
                         <div>
                             <h1 className="text-xl font-semibold text-sparkle-text">Assistant Settings</h1>
                             <p className="text-sm text-sparkle-text-secondary">
-                                OpenAI account, usage limits, and assistant defaults
+                                Runtime backend, OpenAI account, usage limits, and assistant defaults
                             </p>
                         </div>
                     </div>
@@ -200,6 +203,12 @@ export default function AssistantAccountSettings() {
                         </div>
                     ) : null}
 
+                    {activeTab === 'backend' ? (
+                        <div className="animate-fadeIn">
+                            <AssistantBackendPanel />
+                        </div>
+                    ) : null}
+
                     {activeTab === 'limits' ? (
                         <div className="space-y-5 animate-fadeIn">
                             <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 xl:grid-cols-4">
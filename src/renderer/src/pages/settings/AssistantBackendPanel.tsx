@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from 'react'
+import { RefreshCw } from 'lucide-react'
+import { ConnectedDropdownButton } from '@/components/ui/ConnectedDropdownButton'
+import { cn } from '@/lib/utils'
+import type { AssistantRuntimeBackend, AssistantRuntimeConfig, AssistantRuntimeStatus } from '@shared/assistant/contracts'
+
+const INPUT_CLASS = 'w-full rounded-xl border border-white/10 bg-white/[0.03] px-3.5 py-2.5 text-sm font-mono text-sparkle-text placeholder:text-white/28 outline-none transition-colors hover:bg-white/[0.05] focus:border-white/20 focus:bg-white/[0.05]'
+
+export function AssistantBackendPanel() {
+    const [draft, setDraft] = useState<AssistantRuntimeConfig | null>(null)
+    const [status, setStatus] = useState<AssistantRuntimeStatus | null>(null)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const loadConfig = useCallback(async () => {
+        setError(null)
+        try {
+            const result = await window.devscope.assistant.getRuntimeConfig()
+            if (!result.success) {
+                throw new Error(result.error || 'Failed to read assistant backend settings.')
+            }
+            setDraft(result.config)
+            setStatus(result.status)
+        } catch (loadError) {
+            setError(loadError instanceof Error ? loadError.message : 'Failed to read assistant backend settings.')
+        }
+    }, [])
+
+    useEffect(() => {
+        void loadConfig()
+    }, [loadConfig])
+
+    const saveConfig = async (next: AssistantRuntimeConfig) => {
+        setSaving(true)
+        setError(null)
+        try {
+            const result = await window.devscope.assistant.setRuntimeConfig(next)
+            if (!result.success) {
+                throw new Error(result.error || 'Failed to save assistant backend settings.')
+            }
+            setDraft(result.config)
+            setStatus(result.status)
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : 'Failed to save assistant backend settings.')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    if (!draft) {
+        return (
+            <div className="rounded-2xl border border-white/10 bg-sparkle-card px-6 py-12 text-center text-sparkle-text-secondary">
+                {error || 'Loading backend settings...'}
+            </div>
+        )
+    }
+
+    const updateEndpoint = (patch: Partial<AssistantRuntimeConfig['openaiCompatible']>) => {
+        setDraft({ ...draft, openaiCompatible: { ...draft.openaiCompatible, ...patch } })
+    }
+
+    return (
+        <div className="w-full space-y-4">
+            <section className="rounded-2xl border border-white/10 bg-sparkle-card p-4 sm:p-5">
+                <div className="grid gap-4 xl:grid-cols-[minmax(0,1fr)_auto] xl:items-center">
+                    <div>
+                        <h2 className="text-sm font-semibold text-sparkle-text">Runtime Backend</h2>
+                        <p className="mt-1 text-sm text-sparkle-text-secondary">
+                            Run sessions through the Codex CLI or any OpenAI-compatible chat endpoint. Switching stops live sessions.
+                        </p>
+                    </div>
+                    <ConnectedDropdownButton
+                        className="justify-self-end self-center"
+                        value={draft.backend}
+                        options={[
+                            { id: 'codex', label: 'Codex CLI', tone: 'sky' },
+                            { id: 'openai-compatible', label: 'OpenAI-compatible', tone: 'emerald' }
+                        ]}
+                        menuLabel="Choose assistant backend"
+                        onChange={(value) => void saveConfig({ ...draft, backend: value as AssistantRuntimeBackend })}
+                    />
+                </div>
+                {status ? (
+                    <p className={cn('mt-3 text-xs', status.available ? 'text-emerald-300' : 'text-amber-300')}>
+                        {status.available ? 'Backend available.' : status.reason || 'Backend unavailable.'}
+                    </p>
+                ) : null}
+            </section>
+
+            <section className="rounded-2xl border border-white/10 bg-sparkle-card p-4 sm:p-5">
+                <h2 className="text-sm font-semibold text-sparkle-text">OpenAI-Compatible Endpoint</h2>
+                <p className="mt-1 text-sm text-sparkle-text-secondary">
+                    Works with OpenAI, llama.cpp, Ollama, LM Studio and other servers exposing /chat/completions with tool calling.
+                </p>
+                <div className="mt-4 grid gap-3 md:grid-cols-2">
+                    <label className="space-y-1.5 md:col-span-2">
+                        <span className="text-[11px] font-semibold uppercase tracking-[0.18em] text-sparkle-text-muted">Base URL</span>
+                        <input
+                            type="text"
+                            value={draft.openaiCompatible.baseUrl}
+                            onChange={(event) => updateEndpoint({ baseUrl: event.target.value })}
+                            placeholder="http://localhost:11434/v1"
+                            className={INPUT_CLASS}
+                        />
+                    </label>
+                    <label className="space-y-1.5">
+                        <span className="text-[11px] font-semibold uppercase tracking-[0.18em] text-sparkle-text-muted">API Key</span>
+                        <input
+                            type="password"
+                            value={draft.openaiCompatible.apiKey}
+                            onChange={(event) => updateEndpoint({ apiKey: event.target.value })}
+                            placeholder="Optional for local servers"
+                            className={INPUT_CLASS}
+                        />
+                    </label>
+                    <label className="space-y-1.5">
+                        <span className="text-[11px] font-semibold uppercase tracking-[0.18em] text-sparkle-text-muted">Default Model</span>
+                        <input
+                            type="text"
+                            value={draft.openaiCompatible.defaultModel}
+                            onChange={(event) => updateEndpoint({ defaultModel: event.target.value })}
+                            placeholder="First model the endpoint lists"
+                            className={INPUT_CLASS}
+                        />
+                    </label>
+                </div>
+                <div className="mt-4 flex items-center justify-end gap-2">
+                    {error ? <p className="mr-auto text-xs text-rose-300">{error}</p> : null}
+                    <button
+                        type="button"
+                        disabled={saving}
+                        onClick={() => void saveConfig(draft)}
+                        className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-sparkle-card px-3.5 py-2 text-sm text-sparkle-text transition-all hover:border-white/20 hover:bg-white/[0.03] disabled:opacity-50"
+                    >
+                        <RefreshCw size={15} className={cn(saving && 'animate-spin')} />
+                        {saving ? 'Checking...' : 'Save & Check'}
+                    </button>
+                </div>
+            </section>
+        </div>
+    )
+}
@@ -27,6 +27,7 @@ import bunIconUrl from '@/assets/runtime-icons/bun.svg'
 import { useSettings, type PackageRuntimePreference } from '@/lib/settings'
 import { cn } from '@/lib/utils'
 import { ScrollPreviewModal } from './ScrollPreviewModal'
+import { TerminalShellSettingsSection } from './TerminalShellSettingsSection'
 import type { DevScopeInstalledPackageRuntime, DevScopePackageRuntimeId } from '@shared/contracts/devscope-api'
 
 type BehaviorTab = 'startup' | 'preview' | 'terminal'
@@ -294,30 +295,7 @@ export default function BehaviorSettings() {
 
                 {activeTab === 'terminal' && (
                     <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_minmax(320px,0.82fr)]">
-                        <SettingsSection title="Default Shell" description="Choose which shell DevScope launches for terminal actions.">
-                            <div className="grid gap-4 md:grid-cols-2">
-                                <TerminalChoiceCard
-                                    active={settings.defaultShell === 'powershell'}
-                                    accentClassName="border-blue-500/50 bg-blue-500/10 text-blue-100"
-                                    idleClassName="border-white/10 bg-white/[0.03] hover:border-white/20 hover:bg-white/[0.05]"
-                                    glyphClassName="text-blue-300"
-                                    label="PowerShell"
-                                    caption="Recommended for Windows workflows"
-                                    glyph="PS"
-                                    onClick={() => updateSettings({ defaultShell: 'powershell' })}
-                                />
-                                <TerminalChoiceCard
-                                    active={settings.defaultShell === 'cmd'}
-                                    accentClassName="border-amber-500/50 bg-amber-500/10 text-amber-100"
-                                    idleClassName="border-white/10 bg-white/[0.03] hover:border-white/20 hover:bg-white/[0.05]"
-                                    glyphClassName="text-amber-300"
-                                    label="Command Prompt"
-                                    caption="Classic shell fallback"
-                                    glyph="CMD"
-                                    onClick={() => updateSettings({ defaultShell: 'cmd' })}
-                                />
-                            </div>
-                        </SettingsSection>
+                        <TerminalShellSettingsSection />
 
                         <SettingsSection title="Package Runtime" description="Choose the runner used by project script buttons.">
                             <div className="space-y-4">
@@ -573,38 +551,3 @@ function ToggleSwitch({
         </button>
     )
 }
-
-function TerminalChoiceCard({
-    active,
-    accentClassName,
-    idleClassName,
-    glyphClassName,
-    label,
-    caption,
-    glyph,
-    onClick
-}: {
-    active: boolean
-    accentClassName: string
-    idleClassName: string
-    glyphClassName: string
-    label: string
-    caption: string
-    glyph: string
-    onClick: () => void
-}) {
-    return (
-        <button
-            type="button"
-            onClick={onClick}
-            className={cn(
-                'rounded-xl border p-5 text-left transition-all',
-                active ? accentClassName : idleClassName
-            )}
-        >
-            <div className={cn('text-2xl font-semibold', glyphClassName)}>{glyph}</div>
-            <p className="mt-3 text-sm font-medium text-sparkle-text">{label}</p>
-            <p className="mt-1 text-xs text-sparkle-text-secondary">{caption}</p>
-        </button>
-    )
-}
@@ -0,0 +1,125 @@
+import { useState } from 'react'
+import { Plus, Shapes, X } from 'lucide-react'
+import { useSettings } from '@/lib/settings'
+import { cn } from '@/lib/utils'
+import { BUILT_IN_PROJECT_TYPE_IDS, sanitizeCustomProjectTypes, toCustomProjectTypeId } from '@shared/custom-project-types'
+
+export function CustomProjectTypesSection() {
+    const { settings, updateSettings } = useSettings()
+    const [displayName, setDisplayName] = useState('')
+    const [markersInput, setMarkersInput] = useState('')
+    const [themeColor, setThemeColor] = useState('#6B7280')
+    const [error, setError] = useState<string | null>(null)
+    const customProjectTypes = settings.customProjectTypes || []
+
+    const handleAdd = () => {
+        const id = toCustomProjectTypeId(displayName)
+        const markers = markersInput.split(',').map((marker) => marker.trim()).filter(Boolean)
+        if (!id) {
+            setError('Enter a name for the project type.')
+            return
+        }
+        if (BUILT_IN_PROJECT_TYPE_IDS.has(id) || customProjectTypes.some((type) => type.id === id)) {
+            setError(`A project type with id "${id}" already exists.`)
+            return
+        }
+        if (markers.length === 0) {
+            setError('Add at least one marker file, for example "deno.json" or "*.nimble".')
+            return
+        }
+
+        updateSettings({
+            customProjectTypes: sanitizeCustomProjectTypes([
+                ...customProjectTypes,
+                { id, displayName: displayName.trim(), markers, themeColor }
+            ])
+        })
+        setDisplayName('')
+        setMarkersInput('')
+        setError(null)
+    }
+
+    const handleRemove = (typeId: string) => {
+        updateSettings({
+            customProjectTypes: customProjectTypes.filter((type) => type.id !== typeId)
+        })
+    }
+
+    return (
+        <section className="mt-6 rounded-xl border border-white/10 bg-sparkle-card p-6">
+            <div className="mb-5 flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="font-semibold text-sparkle-text">Custom project types</h2>
+                    <p className="mt-1 text-sm text-sparkle-text-secondary">
+                        Folders containing one of these marker files are detected as the given type. Custom types are checked before built-in ones.
+                    </p>
+                </div>
+                <span className="rounded-full border border-white/10 bg-white/[0.03] px-3 py-1 text-xs font-medium text-sparkle-text-secondary">
+                    {customProjectTypes.length} custom
+                </span>
+            </div>
+
+            <div className="space-y-2">
+                {customProjectTypes.map((type) => (
+                    <div key={type.id} className="flex items-center gap-3 rounded-xl border border-white/10 bg-white/[0.03] px-4 py-3">
+                        <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: type.themeColor }} />
+                        <div className="min-w-0 flex-1">
+                            <div className="text-sm font-medium text-sparkle-text">{type.displayName}</div>
+                            <div className="truncate font-mono text-xs text-sparkle-text-muted">{type.markers.join(', ')}</div>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => handleRemove(type.id)}
+                            className="rounded-lg border border-white/10 bg-black/15 p-2 text-sparkle-text-secondary transition-all hover:border-red-500/20 hover:bg-red-500/10 hover:text-red-300"
+                            title="Remove project type"
+                        >
+                            <X size={14} />
+                        </button>
+                    </div>
+                ))}
+                {customProjectTypes.length === 0 ? (
+                    <div className="flex items-center gap-2 rounded-xl border border-dashed border-white/10 px-4 py-3 text-sm text-sparkle-text-secondary">
+                        <Shapes size={16} />
+                        No custom project types yet.
+                    </div>
+                ) : null}
+            </div>
+
+            <div className="mt-4 grid gap-2 md:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)_auto_auto]">
+                <input
+                    type="text"
+                    value={displayName}
+                    onChange={(event) => setDisplayName(event.target.value)}
+                    placeholder="Name (e.g. Deno)"
+                    className="rounded-lg border border-white/10 bg-sparkle-bg px-3 py-2 text-sm text-sparkle-text outline-none focus:border-[var(--accent-primary)]/40"
+                />
+                <input
+                    type="text"
+                    value={markersInput}
+                    onChange={(event) => setMarkersInput(event.target.value)}
+                    placeholder="Marker files, comma separated (e.g. deno.json, *.nimble)"
+                    className="rounded-lg border border-white/10 bg-sparkle-bg px-3 py-2 font-mono text-sm text-sparkle-text outline-none focus:border-[var(--accent-primary)]/40"
+                />
+                <input
+                    type="color"
+                    value={themeColor}
+                    onChange={(event) => setThemeColor(event.target.value)}
+                    title="Theme color"
+                    className="h-9 w-12 cursor-pointer rounded-lg border border-white/10 bg-sparkle-bg p-1"
+                />
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    className={cn(
+                        'inline-flex items-center justify-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium transition-all',
+                        'border-[var(--accent-primary)]/25 bg-[var(--accent-primary)]/10 text-[var(--accent-primary)] hover:border-[var(--accent-primary)]/35 hover:bg-[var(--accent-primary)]/15'
+                    )}
+                >
+                    <Plus size={14} />
+                    Add type
+                </button>
+            </div>
+            {error ? <p className="mt-2 text-xs text-red-300">{error}</p> : null}
+        </section>
+    )
+}
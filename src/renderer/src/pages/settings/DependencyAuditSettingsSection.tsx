@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react'
+import { ShieldCheck, X } from 'lucide-react'
+import { useSettings } from '@/lib/settings'
+
+export function DependencyAuditSettingsSection() {
+    const { settings, updateSettings } = useSettings()
+    const [draftPath, setDraftPath] = useState(settings.dependencyAdvisoryDatabasePath)
+
+    useEffect(() => {
+        setDraftPath(settings.dependencyAdvisoryDatabasePath)
+    }, [settings.dependencyAdvisoryDatabasePath])
+
+    const commitDraft = () => {
+        const nextPath = draftPath.trim()
+        if (nextPath !== settings.dependencyAdvisoryDatabasePath) {
+            updateSettings({ dependencyAdvisoryDatabasePath: nextPath })
+        }
+    }
+
+    return (
+        <section className="mt-6 rounded-xl border border-white/10 bg-sparkle-card p-6">
+            <div className="mb-5 flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="font-semibold text-sparkle-text">Dependency audit</h2>
+                    <p className="mt-1 text-sm text-sparkle-text-secondary">
+                        Optional local advisory database (JSON) matched against every locked package. Accepts an advisory list, npm audit output, or the npm bulk-advisory format.
+                    </p>
+                </div>
+                <span className="rounded-full border border-white/10 bg-white/[0.03] px-3 py-1 text-xs font-medium text-sparkle-text-secondary">
+                    {settings.dependencyAdvisoryDatabasePath ? 'Advisories on' : 'Lockfile only'}
+                </span>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <div className="flex min-w-0 flex-1 items-center gap-2 rounded-lg border border-white/10 bg-sparkle-bg px-3 py-2 focus-within:border-[var(--accent-primary)]/40">
+                    <ShieldCheck size={15} className="shrink-0 text-sparkle-text-secondary" />
+                    <input
+                        type="text"
+                        value={draftPath}
+                        onChange={(event) => setDraftPath(event.target.value)}
+                        onBlur={commitDraft}
+                        onKeyDown={(event) => {
+                            if (event.key === 'Enter') commitDraft()
+                        }}
+                        placeholder="Path to advisories.json"
+                        className="min-w-0 flex-1 bg-transparent font-mono text-sm text-sparkle-text outline-none"
+                    />
+                </div>
+                {settings.dependencyAdvisoryDatabasePath ? (
+                    <button
+                        type="button"
+                        onClick={() => updateSettings({ dependencyAdvisoryDatabasePath: '' })}
+                        className="rounded-lg border border-white/10 bg-black/15 p-2 text-sparkle-text-secondary transition-all hover:border-red-500/20 hover:bg-red-500/10 hover:text-red-300"
+                        title="Clear advisory database"
+                    >
+                        <X size={14} />
+                    </button>
+                ) : null}
+            </div>
+        </section>
+    )
+}
@@ -12,6 +12,8 @@ import {
 } from 'lucide-react'
 import { useSettings } from '@/lib/settings'
 import { cn } from '@/lib/utils'
+import { CustomProjectTypesSection } from './CustomProjectTypesSection'
+import { DependencyAuditSettingsSection } from './DependencyAuditSettingsSection'
 
 type IndexResult = {
     success: boolean
@@ -242,6 +244,9 @@ export default function ProjectsSettings() {
                     ) : null}
                 </section>
             </div>
+
+            <CustomProjectTypesSection />
+            <DependencyAuditSettingsSection />
         </div>
     )
 }
@@ -0,0 +1,155 @@
+import { FolderPlus, X } from 'lucide-react'
+import { useSettings, type Shell } from '@/lib/settings'
+import { withProjectShellOverride } from '@/lib/settings-terminal-shells'
+import { useTerminalShells } from '@/lib/terminalShells'
+import { cn } from '@/lib/utils'
+import { getShellFamily, getShellLabel, type ShellFamily } from '@shared/terminal-shells'
+
+const FAMILY_STYLES: Record<ShellFamily, { accent: string; glyph: string }> = {
+    powershell: { accent: 'border-blue-500/50 bg-blue-500/10 text-blue-100', glyph: 'text-blue-300' },
+    cmd: { accent: 'border-amber-500/50 bg-amber-500/10 text-amber-100', glyph: 'text-amber-300' },
+    posix: { accent: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-100', glyph: 'text-emerald-300' }
+}
+
+function getShellGlyph(shell: Shell): string {
+    const family = getShellFamily(shell)
+    if (family === 'cmd') return 'CMD'
+    if (family === 'powershell') return 'PS'
+    return shell.startsWith('wsl') ? 'WSL' : '$_'
+}
+
+export function TerminalShellSettingsSection() {
+    const { settings, updateSettings } = useSettings()
+    const { availableShells, loading } = useTerminalShells()
+    const overrides = Object.entries(settings.projectShellOverrides)
+    const shellOptions = availableShells.some((shell) => shell.id === settings.defaultShell)
+        ? availableShells
+        : [
+            { id: settings.defaultShell, label: getShellLabel(settings.defaultShell), path: '', version: null, available: false, isDefault: false },
+            ...availableShells
+        ]
+
+    const setOverride = (projectPath: string, shell: Shell | null) => {
+        updateSettings({ projectShellOverrides: withProjectShellOverride(settings.projectShellOverrides, projectPath, shell) })
+    }
+
+    const handleAddOverride = async () => {
+        const result = await window.devscope.selectFolder()
+        if (!result.success || result.cancelled || !result.folderPath) return
+        setOverride(result.folderPath, settings.defaultShell)
+    }
+
+    return (
+        <div className="h-full rounded-xl border border-white/10 bg-sparkle-card p-5">
+            <h2 className="mb-1 font-semibold text-sparkle-text">Default Shell</h2>
+            <p className="mb-4 text-sm text-sparkle-text-secondary">
+                Choose which shell DevScope launches for terminal actions. Only shells detected on this machine are listed.
+            </p>
+            <div className="grid gap-4 md:grid-cols-2">
+                {shellOptions.map((shell) => {
+                    const styles = FAMILY_STYLES[getShellFamily(shell.id)]
+                    return (
+                        <TerminalChoiceCard
+                            key={shell.id}
+                            active={settings.defaultShell === shell.id}
+                            accentClassName={styles.accent}
+                            glyphClassName={styles.glyph}
+                            label={getShellLabel(shell.id)}
+                            caption={!shell.available ? 'Not detected on this machine' : shell.version || shell.path || 'Detected'}
+                            glyph={getShellGlyph(shell.id)}
+                            onClick={() => updateSettings({ defaultShell: shell.id })}
+                        />
+                    )
+                })}
+            </div>
+            {loading && <p className="mt-3 text-xs text-sparkle-text-muted">Detecting installed shells...</p>}
+
+            <div className="mt-6 border-t border-white/10 pt-5">
+                <div className="mb-3 flex items-center justify-between gap-3">
+                    <div>
+                        <h3 className="text-sm font-medium text-sparkle-text">Project overrides</h3>
+                        <p className="mt-1 text-xs text-sparkle-text-secondary">
+                            Terminals opened inside these folders use their own shell instead of the default.
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => void handleAddOverride()}
+                        className="inline-flex shrink-0 items-center gap-1.5 rounded-lg border border-white/10 bg-white/[0.03] px-3 py-1.5 text-xs font-medium text-sparkle-text transition-colors hover:border-white/20 hover:bg-white/[0.06]"
+                    >
+                        <FolderPlus size={14} />
+                        Add project override
+                    </button>
+                </div>
+                {overrides.length === 0 ? (
+                    <p className="rounded-lg border border-dashed border-white/10 px-3 py-3 text-xs text-sparkle-text-muted">
+                        No overrides. Every project uses {getShellLabel(settings.defaultShell)}.
+                    </p>
+                ) : (
+                    <div className="space-y-2">
+                        {overrides.map(([projectPath, shell]) => (
+                            <div key={projectPath} className="flex items-center gap-2 rounded-lg border border-white/10 bg-sparkle-bg px-3 py-2">
+                                <span className="min-w-0 flex-1 truncate font-mono text-xs text-sparkle-text-secondary" title={projectPath}>
+                                    {projectPath}
+                                </span>
+                                <select
+                                    value={shell}
+                                    onChange={(event) => setOverride(projectPath, event.target.value)}
+                                    className="rounded-md border border-white/10 bg-sparkle-card px-2 py-1 text-xs text-sparkle-text outline-none"
+                                >
+                                    {!availableShells.some((option) => option.id === shell) && (
+                                        <option value={shell}>{getShellLabel(shell)}</option>
+                                    )}
+                                    {availableShells.map((option) => (
+                                        <option key={option.id} value={option.id}>{getShellLabel(option.id)}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    type="button"
+                                    onClick={() => setOverride(projectPath, null)}
+                                    className="rounded-md p-1 text-sparkle-text-muted transition-colors hover:bg-white/[0.06] hover:text-sparkle-text"
+                                    title="Remove override"
+                                >
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
+
+function TerminalChoiceCard({
+    active,
+    accentClassName,
+    glyphClassName,
+    label,
+    caption,
+    glyph,
+    onClick
+}: {
+    active: boolean
+    accentClassName: string
+    glyphClassName: string
+    label: string
+    caption: string
+    glyph: string
+    onClick: () => void
+}) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            className={cn(
+                'rounded-xl border p-5 text-left transition-all',
+                active ? accentClassName : 'border-white/10 bg-white/[0.03] hover:border-white/20 hover:bg-white/[0.05]'
+            )}
+        >
+            <div className={cn('text-2xl font-semibold', glyphClassName)}>{glyph}</div>
+            <p className="mt-3 text-sm font-medium text-sparkle-text">{label}</p>
+            <p className="mt-1 truncate text-xs text-sparkle-text-secondary">{caption}</p>
+        </button>
+    )
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react'
+import { Pencil, RotateCcw } from 'lucide-react'
+import type { DevScopePreviewTerminalSessionSummary } from '@shared/contracts/devscope-api'
+
+export function TerminalRelaunchBanner({
+    session,
+    onRelaunch,
+    onSetAutoRelaunch,
+    onSetLaunchCommand
+}: {
+    session: DevScopePreviewTerminalSessionSummary
+    onRelaunch: (rerunCommand: boolean) => void
+    onSetAutoRelaunch: (enabled: boolean) => void
+    onSetLaunchCommand: (command: string | null) => void
+}) {
+    const launchCommand = String(session.launchCommand || '').trim()
+    // Run-configuration terminals take their command from the configuration.
+    const canEditCommand = !session.runConfigurationId
+    const [editing, setEditing] = useState(false)
+    const [draft, setDraft] = useState(launchCommand)
+
+    useEffect(() => {
+        setEditing(false)
+        setDraft(launchCommand)
+    }, [launchCommand, session.sessionId])
+
+    const saveDraft = () => {
+        setEditing(false)
+        const nextCommand = draft.trim()
+        if (nextCommand !== launchCommand) onSetLaunchCommand(nextCommand || null)
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-2 rounded-lg border border-white/10 bg-white/[0.03] px-3 py-2 text-xs text-sparkle-text-secondary">
+            <span>
+                {session.restored ? 'Exited when DevScope closed' : 'Exited'}
+                {typeof session.exitCode === 'number' ? ` (code ${session.exitCode})` : ''}
+            </span>
+            <button
+                type="button"
+                onClick={() => onRelaunch(false)}
+                className="inline-flex items-center gap-1.5 rounded-md border border-[var(--accent-primary)]/25 bg-[var(--accent-primary)]/10 px-2 py-1 font-medium text-[var(--accent-primary)] transition-colors hover:border-[var(--accent-primary)]/35 hover:bg-[var(--accent-primary)]/15"
+            >
+                <RotateCcw size={12} />
+                Click to relaunch
+            </button>
+            {editing ? (
+                <input
+                    autoFocus
+                    value={draft}
+                    onChange={(event) => setDraft(event.target.value)}
+                    onBlur={saveDraft}
+                    onKeyDown={(event) => {
+                        if (event.key === 'Enter') saveDraft()
+                        if (event.key === 'Escape') {
+                            setEditing(false)
+                            setDraft(launchCommand)
+                        }
+                    }}
+                    placeholder="Command to run on relaunch, e.g. npm run dev"
+                    spellCheck={false}
+                    className="min-w-[220px] flex-1 rounded-md border border-white/15 bg-black/20 px-2 py-1 font-mono text-[11px] text-sparkle-text outline-none focus:border-[var(--accent-primary)]/50"
+                />
+            ) : launchCommand ? (
+                <>
+                    <button
+                        type="button"
+                        onClick={() => onRelaunch(true)}
+                        title={launchCommand}
+                        className="inline-flex max-w-[280px] items-center gap-1.5 rounded-md border border-white/10 bg-white/[0.03] px-2 py-1 text-sparkle-text transition-colors hover:border-white/20 hover:bg-white/[0.05]"
+                    >
+                        Relaunch and run
+                        <code className="truncate font-mono text-[11px] text-sparkle-text-secondary">{launchCommand}</code>
+                    </button>
+                    {canEditCommand ? (
+                        <button
+                            type="button"
+                            onClick={() => setEditing(true)}
+                            title="Change launch command"
+                            aria-label="Change launch command"
+                            className="inline-flex h-6 w-6 items-center justify-center rounded-md text-sparkle-text-muted transition-colors hover:bg-white/[0.05] hover:text-sparkle-text"
+                        >
+                            <Pencil size={12} />
+                        </button>
+                    ) : null}
+                    <label className="ml-auto inline-flex cursor-pointer items-center gap-1.5">
+                        <input
+                            type="checkbox"
+                            checked={session.autoRelaunch === true}
+                            onChange={(event) => onSetAutoRelaunch(event.target.checked)}
+                            className="accent-[var(--accent-primary)]"
+                        />
+                        Run again when the project opens
+                    </label>
+                </>
+            ) : canEditCommand ? (
+                <button
+                    type="button"
+                    onClick={() => setEditing(true)}
+                    className="inline-flex items-center gap-1.5 rounded-md border border-white/10 bg-white/[0.03] px-2 py-1 text-sparkle-text transition-colors hover:border-white/20 hover:bg-white/[0.05]"
+                >
+                    <Pencil size={12} />
+                    Set launch command
+                </button>
+            ) : null}
+        </div>
+    )
+}
@@ -11,6 +11,7 @@ import {
     X
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { TerminalRelaunchBanner } from './TerminalRelaunchBanner'
 import { formatRelativeShort, formatTerminalShellLabel } from './tasks-formatters'
 import type { PreviewTerminalSessionGroup } from './tasks-types'
 import type { DevScopePreviewTerminalSessionSummary } from '@shared/contracts/devscope-api'
@@ -27,6 +28,9 @@ type TerminalSessionsPanelProps = {
     onCreateTerminalForPath: (path: string) => void
     onSelectTerminalSession: (sessionId: string) => void
     onStopPreviewTerminal: (sessionId: string) => void
+    onRelaunchPreviewTerminal: (sessionId: string, rerunCommand: boolean) => void
+    onSetAutoRelaunch: (sessionId: string, enabled: boolean) => void
+    onSetLaunchCommand: (sessionId: string, command: string | null) => void
     onRefresh: () => void
 }
 
@@ -42,6 +46,9 @@ export function TerminalSessionsPanel({
     onCreateTerminalForPath,
     onSelectTerminalSession,
     onStopPreviewTerminal,
+    onRelaunchPreviewTerminal,
+    onSetAutoRelaunch,
+    onSetLaunchCommand,
     onRefresh
 }: TerminalSessionsPanelProps) {
     const selectedGroupKey = selectedTerminalSession
@@ -155,11 +162,13 @@ export function TerminalSessionsPanel({
                                             key={session.sessionId}
                                             type="button"
                                             onClick={() => onSelectTerminalSession(session.sessionId)}
+                                            title={session.restored ? `${session.title} (from previous session)` : session.title}
                                             className={cn(
                                                 'inline-flex h-8 max-w-[220px] items-center gap-2 rounded-lg border px-2.5 text-xs transition-colors',
                                                 isSelected
                                                     ? 'border-sky-400/30 bg-sky-500/12 text-sparkle-text'
-                                                    : 'border-transparent bg-white/[0.03] text-sparkle-text-secondary hover:border-white/10 hover:bg-white/[0.05] hover:text-sparkle-text'
+                                                    : 'border-transparent bg-white/[0.03] text-sparkle-text-secondary hover:border-white/10 hover:bg-white/[0.05] hover:text-sparkle-text',
+                                                session.restored && !isSelected && 'opacity-60'
                                             )}
                                         >
                                             <span className={cn('h-2 w-2 shrink-0 rounded-full', getTerminalStatusDotClass(session.status))} />
@@ -212,7 +221,7 @@ export function TerminalSessionsPanel({
                         {selectedTerminalSession ? (
                             <>
                                 <span className="rounded-md bg-white/[0.04] px-1.5 py-0.5 text-[10px] uppercase tracking-[0.16em] text-sparkle-text-muted">
-                                    {formatTerminalShellLabel(selectedTerminalSession.shell)}
+                                    {formatTerminalShellLabel(selectedTerminalSession.shellId || selectedTerminalSession.shell)}
                                 </span>
                                 <StatusPill session={selectedTerminalSession} />
                                 <MetaPill>{formatRelativeShort(selectedTerminalSession.lastActivityAt)}</MetaPill>
@@ -224,11 +233,19 @@ export function TerminalSessionsPanel({
                     </div>
                 </div>
 
-                <div className="min-h-0 flex-1 overflow-hidden p-3">
+                <div className="flex min-h-0 flex-1 flex-col gap-2 overflow-hidden p-3">
+                    {selectedTerminalSession && selectedTerminalSession.status !== 'running' ? (
+                        <TerminalRelaunchBanner
+                            session={selectedTerminalSession}
+                            onRelaunch={(rerunCommand) => onRelaunchPreviewTerminal(selectedTerminalSession.sessionId, rerunCommand)}
+                            onSetAutoRelaunch={(enabled) => onSetAutoRelaunch(selectedTerminalSession.sessionId, enabled)}
+                            onSetLaunchCommand={(command) => onSetLaunchCommand(selectedTerminalSession.sessionId, command)}
+                        />
+                    ) : null}
                     {selectedTerminalSession ? (
                         <div
                             ref={tasksTerminalHostRef}
-                            className="h-full w-full overflow-hidden rounded-xl border border-white/10 focus-within:border-[var(--accent-primary)]/60 focus-within:shadow-[0_0_0_1px_rgba(56,189,248,0.2)]"
+                            className="min-h-0 w-full flex-1 overflow-hidden rounded-xl border border-white/10 focus-within:border-[var(--accent-primary)]/60 focus-within:shadow-[0_0_0_1px_rgba(56,189,248,0.2)]"
                             style={{ backgroundColor: terminalBackgroundColor }}
                         />
                     ) : (
@@ -1,5 +1,6 @@
 import type { MemoryUnit } from './tasks-types'
 import type { DevScopePreviewTerminalSessionSummary } from '@shared/contracts/devscope-api'
+import { getShellLabel, parseShellId } from '@shared/terminal-shells'
 
 export function formatRelativeShort(timestamp: number): string {
     const deltaMs = Math.max(0, Date.now() - timestamp)
@@ -22,6 +23,7 @@ export function formatDeviceMemoryLabel(memoryGb: number, unit: MemoryUnit): str
 }
 
 export function formatTerminalShellLabel(shell: string): string {
+    if (parseShellId(shell)) return getShellLabel(shell)
     return String(shell || 'terminal')
         .replace(/\.exe$/i, '')
         .replace(/^pwsh$/i, 'PowerShell')
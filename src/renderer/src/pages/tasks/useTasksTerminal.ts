@@ -12,7 +12,7 @@ import type { PreviewTerminalSessionGroup } from './tasks-types'
 export function useTasksTerminal(input: {
     terminalSessions: DevScopePreviewTerminalSessionSummary[]
     setTerminalSessions: Dispatch<SetStateAction<DevScopePreviewTerminalSessionSummary[]>>
-    defaultShell: Shell
+    resolveShellForPath: (targetPath: string) => Shell
     terminalTheme: Record<string, string>
     setError: Dispatch<SetStateAction<string | null>>
     refresh: (options?: { quiet?: boolean }) => Promise<void>
@@ -20,7 +20,7 @@ export function useTasksTerminal(input: {
     const {
         terminalSessions,
         setTerminalSessions,
-        defaultShell,
+        resolveShellForPath,
         terminalTheme,
         setError,
         refresh
@@ -263,6 +263,57 @@ export function useTasksTerminal(input: {
         void refresh({ quiet: true })
     }, [refresh])
 
+    const handleRelaunchPreviewTerminal = useCallback(async (sessionId: string, rerunCommand: boolean) => {
+        const targetSessionId = String(sessionId || '').trim()
+        if (!targetSessionId) return
+
+        const dimensions = tasksFitAddonRef.current?.proposeDimensions?.()
+        const result = await window.devscope.relaunchPreviewTerminal({
+            sessionId: targetSessionId,
+            cols: dimensions?.cols,
+            rows: dimensions?.rows,
+            rerunCommand
+        })
+        if (!result?.success) {
+            setError(result?.error || 'Failed to relaunch terminal')
+            return
+        }
+
+        setSelectedTerminalSessionId(targetSessionId)
+        void refresh({ quiet: true })
+        window.setTimeout(() => tasksXtermRef.current?.focus(), 0)
+    }, [refresh, setError])
+
+    const handleSetPreviewTerminalAutoRelaunch = useCallback(async (sessionId: string, enabled: boolean) => {
+        const targetSessionId = String(sessionId || '').trim()
+        if (!targetSessionId) return
+
+        setTerminalSessions((current) => current.map((session) => (
+            session.sessionId === targetSessionId ? { ...session, autoRelaunch: enabled } : session
+        )))
+        const result = await window.devscope.setPreviewTerminalAutoRelaunch({ sessionId: targetSessionId, enabled })
+        if (!result?.success) {
+            setError(result?.error || 'Failed to update terminal')
+            void refresh({ quiet: true })
+        }
+    }, [refresh, setError, setTerminalSessions])
+
+    const handleSetPreviewTerminalLaunchCommand = useCallback(async (sessionId: string, command: string | null) => {
+        const targetSessionId = String(sessionId || '').trim()
+        if (!targetSessionId) return
+
+        const result = await window.devscope.setPreviewTerminalLaunchCommand({ sessionId: targetSessionId, command })
+        if (!result?.success) {
+            setError(result?.error || 'Failed to update terminal')
+            return
+        }
+        setTerminalSessions((current) => current.map((session) => (
+            session.sessionId === targetSessionId
+                ? { ...session, launchCommand: result.launchCommand, autoRelaunch: result.autoRelaunch }
+                : session
+        )))
+    }, [setError, setTerminalSessions])
+
     const handleCreateTerminalForPath = useCallback(async (targetPath: string) => {
         const normalizedTargetPath = String(targetPath || '').trim()
         if (!normalizedTargetPath) return
@@ -271,7 +322,7 @@ export function useTasksTerminal(input: {
         const result = await window.devscope.createPreviewTerminal({
             sessionId,
             targetPath: normalizedTargetPath,
-            preferredShell: defaultShell,
+            preferredShell: resolveShellForPath(normalizedTargetPath),
             cols: 100,
             rows: 28
         })
@@ -283,7 +334,7 @@ export function useTasksTerminal(input: {
 
         setSelectedTerminalSessionId(sessionId)
         void refresh({ quiet: true })
-    }, [defaultShell, refresh, setError])
+    }, [refresh, resolveShellForPath, setError])
 
     const handleOpenTerminalSession = useCallback((sessionId: string) => {
         const normalizedSessionId = String(sessionId || '').trim()
@@ -299,6 +350,9 @@ export function useTasksTerminal(input: {
         terminalSessionGroups,
         runningTerminalCount,
         handleStopPreviewTerminal,
+        handleRelaunchPreviewTerminal,
+        handleSetPreviewTerminalAutoRelaunch,
+        handleSetPreviewTerminalLaunchCommand,
         handleCreateTerminalForPath,
         handleOpenTerminalSession
     }
@@ -8,6 +8,8 @@ import type {
     AssistantDomainEvent,
     AssistantPlaygroundState,
     AssistantRuntimeStatus,
+    AssistantSession,
+    AssistantSessionTurnUsageEntry,
     AssistantSessionTurnUsagePayload,
     AssistantSnapshot
 } from './read-model'
@@ -19,6 +21,10 @@ export const ASSISTANT_IPC = {
     getSnapshot: 'devscope:assistant:getSnapshot',
     getStatus: 'devscope:assistant:getStatus',
     getAccountOverview: 'devscope:assistant:getAccountOverview',
+    getRuntimeConfig: 'devscope:assistant:getRuntimeConfig',
+    setRuntimeConfig: 'devscope:assistant:setRuntimeConfig',
+    getApprovalPolicy: 'devscope:assistant:getApprovalPolicy',
+    setApprovalPolicy: 'devscope:assistant:setApprovalPolicy',
     getSessionTurnUsage: 'devscope:assistant:getSessionTurnUsage',
     listModels: 'devscope:assistant:listModels',
     connect: 'devscope:assistant:connect',
@@ -29,8 +35,12 @@ export const ASSISTANT_IPC = {
     hydrateSession: 'devscope:assistant:hydrateSession',
     renameSession: 'devscope:assistant:renameSession',
     archiveSession: 'devscope:assistant:archiveSession',
+    exportSession: 'devscope:assistant:exportSession',
+    importSession: 'devscope:assistant:importSession',
+    searchConversations: 'devscope:assistant:searchConversations',
     deleteSession: 'devscope:assistant:deleteSession',
     deleteMessage: 'devscope:assistant:deleteMessage',
+    forkThread: 'devscope:assistant:forkThread',
     clearLogs: 'devscope:assistant:clearLogs',
     setSessionProjectPath: 'devscope:assistant:setSessionProjectPath',
     setPlaygroundRoot: 'devscope:assistant:setPlaygroundRoot',
@@ -67,6 +77,49 @@ export interface AssistantAccountOverviewPayload {
     overview: AssistantAccountOverview
 }
 
+export type AssistantRuntimeBackend = 'codex' | 'openai-compatible'
+
+export interface AssistantOpenAiCompatibleConfig {
+    /** Base URL that `/chat/completions` and `/models` are resolved against, e.g. `http://localhost:11434/v1`. */
+    baseUrl: string
+    /** Sent as a bearer token; local servers usually leave it empty. */
+    apiKey: string
+    /** Used when the thread's model is not served by the endpoint. */
+    defaultModel: string
+}
+
+export interface AssistantRuntimeConfig {
+    backend: AssistantRuntimeBackend
+    openaiCompatible: AssistantOpenAiCompatibleConfig
+}
+
+export interface AssistantRuntimeConfigPayload {
+    config: AssistantRuntimeConfig
+    status: AssistantRuntimeStatus
+}
+
+/**
+ * Per-project rules checked before an approval reaches the user. Command patterns match the whole
+ * command and accept `*` wildcards; path patterns are globs relative to the project, and a leading
+ * `!` matches every path the rest of the glob does not. Deny rules win over allow rules.
+ */
+export interface AssistantApprovalPolicy {
+    allowCommands: string[]
+    denyCommands: string[]
+    allowPaths: string[]
+    denyPaths: string[]
+}
+
+export interface AssistantApprovalPolicyInput {
+    projectPath: string
+    policy: AssistantApprovalPolicy
+}
+
+export interface AssistantApprovalPolicyPayload {
+    projectPath: string
+    policy: AssistantApprovalPolicy
+}
+
 export interface AssistantGetSessionTurnUsageInput {
     sessionId?: string
 }
@@ -75,6 +128,62 @@ export interface AssistantSessionTurnUsageResultPayload {
     usage: AssistantSessionTurnUsagePayload
 }
 
+export type AssistantSessionExportFormat = 'markdown' | 'html' | 'json'
+
+export interface AssistantExportSessionInput {
+    sessionId: string
+    /** Limits the export to one thread of the session. */
+    threadId?: string
+    format: AssistantSessionExportFormat
+}
+
+export interface AssistantExportSessionPayload {
+    filePath?: string
+    cancelled?: boolean
+}
+
+export interface AssistantImportSessionPayload {
+    sessionId?: string
+    cancelled?: boolean
+}
+
+/**
+ * Lossless `json` export. Threads carry their full messages, plans, activities and requests, and
+ * `turnUsage` holds every persisted turn rather than only each thread's latest one.
+ */
+export interface AssistantSessionExportDocument {
+    format: 'devscope-assistant-session'
+    version: number
+    exportedAt: string
+    session: AssistantSession
+    turnUsage: AssistantSessionTurnUsageEntry[]
+}
+
+export interface AssistantSearchConversationsInput {
+    query: string
+    limit?: number
+}
+
+export type AssistantSearchHitKind = 'message' | 'activity' | 'plan'
+
+export interface AssistantSearchHit {
+    kind: AssistantSearchHitKind
+    /** Id of the matched message, activity or proposed plan. */
+    recordId: string
+    sessionId: string
+    threadId: string
+    /** Message role, or the activity kind for activity hits. */
+    label: string | null
+    createdAt: string
+    snippet: string
+    /** Character ranges of `snippet` that matched the query. */
+    highlights: Array<{ start: number; end: number }>
+}
+
+export interface AssistantSearchConversationsPayload {
+    hits: AssistantSearchHit[]
+}
+
 export interface AssistantSendPromptOptions {
     sessionId?: string
     model?: string
@@ -94,6 +203,14 @@ export interface AssistantDeleteMessageInput {
     messageId: string
 }
 
+export interface AssistantForkThreadInput {
+    sessionId?: string
+    /** User message in the active thread to edit; the fork keeps everything before it. */
+    messageId: string
+    prompt: string
+    options?: Omit<AssistantSendPromptOptions, 'sessionId' | 'suppressUserMessage'>
+}
+
 export interface AssistantCreateSessionInput {
     title?: string
     projectPath?: string
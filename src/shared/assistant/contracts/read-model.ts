@@ -136,6 +136,10 @@ export interface AssistantThread {
     subagentDepth: number | null
     agentNickname: string | null
     agentRole: string | null
+    /** Set on threads created by editing an earlier prompt; the original thread is kept as-is. */
+    forkedFromThreadId?: string | null
+    /** The user message in `forkedFromThreadId` that was edited to start this fork. */
+    forkedFromMessageId?: string | null
     model: string
     cwd: string | null
     messageCount: number
@@ -166,6 +170,8 @@ export interface AssistantSession {
     createdAt: string
     updatedAt: string
     activeThreadId: string | null
+    /** Set on sessions recreated from an export; they are read-only history and never reach a runtime. */
+    importedAt?: string | null
     threadIds: string[]
     threads: AssistantThread[]
 }
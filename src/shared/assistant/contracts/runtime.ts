@@ -29,7 +29,8 @@ export interface AssistantTurnUsage {
 }
 
 export type AssistantApprovalRequestType = 'command' | 'file-read' | 'file-change'
-export type AssistantApprovalDecision = 'acceptForSession' | 'decline'
+/** `accept` approves only this request; `acceptForSession` also covers later requests of the same type. */
+export type AssistantApprovalDecision = 'accept' | 'acceptForSession' | 'decline'
 
 export type AssistantPlanStepStatus = 'pending' | 'inProgress' | 'completed'
 
@@ -106,6 +106,14 @@ export function stripSerializedAssistantAttachments(text: string): string {
     return parseSerializedAssistantMessage(text).body
 }
 
+/** Replaces the prose of a serialized message, keeping its attachment block as-is. */
+export function replaceSerializedAssistantMessageBody(text: string, body: string): string {
+    const source = String(text || '')
+    const markerMatch = source.match(ATTACHMENT_BLOCK_MARKER)
+    const attachmentBlock = markerMatch && markerMatch.index != null ? source.slice(markerMatch.index) : ''
+    return `${body.trimEnd()}${attachmentBlock}`
+}
+
 export function isSerializedClipboardAttachment(value: SerializedAssistantAttachment | string | null | undefined): boolean {
     if (typeof value === 'string') {
         return value.trim().toLowerCase().startsWith('clipboard://')
@@ -1,4 +1,6 @@
 import type {
+    AssistantApprovalPolicyInput,
+    AssistantApprovalPolicyPayload,
     AssistantApprovalResponseInput,
     AssistantAccountOverviewPayload,
     AssistantApprovePendingPlaygroundLabRequestInput,
@@ -12,11 +14,19 @@ import type {
     AssistantDeletePlaygroundLabInput,
     AssistantDeleteMessageInput,
     AssistantEventStreamPayload,
+    AssistantExportSessionInput,
+    AssistantExportSessionPayload,
+    AssistantForkThreadInput,
     AssistantGetSessionTurnUsageInput,
+    AssistantImportSessionPayload,
     AssistantModelInfo,
     AssistantPlaygroundResultPayload,
     AssistantPersistClipboardImageInput,
+    AssistantRuntimeConfig,
+    AssistantRuntimeConfigPayload,
     AssistantRuntimeStatus,
+    AssistantSearchConversationsInput,
+    AssistantSearchConversationsPayload,
     AssistantSendPromptOptions,
     AssistantSelectThreadInput,
     AssistantSetPlaygroundRootInput,
@@ -28,28 +38,62 @@ import type {
 } from '../assistant/contracts'
 import type {
     DevScopeGitBranchSummary,
+    DevScopeGitCloneInput,
+    DevScopeGitCloneProgressEvent,
+    DevScopeGitCloneResult,
     DevScopeGitCommit,
+    DevScopeGitConflictFile,
+    DevScopeGitConflictResolution,
+    DevScopeGitConflictState,
+    DevScopeGitFileBlame,
+    DevScopeGitFileHistory,
     DevScopeGitFileStatus,
     DevScopeGitHistoryCount,
     DevScopeGitHubPublishContext,
+    DevScopeGitRebaseInput,
+    DevScopeGitRebasePlan,
+    DevScopeGitRebaseProgressEvent,
     DevScopeGitRemoteSummary,
+    DevScopeGitResetMode,
+    DevScopeGitAmendCommitInput,
     DevScopeGitStashSummary,
     DevScopeGitStatusDetail,
     DevScopeGitStatusEntryStats,
     DevScopeGitSyncStatus,
     DevScopeGitTagSummary,
+    DevScopeGitReleaseDraft,
+    DevScopeGitDraftReleaseInput,
+    DevScopeGitWorktreeSummary,
+    DevScopeGitAddWorktreeInput,
+    DevScopeGitSubmoduleSummary,
+    DevScopeGitUpdateSubmodulesInput,
+    DevScopeGitSigningConfig,
+    DevScopeGitSigningConfigUpdate,
     DevScopeProjectGitOverviewItem,
     DevScopePullRequestDraftSource,
     DevScopePullRequestProvider,
     DevScopePullRequestSummary,
     DevScopeCreatePullRequestInput,
     DevScopeCommitPushPullRequestInput,
-    DevScopeGitTextProvider
+    DevScopeGitTextProvider,
+    DevScopePatchHunkSelection
 } from './devscope-git-contracts'
 import type {
+    DevScopeCustomProjectType,
+    DevScopeDependencyAuditInput,
+    DevScopeDependencyAuditReport,
+    DevScopeDependencyEcosystem,
+    DevScopeDependencyInstallManager,
+    DevScopeDependencyInstallOutputEvent,
+    DevScopeDependencyInstallStatus,
+    DevScopeFileIndexChangedEvent,
     DevScopeFileItem,
     DevScopeFileTreeNode,
     DevScopeFolderItem,
+    DevScopeIndexedContentSearchInput,
+    DevScopeIndexedContentSearchResult,
+    DevScopeIndexedDependencyAuditInput,
+    DevScopeIndexedDependencyAuditResult,
     DevScopeIndexedPathSearchInput,
     DevScopeIndexedPathSearchResult,
     DevScopeIndexedProject,
@@ -60,68 +104,23 @@ import type {
     DevScopeProjectDetails,
     DevScopePythonPreviewEvent
 } from './devscope-project-contracts'
+import type { DevScopeRunConfigurationApi } from './devscope-run-contracts'
+import type {
+    DevScopePreviewTerminalApi,
+    DevScopeShellId,
+    DevScopeTerminalApi,
+    DevScopeTerminalShell
+} from './devscope-terminal-contracts'
 
 export * from './devscope-git-contracts'
 export * from './devscope-project-contracts'
+export * from './devscope-run-contracts'
+export * from './devscope-terminal-contracts'
 
 export type DevScopeOk<T = Record<string, unknown>> = { success: true } & T
 export type DevScopeErr = { success: false; error: string }
 export type DevScopeResult<T = Record<string, unknown>> = DevScopeOk<T> | DevScopeErr
 
-export type DevScopePreviewTerminalEvent = {
-    sessionId: string
-    type: 'started' | 'output' | 'exit' | 'error' | 'title'
-    data?: string
-    message?: string
-    shell?: string
-    cwd?: string
-    title?: string
-    groupKey?: string
-    status?: 'running' | 'exited' | 'error'
-    exitCode?: number
-}
-
-export const GIT_CLONE_PROGRESS_CHANNEL = 'devscope:gitClone:progress'
-
-export type DevScopeGitCloneStatus = 'running' | 'success' | 'error'
-
-export type DevScopeGitCloneInput = {
-    cloneId: string
-    repoUrl: string
-    destinationDirectory: string
-    targetName?: string
-}
-
-export type DevScopeGitCloneProgressEvent = {
-    cloneId: string
-    status: DevScopeGitCloneStatus
-    message: string
-    repoName?: string
-    clonePath?: string
-    phase?: string
-    percent?: number
-    error?: string
-}
-
-export type DevScopeGitCloneResult = {
-    cloneId: string
-    repoName: string
-    clonePath: string
-}
-
-export type DevScopePreviewTerminalSessionSummary = {
-    sessionId: string
-    title: string
-    shell: string
-    cwd: string
-    groupKey: string
-    status: 'running' | 'exited' | 'error'
-    startedAt: number
-    lastActivityAt: number
-    exitCode?: number | null
-    recentOutput?: string
-}
-
 export type DevScopeReleaseChannel = 'alpha' | 'beta' | 'stable'
 export type DevScopeUpdateStatus =
     | 'disabled'
@@ -176,10 +175,6 @@ export interface DevScopeUpdatesApi {
     onStateChange: (callback: (state: DevScopeUpdateState) => void) => () => void
 }
 
-export interface DevScopeTerminalApi {
-    [method: string]: (...args: any[]) => any
-}
-
 export interface DevScopeAgentScopeApi {
     [method: string]: (...args: any[]) => any
 }
@@ -191,6 +186,8 @@ export interface DevScopeAssistantApi {
     getSnapshot: () => Promise<AssistantSnapshot>
     getStatus: () => Promise<AssistantRuntimeStatus>
     getAccountOverview: () => Promise<DevScopeResult<AssistantAccountOverviewPayload>>
+    getRuntimeConfig: () => Promise<DevScopeResult<AssistantRuntimeConfigPayload>>
+    setRuntimeConfig: (config: AssistantRuntimeConfig) => Promise<DevScopeResult<AssistantRuntimeConfigPayload>>
     getSessionTurnUsage: (input?: AssistantGetSessionTurnUsageInput) => Promise<DevScopeResult<AssistantSessionTurnUsageResultPayload>>
     listModels: (forceRefresh?: boolean) => Promise<DevScopeResult<{ models: AssistantModelInfo[] }>>
     connect: (options?: AssistantConnectOptions) => Promise<DevScopeResult<{ threadId: string }>>
@@ -202,6 +199,9 @@ export interface DevScopeAssistantApi {
     renameSession: (sessionId: string, title: string) => Promise<DevScopeResult>
     archiveSession: (sessionId: string, archived?: boolean) => Promise<DevScopeResult>
     deleteSession: (sessionId: string) => Promise<DevScopeResult>
+    exportSession: (input: AssistantExportSessionInput) => Promise<DevScopeResult<AssistantExportSessionPayload>>
+    importSession: () => Promise<DevScopeResult<AssistantImportSessionPayload>>
+    searchConversations: (input: AssistantSearchConversationsInput) => Promise<DevScopeResult<AssistantSearchConversationsPayload>>
     deleteMessage: (input: AssistantDeleteMessageInput) => Promise<DevScopeResult>
     clearLogs: (input?: AssistantClearLogsInput) => Promise<DevScopeResult>
     setSessionProjectPath: (sessionId: string, projectPath: string | null) => Promise<DevScopeResult>
@@ -217,8 +217,12 @@ export interface DevScopeAssistantApi {
     newThread: (sessionId?: string) => Promise<DevScopeResult<{ threadId: string }>>
     sendPrompt: (prompt: string, options?: AssistantSendPromptOptions) =>
         Promise<DevScopeResult<{ sessionId: string; threadId: string; turnId: string }>>
+    forkThread: (input: AssistantForkThreadInput) =>
+        Promise<DevScopeResult<{ sessionId: string; threadId: string; turnId: string }>>
     interruptTurn: (turnId?: string, sessionId?: string) => Promise<DevScopeResult>
     respondApproval: (input: AssistantApprovalResponseInput) => Promise<DevScopeResult>
+    getApprovalPolicy: (projectPath: string) => Promise<DevScopeResult<AssistantApprovalPolicyPayload>>
+    setApprovalPolicy: (input: AssistantApprovalPolicyInput) => Promise<DevScopeResult<AssistantApprovalPolicyPayload>>
     respondUserInput: (input: AssistantUserInputResponseInput) => Promise<DevScopeResult>
     getTranscriptionModelState: () => Promise<DevScopeResult<{ state: AssistantTranscriptionModelState }>>
     downloadTranscriptionModel: () => Promise<DevScopeResult<{ state: AssistantTranscriptionModelState }>>
@@ -226,7 +230,7 @@ export interface DevScopeAssistantApi {
     onEvent: (callback: (event: AssistantEventStreamPayload) => void) => () => void
 }
 
-export interface DevScopeApi {
+export interface DevScopeApi extends DevScopePreviewTerminalApi, DevScopeRunConfigurationApi {
     // Settings + AI
     setStartupSettings: (settings: { openAtLogin: boolean; openAsHidden: boolean }) => Promise<DevScopeResult>
     getStartupSettings: () => Promise<DevScopeResult>
@@ -243,30 +247,30 @@ export interface DevScopeApi {
     selectMarkdownFile: () => Promise<DevScopeResult<{ filePath?: string; cancelled?: boolean }>>
     getUserHomePath: () => Promise<DevScopeResult<{ path: string }>>
     scanProjects: (folderPath: string, options?: { forceRefresh?: boolean }) => Promise<DevScopeResult<{ projects: DevScopeProject[]; folders: DevScopeFolderItem[]; files: DevScopeFileItem[]; cached?: boolean; cachedAt?: number }>>
+    setCustomProjectTypes: (types: DevScopeCustomProjectType[]) => Promise<DevScopeResult>
     openInExplorer: (path: string) => Promise<DevScopeResult>
-    openInTerminal: (path: string, preferredShell?: 'powershell' | 'cmd', initialCommand?: string) => Promise<DevScopeResult>
+    openInTerminal: (path: string, preferredShell?: DevScopeShellId, initialCommand?: string) => Promise<DevScopeResult>
+    listTerminalShells: () => Promise<DevScopeResult<{ defaultShellId: DevScopeShellId; shells: DevScopeTerminalShell[] }>>
     listInstalledIdes: () => Promise<DevScopeResult<{ ides: DevScopeInstalledIde[] }>>
     openProjectInIde: (projectPath: string, ideId: string) => Promise<DevScopeResult<{ ide: DevScopeInstalledIde }>>
     installProjectDependencies: (
         projectPath: string,
-        options?: { onlyMissing?: boolean }
+        options?: { onlyMissing?: boolean; installId?: string }
     ) => Promise<DevScopeResult<{
-        manager: 'npm' | 'pnpm' | 'yarn' | 'bun'
+        manager: DevScopeDependencyInstallManager
+        ecosystem: DevScopeDependencyEcosystem
         durationMs: number
         message?: string
         output?: string
-        installStatus?: {
-            installed: boolean | null
-            checked: boolean
-            ecosystem: 'node' | 'unknown'
-            totalPackages: number
-            installedPackages: number
-            missingPackages: number
-            missingDependencies?: string[]
-            missingSample?: string[]
-            reason?: string
-        } | null
+        installStatus?: DevScopeDependencyInstallStatus | null
     }>>
+    onDependencyInstallOutput: (callback: (event: DevScopeDependencyInstallOutputEvent) => void) => () => void
+    auditProjectDependencies: (
+        input: DevScopeDependencyAuditInput
+    ) => Promise<DevScopeResult<{ report: DevScopeDependencyAuditReport }>>
+    auditIndexedDependencies: (
+        input: DevScopeIndexedDependencyAuditInput
+    ) => Promise<DevScopeResult<DevScopeIndexedDependencyAuditResult>>
     getProjectDetails: (projectPath: string) => Promise<DevScopeResult<{ project: DevScopeProjectDetails }>>
     getFileTree: (
         projectPath: string,
@@ -292,6 +296,9 @@ export interface DevScopeApi {
         commitHashes: string[]
     ) => Promise<DevScopeResult<{ commits: DevScopeGitCommit[] }>>
     getCommitDiff: (projectPath: string, commitHash: string) => Promise<DevScopeResult<{ diff: string }>>
+    getCommitMessage: (projectPath: string, commitHash: string) => Promise<DevScopeResult<{ message: string }>>
+    getFileBlame: (projectPath: string, filePath: string) => Promise<DevScopeResult<{ blame: DevScopeGitFileBlame }>>
+    getFileHistory: (projectPath: string, filePath: string, limit?: number) => Promise<DevScopeResult<{ history: DevScopeGitFileHistory }>>
     getWorkingDiff: (
         projectPath: string,
         filePath?: string,
@@ -355,6 +362,23 @@ export interface DevScopeApi {
         files: string[],
         options?: { scope?: 'project' | 'repo'; mode?: 'unstaged' | 'staged' | 'both' }
     ) => Promise<DevScopeResult>
+    stagePatch: (projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]) => Promise<DevScopeResult>
+    unstagePatch: (projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]) => Promise<DevScopeResult>
+    discardPatch: (projectPath: string, filePath: string, selections: DevScopePatchHunkSelection[]) => Promise<DevScopeResult>
+    getGitConflictState: (projectPath: string) => Promise<DevScopeResult<{ state: DevScopeGitConflictState }>>
+    getGitConflictFile: (projectPath: string, filePath: string) => Promise<DevScopeResult<{ file: DevScopeGitConflictFile }>>
+    resolveGitConflict: (projectPath: string, filePath: string, resolution: DevScopeGitConflictResolution) => Promise<DevScopeResult>
+    continueGitOperation: (projectPath: string) => Promise<DevScopeResult>
+    abortGitOperation: (projectPath: string) => Promise<DevScopeResult>
+    cherryPickCommit: (projectPath: string, commitHash: string) => Promise<DevScopeResult>
+    revertCommit: (projectPath: string, commitHash: string) => Promise<DevScopeResult>
+    resetToCommit: (projectPath: string, commitHash: string, mode: DevScopeGitResetMode) => Promise<DevScopeResult>
+    amendLastCommit: (projectPath: string, input: DevScopeGitAmendCommitInput) => Promise<DevScopeResult>
+    undoLastCommit: (projectPath: string, allowPushed?: boolean) => Promise<DevScopeResult>
+    rewordCommit: (projectPath: string, commitHash: string, message: string, allowPushed?: boolean) => Promise<DevScopeResult>
+    getRebasePlan: (projectPath: string, fromHash: string) => Promise<DevScopeResult<{ plan: DevScopeGitRebasePlan }>>
+    runInteractiveRebase: (input: DevScopeGitRebaseInput) => Promise<DevScopeResult>
+    onGitRebaseProgress: (callback: (event: DevScopeGitRebaseProgressEvent) => void) => () => void
     createCommit: (projectPath: string, message: string) => Promise<DevScopeResult>
     setGlobalGitUser: (user: { name: string; email: string }) => Promise<DevScopeResult>
     pushCommits: (
@@ -384,12 +408,26 @@ export interface DevScopeApi {
     setRemoteUrl: (projectPath: string, remoteName: string, remoteUrl: string) => Promise<DevScopeResult>
     removeRemote: (projectPath: string, remoteName: string) => Promise<DevScopeResult>
     listTags: (projectPath: string) => Promise<DevScopeResult<{ tags: DevScopeGitTagSummary[] }>>
-    createTag: (projectPath: string, tagName: string, target?: string) => Promise<DevScopeResult>
+    createTag: (projectPath: string, tagName: string, target?: string, message?: string) => Promise<DevScopeResult>
     deleteTag: (projectPath: string, tagName: string) => Promise<DevScopeResult>
+    pushTag: (projectPath: string, tagName: string, remoteName?: string) => Promise<DevScopeResult>
+    deleteRemoteTag: (projectPath: string, tagName: string, remoteName?: string) => Promise<DevScopeResult>
+    draftRelease: (projectPath: string, input?: DevScopeGitDraftReleaseInput) => Promise<DevScopeResult<{ draft: DevScopeGitReleaseDraft }>>
+    writeChangelogSection: (projectPath: string, section: string) => Promise<DevScopeResult<{ path: string; created: boolean; replaced: boolean }>>
     listStashes: (projectPath: string) => Promise<DevScopeResult<{ stashes: DevScopeGitStashSummary[] }>>
     createStash: (projectPath: string, message?: string) => Promise<DevScopeResult>
     applyStash: (projectPath: string, stashRef?: string, pop?: boolean) => Promise<DevScopeResult>
     dropStash: (projectPath: string, stashRef?: string) => Promise<DevScopeResult>
+    listWorktrees: (projectPath: string) => Promise<DevScopeResult<{ worktrees: DevScopeGitWorktreeSummary[] }>>
+    addWorktree: (projectPath: string, input: DevScopeGitAddWorktreeInput) => Promise<DevScopeResult<{ worktree: DevScopeGitWorktreeSummary }>>
+    removeWorktree: (projectPath: string, worktreePath: string, force?: boolean) => Promise<DevScopeResult>
+    pruneWorktrees: (projectPath: string) => Promise<DevScopeResult<{ pruned: number }>>
+    listSubmodules: (projectPath: string) => Promise<DevScopeResult<{ submodules: DevScopeGitSubmoduleSummary[]; repoRoot: string; superprojectRoot: string | null }>>
+    initSubmodules: (projectPath: string, paths?: string[]) => Promise<DevScopeResult>
+    updateSubmodules: (projectPath: string, input?: DevScopeGitUpdateSubmodulesInput) => Promise<DevScopeResult>
+    syncSubmodules: (projectPath: string, paths?: string[], recursive?: boolean) => Promise<DevScopeResult>
+    getGitSigningConfig: (projectPath: string) => Promise<DevScopeResult<{ config: DevScopeGitSigningConfig }>>
+    setGitSigningConfig: (projectPath: string, update: DevScopeGitSigningConfigUpdate) => Promise<DevScopeResult<{ config: DevScopeGitSigningConfig }>>
     checkIsGitRepo: (projectPath: string) => Promise<DevScopeResult<{ isGitRepo: boolean }>>
     initGitRepo: (projectPath: string, branchName: string, createGitignore: boolean, gitignoreTemplate?: string) => Promise<DevScopeResult>
     createInitialCommit: (projectPath: string, message: string) => Promise<DevScopeResult>
@@ -413,21 +451,6 @@ export interface DevScopeApi {
         Promise<DevScopeResult<{ pid: number | null; interpreter: string; command: string }>>
     stopPythonPreview: (sessionId: string) => Promise<DevScopeResult<{ stopped: boolean }>>
     onPythonPreviewEvent: (callback: (event: DevScopePythonPreviewEvent) => void) => () => void
-    createPreviewTerminal: (input: {
-        sessionId: string
-        targetPath?: string
-        preferredShell?: 'powershell' | 'cmd'
-        cols?: number
-        rows?: number
-        title?: string
-    }) => Promise<DevScopeResult<{ shell: string; cwd: string; groupKey: string; session: DevScopePreviewTerminalSessionSummary }>>
-    listPreviewTerminalSessions: (input?: { targetPath?: string }) =>
-        Promise<DevScopeResult<{ groupKey?: string; cwd?: string; sessions: DevScopePreviewTerminalSessionSummary[] }>>
-    writePreviewTerminal: (input: { sessionId: string; data: string }) => Promise<DevScopeResult>
-    setPreviewTerminalTitle: (input: { sessionId: string; title: string }) => Promise<DevScopeResult<{ title: string }>>
-    resizePreviewTerminal: (input: { sessionId: string; cols: number; rows: number }) => Promise<DevScopeResult>
-    closePreviewTerminal: (sessionId: string) => Promise<DevScopeResult<{ closed: boolean }>>
-    onPreviewTerminalEvent: (callback: (event: DevScopePreviewTerminalEvent) => void) => () => void
     openFile: (filePath: string) => Promise<DevScopeResult>
     openWith: (filePath: string) => Promise<DevScopeResult>
     createFileSystemItem: (
@@ -448,6 +471,10 @@ export interface DevScopeApi {
     searchIndexedPaths: (
         input: DevScopeIndexedPathSearchInput
     ) => Promise<DevScopeResult<DevScopeIndexedPathSearchResult>>
+    searchIndexedContent: (
+        input: DevScopeIndexedContentSearchInput
+    ) => Promise<DevScopeResult<DevScopeIndexedContentSearchResult>>
+    onFileIndexChanged: (callback: (event: DevScopeFileIndexChangedEvent) => void) => () => void
     getFileSystemRoots: () => Promise<DevScopeResult<{ roots: string[] }>>
 
     terminal: DevScopeTerminalApi
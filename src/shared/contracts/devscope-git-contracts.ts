@@ -1,4 +1,4 @@
-export type DevScopeGitFileStatus = 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'ignored' | 'unknown'
+export type DevScopeGitFileStatus = 'modified' | 'untracked' | 'added' | 'deleted' | 'renamed' | 'conflicted' | 'ignored' | 'unknown'
 
 export type DevScopeGitStatusDetail = {
     path: string
@@ -14,6 +14,13 @@ export type DevScopeGitStatusDetail = {
     unstagedAdditions: number
     unstagedDeletions: number
     statsLoaded?: boolean
+    submodule?: DevScopeGitSubmoduleChangeFlags
+}
+
+export type DevScopeGitSubmoduleChangeFlags = {
+    commitChanged: boolean
+    hasTrackedChanges: boolean
+    hasUntrackedChanges: boolean
 }
 
 export type DevScopeGitStatusEntryStats = {
@@ -78,6 +85,16 @@ export type DevScopeGitCommit = {
     deletions: number
     filesChanged: number
     statsLoaded?: boolean
+    signature?: DevScopeGitCommitSignature
+}
+
+export type DevScopeGitSignatureStatus = 'verified' | 'unverified' | 'unsigned'
+
+export type DevScopeGitCommitSignature = {
+    status: DevScopeGitSignatureStatus
+    /** Raw `%G?` code, e.g. `G`, `B`, `U`, `X`, `Y`, `R`, `E` or `N`. */
+    code: string
+    signer: string | null
 }
 
 export type DevScopeGitHistoryCount = {
@@ -93,10 +110,14 @@ export type DevScopeGitBranchSummary = {
     isLocal?: boolean
 }
 
+export type DevScopeForgeKind = 'github' | 'gitlab' | 'gitea'
+
 export type DevScopeGitRemoteSummary = {
     name: string
     fetchUrl: string
     pushUrl: string
+    /** Forge hosting the remote, when DevScope can create pull requests against it. */
+    forge: DevScopeForgeKind | null
 }
 
 export type DevScopeGitHubRepository = {
@@ -144,6 +165,42 @@ export type DevScopeGitSyncStatus = {
 export type DevScopeGitTagSummary = {
     name: string
     commit?: string
+    annotated?: boolean
+    message?: string | null
+    tagger?: string | null
+    date?: string | null
+}
+
+export type DevScopeGitReleaseEntry = {
+    hash: string
+    shortHash: string
+    type: string | null
+    scope: string | null
+    description: string
+    breaking: boolean
+}
+
+export type DevScopeGitReleaseGroup = {
+    key: string
+    title: string
+    entries: DevScopeGitReleaseEntry[]
+}
+
+export type DevScopeGitReleaseDraft = {
+    version: string | null
+    previousTag: string | null
+    toRef: string
+    date: string
+    commitCount: number
+    groups: DevScopeGitReleaseGroup[]
+    /** Changelog section starting with a `## ` heading. */
+    markdown: string
+}
+
+export type DevScopeGitDraftReleaseInput = {
+    fromTag?: string
+    toRef?: string
+    version?: string
 }
 
 export type DevScopeGitStashSummary = {
@@ -151,6 +208,62 @@ export type DevScopeGitStashSummary = {
     message: string
 }
 
+export type DevScopeGitWorktreeSummary = {
+    path: string
+    head: string
+    branch: string | null
+    isMain: boolean
+    isCurrent: boolean
+    detached: boolean
+    bare: boolean
+    locked: boolean
+    prunable: boolean
+}
+
+export type DevScopeGitAddWorktreeInput = {
+    path: string
+    branch?: string
+    createBranch?: boolean
+    baseRef?: string
+}
+
+export type DevScopeGitSubmoduleSummary = DevScopeGitSubmoduleChangeFlags & {
+    name: string
+    path: string
+    url: string
+    pinnedCommit: string | null
+    checkedOutCommit: string | null
+    initialized: boolean
+    hasConflicts: boolean
+}
+
+export type DevScopeGitUpdateSubmodulesInput = {
+    paths?: string[]
+    init?: boolean
+    recursive?: boolean
+    remote?: boolean
+}
+
+export type DevScopeGitSigningFormat = 'openpgp' | 'ssh' | 'x509'
+
+export type DevScopeGitSigningConfig = {
+    format: DevScopeGitSigningFormat
+    signingKey: string | null
+    signCommits: boolean
+    signTags: boolean
+    allowedSignersFile: string | null
+    /** Config keys set in this repository rather than inherited from global config. */
+    localKeys: string[]
+}
+
+export type DevScopeGitSigningConfigUpdate = {
+    format?: DevScopeGitSigningFormat | null
+    signingKey?: string | null
+    signCommits?: boolean | null
+    signTags?: boolean | null
+    allowedSignersFile?: string | null
+}
+
 export type DevScopeProjectGitOverviewItem = {
     path: string
     isGitRepo: boolean
@@ -159,3 +272,170 @@ export type DevScopeProjectGitOverviewItem = {
     hasRemote: boolean
     error?: string
 }
+
+/**
+ * Part of a single-file diff picked for partial staging. `header` is the hunk's `@@ ... @@`
+ * line so a selection made against a stale diff is rejected instead of applied to the wrong lines;
+ * `lines` are indexes into the hunk body (omit to take the whole hunk).
+ */
+export type DevScopePatchHunkSelection = {
+    header: string
+    lines?: number[]
+}
+
+/** In-progress multi-step operation that `continueGitOperation`/`abortGitOperation` act on. */
+export type DevScopeGitOperationKind = 'merge' | 'rebase' | 'cherry-pick' | 'revert'
+
+export type DevScopeGitConflictState = {
+    operation: DevScopeGitOperationKind | null
+    /** `<short hash> <subject>` of the commit being merged or replayed, when git records one. */
+    incomingLabel: string | null
+    /** Unmerged paths, relative to the project like `getGitStatusDetailed` paths. */
+    conflictedPaths: string[]
+}
+
+export type DevScopeGitConflictFile = {
+    path: string
+    /** Index stages 1-3; null when that side has no version (added or deleted there). */
+    base: string | null
+    ours: string | null
+    theirs: string | null
+    /** Working-tree text with conflict markers, rewritten with base sections when git left plain markers. */
+    merged: string
+    binary: boolean
+}
+
+export type DevScopeGitConflictResolution =
+    | { kind: 'content'; content: string }
+    | { kind: 'ours' }
+    | { kind: 'theirs' }
+    | { kind: 'delete' }
+    | { kind: 'mark' }
+
+export type DevScopeGitResetMode = 'soft' | 'mixed' | 'hard'
+
+export type DevScopeGitAmendCommitInput = {
+    message?: string
+    includeStaged?: boolean
+    /** Only set after the user confirmed rewriting a commit that is already pushed. */
+    allowPushed?: boolean
+}
+
+/** Interactive rebase todo action; `reword` and `squash` may carry a replacement message. */
+export type DevScopeGitRebaseAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop'
+
+export type DevScopeGitRebaseCommit = {
+    hash: string
+    shortHash: string
+    subject: string
+    /** Full commit message, used to prefill reword and squash edits. */
+    message: string
+    author: string
+    date: string
+}
+
+export type DevScopeGitRebasePlan = {
+    /** Commit the rebase replays onto; null when the range starts at the root commit. */
+    baseHash: string | null
+    /** Commits from the chosen one up to HEAD, oldest first (todo order). */
+    commits: DevScopeGitRebaseCommit[]
+}
+
+export type DevScopeGitRebaseStep = {
+    hash: string
+    action: DevScopeGitRebaseAction
+    message?: string
+}
+
+export type DevScopeGitRebaseInput = {
+    rebaseId: string
+    projectPath: string
+    baseHash: string | null
+    steps: DevScopeGitRebaseStep[]
+}
+
+export type DevScopeGitRebaseProgressEvent = {
+    rebaseId: string
+    status: 'running' | 'success' | 'error'
+    message: string
+    step?: number
+    total?: number
+    percent?: number
+    error?: string
+}
+
+export type DevScopeGitBlameCommit = {
+    hash: string
+    shortHash: string
+    author: string
+    authorEmail: string
+    date: string
+    summary: string
+    /** Path of the file in this commit; differs from the current path when the file was renamed since. */
+    path: string
+    previousHash: string | null
+    /** True for lines that only exist in the working tree. */
+    uncommitted: boolean
+}
+
+export type DevScopeGitBlameRange = {
+    startLine: number
+    lineCount: number
+    hash: string
+}
+
+export type DevScopeGitFileBlame = {
+    /** Consecutive lines attributed to the same commit, in line order. */
+    ranges: DevScopeGitBlameRange[]
+    commits: Record<string, DevScopeGitBlameCommit>
+}
+
+export type DevScopeGitFileHistoryEntry = {
+    hash: string
+    shortHash: string
+    parents: string[]
+    author: string
+    authorEmail: string
+    date: string
+    message: string
+    status: 'added' | 'modified' | 'renamed' | 'copied' | 'deleted'
+    /** Path of the file as of this commit. */
+    path: string
+    /** Path before this commit for renames and copies. */
+    previousPath: string | null
+}
+
+export type DevScopeGitFileHistory = {
+    entries: DevScopeGitFileHistoryEntry[]
+    hasMore: boolean
+}
+
+export const GIT_CLONE_PROGRESS_CHANNEL = 'devscope:gitClone:progress'
+
+export const GIT_REBASE_PROGRESS_CHANNEL = 'devscope:gitRebase:progress'
+
+export type DevScopeGitCloneStatus = 'running' | 'success' | 'error'
+
+export type DevScopeGitCloneInput = {
+    cloneId: string
+    repoUrl: string
+    destinationDirectory: string
+    targetName?: string
+}
+
+export type DevScopeGitCloneProgressEvent = {
+    cloneId: string
+    status: DevScopeGitCloneStatus
+    message: string
+    repoName?: string
+    clonePath?: string
+    phase?: string
+    percent?: number
+    error?: string
+}
+
+export type DevScopeGitCloneResult = {
+    cloneId: string
+    repoName: string
+    clonePath: string
+}
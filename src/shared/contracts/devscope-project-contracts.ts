@@ -1,5 +1,143 @@
 import type { DevScopeGitFileStatus } from './devscope-git-contracts'
 
+export type DevScopeDependencyEcosystem = 'node' | 'python' | 'rust' | 'go' | 'dotnet' | 'unknown'
+
+export type DevScopeDependencyInstallManager =
+    | 'npm' | 'pnpm' | 'yarn' | 'bun'
+    | 'pip' | 'uv' | 'poetry'
+    | 'cargo' | 'go' | 'dotnet'
+
+export type DevScopeDependencyInstallStatus = {
+    installed: boolean | null
+    checked: boolean
+    ecosystem: DevScopeDependencyEcosystem
+    totalPackages: number
+    installedPackages: number
+    missingPackages: number
+    missingDependencies?: string[]
+    missingSample?: string[]
+    reason?: string
+}
+
+export type DevScopeDependencyLockfileKind = 'npm' | 'pnpm' | 'yarn' | 'bun'
+
+export type DevScopeDependencyAdvisorySeverity = 'low' | 'moderate' | 'high' | 'critical' | 'unknown'
+
+export type DevScopeDependencyAuditStatus = 'ok' | 'mismatch' | 'missing' | 'unresolvable'
+
+export type DevScopeDependencyAdvisoryMatch = {
+    id: string
+    packageName: string
+    installedVersion: string
+    vulnerableRange: string
+    severity: DevScopeDependencyAdvisorySeverity
+    title: string
+    url?: string | null
+    patchedVersions?: string | null
+}
+
+export type DevScopeDependencyAuditEntry = {
+    name: string
+    scope: 'dependency' | 'devDependency' | 'optionalDependency'
+    declaredRange: string
+    resolvedVersion: string | null
+    status: DevScopeDependencyAuditStatus
+    latestInTree: string | null
+    majorDrift: boolean
+    duplicateVersions: string[]
+    advisories: DevScopeDependencyAdvisoryMatch[]
+}
+
+export type DevScopeDependencyDuplicate = {
+    name: string
+    versions: string[]
+}
+
+export type DevScopeDependencyAuditSummary = {
+    directDependencies: number
+    lockedPackages: number
+    ok: number
+    mismatched: number
+    missing: number
+    unresolvable: number
+    majorDrift: number
+    duplicates: number
+    advisories: Record<DevScopeDependencyAdvisorySeverity, number>
+}
+
+export type DevScopeDependencyAuditReport = {
+    projectPath: string
+    projectName: string
+    generatedAt: number
+    lockfile: { kind: DevScopeDependencyLockfileKind; path: string } | null
+    entries: DevScopeDependencyAuditEntry[]
+    duplicates: DevScopeDependencyDuplicate[]
+    advisories: DevScopeDependencyAdvisoryMatch[]
+    summary: DevScopeDependencyAuditSummary
+    advisoryDatabase: { path: string; advisoryCount: number } | null
+    warnings: string[]
+}
+
+export type DevScopeDependencyAuditInput = {
+    projectPath: string
+    advisoryDatabasePath?: string
+}
+
+export type DevScopeIndexedDependencyAuditInput = {
+    roots: string[]
+    advisoryDatabasePath?: string
+    forceRefresh?: boolean
+}
+
+export type DevScopeIndexedDependencyAuditProject = {
+    projectPath: string
+    projectName: string
+    lockfileKind: DevScopeDependencyLockfileKind | null
+    summary: DevScopeDependencyAuditSummary | null
+    error?: string
+}
+
+export type DevScopeDependencyVersionDrift = {
+    name: string
+    versions: Array<{ version: string; projectPaths: string[] }>
+    majors: number[]
+}
+
+export type DevScopeIndexedDependencyAuditResult = {
+    generatedAt: number
+    projects: DevScopeIndexedDependencyAuditProject[]
+    versionDrift: DevScopeDependencyVersionDrift[]
+    advisories: Array<DevScopeDependencyAdvisoryMatch & { projectPath: string }>
+    warnings: string[]
+}
+
+export type DevScopeWorkspaceKind = 'pnpm' | 'yarn' | 'npm' | 'bun' | 'cargo' | 'go'
+
+export type DevScopeWorkspacePackage = {
+    name: string
+    path: string
+    relativePath: string
+    kind: DevScopeWorkspaceKind
+    type: string
+    frameworks: string[]
+    version?: string | null
+    scripts: Record<string, string>
+    dependencies: string[]
+    workspaceDependencies: string[]
+}
+
+export type DevScopeWorkspaceRootSummary = {
+    path: string
+    name: string
+    kinds: DevScopeWorkspaceKind[]
+}
+
+export type DevScopeWorktreeMember = {
+    name: string
+    path: string
+    branch: string | null
+}
+
 export type DevScopeProject = {
     name: string
     path: string
@@ -9,6 +147,12 @@ export type DevScopeProject = {
     frameworks: string[]
     lastModified?: number
     isProject: boolean
+    workspaceKinds?: DevScopeWorkspaceKind[]
+    workspaceRootPath?: string | null
+    /** Linked git worktrees found next to this repository in the same scan. */
+    worktrees?: DevScopeWorktreeMember[]
+    /** Main repository path when this project is a linked worktree listed on its own. */
+    worktreeRootPath?: string | null
 }
 
 export type DevScopeFolderItem = {
@@ -38,17 +182,10 @@ export type DevScopeProjectDetails = {
     scripts?: Record<string, string>
     dependencies?: Record<string, string>
     devDependencies?: Record<string, string>
-    dependencyInstallStatus?: {
-        installed: boolean | null
-        checked: boolean
-        ecosystem: 'node' | 'unknown'
-        totalPackages: number
-        installedPackages: number
-        missingPackages: number
-        missingDependencies?: string[]
-        missingSample?: string[]
-        reason?: string
-    } | null
+    dependencyInstallStatus?: DevScopeDependencyInstallStatus | null
+    workspaceKinds?: DevScopeWorkspaceKind[]
+    workspacePackages?: DevScopeWorkspacePackage[]
+    parentWorkspace?: DevScopeWorkspaceRootSummary | null
     [key: string]: unknown
 }
 
@@ -70,6 +207,15 @@ export type DevScopePathInfo = {
     type: 'file' | 'directory' | null
 }
 
+export type DevScopeCustomProjectType = {
+    id: string
+    displayName: string
+    markers: string[]
+    themeColor: string
+    icon?: string
+    description?: string
+}
+
 export type DevScopeIndexedProject = DevScopeProject & {
     sourceFolder: string
     depth: number
@@ -111,6 +257,45 @@ export type DevScopeIndexedPathSearchResult = {
     totalMatched: number
 }
 
+export type DevScopeIndexedContentSearchInput = {
+    term: string
+    scopePath?: string
+    roots?: string[]
+    extensionFilters?: string[]
+    limit?: number
+    maxMatchesPerFile?: number
+}
+
+export type DevScopeIndexedContentMatch = {
+    line: number
+    column: number
+    preview: string
+}
+
+export type DevScopeIndexedContentFileResult = {
+    path: string
+    rootPath: string
+    relativePath: string
+    name: string
+    extension: string
+    matches: DevScopeIndexedContentMatch[]
+    totalMatches: number
+}
+
+export type DevScopeIndexedContentSearchResult = {
+    files: DevScopeIndexedContentFileResult[]
+    totalFiles: number
+    totalMatches: number
+    truncated: boolean
+}
+
+export type DevScopeFileIndexChangedEvent = {
+    rootPaths: string[]
+    changedPaths: string[]
+    source: 'watcher' | 'refresh'
+    changedAt: number
+}
+
 export type DevScopeProcessInfo = {
     pid: number
     name: string
@@ -145,3 +330,14 @@ export type DevScopePythonPreviewEvent = {
     command?: string
     stopped?: boolean
 }
+
+export const FILE_INDEX_CHANGED_CHANNEL = 'devscope:fileIndex:changed'
+
+export const DEPENDENCY_INSTALL_OUTPUT_CHANNEL = 'devscope:dependencyInstall:output'
+
+export type DevScopeDependencyInstallOutputEvent = {
+    installId: string
+    projectPath: string
+    stream: 'stdout' | 'stderr' | 'system'
+    chunk: string
+}
@@ -0,0 +1,65 @@
+import type { DevScopeResult } from './devscope-api'
+import type { DevScopeShellId } from './devscope-terminal-contracts'
+
+export type DevScopeRunRestartPolicy = 'never' | 'on-failure' | 'always'
+
+/** When a configuration counts as ready for the configurations that depend on it. */
+export type DevScopeRunReadiness = 'started' | 'exited'
+
+/** A saved, named way to run something in a project (a script, a build, a server). */
+export type DevScopeRunConfiguration = {
+    id: string
+    name: string
+    /** Shell command. Empty for compound configurations. */
+    command: string
+    /** Relative to the project root unless absolute. */
+    cwd?: string
+    env?: Record<string, string>
+    shell?: DevScopeShellId
+    /** Configurations that must be ready before this one starts, e.g. build before serve. */
+    dependsOn?: string[]
+    /**
+     * `exited` (default): dependents wait until this one exits successfully, like a build.
+     * `started`: dependents start once it is running, like a database or an API server.
+     */
+    readyWhen?: DevScopeRunReadiness
+    /** When set, launching this configuration starts every listed configuration at once. */
+    compound?: string[]
+    restartPolicy?: DevScopeRunRestartPolicy
+    maxRestarts?: number
+}
+
+export type DevScopeRunState = 'idle' | 'waiting' | 'running' | 'succeeded' | 'failed' | 'restarting' | 'stopped'
+
+export type DevScopeRunStatus = {
+    projectPath: string
+    configId: string
+    name: string
+    command: string
+    state: DevScopeRunState
+    /** Preview terminal session that shows the output. */
+    sessionId: string | null
+    exitCode: number | null
+    restarts: number
+    updatedAt: number
+    message?: string
+}
+
+export const TASK_RUNNER_EVENT_CHANNEL = 'devscope:taskRunner:event'
+
+export type DevScopeTaskRunnerEvent = {
+    type: 'status'
+    status: DevScopeRunStatus
+}
+
+export interface DevScopeRunConfigurationApi {
+    listRunConfigurations: (projectPath: string) =>
+        Promise<DevScopeResult<{ configurations: DevScopeRunConfiguration[]; statuses: DevScopeRunStatus[] }>>
+    saveRunConfiguration: (input: { projectPath: string; configuration: DevScopeRunConfiguration }) =>
+        Promise<DevScopeResult<{ configuration: DevScopeRunConfiguration }>>
+    deleteRunConfiguration: (input: { projectPath: string; configId: string }) => Promise<DevScopeResult>
+    launchRunConfiguration: (input: { projectPath: string; configId: string; shell?: DevScopeShellId }) => Promise<DevScopeResult>
+    stopRunConfiguration: (input: { projectPath: string; configId: string }) => Promise<DevScopeResult>
+    listRunStatuses: () => Promise<DevScopeResult<{ statuses: DevScopeRunStatus[] }>>
+    onTaskRunnerEvent: (callback: (event: DevScopeTaskRunnerEvent) => void) => () => void
+}
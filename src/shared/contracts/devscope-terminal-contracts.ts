@@ -0,0 +1,103 @@
+import type { DevScopeResult } from './devscope-api'
+
+/** Shell id, e.g. `powershell`, `pwsh`, `cmd`, `bash`, `zsh`, `git-bash` or `wsl:Ubuntu`. */
+export type DevScopeShellId = string
+
+export type DevScopeTerminalShell = {
+    id: DevScopeShellId
+    label: string
+    path: string | null
+    version: string | null
+    available: boolean
+    isDefault: boolean
+}
+
+export type DevScopePreviewTerminalSessionSummary = {
+    sessionId: string
+    title: string
+    shell: string
+    shellId?: DevScopeShellId
+    cwd: string
+    groupKey: string
+    status: 'running' | 'exited' | 'error'
+    startedAt: number
+    lastActivityAt: number
+    exitCode?: number | null
+    recentOutput?: string
+    launchCommand?: string | null
+    autoRelaunch?: boolean
+    /** Task-runner sessions relaunch through this run configuration instead of a plain shell. */
+    runConfigurationId?: string | null
+    /** Saved by a previous app run; not backed by a process until relaunched. */
+    restored?: boolean
+}
+
+/** Sessions owned by the main-process TerminalManager share the preview terminal session shape. */
+export type DevScopeTerminalSessionSummary = Pick<
+    DevScopePreviewTerminalSessionSummary,
+    'sessionId' | 'title' | 'shell' | 'shellId' | 'cwd' | 'groupKey' | 'status' | 'startedAt' | 'lastActivityAt' | 'exitCode'
+> & {
+    error?: string
+}
+
+export type DevScopeTerminalOutputEvent = {
+    sessionId: string
+    type: 'output' | 'exit'
+    data: string
+    exitCode?: number
+}
+
+export type DevScopePreviewTerminalEvent = {
+    sessionId: string
+    type: 'started' | 'output' | 'exit' | 'error' | 'title'
+    data?: string
+    message?: string
+    shell?: string
+    cwd?: string
+    title?: string
+    groupKey?: string
+    status?: 'running' | 'exited' | 'error'
+    exitCode?: number
+}
+
+export interface DevScopeTerminalApi {
+    create: (input?: { name?: string; cwd?: string; shell?: DevScopeShellId }) =>
+        Promise<DevScopeResult<{ session: DevScopeTerminalSessionSummary }>>
+    list: () => Promise<DevScopeResult<{ sessions: DevScopeTerminalSessionSummary[] }>>
+    kill: (sessionId: string) => Promise<DevScopeResult<{ killed: boolean }>>
+    write: (input: { sessionId: string; data: string }) => Promise<DevScopeResult>
+    resize: (input: { sessionId: string; cols: number; rows: number }) => Promise<DevScopeResult>
+    capabilities: () => Promise<DevScopeResult<{ defaultShellId: DevScopeShellId; capabilities: DevScopeTerminalShell[] }>>
+    suggestions: (input: { cwd?: string; partial?: string }) => Promise<DevScopeResult<{ suggestions: string[] }>>
+    banner: (input?: { cwd?: string }) => Promise<DevScopeResult<{ banner: string }>>
+    onOutput: (callback: (event: DevScopeTerminalOutputEvent) => void) => () => void
+}
+
+/** Preview terminals: the panel terminals of the file preview and the Terminals page. */
+export interface DevScopePreviewTerminalApi {
+    createPreviewTerminal: (input: {
+        sessionId: string
+        targetPath?: string
+        preferredShell?: DevScopeShellId
+        cols?: number
+        rows?: number
+        title?: string
+        /** Typed into the new shell and remembered for relaunches. */
+        launchCommand?: string
+    }) => Promise<DevScopeResult<{ shell: string; cwd: string; groupKey: string; session: DevScopePreviewTerminalSessionSummary }>>
+    listPreviewTerminalSessions: (input?: { targetPath?: string }) =>
+        Promise<DevScopeResult<{ groupKey?: string; cwd?: string; sessions: DevScopePreviewTerminalSessionSummary[] }>>
+    writePreviewTerminal: (input: { sessionId: string; data: string }) => Promise<DevScopeResult>
+    setPreviewTerminalTitle: (input: { sessionId: string; title: string }) => Promise<DevScopeResult<{ title: string }>>
+    resizePreviewTerminal: (input: { sessionId: string; cols: number; rows: number }) => Promise<DevScopeResult>
+    closePreviewTerminal: (sessionId: string) => Promise<DevScopeResult<{ closed: boolean }>>
+    relaunchPreviewTerminal: (input: { sessionId: string; cols?: number; rows?: number; rerunCommand?: boolean }) =>
+        Promise<DevScopeResult<{ shell: string; cwd: string; groupKey: string; session: DevScopePreviewTerminalSessionSummary }>>
+    relaunchPreviewTerminalsForPath: (input: { targetPath: string }) =>
+        Promise<DevScopeResult<{ sessions: DevScopePreviewTerminalSessionSummary[] }>>
+    setPreviewTerminalAutoRelaunch: (input: { sessionId: string; enabled: boolean }) =>
+        Promise<DevScopeResult<{ autoRelaunch: boolean }>>
+    setPreviewTerminalLaunchCommand: (input: { sessionId: string; command: string | null }) =>
+        Promise<DevScopeResult<{ launchCommand: string | null; autoRelaunch: boolean }>>
+    onPreviewTerminalEvent: (callback: (event: DevScopePreviewTerminalEvent) => void) => () => void
+}
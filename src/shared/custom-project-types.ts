@@ -0,0 +1,44 @@
+import type { DevScopeCustomProjectType } from './contracts/devscope-project-contracts'
+
+/** Ids of the built-in project types; custom types cannot reuse them. */
+export const BUILT_IN_PROJECT_TYPE_IDS = new Set([
+    'node', 'python', 'rust', 'go', 'java', 'dotnet', 'ruby', 'php', 'dart', 'elixir', 'cpp', 'git'
+])
+
+const CUSTOM_PROJECT_TYPE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+export function toCustomProjectTypeId(value: string): string {
+    return String(value || '')
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+}
+
+/** Used by both the settings store and the main process, so both accept the same types. */
+export function sanitizeCustomProjectTypes(value: unknown): DevScopeCustomProjectType[] {
+    if (!Array.isArray(value)) return []
+    const seenIds = new Set<string>()
+    const types: DevScopeCustomProjectType[] = []
+
+    for (const candidate of value) {
+        if (!candidate || typeof candidate !== 'object') continue
+        const record = candidate as Record<string, unknown>
+        const id = toCustomProjectTypeId(String(record.id || ''))
+        const markers = Array.isArray(record.markers)
+            ? record.markers.map((marker) => String(marker || '').trim()).filter(Boolean)
+            : []
+        if (!CUSTOM_PROJECT_TYPE_ID_PATTERN.test(id) || BUILT_IN_PROJECT_TYPE_IDS.has(id) || seenIds.has(id) || markers.length === 0) continue
+        seenIds.add(id)
+        types.push({
+            id,
+            displayName: typeof record.displayName === 'string' && record.displayName.trim() ? record.displayName.trim() : id,
+            markers,
+            themeColor: typeof record.themeColor === 'string' && record.themeColor.trim() ? record.themeColor.trim() : '#6B7280',
+            icon: typeof record.icon === 'string' ? record.icon.trim() : undefined,
+            description: typeof record.description === 'string' ? record.description.trim() : undefined
+        })
+    }
+
+    return types
+}
@@ -0,0 +1,107 @@
+/**
+ * Forge detection from git remote URLs.
+ *
+ * Shared so the Git tab can decide whether to offer the pull request flow from the same
+ * parsing the main process uses to pick a GitHub, GitLab or Gitea provider. Self-hosted
+ * instances whose host name gives no hint are declared in git config with
+ * `git config devscope.<host>.forge gitlab|gitea|github`.
+ */
+import type { DevScopeForgeKind } from './contracts/devscope-git-contracts'
+
+export interface ForgeRepoRef {
+    kind: DevScopeForgeKind
+    host: string
+    /** Everything before the repository name; GitLab groups can be nested (`group/subgroup`). */
+    owner: string
+    repo: string
+    fullName: string
+    htmlUrl: string
+    apiBaseUrl: string
+}
+
+export const FORGE_KINDS: DevScopeForgeKind[] = ['github', 'gitlab', 'gitea']
+
+const FORGE_LABELS: Record<DevScopeForgeKind, string> = {
+    github: 'GitHub',
+    gitlab: 'GitLab',
+    gitea: 'Gitea'
+}
+
+export function getForgeLabel(kind: DevScopeForgeKind): string {
+    return FORGE_LABELS[kind]
+}
+
+export function isForgeKind(value: unknown): value is DevScopeForgeKind {
+    return typeof value === 'string' && (FORGE_KINDS as string[]).includes(value)
+}
+
+/** Guesses the forge from well-known hosts and host names such as `gitlab.example.com`. */
+export function detectForgeKind(host: string): DevScopeForgeKind | null {
+    const normalized = host.trim().toLowerCase()
+    if (!normalized) return null
+    if (normalized === 'github.com' || normalized.endsWith('.github.com') || /(^|[.-])github([.-]|$)/.test(normalized)) return 'github'
+    if (/(^|[.-])gitlab([.-]|$)/.test(normalized)) return 'gitlab'
+    if (normalized === 'codeberg.org' || /(^|[.-])(gitea|forgejo)([.-]|$)/.test(normalized)) return 'gitea'
+    return null
+}
+
+function splitRemoteUrl(remoteUrl: string): { host: string; path: string } | null {
+    const trimmed = String(remoteUrl || '').trim()
+    if (!trimmed) return null
+
+    // scp-like syntax: git@host:owner/repo.git
+    const scpMatch = trimmed.match(/^(?:[^@/\s]+@)?([^:/\s]+):(?!\/\/)(.+)$/)
+    if (scpMatch && !/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+        return { host: scpMatch[1], path: scpMatch[2] }
+    }
+
+    try {
+        const url = new URL(trimmed)
+        if (!['http:', 'https:', 'ssh:', 'git:'].includes(url.protocol)) return null
+        // HTTP remotes keep their port because the web UI and API live on it; an SSH port is not the web port.
+        const host = url.protocol === 'http:' || url.protocol === 'https:' ? url.host : url.hostname
+        return { host, path: decodeURIComponent(url.pathname) }
+    } catch {
+        return null
+    }
+}
+
+function getApiBaseUrl(kind: DevScopeForgeKind, host: string): string {
+    if (kind === 'github') {
+        return host.toLowerCase() === 'github.com' ? 'https://api.github.com' : `https://${host}/api/v3`
+    }
+    return kind === 'gitlab' ? `https://${host}/api/v4` : `https://${host}/api/v1`
+}
+
+/**
+ * Parses SSH, scp-like and HTTPS remotes. `hostForges` maps host names to a forge for
+ * instances `detectForgeKind` cannot recognise; it wins over the host name guess.
+ */
+export function parseForgeRemoteRef(
+    remoteUrl: string,
+    hostForges?: Record<string, DevScopeForgeKind>
+): ForgeRepoRef | null {
+    const parts = splitRemoteUrl(remoteUrl)
+    if (!parts) return null
+
+    const host = parts.host.toLowerCase()
+    const kind = hostForges?.[host] ?? hostForges?.[host.replace(/:\d+$/, '')] ?? detectForgeKind(host)
+    if (!kind) return null
+
+    const segments = parts.path.replace(/\.git\/?$/i, '').split('/').filter(Boolean)
+    // GitHub and Gitea repositories are always owner/repo; only GitLab nests groups.
+    if (segments.length < 2 || (kind !== 'gitlab' && segments.length !== 2)) return null
+
+    const repo = segments[segments.length - 1]
+    const owner = segments.slice(0, -1).join('/')
+    const fullName = `${owner}/${repo}`
+    return {
+        kind,
+        host,
+        owner,
+        repo,
+        fullName,
+        htmlUrl: `https://${host}/${fullName}`,
+        apiBaseUrl: getApiBaseUrl(kind, host)
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * Conflict-marker parsing and per-hunk resolution for the merge conflict editor.
+ *
+ * Works on the raw working-tree text so user edits outside conflict blocks survive.
+ * Lines are split on `\n` only; a trailing `\r` stays part of the line so CRLF files
+ * round-trip unchanged.
+ */
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both' | 'base'
+
+export interface ConflictBlock {
+    index: number
+    /** Line index (0-based) of the `<<<<<<<` marker. */
+    startLine: number
+    /** Line index (0-based) of the `>>>>>>>` marker. */
+    endLine: number
+    oursLabel: string
+    theirsLabel: string
+    ours: string[]
+    /** Common ancestor lines; only present for diff3/zdiff3-style markers. */
+    base: string[] | null
+    theirs: string[]
+}
+
+type MarkerKind = 'start' | 'base' | 'separator' | 'end'
+
+function readMarker(line: string): { kind: MarkerKind; label: string } | null {
+    const value = line.replace(/\r$/, '')
+    const prefix = value.slice(0, 7)
+    const rest = value.slice(7)
+    if (rest && !rest.startsWith(' ')) return null
+
+    const label = rest.trim()
+    if (prefix === '<<<<<<<') return { kind: 'start', label }
+    if (prefix === '|||||||') return { kind: 'base', label }
+    if (prefix === '=======' && !rest) return { kind: 'separator', label }
+    if (prefix === '>>>>>>>') return { kind: 'end', label }
+    return null
+}
+
+export function parseConflictBlocks(text: string): ConflictBlock[] {
+    const lines = text.split('\n')
+    const blocks: ConflictBlock[] = []
+    let current: ConflictBlock | null = null
+    let section: 'ours' | 'base' | 'theirs' = 'ours'
+
+    const openBlock = (label: string, lineIndex: number): ConflictBlock => {
+        section = 'ours'
+        return {
+            index: blocks.length,
+            startLine: lineIndex,
+            endLine: lineIndex,
+            oursLabel: label,
+            theirsLabel: '',
+            ours: [],
+            base: null,
+            theirs: []
+        }
+    }
+
+    lines.forEach((line, lineIndex) => {
+        const marker = readMarker(line)
+
+        if (!current) {
+            if (marker?.kind === 'start') current = openBlock(marker.label, lineIndex)
+            return
+        }
+
+        const block: ConflictBlock = current
+        if (marker?.kind === 'start') {
+            // The previous block was never closed; start over from this marker.
+            current = openBlock(marker.label, lineIndex)
+        } else if (marker?.kind === 'base' && section === 'ours') {
+            block.base = []
+            section = 'base'
+        } else if (marker?.kind === 'separator' && section !== 'theirs') {
+            section = 'theirs'
+        } else if (marker?.kind === 'end' && section === 'theirs') {
+            block.endLine = lineIndex
+            block.theirsLabel = marker.label
+            blocks.push(block)
+            current = null
+        } else if (section === 'ours') {
+            block.ours.push(line)
+        } else if (section === 'base') {
+            block.base?.push(line)
+        } else {
+            block.theirs.push(line)
+        }
+    })
+
+    return blocks
+}
+
+function linesForChoice(block: ConflictBlock, choice: ConflictChoice): string[] {
+    switch (choice) {
+        case 'ours':
+            return block.ours
+        case 'theirs':
+            return block.theirs
+        case 'both':
+            return [...block.ours, ...block.theirs]
+        case 'base':
+            return block.base ?? []
+    }
+}
+
+/** Replace one conflict block (by its index in `parseConflictBlocks`) with the chosen side. */
+export function resolveConflictBlock(text: string, blockIndex: number, choice: ConflictChoice): string {
+    const block = parseConflictBlocks(text)[blockIndex]
+    if (!block) return text
+
+    const lines = text.split('\n')
+    lines.splice(block.startLine, block.endLine - block.startLine + 1, ...linesForChoice(block, choice))
+    return lines.join('\n')
+}
+
+export function resolveAllConflictBlocks(text: string, choice: ConflictChoice): string {
+    let next = text
+    while (parseConflictBlocks(next).length > 0) {
+        next = resolveConflictBlock(next, 0, choice)
+    }
+    return next
+}
+
+/**
+ * Text with base sections and marker labels removed, so a file written with plain `merge`
+ * markers can be matched against a diff3 rendering of the same conflict.
+ */
+export function normalizeConflictMarkers(text: string): string {
+    const output: string[] = []
+    let inBase = false
+
+    for (const line of text.split('\n')) {
+        const marker = readMarker(line)
+        if (marker?.kind === 'base') {
+            inBase = true
+            continue
+        }
+        if (marker?.kind === 'separator') inBase = false
+        if (inBase) continue
+        output.push(marker ? line.replace(/\r$/, '').slice(0, 7) : line)
+    }
+
+    return output.join('\n')
+}
@@ -0,0 +1,52 @@
+import { execFileSync } from 'node:child_process'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { buildPartialPatch, parseUnifiedDiff } from './git-patch'
+
+const repos: string[] = []
+
+function git(cwd: string, args: string[], input?: string): string {
+    return execFileSync('git', args, { cwd, input, encoding: 'utf8' })
+}
+
+/** Commits `base`, writes `worktree`, stages the picked `+x`/`-x` lines and returns the index blob. */
+function stageLines(base: string, worktree: string, picked: string[]): string {
+    const repo = mkdtempSync(join(tmpdir(), 'devscope-git-patch-'))
+    repos.push(repo)
+    git(repo, ['init', '-q'])
+    git(repo, ['config', 'user.email', 'test@example.com'])
+    git(repo, ['config', 'user.name', 'Test'])
+    writeFileSync(join(repo, 'file.txt'), base)
+    git(repo, ['add', 'file.txt'])
+    git(repo, ['commit', '-qm', 'base'])
+    writeFileSync(join(repo, 'file.txt'), worktree)
+
+    const [file] = parseUnifiedDiff(git(repo, ['diff', '--no-color']))
+    const selections = file.hunks.map((hunk) => ({
+        header: hunk.header,
+        lines: hunk.lines.flatMap((line, index) => {
+            const label = `${line.kind === 'add' ? '+' : '-'}${line.text}`
+            return line.kind !== 'context' && picked.includes(label) ? [index] : []
+        })
+    }))
+    const patch = buildPartialPatch(file, selections, 'apply')
+    expect(patch).not.toBeNull()
+    git(repo, ['apply', '--cached', '-'], patch ?? '')
+    return git(repo, ['show', ':file.txt'])
+}
+
+afterEach(() => {
+    for (const repo of repos.splice(0)) rmSync(repo, { recursive: true, force: true })
+})
+
+describe('buildPartialPatch', () => {
+    it('keeps an unselected last line without a newline at the end of the file', () => {
+        expect(stageLines('a\nb\nc', 'a\nB\nC', ['-b', '+B'])).toBe('a\nB\nc')
+    })
+
+    it('gives an unselected last line its newline back when lines are staged after it', () => {
+        expect(stageLines('a\nb\nc', 'a\nb\nc\nd', ['+d'])).toBe('a\nb\nc\nd')
+    })
+})
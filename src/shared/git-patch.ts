@@ -0,0 +1,337 @@
+/**
+ * Unified-diff parsing and partial patch building for hunk- and line-level staging.
+ *
+ * Shared so the diff viewers and the git writer agree on hunk and line indexes:
+ * the renderer turns a visual selection into `DevScopePatchHunkSelection`s, and the main
+ * process re-reads the current diff and rebuilds the patch from those indexes.
+ */
+import type { DevScopePatchHunkSelection } from './contracts/devscope-git-contracts'
+
+export type PatchLineKind = 'context' | 'add' | 'remove'
+
+export interface PatchHunkLine {
+    kind: PatchLineKind
+    text: string
+    oldLine: number | null
+    newLine: number | null
+    /** The line is followed by `\ No newline at end of file`. */
+    noNewline: boolean
+}
+
+export interface PatchHunk {
+    index: number
+    header: string
+    oldStart: number
+    oldCount: number
+    newStart: number
+    newCount: number
+    /** Function context git prints after the closing `@@`. */
+    section: string
+    lines: PatchHunkLine[]
+}
+
+export interface FilePatch {
+    headerLines: string[]
+    oldPath: string | null
+    newPath: string | null
+    binary: boolean
+    hunks: PatchHunk[]
+}
+
+/**
+ * `apply` builds a patch that moves the base side towards the selected changes (staging).
+ * `reverse` builds one meant for `git apply -R` against the new side (unstaging, discarding).
+ */
+export type PartialPatchDirection = 'apply' | 'reverse'
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/
+
+function stripPathPrefix(value: string): string | null {
+    const trimmed = value.replace(/\t.*$/, '').trim()
+    if (trimmed === '/dev/null') return null
+    return trimmed.replace(/^[ab]\//, '')
+}
+
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+    const files: FilePatch[] = []
+    let file: FilePatch | null = null
+    let hunk: PatchHunk | null = null
+    let oldLine = 0
+    let newLine = 0
+
+    const startFile = () => {
+        file = { headerLines: [], oldPath: null, newPath: null, binary: false, hunks: [] }
+        files.push(file)
+        hunk = null
+        return file
+    }
+
+    for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            startFile().headerLines.push(line)
+            continue
+        }
+
+        const match = HUNK_HEADER_PATTERN.exec(line)
+        if (match) {
+            const current: FilePatch = file ?? startFile()
+            oldLine = Number(match[1])
+            newLine = Number(match[3])
+            hunk = {
+                index: current.hunks.length,
+                header: line,
+                oldStart: oldLine,
+                oldCount: match[2] === undefined ? 1 : Number(match[2]),
+                newStart: newLine,
+                newCount: match[4] === undefined ? 1 : Number(match[4]),
+                section: match[5] || '',
+                lines: []
+            }
+            current.hunks.push(hunk)
+            continue
+        }
+
+        if (!hunk) {
+            if (!line) continue
+            const current: FilePatch = file ?? startFile()
+            current.headerLines.push(line)
+            if (line.startsWith('--- ')) current.oldPath = stripPathPrefix(line.slice(4))
+            if (line.startsWith('+++ ')) current.newPath = stripPathPrefix(line.slice(4))
+            if (line.startsWith('Binary files ') || line === 'GIT binary patch') current.binary = true
+            continue
+        }
+
+        const activeHunk: PatchHunk = hunk
+        if (line.startsWith('\\')) {
+            const previous = activeHunk.lines[activeHunk.lines.length - 1]
+            if (previous) previous.noNewline = true
+        } else if (line.startsWith('+')) {
+            activeHunk.lines.push({ kind: 'add', text: line.slice(1), oldLine: null, newLine: newLine++, noNewline: false })
+        } else if (line.startsWith('-')) {
+            activeHunk.lines.push({ kind: 'remove', text: line.slice(1), oldLine: oldLine++, newLine: null, noNewline: false })
+        } else if (line.startsWith(' ') || (line === '' && isHunkIncomplete(activeHunk))) {
+            activeHunk.lines.push({ kind: 'context', text: line.slice(1), oldLine: oldLine++, newLine: newLine++, noNewline: false })
+        } else {
+            // Anything else (trailing blank line, next file's preamble) closes the hunk.
+            hunk = null
+            if (line) files[files.length - 1]?.headerLines.push(line)
+        }
+    }
+
+    return files
+}
+
+function isHunkIncomplete(hunk: PatchHunk): boolean {
+    let oldSeen = 0
+    let newSeen = 0
+    for (const line of hunk.lines) {
+        if (line.kind !== 'add') oldSeen += 1
+        if (line.kind !== 'remove') newSeen += 1
+    }
+    return oldSeen < hunk.oldCount || newSeen < hunk.newCount
+}
+
+function formatRange(start: number, count: number): string {
+    return count === 1 ? String(start) : `${start},${count}`
+}
+
+type EmittedPatchLine = Pick<PatchHunkLine, 'kind' | 'text' | 'noNewline'>
+
+/**
+ * Neutralise the unselected lines of one hunk. Within a run of changes the n-th removal pairs
+ * with the n-th addition, so a removal kept as context lands where its replacement would have
+ * gone: staging only `b -> B` out of `b, c -> B, C` gives `B, c` rather than `c, B`.
+ */
+function buildHunkLines(
+    hunk: PatchHunk,
+    isSelected: (lineIndex: number) => boolean,
+    direction: PartialPatchDirection
+): EmittedPatchLine[] {
+    const lines: EmittedPatchLine[] = []
+    let block: Array<{ line: PatchHunkLine; selected: boolean }> = []
+
+    const flushBlock = () => {
+        const resolved = block.map(({ line, selected }) => {
+            if (selected) return { line, kind: line.kind }
+            const keepAsContext = direction === 'apply' ? line.kind === 'remove' : line.kind === 'add'
+            return { line, kind: keepAsContext ? 'context' as const : null }
+        })
+        const reordered = resolved.some((entry) => entry.kind === 'context')
+        const ranked = reordered ? rankChangeBlock(resolved) : resolved
+        for (const { line, kind } of ranked) {
+            if (kind) lines.push({ kind, text: line.text, noNewline: line.noNewline })
+        }
+        block = []
+    }
+
+    hunk.lines.forEach((line, lineIndex) => {
+        if (line.kind === 'context') {
+            flushBlock()
+            lines.push({ kind: 'context', text: line.text, noNewline: line.noNewline })
+            return
+        }
+        block.push({ line, selected: isSelected(lineIndex) })
+    })
+    flushBlock()
+    return lines
+}
+
+function rankChangeBlock<T extends { line: PatchHunkLine }>(entries: T[]): T[] {
+    let removeRank = 0
+    let addRank = 0
+    return entries
+        .map((entry) => ({ entry, rank: entry.line.kind === 'remove' ? removeRank++ : addRank++, isAdd: entry.line.kind === 'add' ? 1 : 0 }))
+        .sort((left, right) => left.rank - right.rank || left.isAdd - right.isAdd)
+        .map(({ entry }) => entry)
+}
+
+/**
+ * A line kept as context keeps the `\ No newline` marker of the side the patch applies to. When
+ * the other side still gets lines after it, that line needs its newline there, so it is written as
+ * a remove/add pair where only the base side keeps the marker.
+ */
+function keepEndOfFileState(lines: EmittedPatchLine[], direction: PartialPatchDirection): EmittedPatchLine[] {
+    const laterKind: PatchLineKind = direction === 'apply' ? 'add' : 'remove'
+    return lines.flatMap((line, index) => {
+        if (line.kind !== 'context' || !line.noNewline) return [line]
+        if (!lines.slice(index + 1).some((later) => later.kind === laterKind)) return [line]
+        return [
+            { kind: 'remove' as const, text: line.text, noNewline: direction === 'apply' },
+            { kind: 'add' as const, text: line.text, noNewline: direction === 'reverse' }
+        ]
+    })
+}
+
+/**
+ * Build a patch containing only the selected hunks/lines of `file`.
+ *
+ * Unselected changes are neutralised relative to the side the patch is applied to:
+ * for `apply`, unselected removals become context and unselected additions are dropped;
+ * for `reverse`, unselected additions become context and unselected removals are dropped.
+ * Returns null when the selection contains no changes.
+ */
+export function buildPartialPatch(
+    file: FilePatch,
+    selections: DevScopePatchHunkSelection[],
+    direction: PartialPatchDirection
+): string | null {
+    if (file.binary) throw new Error('Binary files can only be staged as a whole.')
+
+    const hunkByHeader = new Map(file.hunks.map((hunk) => [hunk.header, hunk]))
+    const chosen = new Map<number, Set<number> | null>()
+    for (const selection of selections) {
+        const hunk = hunkByHeader.get(selection.header)
+        if (!hunk) throw new Error('The diff changed since it was loaded. Refresh and select the lines again.')
+        if (!selection.lines) {
+            chosen.set(hunk.index, null)
+            continue
+        }
+        const existing = chosen.get(hunk.index)
+        if (existing === null) continue
+        const lines = existing ?? new Set<number>()
+        selection.lines.forEach((lineIndex) => lines.add(lineIndex))
+        chosen.set(hunk.index, lines)
+    }
+
+    const output: string[] = []
+    let offset = 0
+    let hasChanges = false
+
+    for (const hunk of file.hunks) {
+        if (!chosen.has(hunk.index)) continue
+        const selectedLines = chosen.get(hunk.index)
+        const isSelected = (lineIndex: number) => selectedLines === null || selectedLines?.has(lineIndex) === true
+        const emitted = keepEndOfFileState(buildHunkLines(hunk, isSelected, direction), direction)
+        const body: string[] = []
+        let oldCount = 0
+        let newCount = 0
+        let hunkHasChanges = false
+
+        for (const line of emitted) {
+            if (line.kind !== 'context') hunkHasChanges = true
+            if (line.kind !== 'add') oldCount += 1
+            if (line.kind !== 'remove') newCount += 1
+            body.push(`${line.kind === 'add' ? '+' : line.kind === 'remove' ? '-' : ' '}${line.text}`)
+            if (line.noNewline) body.push('\\ No newline at end of file')
+        }
+
+        if (!hunkHasChanges) continue
+        hasChanges = true
+
+        // Only the side the patch is applied to keeps its original line numbers. Headers with a
+        // zero count point at the line before the hunk, so work with first-line positions here.
+        const firstOld = direction === 'apply'
+            ? (hunk.oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart)
+            : (hunk.newCount === 0 ? hunk.newStart + 1 : hunk.newStart) - offset
+        const firstNew = direction === 'apply'
+            ? firstOld + offset
+            : (hunk.newCount === 0 ? hunk.newStart + 1 : hunk.newStart)
+        const startOld = oldCount === 0 ? firstOld - 1 : firstOld
+        const startNew = newCount === 0 ? firstNew - 1 : firstNew
+        output.push(`@@ -${formatRange(startOld, oldCount)} +${formatRange(startNew, newCount)} @@${hunk.section}`)
+        output.push(...body)
+        offset += newCount - oldCount
+    }
+
+    if (!hasChanges) return null
+    const header = file.headerLines.filter((line) => !line.startsWith('index '))
+    return `${[...header, ...output].join('\n')}\n`
+}
+
+/** Indexes (within each hunk) of every changed line, for "select all" style helpers. */
+export function getChangedLineIndexes(hunk: PatchHunk): number[] {
+    return hunk.lines.flatMap((line, index) => (line.kind === 'context' ? [] : [index]))
+}
+
+/**
+ * Turn a contiguous range of rendered diff rows into hunk selections. Rows are addressed
+ * by their position in the flattened hunk bodies, which is how both diff viewers lay them out.
+ */
+export function selectionsFromRowRange(hunks: PatchHunk[], startRow: number, endRow: number): DevScopePatchHunkSelection[] {
+    const from = Math.min(startRow, endRow)
+    const to = Math.max(startRow, endRow)
+    const selections: DevScopePatchHunkSelection[] = []
+    let row = 0
+
+    for (const hunk of hunks) {
+        const lines: number[] = []
+        hunk.lines.forEach((line, lineIndex) => {
+            if (row >= from && row <= to && line.kind !== 'context') lines.push(lineIndex)
+            row += 1
+        })
+        if (lines.length > 0) selections.push({ header: hunk.header, lines })
+    }
+
+    return selections
+}
+
+/**
+ * Row index (see `selectionsFromRowRange`) of the first line showing `lineNumber` on `side`.
+ * `deletions` addresses old line numbers, `additions` new ones; context lines match both.
+ */
+export function findRowForLineNumber(hunks: PatchHunk[], lineNumber: number, side: 'deletions' | 'additions'): number | null {
+    let row = 0
+    for (const hunk of hunks) {
+        for (const line of hunk.lines) {
+            const value = side === 'deletions' ? line.oldLine : line.newLine
+            if (value === lineNumber) return row
+            row += 1
+        }
+    }
+    return null
+}
+
+/**
+ * Hunk selections for a line-number range as reported by the diff viewers, where `side`
+ * says whether the numbers refer to the old (`deletions`) or new (`additions`) file.
+ */
+export function selectionsFromLineRange(
+    hunks: PatchHunk[],
+    range: { start: number; end: number; side?: 'deletions' | 'additions'; endSide?: 'deletions' | 'additions' }
+): DevScopePatchHunkSelection[] {
+    const startSide = range.side ?? 'additions'
+    const startRow = findRowForLineNumber(hunks, range.start, startSide)
+    const endRow = findRowForLineNumber(hunks, range.end, range.endSide ?? startSide)
+    if (startRow === null || endRow === null) return []
+    return selectionsFromRowRange(hunks, startRow, endRow)
+}
@@ -0,0 +1,10 @@
+/**
+ * Key for a project's run configurations and statuses, shared by the store, the task runner
+ * and the renderer so all of them group the same paths together.
+ *
+ * Windows paths (drive letter or UNC) compare case-insensitively; POSIX paths keep their case.
+ */
+export function normalizeRunProjectKey(projectPath: string): string {
+    const normalized = String(projectPath || '').trim().replace(/\\/g, '/').replace(/(.)\/+$/, '$1')
+    return /^(?:[A-Za-z]:\/|\/\/)/.test(normalized) ? normalized.toLowerCase() : normalized
+}
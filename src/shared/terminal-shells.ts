@@ -0,0 +1,64 @@
+/**
+ * Shell identifiers shared by the preview terminal API, settings and the terminal inspectors.
+ *
+ * Ids are plain strings so detected shells (Git Bash, individual WSL distributions)
+ * can be stored in settings without widening a union every time:
+ * `powershell`, `pwsh`, `cmd`, `bash`, `zsh`, `fish`, `sh`, `git-bash`, `wsl` or `wsl:<distro>`.
+ */
+
+export type ShellKind = 'powershell' | 'pwsh' | 'cmd' | 'bash' | 'zsh' | 'fish' | 'sh' | 'git-bash' | 'wsl'
+export type ShellFamily = 'powershell' | 'cmd' | 'posix'
+
+const SHELL_KIND_LABELS: Record<ShellKind, string> = {
+    powershell: 'PowerShell',
+    pwsh: 'PowerShell 7',
+    cmd: 'CMD',
+    bash: 'Bash',
+    zsh: 'Zsh',
+    fish: 'Fish',
+    sh: 'sh',
+    'git-bash': 'Git Bash',
+    wsl: 'WSL'
+}
+
+const WSL_PREFIX = 'wsl:'
+
+export function parseShellId(value: unknown): { kind: ShellKind; distro: string | null } | null {
+    const id = String(value || '').trim()
+    if (!id) return null
+    if (id.toLowerCase().startsWith(WSL_PREFIX)) {
+        const distro = id.slice(WSL_PREFIX.length).trim()
+        return { kind: 'wsl', distro: distro || null }
+    }
+    const kind = id.toLowerCase() as ShellKind
+    return kind in SHELL_KIND_LABELS ? { kind, distro: null } : null
+}
+
+export function normalizeShellId(value: unknown): string | null {
+    const parsed = parseShellId(value)
+    if (!parsed) return null
+    return parsed.distro ? `${WSL_PREFIX}${parsed.distro}` : parsed.kind
+}
+
+export function buildWslShellId(distro: string): string {
+    return `${WSL_PREFIX}${distro.trim()}`
+}
+
+export function getShellLabel(value: unknown): string {
+    const parsed = parseShellId(value)
+    if (!parsed) return String(value || '').trim() || 'Terminal'
+    return parsed.distro ? `WSL: ${parsed.distro}` : SHELL_KIND_LABELS[parsed.kind]
+}
+
+/** Quoting/env syntax used when DevScope composes commands for the shell. */
+export function getShellFamily(value: unknown): ShellFamily {
+    const kind = parseShellId(value)?.kind
+    if (kind === 'cmd') return 'cmd'
+    if (kind === 'powershell' || kind === 'pwsh' || !kind) return 'powershell'
+    return 'posix'
+}
+
+/** The external terminal launcher only knows PowerShell and CMD. */
+export function toExternalTerminalShell(value: unknown): 'powershell' | 'cmd' {
+    return parseShellId(value)?.kind === 'cmd' ? 'cmd' : 'powershell'
+}